@@ -6,6 +6,9 @@ import "./FairtradeTypes.sol";
 /// @title ActorRegistry
 /// @notice Registry of all organisations participating in the FairTrade network.
 /// @dev Lightweight ownable registry; other contracts query it for role and status.
+///      Role, status and metadata belong to the organisation; an org may authorise
+///      several wallets, which all act with the org's record. The first wallet in
+///      getOrgWallets is the org's primary wallet (returned by getActorByOrg).
 contract ActorRegistry {
     struct Actor {
         bytes32 orgIdHash;            // hash of off-chain org id
@@ -16,11 +19,17 @@ contract ActorRegistry {
 
     address public owner;
 
-    // wallet => actor record
-    mapping(address => Actor) private _actors;
+    // orgIdHash => actor record (orgIdHash field is zero for unknown orgs)
+    mapping(bytes32 => Actor) private _orgs;
 
-    // orgIdHash => primary wallet
-    mapping(bytes32 => address) private _walletByOrg;
+    // wallet => orgIdHash it is authorised for
+    mapping(address => bytes32) private _orgByWallet;
+
+    // orgIdHash => authorised wallets, primary first
+    mapping(bytes32 => address[]) private _walletsByOrg;
+
+    // wallet => index in _walletsByOrg[its org]
+    mapping(address => uint256) private _walletIndex;
 
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
 
@@ -42,6 +51,10 @@ contract ActorRegistry {
     event ActorStatusUpdated(bytes32 indexed orgIdHash, FairtradeTypes.Status status);
     event ActorMetadataUpdated(bytes32 indexed orgIdHash, bytes32 metadataHash);
 
+    event OrgWalletAdded(bytes32 indexed orgIdHash, address indexed wallet);
+    event OrgWalletRemoved(bytes32 indexed orgIdHash, address indexed wallet);
+    event OrgWalletRotated(bytes32 indexed orgIdHash, address indexed oldWallet, address indexed newWallet);
+
     modifier onlyOwner() {
         require(msg.sender == owner, "ActorRegistry: only owner");
         _;
@@ -75,8 +88,8 @@ contract ActorRegistry {
         require(wallet != address(0), "ActorRegistry: zero wallet");
         require(orgIdHash != bytes32(0), "ActorRegistry: zero orgId");
         require(role != FairtradeTypes.Role.None, "ActorRegistry: invalid role");
-        require(_walletByOrg[orgIdHash] == address(0), "ActorRegistry: org exists");
-        require(_actors[wallet].orgIdHash == bytes32(0), "ActorRegistry: wallet used");
+        require(_orgs[orgIdHash].orgIdHash == bytes32(0), "ActorRegistry: org exists");
+        require(_orgByWallet[wallet] == bytes32(0), "ActorRegistry: wallet used");
 
         Actor memory actor = Actor({
             orgIdHash: orgIdHash,
@@ -85,8 +98,8 @@ contract ActorRegistry {
             metadataHash: metadataHash
         });
 
-        _actors[wallet] = actor;
-        _walletByOrg[orgIdHash] = wallet;
+        _orgs[orgIdHash] = actor;
+        _linkWallet(orgIdHash, wallet);
 
         emit ActorRegistered(orgIdHash, wallet, role, metadataHash);
         emit ActorUpdated(orgIdHash, wallet, role, actor.status, metadataHash);
@@ -94,35 +107,96 @@ contract ActorRegistry {
 
     function updateActorRole(bytes32 orgIdHash, FairtradeTypes.Role newRole) external onlyOwner {
         require(newRole != FairtradeTypes.Role.None, "ActorRegistry: invalid role");
-        address wallet = _walletByOrg[orgIdHash];
-        require(wallet != address(0), "ActorRegistry: unknown org");
-
-        Actor storage actor = _actors[wallet];
+        Actor storage actor = _knownOrg(orgIdHash);
         actor.role = newRole;
 
-        emit ActorUpdated(orgIdHash, wallet, actor.role, actor.status, actor.metadataHash);
+        emit ActorUpdated(orgIdHash, _primaryWallet(orgIdHash), actor.role, actor.status, actor.metadataHash);
     }
 
     function updateActorStatus(bytes32 orgIdHash, FairtradeTypes.Status newStatus) external onlyOwner {
-        address wallet = _walletByOrg[orgIdHash];
-        require(wallet != address(0), "ActorRegistry: unknown org");
-
-        Actor storage actor = _actors[wallet];
+        Actor storage actor = _knownOrg(orgIdHash);
         actor.status = newStatus;
 
         emit ActorStatusUpdated(orgIdHash, newStatus);
-        emit ActorUpdated(orgIdHash, wallet, actor.role, newStatus, actor.metadataHash);
+        emit ActorUpdated(orgIdHash, _primaryWallet(orgIdHash), actor.role, newStatus, actor.metadataHash);
     }
 
     function updateActorMetadata(bytes32 orgIdHash, bytes32 newMetadataHash) external onlyOwner {
-        address wallet = _walletByOrg[orgIdHash];
-        require(wallet != address(0), "ActorRegistry: unknown org");
-
-        Actor storage actor = _actors[wallet];
+        Actor storage actor = _knownOrg(orgIdHash);
         actor.metadataHash = newMetadataHash;
 
         emit ActorMetadataUpdated(orgIdHash, newMetadataHash);
-        emit ActorUpdated(orgIdHash, wallet, actor.role, actor.status, newMetadataHash);
+        emit ActorUpdated(orgIdHash, _primaryWallet(orgIdHash), actor.role, actor.status, newMetadataHash);
+    }
+
+    // ------------------------------------------------------------------------
+    // Org wallets
+    // ------------------------------------------------------------------------
+
+    /// @notice Authorise another wallet to act for an existing org.
+    function addOrgWallet(bytes32 orgIdHash, address wallet) external onlyOwner {
+        _knownOrg(orgIdHash);
+        require(wallet != address(0), "ActorRegistry: zero wallet");
+        require(_orgByWallet[wallet] == bytes32(0), "ActorRegistry: wallet used");
+
+        _linkWallet(orgIdHash, wallet);
+        emit OrgWalletAdded(orgIdHash, wallet);
+    }
+
+    /// @notice Revoke a wallet of an org; the org keeps at least one wallet.
+    /// @dev Removing the primary wallet promotes the org's last-added wallet to primary.
+    function removeOrgWallet(bytes32 orgIdHash, address wallet) external onlyOwner {
+        _knownOrg(orgIdHash);
+        require(_orgByWallet[wallet] == orgIdHash, "ActorRegistry: wallet not in org");
+        address[] storage wallets = _walletsByOrg[orgIdHash];
+        require(wallets.length > 1, "ActorRegistry: last wallet");
+
+        uint256 index = _walletIndex[wallet];
+        address moved = wallets[wallets.length - 1];
+        wallets[index] = moved;
+        _walletIndex[moved] = index;
+        wallets.pop();
+
+        delete _orgByWallet[wallet];
+        delete _walletIndex[wallet];
+        emit OrgWalletRemoved(orgIdHash, wallet);
+    }
+
+    /// @notice Replace `oldWallet` with `newWallet` in the same slot (a primary stays primary).
+    function rotateOrgWallet(bytes32 orgIdHash, address oldWallet, address newWallet) external onlyOwner {
+        _knownOrg(orgIdHash);
+        require(_orgByWallet[oldWallet] == orgIdHash, "ActorRegistry: wallet not in org");
+        require(newWallet != address(0), "ActorRegistry: zero wallet");
+        require(_orgByWallet[newWallet] == bytes32(0), "ActorRegistry: wallet used");
+
+        uint256 index = _walletIndex[oldWallet];
+        _walletsByOrg[orgIdHash][index] = newWallet;
+        _walletIndex[newWallet] = index;
+        _orgByWallet[newWallet] = orgIdHash;
+
+        delete _orgByWallet[oldWallet];
+        delete _walletIndex[oldWallet];
+        emit OrgWalletRotated(orgIdHash, oldWallet, newWallet);
+    }
+
+    // ------------------------------------------------------------------------
+    // Internal
+    // ------------------------------------------------------------------------
+
+    function _knownOrg(bytes32 orgIdHash) internal view returns (Actor storage actor) {
+        actor = _orgs[orgIdHash];
+        require(actor.orgIdHash != bytes32(0), "ActorRegistry: unknown org");
+    }
+
+    function _linkWallet(bytes32 orgIdHash, address wallet) internal {
+        _orgByWallet[wallet] = orgIdHash;
+        _walletIndex[wallet] = _walletsByOrg[orgIdHash].length;
+        _walletsByOrg[orgIdHash].push(wallet);
+    }
+
+    function _primaryWallet(bytes32 orgIdHash) internal view returns (address) {
+        address[] storage wallets = _walletsByOrg[orgIdHash];
+        return wallets.length == 0 ? address(0) : wallets[0];
     }
 
     // ------------------------------------------------------------------------
@@ -134,7 +208,7 @@ contract ActorRegistry {
     view
     returns (bytes32 orgIdHash, FairtradeTypes.Role role, FairtradeTypes.Status status, bytes32 metadataHash)
     {
-        Actor memory actor = _actors[wallet];
+        Actor memory actor = _orgs[_orgByWallet[wallet]];
         return (actor.orgIdHash, actor.role, actor.status, actor.metadataHash);
     }
 
@@ -143,18 +217,23 @@ contract ActorRegistry {
     view
     returns (address wallet, FairtradeTypes.Role role, FairtradeTypes.Status status, bytes32 metadataHash)
     {
-        wallet = _walletByOrg[orgIdHash];
-        Actor memory actor = _actors[wallet];
+        wallet = _primaryWallet(orgIdHash);
+        Actor memory actor = _orgs[orgIdHash];
         return (wallet, actor.role, actor.status, actor.metadataHash);
     }
 
+    /// @notice Every wallet authorised for the org, primary first.
+    function getOrgWallets(bytes32 orgIdHash) external view returns (address[] memory) {
+        return _walletsByOrg[orgIdHash];
+    }
+
     function hasRole(address wallet, FairtradeTypes.Role role) external view returns (bool) {
-        Actor memory actor = _actors[wallet];
+        Actor memory actor = _orgs[_orgByWallet[wallet]];
         return actor.role == role && actor.status == FairtradeTypes.Status.Active;
     }
 
     function isActiveActor(address wallet) external view returns (bool) {
-        Actor memory actor = _actors[wallet];
+        Actor memory actor = _orgs[_orgByWallet[wallet]];
         return actor.orgIdHash != bytes32(0) && actor.status == FairtradeTypes.Status.Active;
     }
 }
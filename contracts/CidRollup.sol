@@ -4,6 +4,8 @@ pragma solidity ^0.8.28;
 import "./FairtradeTypes.sol";
 
 interface IActorRegistryForCid {
+    function owner() external view returns (address);
+
     function isActiveActor(address wallet) external view returns (bool);
 
     function getActor(address wallet)
@@ -15,6 +17,12 @@ interface IActorRegistryForCid {
 /// @title CidRollup
 /// @notice High-throughput batch anchor for IPFS CID hashes corresponding to supply-chain steps.
 /// @dev Designed for TPS benchmarking – minimal validation, heavy use of events.
+///      Each Role may only anchor the StepTypes enabled for it in the permission
+///      matrix, which is administered by the ActorRegistry owner.
+///      Actors without gas can sign a batch off-chain (EIP-712 `CidBatch`) and let any
+///      relayer submit it with submitCidBatchFor; the events are attributed to the signer.
+///      Large batches can instead be anchored as a single Merkle root (submitCidRoot); the
+///      leaves stay off-chain and each step is proven with verifyCidInclusion.
 contract CidRollup {
     IActorRegistryForCid public immutable actorRegistry;
 
@@ -35,17 +43,106 @@ contract CidRollup {
         address actor
     );
 
-    /// @dev Emitted once per batch for simpler indexing.
+    /// @dev Emitted once per batch for simpler indexing; for relayed batches `submitter` is the signer.
     event CidBatchSubmitted(address indexed submitter, uint256 count);
 
+    /// @dev Emitted after CidBatchSubmitted for batches submitted by a relayer.
+    event CidBatchRelayed(address indexed signer, address indexed relayer, uint256 nonce);
+
+    /// @dev Emitted once per Merkle-root batch; the leaves themselves are not on-chain.
+    event CidRootAnchored(
+        bytes32 indexed root,
+        uint256 leafCount,
+        uint256 stepTypeMask,
+        bytes32 indexed orgIdHash,
+        address indexed actor
+    );
+
+    /// @dev Emitted whenever a (role, stepType) cell of the permission matrix changes.
+    event StepPermissionSet(FairtradeTypes.Role indexed role, uint8 indexed stepType, bool allowed);
+
     /// @notice Optional anti-replay protection: productId + stepId must be unique.
     mapping(bytes32 => bool) public usedStepKey;
 
+    /// @notice role => bitmask of allowed step types (bit i set = stepType i allowed).
+    mapping(FairtradeTypes.Role => uint256) public stepPermissions;
+
+    /// @notice signer => nonce the next relayed batch must be signed with.
+    mapping(address => uint256) public nonces;
+
+    struct RootAnchor {
+        address actor;
+        uint64 blockNumber;
+        uint32 leafCount;
+        uint256 stepTypeMask; // step types the leaves may carry (bit i = stepType i)
+    }
+
+    /// @notice Merkle root => who anchored it and when; actor is zero for unknown roots.
+    mapping(bytes32 => RootAnchor) public rootAnchors;
+
+    bytes32 public constant CID_EVENT_TYPEHASH =
+        keccak256("CidEvent(bytes32 productId,bytes32 stepId,bytes32 cidHash,uint8 stepType)");
+    bytes32 public constant CID_BATCH_TYPEHASH =
+        keccak256(
+            "CidBatch(address signer,CidEvent[] events,uint256 nonce,uint256 deadline)"
+            "CidEvent(bytes32 productId,bytes32 stepId,bytes32 cidHash,uint8 stepType)"
+        );
+    bytes32 private constant _DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    // secp256k1n / 2, upper bound for non-malleable signatures
+    uint256 private constant _HALF_ORDER = 0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0;
+
+    uint256 private immutable _cachedChainId;
+    bytes32 private immutable _cachedDomainSeparator;
+
+    modifier onlyRegistryOwner() {
+        require(msg.sender == actorRegistry.owner(), "CidRollup: only registry owner");
+        _;
+    }
+
     constructor(address _actorRegistry) {
         require(_actorRegistry != address(0), "CidRollup: actorRegistry is zero");
         actorRegistry = IActorRegistryForCid(_actorRegistry);
+        _cachedChainId = block.chainid;
+        _cachedDomainSeparator = _buildDomainSeparator();
+
+        // Default matrix: each role anchors its own stage; Operator can anchor any step.
+        _setStepPermission(FairtradeTypes.Role.Producer, uint8(FairtradeTypes.StepType.Produced), true);
+        _setStepPermission(FairtradeTypes.Role.Processor, uint8(FairtradeTypes.StepType.Processed), true);
+        _setStepPermission(FairtradeTypes.Role.Logistics, uint8(FairtradeTypes.StepType.Shipped), true);
+        _setStepPermission(FairtradeTypes.Role.Logistics, uint8(FairtradeTypes.StepType.Received), true);
+        _setStepPermission(FairtradeTypes.Role.Retailer, uint8(FairtradeTypes.StepType.AtRetail), true);
+        _setStepPermission(FairtradeTypes.Role.Retailer, uint8(FairtradeTypes.StepType.Sold), true);
+        for (uint8 st = uint8(FairtradeTypes.StepType.Produced); st <= uint8(FairtradeTypes.StepType.Sold); ++st) {
+            _setStepPermission(FairtradeTypes.Role.Operator, st, true);
+        }
+    }
+
+    // ------------------------------------------------------------------------
+    // Permission matrix
+    // ------------------------------------------------------------------------
+
+    /// @notice Allow or forbid `role` to anchor steps of `stepType`.
+    function setStepPermission(FairtradeTypes.Role role, uint8 stepType, bool allowed) external onlyRegistryOwner {
+        require(role != FairtradeTypes.Role.None, "CidRollup: invalid role");
+        _setStepPermission(role, stepType, allowed);
+    }
+
+    function isStepAllowed(FairtradeTypes.Role role, uint8 stepType) external view returns (bool) {
+        return (stepPermissions[role] >> stepType) & 1 == 1;
+    }
+
+    function _setStepPermission(FairtradeTypes.Role role, uint8 stepType, bool allowed) internal {
+        uint256 bit = uint256(1) << stepType;
+        stepPermissions[role] = allowed ? stepPermissions[role] | bit : stepPermissions[role] & ~bit;
+        emit StepPermissionSet(role, stepType, allowed);
     }
 
+    // ------------------------------------------------------------------------
+    // Anchoring
+    // ------------------------------------------------------------------------
+
     function _stepKey(bytes32 productId, bytes32 stepId) internal pure returns (bytes32) {
         return keccak256(abi.encodePacked(productId, stepId));
     }
@@ -53,23 +150,145 @@ contract CidRollup {
     /// @notice Submit a batch of CID events.
     /// @dev All detailed data is pushed into events; storage only tracks replay protection.
     function submitCidBatch(CidEvent[] calldata events) external {
+        _submit(msg.sender, events);
+    }
+
+    /// @notice Submit a batch signed by `signer` (EIP-712 CidBatch); callable by any relayer.
+    /// @dev `nonce` must equal nonces[signer] and is consumed, so a signature is usable once.
+    function submitCidBatchFor(
+        address signer,
+        CidEvent[] calldata events,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "CidRollup: signature expired");
+        require(nonce == nonces[signer], "CidRollup: bad nonce");
+        address recovered = _recover(hashCidBatch(signer, events, nonce, deadline), signature);
+        require(recovered != address(0) && recovered == signer, "CidRollup: invalid signature");
+        nonces[signer] = nonce + 1;
+
+        _submit(signer, events);
+        emit CidBatchRelayed(signer, msg.sender, nonce);
+    }
+
+    function _submit(address actor, CidEvent[] calldata events) internal {
         require(events.length > 0, "CidRollup: empty batch");
-        require(actorRegistry.isActiveActor(msg.sender), "CidRollup: sender not registered");
+        require(actorRegistry.isActiveActor(actor), "CidRollup: sender not registered");
 
-        (bytes32 orgIdHash, , FairtradeTypes.Status status, ) = actorRegistry.getActor(msg.sender);
+        (bytes32 orgIdHash, FairtradeTypes.Role role, FairtradeTypes.Status status, ) = actorRegistry.getActor(actor);
         require(status == FairtradeTypes.Status.Active, "CidRollup: actor not active");
+        uint256 allowedSteps = stepPermissions[role];
 
         uint256 len = events.length;
         for (uint256 i = 0; i < len; ++i) {
-            CidEvent calldata e = events[i];
+            _anchor(events[i], allowedSteps, orgIdHash, actor);
+        }
+
+        emit CidBatchSubmitted(actor, len);
+    }
+
+    function _anchor(CidEvent calldata e, uint256 allowedSteps, bytes32 orgIdHash, address actor) internal {
+        require((allowedSteps >> e.stepType) & 1 == 1, "CidRollup: step not allowed for role");
 
-            bytes32 key = _stepKey(e.productId, e.stepId);
-            require(!usedStepKey[key], "CidRollup: step already anchored");
-            usedStepKey[key] = true;
+        bytes32 key = _stepKey(e.productId, e.stepId);
+        require(!usedStepKey[key], "CidRollup: step already anchored");
+        usedStepKey[key] = true;
 
-            emit CidAnchored(e.productId, e.stepId, e.cidHash, e.stepType, orgIdHash, msg.sender);
+        emit CidAnchored(e.productId, e.stepId, e.cidHash, e.stepType, orgIdHash, actor);
+    }
+
+    // ------------------------------------------------------------------------
+    // Merkle-root anchoring
+    // ------------------------------------------------------------------------
+
+    /// @notice Anchor a batch of CidEvents as one Merkle root (leaves: cidLeafHash, pairs: sorted keccak).
+    /// @dev The role check covers `stepTypeMask`, the set of step types in the batch;
+    ///      verifyCidInclusion only accepts leaves whose stepType is in that mask.
+    ///      Unlike submitCidBatch, (productId, stepId) uniqueness is not enforced on-chain.
+    function submitCidRoot(bytes32 root, uint32 leafCount, uint256 stepTypeMask) external {
+        require(root != bytes32(0), "CidRollup: zero root");
+        require(leafCount > 0, "CidRollup: empty batch");
+        require(rootAnchors[root].actor == address(0), "CidRollup: root already anchored");
+        require(actorRegistry.isActiveActor(msg.sender), "CidRollup: sender not registered");
+
+        (bytes32 orgIdHash, FairtradeTypes.Role role, , ) = actorRegistry.getActor(msg.sender);
+        require(stepTypeMask != 0, "CidRollup: empty step mask");
+        require(stepTypeMask & ~stepPermissions[role] == 0, "CidRollup: step not allowed for role");
+
+        rootAnchors[root] = RootAnchor({
+            actor: msg.sender,
+            blockNumber: uint64(block.number),
+            leafCount: leafCount,
+            stepTypeMask: stepTypeMask
+        });
+        emit CidRootAnchored(root, leafCount, stepTypeMask, orgIdHash, msg.sender);
+    }
+
+    /// @notice Leaf hash of a CidEvent: keccak256(keccak256(abi.encode(event))).
+    function cidLeafHash(CidEvent calldata e) public pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(e.productId, e.stepId, e.cidHash, e.stepType))));
+    }
+
+    /// @notice True if `e` is a leaf of the anchored `root` and its stepType was declared for the root.
+    function verifyCidInclusion(
+        CidEvent calldata e,
+        bytes32 root,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        RootAnchor storage anchor = rootAnchors[root];
+        if (anchor.actor == address(0)) return false;
+        if ((anchor.stepTypeMask >> e.stepType) & 1 == 0) return false;
+
+        bytes32 node = cidLeafHash(e);
+        for (uint256 i = 0; i < proof.length; ++i) {
+            bytes32 sibling = proof[i];
+            node = node < sibling
+                ? keccak256(abi.encodePacked(node, sibling))
+                : keccak256(abi.encodePacked(sibling, node));
+        }
+        return node == root;
+    }
+
+    // ------------------------------------------------------------------------
+    // EIP-712
+    // ------------------------------------------------------------------------
+
+    function domainSeparator() public view returns (bytes32) {
+        return block.chainid == _cachedChainId ? _cachedDomainSeparator : _buildDomainSeparator();
+    }
+
+    /// @notice EIP-712 digest the signer of a relayed batch signs.
+    function hashCidBatch(
+        address signer,
+        CidEvent[] calldata events,
+        uint256 nonce,
+        uint256 deadline
+    ) public view returns (bytes32) {
+        bytes32[] memory eventHashes = new bytes32[](events.length);
+        for (uint256 i = 0; i < events.length; ++i) {
+            CidEvent calldata e = events[i];
+            eventHashes[i] = keccak256(abi.encode(CID_EVENT_TYPEHASH, e.productId, e.stepId, e.cidHash, e.stepType));
         }
+        bytes32 structHash = keccak256(
+            abi.encode(CID_BATCH_TYPEHASH, signer, keccak256(abi.encodePacked(eventHashes)), nonce, deadline)
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    function _buildDomainSeparator() private view returns (bytes32) {
+        return keccak256(
+            abi.encode(_DOMAIN_TYPEHASH, keccak256("FairTrade CidRollup"), keccak256("1"), block.chainid, address(this))
+        );
+    }
 
-        emit CidBatchSubmitted(msg.sender, len);
+    /// @dev 65-byte (r, s, v) signatures only; rejects high-s and returns address(0) when invalid.
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) return address(0);
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > _HALF_ORDER || (v != 27 && v != 28)) return address(0);
+        return ecrecover(digest, v, r, s);
     }
 }
@@ -4,6 +4,8 @@ pragma solidity ^0.8.28;
 import "./FairtradeTypes.sol";
 
 interface IActorRegistryForDocs {
+    function owner() external view returns (address);
+
     function isActiveActor(address wallet) external view returns (bool);
 
     function getActor(address wallet)
@@ -15,9 +17,18 @@ interface IActorRegistryForDocs {
 /// @title DocumentRegistry
 /// @notice Anchors IPFS documents (evidence, reports, certificates) on-chain via events only.
 /// @dev No per-document storage – everything is in events to keep gas low.
+///      Each Role may only anchor the DocTypes enabled for it in the permission
+///      matrix, which is administered by the ActorRegistry owner.
 contract DocumentRegistry {
     IActorRegistryForDocs public immutable actorRegistry;
 
+    struct DocumentInput {
+        bytes32 productId;
+        bytes32 stepId;
+        bytes32 cidHash;
+        uint8 docType; // FairtradeTypes.DocType, serialized as uint8
+    }
+
     event DocumentAnchored(
         bytes32 indexed productId,
         bytes32 indexed stepId,
@@ -27,11 +38,68 @@ contract DocumentRegistry {
         address actor
     );
 
+    /// @dev Emitted whenever a (role, docType) cell of the permission matrix changes.
+    event DocPermissionSet(FairtradeTypes.Role indexed role, uint8 indexed docType, bool allowed);
+
+    /// @notice role => bitmask of allowed document types (bit i set = docType i allowed).
+    mapping(FairtradeTypes.Role => uint256) public docPermissions;
+
+    modifier onlyRegistryOwner() {
+        require(msg.sender == actorRegistry.owner(), "DocumentRegistry: only registry owner");
+        _;
+    }
+
     constructor(address _actorRegistry) {
         require(_actorRegistry != address(0), "DocumentRegistry: actorRegistry is zero");
         actorRegistry = IActorRegistryForDocs(_actorRegistry);
+
+        // Default matrix: each role files its own stage records, only Certifier
+        // issues certificates, only Regulator files inspection reports, both
+        // anchor signed audit attestations and Operator can file any stage
+        // record (but no certificates/inspections/attestations).
+        _setDocPermission(FairtradeTypes.Role.Producer, uint8(FairtradeTypes.DocType.ProductionRecord), true);
+        _setDocPermission(FairtradeTypes.Role.Processor, uint8(FairtradeTypes.DocType.ProcessingRecord), true);
+        _setDocPermission(FairtradeTypes.Role.Logistics, uint8(FairtradeTypes.DocType.ShippingDocument), true);
+        _setDocPermission(FairtradeTypes.Role.Logistics, uint8(FairtradeTypes.DocType.ReceivingRecord), true);
+        _setDocPermission(FairtradeTypes.Role.Retailer, uint8(FairtradeTypes.DocType.RetailRecord), true);
+        _setDocPermission(FairtradeTypes.Role.Retailer, uint8(FairtradeTypes.DocType.SaleRecord), true);
+        _setDocPermission(FairtradeTypes.Role.Certifier, uint8(FairtradeTypes.DocType.Certificate), true);
+        _setDocPermission(FairtradeTypes.Role.Regulator, uint8(FairtradeTypes.DocType.InspectionReport), true);
+        _setDocPermission(FairtradeTypes.Role.Certifier, uint8(FairtradeTypes.DocType.AuditAttestation), true);
+        _setDocPermission(FairtradeTypes.Role.Regulator, uint8(FairtradeTypes.DocType.AuditAttestation), true);
+        for (
+            uint8 dt = uint8(FairtradeTypes.DocType.ProductionRecord);
+            dt <= uint8(FairtradeTypes.DocType.SaleRecord);
+            ++dt
+        ) {
+            _setDocPermission(FairtradeTypes.Role.Operator, dt, true);
+        }
+    }
+
+    // ------------------------------------------------------------------------
+    // Permission matrix
+    // ------------------------------------------------------------------------
+
+    /// @notice Allow or forbid `role` to anchor documents of `docType`.
+    function setDocPermission(FairtradeTypes.Role role, uint8 docType, bool allowed) external onlyRegistryOwner {
+        require(role != FairtradeTypes.Role.None, "DocumentRegistry: invalid role");
+        _setDocPermission(role, docType, allowed);
     }
 
+    function isDocAllowed(FairtradeTypes.Role role, uint8 docType) external view returns (bool) {
+        return (docPermissions[role] >> docType) & 1 == 1;
+    }
+
+    function _setDocPermission(FairtradeTypes.Role role, uint8 docType, bool allowed) internal {
+        uint256 bit = uint256(1) << docType;
+        docPermissions[role] = allowed ? docPermissions[role] | bit : docPermissions[role] & ~bit;
+        emit DocPermissionSet(role, docType, allowed);
+    }
+
+    // ------------------------------------------------------------------------
+    // Anchoring
+    // ------------------------------------------------------------------------
+
     /// @notice Anchor a single document (e.g., PDF, photo, report) via its CID hash.
     function anchorDocument(
         bytes32 productId,
@@ -39,10 +107,43 @@ contract DocumentRegistry {
         bytes32 cidHash,
         uint8 docType
     ) external {
+        (bytes32 orgIdHash, uint256 allowedDocs) = _callerPermissions();
+        _anchor(productId, stepId, cidHash, docType, orgIdHash, allowedDocs);
+    }
+
+    /// @notice Anchor several documents in one transaction.
+    /// @dev The caller is looked up once; one DocumentAnchored is emitted per entry and
+    ///      the whole batch reverts if any entry's docType is not allowed for the role.
+    function anchorDocumentBatch(DocumentInput[] calldata docs) external {
+        require(docs.length > 0, "DocumentRegistry: empty batch");
+        (bytes32 orgIdHash, uint256 allowedDocs) = _callerPermissions();
+
+        uint256 len = docs.length;
+        for (uint256 i = 0; i < len; ++i) {
+            DocumentInput calldata d = docs[i];
+            _anchor(d.productId, d.stepId, d.cidHash, d.docType, orgIdHash, allowedDocs);
+        }
+    }
+
+    function _callerPermissions() internal view returns (bytes32 orgIdHash, uint256 allowedDocs) {
         require(actorRegistry.isActiveActor(msg.sender), "DocumentRegistry: sender not active");
 
-        (bytes32 orgIdHash, , FairtradeTypes.Status status, ) = actorRegistry.getActor(msg.sender);
+        FairtradeTypes.Role role;
+        FairtradeTypes.Status status;
+        (orgIdHash, role, status, ) = actorRegistry.getActor(msg.sender);
         require(status == FairtradeTypes.Status.Active, "DocumentRegistry: actor not active");
+        allowedDocs = docPermissions[role];
+    }
+
+    function _anchor(
+        bytes32 productId,
+        bytes32 stepId,
+        bytes32 cidHash,
+        uint8 docType,
+        bytes32 orgIdHash,
+        uint256 allowedDocs
+    ) internal {
+        require((allowedDocs >> docType) & 1 == 1, "DocumentRegistry: doc type not allowed for role");
 
         // All information is emitted as an event to keep storage minimal.
         emit DocumentAnchored(productId, stepId, cidHash, docType, orgIdHash, msg.sender);
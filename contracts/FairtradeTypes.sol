@@ -34,6 +34,21 @@ library FairtradeTypes {
         Sold
     }
 
+    /// @notice Kind of document anchored in DocumentRegistry (serialized as uint8).
+    /// @dev ProductionRecord..SaleRecord line up with StepType Produced..Sold.
+    enum DocType {
+        Unknown,
+        ProductionRecord,
+        ProcessingRecord,
+        ShippingDocument,
+        ReceivingRecord,
+        RetailRecord,
+        SaleRecord,
+        Certificate,
+        InspectionReport,
+        AuditAttestation
+    }
+
     /// @notice Coarse-grained lifecycle status for a product/batch.
     enum ProcessStatus {
         Unknown,
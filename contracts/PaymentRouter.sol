@@ -4,29 +4,128 @@ pragma solidity ^0.8.28;
 import "./FairtradeTypes.sol";
 
 interface IActorRegistryForPayments {
+    function owner() external view returns (address);
+
     function getActor(address wallet)
     external
     view
     returns (bytes32 orgIdHash, FairtradeTypes.Role role, FairtradeTypes.Status status, bytes32 metadataHash);
 }
 
+interface IProcessManagerForPayments {
+    function getProcess(bytes32 productId) external view returns (FairtradeTypes.ProcessStatus, bytes32 creatorOrgId);
+}
+
+interface IERC20ForPayments {
+    function balanceOf(address account) external view returns (uint256);
+
+    function transfer(address to, uint256 amount) external returns (bool);
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
 /// @title PaymentRouter
 /// @notice Splits FairTrade premiums among stakeholders using basis-point splits.
-/// @dev For benchmarking this implementation only handles ETH payments.
+/// @dev Pays in ETH (routePayment) or any ERC-20 such as a stablecoin (routeTokenPayment).
+///      In Push mode each share is transferred immediately (ETH with a PUSH_GAS_STIPEND
+///      gas cap); a share that cannot be delivered is credited to the recipient's
+///      withdrawable balance instead of reverting the whole payment. In Pull mode every share is credited and
+///      recipients call withdraw(). Rounding remainders stay in the router until the
+///      ActorRegistry owner sweeps them. Token address(0) denotes ETH throughout.
+///      The constructor splits are the default; Operator/Certifier actors can define
+///      named split profiles (e.g. per cooperative or certification scheme) and bind
+///      products to them, so payments for a bound product use the profile's splits.
+///      A profile belongs to the org that created it: only that org's managers or the
+///      ActorRegistry owner may update it, bind products to it or rebind its products.
+///      A product without a profile can only be bound by a manager of the org that
+///      created its process in `processManager`, or by the ActorRegistry owner.
 contract PaymentRouter {
     IActorRegistryForPayments public immutable actorRegistry;
 
+    enum PayoutMode {
+        Push,
+        Pull
+    }
+
     struct Split {
         address recipient;
         uint16 bps; // basis points (1/100 of a percent)
     }
 
+    address internal constant ETH = address(0);
+
+    /// @notice Gas forwarded with each pushed ETH share. A payee that needs more is credited
+    ///         and withdraws instead, so it cannot burn the payer's gas.
+    uint256 public constant PUSH_GAS_STIPEND = 10_000;
+
     Split[] private _splits;
     uint16 public totalBps;
 
+    /// @notice profileId => splits; a profile exists iff it has at least one split.
+    mapping(bytes32 => Split[]) private _profileSplits;
+    mapping(bytes32 => uint16) public profileTotalBps;
+
+    /// @notice profileId => orgIdHash of the actor that created it.
+    mapping(bytes32 => bytes32) public profileOwner;
+
+    /// @notice Where product ownership is looked up for a first binding; set by the registry owner.
+    IProcessManagerForPayments public processManager;
+
+    /// @notice productId => profileId whose splits apply to it (zero = default splits).
+    mapping(bytes32 => bytes32) public productProfile;
+    PayoutMode public payoutMode;
+
+    /// @notice token => account => amount the account can withdraw (token 0 = ETH).
+    mapping(address => mapping(address => uint256)) public withdrawable;
+
+    /// @notice token => sum of all withdrawable balances; the rest of the router's balance is sweepable.
+    mapping(address => uint256) public totalWithdrawable;
+
+    uint256 private _lock = 1;
+
     event SplitConfigured(address indexed recipient, uint16 bps);
     event PaymentReceived(bytes32 indexed productId, address indexed payer, uint256 amount);
     event PaymentRouted(bytes32 indexed productId, address indexed recipient, uint256 amount);
+    event TokenPaymentReceived(
+        bytes32 indexed productId,
+        address indexed token,
+        address indexed payer,
+        uint256 amount
+    );
+    event TokenPaymentRouted(
+        bytes32 indexed productId,
+        address indexed token,
+        address indexed recipient,
+        uint256 amount
+    );
+    /// @dev A share added to `recipient`'s withdrawable balance (Pull mode, or a failed push).
+    event PaymentCredited(
+        bytes32 indexed productId,
+        address indexed token,
+        address indexed recipient,
+        uint256 amount
+    );
+    event Withdrawn(address indexed token, address indexed account, uint256 amount);
+    event RemainderSwept(address indexed token, address indexed to, uint256 amount);
+    event PayoutModeSet(PayoutMode mode);
+    event ProcessManagerSet(address indexed processManager);
+    event SplitProfileCreated(bytes32 indexed profileId, address indexed by, uint16 totalBps);
+    event SplitProfileUpdated(bytes32 indexed profileId, address indexed by, uint16 totalBps);
+    /// @dev Emitted per split after SplitProfileCreated / SplitProfileUpdated; together they are the full new profile.
+    event ProfileSplitConfigured(bytes32 indexed profileId, address indexed recipient, uint16 bps);
+    event ProductProfileSet(bytes32 indexed productId, bytes32 indexed profileId, address indexed by);
+
+    modifier onlyRegistryOwner() {
+        require(msg.sender == actorRegistry.owner(), "PaymentRouter: only registry owner");
+        _;
+    }
+
+    modifier nonReentrant() {
+        require(_lock == 1, "PaymentRouter: reentrant call");
+        _lock = 2;
+        _;
+        _lock = 1;
+    }
 
     constructor(
         address _actorRegistry,
@@ -34,52 +133,291 @@ contract PaymentRouter {
         uint16[] memory bps
     ) {
         require(_actorRegistry != address(0), "PaymentRouter: actorRegistry is zero");
+        actorRegistry = IActorRegistryForPayments(_actorRegistry);
+        totalBps = _validateSplits(recipients, bps);
+
+        for (uint256 i = 0; i < recipients.length; ++i) {
+            _splits.push(Split({recipient: recipients[i], bps: bps[i]}));
+            emit SplitConfigured(recipients[i], bps[i]);
+        }
+    }
+
+    // ------------------------------------------------------------------------
+    // Routing
+    // ------------------------------------------------------------------------
+
+    /// @notice Route an ETH payment for a given product/batch.
+    /// @dev msg.value is split according to configured basis points. Any remainder stays in the contract.
+    function routePayment(bytes32 productId) external payable nonReentrant {
+        require(msg.value > 0, "PaymentRouter: zero value");
+        _requireActivePayer();
+
+        emit PaymentReceived(productId, msg.sender, msg.value);
+        _distribute(productId, ETH, msg.value);
+    }
+
+    /// @notice Route an ERC-20 payment; the router must be approved for `amount` first.
+    /// @dev The split is computed on the amount actually received (balance delta), so
+    ///      fee-on-transfer tokens cannot make the router pay out more than it holds.
+    function routeTokenPayment(bytes32 productId, address token, uint256 amount) external nonReentrant {
+        require(token != ETH, "PaymentRouter: zero token");
+        require(token.code.length > 0, "PaymentRouter: token has no code");
+        require(amount > 0, "PaymentRouter: zero value");
+        _requireActivePayer();
+
+        uint256 before = IERC20ForPayments(token).balanceOf(address(this));
+        require(
+            _tokenCall(token, abi.encodeCall(IERC20ForPayments.transferFrom, (msg.sender, address(this), amount))),
+            "PaymentRouter: transferFrom failed"
+        );
+        uint256 received = IERC20ForPayments(token).balanceOf(address(this)) - before;
+
+        emit TokenPaymentReceived(productId, token, msg.sender, received);
+        _distribute(productId, token, received);
+    }
+
+    // ------------------------------------------------------------------------
+    // Pull payments and remainders
+    // ------------------------------------------------------------------------
+
+    /// @notice Withdraw the caller's whole balance of `token` (address(0) = ETH).
+    function withdraw(address token) external nonReentrant {
+        uint256 amount = withdrawable[token][msg.sender];
+        require(amount > 0, "PaymentRouter: nothing to withdraw");
+
+        withdrawable[token][msg.sender] = 0;
+        totalWithdrawable[token] -= amount;
+        require(_send(token, msg.sender, amount), "PaymentRouter: transfer failed");
+
+        emit Withdrawn(token, msg.sender, amount);
+    }
+
+    /// @notice Balance of `token` held by the router that is not owed to any recipient.
+    function sweepable(address token) public view returns (uint256) {
+        uint256 balance = token == ETH ? address(this).balance : IERC20ForPayments(token).balanceOf(address(this));
+        return balance - totalWithdrawable[token];
+    }
+
+    /// @notice Send rounding remainders and top-ups of `token` to `to`; never touches withdrawable balances.
+    function sweepRemainder(address token, address to) external onlyRegistryOwner nonReentrant {
+        require(to != address(0), "PaymentRouter: zero recipient");
+        uint256 amount = sweepable(token);
+        require(amount > 0, "PaymentRouter: nothing to sweep");
+        require(_send(token, to, amount), "PaymentRouter: transfer failed");
+
+        emit RemainderSwept(token, to, amount);
+    }
+
+    function setPayoutMode(PayoutMode mode) external onlyRegistryOwner {
+        payoutMode = mode;
+        emit PayoutModeSet(mode);
+    }
+
+    function setProcessManager(address _processManager) external onlyRegistryOwner {
+        processManager = IProcessManagerForPayments(_processManager);
+        emit ProcessManagerSet(_processManager);
+    }
+
+    // ------------------------------------------------------------------------
+    // Split profiles
+    // ------------------------------------------------------------------------
+
+    /// @notice Create a named split profile owned by the caller's org; only active Operator / Certifier actors.
+    function createSplitProfile(
+        bytes32 profileId,
+        address[] calldata recipients,
+        uint16[] calldata bps
+    ) external {
+        bytes32 org = _managerOrg();
+        require(org != bytes32(0), "PaymentRouter: not profile manager");
+        require(profileId != bytes32(0), "PaymentRouter: zero profile");
+        require(_profileSplits[profileId].length == 0, "PaymentRouter: profile exists");
+
+        profileOwner[profileId] = org;
+        uint16 total = _storeProfile(profileId, recipients, bps);
+        emit SplitProfileCreated(profileId, msg.sender, total);
+        _emitProfileSplits(profileId);
+    }
+
+    /// @notice Replace all splits of an existing profile; products bound to it follow immediately.
+    function updateSplitProfile(
+        bytes32 profileId,
+        address[] calldata recipients,
+        uint16[] calldata bps
+    ) external {
+        require(_profileSplits[profileId].length > 0, "PaymentRouter: unknown profile");
+        _requireProfileAccess(profileId);
+
+        delete _profileSplits[profileId];
+        uint16 total = _storeProfile(profileId, recipients, bps);
+        emit SplitProfileUpdated(profileId, msg.sender, total);
+        _emitProfileSplits(profileId);
+    }
+
+    /// @notice Bind productId to a profile; profileId 0 restores the default splits.
+    /// @dev The caller must own the new profile and either the profile the product is bound to
+    ///      now or, for an unbound product, the product itself.
+    function setProductProfile(bytes32 productId, bytes32 profileId) external {
+        require(
+            profileId == bytes32(0) || _profileSplits[profileId].length > 0,
+            "PaymentRouter: unknown profile"
+        );
+        bytes32 current = productProfile[productId];
+        if (current == bytes32(0)) {
+            _requireProductAccess(productId);
+        } else {
+            _requireProfileAccess(current);
+        }
+        _requireProfileAccess(profileId);
+        productProfile[productId] = profileId;
+        emit ProductProfileSet(productId, profileId, msg.sender);
+    }
+
+    // ------------------------------------------------------------------------
+    // Internal
+    // ------------------------------------------------------------------------
+
+    /// @dev Shared constructor / profile checks; returns the total bps.
+    function _validateSplits(address[] memory recipients, uint16[] memory bps) internal pure returns (uint16) {
         require(recipients.length == bps.length, "PaymentRouter: length mismatch");
         require(recipients.length > 0, "PaymentRouter: empty splits");
 
-        actorRegistry = IActorRegistryForPayments(_actorRegistry);
-
-        uint16 running;
+        uint256 running;
         for (uint256 i = 0; i < recipients.length; ++i) {
             require(recipients[i] != address(0), "PaymentRouter: zero recipient");
             require(bps[i] > 0, "PaymentRouter: zero bps");
-
-            _splits.push(Split({recipient: recipients[i], bps: bps[i]}));
             running += bps[i];
-
-            emit SplitConfigured(recipients[i], bps[i]);
         }
 
         require(running <= 10_000, "PaymentRouter: total bps > 10000");
-        totalBps = running;
+        return uint16(running);
     }
 
-    /// @notice Route an ETH payment for a given product/batch.
-    /// @dev msg.value is split according to configured basis points. Any remainder stays in the contract.
-    function routePayment(bytes32 productId) external payable {
-        require(msg.value > 0, "PaymentRouter: zero value");
+    /// @dev The caller's org if it is an active Operator / Certifier, else zero.
+    function _managerOrg() internal view returns (bytes32) {
+        (bytes32 orgIdHash, FairtradeTypes.Role role, FairtradeTypes.Status status, ) = actorRegistry.getActor(msg.sender);
+        bool manager = status == FairtradeTypes.Status.Active &&
+            (role == FairtradeTypes.Role.Operator || role == FairtradeTypes.Role.Certifier);
+        return manager ? orgIdHash : bytes32(0);
+    }
+
+    /// @dev The registry owner, or a manager of the org owning `profileId` (any manager for profile 0).
+    function _requireProfileAccess(bytes32 profileId) internal view {
+        if (msg.sender == actorRegistry.owner()) return;
+        bytes32 org = _managerOrg();
+        require(org != bytes32(0), "PaymentRouter: not profile manager");
+        require(profileId == bytes32(0) || profileOwner[profileId] == org, "PaymentRouter: not profile owner");
+    }
+
+    /// @dev The registry owner, or a manager of the org that created productId's process.
+    function _requireProductAccess(bytes32 productId) internal view {
+        if (msg.sender == actorRegistry.owner()) return;
+        bytes32 org = _managerOrg();
+        require(org != bytes32(0), "PaymentRouter: not profile manager");
+        require(address(processManager) != address(0), "PaymentRouter: no process manager");
+        (, bytes32 creatorOrgId) = processManager.getProcess(productId);
+        require(creatorOrgId == org, "PaymentRouter: not product owner");
+    }
 
+    function _storeProfile(
+        bytes32 profileId,
+        address[] calldata recipients,
+        uint16[] calldata bps
+    ) internal returns (uint16 total) {
+        total = _validateSplits(recipients, bps);
+        Split[] storage splits = _profileSplits[profileId];
+        for (uint256 i = 0; i < recipients.length; ++i) {
+            splits.push(Split({recipient: recipients[i], bps: bps[i]}));
+        }
+        profileTotalBps[profileId] = total;
+    }
+
+    function _emitProfileSplits(bytes32 profileId) internal {
+        Split[] storage splits = _profileSplits[profileId];
+        for (uint256 i = 0; i < splits.length; ++i) {
+            emit ProfileSplitConfigured(profileId, splits[i].recipient, splits[i].bps);
+        }
+    }
+
+    function _splitsFor(bytes32 productId) internal view returns (Split[] storage) {
+        bytes32 profileId = productProfile[productId];
+        return profileId == bytes32(0) ? _splits : _profileSplits[profileId];
+    }
+
+    function _requireActivePayer() internal view {
         (, , FairtradeTypes.Status status, ) = actorRegistry.getActor(msg.sender);
         require(status == FairtradeTypes.Status.Active, "PaymentRouter: actor not active");
+    }
 
-        emit PaymentReceived(productId, msg.sender, msg.value);
+    function _distribute(bytes32 productId, address token, uint256 amount) internal {
+        bool pull = payoutMode == PayoutMode.Pull;
+        // a copy, so a payee cannot change the splits under the loop
+        Split[] memory splits = _copy(_splitsFor(productId));
 
-        uint256 amount = msg.value;
-        for (uint256 i = 0; i < _splits.length; ++i) {
-            Split memory s = _splits[i];
+        for (uint256 i = 0; i < splits.length; ++i) {
+            Split memory s = splits[i];
             uint256 share = (amount * s.bps) / 10_000;
-            if (share > 0) {
-                (bool ok, ) = s.recipient.call{value: share}("");
-                require(ok, "PaymentRouter: transfer failed");
-                emit PaymentRouted(productId, s.recipient, share);
+            if (share == 0) continue;
+
+            if (!pull && _push(token, s.recipient, share)) {
+                if (token == ETH) {
+                    emit PaymentRouted(productId, s.recipient, share);
+                } else {
+                    emit TokenPaymentRouted(productId, token, s.recipient, share);
+                }
+            } else {
+                withdrawable[token][s.recipient] += share;
+                totalWithdrawable[token] += share;
+                emit PaymentCredited(productId, token, s.recipient, share);
             }
         }
     }
 
+    /// @dev Push-mode delivery of one share; only the ETH path calls the payee itself.
+    function _push(address token, address to, uint256 amount) internal returns (bool) {
+        if (token != ETH) return _send(token, to, amount);
+        (bool ok, ) = to.call{value: amount, gas: PUSH_GAS_STIPEND}("");
+        return ok;
+    }
+
+    /// @dev Forwards all gas: used by withdraw and sweepRemainder, where the caller picks the payee.
+    function _send(address token, address to, uint256 amount) internal returns (bool) {
+        if (token == ETH) {
+            (bool ok, ) = to.call{value: amount}("");
+            return ok;
+        }
+        return _tokenCall(token, abi.encodeCall(IERC20ForPayments.transfer, (to, amount)));
+    }
+
+    /// @dev Accepts tokens that return nothing as well as tokens that return a bool.
+    ///      `token` must have code (checked in routeTokenPayment), otherwise the call trivially succeeds.
+    function _tokenCall(address token, bytes memory data) internal returns (bool) {
+        (bool ok, bytes memory ret) = token.call(data);
+        if (!ok) return false;
+        return ret.length == 0 || (ret.length == 32 && abi.decode(ret, (bool)));
+    }
+
+    // ------------------------------------------------------------------------
+    // Views
+    // ------------------------------------------------------------------------
+
     function getSplits() external view returns (Split[] memory) {
-        Split[] memory local = new Split[](_splits.length);
-        for (uint256 i = 0; i < _splits.length; ++i) {
-            local[i] = _splits[i];
+        return _copy(_splits);
+    }
+
+    function getProfileSplits(bytes32 profileId) external view returns (Split[] memory) {
+        return _copy(_profileSplits[profileId]);
+    }
+
+    /// @notice Splits a payment for productId would use right now (its profile or the default).
+    function splitsFor(bytes32 productId) external view returns (Split[] memory) {
+        return _copy(_splitsFor(productId));
+    }
+
+    function _copy(Split[] storage splits) internal view returns (Split[] memory) {
+        Split[] memory local = new Split[](splits.length);
+        for (uint256 i = 0; i < splits.length; ++i) {
+            local[i] = splits[i];
         }
         return local;
     }
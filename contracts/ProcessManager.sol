@@ -4,6 +4,8 @@ pragma solidity ^0.8.28;
 import "./FairtradeTypes.sol";
 
 interface IActorRegistryForProcess {
+    function owner() external view returns (address);
+
     function getActor(address wallet)
     external
     view
@@ -12,7 +14,9 @@ interface IActorRegistryForProcess {
 
 /// @title ProcessManager
 /// @notice Maintains coarse-grained lifecycle status for product/batch IDs.
-/// @dev Very simple monotonic state machine; heavy details live off-chain.
+/// @dev Explicit state machine: a status change is only accepted if the
+///      (from, to) transition is configured and the caller's Role is among the
+///      roles allowed for it. The table is administered by the ActorRegistry owner.
 contract ProcessManager {
     IActorRegistryForProcess public immutable actorRegistry;
 
@@ -21,9 +25,18 @@ contract ProcessManager {
         bytes32 creatorOrgId;
     }
 
+    struct StatusUpdate {
+        bytes32 productId;
+        FairtradeTypes.ProcessStatus newStatus;
+    }
+
     // productId => process metadata
     mapping(bytes32 => Process) private _processes;
 
+    /// @notice from => to => bitmask of roles allowed to perform the transition (bit i = Role i).
+    /// @dev A zero mask means the transition is not allowed at all.
+    mapping(FairtradeTypes.ProcessStatus => mapping(FairtradeTypes.ProcessStatus => uint256)) public transitionRoles;
+
     event ProcessCreated(bytes32 indexed productId, bytes32 indexed orgIdHash);
 
     event ProcessStatusChanged(
@@ -34,26 +47,73 @@ contract ProcessManager {
         address actor
     );
 
+    event TransitionSet(
+        FairtradeTypes.ProcessStatus indexed from,
+        FairtradeTypes.ProcessStatus indexed to,
+        uint256 roleMask
+    );
+
     constructor(address _actorRegistry) {
         require(_actorRegistry != address(0), "ProcessManager: actorRegistry is zero");
         actorRegistry = IActorRegistryForProcess(_actorRegistry);
+        _seedDefaultTransitions();
     }
 
-    modifier onlyActiveActor() {
-        (, , FairtradeTypes.Status status, ) = actorRegistry.getActor(msg.sender);
-        require(status == FairtradeTypes.Status.Active, "ProcessManager: actor not active");
+    modifier onlyRegistryOwner() {
+        require(msg.sender == actorRegistry.owner(), "ProcessManager: only registry owner");
         _;
     }
 
     /// @notice Create a new process for a product/batch ID.
     /// @dev Typically called by producers/processors at the beginning of the chain.
-    function createProcess(bytes32 productId) external onlyActiveActor {
+    function createProcess(bytes32 productId) external {
+        (bytes32 orgIdHash, ) = _activeCaller();
+        _createProcess(productId, orgIdHash);
+    }
+
+    /// @notice Create several processes in one transaction; reverts entirely if any productId is
+    ///         zero, already exists or is repeated in the batch.
+    function createProcessBatch(bytes32[] calldata productIds) external {
+        require(productIds.length > 0, "ProcessManager: empty batch");
+        (bytes32 orgIdHash, ) = _activeCaller();
+
+        uint256 len = productIds.length;
+        for (uint256 i = 0; i < len; ++i) {
+            _createProcess(productIds[i], orgIdHash);
+        }
+    }
+
+    /// @notice Advance the lifecycle status of a product/batch.
+    /// @dev The (current, newStatus) transition must be configured for the caller's role.
+    function advanceStatus(bytes32 productId, FairtradeTypes.ProcessStatus newStatus) external {
+        (bytes32 orgIdHash, FairtradeTypes.Role role) = _activeCaller();
+        _advanceStatus(productId, newStatus, orgIdHash, role);
+    }
+
+    /// @notice Apply several status changes in order, in one transaction.
+    /// @dev Updates are applied sequentially, so the same productId may appear more than once
+    ///      (e.g. Created -> InTransit -> AtRetail). Any rejected update reverts the whole batch.
+    function advanceStatusBatch(StatusUpdate[] calldata updates) external {
+        require(updates.length > 0, "ProcessManager: empty batch");
+        (bytes32 orgIdHash, FairtradeTypes.Role role) = _activeCaller();
+
+        uint256 len = updates.length;
+        for (uint256 i = 0; i < len; ++i) {
+            _advanceStatus(updates[i].productId, updates[i].newStatus, orgIdHash, role);
+        }
+    }
+
+    function _activeCaller() internal view returns (bytes32 orgIdHash, FairtradeTypes.Role role) {
+        FairtradeTypes.Status status;
+        (orgIdHash, role, status, ) = actorRegistry.getActor(msg.sender);
+        require(status == FairtradeTypes.Status.Active, "ProcessManager: actor not active");
+    }
+
+    function _createProcess(bytes32 productId, bytes32 orgIdHash) internal {
         require(productId != bytes32(0), "ProcessManager: zero productId");
         Process storage p = _processes[productId];
         require(p.status == FairtradeTypes.ProcessStatus.Unknown, "ProcessManager: already exists");
 
-        (bytes32 orgIdHash, , , ) = actorRegistry.getActor(msg.sender);
-
         p.status = FairtradeTypes.ProcessStatus.Created;
         p.creatorOrgId = orgIdHash;
 
@@ -67,24 +127,105 @@ contract ProcessManager {
         );
     }
 
-    /// @notice Advance the lifecycle status of a product/batch.
-    /// @dev Enforces a simple monotonic rule: newStatus must be strictly greater than current.
-    function advanceStatus(bytes32 productId, FairtradeTypes.ProcessStatus newStatus) external onlyActiveActor {
+    function _advanceStatus(
+        bytes32 productId,
+        FairtradeTypes.ProcessStatus newStatus,
+        bytes32 orgIdHash,
+        FairtradeTypes.Role role
+    ) internal {
         require(newStatus != FairtradeTypes.ProcessStatus.Unknown, "ProcessManager: invalid status");
 
         Process storage p = _processes[productId];
         require(p.status != FairtradeTypes.ProcessStatus.Unknown, "ProcessManager: process missing");
 
         FairtradeTypes.ProcessStatus oldStatus = p.status;
-        require(uint8(newStatus) > uint8(oldStatus), "ProcessManager: non-monotonic");
-
-        (bytes32 orgIdHash, , , ) = actorRegistry.getActor(msg.sender);
+        uint256 allowedRoles = transitionRoles[oldStatus][newStatus];
+        require(allowedRoles != 0, "ProcessManager: transition not allowed");
+        require((allowedRoles >> uint8(role)) & 1 == 1, "ProcessManager: role not allowed");
 
         p.status = newStatus;
 
         emit ProcessStatusChanged(productId, oldStatus, newStatus, orgIdHash, msg.sender);
     }
 
+    // ------------------------------------------------------------------------
+    // Transition table
+    // ------------------------------------------------------------------------
+
+    /// @notice Set the roles allowed to move a process from `from` to `to` (0 removes the edge).
+    function setTransition(
+        FairtradeTypes.ProcessStatus from,
+        FairtradeTypes.ProcessStatus to,
+        uint256 roleMask
+    ) external onlyRegistryOwner {
+        require(
+            from != FairtradeTypes.ProcessStatus.Unknown && to != FairtradeTypes.ProcessStatus.Unknown,
+            "ProcessManager: invalid status"
+        );
+        require(from != to, "ProcessManager: self transition");
+        require(roleMask & 1 == 0, "ProcessManager: invalid role");
+        _setTransition(from, to, roleMask);
+    }
+
+    function isTransitionAllowed(
+        FairtradeTypes.ProcessStatus from,
+        FairtradeTypes.ProcessStatus to,
+        FairtradeTypes.Role role
+    ) external view returns (bool) {
+        return (transitionRoles[from][to] >> uint8(role)) & 1 == 1;
+    }
+
+    function _setTransition(
+        FairtradeTypes.ProcessStatus from,
+        FairtradeTypes.ProcessStatus to,
+        uint256 roleMask
+    ) internal {
+        transitionRoles[from][to] = roleMask;
+        emit TransitionSet(from, to, roleMask);
+    }
+
+    function _roleBit(FairtradeTypes.Role role) internal pure returns (uint256) {
+        return uint256(1) << uint8(role);
+    }
+
+    /// @dev Default graph: Created -> InTransit -> AtRetail -> Sold -> Certified,
+    ///      Suspended reachable from every active state and reversible back into
+    ///      transit/retail, and Revoked as the Regulator-only terminal state.
+    function _seedDefaultTransitions() internal {
+        uint256 operator = _roleBit(FairtradeTypes.Role.Operator);
+        uint256 regulator = _roleBit(FairtradeTypes.Role.Regulator);
+        uint256 certifier = _roleBit(FairtradeTypes.Role.Certifier);
+        uint256 retailer = _roleBit(FairtradeTypes.Role.Retailer);
+        uint256 logistics = _roleBit(FairtradeTypes.Role.Logistics);
+
+        _setTransition(
+            FairtradeTypes.ProcessStatus.Created,
+            FairtradeTypes.ProcessStatus.InTransit,
+            _roleBit(FairtradeTypes.Role.Producer) | _roleBit(FairtradeTypes.Role.Processor) | logistics | operator
+        );
+        _setTransition(
+            FairtradeTypes.ProcessStatus.InTransit,
+            FairtradeTypes.ProcessStatus.AtRetail,
+            logistics | retailer | operator
+        );
+        _setTransition(FairtradeTypes.ProcessStatus.AtRetail, FairtradeTypes.ProcessStatus.Sold, retailer | operator);
+        _setTransition(FairtradeTypes.ProcessStatus.Sold, FairtradeTypes.ProcessStatus.Certified, certifier);
+
+        for (uint8 s = uint8(FairtradeTypes.ProcessStatus.Created); s <= uint8(FairtradeTypes.ProcessStatus.Certified); ++s) {
+            FairtradeTypes.ProcessStatus from = FairtradeTypes.ProcessStatus(s);
+            _setTransition(from, FairtradeTypes.ProcessStatus.Suspended, regulator | certifier | operator);
+            _setTransition(from, FairtradeTypes.ProcessStatus.Revoked, regulator);
+        }
+
+        _setTransition(FairtradeTypes.ProcessStatus.Suspended, FairtradeTypes.ProcessStatus.InTransit, regulator | operator);
+        _setTransition(FairtradeTypes.ProcessStatus.Suspended, FairtradeTypes.ProcessStatus.AtRetail, regulator | operator);
+        _setTransition(FairtradeTypes.ProcessStatus.Suspended, FairtradeTypes.ProcessStatus.Revoked, regulator);
+    }
+
+    // ------------------------------------------------------------------------
+    // Views
+    // ------------------------------------------------------------------------
+
     function getStatus(bytes32 productId) external view returns (FairtradeTypes.ProcessStatus) {
         return _processes[productId].status;
     }
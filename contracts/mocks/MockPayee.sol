@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IPaymentRouterForPayee {
+    function withdraw(address token) external;
+}
+
+/// @title MockPayee
+/// @notice Contract payee for PaymentRouter tests.
+/// @dev Its first receipt of ETH writes a fresh storage slot, which costs more than
+///      PaymentRouter.PUSH_GAS_STIPEND, so a pushed share is credited and withdrawn.
+///      With `setSpin(true)` it burns all the gas it is given.
+contract MockPayee {
+    bool public spin;
+    uint256 public received;
+
+    function setSpin(bool _spin) external {
+        spin = _spin;
+    }
+
+    function withdrawFrom(address router, address token) external {
+        IPaymentRouterForPayee(router).withdraw(token);
+    }
+
+    receive() external payable {
+        while (spin) {}
+        received += msg.value;
+    }
+}
@@ -0,0 +1,123 @@
+// scripts/audit-api.ts
+//
+// Read-only HTTP audit API over the event index kept by scripts/index-chain.ts
+// (src/audit/api.ts), so frontends and regulators can query timelines without
+// running the reconstruction script. Responses use the AuditEvent shapes of the
+// audit reports.
+//
+// Endpoints (JSON, GET):
+//   /health                  chainId, checkpoint and row counts of the index
+//   /products/<id>/timeline  every event of a product in chain order
+//   /actors/<orgIdHash>      ActorRegistry state, registrations and everything the org anchored
+//   /documents/<cidHash>     the anchors of a cidHash (or sha2-256 CID)
+//   /payments/<productId>    payouts of a product and totals per recipient
+//
+// Usage:
+//   npx tsx scripts/audit-api.ts [--db=<file>] [--follow[=<ms>]]
+//
+// --follow also syncs the index every <ms> (default 4000) in this process;
+// otherwise run `index-chain.ts sync --follow` next to it (the API only reads).
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...          # ActorRegistry lookups and --follow; without it
+//                                   # /actors only serves indexed registrations
+//   FAIRTRADE_INDEX_DB=./fairtrade_index.sqlite
+//   AUDIT_API_PORT=8788
+//   AUDIT_API_HOST=127.0.0.1
+//   AUDIT_API_CORS_ORIGIN=*         # "none" to omit the header
+
+import "dotenv/config";
+import path from "path";
+
+import {
+    ActorRegistryClient,
+    AuditApi,
+    AuditQueries,
+    ChainIndexer,
+    IndexerDb,
+    resolveDeployment,
+    rpcProviderFromEnv,
+} from "../src/index.js";
+
+const PORT = Number(process.env.AUDIT_API_PORT ?? "8788");
+const HOST = process.env.AUDIT_API_HOST ?? "127.0.0.1";
+const CORS = process.env.AUDIT_API_CORS_ORIGIN ?? "*";
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function flag(flags: string[], name: string): string | undefined {
+    const hit = flags.find((f) => f === `--${name}` || f.startsWith(`--${name}=`));
+    if (!hit) return undefined;
+    return hit.includes("=") ? hit.slice(hit.indexOf("=") + 1) : "";
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const flags = process.argv.slice(2).filter((a) => a.startsWith("--"));
+    const file = path.resolve(flag(flags, "db") || process.env.FAIRTRADE_INDEX_DB || "fairtrade_index.sqlite");
+    const follow = flag(flags, "follow");
+    const pollMs = follow ? Number(follow) : 4000;
+
+    const db = new IndexerDb(file);
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    const provider = rpcUrl ? rpcProviderFromEnv() : undefined;
+    if (follow !== undefined && !provider) throw new Error("--follow needs OP_SEPOLIA_RPC_URL in .env");
+
+    let indexer: ChainIndexer | undefined;
+    if (follow !== undefined && provider) {
+        indexer = ChainIndexer.fromDeployment(await resolveDeployment(provider), { provider, db });
+        await indexer.sync();
+    }
+
+    const checkpoint = db.checkpoint();
+    if (!checkpoint) throw new Error(`${file} is empty; run scripts/index-chain.ts sync first (or pass --follow)`);
+    if (provider && String((await provider.getNetwork()).chainId) !== checkpoint.chainId) {
+        throw new Error(`${file} indexes chainId ${checkpoint.chainId}, OP_SEPOLIA_RPC_URL is another chain`);
+    }
+    const registryAddress = checkpoint.addresses.ActorRegistry;
+    const actorRegistry = provider && registryAddress ? new ActorRegistryClient(registryAddress, provider) : undefined;
+
+    const api = new AuditApi(new AuditQueries(db, actorRegistry), {
+        port: PORT,
+        host: HOST,
+        corsOrigin: CORS === "none" ? null : CORS,
+    });
+    const url = await api.start();
+    console.log(`Index: ${file} (chainId ${checkpoint.chainId}, next block ${checkpoint.nextBlock})`);
+    console.log(`ActorRegistry lookups: ${actorRegistry ? actorRegistry.address : "off (no OP_SEPOLIA_RPC_URL)"}`);
+    console.log(`Listening on ${url}`);
+
+    let stop = false;
+    const shutdown = () => {
+        console.log("\nShutting down audit API...");
+        stop = true;
+        void api.close().then(() => {
+            db.close();
+            process.exit(0);
+        });
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+
+    while (indexer && !stop) {
+        await new Promise((r) => setTimeout(r, pollMs));
+        if (stop) break;
+        try {
+            const result = await indexer.sync();
+            if (result.reorg) console.log(`Reorg: rolled back to block ${result.reorg.forkBlock}`);
+            if (result.logs) console.log(`Indexed blocks ${result.fromBlock}..${result.toBlock}: ${result.logs} log(s)`);
+        } catch (err) {
+            console.warn("sync failed (retrying):", (err as Error).message);
+        }
+    }
+}
+
+main().catch((err) => {
+    console.error("Fatal error in audit-api:", err);
+    process.exit(1);
+});
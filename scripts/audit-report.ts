@@ -0,0 +1,154 @@
+// scripts/audit-report.ts
+//
+// Render an audit report written by scripts/reconstruct-audit-from-logs.ts
+// (audit_reconstruction_<prefix>.json, old runs included) as deliverables for
+// certifiers (src/audit/report.ts): a self-contained HTML page, PDF-ready
+// Markdown and a CSV of the timeline, with actor names, block explorer links,
+// the audit rule findings and a signature block quoting the report digest.
+//
+// Usage:
+//   npx tsx scripts/audit-report.ts <report.json> [--format=html,md,csv] [--out=<dir>]
+//                                   [--title=<text>] [--explorer=<url>] [--gateway=<url>]
+//                                   [--auditor=<name>] [--auditor-org=<org>] [--auditor-role=<role>]
+//                                   [--names=0]
+//
+// Files are written next to the report (or into --out) as <report>.html,
+// <report>.md and <report>.csv. Convert the Markdown with
+// `pandoc <report>.md -o <report>.pdf`, or print the HTML page.
+//
+// Actor names come from the profiles checked by the run, then from
+// ActorRegistry metadata (metadataHash -> ActorProfile) when OP_SEPOLIA_RPC_URL
+// is set; --names=0 keeps plain addresses. Explorer links use --explorer,
+// BLOCK_EXPLORER_URL or the known explorer of the report's chain.
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...          # optional, ActorRegistry lookups for names
+//   EVIDENCE_FETCH=local,kubo       # providers the actor profiles are fetched from (default EVIDENCE_UPLOAD / local)
+//   BLOCK_EXPLORER_URL=...          # optional
+//   IPFS_GATEWAY_URL=...            # optional, links CIDs to <gateway>/ipfs/<cid>
+//   (+ deployments.json / address overrides when the report has no chain.addresses)
+
+import "dotenv/config";
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+    ActorRegistryClient,
+    auditReportDigest,
+    explorerUrl,
+    loadDeploymentRegistry,
+    parseAuditReport,
+    parseStorageKind,
+    renderAuditCsv,
+    renderAuditHtml,
+    renderAuditMarkdown,
+    resolveActorNames,
+    resolveFromRegistry,
+    rpcProviderFromEnv,
+    storageProviderFromEnv,
+    type AuditReport,
+    type AuditReportOptions,
+} from "../src/index.js";
+
+const FORMATS = ["html", "md", "csv"] as const;
+type Format = (typeof FORMATS)[number];
+
+const RENDERERS: Record<Format, (report: AuditReport, options: AuditReportOptions) => string> = {
+    html: renderAuditHtml,
+    md: renderAuditMarkdown,
+    csv: renderAuditCsv,
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function flag(flags: string[], name: string): string | undefined {
+    const hit = flags.find((f) => f === `--${name}` || f.startsWith(`--${name}=`));
+    if (!hit) return undefined;
+    return hit.includes("=") ? hit.slice(hit.indexOf("=") + 1) : "";
+}
+
+function parseFormats(value: string | undefined): Format[] {
+    if (!value) return [...FORMATS];
+    return value.split(",").map((f) => {
+        const format = f.trim().toLowerCase();
+        if (!(FORMATS as readonly string[]).includes(format)) {
+            throw new Error(`Unknown format: ${f} (expected ${FORMATS.join(", ")})`);
+        }
+        return format as Format;
+    });
+}
+
+/** ActorRegistry of the report's chain, if OP_SEPOLIA_RPC_URL points at that chain. */
+async function registryForReport(report: AuditReport): Promise<ActorRegistryClient | undefined> {
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    if (!rpcUrl) return undefined;
+    const provider = rpcProviderFromEnv();
+    const { chainId } = await provider.getNetwork();
+    const chain = report.summary.chain;
+    if (chain && chain.chainId !== chainId.toString()) {
+        console.warn(`OP_SEPOLIA_RPC_URL is chainId ${chainId}, the report is chainId ${chain.chainId}; skipping ActorRegistry names`);
+        return undefined;
+    }
+    const address = chain?.addresses?.ActorRegistry
+        ?? resolveFromRegistry(await loadDeploymentRegistry(), chainId, process.env, ["ActorRegistry"]).addresses.ActorRegistry;
+    return new ActorRegistryClient(address, provider);
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const argv = process.argv.slice(2);
+    const flags = argv.filter((a) => a.startsWith("--"));
+    const [input] = argv.filter((a) => !a.startsWith("--"));
+    if (!input) throw new Error("Usage: audit-report.ts <report.json> [--format=html,md,csv] [--out=<dir>] ...");
+
+    const file = path.resolve(input);
+    const report = parseAuditReport(await fs.readFile(file, "utf8"));
+    const formats = parseFormats(flag(flags, "format"));
+
+    let actorNames: Record<string, string> = {};
+    if (flag(flags, "names") !== "0") {
+        const storage = (process.env.EVIDENCE_FETCH || process.env.EVIDENCE_UPLOAD || "local")
+            .split(",")
+            .map((k) => k.trim())
+            .filter(Boolean)
+            .map((k) => storageProviderFromEnv(parseStorageKind(k)));
+        actorNames = await resolveActorNames(report, { actorRegistry: await registryForReport(report), storage });
+    }
+
+    const chainId = report.summary.chain?.chainId;
+    const options: AuditReportOptions = {
+        title: flag(flags, "title") || undefined,
+        explorerUrl: flag(flags, "explorer") || process.env.BLOCK_EXPLORER_URL || (chainId ? explorerUrl(chainId) : undefined),
+        ipfsGateway: flag(flags, "gateway") || process.env.IPFS_GATEWAY_URL || undefined,
+        actorNames,
+        signatory: {
+            name: flag(flags, "auditor") || undefined,
+            organisation: flag(flags, "auditor-org") || undefined,
+            role: flag(flags, "auditor-role") || undefined,
+        },
+    };
+
+    const outDir = path.resolve(flag(flags, "out") || path.dirname(file));
+    await fs.mkdir(outDir, { recursive: true });
+    const base = path.join(outDir, path.basename(file, path.extname(file)));
+
+    console.log(`Report: ${file} (${report.events.length} event(s))`);
+    console.log(`Digest: ${auditReportDigest(report)}`);
+    console.log(`Actor names resolved: ${Object.keys(actorNames).length}`);
+    console.log(`Explorer links: ${options.explorerUrl ?? "off (local chain; pass --explorer)"}`);
+    for (const format of formats) {
+        const out = `${base}.${format}`;
+        await fs.writeFile(out, RENDERERS[format](report, options), "utf8");
+        console.log(`Wrote ${out}`);
+    }
+}
+
+main().catch((err) => {
+    console.error("Fatal error in audit-report:", err);
+    process.exit(1);
+});
@@ -0,0 +1,272 @@
+// scripts/benchmark-batch-gas.ts
+//
+// Measure per-item gas of the batch entry points with real transactions:
+//
+//   cid     CidRollup.submitCidBatch(events)
+//   doc     DocumentRegistry.anchorDocumentBatch(docs)
+//   create  ProcessManager.createProcessBatch(productIds)
+//   advance ProcessManager.advanceStatusBatch(updates)   (Created -> InTransit)
+//
+// For every batch size n in BATCH_GAS_SIZES one tx per kind is sent and
+// confirmed. The report shows gasUsed, gasUsed / n and the marginal gas per
+// extra item (slope between the smallest and largest size), next to the
+// single-call baseline (anchorDocument / createProcess / advanceStatus, or a
+// one-event CID batch), so the saving from batching can be read off directly.
+//
+// The `advance` batch of size n moves the n processes created by the `create`
+// batch of the same size, so every item is a fresh Created -> InTransit edge.
+//
+// Contracts are resolved from deployments.json for the RPC's chainId.
+// The sender is registered as an Operator if needed (it anchors every step /
+// stage-record type and performs the lifecycle transitions).
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...
+//   OP_SEPOLIA_PRIVATE_KEY=...
+//
+// Optional env:
+//   BATCH_GAS_SIZES=1,5,10,25,50,100
+//   BATCH_GAS_KINDS=cid,doc,create,advance
+//   BATCH_GAS_RUN_ID=tag
+//   BATCH_GAS_OUT=./batch-gas.json   # also write the rows as JSON
+//
+// Run:
+//   npx tsx scripts/benchmark-batch-gas.ts
+
+import "dotenv/config";
+import { promises as fs } from "fs";
+import { NonceManager, Wallet, ethers } from "ethers";
+
+import {
+    ActorRegistryClient,
+    CidRollupClient,
+    DocumentRegistryClient,
+    ProcessManagerClient,
+    ProcessStatus,
+    Role,
+    STEP_ORDER,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    toBytes32,
+    type CidEvent,
+    type DocumentInput,
+    type StatusUpdate,
+} from "../src/index.js";
+
+// -----------------------------------------------------------------------------
+// Config
+// -----------------------------------------------------------------------------
+
+type Kind = "cid" | "doc" | "create" | "advance";
+const ALL_KINDS: readonly Kind[] = ["cid", "doc", "create", "advance"];
+
+const SIZES = (process.env.BATCH_GAS_SIZES ?? "1,5,10,25,50,100")
+    .split(",")
+    .map((s) => Number(s.trim()))
+    .filter((n) => Number.isInteger(n) && n > 0)
+    .sort((a, b) => a - b);
+
+const KINDS = (process.env.BATCH_GAS_KINDS ?? ALL_KINDS.join(","))
+    .split(",")
+    .map((s) => s.trim() as Kind)
+    .filter((k) => ALL_KINDS.includes(k));
+
+const RUN_ID = process.env.BATCH_GAS_RUN_ID ?? `${Date.now()}`;
+const OUT_FILE = process.env.BATCH_GAS_OUT;
+
+type Row = {
+    kind: Kind;
+    /** "single" = the non-batch entry point called once. */
+    mode: "single" | "batch";
+    size: number;
+    gasUsed: bigint;
+    txHash: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+async function ensureRegisteredActor(actorRegistry: ActorRegistryClient, wallet: ethers.Signer): Promise<void> {
+    const addr = await wallet.getAddress();
+    if (await actorRegistry.isActiveActor(addr)) {
+        console.log(`Actor already active: ${addr}`);
+        return;
+    }
+
+    console.log(`Actor not active, registering as Operator: ${addr}`);
+    const tx = await actorRegistry.registerActor(
+        toBytes32(`fairtrade-bench-org-${addr.toLowerCase()}`),
+        addr,
+        Role.Operator,
+        toBytes32("fairtrade-bench-metadata"),
+    );
+    await tx.wait();
+}
+
+async function measure(
+    kind: Kind,
+    mode: Row["mode"],
+    size: number,
+    send: () => Promise<ethers.ContractTransactionResponse>,
+): Promise<Row> {
+    const tx = await send();
+    const receipt = await tx.wait();
+    const gasUsed = receipt?.gasUsed ?? 0n;
+    console.log(
+        `  ${kind.padEnd(7)} ${mode.padEnd(6)} n=${String(size).padStart(4)} ` +
+        `gasUsed=${gasUsed.toString().padStart(9)} per item=${(gasUsed / BigInt(size)).toString().padStart(7)} tx=${tx.hash}`,
+    );
+    return { kind, mode, size, gasUsed, txHash: tx.hash };
+}
+
+function productIds(tag: string, n: number): string[] {
+    return Array.from({ length: n }, (_, i) => toBytes32(`bench-${RUN_ID}-${tag}-product-${i}`));
+}
+
+function cidEvents(tag: string, n: number): CidEvent[] {
+    return Array.from({ length: n }, (_, i) => ({
+        productId: toBytes32(`bench-${RUN_ID}-${tag}-product-${Math.floor(i / 10)}`),
+        stepId: toBytes32(`bench-${RUN_ID}-${tag}-step-${i}`),
+        cidHash: toBytes32(`bench-${RUN_ID}-${tag}-cid-${i}`),
+        stepType: STEP_ORDER[i % STEP_ORDER.length],
+    }));
+}
+
+// DocType 1..6 line up with StepType, so the same rotation keeps every doc Operator-allowed.
+function documents(tag: string, n: number): DocumentInput[] {
+    return cidEvents(tag, n).map((e) => ({
+        productId: e.productId,
+        stepId: e.stepId,
+        cidHash: e.cidHash,
+        docType: e.stepType,
+    }));
+}
+
+function printSummary(rows: Row[]): void {
+    console.log("\n=== Per-item gas ===");
+    console.log("kind     single   batch n=min..max    gas/item (max n)   marginal gas/item   saving vs single");
+    for (const kind of KINDS) {
+        const single = rows.find((r) => r.kind === kind && r.mode === "single");
+        const batches = rows.filter((r) => r.kind === kind && r.mode === "batch");
+        if (batches.length === 0) continue;
+
+        const first = batches[0];
+        const last = batches[batches.length - 1];
+        const perItem = Number(last.gasUsed) / last.size;
+        const marginal =
+            last.size > first.size ? Number(last.gasUsed - first.gasUsed) / (last.size - first.size) : perItem;
+        const saving = single ? `${((1 - perItem / Number(single.gasUsed)) * 100).toFixed(1)}%` : "-";
+
+        console.log(
+            `${kind.padEnd(8)} ${(single?.gasUsed.toString() ?? "-").padStart(7)}   ` +
+            `${`${first.size}..${last.size}`.padEnd(17)}   ${perItem.toFixed(0).padStart(16)}   ` +
+            `${marginal.toFixed(0).padStart(17)}   ${saving.padStart(16)}`,
+        );
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    const pk = process.env.OP_SEPOLIA_PRIVATE_KEY;
+    if (!rpcUrl || !pk) {
+        throw new Error("Missing OP_SEPOLIA_RPC_URL or OP_SEPOLIA_PRIVATE_KEY in .env");
+    }
+    if (SIZES.length === 0) throw new Error("BATCH_GAS_SIZES has no positive integers");
+    if (KINDS.length === 0) throw new Error(`BATCH_GAS_KINDS must list some of: ${ALL_KINDS.join(", ")}`);
+
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, {
+        required: ["ActorRegistry", "CidRollup", "DocumentRegistry", "ProcessManager"],
+    });
+
+    console.log("RPC URL:", rpcUrl);
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log("Sizes:", SIZES.join(", "));
+    console.log("Kinds:", KINDS.join(", "));
+    console.log("Run id:", RUN_ID);
+    console.log("");
+
+    // NonceManager: automining local nodes can report a stale pending nonce
+    const wallet = new NonceManager(new Wallet(pk, provider));
+    const actorRegistry = new ActorRegistryClient(deployment.addresses.ActorRegistry, wallet);
+    const cidRollup = new CidRollupClient(deployment.addresses.CidRollup, wallet);
+    const docRegistry = new DocumentRegistryClient(deployment.addresses.DocumentRegistry, wallet);
+    const processManager = new ProcessManagerClient(deployment.addresses.ProcessManager, wallet);
+
+    await ensureRegisteredActor(actorRegistry, wallet);
+    console.log("");
+
+    const rows: Row[] = [];
+    const wants = (k: Kind) => KINDS.includes(k);
+
+    console.log("=== Single-call baselines ===");
+    if (wants("cid")) {
+        rows.push(await measure("cid", "single", 1, () => cidRollup.submitCidBatch(cidEvents("single", 1))));
+    }
+    if (wants("doc")) {
+        const [d] = documents("single", 1);
+        rows.push(
+            await measure("doc", "single", 1, () =>
+                docRegistry.anchorDocument(d.productId, d.stepId, d.cidHash, d.docType),
+            ),
+        );
+    }
+    if (wants("create") || wants("advance")) {
+        const [id] = productIds("single", 1);
+        const created = await measure("create", "single", 1, () => processManager.createProcess(id));
+        if (wants("create")) rows.push(created);
+        if (wants("advance")) {
+            rows.push(
+                await measure("advance", "single", 1, () =>
+                    processManager.advanceStatus(id, ProcessStatus.InTransit),
+                ),
+            );
+        }
+    }
+
+    console.log("\n=== Batches ===");
+    for (const n of SIZES) {
+        const tag = `n${n}`;
+        if (wants("cid")) {
+            rows.push(await measure("cid", "batch", n, () => cidRollup.submitCidBatch(cidEvents(tag, n))));
+        }
+        if (wants("doc")) {
+            rows.push(await measure("doc", "batch", n, () => docRegistry.anchorDocumentBatch(documents(tag, n))));
+        }
+        if (wants("create") || wants("advance")) {
+            const ids = productIds(tag, n);
+            const created = await measure("create", "batch", n, () => processManager.createProcessBatch(ids));
+            if (wants("create")) rows.push(created);
+            if (wants("advance")) {
+                const updates: StatusUpdate[] = ids.map((productId) => ({
+                    productId,
+                    newStatus: ProcessStatus.InTransit,
+                }));
+                rows.push(await measure("advance", "batch", n, () => processManager.advanceStatusBatch(updates)));
+            }
+        }
+    }
+
+    printSummary(rows);
+
+    if (OUT_FILE) {
+        const out = {
+            network: deployment.network,
+            chainId: deployment.chainId.toString(),
+            runId: RUN_ID,
+            rows: rows.map((r) => ({ ...r, gasUsed: r.gasUsed.toString() })),
+        };
+        await fs.writeFile(OUT_FILE, JSON.stringify(out, null, 2), "utf8");
+        console.log(`\nRows written to ${OUT_FILE}`);
+    }
+}
+
+main().catch((err) => {
+    console.error("Fatal error in benchmark-batch-gas:", err);
+    process.exit(1);
+});
@@ -8,8 +8,10 @@
 // - Only wallets with funded === true are used.
 // - Each wallet sends AT MOST ONE submitCidBatch(...) tx.
 // - Each tx anchors BATCH_SIZE synthetic CIDs (default 400).
-// - RPC endpoints are read from OP_SEPOLIA_PRIVATE_RPCS_JSON (JSON array).
-// - For each RPC, we spawn WORKERS_PER_RPC async workers (default 10).
+// - RPC endpoints are read from OP_SEPOLIA_PRIVATE_RPCS_JSON (JSON array) and
+//   shared through one SDK transport (src/rpc): each request goes to the best
+//   endpoint at the time and fails over on rate limits / unhealthy backends.
+// - We spawn WORKERS_PER_RPC async workers per RPC (default 3).
 // - Workers:
 //     * take the next funded wallet
 //     * build a unique CID batch (using a RUN_ID prefix)
@@ -28,21 +30,29 @@
 //   WORKERS_PER_RPC (optional, default 10)
 //   CID_RUN_ID (optional, default Date.now())
 //   FAUCET_STATE_FILE (optional, default ./op-sepolia-faucet-wallets-batch.json)
+//   CID_ROLLUP_ADDRESS (optional, overrides deployments.json for the RPC's chainId)
 
 import "dotenv/config";
 import { promises as fs } from "fs";
 import path from "path";
-import { JsonRpcProvider, Wallet, ethers } from "ethers";
+import { Wallet, ethers } from "ethers";
+
+import {
+    CidRollupClient,
+    FailoverProvider,
+    RpcTransport,
+    StepType,
+    describeRpcEvent,
+    parseRpcUrlList,
+    resolveDeployment,
+    toBytes32,
+    type CidEvent,
+} from "../src/index.js";
 
 // -----------------------------------------------------------------------------
 // Config
 // -----------------------------------------------------------------------------
 
-const CID_ROLLUP_ADDRESS = "0xC6d171F707bA43BdF490362a357D975B76976264";
-
-// Artifacts – relies on tsconfig: "resolveJsonModule": true
-import cidRollupArtifact from "../artifacts/contracts/CidRollup.sol/CidRollup.json";
-
 const BATCH_SIZE = Number(process.env.BATCH_SIZE ?? "200");
 const DURATION_MS = Number(process.env.DURATION_MS ?? "30000");
 const WORKERS_PER_RPC = Number(process.env.WORKERS_PER_RPC ?? "3");
@@ -66,17 +76,6 @@ interface FaucetState {
     wallets: FaucetWallet[];
 }
 
-type CidEvent = {
-    productId: string;
-    stepId: string;
-    cidHash: string;
-    stepType: number;
-};
-
-function toBytes32(label: string): string {
-    return ethers.keccak256(ethers.toUtf8Bytes(label));
-}
-
 // NEW: simple sleep helper
 function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -94,27 +93,7 @@ async function loadFaucetState(): Promise<FaucetWallet[]> {
 }
 
 function parsePrivateRpcs(): string[] {
-    const raw = process.env.OP_SEPOLIA_PRIVATE_RPCS_JSON;
-    if (!raw) {
-        throw new Error("OP_SEPOLIA_PRIVATE_RPCS_JSON is not set in .env");
-    }
-    let parsed: unknown;
-    try {
-        parsed = JSON.parse(raw);
-    } catch (e) {
-        throw new Error(
-            `Failed to parse OP_SEPOLIA_PRIVATE_RPCS_JSON: ${(e as Error).message}`,
-        );
-    }
-    if (!Array.isArray(parsed)) {
-        throw new Error("OP_SEPOLIA_PRIVATE_RPCS_JSON must be a JSON array");
-    }
-
-    const urls = (parsed as unknown[])
-        .filter((u) => typeof u === "string")
-        .map((u) => u as string)
-        .filter((u) => u.startsWith("http"));
-
+    const urls = parseRpcUrlList("OP_SEPOLIA_PRIVATE_RPCS_JSON", process.env.OP_SEPOLIA_PRIVATE_RPCS_JSON);
     if (urls.length === 0) {
         throw new Error("OP_SEPOLIA_PRIVATE_RPCS_JSON has no HTTP URLs");
     }
@@ -135,7 +114,7 @@ function buildCidEvents(runTag: string, batchSize: number): CidEvent[] {
         const cidHash = toBytes32(`run-${runTag}-cid-${i}`);
 
         // StepType enum (1..6): Produced, Processed, Shipped, Received, AtRetail, Sold
-        const stepType = ((i % 6) + 1) as number;
+        const stepType: StepType = (i % 6) + 1;
 
         events.push({
             productId,
@@ -174,8 +153,16 @@ async function main() {
     console.log(`RUN_ID_BASE:             ${RUN_ID_BASE}`);
     console.log("");
 
-    // One provider per RPC
-    const providers = rpcUrls.map((u) => new JsonRpcProvider(u));
+    // One provider over all RPCs; the transport balances and fails over between them
+    const provider = new FailoverProvider(
+        new RpcTransport({ endpoints: rpcUrls, onEvent: (e) => console.log(describeRpcEvent(e)) }),
+    );
+
+    const deployment = await resolveDeployment(provider, { required: ["CidRollup"] });
+    const cidRollupAddress = deployment.addresses.CidRollup;
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log(`CidRollup: ${cidRollupAddress}`);
+    console.log("");
 
     // Shared wallet index across all workers
     let nextWalletIndex = 0;
@@ -188,10 +175,7 @@ async function main() {
     let sentCount = 0;
     let failedCount = 0;
 
-    // Worker logic for a single RPC
-    async function worker(rpcIdx: number, workerId: number) {
-        const provider = providers[rpcIdx];
-
+    async function worker(workerId: number) {
         while (true) {
             const now = Date.now();
             if (now >= deadlineMs) {
@@ -206,15 +190,11 @@ async function main() {
             const fw = fundedWallets[myIndex];
             const wallet = new Wallet(fw.privateKey, provider);
 
-            const runTag = `${RUN_ID_BASE}-rpc${rpcIdx}-w${workerId}-widx${myIndex}`;
+            const runTag = `${RUN_ID_BASE}-w${workerId}-widx${myIndex}`;
             const events = buildCidEvents(runTag, BATCH_SIZE);
 
             try {
-                const cidRollup = new ethers.Contract(
-                    CID_ROLLUP_ADDRESS,
-                    (cidRollupArtifact as any).abi,
-                    wallet,
-                );
+                const cidRollup = new CidRollupClient(cidRollupAddress, wallet);
 
                 const t0 = Date.now();
                 const tx = await cidRollup.submitCidBatch(events);
@@ -223,7 +203,7 @@ async function main() {
                 sentCount++;
 
                 console.log(
-                    `[RPC ${rpcIdx} W${workerId}] wallet=${fw.address} ` +
+                    `[W${workerId}] wallet=${fw.address} ` +
                     `batch=${BATCH_SIZE} txHash=${tx.hash} sendMs=${sendMs}`,
                 );
                 // DO NOT await tx.wait(); just loop on to next wallet (if time left).
@@ -236,7 +216,7 @@ async function main() {
                     err?.message ??
                     String(err);
                 console.log(
-                    `[RPC ${rpcIdx} W${workerId}] ❌ FAILED wallet=${fw.address} ` +
+                    `[W${workerId}] ❌ FAILED wallet=${fw.address} ` +
                     `batch=${BATCH_SIZE} reason=${msg}`,
                 );
             }
@@ -248,11 +228,9 @@ async function main() {
 
     // Launch workers: WORKERS_PER_RPC for each RPC
     const workerPromises: Promise<void>[] = [];
-    rpcUrls.forEach((_u, rpcIdx) => {
-        for (let w = 0; w < WORKERS_PER_RPC; w++) {
-            workerPromises.push(worker(rpcIdx, w));
-        }
-    });
+    for (let w = 0; w < WORKERS_PER_RPC * rpcUrls.length; w++) {
+        workerPromises.push(worker(w));
+    }
 
     await Promise.all(workerPromises);
 
@@ -269,6 +247,16 @@ async function main() {
             totalMs > 0 ? ((sentCount * 1000) / totalMs).toFixed(2) : "0.00"
         }`,
     );
+
+    const health = provider.transport.health();
+    console.log(`\nRPC requests: ${health.requests} (failovers ${health.failovers})`);
+    for (const e of health.endpoints) {
+        console.log(
+            `  ${e.label}: ${e.requests} req, ${e.failures} failed (${e.rateLimited} rate-limited), ` +
+            `latency ${e.latencyMs ?? "-"} ms${e.excluded ? `, excluded: ${e.excluded}` : ""}`,
+        );
+    }
+    provider.destroy();
 }
 
 main().catch((err) => {
@@ -0,0 +1,238 @@
+// scripts/benchmark-cid-root-vs-batch.ts
+//
+// Cost per anchored step of the two CidRollup modes:
+//
+//   batch  submitCidBatch(events)                    one CidAnchored + one usedStepKey slot per step
+//   root   submitCidRoot(root, n, stepTypeMask)      one Merkle root per batch, leaves kept off-chain
+//
+// For every size n in CID_ROOT_BENCH_SIZES one tx per mode is sent and
+// confirmed. Sizes above CID_ROOT_BENCH_MAX_BATCH are sent in root mode only
+// (submitCidBatch tops out at a few hundred events per tx, see
+// estimate-cid-batch-limit.ts). For root batches the script also times the
+// off-chain tree build and reads the proof length and the gas of an on-chain
+// verifyCidInclusion check (eth_estimateGas) for the first leaf.
+//
+// Contracts are resolved from deployments.json for the RPC's chainId.
+// The sender is registered as an Operator if needed (batches mix all step types).
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...
+//   OP_SEPOLIA_PRIVATE_KEY=...
+//
+// Optional env:
+//   CID_ROOT_BENCH_SIZES=1,10,100,500,1000,10000
+//   CID_ROOT_BENCH_MAX_BATCH=500
+//   CID_ROOT_BENCH_RUN_ID=tag
+//   CID_ROOT_BENCH_OUT=./cid-root-vs-batch.json   # also write the rows as JSON
+//
+// Run:
+//   npx tsx scripts/benchmark-cid-root-vs-batch.ts
+
+import "dotenv/config";
+import { promises as fs } from "fs";
+import { NonceManager, Wallet, ethers } from "ethers";
+
+import {
+    ActorRegistryClient,
+    CidRollupClient,
+    Role,
+    STEP_ORDER,
+    buildCidMerkleTree,
+    cidMerkleProof,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    toBytes32,
+    type CidEvent,
+} from "../src/index.js";
+
+// -----------------------------------------------------------------------------
+// Config
+// -----------------------------------------------------------------------------
+
+const SIZES = (process.env.CID_ROOT_BENCH_SIZES ?? "1,10,100,500,1000,10000")
+    .split(",")
+    .map((s) => Number(s.trim()))
+    .filter((n) => Number.isInteger(n) && n > 0)
+    .sort((a, b) => a - b);
+
+const MAX_BATCH = Number(process.env.CID_ROOT_BENCH_MAX_BATCH ?? "500");
+const RUN_ID = process.env.CID_ROOT_BENCH_RUN_ID ?? `${Date.now()}`;
+const OUT_FILE = process.env.CID_ROOT_BENCH_OUT;
+
+// Fixed ETH price in USD (for fee reporting)
+const ETH_PRICE_USD = 3047;
+
+type Row = {
+    mode: "batch" | "root";
+    size: number;
+    gasUsed: bigint;
+    fee: bigint;
+    calldataBytes: number;
+    txHash: string;
+    /** root only: off-chain tree build time, proof length and verifyCidInclusion gas for one leaf. */
+    treeMs?: number;
+    proofLength?: number;
+    verifyGas?: bigint;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+async function ensureRegisteredActor(actorRegistry: ActorRegistryClient, wallet: ethers.Signer): Promise<void> {
+    const addr = await wallet.getAddress();
+    if (await actorRegistry.isActiveActor(addr)) {
+        console.log(`Actor already active: ${addr}`);
+        return;
+    }
+
+    console.log(`Actor not active, registering as Operator: ${addr}`);
+    const tx = await actorRegistry.registerActor(
+        toBytes32(`fairtrade-bench-org-${addr.toLowerCase()}`),
+        addr,
+        Role.Operator,
+        toBytes32("fairtrade-bench-metadata"),
+    );
+    await tx.wait();
+}
+
+function cidEvents(tag: string, n: number): CidEvent[] {
+    return Array.from({ length: n }, (_, i) => ({
+        productId: toBytes32(`root-bench-${RUN_ID}-${tag}-product-${Math.floor(i / 10)}`),
+        stepId: toBytes32(`root-bench-${RUN_ID}-${tag}-step-${i}`),
+        cidHash: toBytes32(`root-bench-${RUN_ID}-${tag}-cid-${i}`),
+        stepType: STEP_ORDER[i % STEP_ORDER.length],
+    }));
+}
+
+async function confirm(
+    mode: Row["mode"],
+    size: number,
+    tx: ethers.ContractTransactionResponse,
+): Promise<Row> {
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`No receipt for ${tx.hash}`);
+    const row: Row = {
+        mode,
+        size,
+        gasUsed: receipt.gasUsed,
+        fee: receipt.fee,
+        calldataBytes: ethers.dataLength(tx.data),
+        txHash: tx.hash,
+    };
+    console.log(
+        `  ${mode.padEnd(5)} n=${String(size).padStart(6)} gasUsed=${receipt.gasUsed.toString().padStart(10)} ` +
+        `per step=${(receipt.gasUsed / BigInt(size)).toString().padStart(7)} calldata=${row.calldataBytes} B tx=${tx.hash}`,
+    );
+    return row;
+}
+
+function fmtUsd(feeWei: number): string {
+    return `$${((feeWei / 1e18) * ETH_PRICE_USD).toFixed(6)}`;
+}
+
+function printSummary(rows: Row[]): void {
+    console.log("\n=== Cost per anchored step ===");
+    console.log("     n   batch gas/step   root gas/step   root/batch   batch fee/step   root fee/step   proof   verify gas");
+    for (const n of SIZES) {
+        const batch = rows.find((r) => r.mode === "batch" && r.size === n);
+        const root = rows.find((r) => r.mode === "root" && r.size === n);
+        const batchPerStep = batch ? Number(batch.gasUsed) / n : undefined;
+        const rootPerStep = root ? Number(root.gasUsed) / n : undefined;
+        const ratio = batchPerStep && rootPerStep ? `${((rootPerStep / batchPerStep) * 100).toFixed(2)}%` : "-";
+
+        console.log(
+            `${String(n).padStart(6)}   ${(batchPerStep?.toFixed(0) ?? "-").padStart(14)}   ` +
+            `${(rootPerStep?.toFixed(1) ?? "-").padStart(13)}   ${ratio.padStart(10)}   ` +
+            `${(batch ? fmtUsd(Number(batch.fee) / n) : "-").padStart(14)}   ` +
+            `${(root ? fmtUsd(Number(root.fee) / n) : "-").padStart(13)}   ` +
+            `${String(root?.proofLength ?? "-").padStart(5)}   ${(root?.verifyGas?.toString() ?? "-").padStart(10)}`,
+        );
+    }
+    console.log(`\nFees use the L2 gas price only (no L1 data fee); assumed ETH price ${ETH_PRICE_USD} USD/ETH.`);
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    const pk = process.env.OP_SEPOLIA_PRIVATE_KEY;
+    if (!rpcUrl || !pk) {
+        throw new Error("Missing OP_SEPOLIA_RPC_URL or OP_SEPOLIA_PRIVATE_KEY in .env");
+    }
+    if (SIZES.length === 0) throw new Error("CID_ROOT_BENCH_SIZES has no positive integers");
+
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, { required: ["ActorRegistry", "CidRollup"] });
+
+    console.log("RPC URL:", rpcUrl);
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log("Sizes:", SIZES.join(", "));
+    console.log("Largest batch-mode size:", MAX_BATCH);
+    console.log("Run id:", RUN_ID);
+    console.log("");
+
+    // NonceManager: automining local nodes can report a stale pending nonce
+    const wallet = new NonceManager(new Wallet(pk, provider));
+    const actorRegistry = new ActorRegistryClient(deployment.addresses.ActorRegistry, wallet);
+    const cidRollup = new CidRollupClient(deployment.addresses.CidRollup, wallet);
+
+    await ensureRegisteredActor(actorRegistry, wallet);
+    console.log("");
+
+    const rows: Row[] = [];
+    for (const n of SIZES) {
+        console.log(`--- n=${n} ---`);
+        if (n <= MAX_BATCH) {
+            rows.push(await confirm("batch", n, await cidRollup.submitCidBatch(cidEvents(`batch-n${n}`, n))));
+        }
+
+        const events = cidEvents(`root-n${n}`, n);
+        const t0 = performance.now();
+        const tree = buildCidMerkleTree(events);
+        const treeMs = performance.now() - t0;
+
+        const row = await confirm(
+            "root",
+            n,
+            await cidRollup.submitCidRoot(tree.root, n, tree.stepTypeMask),
+        );
+
+        // leaf 0 always has the full ceil(log2 n) proof; odd nodes at a layer's end are carried up
+        const proof = cidMerkleProof(tree, 0);
+        if (!(await cidRollup.verifyCidInclusion(events[0], tree.root, proof))) {
+            throw new Error(`verifyCidInclusion failed for root ${tree.root}`);
+        }
+        const verifyGas = await provider.estimateGas({
+            to: cidRollup.address,
+            data: cidRollup.contract.interface.encodeFunctionData("verifyCidInclusion", [events[0], tree.root, proof]),
+        });
+        rows.push({ ...row, treeMs, proofLength: proof.length, verifyGas });
+        console.log(`        tree built in ${treeMs.toFixed(1)} ms, proof ${proof.length} hashes, verify gas ${verifyGas}`);
+    }
+
+    printSummary(rows);
+
+    if (OUT_FILE) {
+        const out = {
+            network: deployment.network,
+            chainId: deployment.chainId.toString(),
+            runId: RUN_ID,
+            rows: rows.map((r) => ({
+                ...r,
+                gasUsed: r.gasUsed.toString(),
+                fee: r.fee.toString(),
+                verifyGas: r.verifyGas?.toString(),
+            })),
+        };
+        await fs.writeFile(OUT_FILE, JSON.stringify(out, null, 2), "utf8");
+        console.log(`\nRows written to ${OUT_FILE}`);
+    }
+}
+
+main().catch((err) => {
+    console.error("Fatal error in benchmark-cid-root-vs-batch:", err);
+    process.exit(1);
+});
@@ -25,7 +25,9 @@
 import "dotenv/config";
 import { promises as fs } from "fs";
 import path from "path";
-import { JsonRpcProvider, Wallet, ethers } from "ethers";
+import { Wallet, ethers } from "ethers";
+
+import { FailoverProvider, withRpcRetry } from "../src/index.js";
 
 const FAUCET_STATE_FILE = path.join(process.cwd(), "op-sepolia-faucet-wallets.json");
 const NULL_ADDRESS = "0x0000000000000000000000000000000000000000";
@@ -49,45 +51,8 @@ async function loadFaucetState(): Promise<FaucetState> {
     return parsed as FaucetState;
 }
 
-function sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// Small retry helper for transient RPC issues, but without noisy error dumps
-async function withRetry<T>(
-    fn: () => Promise<T>,
-    label: string,
-    maxAttempts = 5,
-): Promise<T> {
-    let attempt = 0;
-    while (true) {
-        try {
-            return await fn();
-        } catch (err: any) {
-            const msg: string | undefined = err?.error?.message ?? err?.message;
-            const code = err?.error?.code ?? err?.code;
-
-            const retryable =
-                code === -32016 || // too many requests / capacity
-                code === -32011 || // "no backend is currently healthy"
-                (typeof msg === "string" &&
-                    (msg.toLowerCase().includes("too many requests") ||
-                        msg.toLowerCase().includes("exceeded its requests per second capacity") ||
-                        msg.toLowerCase().includes("no backend is currently healthy")));
-
-            if (!retryable || attempt >= maxAttempts) {
-                // Just rethrow; caller will count as failure
-                throw err;
-            }
-
-            const delayMs = Math.min(10_000, 1000 * 2 ** attempt);
-            console.log(
-                `   ⚠️  RPC issue during "${label}" (attempt ${attempt + 1}/${maxAttempts}), sleeping ${delayMs} ms...`,
-            );
-            await sleep(delayMs);
-            attempt++;
-        }
-    }
+function logRetry(line: string) {
+    console.log(`   ⚠️  ${line}`);
 }
 
 async function main() {
@@ -111,7 +76,8 @@ async function main() {
     console.log(`Total wallets in state: ${allWallets.length}`);
     console.log(`Funded wallets:         ${fundedWallets.length}`);
 
-    const provider = new JsonRpcProvider(rpcUrl);
+    // this endpoint alone (src/rpc transport): the benchmark measures it, not a failover
+    const provider = new FailoverProvider([rpcUrl]);
 
     // ---- Fetch shared chain meta ONCE ----
     const network = await provider.getNetwork();
@@ -140,9 +106,9 @@ async function main() {
     const sampleWallet = new Wallet(fundedWallets[0].privateKey);
     const sampleAddress = await sampleWallet.getAddress();
 
-    const balance = await withRetry(
+    const balance = await withRpcRetry(
         () => provider.getBalance(sampleAddress),
-        "getBalance(sample)",
+        { label: "getBalance(sample)", log: logRetry },
     );
 
     console.log(`Sample funded wallet: ${sampleAddress}`);
@@ -185,9 +151,9 @@ async function main() {
                 const signed = await wallet.signTransaction(tx);
 
                 // broadcast raw tx via provider (ethers v6)
-                await withRetry(
+                await withRpcRetry(
                     () => provider.broadcastTransaction(signed),
-                    "broadcastTransaction",
+                    { label: "broadcastTransaction", log: logRetry },
                 );
 
                 return true;
@@ -1,13 +1,14 @@
 // scripts/benchmark-op-rpcs.ts
 //
 // Benchmark approximate tx RPS per OP Sepolia RPC endpoint.
-// - Reads endpoints from OP_SEPOLIA_RPCS_JSON (JSON array of URLs) in .env
+// - Reads endpoints from OP_SEPOLIA_PUBLIC_RPCS_JSON (JSON array of URLs) in .env
 // - Uses OP_SEPOLIA_PRIVATE_KEY as the funder wallet
 // - For each HTTP RPC:
 //    * Get current balance
 //    * amountPerTx = balance / 10_000_000n
 //    * Send TX_COUNT_PER_RPC transactions in parallel to the zero address
-//    * Uses retry for rate-limit / backend errors
+//    * Talks to that endpoint alone through the SDK transport (src/rpc), retrying
+//      rate-limit / backend errors there instead of failing over
 //    * Prints approximate successful tx/s
 //
 // Usage:
@@ -18,7 +19,9 @@
 // Important: This script spends real testnet ETH from OP_SEPOLIA_PRIVATE_KEY.
 
 import "dotenv/config";
-import { JsonRpcProvider, Wallet, ethers } from "ethers";
+import { Wallet, ethers } from "ethers";
+
+import { FailoverProvider, isRejectedRpcError, parseRpcUrlList, withRpcRetry } from "../src/index.js";
 
 const NULL_ADDRESS = "0x0000000000000000000000000000000000000000";
 
@@ -33,91 +36,20 @@ const GAS_BUFFER_WEI = ethers.parseEther(
     process.env.RPC_BENCH_GAS_BUFFER_ETH ?? "0.05",
 );
 
-// Max retry attempts for transient RPC errors
-const MAX_RETRIES = 15;
-
 // -----------------------------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------------------------
 
 function parseRpcUrls(): string[] {
-    const raw = process.env.OP_SEPOLIA_PUBLIC_RPCS_JSON;
-    if (!raw) {
-        throw new Error("OP_SEPOLIA_RPCS_JSON is not set in .env");
+    const urls = parseRpcUrlList("OP_SEPOLIA_PUBLIC_RPCS_JSON", process.env.OP_SEPOLIA_PUBLIC_RPCS_JSON);
+    if (!urls.length) {
+        throw new Error("OP_SEPOLIA_PUBLIC_RPCS_JSON has no HTTP URLs in .env");
     }
-
-    try {
-        const parsed = JSON.parse(raw);
-        if (!Array.isArray(parsed)) {
-            throw new Error("OP_SEPOLIA_RPCS_JSON is not a JSON array");
-        }
-        // Only keep strings
-        return parsed.filter((u) => typeof u === "string") as string[];
-    } catch (e) {
-        throw new Error(`Failed to parse OP_SEPOLIA_RPCS_JSON: ${(e as Error).message}`);
-    }
-}
-
-function sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return urls;
 }
 
-function isRateLimitError(err: any): boolean {
-    const code = err?.error?.code ?? err?.code;
-    const msg: string | undefined = err?.error?.message ?? err?.message;
-
-    // OP free endpoint style
-    if (code === -32016) return true;
-    if (typeof msg === "string" && msg.includes("exceeded its requests per second capacity")) {
-        return true;
-    }
-    // generic HTTP 429-ish from some providers may come through as message
-    if (typeof msg === "string" && msg.toLowerCase().includes("too many requests")) {
-        return true;
-    }
-
-    return false;
-}
-
-function isBackendDownError(err: any): boolean {
-    const code = err?.error?.code ?? err?.code;
-    const msg: string | undefined = err?.error?.message ?? err?.message;
-
-    // "no backend is currently healthy to serve traffic"
-    if (code === -32011) return true;
-    if (typeof msg === "string" && msg.toLowerCase().includes("no backend is currently healthy")) {
-        return true;
-    }
-
-    return false;
-}
-
-async function withRpcRetry<T>(fn: () => Promise<T>, label: string): Promise<T> {
-    let attempt = 0;
-
-    while (true) {
-        try {
-            return await fn();
-        } catch (err: any) {
-            const retryable =
-                isRateLimitError(err) ||
-                isBackendDownError(err);
-
-            if (retryable && attempt < MAX_RETRIES) {
-                const delayMs = Math.min(15_000, 1000 * 2 ** attempt); // 1s, 2s, 4s ... 15s max
-                console.log(
-                    `   ⚠️  RPC error on "${label}" (attempt ${attempt + 1}/${MAX_RETRIES}),` +
-                    ` sleeping ${delayMs} ms then retrying...`,
-                );
-                await sleep(delayMs);
-                attempt++;
-                continue;
-            }
-
-            // Non-retryable or exceeded attempts — just rethrow (caller decides how noisy)
-            throw err;
-        }
-    }
+function logRetry(line: string) {
+    console.log(`   ⚠️  ${line}`);
 }
 
 // Run N sendTransaction calls in parallel with bounded concurrency
@@ -161,22 +93,18 @@ async function runTxBurst(
 // -----------------------------------------------------------------------------
 
 async function testRpcEndpoint(url: string, privateKey: string) {
-    if (!url.startsWith("http")) {
-        console.log(`Skipping non-HTTP endpoint: ${url}`);
-        return;
-    }
-
     console.log("\n============================================================");
     console.log(`RPC: ${url}`);
     console.log("============================================================");
 
-    const provider = new JsonRpcProvider(url);
+    // one endpoint per benchmark: failing over would measure the others
+    const provider = new FailoverProvider([url]);
     const wallet = new Wallet(privateKey, provider);
     const address = await wallet.getAddress();
 
     const balance = await withRpcRetry(
         () => provider.getBalance(address),
-        "getBalance",
+        { label: "getBalance", log: logRetry },
     );
 
     console.log("Funder address:", address);
@@ -228,7 +156,7 @@ async function testRpcEndpoint(url: string, privateKey: string) {
                         to: NULL_ADDRESS,
                         value: amountPerTx,
                     }),
-                "sendTransaction",
+                { label: "sendTransaction", log: logRetry, retryIf: isRejectedRpcError },
             );
         },
     );
@@ -256,7 +184,7 @@ async function main() {
     }
 
     const rpcUrls = parseRpcUrls();
-    console.log("Loaded RPC endpoints from OP_SEPOLIA_RPCS_JSON:");
+    console.log("Loaded RPC endpoints from OP_SEPOLIA_PUBLIC_RPCS_JSON:");
     rpcUrls.forEach((u, i) => console.log(`  [${i}] ${u}`));
     console.log("");
 
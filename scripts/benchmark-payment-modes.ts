@@ -0,0 +1,258 @@
+// scripts/benchmark-payment-modes.ts
+//
+// Measure gas & fee per PaymentRouter operation for each payout mode and asset:
+//
+//   eth-push    routePayment            (shares transferred immediately)
+//   eth-pull    routePayment            (shares credited to withdrawable balances)
+//   token-push  routeTokenPayment       (ERC-20, e.g. a stablecoin)
+//   token-pull  routeTokenPayment
+//   withdraw    withdraw(ETH) / withdraw(token) by one recipient
+//   sweep       sweepRemainder(ETH) / sweepRemainder(token) of the rounding dust
+//
+// Like run-fairtrade-batch-ops.ts, every tx is awaited before the next one is
+// sent and gasUsed / fee are printed per operation plus an average per mode.
+//
+// The script deploys its own PaymentRouter against the deployed ActorRegistry,
+// with PAYMENT_BENCH_RECIPIENTS recipients (the sender plus fresh random
+// addresses, equal bps that leave a rounding remainder), so the split width
+// is controlled and the sender can withdraw its own share. Unless
+// PAYMENT_TOKEN_ADDRESS is set, a MockERC20 ("Mock USD", 6 decimals) is
+// deployed and minted to the sender.
+//
+// The sender must be the ActorRegistry owner (setPayoutMode / sweepRemainder)
+// and is registered as an Operator if it is not an active actor yet.
+// Run `npx hardhat build` first: contract bytecode is read from artifacts/.
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...
+//   OP_SEPOLIA_PRIVATE_KEY=...
+//
+// Optional env:
+//   PAYMENT_BENCH_RECIPIENTS=4
+//   PAYMENT_BENCH_OPS=3            # payments per mode
+//   PAYMENT_BENCH_ETH=0.0001       # ETH per payment
+//   PAYMENT_BENCH_TOKEN=25         # token units per payment (whole tokens)
+//   PAYMENT_TOKEN_ADDRESS=0x...    # real ERC-20 held and approvable by the sender
+//
+// Run:
+//   npx tsx scripts/benchmark-payment-modes.ts
+
+import "dotenv/config";
+import { NonceManager, Wallet, ethers } from "ethers";
+
+import paymentRouterArtifact from "../artifacts/contracts/PaymentRouter.sol/PaymentRouter.json";
+import mockErc20Artifact from "../artifacts/contracts/mocks/MockERC20.sol/MockERC20.json";
+
+import {
+    ActorRegistryClient,
+    Erc20Client,
+    NATIVE_TOKEN,
+    PAYOUT_MODE_LABEL,
+    PaymentRouterClient,
+    PayoutMode,
+    Role,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    toBytes32,
+} from "../src/index.js";
+
+// -----------------------------------------------------------------------------
+// Config
+// -----------------------------------------------------------------------------
+
+const RECIPIENTS = Number(process.env.PAYMENT_BENCH_RECIPIENTS ?? "4");
+const OPS_PER_MODE = Number(process.env.PAYMENT_BENCH_OPS ?? "3");
+const ETH_PER_PAYMENT = ethers.parseEther(process.env.PAYMENT_BENCH_ETH ?? "0.0001");
+const TOKEN_PER_PAYMENT = process.env.PAYMENT_BENCH_TOKEN ?? "25";
+const TOKEN_ADDRESS = process.env.PAYMENT_TOKEN_ADDRESS?.trim();
+
+// Fixed ETH price in USD (for fee reporting)
+const ETH_PRICE_USD = 3047;
+
+type OpResult = { label: string; gasUsed: bigint; feeWei: bigint };
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+async function ensureRegisteredActor(actorRegistry: ActorRegistryClient, wallet: ethers.Signer): Promise<void> {
+    const addr = await wallet.getAddress();
+    if (await actorRegistry.isActiveActor(addr)) {
+        console.log(`Actor already active: ${addr}`);
+        return;
+    }
+
+    console.log(`Actor not active, registering as Operator: ${addr}`);
+    const tx = await actorRegistry.registerActor(
+        toBytes32(`fairtrade-org-${addr.toLowerCase()}`),
+        addr,
+        Role.Operator,
+        toBytes32(`fairtrade-meta-${addr.toLowerCase()}`),
+    );
+    await tx.wait();
+}
+
+// Safely extract gas price from receipt / tx
+function getGasPrice(receipt: ethers.TransactionReceipt | null, tx: ethers.TransactionResponse): bigint {
+    return receipt?.gasPrice ?? tx.gasPrice ?? 0n;
+}
+
+async function runOp(
+    label: string,
+    send: () => Promise<ethers.ContractTransactionResponse>,
+): Promise<OpResult> {
+    const tx = await send();
+    const receipt = await tx.wait();
+    const gasUsed = receipt?.gasUsed ?? 0n;
+    const feeWei = gasUsed * getGasPrice(receipt, tx);
+    const feeEthStr = ethers.formatEther(feeWei);
+
+    console.log(
+        `  ${label.padEnd(22)} gasUsed=${gasUsed.toString().padStart(7)} ` +
+        `fee=${feeEthStr} ETH (~$${(parseFloat(feeEthStr) * ETH_PRICE_USD).toFixed(4)}) tx=${tx.hash}`,
+    );
+    return { label, gasUsed, feeWei };
+}
+
+async function deployContract(
+    artifact: any,
+    wallet: ethers.Signer,
+    args: unknown[],
+): Promise<string> {
+    const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, wallet);
+    const contract = await factory.deploy(...args);
+    await contract.waitForDeployment();
+    return await contract.getAddress();
+}
+
+function equalSplit(n: number): number[] {
+    // floor(9999 / n) each: at least 1 bps stays unassigned, so every payment
+    // leaves a remainder to sweep.
+    const bps = Math.floor(9_999 / n);
+    return Array.from({ length: n }, () => bps);
+}
+
+function printSummary(results: OpResult[]): void {
+    console.log("\n=== Average per operation ===");
+    const labels = [...new Set(results.map((r) => r.label))];
+    for (const label of labels) {
+        const rows = results.filter((r) => r.label === label);
+        const gas = rows.reduce((a, r) => a + r.gasUsed, 0n) / BigInt(rows.length);
+        const feeEthStr = ethers.formatEther(rows.reduce((a, r) => a + r.feeWei, 0n) / BigInt(rows.length));
+        console.log(
+            `${label.padEnd(22)} n=${rows.length}  avg gas=${gas.toString().padStart(7)}  ` +
+            `avg fee=${feeEthStr} ETH (~$${(parseFloat(feeEthStr) * ETH_PRICE_USD).toFixed(4)})`,
+        );
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    const pk = process.env.OP_SEPOLIA_PRIVATE_KEY;
+    if (!rpcUrl || !pk) {
+        throw new Error("Missing OP_SEPOLIA_RPC_URL or OP_SEPOLIA_PRIVATE_KEY in .env");
+    }
+    if (!Number.isInteger(RECIPIENTS) || RECIPIENTS < 1) throw new Error("PAYMENT_BENCH_RECIPIENTS must be >= 1");
+
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, { required: ["ActorRegistry"] });
+
+    // NonceManager: automining local nodes can report a stale pending nonce
+    const wallet = new NonceManager(new Wallet(pk, provider));
+    const sender = await wallet.getAddress();
+    const actorRegistry = new ActorRegistryClient(deployment.addresses.ActorRegistry, wallet);
+
+    console.log("RPC URL:", rpcUrl);
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log("ActorRegistry:", deployment.addresses.ActorRegistry);
+    console.log("Sender:", sender);
+    console.log(`Recipients: ${RECIPIENTS}, payments per mode: ${OPS_PER_MODE}`);
+    console.log(`Assumed ETH price: ${ETH_PRICE_USD} USD/ETH`);
+    console.log("");
+
+    const registryOwner = await actorRegistry.owner();
+    if (registryOwner.toLowerCase() !== sender.toLowerCase()) {
+        throw new Error(
+            `Sender ${sender} is not the ActorRegistry owner (${registryOwner}); ` +
+            "setPayoutMode and sweepRemainder need the owner key.",
+        );
+    }
+    await ensureRegisteredActor(actorRegistry, wallet);
+
+    // ---- Setup: token + router ----
+    const tokenAddress =
+        TOKEN_ADDRESS ?? (await deployContract(mockErc20Artifact, wallet, ["Mock USD", "mUSD", 6]));
+    const token = new Erc20Client(tokenAddress, wallet);
+    const decimals = await token.decimals();
+    const tokenPerPayment = ethers.parseUnits(TOKEN_PER_PAYMENT, decimals);
+    const symbol = await token.symbol();
+
+    const recipients = [sender, ...Array.from({ length: RECIPIENTS - 1 }, () => Wallet.createRandom().address)];
+    const routerAddress = await deployContract(paymentRouterArtifact, wallet, [
+        deployment.addresses.ActorRegistry,
+        recipients,
+        equalSplit(RECIPIENTS),
+    ]);
+    const router = new PaymentRouterClient(routerAddress, wallet);
+    console.log(`Token:  ${tokenAddress} (${symbol}, ${decimals} decimals${TOKEN_ADDRESS ? "" : ", MockERC20"})`);
+    console.log(`Router: ${routerAddress} (bench instance, totalBps=${await router.totalBps()})`);
+
+    const needed = tokenPerPayment * BigInt(2 * OPS_PER_MODE);
+    if (!TOKEN_ADDRESS) {
+        await (await token.mint(sender, needed)).wait();
+    } else if ((await token.balanceOf(sender)) < needed) {
+        throw new Error(`Sender needs at least ${ethers.formatUnits(needed, decimals)} ${symbol}`);
+    }
+    await (await token.approve(routerAddress, needed)).wait();
+    console.log("");
+
+    const runTag = `${Date.now()}`;
+    const results: OpResult[] = [];
+
+    for (const mode of [PayoutMode.Push, PayoutMode.Pull]) {
+        const modeLabel = PAYOUT_MODE_LABEL[mode].toLowerCase();
+        if ((await router.payoutMode()) !== mode) {
+            await (await router.setPayoutMode(mode)).wait();
+        }
+        console.log(`--- ${PAYOUT_MODE_LABEL[mode]} mode ---`);
+
+        for (let i = 0; i < OPS_PER_MODE; i++) {
+            const productId = toBytes32(`pay-${runTag}-${modeLabel}-${i}`);
+            results.push(await runOp(`eth-${modeLabel}`, () => router.routePayment(productId, ETH_PER_PAYMENT)));
+            results.push(
+                await runOp(`token-${modeLabel}`, () =>
+                    router.routeTokenPayment(productId, tokenAddress, tokenPerPayment),
+                ),
+            );
+        }
+        console.log("");
+    }
+
+    console.log("--- Withdraw & sweep ---");
+    results.push(await runOp("withdraw-eth", () => router.withdraw(NATIVE_TOKEN)));
+    results.push(await runOp("withdraw-token", () => router.withdraw(tokenAddress)));
+    if ((await router.sweepable(NATIVE_TOKEN)) > 0n) {
+        results.push(await runOp("sweep-eth", () => router.sweepRemainder(NATIVE_TOKEN, sender)));
+    }
+    if ((await router.sweepable(tokenAddress)) > 0n) {
+        results.push(await runOp("sweep-token", () => router.sweepRemainder(tokenAddress, sender)));
+    }
+
+    printSummary(results);
+
+    const owedEth = await router.totalWithdrawable(NATIVE_TOKEN);
+    const owedToken = await router.totalWithdrawable(tokenAddress);
+    console.log(
+        `\nStill withdrawable by the random recipients: ${ethers.formatEther(owedEth)} ETH, ` +
+        `${ethers.formatUnits(owedToken, decimals)} ${symbol}`,
+    );
+}
+
+main().catch((err) => {
+    console.error("Fatal error in benchmark-payment-modes:", err);
+    process.exit(1);
+});
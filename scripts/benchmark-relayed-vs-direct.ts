@@ -0,0 +1,277 @@
+// scripts/benchmark-relayed-vs-direct.ts
+//
+// Compare direct CidRollup.submitCidBatch calls (every actor pays its own
+// gas) with relayed submitCidBatchFor calls (actors sign EIP-712 batches, one
+// relayer wallet pays).
+//
+// Setup: RELAY_BENCH_ACTORS fresh wallets are registered as one Operator org
+// (registerActor + addOrgWallet) and funded with RELAY_BENCH_FUND_ETH for the
+// direct run. Each actor then sends RELAY_BENCH_BATCHES batches of
+// RELAY_BENCH_BATCH_SIZE events per mode; actors run in parallel, the batches
+// of one actor one after another.
+//
+// Relayed batches go to RELAYER_URL (a running scripts/cid-relayer.ts) if set,
+// otherwise to an in-process CidRelayer that signs with RELAYER_PRIVATE_KEY
+// (default: OP_SEPOLIA_PRIVATE_KEY).
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...
+//   OP_SEPOLIA_PRIVATE_KEY=...     # ActorRegistry owner, funds the actors
+//
+// Optional env:
+//   RELAY_BENCH_ACTORS=4
+//   RELAY_BENCH_BATCHES=5
+//   RELAY_BENCH_BATCH_SIZE=10
+//   RELAY_BENCH_FUND_ETH=0.002
+//   RELAY_BENCH_DEADLINE_SECONDS=600
+//   RELAY_BENCH_RUN_ID=tag
+//   RELAYER_URL=http://127.0.0.1:8787
+//   RELAYER_PRIVATE_KEY=...
+//
+// Run:
+//   npx tsx scripts/benchmark-relayed-vs-direct.ts
+
+import "dotenv/config";
+import { NonceManager, Wallet, ethers } from "ethers";
+
+import {
+    ActorRegistryClient,
+    CidRelayer,
+    CidRollupClient,
+    Role,
+    STEP_ORDER,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    signCidBatch,
+    signedCidBatchToJson,
+    toBytes32,
+    type CidEvent,
+    type SignedCidBatch,
+} from "../src/index.js";
+
+// -----------------------------------------------------------------------------
+// Config
+// -----------------------------------------------------------------------------
+
+const ACTORS = Number(process.env.RELAY_BENCH_ACTORS ?? "4");
+const BATCHES = Number(process.env.RELAY_BENCH_BATCHES ?? "5");
+const BATCH_SIZE = Number(process.env.RELAY_BENCH_BATCH_SIZE ?? "10");
+const FUND_ETH = process.env.RELAY_BENCH_FUND_ETH ?? "0.002";
+const DEADLINE_SECONDS = Number(process.env.RELAY_BENCH_DEADLINE_SECONDS ?? "600");
+const RUN_ID = process.env.RELAY_BENCH_RUN_ID ?? `${Date.now()}`;
+const RELAYER_URL = process.env.RELAYER_URL?.replace(/\/$/, "");
+
+type Mode = "direct" | "relayed";
+
+type Sample = {
+    mode: Mode;
+    actor: string;
+    latencyMs: number;
+    /** Time spent signing (relayed only). */
+    signMs: number;
+    gasUsed: bigint;
+    /** What the actor paid (0 for relayed). */
+    actorFeeWei: bigint;
+};
+
+type RunResult = { mode: Mode; wallMs: number; samples: Sample[]; payerFeeWei: bigint };
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function cidEvents(mode: Mode, actorIdx: number, batchIdx: number): CidEvent[] {
+    const tag = `relay-bench-${RUN_ID}-${mode}-a${actorIdx}-b${batchIdx}`;
+    return Array.from({ length: BATCH_SIZE }, (_, i) => ({
+        productId: toBytes32(`${tag}-product`),
+        stepId: toBytes32(`${tag}-step-${i}`),
+        cidHash: toBytes32(`${tag}-cid-${i}`),
+        stepType: STEP_ORDER[i % STEP_ORDER.length],
+    }));
+}
+
+async function postToRelayer(batch: SignedCidBatch): Promise<{ gasUsed: bigint; txHash: string }> {
+    const res = await fetch(`${RELAYER_URL}/relay`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(signedCidBatchToJson(batch)),
+    });
+    const body = (await res.json()) as { error?: string; gasUsed?: string; txHash?: string };
+    if (!res.ok) throw new Error(`Relayer ${res.status}: ${body.error ?? "unknown error"}`);
+    return { gasUsed: BigInt(body.gasUsed ?? "0"), txHash: body.txHash ?? "" };
+}
+
+async function relayerAddress(fallback: string): Promise<string> {
+    if (!RELAYER_URL) return fallback;
+    const res = await fetch(`${RELAYER_URL}/health`);
+    if (!res.ok) throw new Error(`Relayer /health returned ${res.status}`);
+    return ((await res.json()) as { relayer: string }).relayer;
+}
+
+function summarize(run: RunResult): void {
+    const { samples } = run;
+    const events = samples.length * BATCH_SIZE;
+    const gas = samples.reduce((a, s) => a + s.gasUsed, 0n);
+    const latencies = samples.map((s) => s.latencyMs).sort((a, b) => a - b);
+    const p50 = latencies[Math.floor(latencies.length / 2)] ?? 0;
+    const avgSign = samples.reduce((a, s) => a + s.signMs, 0) / Math.max(samples.length, 1);
+    const actorFees = samples.reduce((a, s) => a + s.actorFeeWei, 0n);
+
+    console.log(`\n--- ${run.mode} ---`);
+    console.log(`  batches:          ${samples.length} (${events} events) in ${(run.wallMs / 1000).toFixed(2)} s`);
+    console.log(
+        `  throughput:       ${((events * 1000) / run.wallMs).toFixed(1)} events/s, ` +
+        `${((samples.length * 1000) / run.wallMs).toFixed(2)} batches/s`,
+    );
+    const signNote = run.mode === "relayed" ? ` (signing avg ${avgSign.toFixed(1)} ms)` : "";
+    console.log(`  latency p50:      ${p50.toFixed(0)} ms per batch${signNote}`);
+    console.log(`  gas per batch:    ${samples.length ? (gas / BigInt(samples.length)).toString() : "-"}`);
+    console.log(`  gas per event:    ${events ? (gas / BigInt(events)).toString() : "-"}`);
+    console.log(`  paid by actors:   ${ethers.formatEther(actorFees)} ETH`);
+    console.log(`  paid by relayer:  ${ethers.formatEther(run.payerFeeWei)} ETH`);
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    const pk = process.env.OP_SEPOLIA_PRIVATE_KEY;
+    if (!rpcUrl || !pk) {
+        throw new Error("Missing OP_SEPOLIA_RPC_URL or OP_SEPOLIA_PRIVATE_KEY in .env");
+    }
+    const counts = { RELAY_BENCH_ACTORS: ACTORS, RELAY_BENCH_BATCHES: BATCHES, RELAY_BENCH_BATCH_SIZE: BATCH_SIZE };
+    for (const [name, v] of Object.entries(counts)) {
+        if (!Number.isInteger(v) || v < 1) throw new Error(`${name} must be >= 1`);
+    }
+
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, { required: ["ActorRegistry", "CidRollup"] });
+
+    // NonceManager: automining local nodes can report a stale pending nonce
+    const owner = new NonceManager(new Wallet(pk, provider));
+    const ownerAddr = await owner.getAddress();
+    const actorRegistry = new ActorRegistryClient(deployment.addresses.ActorRegistry, owner);
+    const rollup = new CidRollupClient(deployment.addresses.CidRollup, provider);
+
+    console.log("RPC URL:", rpcUrl);
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log("CidRollup:", rollup.address);
+    console.log(`Actors: ${ACTORS}, batches per actor: ${BATCHES}, events per batch: ${BATCH_SIZE}`);
+    console.log(`Relayer: ${RELAYER_URL ?? "in-process"}`);
+    console.log("Run id:", RUN_ID);
+    console.log("");
+
+    const registryOwner = await actorRegistry.owner();
+    if (registryOwner.toLowerCase() !== ownerAddr.toLowerCase()) {
+        throw new Error(`OP_SEPOLIA_PRIVATE_KEY is not ActorRegistry.owner() (${registryOwner})`);
+    }
+
+    // ---- Setup: one org with ACTORS wallets, funded for the direct run ----
+    const actors = Array.from({ length: ACTORS }, () => Wallet.createRandom().connect(provider));
+    const orgIdHash = toBytes32(`relay-bench-org-${RUN_ID}`);
+    console.log(`Registering org relay-bench-org-${RUN_ID} with ${ACTORS} wallets and funding them...`);
+    await (await actorRegistry.registerActor(orgIdHash, actors[0].address, Role.Operator, toBytes32("relay-bench"))).wait();
+    for (const a of actors.slice(1)) {
+        await (await actorRegistry.addOrgWallet(orgIdHash, a.address)).wait();
+    }
+    for (const a of actors) {
+        await (await owner.sendTransaction({ to: a.address, value: ethers.parseEther(FUND_ETH) })).wait();
+    }
+
+    // ---- Direct ----
+    console.log("Direct: actors call submitCidBatch themselves...");
+    const directStart = Date.now();
+    const directSamples = (
+        await Promise.all(
+            actors.map(async (actor, ai) => {
+                const client = rollup.connect(new NonceManager(actor));
+                const samples: Sample[] = [];
+                for (let b = 0; b < BATCHES; b++) {
+                    const t0 = Date.now();
+                    const tx = await client.submitCidBatch(cidEvents("direct", ai, b));
+                    const receipt = await tx.wait();
+                    const gasUsed = receipt?.gasUsed ?? 0n;
+                    samples.push({
+                        mode: "direct",
+                        actor: actor.address,
+                        latencyMs: Date.now() - t0,
+                        signMs: 0,
+                        gasUsed,
+                        actorFeeWei: gasUsed * (receipt?.gasPrice ?? 0n),
+                    });
+                }
+                return samples;
+            }),
+        )
+    ).flat();
+    const direct: RunResult = { mode: "direct", wallMs: Date.now() - directStart, samples: directSamples, payerFeeWei: 0n };
+
+    // ---- Relayed ----
+    const relayerKey = process.env.RELAYER_PRIVATE_KEY?.trim() || pk;
+    const relayerWallet = new Wallet(relayerKey, provider);
+    const inProcess = RELAYER_URL
+        ? undefined
+        : new CidRelayer(rollup.connect(new NonceManager(relayerWallet)), actorRegistry.connect(provider), {
+            chainId: deployment.chainId,
+        });
+    const payer = await relayerAddress(relayerWallet.address);
+    const payerBefore = await provider.getBalance(payer);
+    // the in-process relayer may share the owner key; the owner sends nothing during this phase
+
+    console.log(`Relayed: actors sign, ${payer} submits...`);
+    const relayedStart = Date.now();
+    const relayedSamples = (
+        await Promise.all(
+            actors.map(async (actor, ai) => {
+                let nonce = await rollup.nonces(actor.address);
+                const samples: Sample[] = [];
+                for (let b = 0; b < BATCHES; b++) {
+                    const t0 = Date.now();
+                    const batch = await signCidBatch(actor, {
+                        chainId: deployment.chainId,
+                        rollupAddress: rollup.address,
+                        events: cidEvents("relayed", ai, b),
+                        nonce: nonce++,
+                        deadline: BigInt(Math.floor(Date.now() / 1000) + DEADLINE_SECONDS),
+                    });
+                    const signMs = Date.now() - t0;
+                    const { gasUsed } = inProcess ? await inProcess.relay(batch) : await postToRelayer(batch);
+                    samples.push({
+                        mode: "relayed",
+                        actor: actor.address,
+                        latencyMs: Date.now() - t0,
+                        signMs,
+                        gasUsed,
+                        actorFeeWei: 0n,
+                    });
+                }
+                return samples;
+            }),
+        )
+    ).flat();
+    const relayed: RunResult = {
+        mode: "relayed",
+        wallMs: Date.now() - relayedStart,
+        samples: relayedSamples,
+        payerFeeWei: payerBefore - (await provider.getBalance(payer)),
+    };
+
+    summarize(direct);
+    summarize(relayed);
+
+    const directGas = Number(direct.samples.reduce((a, s) => a + s.gasUsed, 0n)) / direct.samples.length;
+    const relayedGas = Number(relayed.samples.reduce((a, s) => a + s.gasUsed, 0n)) / relayed.samples.length;
+    console.log("\n=== Relayed vs direct ===");
+    console.log(
+        `  gas overhead per batch: ${(relayedGas - directGas).toFixed(0)} ` +
+        `(${((relayedGas / directGas - 1) * 100).toFixed(1)}%)`,
+    );
+    console.log(`  throughput ratio:       ${(direct.wallMs / relayed.wallMs).toFixed(2)}x`);
+}
+
+main().catch((err) => {
+    console.error("Fatal error in benchmark-relayed-vs-direct:", err);
+    process.exit(1);
+});
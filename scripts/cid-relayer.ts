@@ -0,0 +1,187 @@
+// scripts/cid-relayer.ts
+//
+// HTTP relayer for sponsored CidRollup anchors. Registered actors sign a
+// CidBatch (EIP-712, see src/meta-tx.ts) and POST it here; the relayer checks
+// it and submits it with CidRollup.submitCidBatchFor, paying the gas from
+// RELAYER_PRIVATE_KEY. The actors need no ETH.
+//
+// Endpoints (JSON):
+//   GET  /health           relayer address, balance, chainId, CidRollup, stats
+//   GET  /domain           EIP-712 domain + types to sign with
+//   GET  /nonce/<address>  next nonce for a signer (on-chain nonce + queued batches)
+//   POST /relay            body: SignedCidBatchJson -> { txHash, blockNumber, gasUsed, ... }
+//                          400 { error } if the batch is rejected (nothing is mined)
+//
+// Usage:
+//   npx tsx scripts/cid-relayer.ts
+//
+// Required .env:
+//   OP_SEPOLIA_RPC_URL=...
+//   RELAYER_PRIVATE_KEY=...      # falls back to OP_SEPOLIA_PRIVATE_KEY
+//
+// Optional .env:
+//   RELAYER_PORT=8787
+//   RELAYER_HOST=127.0.0.1
+//   RELAYER_MAX_EVENTS=200        # largest batch the relayer pays for
+//   RELAYER_MAX_BODY_BYTES=1000000
+
+import "dotenv/config";
+import http from "http";
+import { NonceManager, Wallet, ethers } from "ethers";
+
+import {
+    ActorRegistryClient,
+    CID_BATCH_TYPES,
+    CidRelayer,
+    CidRollupClient,
+    RelayRejectedError,
+    cidRollupDomain,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    signedCidBatchFromJson,
+} from "../src/index.js";
+
+const PORT = Number(process.env.RELAYER_PORT ?? "8787");
+const HOST = process.env.RELAYER_HOST ?? "127.0.0.1";
+const MAX_EVENTS = Number(process.env.RELAYER_MAX_EVENTS ?? "200");
+const MAX_BODY_BYTES = Number(process.env.RELAYER_MAX_BODY_BYTES ?? "1000000");
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    const text = JSON.stringify(body, (_k, v) => (typeof v === "bigint" ? v.toString() : v));
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(text);
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, "request body too large");
+        chunks.push(chunk as Buffer);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+        throw new HttpError(400, "body is not valid JSON");
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    const pk = process.env.RELAYER_PRIVATE_KEY?.trim() || process.env.OP_SEPOLIA_PRIVATE_KEY?.trim();
+    if (!rpcUrl || !pk) {
+        throw new Error("Missing OP_SEPOLIA_RPC_URL or RELAYER_PRIVATE_KEY / OP_SEPOLIA_PRIVATE_KEY in .env");
+    }
+
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, { required: ["ActorRegistry", "CidRollup"] });
+    // NonceManager: batches of different signers are mined in parallel, so nonces run ahead of the chain
+    // NonceManager: batches of different signers are sent in parallel
+    const wallet = new Wallet(pk, provider);
+    const relayerSigner = new NonceManager(wallet);
+    const rollup = new CidRollupClient(deployment.addresses.CidRollup, relayerSigner);
+    const actorRegistry = new ActorRegistryClient(deployment.addresses.ActorRegistry, provider);
+    const relayer = new CidRelayer(rollup, actorRegistry, { chainId: deployment.chainId, maxEvents: MAX_EVENTS });
+
+    // batches accepted but not yet mined, per signer, so /nonce can hand out the next one
+    const queued = new Map<string, number>();
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+        try {
+            if (req.method === "GET" && url.pathname === "/health") {
+                sendJson(res, 200, {
+                    relayer: wallet.address,
+                    balance: ethers.formatEther(await provider.getBalance(wallet.address)),
+                    chainId: deployment.chainId,
+                    cidRollup: rollup.address,
+                    stats: relayer.stats,
+                });
+                return;
+            }
+
+            if (req.method === "GET" && url.pathname === "/domain") {
+                sendJson(res, 200, { domain: cidRollupDomain(deployment.chainId, rollup.address), types: CID_BATCH_TYPES });
+                return;
+            }
+
+            const nonceMatch = /^\/nonce\/(0x[0-9a-fA-F]{40})$/.exec(url.pathname);
+            if (req.method === "GET" && nonceMatch) {
+                const signer = ethers.getAddress(nonceMatch[1]);
+                const onChain = await rollup.nonces(signer);
+                sendJson(res, 200, { signer, nonce: onChain + BigInt(queued.get(signer) ?? 0) });
+                return;
+            }
+
+            if (req.method === "POST" && url.pathname === "/relay") {
+                let batch;
+                try {
+                    batch = signedCidBatchFromJson(await readJson(req));
+                } catch (err) {
+                    if (err instanceof HttpError) throw err;
+                    throw new HttpError(400, (err as Error).message);
+                }
+
+                queued.set(batch.signer, (queued.get(batch.signer) ?? 0) + 1);
+                try {
+                    const result = await relayer.relay(batch);
+                    console.log(
+                        `relayed ${result.events} events for ${result.signer} nonce=${result.nonce} ` +
+                        `gas=${result.gasUsed} tx=${result.txHash}`,
+                    );
+                    sendJson(res, 200, result);
+                } finally {
+                    const left = (queued.get(batch.signer) ?? 1) - 1;
+                    if (left > 0) queued.set(batch.signer, left);
+                    else queued.delete(batch.signer);
+                }
+                return;
+            }
+
+            throw new HttpError(404, `no route for ${req.method} ${url.pathname}`);
+        } catch (err) {
+            if (err instanceof RelayRejectedError) {
+                console.warn(`rejected: ${err.message}`);
+                sendJson(res, 400, { error: err.message });
+            } else if (err instanceof HttpError) {
+                sendJson(res, err.status, { error: err.message });
+            } else {
+                console.error("relay error:", err);
+                sendJson(res, 502, { error: (err as Error)?.message ?? String(err) });
+            }
+        }
+    });
+
+    await new Promise<void>((resolve) => server.listen(PORT, HOST, resolve));
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log("CidRollup:", rollup.address);
+    console.log("Relayer:", wallet.address, `(${ethers.formatEther(await provider.getBalance(wallet.address))} ETH)`);
+    console.log(`Listening on http://${HOST}:${PORT}`);
+
+    const shutdown = () => {
+        console.log("\nShutting down relayer...");
+        server.close(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+    console.error("Fatal error in cid-relayer:", err);
+    process.exit(1);
+});
@@ -1,14 +1,23 @@
 // scripts/deploy-op-sepolia.ts
-// Deploys the FairTrade infra suite to Optimism Sepolia and records
-// contract addresses in op-sepolia-deployments.json.
+// Deploys the FairTrade infra suite and records each contract in the
+// per-network deployment registry (deployments.json, keyed by chainId) together
+// with its deploy block, deployer, tx hash and artifact bytecode hash.
+//
+// Works against any RPC: point OP_SEPOLIA_RPC_URL at a local `hardhatOp` node
+// (npx hardhat node --network hardhatOp) to get a local deployment entry.
 //
 // Usage:
 //   npx hardhat run scripts/deploy-op-sepolia.ts --network opSepolia
+//
+// Optional env:
+//   FAIRTRADE_DEPLOYMENTS_FILE=./deployments.json
+//   DEPLOY_FORCE=1   # redeploy contracts whose recorded bytecodeHash differs from the artifact (or is missing)
+//
+// Contracts bound to an ActorRegistry other than the one recorded (after it
+// was redeployed) are always redeployed, so the suite never mixes registries.
 
 import "dotenv/config";
 import { ethers } from "ethers";
-import { promises as fs } from "fs";
-import path from "path";
 
 import actorRegistryArtifact from "../artifacts/contracts/ActorRegistry.sol/ActorRegistry.json";
 import documentRegistryArtifact from "../artifacts/contracts/DocumentRegistry.sol/DocumentRegistry.json";
@@ -16,34 +25,68 @@ import cidRollupArtifact from "../artifacts/contracts/CidRollup.sol/CidRollup.js
 import processManagerArtifact from "../artifacts/contracts/ProcessManager.sol/ProcessManager.json";
 import paymentRouterArtifact from "../artifacts/contracts/PaymentRouter.sol/PaymentRouter.json";
 
-type DeploymentMap = { [contractName: string]: string };
-
-const DEPLOYMENTS_FILE = path.join(process.cwd(), "op-sepolia-deployments.json");
-
-async function loadDeployments(): Promise<DeploymentMap> {
+import {
+    PaymentRouterClient,
+    bytecodeHash,
+    defaultDeploymentsFile,
+    ensureNetworkDeployment,
+    loadDeploymentRegistry,
+    rpcProviderFromEnv,
+    saveDeploymentRegistry,
+    type ContractName,
+    type DeploymentRegistry,
+    type NetworkDeployment,
+} from "../src/index.js";
+
+const DEPLOYMENTS_FILE = defaultDeploymentsFile();
+const FORCE_REDEPLOY = (process.env.DEPLOY_FORCE ?? "0") === "1";
+
+/** The ActorRegistry a deployed contract was constructed with, or undefined if it cannot be read. */
+async function boundActorRegistry(address: string, wallet: ethers.Signer): Promise<string | undefined> {
     try {
-        const raw = await fs.readFile(DEPLOYMENTS_FILE, "utf8");
-        return JSON.parse(raw) as DeploymentMap;
+        const contract = new ethers.Contract(address, ["function actorRegistry() view returns (address)"], wallet);
+        return ethers.getAddress(await contract.actorRegistry());
     } catch {
-        return {};
+        return undefined;
     }
 }
 
-async function saveDeployments(deployments: DeploymentMap): Promise<void> {
-    const json = JSON.stringify(deployments, null, 2);
-    await fs.writeFile(DEPLOYMENTS_FILE, json, "utf8");
-}
-
+/** `actorRegistry`: the registry a dependent contract must be bound to; one bound elsewhere is redeployed. */
 async function deployIfNeeded(
-    name: string,
+    name: ContractName,
     artifact: any,
-    wallet: ethers.Wallet,
-    deployments: DeploymentMap,
-    constructorArgs: unknown[] = []
+    wallet: ethers.Signer,
+    registry: DeploymentRegistry,
+    network: NetworkDeployment,
+    constructorArgs: unknown[] = [],
+    actorRegistry?: string
 ): Promise<string> {
-    if (deployments[name]) {
-        console.log(`⏭  ${name} already deployed at ${deployments[name]}`);
-        return deployments[name];
+    const existing = network.contracts[name];
+    const artifactHash = bytecodeHash(artifact.bytecode);
+
+    if (existing) {
+        const bound = actorRegistry ? await boundActorRegistry(existing.address, wallet) : undefined;
+        if (actorRegistry && bound !== ethers.getAddress(actorRegistry)) {
+            console.log(
+                `♻️  ${name} at ${existing.address} is bound to ${bound ?? "an unreadable ActorRegistry"}, ` +
+                `not ${actorRegistry}; redeploying ...`
+            );
+        } else {
+            const stale = existing.bytecodeHash !== artifactHash;
+            if (!stale) {
+                console.log(`⏭  ${name} already deployed at ${existing.address}`);
+                return existing.address;
+            }
+            const recorded = existing.bytecodeHash ? `recorded ${existing.bytecodeHash}` : "no bytecodeHash recorded";
+            if (!FORCE_REDEPLOY) {
+                console.log(
+                    `⚠️  ${name} at ${existing.address} may come from different bytecode ` +
+                    `(${recorded}, artifact ${artifactHash}); keeping it. Set DEPLOY_FORCE=1 to redeploy.`
+                );
+                return existing.address;
+            }
+            console.log(`♻️  ${name} bytecode changed or unknown, redeploying (DEPLOY_FORCE=1) ...`);
+        }
     }
 
     const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, wallet);
@@ -53,10 +96,17 @@ async function deployIfNeeded(
     await contract.waitForDeployment();
 
     const address = await contract.getAddress();
-    console.log(`✅ ${name} deployed at: ${address}`);
-
-    deployments[name] = address;
-    await saveDeployments(deployments);
+    const receipt = await contract.deploymentTransaction()?.wait();
+    console.log(`✅ ${name} deployed at: ${address} (block ${receipt?.blockNumber ?? "?"})`);
+
+    network.contracts[name] = {
+        address,
+        deployBlock: receipt?.blockNumber,
+        deployer: await wallet.getAddress(),
+        txHash: receipt?.hash,
+        bytecodeHash: artifactHash,
+    };
+    await saveDeploymentRegistry(registry, DEPLOYMENTS_FILE);
 
     return address;
 }
@@ -69,21 +119,27 @@ async function main() {
         throw new Error("Missing OP_SEPOLIA_RPC_URL or OP_SEPOLIA_PRIVATE_KEY in .env");
     }
 
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const wallet = new ethers.Wallet(privateKey, provider);
+    const provider = rpcProviderFromEnv();
+    // NonceManager keeps nonces straight on automining local nodes (hardhatOp),
+    // where the provider can report a stale pending nonce between deploys.
+    const wallet = new ethers.NonceManager(new ethers.Wallet(privateKey, provider));
+    const { chainId } = await provider.getNetwork();
 
     console.log("Deployer address:", await wallet.getAddress());
     console.log("RPC URL:", rpcUrl);
+    console.log("Chain ID:", chainId.toString());
     console.log("");
 
-    const deployments = await loadDeployments();
+    const registry = await loadDeploymentRegistry(DEPLOYMENTS_FILE);
+    const network = ensureNetworkDeployment(registry, chainId);
 
     // 1. ActorRegistry (owner = deployer)
     const actorRegistryAddress = await deployIfNeeded(
         "ActorRegistry",
         actorRegistryArtifact,
         wallet,
-        deployments,
+        registry,
+        network,
         [await wallet.getAddress()]
     );
 
@@ -92,8 +148,10 @@ async function main() {
         "DocumentRegistry",
         documentRegistryArtifact,
         wallet,
-        deployments,
-        [actorRegistryAddress]
+        registry,
+        network,
+        [actorRegistryAddress],
+        actorRegistryAddress
     );
 
     // 3. ProcessManager
@@ -101,8 +159,10 @@ async function main() {
         "ProcessManager",
         processManagerArtifact,
         wallet,
-        deployments,
-        [actorRegistryAddress]
+        registry,
+        network,
+        [actorRegistryAddress],
+        actorRegistryAddress
     );
 
     // 4. CidRollup
@@ -110,8 +170,10 @@ async function main() {
         "CidRollup",
         cidRollupArtifact,
         wallet,
-        deployments,
-        [actorRegistryAddress]
+        registry,
+        network,
+        [actorRegistryAddress],
+        actorRegistryAddress
     );
 
     // 5. PaymentRouter
@@ -121,21 +183,30 @@ async function main() {
         "PaymentRouter",
         paymentRouterArtifact,
         wallet,
-        deployments,
+        registry,
+        network,
         [
             actorRegistryAddress,
             [await wallet.getAddress()], // recipients
             [10_000], // 100% in basis points
-        ]
+        ],
+        actorRegistryAddress
     );
 
-    console.log("\n=== Deployment summary (Optimism Sepolia) ===");
+    // 6. PaymentRouter looks up who owns an unbound product in ProcessManager
+    const router = new PaymentRouterClient(paymentRouterAddress, wallet);
+    if ((await router.processManager()).toLowerCase() !== processManagerAddress.toLowerCase()) {
+        console.log("🔗 Pointing PaymentRouter at ProcessManager ...");
+        await (await router.setProcessManager(processManagerAddress)).wait();
+    }
+
+    console.log(`\n=== Deployment summary (${network.network}, chainId ${chainId}) ===`);
     console.log("ActorRegistry:    ", actorRegistryAddress);
     console.log("DocumentRegistry: ", documentRegistryAddress);
     console.log("ProcessManager:   ", processManagerAddress);
     console.log("CidRollup:        ", cidRollupAddress);
     console.log("PaymentRouter:    ", paymentRouterAddress);
-    console.log(`\nDeployment map saved to: ${DEPLOYMENTS_FILE}`);
+    console.log(`\nDeployment registry saved to: ${DEPLOYMENTS_FILE}`);
 }
 
 main().catch((err) => {
@@ -15,7 +15,9 @@
 import "dotenv/config";
 import { promises as fs } from "fs";
 import path from "path";
-import { Wallet, JsonRpcProvider, ethers } from "ethers";
+import { Wallet, ethers } from "ethers";
+
+import { isRejectedRpcError, rpcProviderFromEnv, withRpcRetry } from "../src/index.js";
 
 const FAUCET_STATE_FILE = path.join(process.cwd(), "op-sepolia-faucet-wallets-batch.json");
 const TARGET_WALLET_COUNT = 50;
@@ -62,30 +64,14 @@ async function saveFaucetState(state: FaucetState): Promise<void> {
 }
 
 // -----------------------------------------------------------------------------
-// Helpers: rate-limit / backend-error / gas-error aware RPC wrapper
+// Helpers: sleep, gas-error check and retry log (rate limits and unhealthy
+// backends are handled by the SDK transport, src/rpc)
 // -----------------------------------------------------------------------------
 
 function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function isRateLimitOrBackendError(err: any): boolean {
-    const code = err?.error?.code ?? err?.code;
-    const msg: string | undefined = err?.error?.message ?? err?.message;
-
-    // OP 公共 RPC 的典型错误码：
-    // -32016: requests per second capacity exceeded
-    // -32011: no backend is currently healthy to serve traffic
-    if (code === -32016 || code === -32011) return true;
-
-    if (typeof msg === "string") {
-        const lower = msg.toLowerCase();
-        if (lower.includes("exceeded its requests per second capacity")) return true;
-        if (lower.includes("no backend is currently healthy to serve traffic")) return true;
-    }
-    return false;
-}
-
 function isReplacementUnderpricedError(err: any): boolean {
     const code = err?.code;
     const msg: string | undefined = err?.error?.message ?? err?.message;
@@ -97,28 +83,8 @@ function isReplacementUnderpricedError(err: any): boolean {
     return false;
 }
 
-async function withRpcRetry<T>(fn: () => Promise<T>, label: string): Promise<T> {
-    let attempt = 0;
-    const maxAttempts = 20;
-
-    while (true) {
-        try {
-            return await fn();
-        } catch (err: any) {
-            if (isRateLimitOrBackendError(err) && attempt < maxAttempts) {
-                const delayMs = Math.min(10_000, 1000 * 2 ** attempt); // 1s,2s,4s,...,max 10s
-                console.log(
-                    `   ⚠️ RPC rate/back-end issue on "${label}", sleeping ${delayMs} ms then retrying (attempt ${
-                        attempt + 1
-                    }/${maxAttempts})`,
-                );
-                await sleep(delayMs);
-                attempt++;
-                continue;
-            }
-            throw err;
-        }
-    }
+function logRetry(line: string) {
+    console.log(`   ⚠️ ${line}`);
 }
 
 // -----------------------------------------------------------------------------
@@ -163,12 +129,12 @@ async function main() {
         throw new Error("Missing OP_SEPOLIA_RPC_URL or OP_SEPOLIA_PRIVATE_KEY in .env");
     }
 
-    const provider = new JsonRpcProvider(rpcUrl);
+    const provider = rpcProviderFromEnv();
     const funder = new Wallet(privateKey, provider);
     const funderAddress = await funder.getAddress();
 
     console.log("Funder address:", funderAddress);
-    console.log("RPC URL:", rpcUrl);
+    console.log("RPC URLs:", provider.transport.urls.join(", "));
 
     // Ensure we have 3000 wallets on disk
     const state = await ensureWallets();
@@ -190,7 +156,7 @@ async function main() {
     // Fetch current funder balance from network with rate/ backend aware wrapper
     const currentBalance = await withRpcRetry(
         () => provider.getBalance(funderAddress),
-        "getBalance(initial)",
+        { label: "getBalance(initial)", log: logRetry },
     );
     console.log("Current funder balance (wei):", currentBalance.toString());
 
@@ -226,7 +192,7 @@ async function main() {
         // Re-check funder balance before each transfer (with retry)
         const latestBalance = await withRpcRetry(
             () => provider.getBalance(funderAddress),
-            "getBalance(per-wallet)",
+            { label: "getBalance(per-wallet)", log: logRetry },
         );
 
         if (latestBalance <= perWalletWei + GAS_BUFFER_WEI) {
@@ -248,7 +214,8 @@ async function main() {
                         to: w.address,
                         value: perWalletWei,
                     }),
-                "sendTransaction",
+                // only when the RPC turned it away: every try signs the next nonce
+                { label: "sendTransaction", log: logRetry, retryIf: isRejectedRpcError },
             );
 
             console.log(`   Tx sent: ${tx.hash}`);
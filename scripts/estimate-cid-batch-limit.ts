@@ -13,9 +13,8 @@
 // - Sleep CID_TRIAL_DELAY_MS (default 10000 ms) after each trial to avoid
 //   hammering the RPC.
 //
-// Contracts on OP Sepolia:
-//   ActorRegistry: 0xFb451B3Bfb497C54719d0DB354a502a9D9cE38C1
-//   CidRollup:     0xC6d171F707bA43BdF490362a357D975B76976264
+// Contracts are resolved from deployments.json for the RPC's chainId
+// (ACTOR_REGISTRY_ADDRESS / CID_ROLLUP_ADDRESS env vars override).
 //
 // Env:
 //   OP_SEPOLIA_RPC_URL=...
@@ -32,17 +31,18 @@
 //   npx tsx scripts/benchmark-cid-batch-limit-binary.ts
 
 import "dotenv/config";
-import { JsonRpcProvider, Wallet, ethers } from "ethers";
-
-import actorRegistryArtifact from "../artifacts/contracts/ActorRegistry.sol/ActorRegistry.json";
-import cidRollupArtifact from "../artifacts/contracts/CidRollup.sol/CidRollup.json";
-
-// -----------------------------------------------------------------------------
-// Deployed addresses (OP Sepolia)
-// -----------------------------------------------------------------------------
-
-const ACTOR_REGISTRY_ADDRESS = "0xFb451B3Bfb497C54719d0DB354a502a9D9cE38C1";
-const CID_ROLLUP_ADDRESS = "0xC6d171F707bA43BdF490362a357D975B76976264";
+import { Wallet, ethers } from "ethers";
+
+import {
+    ActorRegistryClient,
+    CidRollupClient,
+    Role,
+    StepType,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    toBytes32,
+    type CidEvent,
+} from "../src/index.js";
 
 // -----------------------------------------------------------------------------
 // Config
@@ -60,9 +60,6 @@ const RUN_ID_BASE = process.env.CID_RUN_ID ?? `${Date.now()}`;
 // Delay between trials (ms) to avoid RPC issues
 const TRIAL_DELAY_MS = Number(process.env.CID_TRIAL_DELAY_MS ?? "10000");
 
-// FairtradeTypes.Role.Producer = 1
-const ROLE_PRODUCER = 1;
-
 // -----------------------------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------------------------
@@ -71,12 +68,8 @@ function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function toBytes32(label: string): string {
-    return ethers.keccak256(ethers.toUtf8Bytes(label));
-}
-
 async function ensureRegisteredActor(
-    actorRegistry: ethers.Contract,
+    actorRegistry: ActorRegistryClient,
     wallet: Wallet,
 ): Promise<void> {
     const addr = await wallet.getAddress();
@@ -87,7 +80,7 @@ async function ensureRegisteredActor(
         return;
     }
 
-    console.log(`Actor not registered, registering as Producer: ${addr}`);
+    console.log(`Actor not registered, registering as Operator: ${addr}`);
 
     const orgIdHash = toBytes32("fairtrade-bench-org");
     const metadataHash = toBytes32("fairtrade-bench-metadata");
@@ -95,7 +88,7 @@ async function ensureRegisteredActor(
     const tx = await actorRegistry.registerActor(
         orgIdHash,
         addr,
-        ROLE_PRODUCER,
+        Role.Operator, // batches mix all step types; only Operator may anchor every one
         metadataHash,
     );
     console.log("  registerActor tx hash:", tx.hash);
@@ -106,13 +99,6 @@ async function ensureRegisteredActor(
     );
 }
 
-type CidEvent = {
-    productId: string;
-    stepId: string;
-    cidHash: string;
-    stepType: number;
-};
-
 // 给某个 batchSize + 某次尝试，生成一批完全独立的 CidEvent
 function buildEvents(batchSize: number, attemptTag: string): CidEvent[] {
     const events: CidEvent[] = [];
@@ -127,7 +113,7 @@ function buildEvents(batchSize: number, attemptTag: string): CidEvent[] {
         const cidHash = toBytes32(`run-${attemptTag}-cid-${i}`);
 
         // StepType enum (1..6): Produced, Processed, Shipped, Received, AtRetail, Sold
-        const stepType = ((i % 6) + 1) as number;
+        const stepType: StepType = (i % 6) + 1;
 
         events.push({
             productId,
@@ -142,7 +128,7 @@ function buildEvents(batchSize: number, attemptTag: string): CidEvent[] {
 
 // 只测一个 size，一次交易
 async function tryOnce(
-    cidRollup: ethers.Contract,
+    cidRollup: CidRollupClient,
     batchSize: number,
     attemptIndex: number,
 ): Promise<{ ok: boolean; gasUsed?: bigint }> {
@@ -191,7 +177,7 @@ async function tryOnce(
 // - 如果失败，再尝试 size+1 做 double-check
 // 返回：ok 表示“这一侧可以认为是成功”，usedSize 为成功时的 size（可能是 size+1）
 async function testWithDoubleCheck(
-    cidRollup: ethers.Contract,
+    cidRollup: CidRollupClient,
     batchSize: number,
     attemptCounter: { value: number },
     maxBatch: number,
@@ -257,23 +243,23 @@ async function main() {
     console.log("TRIAL_DELAY_MS:", TRIAL_DELAY_MS);
     console.log("");
 
-    const provider = new JsonRpcProvider(rpcUrl);
+    const provider = rpcProviderFromEnv();
     const wallet = new Wallet(privateKey, provider);
     const sender = await wallet.getAddress();
 
     console.log("Sender address:", sender);
     console.log("");
 
-    const actorRegistry = new ethers.Contract(
-        ACTOR_REGISTRY_ADDRESS,
-        (actorRegistryArtifact as any).abi,
-        wallet,
-    );
-    const cidRollup = new ethers.Contract(
-        CID_ROLLUP_ADDRESS,
-        (cidRollupArtifact as any).abi,
-        wallet,
-    );
+    const deployment = await resolveDeployment(provider, {
+        required: ["ActorRegistry", "CidRollup"],
+    });
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log("ActorRegistry:", deployment.addresses.ActorRegistry);
+    console.log("CidRollup:", deployment.addresses.CidRollup);
+    console.log("");
+
+    const actorRegistry = new ActorRegistryClient(deployment.addresses.ActorRegistry, wallet);
+    const cidRollup = new CidRollupClient(deployment.addresses.CidRollup, wallet);
 
     // 保证 sender 是 ACTIVE actor
     await ensureRegisteredActor(actorRegistry, wallet);
@@ -0,0 +1,244 @@
+// scripts/evidence-docs.ts
+//
+// Build and validate evidence documents (StepEvidence, Certificate,
+// ActorProfile; see src/evidence-schema.ts) before they are uploaded and
+// anchored with scripts/evidence-pipeline.ts.
+//
+// Usage:
+//   npx tsx scripts/evidence-docs.ts template <step|certificate|actor> [--step-type=<StepType>] [--out=<file>]
+//   npx tsx scripts/evidence-docs.ts build <input.json> [--out=<file>] [--doc=<DocType> | --step-type=<StepType>]
+//   npx tsx scripts/evidence-docs.ts validate <file...> [--product=<id> --step=<id> (--doc=<DocType> | --step-type=<StepType>)]
+//
+// template  prints an input skeleton to fill in.
+// build     reads an input document (the schema fields, "@type" required;
+//           "@context" and "schemaVersion" are added), hashes labels given
+//           for bytes32 ids (productId, stepId, orgIdHash, ...) with toBytes32,
+//           validates it and writes canonical JSON (default <input>.jsonld).
+//           Prints the CID the file gets when uploaded as the given anchor
+//           (default: step for StepEvidence, Certificate document, actor
+//           profile) and the cidHash / metadataHash to anchor.
+// validate  checks each file against its schema and, with --product/--step
+//           and a type, against the anchor it is meant for. Exits with 1 if
+//           any file is invalid.
+//
+// Offline; no env needed.
+
+import { promises as fs } from "fs";
+
+import {
+    ACTOR_PROFILE_CODEC,
+    CID_CODEC_RAW,
+    DocType,
+    EVIDENCE_DOCUMENT_TYPES,
+    EVIDENCE_JSONLD_CONTEXT,
+    EVIDENCE_SCHEMA_VERSION,
+    EvidenceSchemaError,
+    STEP_LABEL,
+    STEP_REQUIREMENTS,
+    StepType,
+    checkDocumentAgainstAnchor,
+    cidCodecFor,
+    cidHashFromCid,
+    cidOf,
+    evidenceDocumentBytes,
+    normalizeBytes32Id,
+    parseEvidenceDocument,
+    parseType,
+    schemaForAnchor,
+    validateEvidenceDocument,
+    type CidAnchorKind,
+    type EvidenceDocument,
+} from "../src/index.js";
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function flag(flags: string[], name: string): string | undefined {
+    const hit = flags.find((f) => f === `--${name}` || f.startsWith(`--${name}=`));
+    if (!hit) return undefined;
+    return hit.includes("=") ? hit.slice(hit.indexOf("=") + 1) : "";
+}
+
+/** --doc / --step-type as an anchor, if given. */
+function anchorFromFlags(flags: string[]): { kind: CidAnchorKind; type: number } | undefined {
+    const doc = flag(flags, "doc");
+    const stepType = flag(flags, "step-type");
+    if (doc !== undefined && stepType !== undefined) throw new Error("Pass either --doc or --step-type, not both");
+    if (doc !== undefined) return { kind: "doc", type: parseType("doc", doc) };
+    if (stepType !== undefined) return { kind: "step", type: parseType("step", stepType) };
+    return undefined;
+}
+
+const PLACE = { country: "CO", region: "Huila", site: "Finca La Esperanza" };
+
+function template(kind: string, stepType: StepType): Record<string, unknown> {
+    const productId = "coffee-batch-001";
+    if (kind === "certificate") {
+        return {
+            "@type": "Certificate",
+            certificateId: "FT-2026-0001",
+            scheme: "Fairtrade",
+            issuer: { name: "Certifier Ltd" },
+            holder: { name: "Cooperative La Esperanza", orgIdHash: "org:coop-esperanza" },
+            products: [productId],
+            scope: ["green coffee"],
+            validFrom: "2026-01-01",
+            validUntil: "2028-12-31",
+            status: "valid",
+        };
+    }
+    if (kind === "actor") {
+        return {
+            "@type": "ActorProfile",
+            orgIdHash: "org:coop-esperanza",
+            name: "Cooperative La Esperanza",
+            role: "Producer",
+            country: "CO",
+            wallets: ["0x0000000000000000000000000000000000000001"],
+            contact: { email: "ops@example.org" },
+        };
+    }
+    if (kind !== "step") throw new Error(`Unknown template "${kind}" (expected step, certificate or actor)`);
+
+    const optional: Record<string, unknown> = {
+        location: PLACE,
+        quantity: { value: 1200, unit: "kg" },
+        process: "washed",
+        shipment: { from: PLACE, to: { country: "DE", site: "Hamburg port" }, carrier: "Ocean Carrier" },
+        sale: { amount: "14.50", currency: "EUR" },
+    };
+    return {
+        "@type": "StepEvidence",
+        productId,
+        stepId: `${productId}:${STEP_LABEL[stepType].toLowerCase()}`,
+        stepType: STEP_LABEL[stepType],
+        occurredAt: new Date().toISOString(),
+        actor: { address: "0x0000000000000000000000000000000000000001" },
+        ...Object.fromEntries((STEP_REQUIREMENTS[stepType] ?? []).map((k) => [k, optional[k]])),
+    };
+}
+
+/** Add the header and hash bytes32 labels; everything else is left to validation. */
+function normalize(input: Record<string, unknown>): Record<string, unknown> {
+    const id = (v: unknown) => (typeof v === "string" && v.trim() !== "" ? normalizeBytes32Id(v) : v);
+    const doc: Record<string, any> = {
+        ...input,
+        "@context": EVIDENCE_JSONLD_CONTEXT,
+        schemaVersion: input.schemaVersion ?? EVIDENCE_SCHEMA_VERSION,
+    };
+    for (const key of ["productId", "stepId", "orgIdHash"]) if (key in doc) doc[key] = id(doc[key]);
+    if (doc.actor?.orgIdHash) doc.actor = { ...doc.actor, orgIdHash: id(doc.actor.orgIdHash) };
+    if (doc.issuer?.orgIdHash) doc.issuer = { ...doc.issuer, orgIdHash: id(doc.issuer.orgIdHash) };
+    if (doc.holder?.orgIdHash) doc.holder = { ...doc.holder, orgIdHash: id(doc.holder.orgIdHash) };
+    if (Array.isArray(doc.products)) doc.products = doc.products.map(id);
+    return doc;
+}
+
+/** Codec the document gets when uploaded as `anchor` (or its default anchor). */
+function codecFor(doc: EvidenceDocument, anchor?: { kind: CidAnchorKind; type: number }): { codec: number; as: string } {
+    if (doc["@type"] === "ActorProfile") return { codec: ACTOR_PROFILE_CODEC, as: "actor profile (metadataHash)" };
+    const a = anchor ?? (doc["@type"] === "Certificate"
+        ? { kind: "doc" as const, type: DocType.Certificate }
+        : { kind: "step" as const, type: Number(Object.entries(STEP_LABEL).find(([, l]) => l === doc.stepType)![0]) });
+    return { codec: cidCodecFor(a.kind, a.type), as: `${a.kind} type ${a.type}` };
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const [command, ...rest] = process.argv.slice(2);
+    const flags = rest.filter((a) => a.startsWith("--"));
+    const args = rest.filter((a) => !a.startsWith("--"));
+    const out = flag(flags, "out");
+
+    if (command === "template") {
+        const stepType = parseType("step", flag(flags, "step-type") ?? "Processed");
+        const text = JSON.stringify(template(args[0] ?? "step", stepType), null, 2);
+        if (out) {
+            await fs.writeFile(out, `${text}\n`, "utf8");
+            console.log(`Template written to ${out}`);
+        } else {
+            console.log(text);
+        }
+        return;
+    }
+
+    if (command === "build") {
+        const [file] = args;
+        if (!file) throw new Error("Usage: build <input.json> [--out=<file>] [--doc=<DocType> | --step-type=<StepType>]");
+        const input = JSON.parse(await fs.readFile(file, "utf8")) as Record<string, unknown>;
+        if (!EVIDENCE_DOCUMENT_TYPES.includes(input["@type"] as never)) {
+            throw new Error(`${file}: "@type" must be one of ${EVIDENCE_DOCUMENT_TYPES.join(", ")}`);
+        }
+
+        const doc = normalize(input);
+        const issues = validateEvidenceDocument(doc);
+        if (issues.length) throw new EvidenceSchemaError(issues);
+        const built = doc as EvidenceDocument;
+        const bytes = evidenceDocumentBytes(built);
+
+        // before anchoring only the document type (and the step type) can be checked
+        const anchor = anchorFromFlags(flags);
+        if (anchor) {
+            const expected = schemaForAnchor(anchor.kind, anchor.type);
+            if (expected && expected !== built["@type"]) {
+                throw new Error(`${anchor.kind} type ${anchor.type} anchors ${expected} documents, not ${built["@type"]}`);
+            }
+            if (built["@type"] === "StepEvidence" && built.stepType !== STEP_LABEL[anchor.type as StepType]) {
+                throw new Error(`${anchor.kind} type ${anchor.type} does not match stepType ${built.stepType}`);
+            }
+        }
+
+        const target = out ?? file.replace(/\.json$/i, "") + ".jsonld";
+        await fs.writeFile(target, bytes);
+        const { codec, as } = codecFor(built, anchor);
+        const cid = await cidOf(bytes, 1, codec === CID_CODEC_RAW);
+        console.log(`${built["@type"]} v${built.schemaVersion} written to ${target} (${bytes.length} bytes)`);
+        console.log(`CID as ${as}: ${cid}`);
+        console.log(`${built["@type"] === "ActorProfile" ? "metadataHash" : "cidHash"}: ${cidHashFromCid(cid)}`);
+        return;
+    }
+
+    if (command === "validate") {
+        if (args.length === 0) throw new Error("Usage: validate <file...> [--product=<id> --step=<id> (--doc | --step-type)]");
+        const anchor = anchorFromFlags(flags);
+        const product = flag(flags, "product");
+        const step = flag(flags, "step");
+        if (anchor && (!product || !step)) throw new Error("--doc / --step-type need --product and --step");
+
+        let failed = 0;
+        for (const file of args) {
+            let issues: string[];
+            let doc: EvidenceDocument | undefined;
+            try {
+                doc = parseEvidenceDocument(await fs.readFile(file));
+                issues = anchor
+                    ? checkDocumentAgainstAnchor(doc, {
+                        ...anchor,
+                        productId: normalizeBytes32Id(product!),
+                        stepId: normalizeBytes32Id(step!),
+                    })
+                    : [];
+            } catch (err) {
+                if (!(err instanceof EvidenceSchemaError)) throw err;
+                issues = err.issues;
+            }
+            if (issues.length) failed++;
+            console.log(`${issues.length ? "INVALID" : "OK     "} ${file}${doc ? ` (${doc["@type"]} v${doc.schemaVersion})` : ""}`);
+            for (const issue of issues) console.log(`        ${issue}`);
+        }
+        console.log(`\n${args.length - failed}/${args.length} document(s) valid`);
+        if (failed) process.exitCode = 1;
+        return;
+    }
+
+    throw new Error("Usage: evidence-docs.ts template <step|certificate|actor> | build <input.json> | validate <file...>");
+}
+
+main().catch((err) => {
+    console.error("Fatal error in evidence-docs:", err);
+    process.exit(1);
+});
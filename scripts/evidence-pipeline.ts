@@ -0,0 +1,295 @@
+// scripts/evidence-pipeline.ts
+//
+// End-to-end evidence pipeline: upload a file, anchor the digest of its real
+// CID on-chain, and later verify anchored evidence starting from the chain.
+//
+// Usage:
+//   npx tsx scripts/evidence-pipeline.ts anchor <file> --product=<id> --step=<id> --doc=<DocType> [--register[=<Role>]] [--raw]
+//   npx tsx scripts/evidence-pipeline.ts anchor <file> --product=<id> --step=<id> --step-type=<StepType> [--register[=<Role>]] [--raw]
+//   npx tsx scripts/evidence-pipeline.ts verify [--product=<id>] [--from-block=<n>] [--out=<report.json>]
+//   npx tsx scripts/evidence-pipeline.ts cid <cid>
+//
+// anchor   uploads <file> with EVIDENCE_UPLOAD in the layout the CID codec
+//          policy gives its type (steps: raw, documents: dag-pb), checks the
+//          returned CID against the bytes, and anchors the CID's sha2-256
+//          digest as cidHash: --doc anchors with DocumentRegistry.anchorDocument,
+//          --step-type with CidRollup.submitCidBatch (one event). The record
+//          (CID, tx, block) is appended to the pipeline DB. Steps, stage
+//          records and certificates must be evidence documents (see
+//          scripts/evidence-docs.ts) that match the anchor, unless --raw is
+//          passed; other DocTypes are anchored as they are. --register first
+//          registers the sender (default role Operator) if it is not an
+//          active actor (the sender must own ActorRegistry). The role must be
+//          allowed the DocType / StepType, e.g. Certificate needs Certifier.
+// verify   reads DocumentAnchored and CidAnchored logs (of one product, or of
+//          every product in the DB) from the deploy block on, decodes each
+//          cidHash to its CID, fetches the file with EVIDENCE_FETCH and checks
+//          the bytes hash to that CID. Exits with 1 if any anchor fails.
+// cid      prints the cidHash of a CID and the CID a step / document anchor
+//          of that cidHash decodes to (offline).
+//
+// Products, steps: labels (hashed with toBytes32) or bytes32 ids.
+// DocType / StepType: label (e.g. Certificate, Processed) or number.
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...
+//   OP_SEPOLIA_PRIVATE_KEY=...                  # anchor
+//   EVIDENCE_UPLOAD=kubo                        # kubo|s3|local, see src/storage
+//   EVIDENCE_FETCH=kubo                         # comma-separated, default: EVIDENCE_UPLOAD
+//   EVIDENCE_PIPELINE_DB=./evidence_pipeline_db.json
+//   (+ the env of the chosen providers, see storageProviderFromEnv)
+
+import "dotenv/config";
+import { promises as fs } from "fs";
+import path from "path";
+import { NonceManager, Wallet } from "ethers";
+
+import {
+    ActorRegistryClient,
+    CID_CODEC_LABEL,
+    CidRollupClient,
+    DEFAULT_CID_CODECS,
+    DocumentRegistryClient,
+    ROLE_LABEL,
+    Role,
+    anchorEvidence,
+    checkEvidenceBytes,
+    cidHashFromCid,
+    cidV1FromCidHash,
+    decodeCid,
+    normalizeBytes32Id,
+    parseRole,
+    parseStorageKind,
+    parseType,
+    readAnchoredEvidence,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    storageProviderFromEnv,
+    toBytes32,
+    typeLabel,
+    verifyAnchoredEvidence,
+    type EvidenceRecord,
+    type EvidenceVerification,
+} from "../src/index.js";
+
+const DB_FILE = path.resolve(process.env.EVIDENCE_PIPELINE_DB ?? "evidence_pipeline_db.json");
+
+type PipelineDb = { version: 1; records: EvidenceRecord[] };
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function flag(flags: string[], name: string): string | undefined {
+    const hit = flags.find((f) => f === `--${name}` || f.startsWith(`--${name}=`));
+    if (!hit) return undefined;
+    return hit.includes("=") ? hit.slice(hit.indexOf("=") + 1) : "";
+}
+
+async function loadDb(): Promise<PipelineDb> {
+    try {
+        const db = JSON.parse(await fs.readFile(DB_FILE, "utf8")) as PipelineDb;
+        if (db.version !== 1 || !Array.isArray(db.records)) throw new Error(`${DB_FILE} is not a pipeline DB`);
+        return db;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return { version: 1, records: [] };
+        throw err;
+    }
+}
+
+async function ensureActive(actorRegistry: ActorRegistryClient, address: string, register?: Role): Promise<void> {
+    if (await actorRegistry.isActiveActor(address)) return;
+    if (register === undefined) {
+        throw new Error(`${address} is not an active actor (pass --register[=<Role>] to register it)`);
+    }
+    console.log(`Registering ${address} as ${ROLE_LABEL[register]}`);
+    const tx = await actorRegistry.registerActor(
+        toBytes32(`fairtrade-evidence-org-${address.toLowerCase()}`),
+        address,
+        register,
+        toBytes32("fairtrade-evidence-metadata"),
+    );
+    await tx.wait();
+}
+
+function printVerification(v: EvidenceVerification): void {
+    const a = v.anchored;
+    console.log(
+        `  ${v.verified ? "OK  " : "FAIL"} block ${a.blockNumber} ${a.anchor === "document" ? "DocumentAnchored" : "CidAnchored"} ` +
+        `${typeLabel(a.anchor === "document" ? "doc" : "step", a.type)} step=${a.stepId.slice(0, 10)}... cid=${a.cid}`,
+    );
+    if (v.cid && v.cid !== a.cid) console.log(`       fetched as ${v.cid}`);
+    if (v.via) console.log(`       via ${v.via}`);
+    if (v.error && !v.verified) console.log(`       ${v.error}`);
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const [command, ...rest] = process.argv.slice(2);
+    const flags = rest.filter((a) => a.startsWith("--"));
+    const args = rest.filter((a) => !a.startsWith("--"));
+
+    if (command === "cid") {
+        const [cid] = args;
+        if (!cid) throw new Error("Usage: cid <cid>");
+        const decoded = decodeCid(cid);
+        const cidHash = cidHashFromCid(cid);
+        const codec = CID_CODEC_LABEL[decoded.codec] ?? `0x${decoded.codec.toString(16)}`;
+        console.log(`CID:      ${cid} (v${decoded.version}, ${codec})`);
+        console.log(`cidHash:  ${cidHash}`);
+        console.log(`as a step anchor:     ${cidV1FromCidHash(cidHash, DEFAULT_CID_CODECS.step)}`);
+        console.log(`as a document anchor: ${cidV1FromCidHash(cidHash, DEFAULT_CID_CODECS.doc)}`);
+        return;
+    }
+    if (command !== "anchor" && command !== "verify") {
+        throw new Error("Usage: evidence-pipeline.ts anchor <file> ... | verify [--product=<id>] | cid <cid>");
+    }
+
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    if (!rpcUrl) throw new Error("Missing OP_SEPOLIA_RPC_URL in .env");
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, {
+        required: ["ActorRegistry", "DocumentRegistry", "CidRollup"],
+    });
+    const uploadKind = parseStorageKind(process.env.EVIDENCE_UPLOAD || "kubo");
+
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log(`Pipeline DB: ${DB_FILE}`);
+
+    if (command === "anchor") {
+        const [file] = args;
+        const product = flag(flags, "product");
+        const step = flag(flags, "step");
+        const doc = flag(flags, "doc");
+        const stepType = flag(flags, "step-type");
+        if (!file || !product || !step || (doc === undefined) === (stepType === undefined)) {
+            throw new Error("Usage: anchor <file> --product=<id> --step=<id> (--doc=<DocType> | --step-type=<StepType>)");
+        }
+        const pk = process.env.OP_SEPOLIA_PRIVATE_KEY;
+        if (!pk) throw new Error("Missing OP_SEPOLIA_PRIVATE_KEY in .env");
+
+        // NonceManager: automining local nodes can report a stale pending nonce
+        const wallet = new NonceManager(new Wallet(pk, provider));
+        const sender = await wallet.getAddress();
+        const register = flag(flags, "register");
+        await ensureActive(
+            new ActorRegistryClient(deployment.addresses.ActorRegistry, wallet),
+            sender,
+            register === undefined ? undefined : register ? parseRole(register) : Role.Operator,
+        );
+
+        const storage = storageProviderFromEnv(uploadKind);
+        const bytes = await fs.readFile(file);
+        const productId = normalizeBytes32Id(product);
+        const stepId = normalizeBytes32Id(step);
+        const docType = doc !== undefined ? parseType("doc", doc) : undefined;
+        const stepTypeValue = stepType !== undefined ? parseType("step", stepType) : undefined;
+
+        if (flag(flags, "raw") === undefined) {
+            const check = checkEvidenceBytes(bytes, {
+                kind: docType !== undefined ? "doc" : "step",
+                type: docType ?? stepTypeValue!,
+                productId,
+                stepId,
+                actor: sender,
+            });
+            if (check.issues.length) {
+                throw new Error(
+                    `${file} is not a valid ${check.schema} document for this anchor (pass --raw to anchor it anyway):\n  ` +
+                    check.issues.join("\n  "),
+                );
+            }
+            if (check.document) console.log(`Validated ${check.document["@type"]} v${check.document.schemaVersion}`);
+        }
+        console.log(`Uploading ${file} (${bytes.length} bytes) via ${storage.kind} (${storage.target})`);
+
+        const common = {
+            storage,
+            bytes,
+            productId,
+            stepId,
+            chainId: deployment.chainId,
+            file: path.resolve(file),
+        };
+        const record = docType !== undefined
+            ? await anchorEvidence({
+                ...common,
+                anchor: "document",
+                documentRegistry: new DocumentRegistryClient(deployment.addresses.DocumentRegistry, wallet),
+                docType,
+            })
+            : await anchorEvidence({
+                ...common,
+                anchor: "cid",
+                cidRollup: new CidRollupClient(deployment.addresses.CidRollup, wallet),
+                stepType: stepTypeValue!,
+            });
+
+        const db = await loadDb();
+        db.records.push(record);
+        await fs.writeFile(DB_FILE, JSON.stringify(db, null, 2), "utf8");
+
+        console.log(`CID:     ${record.cid}`);
+        console.log(`cidHash: ${record.cidHash}`);
+        console.log(`Anchored with ${record.anchor === "document" ? "DocumentRegistry.anchorDocument" : "CidRollup.submitCidBatch"}`);
+        console.log(`  tx ${record.txHash} (block ${record.blockNumber})`);
+        return;
+    }
+
+    // verify
+    const db = await loadDb();
+    const fetchKinds = [...new Set((process.env.EVIDENCE_FETCH || uploadKind).split(",").map(parseStorageKind))];
+    const storage = fetchKinds.map((k) => storageProviderFromEnv(k));
+    const product = flag(flags, "product");
+    const productIds = product
+        ? [normalizeBytes32Id(product)]
+        : [...new Set(db.records.filter((r) => r.chainId === deployment.chainId.toString()).map((r) => r.productId))];
+    if (productIds.length === 0) throw new Error("Nothing to verify: pass --product=<id> or anchor something first");
+
+    const fromFlag = flag(flags, "from-block");
+    const fromBlock = fromFlag ? Number(fromFlag) : deployment.fromBlock ?? 0;
+    const documentRegistry = new DocumentRegistryClient(deployment.addresses.DocumentRegistry, provider);
+    const cidRollup = new CidRollupClient(deployment.addresses.CidRollup, provider);
+    console.log(`Fetch via: ${storage.map((s) => `${s.kind} (${s.target})`).join(", ")}`);
+    console.log(`Logs from block ${fromBlock}`);
+
+    const results: EvidenceVerification[] = [];
+    for (const productId of productIds) {
+        console.log(`\nProduct ${productId}`);
+        const anchored = await readAnchoredEvidence({ provider, documentRegistry, cidRollup, productId, fromBlock });
+        if (anchored.length === 0) console.log("  no DocumentAnchored / CidAnchored logs");
+        for (const a of anchored) {
+            const known = db.records
+                .filter((r) => r.cidHash.toLowerCase() === a.cidHash.toLowerCase())
+                .map((r) => r.cid);
+            const v = await verifyAnchoredEvidence(a, storage, known);
+            printVerification(v);
+            results.push(v);
+        }
+    }
+
+    const verified = results.filter((r) => r.verified).length;
+    console.log(`\n${verified}/${results.length} anchors verified against their content`);
+
+    const out = flag(flags, "out");
+    if (out) {
+        await fs.writeFile(out, JSON.stringify({
+            network: deployment.network,
+            chainId: deployment.chainId.toString(),
+            fetchProviders: fetchKinds,
+            verified,
+            total: results.length,
+            results,
+        }, null, 2), "utf8");
+        console.log(`Report written to ${out}`);
+    }
+    if (verified !== results.length) process.exitCode = 1;
+}
+
+main().catch((err) => {
+    console.error("Fatal error in evidence-pipeline:", err);
+    process.exit(1);
+});
@@ -0,0 +1,188 @@
+// scripts/index-chain.ts
+//
+// Incremental indexer: backfills the events of the five FairTrade contracts
+// from their deploy blocks into a local SQLite database (src/indexer) and
+// keeps it up to date. Safe to stop at any time; the next run resumes from the
+// last checkpoint, after rolling back blocks that were reorged away.
+//
+// Usage:
+//   npx tsx scripts/index-chain.ts sync [--db=<file>] [--chunk=<n>] [--min-chunk=<n>] [--max-chunk=<n>]
+//                                       [--confirmations=<n>] [--reorg-depth=<n>] [--to-block=<n>] [--follow[=<ms>]]
+//   npx tsx scripts/index-chain.ts status [--db=<file>]
+//   npx tsx scripts/index-chain.ts product <id> [--db=<file>] [--json]
+//
+// sync     scans from the checkpoint (or the lowest deploy block) to the head
+//          minus --confirmations (default 0) with eth_getLogs, --chunk blocks
+//          at a time (default 2000; halved when a range is rejected as too
+//          large down to --min-chunk, default 1, and doubled back up to
+//          --max-chunk, default 10000; timeouts and 5xx are retried as is).
+//          --follow keeps polling every <ms> (default 4000) until Ctrl+C.
+// status   prints the checkpoint and the row count of each table (offline).
+// product  prints the indexed rows of one product in chain order (offline).
+//
+// Products: labels (hashed with toBytes32) or bytes32 ids.
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...                       # sync
+//   FAIRTRADE_INDEX_DB=./fairtrade_index.sqlite
+//   (+ deployments.json / address overrides, see src/deployments.ts)
+
+import "dotenv/config";
+import path from "path";
+
+import {
+    ChainIndexer,
+    DOC_TYPE_LABEL,
+    IndexerDb,
+    PROCESS_STATUS_LABEL,
+    STEP_LABEL,
+    normalizeBytes32Id,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    type IndexedRow,
+} from "../src/index.js";
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function flag(flags: string[], name: string): string | undefined {
+    const hit = flags.find((f) => f === `--${name}` || f.startsWith(`--${name}=`));
+    if (!hit) return undefined;
+    return hit.includes("=") ? hit.slice(hit.indexOf("=") + 1) : "";
+}
+
+function intFlag(flags: string[], name: string): number | undefined {
+    const v = flag(flags, name);
+    if (v === undefined) return undefined;
+    const n = Number(v);
+    if (!Number.isInteger(n) || n < 0) throw new Error(`--${name} must be a non-negative integer, got "${v}"`);
+    return n;
+}
+
+const StepTypeName: Record<number, string> = STEP_LABEL;
+const DocTypeName: Record<number, string> = DOC_TYPE_LABEL;
+const ProcessStatusName: Record<number, string> = PROCESS_STATUS_LABEL;
+
+function summarizeRow(row: IndexedRow): string {
+    const r = row as IndexedRow & Record<string, any>;
+    switch (row.event) {
+        case "CidAnchored":
+            return `stepType=${StepTypeName[r.stepType] ?? r.stepType} cidHash=${r.cidHash}`;
+        case "DocumentAnchored":
+            return `docType=${DocTypeName[r.docType] ?? r.docType} cidHash=${r.cidHash}`;
+        case "ProcessCreated":
+            return `orgIdHash=${r.orgIdHash}`;
+        case "ProcessStatusChanged":
+            return `${ProcessStatusName[r.previousStatus]} -> ${ProcessStatusName[r.newStatus]}`;
+        default:
+            return `${r.credited ? "credited" : "paid"} ${r.amount} (token ${r.token}) to ${r.recipient}`;
+    }
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const [command = "sync", ...rest] = process.argv.slice(2);
+    const flags = rest.filter((a) => a.startsWith("--"));
+    const args = rest.filter((a) => !a.startsWith("--"));
+    const file = path.resolve(flag(flags, "db") || process.env.FAIRTRADE_INDEX_DB || "fairtrade_index.sqlite");
+    const db = new IndexerDb(file);
+
+    try {
+        if (command === "status") {
+            const checkpoint = db.checkpoint();
+            console.log(`Index: ${file}`);
+            if (!checkpoint) {
+                console.log("Empty (run sync first)");
+                return;
+            }
+            console.log(`chainId ${checkpoint.chainId}, next block ${checkpoint.nextBlock}`);
+            for (const [name, address] of Object.entries(checkpoint.addresses)) console.log(`  ${name.padEnd(17)} ${address}`);
+            for (const [table, n] of Object.entries(db.counts())) console.log(`  ${table.padEnd(23)} ${n}`);
+            return;
+        }
+
+        if (command === "product") {
+            const [id] = args;
+            if (!id) throw new Error("Usage: product <id> [--db=<file>] [--json]");
+            const rows = db.productRows(normalizeBytes32Id(id));
+            if (flag(flags, "json") !== undefined) {
+                console.log(JSON.stringify(rows, null, 2));
+                return;
+            }
+            console.log(`${rows.length} row(s) for ${normalizeBytes32Id(id)}`);
+            for (const row of rows) {
+                const iso = new Date(row.timestamp * 1000).toISOString();
+                console.log(`${iso}  #${row.blockNumber} [${row.event}] ${summarizeRow(row)} tx=${row.txHash.slice(0, 10)}...`);
+            }
+            return;
+        }
+
+        if (command !== "sync") throw new Error("Usage: index-chain.ts sync | status | product <id>");
+
+        const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+        if (!rpcUrl) throw new Error("Missing OP_SEPOLIA_RPC_URL in .env");
+        const provider = rpcProviderFromEnv();
+        const deployment = await resolveDeployment(provider);
+        if (deployment.fromBlock === undefined) {
+            console.warn("No deploy blocks in the deployment registry; scanning from block 0");
+        }
+
+        const indexer = ChainIndexer.fromDeployment(deployment, {
+            provider,
+            db,
+            chunkSize: intFlag(flags, "chunk"),
+            minChunkSize: intFlag(flags, "min-chunk"),
+            maxChunkSize: intFlag(flags, "max-chunk"),
+            confirmations: intFlag(flags, "confirmations"),
+            reorgDepth: intFlag(flags, "reorg-depth"),
+            retry: { log: (line) => console.warn(line) },
+            onProgress: (p) => {
+                const span = p.target - indexer.fromBlock + 1;
+                const done = span > 0 ? ((p.toBlock - indexer.fromBlock + 1) / span) * 100 : 100;
+                console.log(`  blocks ${p.fromBlock}..${p.toBlock}: ${p.logs} log(s), next chunk ${p.chunkSize} (${done.toFixed(1)}%)`);
+            },
+        });
+        const toBlock = intFlag(flags, "to-block");
+        const follow = flag(flags, "follow");
+        const pollMs = follow ? Number(follow) : 4000;
+
+        console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+        console.log(`Index: ${file}`);
+
+        let stop = false;
+        process.on("SIGINT", () => {
+            stop = true;
+        });
+
+        do {
+            const result = await indexer.sync(toBlock);
+            if (result.reorg) {
+                console.log(`Reorg: rolled back to block ${result.reorg.forkBlock} (${result.reorg.rowsDropped} row(s) dropped)`);
+            }
+            if (result.toBlock >= result.fromBlock) {
+                console.log(
+                    `Indexed blocks ${result.fromBlock}..${result.toBlock}: ${result.logs} log(s), ` +
+                    `${result.requests} eth_getLogs call(s), ${result.shrinks} shrink(s)`,
+                );
+            } else if (follow === undefined) {
+                console.log(`Up to date at block ${result.toBlock}`);
+            }
+            if (follow !== undefined && !stop) await sleep(pollMs);
+        } while (follow !== undefined && !stop);
+
+        for (const [table, n] of Object.entries(db.counts())) console.log(`  ${table.padEnd(23)} ${n}`);
+    } finally {
+        db.close();
+    }
+}
+
+main().catch((err) => {
+    console.error("Fatal error in index-chain:", err);
+    process.exit(1);
+});
@@ -0,0 +1,61 @@
+// scripts/ipfs-mock-server.ts
+//
+// Local stand-in for an IPFS RPC endpoint (/api/v0/add, /api/v0/cat), see
+// src/ipfs-mock.ts. Point sim-filebase-evidence.ts (or anything else speaking
+// the Kubo RPC) at it to run without Filebase:
+//
+//   npx tsx scripts/ipfs-mock-server.ts
+//   FILEBASE_IPFS_RPC_ENDPOINT=http://127.0.0.1:5001 FILEBASE_IPFS_RPC_AUTH_TYPE= \
+//       npx tsx scripts/sim-filebase-evidence.ts
+//
+// (EVIDENCE_MOCK=1 runs the same mock inside sim-filebase-evidence.ts.)
+//
+// Optional env:
+//   IPFS_MOCK_PORT=5001
+//   IPFS_MOCK_HOST=127.0.0.1
+//   IPFS_MOCK_LATENCY_MS=0          # added to every response
+//   IPFS_MOCK_JITTER_MS=0           # plus a uniform random [0, jitter)
+//   IPFS_MOCK_ERROR_RATE=0          # 0..1, add/cat fail with HTTP 500
+//   IPFS_MOCK_CORRUPTION_RATE=0     # 0..1, cat returns the object with one byte flipped
+//   IPFS_MOCK_SEED=1                # PRNG seed, same seed = same faults
+//
+// Stats are printed every IPFS_MOCK_STATS_EVERY_MS (default 10000, 0 = off)
+// and on shutdown (Ctrl+C).
+
+import "dotenv/config";
+
+import { IpfsMock, ipfsMockOptionsFromEnv } from "../src/index.js";
+
+const STATS_EVERY_MS = Number(process.env.IPFS_MOCK_STATS_EVERY_MS ?? "10000");
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const options = ipfsMockOptionsFromEnv();
+    const mock = new IpfsMock(options);
+    const url = await mock.start();
+
+    console.log(`IPFS mock listening on ${url}`);
+    console.log(
+        `latency=${options.latencyMs}ms jitter=${options.jitterMs}ms errorRate=${options.errorRate} ` +
+        `corruptionRate=${options.corruptionRate} seed=${options.seed}`,
+    );
+
+    const timer = STATS_EVERY_MS > 0 ? setInterval(() => console.log("stats:", mock.stats), STATS_EVERY_MS) : undefined;
+
+    const shutdown = () => {
+        if (timer) clearInterval(timer);
+        console.log("\nShutting down IPFS mock...");
+        console.log("stats:", mock.stats);
+        mock.close().then(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+    console.error("Fatal error in ipfs-mock-server:", err);
+    process.exit(1);
+});
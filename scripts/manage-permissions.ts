@@ -0,0 +1,199 @@
+// scripts/manage-permissions.ts
+//
+// View and edit the role permission matrices enforced on-chain:
+//   - CidRollup:        Role -> allowed StepType values (submitCidBatch)
+//   - DocumentRegistry: Role -> allowed DocType values  (anchorDocument)
+//
+// Editing requires OP_SEPOLIA_PRIVATE_KEY to be ActorRegistry.owner().
+//
+// Usage:
+//   npx tsx scripts/manage-permissions.ts show [--json]
+//   npx tsx scripts/manage-permissions.ts set <step|doc> <role> <type> <allow|deny>
+//   npx tsx scripts/manage-permissions.ts apply <matrix.json> [--dry-run]
+//
+// Roles and types accept names (case-insensitive) or numeric values, e.g.
+//   npx tsx scripts/manage-permissions.ts set doc Certifier Certificate allow
+//   npx tsx scripts/manage-permissions.ts set step Retailer 3 deny
+//
+// matrix.json has the same shape as `show --json`; roles missing from it are
+// left untouched:
+//   {
+//     "steps": { "Producer": ["Produced"], "Logistics": ["Shipped", "Received"] },
+//     "docs":  { "Certifier": ["Certificate"] }
+//   }
+//
+// Required .env:
+//   OP_SEPOLIA_RPC_URL=...
+//   OP_SEPOLIA_PRIVATE_KEY=...   # only for set/apply
+//
+// Optional .env:
+//   CID_ROLLUP_ADDRESS / DOCUMENT_REGISTRY_ADDRESS   # override deployments.json
+
+import "dotenv/config";
+import { promises as fs } from "fs";
+import { NonceManager, Wallet } from "ethers";
+
+import {
+    ActorRegistryClient,
+    CidRollupClient,
+    DocumentRegistryClient,
+    PERMISSION_ROLES,
+    ROLE_LABEL,
+    diffPermissions,
+    parseRole,
+    parseType,
+    readDocPermissions,
+    readStepPermissions,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    typeLabel,
+    type PermissionChange,
+    type PermissionKind,
+    type PermissionMatrix,
+} from "../src/index.js";
+
+type MatrixFile = {
+    steps?: Record<string, (string | number)[]>;
+    docs?: Record<string, (string | number)[]>;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function printMatrix(title: string, kind: PermissionKind, matrix: PermissionMatrix): void {
+    console.log(title);
+    for (const role of PERMISSION_ROLES) {
+        const types = matrix[role];
+        const cells = types.length ? types.map((t) => `${typeLabel(kind, t)}(${t})`).join(", ") : "-";
+        console.log(`  ${ROLE_LABEL[role].padEnd(10)} ${cells}`);
+    }
+    console.log("");
+}
+
+function matrixToJson(kind: PermissionKind, matrix: PermissionMatrix): Record<string, string[]> {
+    const out: Record<string, string[]> = {};
+    for (const role of PERMISSION_ROLES) {
+        out[ROLE_LABEL[role]] = matrix[role].map((t) => typeLabel(kind, t));
+    }
+    return out;
+}
+
+function parseMatrix(kind: PermissionKind, raw: Record<string, (string | number)[]> | undefined): Partial<PermissionMatrix> {
+    const out: Partial<PermissionMatrix> = {};
+    for (const [roleName, types] of Object.entries(raw ?? {})) {
+        if (!Array.isArray(types)) throw new Error(`Expected an array of types for ${kind} role ${roleName}`);
+        out[parseRole(roleName)] = types.map((t) => parseType(kind, String(t)));
+    }
+    return out;
+}
+
+function describeChange(c: PermissionChange): string {
+    return `${c.kind.padEnd(4)} ${ROLE_LABEL[c.role].padEnd(10)} ${typeLabel(c.kind, c.type)}(${c.type}) -> ${c.allowed ? "allow" : "deny"}`;
+}
+
+async function sendChanges(
+    changes: PermissionChange[],
+    cidRollup: CidRollupClient,
+    documentRegistry: DocumentRegistryClient,
+): Promise<void> {
+    for (const c of changes) {
+        const tx = c.kind === "step"
+            ? await cidRollup.setStepPermission(c.role, c.type, c.allowed)
+            : await documentRegistry.setDocPermission(c.role, c.type, c.allowed);
+        console.log(`  ${describeChange(c)}  tx=${tx.hash}`);
+        await tx.wait();
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const [command = "show", ...rest] = process.argv.slice(2);
+    const flags = new Set(rest.filter((a) => a.startsWith("--")));
+    const args = rest.filter((a) => !a.startsWith("--"));
+
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    if (!rpcUrl) throw new Error("Missing OP_SEPOLIA_RPC_URL in .env");
+
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, {
+        required: ["ActorRegistry", "CidRollup", "DocumentRegistry"],
+    });
+
+    let cidRollup = new CidRollupClient(deployment.addresses.CidRollup, provider);
+    let documentRegistry = new DocumentRegistryClient(deployment.addresses.DocumentRegistry, provider);
+
+    if (command === "show") {
+        const steps = await readStepPermissions(cidRollup);
+        const docs = await readDocPermissions(documentRegistry);
+        if (flags.has("--json")) {
+            console.log(JSON.stringify({ steps: matrixToJson("step", steps), docs: matrixToJson("doc", docs) }, null, 2));
+            return;
+        }
+        console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})\n`);
+        printMatrix(`CidRollup step permissions (${cidRollup.address})`, "step", steps);
+        printMatrix(`DocumentRegistry doc permissions (${documentRegistry.address})`, "doc", docs);
+        return;
+    }
+
+    let changes: PermissionChange[];
+    if (command === "set") {
+        const [kindArg, roleArg, typeArg, actionArg] = args;
+        if (!kindArg || !roleArg || !typeArg || !actionArg) {
+            throw new Error("Usage: set <step|doc> <role> <type> <allow|deny>");
+        }
+        if (kindArg !== "step" && kindArg !== "doc") throw new Error(`Expected step|doc, got ${kindArg}`);
+        if (actionArg !== "allow" && actionArg !== "deny") throw new Error(`Expected allow|deny, got ${actionArg}`);
+        changes = [{
+            kind: kindArg,
+            role: parseRole(roleArg),
+            type: parseType(kindArg, typeArg),
+            allowed: actionArg === "allow",
+        }];
+    } else if (command === "apply") {
+        const [file] = args;
+        if (!file) throw new Error("Usage: apply <matrix.json> [--dry-run]");
+        const desired = JSON.parse(await fs.readFile(file, "utf8")) as MatrixFile;
+        changes = [
+            ...diffPermissions("step", await readStepPermissions(cidRollup), parseMatrix("step", desired.steps)),
+            ...diffPermissions("doc", await readDocPermissions(documentRegistry), parseMatrix("doc", desired.docs)),
+        ];
+    } else {
+        throw new Error(`Unknown command: ${command} (expected show, set or apply)`);
+    }
+
+    if (!changes.length) {
+        console.log("Permission matrix already up to date.");
+        return;
+    }
+    if (flags.has("--dry-run")) {
+        console.log(`Dry run, ${changes.length} change(s):`);
+        for (const c of changes) console.log(`  ${describeChange(c)}`);
+        return;
+    }
+
+    const pk = process.env.OP_SEPOLIA_PRIVATE_KEY;
+    if (!pk) throw new Error("Missing OP_SEPOLIA_PRIVATE_KEY in .env");
+    const wallet = new Wallet(pk, provider);
+
+    const owner = await new ActorRegistryClient(deployment.addresses.ActorRegistry, provider).owner();
+    if (owner.toLowerCase() !== wallet.address.toLowerCase()) {
+        throw new Error(`Wallet ${wallet.address} is not the ActorRegistry owner (${owner}); cannot edit permissions.`);
+    }
+
+    const signer = new NonceManager(wallet);
+    cidRollup = cidRollup.connect(signer);
+    documentRegistry = documentRegistry.connect(signer);
+
+    console.log(`Sending ${changes.length} permission change(s) as ${wallet.address} ...`);
+    await sendChanges(changes, cidRollup, documentRegistry);
+    console.log("Done.");
+}
+
+main().catch((err) => {
+    console.error("Fatal error in manage-permissions:", err);
+    process.exit(1);
+});
@@ -0,0 +1,231 @@
+// scripts/process-graph.ts
+//
+// Render the on-chain ProcessManager transition graph and validate scenario
+// scripts against it before sending any transaction.
+//
+// Usage:
+//   npx tsx scripts/process-graph.ts show [--mermaid]
+//   npx tsx scripts/process-graph.ts validate <scenario.json>
+//   npx tsx scripts/process-graph.ts run <scenario.json>
+//   npx tsx scripts/process-graph.ts set <from> <to> <role,role,...|none>
+//
+// Scenario file:
+//   {
+//     "productId": "coffee-batch-001",   // label or bytes32; optional for validate
+//     "start": "Created",                // optional, default: on-chain status (or Created)
+//     "steps": [
+//       { "to": "InTransit", "role": "Logistics" },
+//       { "to": "AtRetail",  "actor": "0x..." },   // role looked up in ActorRegistry
+//       { "to": "Suspended" }                      // role = sender's role (run)
+//     ]
+//   }
+//
+// `run` sends every step from OP_SEPOLIA_PRIVATE_KEY, so every step must be
+// performable by that wallet's role; it creates the process first if needed.
+// `set` must be signed by the ActorRegistry owner.
+//
+// Required .env:
+//   OP_SEPOLIA_RPC_URL=...
+//   OP_SEPOLIA_PRIVATE_KEY=...   # run / set, and to resolve role-less steps
+
+import "dotenv/config";
+import { promises as fs } from "fs";
+import { NonceManager, Wallet, ethers } from "ethers";
+
+import {
+    ActorRegistryClient,
+    PROCESS_STATUS_LABEL,
+    ProcessManagerClient,
+    ProcessStatus,
+    ROLE_LABEL,
+    Role,
+    normalizeBytes32Id,
+    parseProcessStatus,
+    parseRole,
+    readTransitionGraph,
+    renderMermaid,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    typesToMask,
+    validateScenario,
+    type ScenarioStep,
+    type TransitionEdge,
+} from "../src/index.js";
+
+type ScenarioFile = {
+    productId?: string;
+    start?: string;
+    steps: { to: string; role?: string; actor?: string }[];
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function printGraph(graph: TransitionEdge[]): void {
+    for (const e of graph) {
+        const edge = `${PROCESS_STATUS_LABEL[e.from]} -> ${PROCESS_STATUS_LABEL[e.to]}`;
+        console.log(`  ${edge.padEnd(26)} ${e.roles.map((r) => ROLE_LABEL[r]).join(", ")}`);
+    }
+}
+
+async function loadScenario(file: string): Promise<ScenarioFile> {
+    const parsed = JSON.parse(await fs.readFile(file, "utf8")) as ScenarioFile;
+    if (!Array.isArray(parsed.steps) || parsed.steps.length === 0) {
+        throw new Error(`Scenario ${file} has no steps`);
+    }
+    return parsed;
+}
+
+/** Resolve each step's role: explicit role, else the actor's on-chain role, else `fallbackRole`. */
+async function resolveSteps(
+    scenario: ScenarioFile,
+    actorRegistry: ActorRegistryClient,
+    fallbackRole: Role | undefined,
+): Promise<ScenarioStep[]> {
+    const steps: ScenarioStep[] = [];
+    for (const [i, s] of scenario.steps.entries()) {
+        const to = parseProcessStatus(s.to);
+        let role: Role | undefined;
+        if (s.role) {
+            role = parseRole(s.role);
+        } else if (s.actor) {
+            const actor = await actorRegistry.getActor(ethers.getAddress(s.actor));
+            if (actor.role === Role.None) throw new Error(`Step ${i}: actor ${s.actor} is not registered`);
+            role = actor.role;
+        } else {
+            role = fallbackRole;
+        }
+        if (role === undefined) {
+            throw new Error(`Step ${i}: no role or actor given and OP_SEPOLIA_PRIVATE_KEY is not set`);
+        }
+        steps.push({ to, role });
+    }
+    return steps;
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const [command = "show", ...rest] = process.argv.slice(2);
+    const flags = new Set(rest.filter((a) => a.startsWith("--")));
+    const args = rest.filter((a) => !a.startsWith("--"));
+
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    if (!rpcUrl) throw new Error("Missing OP_SEPOLIA_RPC_URL in .env");
+    const pk = process.env.OP_SEPOLIA_PRIVATE_KEY?.trim();
+
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, { required: ["ActorRegistry", "ProcessManager"] });
+    const actorRegistry = new ActorRegistryClient(deployment.addresses.ActorRegistry, provider);
+    let processManager = new ProcessManagerClient(deployment.addresses.ProcessManager, provider);
+
+    const wallet = pk ? new Wallet(pk, provider) : undefined;
+
+    if (command === "show") {
+        const graph = await readTransitionGraph(processManager);
+        if (flags.has("--mermaid")) {
+            console.log(renderMermaid(graph));
+            return;
+        }
+        console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+        console.log(`ProcessManager transitions (${processManager.address}):`);
+        printGraph(graph);
+        return;
+    }
+
+    if (command === "set") {
+        const [fromArg, toArg, rolesArg] = args;
+        if (!fromArg || !toArg || !rolesArg) throw new Error("Usage: set <from> <to> <role,role,...|none>");
+        if (!wallet) throw new Error("Missing OP_SEPOLIA_PRIVATE_KEY in .env");
+
+        const from = parseProcessStatus(fromArg);
+        const to = parseProcessStatus(toArg);
+        const roles = rolesArg === "none" ? [] : rolesArg.split(",").map(parseRole);
+        const mask = typesToMask(roles);
+
+        processManager = processManager.connect(wallet);
+        const tx = await processManager.setTransition(from, to, mask);
+        console.log(
+            `setTransition ${PROCESS_STATUS_LABEL[from]} -> ${PROCESS_STATUS_LABEL[to]} ` +
+            `[${roles.map((r) => ROLE_LABEL[r]).join(", ") || "none"}] tx=${tx.hash}`,
+        );
+        await tx.wait();
+        return;
+    }
+
+    if (command !== "validate" && command !== "run") {
+        throw new Error(`Unknown command: ${command} (expected show, validate, run or set)`);
+    }
+
+    const [file] = args;
+    if (!file) throw new Error(`Usage: ${command} <scenario.json>`);
+    const scenario = await loadScenario(file);
+
+    const senderRole = wallet ? (await actorRegistry.getActor(wallet.address)).role : undefined;
+    const steps = await resolveSteps(scenario, actorRegistry, senderRole);
+
+    const productId = scenario.productId ? normalizeBytes32Id(scenario.productId) : undefined;
+    const onChainStatus = productId ? await processManager.getStatus(productId) : ProcessStatus.Unknown;
+    const start = scenario.start
+        ? parseProcessStatus(scenario.start)
+        : onChainStatus === ProcessStatus.Unknown ? ProcessStatus.Created : onChainStatus;
+
+    if (productId) console.log(`productId: ${productId} (on-chain status ${PROCESS_STATUS_LABEL[onChainStatus]})`);
+    console.log(`Validating ${steps.length} step(s) from ${PROCESS_STATUS_LABEL[start]} ...`);
+
+    const graph = await readTransitionGraph(processManager);
+    const result = validateScenario(graph, start, steps);
+
+    let status = start;
+    for (const [i, step] of steps.entries()) {
+        const mark = result.issue && i >= result.issue.index ? (i === result.issue.index ? "✗" : "·") : "✓";
+        console.log(`  ${mark} [${i}] ${PROCESS_STATUS_LABEL[status]} -> ${PROCESS_STATUS_LABEL[step.to]} as ${ROLE_LABEL[step.role]}`);
+        if (mark === "✓") status = step.to;
+    }
+
+    if (!result.ok) {
+        console.error(`\nScenario invalid at step ${result.issue!.index}: ${result.issue!.reason}`);
+        process.exitCode = 1;
+        return;
+    }
+    console.log(`\nScenario valid, final status ${PROCESS_STATUS_LABEL[result.finalStatus]}.`);
+
+    if (command === "validate") return;
+
+    // ---- run ----
+    if (!wallet) throw new Error("Missing OP_SEPOLIA_PRIVATE_KEY in .env");
+    if (!productId) throw new Error("Scenario needs a productId to run");
+    const foreign = steps.findIndex((s) => s.role !== senderRole);
+    if (foreign >= 0) {
+        throw new Error(
+            `Step ${foreign} needs role ${ROLE_LABEL[steps[foreign].role]} but the sender is ` +
+            `${ROLE_LABEL[senderRole ?? Role.None]}; run can only send from one wallet.`,
+        );
+    }
+    if (onChainStatus !== start && !(onChainStatus === ProcessStatus.Unknown && start === ProcessStatus.Created)) {
+        throw new Error(
+            `Scenario starts at ${PROCESS_STATUS_LABEL[start]} but the process is ${PROCESS_STATUS_LABEL[onChainStatus]} on-chain`,
+        );
+    }
+
+    processManager = processManager.connect(new NonceManager(wallet));
+    if (onChainStatus === ProcessStatus.Unknown) {
+        const tx = await processManager.createProcess(productId);
+        console.log(`createProcess tx=${tx.hash}`);
+        await tx.wait();
+    }
+    for (const step of steps) {
+        const tx = await processManager.advanceStatus(productId, step.to);
+        console.log(`advanceStatus(${PROCESS_STATUS_LABEL[step.to]}) tx=${tx.hash}`);
+        await tx.wait();
+    }
+    console.log(`Done, status is now ${PROCESS_STATUS_LABEL[await processManager.getStatus(productId)]}.`);
+}
+
+main().catch((err) => {
+    console.error("Fatal error in process-graph:", err);
+    process.exit(1);
+});
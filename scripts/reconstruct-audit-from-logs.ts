@@ -6,25 +6,72 @@
 // - Auto-emits a coffee supply-chain demo run (optional, default ON) if no local txs exist.
 // - Stores tx hashes + metadata into a local JSON "database" (audit_local_db.json).
 // - Reconstructs timeline primarily by fetching tx receipts (eth_getTransactionReceipt).
+// - Decodes the logs with the SDK ABIs (src/log-decoder.ts): anchors, documents, process
+//   creation / status changes and, when PaymentRouter is deployed, the payments of the product.
 // - Avoids scanning massive block ranges; eth_getLogs is fallback-only (tiny range), default OFF.
 // - NEW: Simulates "audit query" latency (receipt-based reconstruction) and prints p50/p95 table.
+// - Verifies steps anchored as a Merkle root (CidRollup.submitCidRoot) against their root manifests:
+//   the leaves must hash to the root, the root must be anchored, and every leaf of the product
+//   must pass the inclusion proof off-chain and on-chain (verifyCidInclusion).
+// - Decodes every anchored cidHash back to its IPFS CID (steps: raw CIDv1, documents: dag-pb
+//   CIDv1, see DEFAULT_CID_CODECS); emitDemo stores real JSON evidence for each step / document
+//   through EVIDENCE_UPLOAD (default: the local CAS) and anchors the digests of their CIDs.
+// - Fetches the content behind every anchor, checks it hashes to the anchored cidHash and
+//   validates it against its versioned schema (src/evidence-schema.ts) and the anchor itself;
+//   the anchoring actors' profiles are fetched through their metadataHash and checked too.
+// - With --indexDb, also takes the product's tx hashes from the SQLite index kept by
+//   scripts/index-chain.ts, so products this DB never saw can be reconstructed.
+// - Reconstructs several products at once (repeated --productId) or everything an org / wallet
+//   touched (--org / --actor, found through --indexDb or the eth_getLogs fallback), optionally
+//   within a block (--fromBlock / --toBlock / --lookback) or time (--since / --until) window,
+//   into one combined report with per-product completeness.
+// - Runs the audit rules (src/audit/rules.ts) over each product's timeline: step order, a stage
+//   document per anchored step, status transitions vs. the steps anchored before them, and the
+//   actors' roles at the block of each event (against the live permission matrices / graph).
+// - With --sign, an auditor key (AUDITOR_PRIVATE_KEY) signs the report digest (EIP-712 or
+//   EIP-191, src/audit/attestation.ts) into report.attestation; --anchorAttestation 1 also
+//   anchors it through DocumentRegistry (DocType.AuditAttestation). Check signed reports with
+//   scripts/verify-audit.ts.
 //
 // Usage (recommended):
 //   npx tsx scripts/reconstruct-audit-from-logs.ts
 //   npx tsx scripts/reconstruct-audit-from-logs.ts --productId "coffee-batch-001"
+//   npx tsx scripts/reconstruct-audit-from-logs.ts --org "org:coop-esperanza" --since 2026-03-01 --until 2026-08-31 --indexDb ./fairtrade_index.sqlite
 //
 // Optional flags:
-//   --productId <string|0xbytes32>
+//   --productId <string|0xbytes32>   repeatable
+//
+// Selection (a combined report once it covers more than one product):
+//   --org <string|0xbytes32>  repeatable; events anchored / processed by the org
+//   --actor <address>         repeatable; events of the wallet (payments: to it)
+//   --fromBlock <n> --toBlock <n> | --lookback <n>   block window (inclusive)
+//   --since <date|unix> --until <date|unix>          time window (a bare --until date covers the day)
+//   --org / --actor need --indexDb, or --fallbackGetLogs 1 with a block window
 //
 //   --emitDemo <0|1>         default 1
 //   --forceEmit <0|1>        default 0
+//   --anchorMode <batch|root> default batch (how emitDemo anchors the CID steps)
+//   --rootManifest <path>    CidRootManifest JSON to verify (repeatable; manifests written by
+//                            emitDemo in root mode are recorded in the DB and always verified)
+//   --fetchEvidence <0|1>    default 1   (fetch each anchor's content from EVIDENCE_FETCH, check
+//                                         it hashes to the cidHash and validate it against its
+//                                         schema, plus the anchoring actors' profiles)
 //   --refreshReceipts <0|1>  default 1   (reserved; receipts are fetched each run)
+//   --rules <0|1>            default 1   (completeness / consistency rules; findings in the report)
+//   --roleCheck <block|latest|off>  default block (actor roles as of each event's block, which
+//                                   needs an RPC serving historical state; latest: current roles)
+//   --sign <eip712|eip191|off>      default off (sign the report digest with AUDITOR_PRIVATE_KEY)
+//   --anchorAttestation <0|1>       default 0   (anchor the attestation from the auditor's wallet,
+//                                                which needs a Certifier / Regulator actor)
 //
+//   --indexDb <path>         SQLite index written by scripts/index-chain.ts: the product's tx hashes
+//                            are taken from it too, so any indexed product can be reconstructed
 //   --db <path>              default repo-root/audit_local_db.json
 //   --out <path>             default repo-root/audit_reconstruction_<prefix>.json
 //
 // Fallback-only (avoid unless needed):
-//   --fallbackGetLogs <0|1>  default 0
+//   --fallbackGetLogs <0|1>  default 0   (scan the block window with eth_getLogs for the txs of the
+//                                         selected products / orgs / wallets)
 //   --chunk <n>              default 10
 //   --sleepMs <n>            default 120
 //   --progressEvery <n>      default 200
@@ -40,22 +87,110 @@
 //   OP_SEPOLIA_RPC_URL=...
 //   OP_SEPOLIA_PRIVATE_KEY=...          (required if emitDemo=1)
 //   AUDIT_PRODUCT_ID=coffee-batch-001   (optional)
+//   EVIDENCE_UPLOAD=local               (emitDemo evidence store: local|kubo|s3, see src/storage)
+//   EVIDENCE_LOCAL_DIR=...              (local CAS directory)
+//   EVIDENCE_FETCH=local,kubo           (providers to fetch evidence from; default EVIDENCE_UPLOAD)
+//   AUDITOR_PRIVATE_KEY=...             (required with --sign; the attestation document is stored
+//                                        via EVIDENCE_UPLOAD when anchored)
 //
-// Optional RPC lists (READ ONLY):
+// Optional RPC lists (READ ONLY): every request goes through the SDK transport (src/rpc),
+// balanced over OP_SEPOLIA_RPC_URL and these, failing over on -32016 / -32011 / timeouts
+// (endpoints of another chain are skipped; RPC_FAILOVER=0 uses OP_SEPOLIA_RPC_URL alone):
 //   OP_SEPOLIA_PUBLIC_RPCS_JSON=[...]
 //   OP_SEPOLIA_PRIVATE_RPCS_JSON=[...]
+//   RPC_HEDGE_MS=<ms>                   (also send slow reads to a second endpoint)
 //
+// Contract addresses come from deployments.json for the RPC's chainId.
 // Optional contract address overrides (READ ONLY):
+//   FAIRTRADE_DEPLOYMENTS_FILE=./deployments.json
 //   ACTOR_REGISTRY_ADDRESS=0x...
 //   CID_ROLLUP_ADDRESS=0x...
 //   DOCUMENT_REGISTRY_ADDRESS=0x...
 //   PROCESS_MANAGER_ADDRESS=0x...
+//   PAYMENT_ROUTER_ADDRESS=0x...
 
 import dotenv from "dotenv";
 import path from "path";
 import fs from "fs";
 import { fileURLToPath } from "url";
-import { request } from "undici";
+import { ethers } from "ethers";
+
+import {
+    AUDIT_ATTESTATION_SCHEMES,
+    ActorRegistryClient,
+    AuditQueries,
+    CidRollupClient,
+    DocumentRegistryClient,
+    INDEXED_EVENTS,
+    IndexerDb,
+    LogDecoder,
+    PROCESS_STATUS_LABEL,
+    PRODUCT_TABLES,
+    ProcessManagerClient,
+    ProcessStatus,
+    Role,
+    STEP_LABEL,
+    STEP_ORDER,
+    StepType,
+    ROLE_LABEL,
+    actorProfile,
+    actorProfileCid,
+    anchorAuditAttestation,
+    auditCompleteness,
+    auditCounts,
+    auditEventFromLog,
+    auditReportDigest,
+    auditSelectionFilter,
+    buildCidMerkleTree,
+    checkActorProfileBytes,
+    checkEvidenceBytes,
+    cidCandidates,
+    cidFromCidHash,
+    cidMerkleProof,
+    cidRootManifest,
+    evidenceDocumentBytes,
+    eventTopic,
+    evidenceStatus,
+    fetchEvidence,
+    groupAuditEventsByProduct,
+    loadDeploymentRegistry,
+    normalizeBytes32Id,
+    parseAuditReport,
+    parseCidRootManifest,
+    parseStorageKind,
+    readDocPermissions,
+    readStepPermissions,
+    readTransitionGraph,
+    registryActorAt,
+    resolveFromRegistry,
+    rpcProviderFromEnv,
+    runAuditRules,
+    signAuditReport,
+    sortAuditEvents,
+    stepEvidence,
+    storageProviderFromEnv,
+    toBytes32,
+    uploadActorProfile,
+    uploadEvidence,
+    verifyCidMerkleProof,
+    type ActorAt,
+    type ActorProfileCheck,
+    type AuditAttestation,
+    type AuditAttestationScheme,
+    type AuditEvent,
+    type AuditFinding,
+    type AuditRuleOptions,
+    type AuditSelection,
+    type CidAnchorKind,
+    type CidEvent,
+    type ContractName,
+    type DocumentInput,
+    type EvidenceCheck,
+    type EvidenceDocumentCheck,
+    type FailoverProvider,
+    type StepEvidence,
+    type StorageProvider,
+} from "../src/index.js";
 
 // -------------------- Force-load .env from repo root (READ ONLY) --------------------
 const __filename = fileURLToPath(import.meta.url);
@@ -64,11 +199,28 @@ dotenv.config({ path: path.resolve(__dirname, "..", ".env") });
 
 // -------------------- Minimal CLI parsing --------------------
 type Args = {
-    productId: string;
+    productIds: string[];
+
+    // selection (combined report when it covers more than one product)
+    orgs: string[];
+    actors: string[];
+    fromBlock?: number;
+    toBlock?: number;
+    lookback?: number;
+    since?: string;
+    until?: string;
 
     emitDemo?: number;
     forceEmit?: number;
     refreshReceipts?: number;
+    anchorMode?: "batch" | "root";
+    rootManifest?: string[];
+    fetchEvidence?: number;
+    rules?: number;
+    roleCheck?: "block" | "latest" | "off";
+    sign?: AuditAttestationScheme | "off";
+    anchorAttestation?: number;
+    indexDb?: string;
 
     db?: string;
     out?: string;
@@ -87,16 +239,45 @@ type Args = {
 };
 
 function parseArgs(argv: string[]): Args {
-    const out: Partial<Args> = {};
+    const out: Args = { productIds: [], orgs: [], actors: [] };
     for (let i = 2; i < argv.length; i++) {
         const a = argv[i];
         const v = argv[i + 1];
 
-        if (a === "--productId" && v) { out.productId = v; i++; continue; }
+        if (a === "--productId" && v) { out.productIds.push(v); i++; continue; }
+        if (a === "--org" && v) { out.orgs.push(v); i++; continue; }
+        if (a === "--actor" && v) {
+            if (!ethers.isAddress(v)) throw new Error(`--actor must be a wallet address, got ${v}`);
+            out.actors.push(ethers.getAddress(v)); i++; continue;
+        }
+        if (a === "--fromBlock" && v) { out.fromBlock = Number(v); i++; continue; }
+        if (a === "--toBlock" && v) { out.toBlock = Number(v); i++; continue; }
+        if (a === "--lookback" && v) { out.lookback = Number(v); i++; continue; }
+        if (a === "--since" && v) { out.since = v; i++; continue; }
+        if (a === "--until" && v) { out.until = v; i++; continue; }
 
         if (a === "--emitDemo" && v) { out.emitDemo = Number(v); i++; continue; }
         if (a === "--forceEmit" && v) { out.forceEmit = Number(v); i++; continue; }
         if (a === "--refreshReceipts" && v) { out.refreshReceipts = Number(v); i++; continue; }
+        if (a === "--anchorMode" && v) {
+            if (v !== "batch" && v !== "root") throw new Error(`--anchorMode must be batch or root, got ${v}`);
+            out.anchorMode = v; i++; continue;
+        }
+        if (a === "--rootManifest" && v) { (out.rootManifest ??= []).push(v); i++; continue; }
+        if (a === "--fetchEvidence" && v) { out.fetchEvidence = Number(v); i++; continue; }
+        if (a === "--rules" && v) { out.rules = Number(v); i++; continue; }
+        if (a === "--roleCheck" && v) {
+            if (v !== "block" && v !== "latest" && v !== "off") throw new Error(`--roleCheck must be block, latest or off, got ${v}`);
+            out.roleCheck = v; i++; continue;
+        }
+        if (a === "--sign" && v) {
+            if (v !== "off" && !(AUDIT_ATTESTATION_SCHEMES as readonly string[]).includes(v)) {
+                throw new Error(`--sign must be ${AUDIT_ATTESTATION_SCHEMES.join(", ")} or off, got ${v}`);
+            }
+            out.sign = v as Args["sign"]; i++; continue;
+        }
+        if (a === "--anchorAttestation" && v) { out.anchorAttestation = Number(v); i++; continue; }
+        if (a === "--indexDb" && v) { out.indexDb = v; i++; continue; }
 
         if (a === "--db" && v) { out.db = v; i++; continue; }
         if (a === "--out" && v) { out.out = v; i++; continue; }
@@ -114,12 +295,21 @@ function parseArgs(argv: string[]): Args {
         if (a === "--simReportOut" && v) { out.simReportOut = v; i++; continue; }
     }
 
-    if (!out.productId) {
+    if (!out.productIds.length && !out.orgs.length && !out.actors.length) {
         const envDefault = (process.env.AUDIT_PRODUCT_ID || "").trim();
-        out.productId = envDefault || "coffee-batch-001";
+        out.productIds.push(envDefault || "coffee-batch-001");
     }
 
-    return out as Args;
+    return out;
+}
+
+/** ISO date / date-time or unix seconds; a bare `--until` date covers the whole day (UTC). */
+function parseTime(value: string, endOfDay: boolean): number {
+    if (/^\d+$/.test(value)) return Number(value);
+    const ms = Date.parse(value);
+    if (Number.isNaN(ms)) throw new Error(`Not a date or unix time: ${value}`);
+    const s = Math.floor(ms / 1000);
+    return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? s + 86399 : s;
 }
 
 function mustEnv(name: string): string {
@@ -176,55 +366,10 @@ function printTable(title: string, rows: Array<{ k: string; v: string }>) {
     }
 }
 
-// -------------------- hashing --------------------
-async function keccakUtf8ToBytes32(s: string): Promise<string> {
-    try {
-        const mod: any = await import("ethers");
-        if (typeof mod.id === "function") return mod.id(s);
-        if (mod.ethers && typeof mod.ethers.id === "function") return mod.ethers.id(s);
-    } catch {}
-    try {
-        const mod: any = await import("viem");
-        return mod.keccak256(mod.toBytes(s));
-    } catch {}
-    throw new Error("Need ethers or viem installed to hash strings to bytes32 (keccak256).");
-}
-
-async function normalizeProductId(input: string): Promise<string> {
-    const t = input.trim();
-    if (t.startsWith("0x") && t.length === 66) return t.toLowerCase();
-    return (await keccakUtf8ToBytes32(t)).toLowerCase();
-}
-
-function normalizeHexAddress(addr: string): string {
-    if (!addr) throw new Error("Empty address");
-    const a = addr.trim();
-    if (!a.startsWith("0x") || a.length !== 42) throw new Error(`Bad address: ${addr}`);
-    return a;
-}
-
-async function topic0(sig: string): Promise<string> {
-    return (await keccakUtf8ToBytes32(sig)).toLowerCase();
-}
-
 // -------------------- RPC --------------------
-async function rpc(url: string, method: string, params: any[]): Promise<any> {
-    const res = await request(url, {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
-    });
-    const text = await res.body.text();
-    if (res.statusCode < 200 || res.statusCode >= 300) {
-        throw new Error(`RPC HTTP ${res.statusCode}: ${text.slice(0, 600)}`);
-    }
-    let parsed: any;
-    try { parsed = JSON.parse(text); }
-    catch { throw new Error(`RPC non-JSON response: ${text.slice(0, 600)}`); }
-    if (parsed.error) {
-        throw new Error(`RPC error (${method}): ${JSON.stringify(parsed.error).slice(0, 600)}`);
-    }
-    return parsed.result;
+/** Raw JSON-RPC through the SDK transport (src/rpc), which fails over across the configured endpoints. */
+async function rpc(provider: FailoverProvider, method: string, params: any[]): Promise<any> {
+    return provider.transport.request(method, params);
 }
 
 type TxReceipt = {
@@ -240,216 +385,128 @@ type TxReceipt = {
     }>;
 };
 
-async function getTxReceipt(rpcUrl: string, txHash: string): Promise<TxReceipt | null> {
-    const r = await rpc(rpcUrl, "eth_getTransactionReceipt", [txHash]);
+async function getTxReceipt(provider: FailoverProvider, txHash: string): Promise<TxReceipt | null> {
+    const r = await rpc(provider, "eth_getTransactionReceipt", [txHash]);
     return r ?? null;
 }
 
-async function getBlockTimestamp(rpcUrl: string, blockNumber: bigint): Promise<number> {
-    const blk = await rpc(rpcUrl, "eth_getBlockByNumber", [toHexQty(blockNumber), false]);
+async function getBlockTimestamp(provider: FailoverProvider, blockNumber: bigint): Promise<number> {
+    const blk = await rpc(provider, "eth_getBlockByNumber", [toHexQty(blockNumber), false]);
     return Number(hexToBigInt(blk.timestamp));
 }
 
-// -------------------- Log decoding (NO ABI) --------------------
-function decodeBytes32(wordHex: string): string {
-    if (!wordHex?.startsWith("0x") || wordHex.length !== 66) return wordHex;
-    return wordHex.toLowerCase();
-}
-function decodeUint(wordHex: string): bigint {
-    const h = wordHex.startsWith("0x") ? wordHex : "0x" + wordHex;
-    return BigInt(h);
-}
-function splitWords(dataHex: string): string[] {
-    const h = dataHex.startsWith("0x") ? dataHex.slice(2) : dataHex;
-    const words: string[] = [];
-    for (let i = 0; i < h.length; i += 64) {
-        const chunk = h.slice(i, i + 64);
-        if (chunk.length === 64) words.push("0x" + chunk);
-    }
-    return words;
-}
-function decodeAddressFromWord(wordHex: string): string {
-    const h = wordHex.startsWith("0x") ? wordHex.slice(2) : wordHex;
-    return "0x" + h.slice(24);
-}
+// -------------------- Log decoding (SDK ABIs, src/log-decoder.ts) --------------------
+const StepTypeName: Record<number, string> = STEP_LABEL;
+const ProcessStatusName: Record<number, string> = PROCESS_STATUS_LABEL;
 
-const StepTypeName: Record<number, string> = {
-    0: "Unknown",
-    1: "Produced",
-    2: "Processed",
-    3: "Shipped",
-    4: "Received",
-    5: "AtRetail",
-    6: "Sold",
-};
-const ProcessStatusName: Record<number, string> = {
-    0: "Unknown",
-    1: "Created",
-    2: "InTransit",
-    3: "AtRetail",
-    4: "Sold",
-    5: "Certified",
-    6: "Suspended",
-    7: "Revoked",
-};
+/** The events that make up a product timeline (the indexer's product tables). */
+const PRODUCT_EVENTS = INDEXED_EVENTS.filter((s) => (PRODUCT_TABLES as readonly string[]).includes(s.table));
 
-type AuditEvent =
-    | {
-    kind: "CidAnchored";
-    contract: "CidRollup";
-    blockNumber: bigint;
-    logIndex: bigint;
-    txHash: string;
-    timestamp?: number;
-    productId: string;
-    stepId: string;
-    orgIdHash: string;
-    cidHash: string;
-    stepType: number;
-    actor: string;
-}
-    | {
-    kind: "DocumentAnchored";
-    contract: "DocumentRegistry";
-    blockNumber: bigint;
-    logIndex: bigint;
-    txHash: string;
-    timestamp?: number;
-    productId: string;
-    stepId: string;
-    orgIdHash: string;
-    cidHash: string;
-    docType: number;
-    actor: string;
+/** Decode the audit events of `productId`, or of every product when it is undefined. */
+function decodeLogsToEvents(params: { decoder: LogDecoder; logs: TxReceipt["logs"]; productId?: string }): AuditEvent[] {
+    const { decoder, logs, productId } = params;
+    return decoder
+        .decodeAll(logs)
+        .map(auditEventFromLog)
+        .filter((e): e is AuditEvent => !!e && (productId === undefined || e.productId === productId.toLowerCase()));
 }
-    | {
-    kind: "ProcessCreated";
-    contract: "ProcessManager";
-    blockNumber: bigint;
-    logIndex: bigint;
-    txHash: string;
-    timestamp?: number;
-    productId: string;
-    orgIdHash: string;
-}
-    | {
-    kind: "ProcessStatusChanged";
-    contract: "ProcessManager";
-    blockNumber: bigint;
-    logIndex: bigint;
-    txHash: string;
-    timestamp?: number;
-    productId: string;
-    orgIdHash: string;
-    previousStatus: number;
-    newStatus: number;
-    actor: string;
+
+// -------------------- Merkle-root anchors (CidRollup.submitCidRoot) --------------------
+type RootCheck = {
+    manifest: string;
+    root?: string;
+    ok: boolean;
+    error?: string;
+    productLeaves: number;
+    verifiedLeaves: number;
 };
 
-function decodeLogsToEvents(params: {
-    logs: TxReceipt["logs"];
+async function verifyRootManifests(params: {
+    provider: FailoverProvider;
+    cidRollupAddress: string;
     productId: string;
-    tCidAnchored: string;
-    tDocAnchored: string;
-    tProcessCreated: string;
-    tProcessStatusChanged: string;
-}): AuditEvent[] {
-    const { logs, productId, tCidAnchored, tDocAnchored, tProcessCreated, tProcessStatusChanged } = params;
+    manifestPaths: string[];
+    decoder: LogDecoder;
+}): Promise<{ events: AuditEvent[]; checks: RootCheck[] }> {
+    const { provider, cidRollupAddress, productId, manifestPaths, decoder } = params;
+    const cidRollup = new CidRollupClient(cidRollupAddress, provider);
 
     const events: AuditEvent[] = [];
+    const checks: RootCheck[] = [];
+
+    for (const manifestPath of manifestPaths) {
+        const check: RootCheck = { manifest: manifestPath, ok: false, productLeaves: 0, verifiedLeaves: 0 };
+        checks.push(check);
+        try {
+            // rebuilding the tree already rejects leaves that do not hash to the stated root
+            const { manifest, tree } = parseCidRootManifest(JSON.parse(fs.readFileSync(manifestPath, "utf8")));
+            check.root = tree.root;
+            if (manifest.cidRollup.toLowerCase() !== cidRollupAddress.toLowerCase()) {
+                throw new Error(`manifest is for CidRollup ${manifest.cidRollup}`);
+            }
 
-    for (const l of logs) {
-        const t0 = (l.topics?.[0] || "").toLowerCase();
-        const topicProduct = (l.topics?.[1] || "").toLowerCase();
-
-        if (topicProduct !== productId.toLowerCase()) continue;
-
-        if (t0 === tCidAnchored.toLowerCase()) {
-            const stepId = decodeBytes32(l.topics[2]);
-            const orgIdHash = decodeBytes32(l.topics[3]);
-            const words = splitWords(l.data);
-            const cidHash = decodeBytes32(words[0] || "0x");
-            const stepType = Number(decodeUint(words[1] || "0x0"));
-            const actor = decodeAddressFromWord(words[2] || "0x" + "0".repeat(64));
-
-            events.push({
-                kind: "CidAnchored",
-                contract: "CidRollup",
-                blockNumber: hexToBigInt(l.blockNumber),
-                logIndex: hexToBigInt(l.logIndex),
-                txHash: l.transactionHash,
-                productId,
-                stepId,
-                orgIdHash,
-                cidHash,
-                stepType,
-                actor,
-            });
-            continue;
-        }
-
-        if (t0 === tDocAnchored.toLowerCase()) {
-            const stepId = decodeBytes32(l.topics[2]);
-            const orgIdHash = decodeBytes32(l.topics[3]);
-            const words = splitWords(l.data);
-            const cidHash = decodeBytes32(words[0] || "0x");
-            const docType = Number(decodeUint(words[1] || "0x0"));
-            const actor = decodeAddressFromWord(words[2] || "0x" + "0".repeat(64));
-
-            events.push({
-                kind: "DocumentAnchored",
-                contract: "DocumentRegistry",
-                blockNumber: hexToBigInt(l.blockNumber),
-                logIndex: hexToBigInt(l.logIndex),
-                txHash: l.transactionHash,
-                productId,
-                stepId,
-                orgIdHash,
-                cidHash,
-                docType,
-                actor,
-            });
-            continue;
-        }
+            const anchor = await cidRollup.getRootAnchor(tree.root);
+            if (!anchor) throw new Error("root is not anchored on-chain");
+            if (anchor.leafCount !== tree.leaves.length) {
+                throw new Error(`root was anchored with ${anchor.leafCount} leaves, manifest has ${tree.leaves.length}`);
+            }
 
-        if (t0 === tProcessCreated.toLowerCase()) {
-            const orgIdHash = decodeBytes32(l.topics[2]);
-            events.push({
-                kind: "ProcessCreated",
-                contract: "ProcessManager",
-                blockNumber: hexToBigInt(l.blockNumber),
-                logIndex: hexToBigInt(l.logIndex),
-                txHash: l.transactionHash,
-                productId,
-                orgIdHash,
-            });
-            continue;
+            // the anchor records its block, so the CidRootAnchored log is a one-block eth_getLogs away
+            const logs = await rpc(provider, "eth_getLogs", [{
+                address: cidRollupAddress,
+                fromBlock: toHexQty(anchor.blockNumber),
+                toBlock: toHexQty(anchor.blockNumber),
+                topics: [eventTopic("CidRollup", "CidRootAnchored"), tree.root],
+            }]);
+            const log = logs?.[0] ? decoder.decode(logs[0]) : undefined;
+            if (!log) throw new Error(`CidRootAnchored log not found in block ${anchor.blockNumber}`);
+
+            for (const [i, leaf] of tree.leaves.entries()) {
+                if (leaf.productId.toLowerCase() !== productId.toLowerCase()) continue;
+                check.productLeaves++;
+
+                const proof = cidMerkleProof(tree, i);
+                const offChain = verifyCidMerkleProof(tree.root, leaf, proof);
+                const onChain = await cidRollup.verifyCidInclusion(leaf, tree.root, proof);
+                if (!offChain || !onChain) {
+                    console.log(`  leaf ${i} stepId=${leaf.stepId.slice(0, 10)}... NOT verified (offChain=${offChain} onChain=${onChain})`);
+                    continue;
+                }
+                check.verifiedLeaves++;
+
+                events.push({
+                    kind: "CidRootLeaf",
+                    contract: "CidRollup",
+                    blockNumber: log.blockNumber,
+                    logIndex: log.logIndex,
+                    txHash: log.txHash,
+                    productId,
+                    stepId: leaf.stepId.toLowerCase(),
+                    orgIdHash: log.args.orgIdHash,
+                    cidHash: leaf.cidHash.toLowerCase(),
+                    cid: cidFromCidHash(leaf.cidHash, "step", leaf.stepType),
+                    stepType: leaf.stepType,
+                    actor: anchor.actor,
+                    root: tree.root,
+                    proof,
+                    manifest: manifestPath,
+                });
+            }
+            check.ok = check.verifiedLeaves === check.productLeaves;
+            if (!check.ok) check.error = `${check.productLeaves - check.verifiedLeaves} leaf proof(s) failed`;
+        } catch (e: any) {
+            check.error = String(e?.message ?? e);
         }
 
-        if (t0 === tProcessStatusChanged.toLowerCase()) {
-            const orgIdHash = decodeBytes32(l.topics[2]);
-            const words = splitWords(l.data);
-            const previousStatus = Number(decodeUint(words[0] || "0x0"));
-            const newStatus = Number(decodeUint(words[1] || "0x0"));
-            const actor = decodeAddressFromWord(words[2] || "0x" + "0".repeat(64));
-
-            events.push({
-                kind: "ProcessStatusChanged",
-                contract: "ProcessManager",
-                blockNumber: hexToBigInt(l.blockNumber),
-                logIndex: hexToBigInt(l.logIndex),
-                txHash: l.transactionHash,
-                productId,
-                orgIdHash,
-                previousStatus,
-                newStatus,
-                actor,
-            });
-            continue;
-        }
+        console.log(
+            `- manifest=${manifestPath} root=${check.root?.slice(0, 10) ?? "?"}... ` +
+            (check.error
+                ? `FAILED: ${check.error}`
+                : `leaves for product verified ${check.verifiedLeaves}/${check.productLeaves}`),
+        );
     }
 
-    return events;
+    return { events, checks };
 }
 
 // -------------------- Local DB (single JSON file, 0 deps) --------------------
@@ -470,6 +527,8 @@ type LocalDbProduct = {
         ProcessManager: string;
     };
     txs: LocalDbTx[];
+    /** CidRootManifest files of steps anchored with submitCidRoot. */
+    rootManifests?: string[];
     observed: { minBlock?: number; maxBlock?: number };
 };
 
@@ -510,15 +569,100 @@ function addTx(p: LocalDbProduct, txHash: string, purpose: string) {
     }
 }
 
+/** Record txs found for a product by `source` (index / scan); returns how many were new. */
+function addFoundTxs(params: {
+    db: LocalDb;
+    productIdInput: string;
+    productId: string;
+    contractAddresses: LocalDbProduct["contractAddresses"];
+    source: string;
+    txs: { txHash: string; event: string }[];
+}): number {
+    const { db, productIdInput, productId, contractAddresses, source, txs } = params;
+    if (!txs.length) return 0;
+
+    const p: LocalDbProduct =
+        db.products[productId] ||
+        ({ productIdInput, productId, createdAt: new Date().toISOString(), contractAddresses, txs: [], observed: {} } as LocalDbProduct);
+    const before = p.txs.length;
+    for (const txHash of Array.from(new Set(txs.map((t) => t.txHash)))) {
+        const events = txs.filter((t) => t.txHash === txHash).map((t) => t.event);
+        addTx(p, txHash, `${source}: ${Array.from(new Set(events)).join(", ")}`);
+    }
+    upsertProduct(db, p);
+    return p.txs.length - before;
+}
+
+// -------------------- Tx hashes from the SQLite index (scripts/index-chain.ts) --------------------
+function openIndex(indexFile: string): IndexerDb {
+    if (!fs.existsSync(indexFile)) throw new Error(`No index at ${indexFile}; run scripts/index-chain.ts sync first`);
+    return new IndexerDb(indexFile);
+}
+
+function addIndexedTxs(params: {
+    index: IndexerDb;
+    db: LocalDb;
+    productIdInput: string;
+    productId: string;
+    contractAddresses: LocalDbProduct["contractAddresses"];
+}): number {
+    const { index, ...rest } = params;
+    const txs = index.productRows(rest.productId).map((r) => ({ txHash: r.txHash, event: r.event }));
+    return addFoundTxs({ ...rest, source: "index", txs });
+}
+
+// -------------------- Chunked eth_getLogs scan (fallback) --------------------
+async function scanLogs(params: {
+    provider: FailoverProvider;
+    addresses: string[];
+    topics0: string[];
+    fromBlock: number;
+    toBlock: number;
+    chunk: number;
+    sleepMs: number;
+    progressEvery: number;
+}): Promise<TxReceipt["logs"]> {
+    const { provider, addresses, topics0, fromBlock, toBlock, chunk, sleepMs, progressEvery } = params;
+    const logs: TxReceipt["logs"] = [];
+    let requests = 0;
+    for (let from = fromBlock; from <= toBlock; from += chunk) {
+        const to = Math.min(toBlock, from + chunk - 1);
+        const got = await rpc(provider, "eth_getLogs", [{
+            address: addresses,
+            fromBlock: toHexQty(from),
+            toBlock: toHexQty(to),
+            topics: [topics0],
+        }]);
+        logs.push(...(got ?? []));
+        if (++requests % progressEvery === 0) console.log(`Scan progress: block ${to}/${toBlock}, ${logs.length} log(s)`);
+        if (sleepMs > 0 && to < toBlock) await new Promise((r) => setTimeout(r, sleepMs));
+    }
+    return logs;
+}
+
 // -------------------- Emit demo supply-chain ON-CHAIN (integrated) --------------------
+const DEMO_FARM = { country: "CO", region: "Huila", site: "Finca La Esperanza" };
+const DEMO_PORT = { country: "DE", site: "Hamburg port" };
+
+/** The fields STEP_REQUIREMENTS asks of each step type. */
+const DEMO_STEP_FIELDS: Record<number, Partial<StepEvidence>> = {
+    [StepType.Produced]: { location: DEMO_FARM, quantity: { value: 1200, unit: "kg" } },
+    [StepType.Processed]: { quantity: { value: 1000, unit: "kg" }, process: "washed" },
+    [StepType.Shipped]: { shipment: { from: DEMO_FARM, to: DEMO_PORT, carrier: "Demo Ocean Carrier" } },
+    [StepType.Received]: { location: DEMO_PORT, quantity: { value: 1000, unit: "kg" } },
+    [StepType.AtRetail]: { location: { country: "DE", site: "Berlin store" } },
+    [StepType.Sold]: { sale: { amount: "14.50", currency: "EUR" } },
+};
+
 async function emitCoffeeSupplyChainIfNeeded(params: {
-    primaryRpc: string;
+    provider: FailoverProvider;
     productIdInput: string;
     productId: string;
     dbPath: string;
     db: LocalDb;
     emitDemo: boolean;
     forceEmit: boolean;
+    anchorMode: "batch" | "root";
     contractAddresses: {
         ActorRegistry: string;
         CidRollup: string;
@@ -526,7 +670,7 @@ async function emitCoffeeSupplyChainIfNeeded(params: {
         ProcessManager: string;
     };
 }): Promise<void> {
-    const { primaryRpc, productIdInput, productId, dbPath, db, emitDemo, forceEmit, contractAddresses } = params;
+    const { provider, productIdInput, productId, dbPath, db, emitDemo, forceEmit, anchorMode, contractAddresses } = params;
 
     const existing = db.products[productId];
     const alreadyHasTxs = !!existing && existing.txs && existing.txs.length > 0;
@@ -537,51 +681,36 @@ async function emitCoffeeSupplyChainIfNeeded(params: {
         return;
     }
 
-    let ethersAny: any;
-    try { ethersAny = await import("ethers"); }
-    catch { throw new Error("emitDemo requires ethers installed."); }
-    const ethers = ethersAny.ethers ? ethersAny.ethers : ethersAny;
-
     const pk = process.env.OP_SEPOLIA_PRIVATE_KEY ? process.env.OP_SEPOLIA_PRIVATE_KEY.trim() : "";
     if (!pk) {
         throw new Error("emitDemo=1 but OP_SEPOLIA_PRIVATE_KEY is missing. Set it in .env or run with --emitDemo 0.");
     }
 
-    const provider = new ethers.JsonRpcProvider(primaryRpc);
-    const wallet = new ethers.Wallet(pk, provider);
+    const signer = new ethers.Wallet(pk, provider);
+    // NonceManager: automining local nodes can report a stale pending nonce
+    const wallet = new ethers.NonceManager(signer);
 
-    console.log(`\n[emitDemo] Emitting coffee supply-chain events as wallet=${wallet.address}`);
+    console.log(`\n[emitDemo] Emitting coffee supply-chain events as wallet=${signer.address}`);
 
-    const actorRegistryAbi = [
-        "function owner() view returns (address)",
-        "function isActiveActor(address) view returns (bool)",
-        "function registerActor(bytes32 orgIdHash, address wallet, uint8 role, bytes32 metadataHash)",
-    ];
-    const cidRollupAbi = [
-        "function submitCidBatch(tuple(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 stepType)[] events)",
-    ];
-    const docRegistryAbi = [
-        "function anchorDocument(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 docType)",
-    ];
-    const processManagerAbi = [
-        "function createProcess(bytes32 productId)",
-        "function advanceStatus(bytes32 productId, uint8 newStatus)",
-    ];
+    const actorRegistry = new ActorRegistryClient(contractAddresses.ActorRegistry, wallet);
+    const cidRollup = new CidRollupClient(contractAddresses.CidRollup, wallet);
+    const docRegistry = new DocumentRegistryClient(contractAddresses.DocumentRegistry, wallet);
+    const processManager = new ProcessManagerClient(contractAddresses.ProcessManager, wallet);
 
-    const actorRegistry = new ethers.Contract(contractAddresses.ActorRegistry, actorRegistryAbi, wallet);
-    const cidRollup = new ethers.Contract(contractAddresses.CidRollup, cidRollupAbi, wallet);
-    const docRegistry = new ethers.Contract(contractAddresses.DocumentRegistry, docRegistryAbi, wallet);
-    const processManager = new ethers.Contract(contractAddresses.ProcessManager, processManagerAbi, wallet);
+    // real evidence: schema-valid documents (src/evidence-schema.ts) uploaded in the layout the
+    // CID codec policy gives their type, so every anchored cidHash decodes to a fetchable CID
+    const storage = storageProviderFromEnv(parseStorageKind(process.env.EVIDENCE_UPLOAD || "local"));
+    console.log(`[emitDemo] Storing demo evidence via ${storage.kind} (${storage.target})`);
 
-    const isActive = await actorRegistry.isActiveActor(wallet.address);
+    const isActive = await actorRegistry.isActiveActor(signer.address);
     if (!isActive) {
-        const owner = (await actorRegistry.owner()) as string;
-        if (owner.toLowerCase() !== wallet.address.toLowerCase()) {
+        const owner = await actorRegistry.owner();
+        if (owner.toLowerCase() !== signer.address.toLowerCase()) {
             throw new Error(
                 [
                     "[emitDemo] Wallet is NOT registered AND is not ActorRegistry.owner(), so it can't self-register.",
                     `ActorRegistry.owner() = ${owner}`,
-                    `Your wallet           = ${wallet.address}`,
+                    `Your wallet           = ${signer.address}`,
                     "",
                     "Fix options:",
                     "  1) Use the ActorRegistry owner key as OP_SEPOLIA_PRIVATE_KEY, run once to register this wallet.",
@@ -590,64 +719,108 @@ async function emitCoffeeSupplyChainIfNeeded(params: {
             );
         }
 
-        const orgIdHash = ethers.id(`org:${wallet.address}`).toLowerCase();
-        const metadataHash = ethers.id(`meta:${wallet.address}`).toLowerCase();
-        const roleProducer = 1;
+        const orgIdHash = toBytes32(`org:${signer.address}`).toLowerCase();
+        const { cid: profileCid, metadataHash } = await uploadActorProfile(storage, actorProfile({
+            orgIdHash,
+            name: "Demo coffee operator",
+            role: ROLE_LABEL[Role.Operator],
+            country: "CO",
+            wallets: [signer.address],
+        }));
+        console.log(`[emitDemo] Actor profile: ${profileCid}`);
 
-        console.log("[emitDemo] Registering actor (Producer)...");
-        const tx = await actorRegistry.registerActor(orgIdHash, wallet.address, roleProducer, metadataHash);
+        // Operator: the demo anchors every step and stage record from one wallet
+        console.log("[emitDemo] Registering actor (Operator)...");
+        const tx = await actorRegistry.registerActor(orgIdHash, signer.address, Role.Operator, metadataHash);
         console.log(`[emitDemo] registerActor tx=${tx.hash}`);
         await tx.wait();
     }
 
     console.log("[emitDemo] createProcess (skip if exists)...");
+    let txCreate: ethers.ContractTransactionResponse | undefined;
     try {
         const tx = await processManager.createProcess(productId);
         console.log(`[emitDemo] createProcess tx=${tx.hash}`);
         await tx.wait();
+        txCreate = tx;
     } catch (e: any) {
         console.log(`[emitDemo] createProcess skipped: ${String(e?.message ?? e).slice(0, 140)}`);
+        wallet.reset(); // the reverted tx never consumed its nonce
     }
 
     const runNonce = Date.now();
-    const stepTypes = [1, 2, 3, 4, 5, 6];
-    const stepNames: Record<number, string> = {
-        1: "Produced", 2: "Processed", 3: "Shipped", 4: "Received", 5: "AtRetail", 6: "Sold",
+    const stepNames: Record<number, string> = STEP_LABEL;
+    const mkStepId = (name: string) => toBytes32(`step:${productId}:${name}:${runNonce}`).toLowerCase();
+
+    const storeEvidence = async (kind: CidAnchorKind, type: number, doc: StepEvidence) => {
+        const { cid, cidHash } = await uploadEvidence(storage, evidenceDocumentBytes(doc), { kind, type });
+        console.log(`[emitDemo]   ${kind} ${type}: ${cid}`);
+        return { cid, cidHash };
     };
-    const mkStepId = (name: string) => ethers.id(`step:${productId}:${name}:${runNonce}`).toLowerCase();
-    const mkCidHash = (name: string) => ethers.id(`cid:${productId}:${name}:${runNonce}`).toLowerCase();
+    const evidenceFor = (stepType: StepType, stepId: string, extra: Partial<StepEvidence> = {}) =>
+        stepEvidence({
+            productId,
+            stepId,
+            stepType: stepNames[stepType],
+            occurredAt: new Date().toISOString(),
+            actor: { address: signer.address },
+            ...DEMO_STEP_FIELDS[stepType],
+            ...extra,
+        });
 
-    const cidEvents = stepTypes.map((st) => ({
-        productId,
-        stepId: mkStepId(stepNames[st]),
-        cidHash: mkCidHash(stepNames[st]),
-        stepType: st,
-    }));
-
-    console.log("[emitDemo] submitCidBatch (6 steps)...");
-    const txBatch = await cidRollup.submitCidBatch(cidEvents);
-    console.log(`[emitDemo] submitCidBatch tx=${txBatch.hash}`);
+    const cidEvents: CidEvent[] = [];
+    const stepCids: string[] = [];
+    for (const st of STEP_ORDER) {
+        const stepId = mkStepId(stepNames[st]);
+        // each step lists the evidence of the step before it
+        const { cid, cidHash } = await storeEvidence("step", st, evidenceFor(st, stepId, {
+            ...(stepCids.length ? { inputs: stepCids.slice(-1) } : {}),
+            notes: `${productIdInput} run ${runNonce}`,
+        }));
+        stepCids.push(cid);
+        cidEvents.push({ productId, stepId, cidHash, stepType: st });
+    }
+
+    let txBatch: ethers.ContractTransactionResponse;
+    let manifestPath: string | undefined;
+    if (anchorMode === "root") {
+        const tree = buildCidMerkleTree(cidEvents);
+        console.log(`[emitDemo] submitCidRoot (6 leaves, root=${tree.root})...`);
+        txBatch = await cidRollup.submitCidRoot(tree.root, cidEvents.length, tree.stepTypeMask);
+        manifestPath = path.resolve(path.dirname(dbPath), `cid_root_${tree.root.slice(2, 10)}.json`);
+        const { chainId } = await provider.getNetwork();
+        writeJsonFile(
+            manifestPath,
+            cidRootManifest(tree, { chainId, cidRollup: contractAddresses.CidRollup, txHash: txBatch.hash }),
+        );
+        console.log(`[emitDemo] submitCidRoot tx=${txBatch.hash}, manifest=${manifestPath}`);
+    } else {
+        console.log("[emitDemo] submitCidBatch (6 steps)...");
+        txBatch = await cidRollup.submitCidBatch(cidEvents);
+        console.log(`[emitDemo] submitCidBatch tx=${txBatch.hash}`);
+    }
     const rcBatch = await txBatch.wait();
 
-    console.log("[emitDemo] anchorDocument (6 docs)...");
-    const docTxs: string[] = [];
+    // DocType 1..6 line up with StepType: one stage record per anchored step
+    const docs: DocumentInput[] = [];
     for (const ev of cidEvents) {
-        const docType = ev.stepType;
-        const docCidHash = mkCidHash(`DOC:${stepNames[ev.stepType]}`);
-        const tx = await docRegistry.anchorDocument(ev.productId, ev.stepId, docCidHash, docType);
-        docTxs.push(tx.hash);
-        console.log(`[emitDemo] anchorDocument(${stepNames[ev.stepType]}) tx=${tx.hash}`);
-        await tx.wait();
+        const { cidHash } = await storeEvidence("doc", ev.stepType, evidenceFor(ev.stepType, ev.stepId, {
+            notes: `${stepNames[ev.stepType]} record for ${productIdInput} run ${runNonce}`,
+        }));
+        docs.push({ productId: ev.productId, stepId: ev.stepId, cidHash, docType: ev.stepType });
     }
 
-    console.log("[emitDemo] advanceStatus Created->InTransit->AtRetail->Sold...");
-    const statusTxs: string[] = [];
-    for (const s of [2, 3, 4]) {
-        const tx = await processManager.advanceStatus(productId, s);
-        statusTxs.push(tx.hash);
-        console.log(`[emitDemo] advanceStatus(${s}) tx=${tx.hash}`);
-        await tx.wait();
-    }
+    console.log("[emitDemo] anchorDocumentBatch (6 docs)...");
+    const txDocs = await docRegistry.anchorDocumentBatch(docs);
+    console.log(`[emitDemo] anchorDocumentBatch tx=${txDocs.hash}`);
+    await txDocs.wait();
+
+    console.log("[emitDemo] advanceStatusBatch Created->InTransit->AtRetail->Sold...");
+    const txStatus = await processManager.advanceStatusBatch(
+        [ProcessStatus.InTransit, ProcessStatus.AtRetail, ProcessStatus.Sold].map((newStatus) => ({ productId, newStatus })),
+    );
+    console.log(`[emitDemo] advanceStatusBatch tx=${txStatus.hash}`);
+    await txStatus.wait();
 
     const p: LocalDbProduct =
         existing || ({
@@ -659,11 +832,17 @@ async function emitCoffeeSupplyChainIfNeeded(params: {
             observed: {},
         } as LocalDbProduct);
 
-    addTx(p, txBatch.hash, "CidRollup.submitCidBatch (Produced..Sold)");
-    for (const h of docTxs) addTx(p, h, "DocumentRegistry.anchorDocument");
-    for (const h of statusTxs) addTx(p, h, "ProcessManager.advanceStatus");
+    if (txCreate) addTx(p, txCreate.hash, "ProcessManager.createProcess");
+    if (manifestPath) {
+        addTx(p, txBatch.hash, "CidRollup.submitCidRoot (Produced..Sold)");
+        p.rootManifests = Array.from(new Set([...(p.rootManifests ?? []), manifestPath]));
+    } else {
+        addTx(p, txBatch.hash, "CidRollup.submitCidBatch (Produced..Sold)");
+    }
+    addTx(p, txDocs.hash, "DocumentRegistry.anchorDocumentBatch (6 docs)");
+    addTx(p, txStatus.hash, "ProcessManager.advanceStatusBatch (InTransit..Sold)");
 
-    const bn = Number(hexToBigInt(rcBatch.blockNumber));
+    const bn = Number(rcBatch!.blockNumber);
     p.observed.minBlock = p.observed.minBlock !== undefined ? Math.min(p.observed.minBlock, bn) : bn;
     p.observed.maxBlock = p.observed.maxBlock !== undefined ? Math.max(p.observed.maxBlock, bn) : bn;
 
@@ -673,6 +852,103 @@ async function emitCoffeeSupplyChainIfNeeded(params: {
     console.log(`[emitDemo] ✅ emitted + stored txs to DB: ${dbPath}\n`);
 }
 
+// -------------------- Evidence content + schema checks --------------------
+type AnchorEvent = Extract<AuditEvent, { kind: "CidAnchored" | "CidRootLeaf" | "DocumentAnchored" }>;
+
+function isAnchorEvent(e: AuditEvent): e is AnchorEvent {
+    return e.kind === "CidAnchored" || e.kind === "CidRootLeaf" || e.kind === "DocumentAnchored";
+}
+
+async function fetchAndCheck(
+    cidHash: string,
+    cids: string[],
+    storage: StorageProvider[],
+    check: (bytes: Uint8Array) => EvidenceDocumentCheck,
+): Promise<EvidenceCheck> {
+    const { bytes, error, ...fetched } = await fetchEvidence(cidHash, cids, storage);
+    if (!bytes) return { ...fetched, issues: [error ?? "not fetched"] };
+    const { schema, issues } = check(bytes);
+    return { ...fetched, ...(schema ? { schema } : {}), valid: schema ? issues.length === 0 : undefined, issues };
+}
+
+/** Attach an EvidenceCheck to every anchor event and check the profiles of the actors behind them. */
+async function checkEvidence(params: {
+    events: AuditEvent[];
+    storage: StorageProvider[];
+    actorRegistry: ActorRegistryClient;
+}): Promise<ActorProfileCheck[]> {
+    const { events, storage, actorRegistry } = params;
+    const anchors = events.filter(isAnchorEvent);
+
+    for (const e of anchors) {
+        const kind: CidAnchorKind = e.kind === "DocumentAnchored" ? "doc" : "step";
+        const type = e.kind === "DocumentAnchored" ? e.docType : e.stepType;
+        e.evidence = await fetchAndCheck(e.cidHash, [e.cid, ...cidCandidates(e.cidHash)], storage, (bytes) =>
+            checkEvidenceBytes(bytes, { kind, type, productId: e.productId, stepId: e.stepId, actor: e.actor }),
+        );
+    }
+
+    const profiles: ActorProfileCheck[] = [];
+    for (const actor of Array.from(new Set(anchors.map((e) => ethers.getAddress(e.actor))))) {
+        const info = await actorRegistry.getActor(actor);
+        let name: string | undefined;
+        const check = await fetchAndCheck(info.metadataHash, [actorProfileCid(info.metadataHash)], storage, (bytes) => {
+            const c = checkActorProfileBytes(bytes, { orgIdHash: info.orgIdHash, wallet: actor, role: info.role });
+            if (c.document?.["@type"] === "ActorProfile") name = c.document.name;
+            return c;
+        });
+        profiles.push({ actor, orgIdHash: info.orgIdHash, metadataHash: info.metadataHash, ...(name ? { name } : {}), ...check });
+    }
+    return profiles;
+}
+
+// -------------------- Completeness / consistency rules --------------------
+/**
+ * Rule options from the live contracts: permission matrices, transition graph and an actor
+ * lookup. With roleCheck "block" the first lookup an RPC cannot serve (no historical state)
+ * switches the rest of the run to the latest registry state.
+ */
+async function liveRuleOptions(params: {
+    provider: ethers.Provider;
+    roleCheck: "block" | "latest" | "off";
+    contractAddresses: { ActorRegistry: string; CidRollup: string; DocumentRegistry: string; ProcessManager: string };
+}): Promise<AuditRuleOptions> {
+    const { provider, roleCheck, contractAddresses } = params;
+    const actorRegistry = new ActorRegistryClient(contractAddresses.ActorRegistry, provider);
+
+    let actorAt: ActorAt | undefined;
+    if (roleCheck !== "off") {
+        const atBlock = registryActorAt(actorRegistry);
+        let historical = roleCheck === "block";
+        actorAt = async (wallet, blockNumber) => {
+            if (historical) {
+                try {
+                    return await atBlock(wallet, blockNumber);
+                } catch (e: any) {
+                    historical = false;
+                    console.warn(`[rules] No state at block ${blockNumber} (${String(e?.shortMessage ?? e?.message ?? e).slice(0, 80)}); checking roles against the latest registry state`);
+                }
+            }
+            return await actorRegistry.getActor(wallet);
+        };
+    }
+
+    return {
+        actorAt,
+        stepPermissions: await readStepPermissions(new CidRollupClient(contractAddresses.CidRollup, provider)),
+        docPermissions: await readDocPermissions(new DocumentRegistryClient(contractAddresses.DocumentRegistry, provider)),
+        transitions: await readTransitionGraph(new ProcessManagerClient(contractAddresses.ProcessManager, provider)),
+    };
+}
+
+function printFindings(findings: AuditFinding[], withProduct: boolean) {
+    for (const f of findings) {
+        const product = withProduct ? `${f.productId.slice(0, 10)}... ` : "";
+        const tx = f.event ? ` tx=${f.event.txHash.slice(0, 10)}...` : "";
+        console.log(`  ${f.severity.toUpperCase().padEnd(7)} ${product}[${f.rule}] ${f.message}${tx}`);
+    }
+}
+
 // -------------------- concurrency helper --------------------
 async function mapLimit<T, R>(items: T[], limit: number, fn: (t: T, idx: number) => Promise<R>): Promise<R[]> {
     const out: R[] = new Array(items.length);
@@ -706,29 +982,18 @@ type QueryRun = {
     uniqueBlocks: number;
 };
 
-function sortEvents(events: AuditEvent[]) {
-    events.sort((a, b) => {
-        if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
-        if (a.logIndex !== b.logIndex) return a.logIndex < b.logIndex ? -1 : 1;
-        return 0;
-    });
-}
-
 async function runAuditQueryOnce(params: {
-    primaryRpc: string;
+    provider: FailoverProvider;
     productId: string;
     txs: LocalDbTx[];
-    tCidAnchored: string;
-    tDocAnchored: string;
-    tProcessCreated: string;
-    tProcessStatusChanged: string;
+    decoder: LogDecoder;
     concurrency: number;
     // caches (optional)
     receiptCache?: Map<string, TxReceipt | null>;
     tsCache?: Map<string, number>;
 }): Promise<QueryRun> {
     const {
-        primaryRpc, productId, txs, tCidAnchored, tDocAnchored, tProcessCreated, tProcessStatusChanged,
+        provider, productId, txs, decoder,
         concurrency, receiptCache, tsCache
     } = params;
 
@@ -739,7 +1004,7 @@ async function runAuditQueryOnce(params: {
     const receipts = await mapLimit(txs, concurrency, async (t) => {
         const k = t.txHash.toLowerCase();
         if (receiptCache && receiptCache.has(k)) return receiptCache.get(k)!;
-        const rc = await getTxReceipt(primaryRpc, t.txHash);
+        const rc = await getTxReceipt(provider, t.txHash);
         if (receiptCache) receiptCache.set(k, rc);
         return rc;
     });
@@ -750,20 +1015,13 @@ async function runAuditQueryOnce(params: {
     const events: AuditEvent[] = [];
     for (const rc of receipts) {
         if (!rc) continue;
-        events.push(...decodeLogsToEvents({
-            logs: rc.logs,
-            productId,
-            tCidAnchored,
-            tDocAnchored,
-            tProcessCreated,
-            tProcessStatusChanged,
-        }));
+        events.push(...decodeLogsToEvents({ decoder, logs: rc.logs, productId }));
     }
     const decodeMs = nsToMs(nowNs() - tD0);
 
     // 3) sort
     const tS0 = nowNs();
-    sortEvents(events);
+    sortAuditEvents(events);
     const sortMs = nsToMs(nowNs() - tS0);
 
     // 4) timestamps
@@ -775,7 +1033,7 @@ async function runAuditQueryOnce(params: {
     const blockList = Array.from(blocks);
     await mapLimit(blockList, concurrency, async (b) => {
         if (localTsCache.has(b)) return;
-        const ts = await getBlockTimestamp(primaryRpc, BigInt(b));
+        const ts = await getBlockTimestamp(provider, BigInt(b));
         localTsCache.set(b, ts);
     });
 
@@ -807,20 +1065,17 @@ async function runAuditQueryOnce(params: {
 }
 
 async function simulateAuditQueryLatency(params: {
-    primaryRpc: string;
+    provider: FailoverProvider;
     productId: string;
     txs: LocalDbTx[];
-    tCidAnchored: string;
-    tDocAnchored: string;
-    tProcessCreated: string;
-    tProcessStatusChanged: string;
+    decoder: LogDecoder;
     warmup: number;
     runs: number;
     concurrency: number;
     reportOutPath: string;
 }): Promise<void> {
     const {
-        primaryRpc, productId, txs, tCidAnchored, tDocAnchored, tProcessCreated, tProcessStatusChanged,
+        provider, productId, txs, decoder,
         warmup, runs, concurrency, reportOutPath
     } = params;
 
@@ -847,8 +1102,7 @@ async function simulateAuditQueryLatency(params: {
         // warmup
         for (let i = 0; i < warmup; i++) {
             await runAuditQueryOnce({
-                primaryRpc, productId, txs,
-                tCidAnchored, tDocAnchored, tProcessCreated, tProcessStatusChanged,
+                provider, productId, txs, decoder,
                 concurrency,
                 receiptCache, tsCache
             });
@@ -858,8 +1112,7 @@ async function simulateAuditQueryLatency(params: {
         const runDetails: QueryRun[] = [];
         for (let i = 0; i < runs; i++) {
             const r = await runAuditQueryOnce({
-                primaryRpc, productId, txs,
-                tCidAnchored, tDocAnchored, tProcessCreated, tProcessStatusChanged,
+                provider, productId, txs, decoder,
                 concurrency,
                 receiptCache, tsCache
             });
@@ -953,22 +1206,41 @@ async function simulateAuditQueryLatency(params: {
 async function main() {
     const args = parseArgs(process.argv);
 
-    const primaryRpc = mustEnv("OP_SEPOLIA_RPC_URL");
-    const productIdInput = args.productId;
-    const productId = await normalizeProductId(productIdInput);
+    const provider = rpcProviderFromEnv();
+    // bytes32 -> input label; products of the selected orgs / wallets are added below
+    const productInputs = new Map<string, string>();
+    for (const input of args.productIds) productInputs.set(normalizeBytes32Id(input), input);
+    const orgIdHashes = args.orgs.map(normalizeBytes32Id);
+    const byWho = orgIdHashes.length > 0 || args.actors.length > 0;
+
+    let { fromBlock, toBlock } = args;
+    if (args.lookback !== undefined || (fromBlock !== undefined && toBlock === undefined)) {
+        toBlock ??= Number(hexToBigInt(await rpc(provider, "eth_blockNumber", [])));
+        if (args.lookback !== undefined) fromBlock ??= Math.max(0, toBlock - args.lookback);
+    }
+    const selection: AuditSelection = {
+        productIds: productInputs.size ? [...productInputs.keys()] : undefined,
+        orgIdHashes,
+        actors: args.actors,
+        fromBlock: fromBlock !== undefined ? BigInt(fromBlock) : undefined,
+        toBlock: toBlock !== undefined ? BigInt(toBlock) : undefined,
+        fromTime: args.since ? parseTime(args.since, false) : undefined,
+        toTime: args.until ? parseTime(args.until, true) : undefined,
+    };
 
-    const ACTOR_REGISTRY_ADDRESS = normalizeHexAddress(
-        (process.env.ACTOR_REGISTRY_ADDRESS || "0xFb451B3Bfb497C54719d0DB354a502a9D9cE38C1").trim()
-    );
-    const CID_ROLLUP_ADDRESS = normalizeHexAddress(
-        (process.env.CID_ROLLUP_ADDRESS || "0xC6d171F707bA43BdF490362a357D975B76976264").trim()
-    );
-    const DOCUMENT_REGISTRY_ADDRESS = normalizeHexAddress(
-        (process.env.DOCUMENT_REGISTRY_ADDRESS || "0xBEb8140eeaf2f23916dA88F8F0886827a0f5145c").trim()
-    );
-    const PROCESS_MANAGER_ADDRESS = normalizeHexAddress(
-        (process.env.PROCESS_MANAGER_ADDRESS || "0xeD7AA6c4B1fA3FFCEC378dcFEAc0406540F5078c").trim()
-    );
+    const chainId = hexToBigInt(await rpc(provider, "eth_chainId", []));
+    const deployment = resolveFromRegistry(await loadDeploymentRegistry(), chainId, process.env, [
+        "ActorRegistry",
+        "CidRollup",
+        "DocumentRegistry",
+        "ProcessManager",
+    ]);
+    const ACTOR_REGISTRY_ADDRESS = deployment.addresses.ActorRegistry;
+    const CID_ROLLUP_ADDRESS = deployment.addresses.CidRollup;
+    const DOCUMENT_REGISTRY_ADDRESS = deployment.addresses.DocumentRegistry;
+    const PROCESS_MANAGER_ADDRESS = deployment.addresses.ProcessManager;
+    // optional: without it, payments are not part of the timeline
+    const PAYMENT_ROUTER_ADDRESS = deployment.addresses.PaymentRouter as string | undefined;
 
     const dbPath = args.db ? path.resolve(args.db) : path.resolve(__dirname, "..", "audit_local_db.json");
 
@@ -986,89 +1258,196 @@ async function main() {
     const simRuns = args.simRuns ?? 30;
     const simConcurrency = args.simConcurrency ?? 8;
 
-    const tCidAnchored = await topic0("CidAnchored(bytes32,bytes32,bytes32,uint8,bytes32,address)");
-    const tDocAnchored = await topic0("DocumentAnchored(bytes32,bytes32,bytes32,uint8,bytes32,address)");
-    const tProcessCreated = await topic0("ProcessCreated(bytes32,bytes32)");
-    const tProcessStatusChanged = await topic0("ProcessStatusChanged(bytes32,uint8,uint8,bytes32,address)");
+    const fetchEvidenceOn = (args.fetchEvidence ?? 1) === 1;
+    const rulesOn = (args.rules ?? 1) === 1;
+    const roleCheck = args.roleCheck ?? "block";
+    const signScheme = args.sign ?? "off";
+    const anchorAttestationOn = (args.anchorAttestation ?? 0) === 1;
+    if (anchorAttestationOn && signScheme === "off") throw new Error("--anchorAttestation 1 needs --sign eip712|eip191");
+    const auditorKey = signScheme !== "off" ? mustEnv("AUDITOR_PRIVATE_KEY") : undefined;
+    const evidenceStorage = (process.env.EVIDENCE_FETCH || process.env.EVIDENCE_UPLOAD || "local")
+        .split(",")
+        .map((k) => k.trim())
+        .filter(Boolean)
+        .map((k) => storageProviderFromEnv(parseStorageKind(k)));
 
     console.log(`Loaded .env from: ${path.resolve(__dirname, "..", ".env")}`);
-    console.log(`RPC (primary): ${primaryRpc}`);
-    console.log(`productId input: ${productIdInput}`);
-    console.log(`productId (bytes32): ${productId}`);
+    console.log(`RPC: ${provider.transport.urls.join(", ")}`);
+    console.log(`Network: ${deployment.network} (chainId ${chainId})`);
+    for (const [productId, productIdInput] of productInputs) {
+        console.log(`productId input: ${productIdInput}`);
+        console.log(`productId (bytes32): ${productId}`);
+    }
+    if (byWho) console.log(`orgs: ${args.orgs.join(", ") || "-"}  actors: ${args.actors.join(", ") || "-"}`);
+    if (fromBlock !== undefined || toBlock !== undefined) console.log(`blocks: ${fromBlock ?? 0}..${toBlock ?? "latest"}`);
+    if (args.since || args.until) console.log(`time: ${args.since ?? "-"} .. ${args.until ?? "-"}`);
     console.log(`DB: ${dbPath}`);
     console.log(`emitDemo=${emitDemo ? "ON" : "OFF"} forceEmit=${forceEmit ? "ON" : "OFF"} refreshReceipts=${refreshReceipts ? "ON" : "OFF"}`);
     console.log(`fallbackGetLogs=${fallbackGetLogs ? "ON" : "OFF"} chunk=${chunk} sleepMs=${sleepMs}`);
     console.log(`simQuery=${simQuery ? "ON" : "OFF"} simWarmup=${simWarmup} simRuns=${simRuns} simConcurrency=${simConcurrency}`);
+    console.log(`fetchEvidence=${fetchEvidenceOn ? `ON (${evidenceStorage.map((p) => p.kind).join(",")})` : "OFF"}`);
     console.log(`ActorRegistry: ${ACTOR_REGISTRY_ADDRESS}`);
     console.log(`CidRollup: ${CID_ROLLUP_ADDRESS}`);
     console.log(`DocumentRegistry: ${DOCUMENT_REGISTRY_ADDRESS}`);
-    console.log(`ProcessManager: ${PROCESS_MANAGER_ADDRESS}\n`);
+    console.log(`ProcessManager: ${PROCESS_MANAGER_ADDRESS}`);
+    console.log(`PaymentRouter: ${PAYMENT_ROUTER_ADDRESS ?? "- (payments not reconstructed)"}\n`);
 
     const db = loadDb(dbPath);
+    const contractAddresses = {
+        ActorRegistry: ACTOR_REGISTRY_ADDRESS,
+        CidRollup: CID_ROLLUP_ADDRESS,
+        DocumentRegistry: DOCUMENT_REGISTRY_ADDRESS,
+        ProcessManager: PROCESS_MANAGER_ADDRESS,
+    };
+    // the contracts whose product events make up the timeline
+    const decodedAddresses: Partial<Record<ContractName, string>> = {
+        CidRollup: CID_ROLLUP_ADDRESS,
+        DocumentRegistry: DOCUMENT_REGISTRY_ADDRESS,
+        ProcessManager: PROCESS_MANAGER_ADDRESS,
+        ...(PAYMENT_ROUTER_ADDRESS ? { PaymentRouter: PAYMENT_ROUTER_ADDRESS } : {}),
+    };
+    const decoder = new LogDecoder(decodedAddresses);
+
+    // products of the selected orgs / wallets, and the txs of every product, from the index
+    if (args.indexDb) {
+        const index = openIndex(path.resolve(args.indexDb));
+        try {
+            if (byWho) {
+                for (const e of new AuditQueries(index).select(selection)) {
+                    if (!productInputs.has(e.productId)) productInputs.set(e.productId, e.productId);
+                }
+            }
+            for (const [productId, productIdInput] of productInputs) {
+                const added = addIndexedTxs({ index, db, productIdInput, productId, contractAddresses });
+                console.log(`Index ${args.indexDb}: ${added} new tx(s) for ${productIdInput}`);
+            }
+        } finally {
+            index.close();
+        }
+        saveDb(dbPath, db);
+    }
 
-    await emitCoffeeSupplyChainIfNeeded({
-        primaryRpc,
-        productIdInput,
-        productId,
-        dbPath,
-        db,
-        emitDemo,
-        forceEmit,
-        contractAddresses: {
-            ActorRegistry: ACTOR_REGISTRY_ADDRESS,
-            CidRollup: CID_ROLLUP_ADDRESS,
-            DocumentRegistry: DOCUMENT_REGISTRY_ADDRESS,
-            ProcessManager: PROCESS_MANAGER_ADDRESS,
-        },
-    });
+    // ... or from a chunked eth_getLogs scan of the block window
+    if (fallbackGetLogs) {
+        if (fromBlock === undefined || toBlock === undefined) {
+            throw new Error("--fallbackGetLogs 1 needs a block window (--fromBlock / --toBlock or --lookback)");
+        }
+        console.log(`\nScanning blocks ${fromBlock}..${toBlock} with eth_getLogs (chunk=${chunk})...`);
+        const scanned = decodeLogsToEvents({
+            decoder,
+            logs: await scanLogs({
+                provider,
+                addresses: Object.values(decodedAddresses),
+                topics0: PRODUCT_EVENTS.filter((e) => decodedAddresses[e.contract]).map((e) => eventTopic(e.contract, e.event)),
+                fromBlock,
+                toBlock,
+                chunk,
+                sleepMs,
+                progressEvery,
+            }),
+        });
+        if (byWho) {
+            // no timestamps yet: the time window is applied after reconstruction
+            const match = auditSelectionFilter({ ...selection, fromTime: undefined, toTime: undefined });
+            for (const e of scanned) if (match(e) && !productInputs.has(e.productId)) productInputs.set(e.productId, e.productId);
+        }
+        for (const [productId, productIdInput] of productInputs) {
+            const txs = scanned.filter((e) => e.productId === productId).map((e) => ({ txHash: e.txHash, event: e.kind }));
+            const added = addFoundTxs({ db, productIdInput, productId, contractAddresses, source: "scan", txs });
+            console.log(`Scan: ${added} new tx(s) for ${productIdInput}`);
+        }
+        saveDb(dbPath, db);
+    } else if (byWho && !args.indexDb) {
+        throw new Error("--org / --actor need --indexDb <path>, or --fallbackGetLogs 1 with a block window");
+    }
+    if (byWho) console.log(`Selection covers ${productInputs.size} product(s)`);
+
+    if (productInputs.size === 1 && !byWho) {
+        const [[productId, productIdInput]] = productInputs;
+        await emitCoffeeSupplyChainIfNeeded({
+            provider,
+            productIdInput,
+            productId,
+            dbPath,
+            db,
+            emitDemo,
+            forceEmit,
+            anchorMode: args.anchorMode ?? "batch",
+            contractAddresses,
+        });
+    } else if (emitDemo) {
+        console.log("[emitDemo] Skipped: the selection is not a single --productId");
+    }
 
     const db2 = loadDb(dbPath);
-    const prod = db2.products[productId];
 
-    // ---- reconstruct once (existing behavior) ----
+    // ---- reconstruct every product of the selection ----
     const events: AuditEvent[] = [];
-    const seenTx = new Set<string>();
+    const reconstructed: { productId: string; productIdInput: string; prod?: LocalDbProduct; rootChecks: RootCheck[] }[] = [];
 
-    if (prod?.txs?.length) {
-        console.log(`\nReconstructing from ${prod.txs.length} tx receipt(s) (NO block scanning)...`);
+    for (const [productId, productIdInput] of productInputs) {
+        const prod = db2.products[productId];
+        if (productInputs.size > 1) console.log(`\n=== ${productIdInput} ===`);
+        const seenTx = new Set<string>();
 
-        for (const t of prod.txs) {
-            const txh = t.txHash.toLowerCase();
-            if (seenTx.has(txh)) continue;
-            seenTx.add(txh);
+        if (prod?.txs?.length) {
+            console.log(`\nReconstructing from ${prod.txs.length} tx receipt(s) (NO block scanning)...`);
 
-            const rc = await getTxReceipt(primaryRpc, t.txHash);
-            if (!rc) {
-                console.log(`Receipt not found yet for tx=${t.txHash} (pending?)`);
-                continue;
+            for (const t of prod.txs) {
+                const txh = t.txHash.toLowerCase();
+                if (seenTx.has(txh)) continue;
+                seenTx.add(txh);
+
+                const rc = await getTxReceipt(provider, t.txHash);
+                if (!rc) {
+                    console.log(`Receipt not found yet for tx=${t.txHash} (pending?)`);
+                    continue;
+                }
+
+                const bn = Number(hexToBigInt(rc.blockNumber));
+                prod.observed.minBlock = prod.observed.minBlock !== undefined ? Math.min(prod.observed.minBlock, bn) : bn;
+                prod.observed.maxBlock = prod.observed.maxBlock !== undefined ? Math.max(prod.observed.maxBlock, bn) : bn;
+
+                const decoded = decodeLogsToEvents({ decoder, logs: rc.logs, productId });
+                events.push(...decoded);
+
+                console.log(`- tx=${t.txHash.slice(0, 10)}... purpose="${t.purpose}" logsDecoded=${decoded.length} block=${bn}`);
             }
 
-            const bn = Number(hexToBigInt(rc.blockNumber));
-            prod.observed.minBlock = prod.observed.minBlock !== undefined ? Math.min(prod.observed.minBlock, bn) : bn;
-            prod.observed.maxBlock = prod.observed.maxBlock !== undefined ? Math.max(prod.observed.maxBlock, bn) : bn;
+            db2.products[productId] = prod;
+        } else {
+            console.log(`No local DB txs for productId=${productId}.`);
+            if (productInputs.size === 1 && !byWho) {
+                console.log(`If you want auto-emit, ensure emitDemo=1 and OP_SEPOLIA_PRIVATE_KEY is present.`);
+            }
+        }
 
-            const decoded = decodeLogsToEvents({
-                logs: rc.logs,
+        // Merkle-root anchors: manifests recorded by emitDemo plus --rootManifest files
+        const manifestPaths = Array.from(new Set([
+            ...(prod?.rootManifests ?? []),
+            ...(args.rootManifest ?? []).map((m) => path.resolve(m)),
+        ]));
+        let rootChecks: RootCheck[] = [];
+        if (manifestPaths.length) {
+            console.log(`\nVerifying ${manifestPaths.length} CidRollup root manifest(s)...`);
+            const verified = await verifyRootManifests({
+                provider,
+                cidRollupAddress: CID_ROLLUP_ADDRESS,
                 productId,
-                tCidAnchored,
-                tDocAnchored,
-                tProcessCreated,
-                tProcessStatusChanged,
+                manifestPaths,
+                decoder,
             });
-            events.push(...decoded);
-
-            console.log(`- tx=${t.txHash.slice(0, 10)}... purpose="${t.purpose}" logsDecoded=${decoded.length} block=${bn}`);
+            events.push(...verified.events);
+            rootChecks = verified.checks;
         }
-
-        db2.products[productId] = prod;
-        saveDb(dbPath, db2);
-    } else {
-        console.log(`No local DB txs for productId=${productId}.`);
-        console.log(`If you want auto-emit, ensure emitDemo=1 and OP_SEPOLIA_PRIVATE_KEY is present.`);
+        reconstructed.push({ productId, productIdInput, prod, rootChecks });
     }
+    saveDb(dbPath, db2);
+    // every reported event is at or below this block; verify-audit re-derives up to it
+    const headBlock = Number(hexToBigInt(await rpc(provider, "eth_blockNumber", [])));
 
     // sort
-    sortEvents(events);
+    sortAuditEvents(events);
 
     // timestamps
     console.log(`\nTimestamping ${events.length} event(s) (primary RPC only)...`);
@@ -1077,81 +1456,214 @@ async function main() {
         const e = events[i];
         const key = e.blockNumber.toString();
         if (!tsCache.has(key)) {
-            const ts = await getBlockTimestamp(primaryRpc, e.blockNumber);
+            const ts = await getBlockTimestamp(provider, e.blockNumber);
             tsCache.set(key, ts);
         }
         e.timestamp = tsCache.get(key);
         if (i > 0 && i % 50 === 0) console.log(`Timestamp progress: ${i}/${events.length}`);
     }
 
-    // completeness
-    const requiredStepsArr = [1, 2, 3, 4, 5, 6];
-    const seenSteps = new Set<number>();
-    for (const e of events) if (e.kind === "CidAnchored") seenSteps.add(e.stepType);
-    const missing = requiredStepsArr.filter((s) => !seenSteps.has(s));
-    const completeness = missing.length === 0 ? 1 : 0;
+    // the report covers the events of the selection (org / wallet / block / time);
+    // completeness is per product over its whole reconstructed timeline
+    const inSelection = auditSelectionFilter(selection);
+    const selected = events.filter(inSelection);
+
+    // evidence content + schemas
+    let actorProfiles: ActorProfileCheck[] = [];
+    if (fetchEvidenceOn) {
+        console.log(`\nFetching and validating evidence of ${selected.filter(isAnchorEvent).length} anchor(s)...`);
+        actorProfiles = await checkEvidence({
+            events: selected,
+            storage: evidenceStorage,
+            actorRegistry: new ActorRegistryClient(ACTOR_REGISTRY_ADDRESS, provider),
+        });
+    }
+    const evidenceChecks = selected.filter(isAnchorEvent).flatMap((e) => (e.evidence ? [e.evidence] : []));
+
+    // per-product completeness and rules
+    const byProduct = groupAuditEventsByProduct(events);
+    const ruleOptions = rulesOn
+        ? await liveRuleOptions({
+            provider,
+            roleCheck,
+            contractAddresses: {
+                ActorRegistry: ACTOR_REGISTRY_ADDRESS,
+                CidRollup: CID_ROLLUP_ADDRESS,
+                DocumentRegistry: DOCUMENT_REGISTRY_ADDRESS,
+                ProcessManager: PROCESS_MANAGER_ADDRESS,
+            },
+        })
+        : undefined;
+    if (ruleOptions) console.log(`\nRunning audit rules (roles: ${roleCheck})...`);
+    const products = [];
+    for (const { productId, productIdInput, prod, rootChecks } of reconstructed) {
+        const all = byProduct.get(productId) ?? [];
+        const report = ruleOptions ? await runAuditRules(all, ruleOptions) : undefined;
+        products.push({
+            productIdInput,
+            productId,
+            counts: auditCounts(all),
+            selectedEvents: all.filter(inSelection).length,
+            completeness: auditCompleteness(all),
+            ...(report ? { rules: { ran: report.rules, counts: report.counts, passed: report.passed } } : {}),
+            findings: report?.findings ?? [],
+            rootManifests: rootChecks,
+            localDb: prod ? { txCount: prod.txs.length, observed: prod.observed } : { txCount: 0 },
+        });
+    }
+    const single = products.length === 1 ? products[0] : undefined;
+    const rootChecks = products.flatMap((p) => p.rootManifests);
+    const findings = products.flatMap((p) => p.findings);
 
     const summary = {
         generatedAt: new Date().toISOString(),
-        productIdInput,
-        productId,
-        counts: {
-            totalEvents: events.length,
-            cidAnchors: events.filter((e) => e.kind === "CidAnchored").length,
-            documentAnchors: events.filter((e) => e.kind === "DocumentAnchored").length,
-            processEvents: events.filter((e) => e.kind === "ProcessCreated" || e.kind === "ProcessStatusChanged").length,
+        ...(single ? { productIdInput: single.productIdInput, productId: single.productId } : {}),
+        chain: { chainId, network: deployment.network, addresses: deployment.addresses, headBlock },
+        selection: {
+            productIds: args.productIds,
+            orgs: args.orgs,
+            orgIdHashes,
+            actors: args.actors,
+            fromBlock,
+            toBlock,
+            fromTime: selection.fromTime,
+            toTime: selection.toTime,
         },
-        completeness: {
-            requiredStepTypes: requiredStepsArr.map((x) => ({ stepType: x, name: StepTypeName[x] })),
-            seenStepTypes: Array.from(seenSteps).sort((a, b) => a - b).map((x) => ({ stepType: x, name: StepTypeName[x] })),
-            missingStepTypes: missing.map((x) => ({ stepType: x, name: StepTypeName[x] })),
-            completeness01: completeness,
+        counts: auditCounts(selected),
+        ...(single ? { completeness: single.completeness } : {}),
+        completeProducts: products.filter((p) => p.completeness.completeness01 === 1).length,
+        ...(ruleOptions
+            ? {
+                findings: {
+                    error: findings.filter((f) => f.severity === "error").length,
+                    warning: findings.filter((f) => f.severity === "warning").length,
+                    info: findings.filter((f) => f.severity === "info").length,
+                    passedProducts: products.filter((p) => p.rules?.passed).length,
+                },
+            }
+            : {}),
+        products,
+        rootManifests: rootChecks,
+        evidence: {
+            checked: evidenceChecks.length,
+            fetched: evidenceChecks.filter((c) => c.fetched).length,
+            verified: evidenceChecks.filter((c) => c.verified).length,
+            schemaChecked: evidenceChecks.filter((c) => c.valid !== undefined).length,
+            schemaValid: evidenceChecks.filter((c) => c.valid).length,
+            actorProfiles,
         },
-        localDb: prod ? { dbPath, txCount: prod.txs.length, observed: prod.observed } : { dbPath, txCount: 0 },
+        localDb: single ? { dbPath, ...single.localDb } : { dbPath, txCount: products.reduce((n, p) => n + p.localDb.txCount, 0) },
     };
 
-    console.log(`\nFound ${events.length} total event(s) for productId.`);
-    console.log(`Completeness (Produced..Sold present in CidAnchored stepType set): ${completeness}\n`);
+    if (single) {
+        console.log(`\nFound ${selected.length} total event(s) for productId.`);
+        console.log(`Completeness (Produced..Sold present in CidAnchored / verified CidRootLeaf stepType set): ${single.completeness.completeness01}`);
+    } else {
+        console.log(`\nFound ${selected.length} event(s) in the selection across ${products.length} product(s); complete: ${summary.completeProducts}/${products.length}`);
+        for (const p of products) {
+            const missing = p.completeness.missingStepTypes.map((m) => m.name).join(",") || "-";
+            console.log(`  ${p.productId.slice(0, 10)}... ${p.productIdInput.padEnd(20)} complete=${p.completeness.completeness01} events=${p.counts.totalEvents} selected=${p.selectedEvents} missing=${missing}`);
+        }
+    }
+    const failedRoots = rootChecks.filter((c) => !c.ok);
+    if (failedRoots.length) console.log(`Root manifests failing verification: ${failedRoots.length}/${rootChecks.length}`);
+    if (fetchEvidenceOn) {
+        const ev = summary.evidence;
+        console.log(
+            `Evidence: fetched ${ev.fetched}/${ev.checked}, content verified ${ev.verified}/${ev.checked}, ` +
+            `schema-valid ${ev.schemaValid}/${ev.schemaChecked}; actor profiles valid ` +
+            `${actorProfiles.filter((p) => p.valid).length}/${actorProfiles.length}`
+        );
+    }
+    console.log("");
 
-    for (const e of events) {
+    for (const e of selected) {
         const iso = e.timestamp ? new Date(e.timestamp * 1000).toISOString() : "unknown-time";
+        const at = single ? iso : `${iso}  ${e.productId.slice(0, 10)}...`;
         if (e.kind === "CidAnchored") {
             console.log(
-                `${iso}  [CidAnchored] stepType=${e.stepType}(${StepTypeName[e.stepType] || "?"}) stepId=${e.stepId.slice(0, 10)}... actor=${e.actor} cidHash=${e.cidHash.slice(0, 10)}... tx=${e.txHash.slice(0, 10)}...`
+                `${at}  [CidAnchored] stepType=${e.stepType}(${StepTypeName[e.stepType] || "?"}) stepId=${e.stepId.slice(0, 10)}... actor=${e.actor} cid=${e.cid} evidence=${evidenceStatus(e.evidence)} tx=${e.txHash.slice(0, 10)}...`
+            );
+        } else if (e.kind === "CidRootLeaf") {
+            console.log(
+                `${at}  [CidRootLeaf] stepType=${e.stepType}(${StepTypeName[e.stepType] || "?"}) stepId=${e.stepId.slice(0, 10)}... actor=${e.actor} cid=${e.cid} evidence=${evidenceStatus(e.evidence)} root=${e.root.slice(0, 10)}... proof=${e.proof.length} tx=${e.txHash.slice(0, 10)}...`
             );
         } else if (e.kind === "DocumentAnchored") {
             console.log(
-                `${iso}  [DocumentAnchored] docType=${e.docType} stepId=${e.stepId.slice(0, 10)}... actor=${e.actor} cidHash=${e.cidHash.slice(0, 10)}... tx=${e.txHash.slice(0, 10)}...`
+                `${at}  [DocumentAnchored] docType=${e.docType} stepId=${e.stepId.slice(0, 10)}... actor=${e.actor} cid=${e.cid} evidence=${evidenceStatus(e.evidence)} tx=${e.txHash.slice(0, 10)}...`
             );
         } else if (e.kind === "ProcessCreated") {
-            console.log(`${iso}  [ProcessCreated] orgIdHash=${e.orgIdHash.slice(0, 10)}... tx=${e.txHash.slice(0, 10)}...`);
+            console.log(`${at}  [ProcessCreated] orgIdHash=${e.orgIdHash.slice(0, 10)}... tx=${e.txHash.slice(0, 10)}...`);
         } else if (e.kind === "ProcessStatusChanged") {
             console.log(
-                `${iso}  [ProcessStatusChanged] ${ProcessStatusName[e.previousStatus] || e.previousStatus} -> ${ProcessStatusName[e.newStatus] || e.newStatus} actor=${e.actor} tx=${e.txHash.slice(0, 10)}...`
+                `${at}  [ProcessStatusChanged] ${ProcessStatusName[e.previousStatus] || e.previousStatus} -> ${ProcessStatusName[e.newStatus] || e.newStatus} actor=${e.actor} tx=${e.txHash.slice(0, 10)}...`
             );
+        } else if (e.kind === "PaymentRouted") {
+            console.log(
+                `${at}  [PaymentRouted] amount=${e.amount} token=${e.token} recipient=${e.recipient}${e.credited ? " (credited)" : ""} tx=${e.txHash.slice(0, 10)}...`
+            );
+        }
+    }
+
+    const evidenceFailures = [
+        ...selected.filter(isAnchorEvent).filter((e) => e.evidence && e.evidence.issues.length)
+            .map((e) => ({ what: `${e.kind} ${e.cid}`, c: e.evidence! })),
+        ...actorProfiles.filter((p) => p.issues.length).map((p) => ({ what: `ActorProfile of ${p.actor}`, c: p as EvidenceCheck })),
+    ];
+    if (evidenceFailures.length) {
+        console.log(`\nEvidence issues (${evidenceFailures.length}):`);
+        for (const { what, c } of evidenceFailures) {
+            console.log(`  ${evidenceStatus(c)} ${what}`);
+            for (const issue of c.issues) console.log(`      ${issue}`);
         }
     }
+    if (summary.findings) {
+        const { error, warning, info } = summary.findings;
+        console.log(`\nAudit rules: ${error} error(s), ${warning} warning(s), ${info} info; passed ${summary.findings.passedProducts}/${products.length} product(s)`);
+        printFindings(findings, !single);
+    }
 
-    const outPath = args.out || path.resolve(__dirname, "..", `audit_reconstruction_${productId.slice(2, 10)}.json`);
-    writeJsonFile(outPath, { summary, events });
-    console.log(`\nWrote ${outPath}`);
+    const outPath = args.out || path.resolve(
+        __dirname,
+        "..",
+        single ? `audit_reconstruction_${single.productId.slice(2, 10)}.json` : "audit_reconstruction_combined.json",
+    );
+    // digest (and signature) of the report as it reads back from disk
+    const report = parseAuditReport(JSON.parse(JSON.stringify({ summary, events: selected }, jsonReplacer)));
+    console.log(`\nReport digest: ${auditReportDigest(report)}`);
+    let attestation: AuditAttestation | undefined;
+    if (auditorKey && signScheme !== "off") {
+        const auditor = new ethers.Wallet(auditorKey, provider);
+        attestation = await signAuditReport(report, auditor, { chainId, scheme: signScheme });
+        console.log(`Signed (${attestation.scheme}) by auditor ${attestation.auditor}`);
+        if (anchorAttestationOn) {
+            const storage = storageProviderFromEnv(parseStorageKind(process.env.EVIDENCE_UPLOAD || "local"));
+            const documents = new DocumentRegistryClient(DOCUMENT_REGISTRY_ADDRESS, auditor);
+            attestation.anchor = await anchorAuditAttestation(attestation, documents, storage);
+            console.log(
+                `Anchored attestation ${attestation.anchor.cid} for ${attestation.productIds.length} product(s) ` +
+                `tx=${attestation.anchor.txHash} block=${attestation.anchor.blockNumber}`,
+            );
+        }
+    }
+    writeJsonFile(outPath, { summary, events: selected, ...(attestation ? { attestation } : {}) });
+    console.log(`Wrote ${outPath}`);
     console.log(`Local DB: ${dbPath}`);
 
     // ---- NEW: simulate query latency and print performance table ----
-    if (simQuery && prod?.txs?.length) {
+    const prod = single ? reconstructed[0].prod : undefined;
+    if (simQuery && single && prod?.txs?.length) {
+        const productId = single.productId;
         const reportOutPath =
             args.simReportOut
                 ? path.resolve(args.simReportOut)
                 : path.resolve(__dirname, "..", `audit_query_latency_${productId.slice(2, 10)}.json`);
 
         await simulateAuditQueryLatency({
-            primaryRpc,
+            provider,
             productId,
             txs: prod.txs,
-            tCidAnchored,
-            tDocAnchored,
-            tProcessCreated,
-            tProcessStatusChanged,
+            decoder,
             warmup: simWarmup,
             runs: simRuns,
             concurrency: simConcurrency,
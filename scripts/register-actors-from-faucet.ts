@@ -1,15 +1,32 @@
 // scripts/register-actors-from-faucet.ts
 //
-// Register all funded faucet wallets as active actors in ActorRegistry.
+// Register all funded faucet wallets in ActorRegistry, grouped into orgs.
 //
 // - Reads op-sepolia-faucet-wallets-batch.json
+// - Assigns the wallets (in file order) to orgs:
+//     * REGISTER_ORGS_FILE lists orgs explicitly (see below), or
+//     * consecutive groups of REGISTER_WALLETS_PER_ORG wallets become
+//       orgs "<REGISTER_ORG_PREFIX>-0", "-1", ... as Operators (benchmark
+//       batches anchor every StepType).
 // - For each wallet:
 //     * Check on-chain balance (sequential / max 1 RPC in-flight)
-//     * If balance >= MIN_BALANCE_ETH and NOT already an active actor,
-//       call ActorRegistry.registerActor(...) from the owner key.
+//     * If balance >= MIN_BALANCE_ETH and not yet a wallet of any org,
+//       the first wallet of a new org is registered with registerActor(...)
+//       and every further wallet is authorised with addOrgWallet(...), from
+//       the owner key.
+// - Wallets already authorised for a *different* org are reported and
+//   skipped (move them with removeOrgWallet first). Existing orgs keep their
+//   role and status; inactive orgs are reported.
 // - Uses NonceManager so multiple register txs *could* be in-flight,
 //   but we cap RPC concurrency to 1 to avoid overloading providers.
 //
+// Orgs file (wallets: a count taken from the not-yet-assigned wallets in file
+// order, or explicit addresses; the last entry may use "rest"):
+//   { "orgs": [
+//       { "org": "coop-a", "role": "Producer", "wallets": 20 },
+//       { "org": "coop-b", "role": "Processor", "wallets": ["0x...", "0x..."] },
+//       { "org": "platform", "role": "Operator", "wallets": "rest" } ] }
+//
 // Usage:
 //   npx tsx scripts/register-actors-from-faucet.ts
 //
@@ -21,32 +38,38 @@
 //   REGISTER_MIN_BALANCE_ETH=0.0000001
 //   REGISTER_BALANCE_CONCURRENCY=1
 //   REGISTER_REGISTER_CONCURRENCY=1
+//   REGISTER_WALLETS_PER_ORG=25
+//   REGISTER_ORG_PREFIX=faucet-coop
+//   REGISTER_ORGS_FILE=./faucet-orgs.json
+//   ACTOR_REGISTRY_ADDRESS=0x...   # overrides deployments.json for the RPC's chainId
 
 import "dotenv/config";
 import { promises as fs } from "fs";
 import path from "path";
 import {
-    JsonRpcProvider,
     Wallet,
     ethers,
     NonceManager,
 } from "ethers";
 
-import actorRegistryArtifact from "../artifacts/contracts/ActorRegistry.sol/ActorRegistry.json";
+import {
+    ActorRegistryClient,
+    ROLE_LABEL,
+    Role,
+    STATUS_LABEL,
+    Status,
+    normalizeBytes32Id,
+    parseRole,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    toBytes32,
+} from "../src/index.js";
 
 const FAUCET_STATE_FILE = path.join(
     process.cwd(),
     "op-sepolia-faucet-wallets-batch.json",
 );
 
-// Deployed ActorRegistry on OP Sepolia
-const ACTOR_REGISTRY_ADDRESS =
-    process.env.ACTOR_REGISTRY_ADDRESS ??
-    "0xFb451B3Bfb497C54719d0DB354a502a9D9cE38C1";
-
-// Role = Producer (1) from FairtradeTypes.Role
-const ROLE_PRODUCER = 1;
-
 // Threshold for "has funds"
 const MIN_BALANCE_ETH = process.env.REGISTER_MIN_BALANCE_ETH ?? "0.0000001";
 const MIN_BALANCE_WEI = ethers.parseEther(MIN_BALANCE_ETH);
@@ -64,6 +87,10 @@ const REGISTER_CONCURRENCY = Math.min(
     MAX_RPC_CONCURRENCY,
 );
 
+const WALLETS_PER_ORG = Number(process.env.REGISTER_WALLETS_PER_ORG ?? "25");
+const ORG_PREFIX = process.env.REGISTER_ORG_PREFIX ?? "faucet-coop";
+const ORGS_FILE = process.env.REGISTER_ORGS_FILE;
+
 interface FaucetWallet {
     address: string;
     privateKey: string;
@@ -73,6 +100,20 @@ interface FaucetState {
     wallets: FaucetWallet[];
 }
 
+interface OrgConfig {
+    org: string;
+    role?: string;
+    wallets: number | string[] | "rest";
+}
+
+interface OrgPlan {
+    /** Label (or bytes32 id) from the config. */
+    org: string;
+    orgIdHash: string;
+    role: Role;
+    wallets: string[];
+}
+
 // ---------- helpers ----------
 
 async function loadFaucetState(): Promise<FaucetState> {
@@ -84,6 +125,62 @@ async function loadFaucetState(): Promise<FaucetState> {
     return parsed as FaucetState;
 }
 
+/** Assign the faucet wallets (file order) to orgs from REGISTER_ORGS_FILE or fixed-size groups. */
+async function planOrgs(wallets: FaucetWallet[]): Promise<OrgPlan[]> {
+    const addresses = wallets.map((w) => ethers.getAddress(w.address));
+
+    if (!ORGS_FILE) {
+        if (!Number.isInteger(WALLETS_PER_ORG) || WALLETS_PER_ORG < 1) {
+            throw new Error("REGISTER_WALLETS_PER_ORG must be >= 1");
+        }
+        const plans: OrgPlan[] = [];
+        for (let i = 0; i * WALLETS_PER_ORG < addresses.length; i++) {
+            const org = `${ORG_PREFIX}-${i}`;
+            plans.push({
+                org,
+                orgIdHash: toBytes32(org),
+                role: Role.Operator,
+                wallets: addresses.slice(i * WALLETS_PER_ORG, (i + 1) * WALLETS_PER_ORG),
+            });
+        }
+        return plans;
+    }
+
+    const parsed = JSON.parse(await fs.readFile(ORGS_FILE, "utf8")) as { orgs?: OrgConfig[] };
+    if (!Array.isArray(parsed.orgs) || parsed.orgs.length === 0) {
+        throw new Error(`${ORGS_FILE} has no "orgs"`);
+    }
+
+    // explicit addresses first, so counts only draw from the unclaimed wallets
+    const claimed = new Set<string>();
+    for (const o of parsed.orgs) {
+        if (!Array.isArray(o.wallets)) continue;
+        for (const w of o.wallets) {
+            const addr = ethers.getAddress(w);
+            if (claimed.has(addr)) throw new Error(`${addr} is listed under more than one org`);
+            claimed.add(addr);
+        }
+    }
+    const pool = addresses.filter((a) => !claimed.has(a));
+
+    return parsed.orgs.map((o) => {
+        let orgWallets: string[];
+        if (Array.isArray(o.wallets)) {
+            orgWallets = o.wallets.map((w) => ethers.getAddress(w));
+        } else if (o.wallets === "rest") {
+            orgWallets = pool.splice(0);
+        } else {
+            orgWallets = pool.splice(0, Number(o.wallets));
+        }
+        return {
+            org: o.org,
+            orgIdHash: normalizeBytes32Id(o.org),
+            role: o.role ? parseRole(o.role) : Role.Operator,
+            wallets: orgWallets,
+        };
+    });
+}
+
 function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -110,10 +207,6 @@ async function runWithConcurrency<T>(
     await Promise.all(promises);
 }
 
-function toBytes32(label: string): string {
-    return ethers.keccak256(ethers.toUtf8Bytes(label));
-}
-
 // ---------- main ----------
 
 async function main() {
@@ -126,23 +219,23 @@ async function main() {
         );
     }
 
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, { required: ["ActorRegistry"] });
+    const actorRegistryAddress = deployment.addresses.ActorRegistry;
+
     console.log("RPC URL:", rpcUrl);
-    console.log("ActorRegistry:", ACTOR_REGISTRY_ADDRESS);
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log("ActorRegistry:", actorRegistryAddress);
     console.log("MIN_BALANCE_ETH:", MIN_BALANCE_ETH);
     console.log("BALANCE_CONCURRENCY:", BALANCE_CONCURRENCY);
     console.log("REGISTER_CONCURRENCY:", REGISTER_CONCURRENCY);
     console.log("");
 
-    const provider = new JsonRpcProvider(rpcUrl);
     const ownerWallet = new Wallet(pk, provider);
     const ownerAddr = await ownerWallet.getAddress();
     console.log("Owner (caller) address:", ownerAddr);
 
-    const actorRegistry = new ethers.Contract(
-        ACTOR_REGISTRY_ADDRESS,
-        (actorRegistryArtifact as any).abi,
-        ownerWallet,
-    );
+    const actorRegistry = new ActorRegistryClient(actorRegistryAddress, ownerWallet);
 
     // Ensure caller is actually the owner
     const onChainOwner: string = await actorRegistry.owner();
@@ -203,35 +296,47 @@ async function main() {
         return;
     }
 
-    // Step 2: filter out already-active actors
+    // Step 2: match funded wallets against the org plan and on-chain state
     console.log(
-        "Step 2: Checking ActorRegistry status for wallets with balance...",
+        "Step 2: Checking ActorRegistry orgs and wallets...",
     );
 
-    const toRegister: { wallet: FaucetWallet; balance: bigint }[] = [];
+    const plans = await planOrgs(wallets);
+    const funded = new Set(walletsWithBalance.map((e) => ethers.getAddress(e.wallet.address)));
+    const unassigned = [...funded].filter((a) => !plans.some((p) => p.wallets.includes(a)));
+    if (unassigned.length > 0) {
+        console.log(`  ${unassigned.length} funded wallets are not assigned to any org (skipped)`);
+    }
 
-    await runWithConcurrency(
-        walletsWithBalance,
-        BALANCE_CONCURRENCY,
-        async (entry, idx) => {
-            const addr = entry.wallet.address;
-            try {
-                const [orgIdHash, , status] = (await actorRegistry.getActor(
-                    addr,
-                )) as [string, bigint, bigint, string];
+    // orgs with at least one funded wallet that still needs linking
+    const pending: { plan: OrgPlan; exists: boolean; wallets: string[] }[] = [];
+    let alreadyLinked = 0;
+    let foreign = 0;
 
-                const hasOrg = orgIdHash !== ethers.ZeroHash;
-                const isActive = Number(status) === 1; // FairtradeTypes.Status.Active
+    for (const plan of plans) {
+        const candidates = plan.wallets.filter((a) => funded.has(a));
+        if (candidates.length === 0) continue;
 
-                if (!hasOrg || !isActive) {
-                    toRegister.push(entry);
-                }
+        const org = await actorRegistry.getActorByOrg(plan.orgIdHash);
+        const exists = org.wallet !== ethers.ZeroAddress;
+        if (exists && org.status !== Status.Active) {
+            console.warn(`  ⚠️  org ${plan.org} is ${STATUS_LABEL[org.status]}; its wallets will not be active`);
+        }
+        if (exists && org.role !== plan.role) {
+            console.warn(`  ⚠️  org ${plan.org} is ${ROLE_LABEL[org.role]} on-chain, config says ${ROLE_LABEL[plan.role]}`);
+        }
 
-                if ((idx + 1) % 100 === 0 || idx === walletsWithBalance.length - 1) {
-                    console.log(
-                        `  ...queried ${idx + 1}/${walletsWithBalance.length}, ` +
-                        `${toRegister.length} need registration`,
-                    );
+        const toLink: string[] = [];
+        await runWithConcurrency(candidates, BALANCE_CONCURRENCY, async (addr) => {
+            try {
+                const { orgIdHash } = await actorRegistry.getActor(addr);
+                if (orgIdHash === ethers.ZeroHash) {
+                    toLink.push(addr);
+                } else if (orgIdHash.toLowerCase() === plan.orgIdHash.toLowerCase()) {
+                    alreadyLinked++;
+                } else {
+                    foreign++;
+                    console.warn(`  ⚠️  ${addr} already belongs to org ${orgIdHash} (skipped)`);
                 }
             } catch (err) {
                 console.warn(
@@ -240,77 +345,96 @@ async function main() {
                     } (will try to register)`,
                 );
                 await sleep(1000);
-                toRegister.push(entry);
+                toLink.push(addr);
             }
-        },
-    );
+        });
+
+        if (toLink.length > 0) {
+            // keep the planned order so the first configured wallet becomes the primary
+            toLink.sort((a, b) => plan.wallets.indexOf(a) - plan.wallets.indexOf(b));
+            pending.push({ plan, exists, wallets: toLink });
+        }
+        console.log(
+            `  ${plan.org}: ${candidates.length} funded, ${toLink.length} to link` +
+            `${exists ? "" : " (new org)"}`,
+        );
+    }
 
+    const toRegister = pending.reduce((a, p) => a + p.wallets.length, 0);
     console.log(
-        `\nWallets needing registration (have funds & not active): ${toRegister.length}\n`,
+        `\nWallets needing registration (have funds & not linked): ${toRegister}\n`,
     );
 
-    if (toRegister.length === 0) {
-        console.log("All funded wallets are already active actors. Done.");
+    if (toRegister === 0) {
+        console.log("All funded wallets are already linked to their orgs. Done.");
         return;
     }
 
-    // Step 3: register (sequential, max 1 RPC; nonce-safe via NonceManager)
+    // Step 3: register / link (sequential, max 1 RPC; nonce-safe via NonceManager)
     console.log(
-        `Step 3: Registering wallets with concurrency=${REGISTER_CONCURRENCY} ...`,
+        `Step 3: Registering orgs and wallets with concurrency=${REGISTER_CONCURRENCY} ...`,
     );
 
     const nonceManager = new NonceManager(ownerWallet);
-    const actorRegistryOwned = actorRegistry.connect(
-        nonceManager as any,
-    ) as ethers.Contract;
+    const actorRegistryOwned = actorRegistry.connect(nonceManager);
 
     let success = 0;
     let failure = 0;
-
-    await runWithConcurrency(
-        toRegister,
-        REGISTER_CONCURRENCY,
-        async (entry, idx) => {
-            const addr = entry.wallet.address;
-            const orgIdHash = toBytes32(`faucet-org-${addr.toLowerCase()}`);
-            const metadataHash = toBytes32(`faucet-meta-${addr.toLowerCase()}`);
-
-            try {
-                const tx = await actorRegistryOwned.registerActor(
-                    orgIdHash,
-                    addr,
-                    ROLE_PRODUCER,
-                    metadataHash,
-                );
-                console.log(
-                    `  → registerActor(${addr}) sent, tx=${tx.hash}, idx=${idx}`,
-                );
-                const receipt = await tx.wait();
-                console.log(
-                    `    ✓ confirmed for ${addr} in block ${receipt?.blockNumber?.toString()}`,
-                );
-                success++;
-            } catch (err) {
-                failure++;
-                console.warn(
-                    `    ✗ registerActor FAILED for ${addr}: ${
-                        (err as any)?.shortMessage ??
-                        (err as any)?.reason ??
-                        (err as any)?.message ??
-                        err
-                    }`,
-                );
-                await sleep(1000);
-            }
-        },
-    );
+    let orgsCreated = 0;
+
+    for (const { plan, exists, wallets: orgWallets } of pending) {
+        let orgExists = exists;
+
+        await runWithConcurrency(
+            orgWallets,
+            REGISTER_CONCURRENCY,
+            async (addr, idx) => {
+                try {
+                    const tx = orgExists
+                        ? await actorRegistryOwned.addOrgWallet(plan.orgIdHash, addr)
+                        : await actorRegistryOwned.registerActor(
+                            plan.orgIdHash,
+                            addr,
+                            plan.role,
+                            toBytes32(`faucet-meta-${plan.org}`),
+                        );
+                    const fn = orgExists ? "addOrgWallet" : "registerActor";
+                    console.log(
+                        `  → ${fn}(${plan.org}, ${addr}) sent, tx=${tx.hash}, idx=${idx}`,
+                    );
+                    const receipt = await tx.wait();
+                    console.log(
+                        `    ✓ confirmed for ${addr} in block ${receipt?.blockNumber?.toString()}`,
+                    );
+                    if (!orgExists) orgsCreated++;
+                    orgExists = true;
+                    success++;
+                } catch (err) {
+                    failure++;
+                    console.warn(
+                        `    ✗ registration FAILED for ${addr}: ${
+                            (err as any)?.shortMessage ??
+                            (err as any)?.reason ??
+                            (err as any)?.message ??
+                            err
+                        }`,
+                    );
+                    await sleep(1000);
+                }
+            },
+        );
+    }
 
     console.log("\n=== Registration summary ===");
     console.log(`Total wallets in JSON:          ${wallets.length}`);
     console.log(
         `Wallets with balance >= ${MIN_BALANCE_ETH}: ${walletsWithBalance.length}`,
     );
-    console.log(`Attempted registrations:        ${toRegister.length}`);
+    console.log(`Orgs in plan:                   ${plans.length}`);
+    console.log(`Orgs created:                   ${orgsCreated}`);
+    console.log(`Already linked wallets:         ${alreadyLinked}`);
+    console.log(`Wallets in another org:         ${foreign}`);
+    console.log(`Attempted registrations:        ${toRegister}`);
     console.log(`Successful registrations:       ${success}`);
     console.log(`Failed registrations:           ${failure}`);
 }
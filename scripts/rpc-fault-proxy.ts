@@ -0,0 +1,84 @@
+// scripts/rpc-fault-proxy.ts
+//
+// Local JSON-RPC proxy in front of a hardhatOp node that injects the errors of
+// the public OP Sepolia endpoints (rate limits, -32011, "replacement
+// transaction underpriced", dropped answers) plus latency, see
+// src/rpc/fault-proxy.ts. The benchmarks and retry paths then run offline,
+// and the same seed gives the same faults:
+//
+//   npx hardhat node --network hardhatOp
+//   RPC_PROXY_RPS=20 RPC_PROXY_LATENCY=normal:120,40 RPC_PROXY_COUNT=3 npx tsx scripts/rpc-fault-proxy.ts
+//   OP_SEPOLIA_PUBLIC_RPCS_JSON='["http://127.0.0.1:8546","http://127.0.0.1:8547","http://127.0.0.1:8548"]' \
+//       OP_SEPOLIA_PRIVATE_KEY=<hardhat account #0> npx tsx scripts/benchmark-op-rpcs.ts
+//
+// Optional env:
+//   RPC_PROXY_UPSTREAM=http://127.0.0.1:8545
+//   RPC_PROXY_PORT=8546              # first proxy; the others take the next ports
+//   RPC_PROXY_HOST=127.0.0.1
+//   RPC_PROXY_COUNT=1                # proxies to start, each one an "endpoint" with seed RPC_PROXY_SEED + i
+//   RPC_PROXY_LATENCY=               # fixed:20 | uniform:10,200 | normal:120,40 | exponential:80 (ms)
+//   RPC_PROXY_RPS=0                  # calls per second per proxy before -32016 (0 = unlimited)
+//   RPC_PROXY_RATE_LIMIT_HTTP=0      # 1 = rate-limit with HTTP 429 instead
+//   RPC_PROXY_BACKEND_DOWN_RATE=0    # 0..1, -32011 "no backend is currently healthy"
+//   RPC_PROXY_UNDERPRICED_RATE=0     # 0..1, eth_sendRawTransaction gets "replacement transaction underpriced"
+//   RPC_PROXY_DROP_RATE=0            # 0..1, forwarded but the answer is dropped
+//   RPC_PROXY_DROP_MODE=reset        # reset | hang
+//   RPC_PROXY_EXEMPT_METHODS=        # comma-separated, e.g. eth_chainId
+//   RPC_PROXY_SEED=1
+//
+// Stats are printed every RPC_PROXY_STATS_EVERY_MS (default 10000, 0 = off)
+// and on shutdown (Ctrl+C).
+
+import "dotenv/config";
+
+import { RpcFaultProxy, rpcFaultProxyOptionsFromEnv } from "../src/index.js";
+
+const COUNT = Number(process.env.RPC_PROXY_COUNT ?? "1");
+const STATS_EVERY_MS = Number(process.env.RPC_PROXY_STATS_EVERY_MS ?? "10000");
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    if (!Number.isInteger(COUNT) || COUNT < 1) throw new Error("RPC_PROXY_COUNT must be a positive integer");
+    const options = rpcFaultProxyOptionsFromEnv();
+
+    const proxies: RpcFaultProxy[] = [];
+    for (let i = 0; i < COUNT; i++) {
+        const proxy = new RpcFaultProxy({
+            ...options,
+            port: options.port ? options.port + i : 0,
+            seed: (options.seed ?? 1) + i,
+        });
+        await proxy.start();
+        proxies.push(proxy);
+    }
+
+    console.log(`RPC fault proxy -> ${options.upstream}`);
+    console.log(
+        `latency=${JSON.stringify(options.latency ?? null)} rps=${options.requestsPerSecond ?? "unlimited"}` +
+        `${options.rateLimitHttp ? " (HTTP 429)" : ""} backendDownRate=${options.backendDownRate} ` +
+        `underpricedRate=${options.underpricedRate} dropRate=${options.dropRate} (${options.dropMode}) seed=${options.seed}`,
+    );
+    console.log(`OP_SEPOLIA_PUBLIC_RPCS_JSON='${JSON.stringify(proxies.map((p) => p.url))}'`);
+
+    const printStats = () => {
+        for (const proxy of proxies) console.log(`stats ${proxy.url}:`, proxy.stats);
+    };
+    const timer = STATS_EVERY_MS > 0 ? setInterval(printStats, STATS_EVERY_MS) : undefined;
+
+    const shutdown = () => {
+        if (timer) clearInterval(timer);
+        console.log("\nShutting down RPC fault proxy...");
+        printStats();
+        Promise.all(proxies.map((p) => p.close())).then(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+    console.error("Fatal error in rpc-fault-proxy:", err);
+    process.exit(1);
+});
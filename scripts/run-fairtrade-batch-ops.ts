@@ -13,67 +13,46 @@
 //   AtRetail : n_AtRetail  = 1
 //   Sold     : n_Sold      = 1
 //
+// Then the same batch is walked through DocumentRegistry and ProcessManager
+// with the batch entry points, one tx each, to report per-item gas:
+//   createProcess(productId)
+//   anchorDocumentBatch(one stage record per CID anchor above, ∑_s n_s docs)
+//   advanceStatusBatch(InTransit, AtRetail, Sold)
+// Set FAIRTRADE_SKIP_LIFECYCLE=1 to only run the CID walkthrough.
+//
 // Usage:
 //   1) Put in .env:
 //        OP_SEPOLIA_RPC_URL=...
 //        OP_SEPOLIA_PRIVATE_KEY=0xa77e00ca1d46c8718c185139e2755f320e729fab38ec0da616818e20c8f2d9f6
-//   2) Ensure op-sepolia-deployments.json exists (from deploy-op-sepolia.ts)
+//   2) Ensure deployments.json has an entry for the RPC's chainId (from deploy-op-sepolia.ts)
 //   3) Run:
 //        npx tsx scripts/run-fairtrade-batch-ops.ts
 
 import "dotenv/config";
-import { JsonRpcProvider, Wallet, ethers } from "ethers";
-import { promises as fs } from "fs";
-import path from "path";
-
-import actorRegistryArtifact from "../artifacts/contracts/ActorRegistry.sol/ActorRegistry.json";
-import cidRollupArtifact from "../artifacts/contracts/CidRollup.sol/CidRollup.json";
+import { NonceManager, Wallet, ethers } from "ethers";
+
+import {
+    ActorRegistryClient,
+    CidRollupClient,
+    DocumentRegistryClient,
+    ProcessManagerClient,
+    ProcessStatus,
+    Role,
+    STEP_LABEL,
+    STEP_ORDER,
+    StepType,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    toBytes32,
+    type CidEvent,
+    type DocumentInput,
+} from "../src/index.js";
 
 // -----------------------------------------------------------------------------
 // Types / enums
 // -----------------------------------------------------------------------------
 
-// Must match FairtradeTypes.StepType in Solidity
-enum StepType {
-    Unknown = 0,
-    Produced = 1,
-    Processed = 2,
-    Shipped = 3,
-    Received = 4,
-    AtRetail = 5,
-    Sold = 6,
-}
-
-type CidEvent = {
-    productId: string;
-    stepId: string;
-    cidHash: string;
-    stepType: number;
-};
-
-type DeploymentMap = { [name: string]: string };
-
-// Step set S and per-step operation counts n_s
-const STEP_ORDER: StepType[] = [
-    StepType.Produced,
-    StepType.Processed,
-    StepType.Shipped,
-    StepType.Received,
-    StepType.AtRetail,
-    StepType.Sold,
-];
-
-const STEP_LABEL: Record<StepType, string> = {
-    [StepType.Unknown]: "Unknown",
-    [StepType.Produced]: "Produced",
-    [StepType.Processed]: "Processed",
-    [StepType.Shipped]: "Shipped",
-    [StepType.Received]: "Received",
-    [StepType.AtRetail]: "AtRetail",
-    [StepType.Sold]: "Sold",
-};
-
-// n_s for each s ∈ S
+// n_s for each s ∈ S (S = STEP_ORDER from the SDK)
 const OPS_PER_STEP: Record<StepType, number> = {
     [StepType.Unknown]: 0,
     [StepType.Produced]: 1,
@@ -84,30 +63,18 @@ const OPS_PER_STEP: Record<StepType, number> = {
     [StepType.Sold]: 1,
 };
 
-// Role = Producer (1) from FairtradeTypes.Role
-const ROLE_PRODUCER = 1;
-
 // Fixed ETH price in USD (for fee reporting)
 const ETH_PRICE_USD = 3047;
 
+const SKIP_LIFECYCLE = process.env.FAIRTRADE_SKIP_LIFECYCLE === "1";
+
 // -----------------------------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------------------------
 
-const DEPLOYMENTS_FILE = path.join(process.cwd(), "op-sepolia-deployments.json");
-
-async function loadDeployments(): Promise<DeploymentMap> {
-    const raw = await fs.readFile(DEPLOYMENTS_FILE, "utf8");
-    return JSON.parse(raw) as DeploymentMap;
-}
-
-function toBytes32(label: string): string {
-    return ethers.keccak256(ethers.toUtf8Bytes(label));
-}
-
 async function ensureRegisteredActor(
-    actorRegistry: ethers.Contract,
-    wallet: Wallet,
+    actorRegistry: ActorRegistryClient,
+    wallet: ethers.Signer,
 ): Promise<void> {
     const addr = await wallet.getAddress();
     const isActive: boolean = await actorRegistry.isActiveActor(addr);
@@ -117,7 +84,9 @@ async function ensureRegisteredActor(
         return;
     }
 
-    console.log(`Actor not active, registering as Producer: ${addr}`);
+    // One wallet walks the batch through every step, which the default CidRollup
+    // permission matrix only allows for the Operator role.
+    console.log(`Actor not active, registering as Operator: ${addr}`);
 
     const orgIdHash = toBytes32(`fairtrade-org-${addr.toLowerCase()}`);
     const metadataHash = toBytes32(`fairtrade-meta-${addr.toLowerCase()}`);
@@ -125,7 +94,7 @@ async function ensureRegisteredActor(
     const tx = await actorRegistry.registerActor(
         orgIdHash,
         addr,
-        ROLE_PRODUCER,
+        Role.Operator,
         metadataHash,
     );
     console.log(`  registerActor tx=${tx.hash}`);
@@ -169,6 +138,25 @@ function getGasPrice(
     );
 }
 
+// Send one tx, wait for it and print gas / fee per item
+async function reportBatchTx(
+    label: string,
+    items: number,
+    send: () => Promise<ethers.ContractTransactionResponse>,
+): Promise<{ gasUsed: bigint; feeWei: bigint }> {
+    const tx = await send();
+    const receipt = await tx.wait();
+    const gasUsed = receipt?.gasUsed ?? 0n;
+    const feeWei = gasUsed * getGasPrice(receipt, tx);
+
+    console.log(
+        `  ${label.padEnd(40)} items=${String(items).padStart(2)} ` +
+        `gasUsed=${gasUsed.toString()} per item=${(gasUsed / BigInt(items)).toString()} ` +
+        `fee=${ethers.formatEther(feeWei)} ETH tx=${tx.hash}`,
+    );
+    return { gasUsed, feeWei };
+}
+
 // -----------------------------------------------------------------------------
 // Main
 // -----------------------------------------------------------------------------
@@ -183,37 +171,29 @@ async function main() {
         );
     }
 
-    const deployments = await loadDeployments();
-    const actorRegistryAddress = deployments["ActorRegistry"];
-    const cidRollupAddress = deployments["CidRollup"];
-
-    if (!actorRegistryAddress || !cidRollupAddress) {
-        throw new Error(
-            "ActorRegistry or CidRollup address missing in op-sepolia-deployments.json",
-        );
-    }
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, {
+        required: SKIP_LIFECYCLE
+            ? ["ActorRegistry", "CidRollup"]
+            : ["ActorRegistry", "CidRollup", "DocumentRegistry", "ProcessManager"],
+    });
+    const actorRegistryAddress = deployment.addresses.ActorRegistry;
+    const cidRollupAddress = deployment.addresses.CidRollup;
 
     console.log("RPC URL:", rpcUrl);
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
     console.log("ActorRegistry:", actorRegistryAddress);
     console.log("CidRollup:", cidRollupAddress);
     console.log("");
 
-    const provider = new JsonRpcProvider(rpcUrl);
-    const wallet = new Wallet(pk, provider);
+    // NonceManager: automining local nodes can report a stale pending nonce
+    const wallet = new NonceManager(new Wallet(pk, provider));
     const sender = await wallet.getAddress();
     console.log("Sender (funder) address:", sender);
     console.log("");
 
-    const actorRegistry = new ethers.Contract(
-        actorRegistryAddress,
-        (actorRegistryArtifact as any).abi,
-        wallet,
-    );
-    const cidRollup = new ethers.Contract(
-        cidRollupAddress,
-        (cidRollupArtifact as any).abi,
-        wallet,
-    );
+    const actorRegistry = new ActorRegistryClient(actorRegistryAddress, wallet);
+    const cidRollup = new CidRollupClient(cidRollupAddress, wallet);
 
     // Ensure the wallet is registered as an active actor
     await ensureRegisteredActor(actorRegistry, wallet);
@@ -224,6 +204,7 @@ async function main() {
     let totalOps = 0;
     let totalGas = 0n;
     let totalFeeWei = 0n;
+    const anchoredEvents: CidEvent[] = [];
 
     console.log("=== Starting FairTrade batch walkthrough ===");
     console.log(`Batch tag: ${batchTag}`);
@@ -241,6 +222,7 @@ async function main() {
         for (let j = 0; j < n_s; j++) {
             const event = buildCidEvent(batchTag, step, j);
             const events: CidEvent[] = [event];
+            anchoredEvents.push(event);
 
             const tx = await cidRollup.submitCidBatch(events);
             console.log(
@@ -302,6 +284,39 @@ async function main() {
             )}`,
         );
     }
+
+    if (SKIP_LIFECYCLE) return;
+
+    // ---- Documents & lifecycle (batch entry points) ----
+    const docRegistry = new DocumentRegistryClient(deployment.addresses.DocumentRegistry, wallet);
+    const processManager = new ProcessManagerClient(deployment.addresses.ProcessManager, wallet);
+    const productId = anchoredEvents[0].productId;
+
+    // DocType 1..6 line up with StepType: one stage record per CID anchor
+    const docs: DocumentInput[] = anchoredEvents.map((e) => ({
+        productId: e.productId,
+        stepId: e.stepId,
+        cidHash: toBytes32(`doc-${batchTag}-${e.stepId}`),
+        docType: e.stepType,
+    }));
+    const statuses = [ProcessStatus.InTransit, ProcessStatus.AtRetail, ProcessStatus.Sold];
+
+    console.log("");
+    console.log("=== Documents & lifecycle (batched) ===");
+    const results = [
+        await reportBatchTx("ProcessManager.createProcess", 1, () => processManager.createProcess(productId)),
+        await reportBatchTx("DocumentRegistry.anchorDocumentBatch", docs.length, () =>
+            docRegistry.anchorDocumentBatch(docs),
+        ),
+        await reportBatchTx("ProcessManager.advanceStatusBatch", statuses.length, () =>
+            processManager.advanceStatusBatch(statuses.map((newStatus) => ({ productId, newStatus }))),
+        ),
+    ];
+
+    const lifecycleGas = results.reduce((acc, r) => acc + r.gasUsed, 0n);
+    const lifecycleFeeWei = results.reduce((acc, r) => acc + r.feeWei, 0n);
+    console.log(`Total gas (docs + lifecycle, 3 txs):  ${lifecycleGas.toString()}`);
+    console.log(`Total fee (docs + lifecycle):         ${ethers.formatEther(lifecycleFeeWei)} ETH`);
 }
 
 main().catch((err) => {
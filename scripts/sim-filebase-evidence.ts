@@ -1,10 +1,35 @@
 // scripts/sim-filebase-evidence.ts
+//
+// Evidence verifiability: upload random payloads through one storage provider
+// (src/storage), fetch them back through one or more providers and check the
+// fetched bytes hash to the returned CID. Uploading via one backend and
+// fetching via others measures cross-provider retrievability and latency in
+// a single report.
+//
+// Providers (see storageProviderFromEnv for their env):
+//   kubo     IPFS RPC /api/v0/add + /api/v0/cat   FILEBASE_IPFS_RPC_ENDPOINT, FILEBASE_IPFS_RPC_AUTH_TYPE=bearer|basic|token
+//   gateway  GET <gateway>/ipfs/<cid> (fetch only) IPFS_GATEWAY_URL
+//   s3       S3-compatible pinning (Filebase)      S3_BUCKET, S3_ENDPOINT, FILEBASE_S3_KEY / FILEBASE_S3_SECRET
+//   local    filesystem CAS                        EVIDENCE_LOCAL_DIR
+//
+//   EVIDENCE_UPLOAD=kubo              # provider to upload with
+//   EVIDENCE_FETCH=kubo,gateway       # providers to fetch with (default: the upload provider)
+//
+// Offline: EVIDENCE_MOCK=1 starts an in-process IpfsMock (src/ipfs-mock.ts)
+// and points kubo and gateway at it, configured by IPFS_MOCK_LATENCY_MS /
+// _JITTER_MS / _ERROR_RATE / _CORRUPTION_RATE / _SEED (see
+// scripts/ipfs-mock-server.ts); IPFS_MOCK_PORT defaults to a free port here.
+//
+// Optional env:
+//   EVIDENCE_REPEATS=10
+//   EVIDENCE_SIZES_KB=10,100,1024,5120
+//   EVIDENCE_OUT=./evidence_results.json
+//   FAIL_FAST=1
 
 import dotenv from "dotenv";
 import path from "path";
 import fs from "fs";
 import { randomBytes } from "crypto";
-import { request } from "undici";
 import { fileURLToPath } from "url";
 
 // --- Force-load .env from repo root (../.env relative to scripts/) ---
@@ -12,8 +37,24 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 dotenv.config({ path: path.resolve(__dirname, "..", ".env") });
 
-// Runtime import; TS types may warn, runtime is fine.
-import { of as ipfsOnlyHashOf } from "ipfs-only-hash";
+import {
+    IpfsMock,
+    cidOf,
+    ipfsMockOptionsFromEnv,
+    parseStorageKind,
+    storageProviderFromEnv,
+    verifyCid,
+    type StorageKind,
+    type StorageProvider,
+} from "../src/index.js";
+
+type Fetch = {
+    via: StorageKind;
+    fetchMs?: number;
+    fetchOk: boolean;
+    cidMatch: boolean;
+    error?: string;
+};
 
 type Trial = {
     idx: number;
@@ -21,53 +62,14 @@ type Trial = {
     cid?: string;
     expectedCid?: string;
     uploadMs?: number;
+    /** First fetch provider, kept flat for older report readers. */
     fetchMs?: number;
     fetchOk?: boolean;
     cidMatch?: boolean;
+    fetches: Fetch[];
     error?: string;
-    authUsed?: string;
 };
 
-function mustEnv(name: string): string {
-    const v = process.env[name];
-    if (!v) throw new Error(`Missing env var: ${name}`);
-    return v;
-}
-
-function getEndpoint(): { endpoint: string; usedKey: string } {
-    const a = process.env.FILEBASE_IPFS_RPC_ENDPOINT?.trim();
-    if (a) return { endpoint: a, usedKey: "FILEBASE_IPFS_RPC_ENDPOINT" };
-
-    const b = process.env.FILEBASE_IPFS_RPC_ENDPOINT?.trim();
-    if (b) return { endpoint: b, usedKey: "FILEBASE_IPFS_RPC_ENDPOINT" };
-
-    throw new Error("Missing env var: FILEBASE_IPFS_RPC_ENDPOINT");
-}
-
-function getAuthHeaderCandidates(): string[] {
-    const t = (process.env.FILEBASE_IPFS_RPC_AUTH_TYPE || "").toLowerCase().trim();
-    if (!t) return [];
-
-    if (t === "bearer") {
-        const token = mustEnv("FILEBASE_IPFS_RPC_TOKEN").trim();
-        return [`Bearer ${token}`];
-    }
-
-    if (t === "basic") {
-        const key = mustEnv("FILEBASE_S3_KEY").trim();
-        const secret = mustEnv("FILEBASE_S3_SECRET").trim();
-        const b64 = Buffer.from(`${key}:${secret}`).toString("base64");
-        return [`Basic ${b64}`];
-    }
-
-    if (t === "token") {
-        const token = mustEnv("FILEBASE_IPFS_RPC_TOKEN").trim();
-        return [`Bearer ${token}`, `Basic ${token}`];
-    }
-
-    throw new Error(`Unsupported FILEBASE_IPFS_RPC_AUTH_TYPE="${t}" (use bearer|basic|token)`);
-}
-
 function percentile(values: number[], p: number): number {
     if (values.length === 0) return NaN;
     const s = [...values].sort((a, b) => a - b);
@@ -75,100 +77,81 @@ function percentile(values: number[], p: number): number {
     return s[idx];
 }
 
-function buildMultipartBody(fileBytes: Buffer) {
-    const boundary = `----ftboundary${randomBytes(8).toString("hex")}`;
-    const head =
-        `--${boundary}\r\n` +
-        `Content-Disposition: form-data; name="file"; filename="evidence.bin"\r\n` +
-        `Content-Type: application/octet-stream\r\n\r\n`;
-    const tail = `\r\n--${boundary}--\r\n`;
-    const body = Buffer.concat([Buffer.from(head, "utf8"), fileBytes, Buffer.from(tail, "utf8")]);
-    return { boundary, body };
+function getSizes(): number[] {
+    // 10KB, 100KB, 1MB, 5MB
+    const raw = process.env.EVIDENCE_SIZES_KB?.trim() || "10,100,1024,5120";
+    const sizes = raw.split(",").map((s) => Number(s.trim()));
+    if (sizes.some((kb) => !Number.isInteger(kb) || kb <= 0)) {
+        throw new Error(`EVIDENCE_SIZES_KB must be positive integers, got "${raw}"`);
+    }
+    return sizes.map((kb) => kb * 1024);
 }
 
-async function ipfsAdd(endpoint: string, authHeader: string | undefined, bytes: Buffer) {
-    const { boundary, body } = buildMultipartBody(bytes);
-    const url = new URL("/api/v0/add", endpoint);
-
-    // Match Filebase/go-ipfs defaults more closely
-    url.searchParams.set("pin", "true");
-    url.searchParams.set("cid-version", "1");
-    url.searchParams.set("raw-leaves", "true"); // IMPORTANT
-
+async function fetchAndVerify(provider: StorageProvider, cid: string): Promise<Fetch> {
     const t0 = Date.now();
-    const res = await request(url.toString(), {
-        method: "POST",
-        headers: {
-            ...(authHeader ? { Authorization: authHeader } : {}),
-            "Content-Type": `multipart/form-data; boundary=${boundary}`,
-        },
-        body,
-    });
-    const uploadMs = Date.now() - t0;
-
-    const text = await res.body.text();
-    if (res.statusCode < 200 || res.statusCode >= 300) {
-        throw new Error(`IPFS add failed ${res.statusCode}: ${text.slice(0, 600)}`);
-    }
-
-    const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
-    const last = lines[lines.length - 1];
-
-    let parsed: any;
     try {
-        parsed = JSON.parse(last);
-    } catch {
-        throw new Error(`IPFS add returned non-JSON: ${last.slice(0, 300)}`);
+        const fetched = await provider.get(cid);
+        const f: Fetch = { via: provider.kind, fetchMs: Date.now() - t0, fetchOk: true, cidMatch: false };
+        f.cidMatch = await verifyCid(fetched, cid);
+        if (!f.cidMatch) {
+            f.error = `CID mismatch: fetched->${await cidOf(fetched)} but anchored ${cid}`;
+        }
+        return f;
+    } catch (e: any) {
+        return { via: provider.kind, fetchOk: false, cidMatch: false, error: String(e?.message ?? e) };
     }
-
-    const cid = parsed.Hash as string | undefined;
-    if (!cid) throw new Error(`IPFS add response missing Hash: ${last.slice(0, 300)}`);
-
-    return { cid, uploadMs };
 }
 
-async function ipfsCat(endpoint: string, authHeader: string | undefined, cid: string) {
-    const url = new URL("/api/v0/cat", endpoint);
-    url.searchParams.set("arg", cid);
+function rates(fetches: Fetch[], total: number) {
+    const ok = fetches.filter((f) => f.fetchOk);
+    const match = fetches.filter((f) => f.cidMatch).length;
+    const lat = ok.map((f) => f.fetchMs).filter((x): x is number => typeof x === "number");
+    return {
+        fetch_success: ok.length,
+        cid_match_success: match,
+        retrievability_rate: ok.length / total,
+        cid_match_rate: match / Math.max(1, ok.length),
+        fetch_latency_ms: { p50: percentile(lat, 50), p95: percentile(lat, 95) },
+    };
+}
 
-    const t0 = Date.now();
-    const res = await request(url.toString(), {
-        method: "POST",
-        headers: {
-            ...(authHeader ? { Authorization: authHeader } : {}),
-        },
-    });
-    const fetchMs = Date.now() - t0;
-
-    if (res.statusCode < 200 || res.statusCode >= 300) {
-        const text = await res.body.text();
-        throw new Error(`IPFS cat failed ${res.statusCode}: ${text.slice(0, 600)}`);
+async function run() {
+    const useMock = (process.env.EVIDENCE_MOCK ?? "0") === "1";
+    let mock: IpfsMock | undefined;
+    const env = { ...process.env };
+    if (useMock) {
+        mock = new IpfsMock({ ...ipfsMockOptionsFromEnv(), port: Number(process.env.IPFS_MOCK_PORT ?? "0") });
+        await mock.start();
+        env.FILEBASE_IPFS_RPC_ENDPOINT = mock.url;
+        env.FILEBASE_IPFS_RPC_AUTH_TYPE = "";
+        env.IPFS_GATEWAY_URL = mock.url;
     }
 
-    const chunks: Buffer[] = [];
-    for await (const chunk of res.body) chunks.push(Buffer.from(chunk));
-    return { bytes: Buffer.concat(chunks), fetchMs };
-}
+    const uploadKind = parseStorageKind(process.env.EVIDENCE_UPLOAD || "kubo");
+    if (uploadKind === "gateway") throw new Error("EVIDENCE_UPLOAD=gateway: gateways are fetch-only");
+    const fetchKinds = [...new Set((process.env.EVIDENCE_FETCH || uploadKind).split(",").map(parseStorageKind))];
+
+    // the upload provider is reused for fetching so s3/kubo keep their state (auth, keys)
+    const uploader = storageProviderFromEnv(uploadKind, env);
+    const fetchers = fetchKinds.map((k) => (k === uploadKind ? uploader : storageProviderFromEnv(k, env)));
 
-async function run() {
-    const { endpoint, usedKey } = getEndpoint();
-    const authCandidates = getAuthHeaderCandidates();
     const repeats = Number(process.env.EVIDENCE_REPEATS ?? "10");
     const failFast = (process.env.FAIL_FAST ?? "0") === "1";
 
-    const outPath = path.resolve(__dirname, "..", "evidence_results.json");
+    const outPath = path.resolve(process.env.EVIDENCE_OUT ?? path.resolve(__dirname, "..", "evidence_results.json"));
 
-    const sizes = [
-        10 * 1024,        // 10KB
-        100 * 1024,       // 100KB
-        1 * 1024 * 1024,  // 1MB
-        5 * 1024 * 1024,  // 5MB
-    ];
+    const sizes = getSizes();
 
     console.log(`Loaded .env from: ${path.resolve(__dirname, "..", ".env")}`);
-    console.log(`Using endpoint from ${usedKey}: ${endpoint}`);
-    console.log(`Auth mode: ${process.env.FILEBASE_IPFS_RPC_AUTH_TYPE || "(none)"}`);
-    console.log(`Auth candidates: ${authCandidates.length} (will try in order)`);
+    console.log(`Upload via: ${uploader.kind} (${uploader.target})`);
+    for (const f of fetchers) console.log(`Fetch via:  ${f.kind} (${f.target})`);
+    if (mock) {
+        const o = mock.options;
+        console.log(
+            `Mock faults: latency=${o.latencyMs}ms jitter=${o.jitterMs}ms errorRate=${o.errorRate} ` +
+            `corruptionRate=${o.corruptionRate} seed=${o.seed}`
+        );
+    }
     console.log(`Repeats per size: ${repeats}`);
     console.log(`Total trials: ${sizes.length * repeats}`);
     console.log(`FAIL_FAST: ${failFast ? "ON" : "OFF"}\n`);
@@ -178,49 +161,28 @@ async function run() {
 
     for (const sizeBytes of sizes) {
         for (let r = 0; r < repeats; r++) {
-            const t: Trial = { idx: idx++, sizeBytes };
+            const t: Trial = { idx: idx++, sizeBytes, fetches: [] };
             try {
                 const payload = randomBytes(sizeBytes);
 
                 // IMPORTANT: match Filebase add settings (rawLeaves + CIDv1)
-                t.expectedCid = await ipfsOnlyHashOf(payload, { cidVersion: 1, rawLeaves: true });
-
-                let lastErr: any = null;
-                let cid: string | undefined;
-                let uploadMs: number | undefined;
-                let authUsed: string | undefined;
-
-                const candidatesToTry = authCandidates.length ? authCandidates : [undefined as any];
-
-                for (const auth of candidatesToTry) {
-                    try {
-                        const res = await ipfsAdd(endpoint, auth, payload);
-                        cid = res.cid;
-                        uploadMs = res.uploadMs;
-                        authUsed = auth;
-                        lastErr = null;
-                        break;
-                    } catch (e: any) {
-                        lastErr = e;
-                    }
-                }
-
-                if (!cid) throw lastErr ?? new Error("IPFS add failed for all auth candidates");
+                t.expectedCid = await cidOf(payload);
 
+                const t0 = Date.now();
+                const { cid } = await uploader.put(payload);
+                t.uploadMs = Date.now() - t0;
                 t.cid = cid;
-                t.uploadMs = uploadMs;
-                t.authUsed = authUsed;
 
-                const { bytes: fetched, fetchMs } = await ipfsCat(endpoint, authUsed, cid);
-                t.fetchOk = true;
-                t.fetchMs = fetchMs;
+                for (const fetcher of fetchers) t.fetches.push(await fetchAndVerify(fetcher, cid));
+                const first = t.fetches[0];
+                t.fetchOk = first.fetchOk;
+                t.fetchMs = first.fetchMs;
+                t.cidMatch = first.cidMatch;
 
-                // Recompute expected CID from fetched bytes using same settings
-                const fetchedCid = await ipfsOnlyHashOf(fetched, { cidVersion: 1, rawLeaves: true });
-                t.cidMatch = fetchedCid === cid;
-
-                if (!t.cidMatch) {
-                    t.error = `CID mismatch: fetched->${fetchedCid} but anchored ${cid}`;
+                const failed = t.fetches.filter((f) => f.error);
+                if (failed.length) {
+                    t.error = failed.map((f) => `${f.via}: ${f.error}`).join("; ");
+                    if (!first.fetchOk) throw new Error(t.error);
                 }
             } catch (e: any) {
                 t.fetchOk = false;
@@ -240,9 +202,12 @@ async function run() {
             trials.push(t);
 
             const shortCid = t.cid ? `${t.cid.slice(0, 8)}...${t.cid.slice(-6)}` : "FAIL";
+            const perFetcher = t.fetches
+                .map((f) => `${f.via}=${f.fetchMs ?? "-"}ms/${f.fetchOk ? "Y" : "N"}${f.cidMatch ? "Y" : "N"}`)
+                .join(" ");
             console.log(
                 `[${t.idx}] size=${(t.sizeBytes / 1024).toFixed(0)}KB cid=${shortCid} ` +
-                `up=${t.uploadMs ?? "-"}ms fetch=${t.fetchMs ?? "-"}ms ok=${t.fetchOk ? "Y" : "N"} match=${t.cidMatch ? "Y" : "N"}`
+                `up=${t.uploadMs ?? "-"}ms fetch(ok,match) ${perFetcher || "-"}`
             );
 
             await new Promise((res) => setTimeout(res, 150));
@@ -251,11 +216,8 @@ async function run() {
 
     const M = trials.length;
     const uploadSuccess = trials.filter((t) => !!t.cid).length;
-    const fetchSuccess = trials.filter((t) => t.fetchOk).length;
-    const matchSuccess = trials.filter((t) => t.cidMatch).length;
-
     const uploadLat = trials.map((t) => t.uploadMs).filter((x): x is number => typeof x === "number");
-    const fetchLat = trials.map((t) => t.fetchMs).filter((x): x is number => typeof x === "number");
+    const primary = rates(trials.map((t) => t.fetches[0]).filter((f): f is Fetch => !!f), M);
 
     const failures = trials
         .filter((t) => t.error)
@@ -263,18 +225,25 @@ async function run() {
 
     const summary = {
         run_id: new Date().toISOString(),
-        endpoint,
+        endpoint: mock ? "ipfs-mock" : uploader.target,
+        upload_provider: uploader.kind,
+        fetch_providers: fetchers.map((f) => f.kind),
         objects_total: M,
         upload_success: uploadSuccess,
-        fetch_success: fetchSuccess,
-        cid_match_success: matchSuccess,
-        retrievability_rate: fetchSuccess / M,
-        cid_match_rate: matchSuccess / Math.max(1, fetchSuccess),
+        fetch_success: primary.fetch_success,
+        cid_match_success: primary.cid_match_success,
+        retrievability_rate: primary.retrievability_rate,
+        cid_match_rate: primary.cid_match_rate,
         upload_latency_ms: { p50: percentile(uploadLat, 50), p95: percentile(uploadLat, 95) },
-        fetch_latency_ms: { p50: percentile(fetchLat, 50), p95: percentile(fetchLat, 95) },
+        fetch_latency_ms: primary.fetch_latency_ms,
         failure_count: failures.length,
+        by_fetch_provider: Object.fromEntries(
+            fetchers.map((f, i) => [f.kind, rates(trials.map((t) => t.fetches[i]).filter((x): x is Fetch => !!x), M)]),
+        ),
+        ...(mock ? { mock: { options: mock.options, stats: mock.stats } } : {}),
     };
 
+    await mock?.close();
     fs.writeFileSync(outPath, JSON.stringify({ summary, trials, failures }, null, 2));
     console.log(`\nWrote ${outPath}\n`);
     console.log(summary);
@@ -283,4 +252,4 @@ async function run() {
 run().catch((err) => {
     console.error(err);
     process.exit(1);
-});
\ No newline at end of file
+});
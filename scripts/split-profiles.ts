@@ -0,0 +1,214 @@
+// scripts/split-profiles.ts
+//
+// Manage PaymentRouter split profiles (per-product / per-certification premium
+// splits) and preview payouts before any payment is sent.
+//
+// Usage:
+//   npx tsx scripts/split-profiles.ts show [profile]
+//   npx tsx scripts/split-profiles.ts product <productId>
+//   npx tsx scripts/split-profiles.ts preview <profiles.json|profiles.csv> <amount> [--decimals=18]
+//   npx tsx scripts/split-profiles.ts preview-product <productId> <amount> [--decimals=18]
+//   npx tsx scripts/split-profiles.ts apply <profiles.json|profiles.csv>
+//
+// Profiles, products: labels (hashed with toBytes32) or bytes32 ids.
+// File formats: see src/split-profiles.ts (JSON { profiles: [...] } or CSV
+// with a profile,recipient,bps[,products] header; products separated by ";").
+//
+// `show` without a profile prints the router's default splits, which apply to
+// every product not bound to a profile. `preview` is offline; `preview-product`
+// reads the splits the product would be paid with right now. <amount> is a
+// decimal number of tokens (18 decimals = ETH unless --decimals is given).
+//
+// `apply` creates missing profiles, updates profiles whose splits changed, and
+// binds the listed products. It must be signed by an active Operator or
+// Certifier.
+//
+// Required .env:
+//   OP_SEPOLIA_RPC_URL=...        # all commands except preview
+//   OP_SEPOLIA_PRIVATE_KEY=...    # apply
+
+import "dotenv/config";
+import { promises as fs } from "fs";
+import { NonceManager, Wallet, ethers } from "ethers";
+
+import {
+    ActorRegistryClient,
+    PaymentRouterClient,
+    ROLE_LABEL,
+    Role,
+    Status,
+    normalizeBytes32Id,
+    parseSplitProfiles,
+    previewPayout,
+    resolveDeployment,
+    rpcProviderFromEnv,
+    sameSplits,
+    splitProfileFormat,
+    validateSplits,
+    type Split,
+    type SplitProfileSpec,
+} from "../src/index.js";
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function printSplits(splits: Split[]): void {
+    const total = splits.reduce((a, s) => a + s.bps, 0);
+    for (const s of splits) {
+        console.log(`  ${s.recipient}  ${String(s.bps).padStart(5)} bps  (${(s.bps / 100).toFixed(2)}%)`);
+    }
+    console.log(`  total ${total} bps, ${10_000 - total} bps unassigned`);
+}
+
+function printPreview(splits: Split[], amount: bigint, decimals: number): void {
+    const preview = previewPayout(splits, amount);
+    const fmt = (v: bigint) => ethers.formatUnits(v, decimals);
+    for (const r of preview.rows) {
+        console.log(`  ${r.recipient}  ${String(r.bps).padStart(5)} bps  -> ${fmt(r.share)}`);
+    }
+    console.log(`  distributed ${fmt(preview.distributed)}, remainder ${fmt(preview.remainder)} (stays in the router)`);
+}
+
+async function loadProfiles(file: string): Promise<SplitProfileSpec[]> {
+    const specs = parseSplitProfiles(await fs.readFile(file, "utf8"), splitProfileFormat(file));
+    let invalid = false;
+    for (const spec of specs) {
+        for (const issue of validateSplits(spec.splits)) {
+            console.error(`Profile ${spec.profile}: ${issue}`);
+            invalid = true;
+        }
+    }
+    if (invalid) throw new Error(`${file} has invalid profiles`);
+    return specs;
+}
+
+function parseDecimals(flags: string[]): number {
+    const flag = flags.find((f) => f.startsWith("--decimals="));
+    const decimals = flag ? Number(flag.slice("--decimals=".length)) : 18;
+    if (!Number.isInteger(decimals) || decimals < 0) throw new Error(`Invalid ${flag}`);
+    return decimals;
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const [command = "show", ...rest] = process.argv.slice(2);
+    const flags = rest.filter((a) => a.startsWith("--"));
+    const args = rest.filter((a) => !a.startsWith("--"));
+    const decimals = parseDecimals(flags);
+
+    if (command === "preview") {
+        const [file, amountArg] = args;
+        if (!file || !amountArg) throw new Error("Usage: preview <profiles.json|profiles.csv> <amount>");
+        const amount = ethers.parseUnits(amountArg, decimals);
+        for (const spec of await loadProfiles(file)) {
+            console.log(`\nProfile ${spec.profile} (${spec.profileId})`);
+            if (spec.products.length > 0) console.log(`  products: ${spec.products.join(", ")}`);
+            printPreview(spec.splits, amount, decimals);
+        }
+        return;
+    }
+
+    const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+    if (!rpcUrl) throw new Error("Missing OP_SEPOLIA_RPC_URL in .env");
+    const provider = rpcProviderFromEnv();
+    const deployment = await resolveDeployment(provider, { required: ["ActorRegistry", "PaymentRouter"] });
+    let router = new PaymentRouterClient(deployment.addresses.PaymentRouter, provider);
+
+    console.log(`Network: ${deployment.network} (chainId ${deployment.chainId})`);
+    console.log(`PaymentRouter: ${router.address}`);
+
+    if (command === "show") {
+        const [profile] = args;
+        if (!profile) {
+            console.log("\nDefault splits (products without a profile):");
+            printSplits(await router.getSplits());
+            return;
+        }
+        const profileId = normalizeBytes32Id(profile);
+        const splits = await router.getProfileSplits(profileId);
+        if (splits.length === 0) throw new Error(`Profile ${profile} (${profileId}) does not exist`);
+        console.log(`\nProfile ${profile} (${profileId}):`);
+        printSplits(splits);
+        return;
+    }
+
+    if (command === "product" || command === "preview-product") {
+        const [product, amountArg] = args;
+        if (!product || (command === "preview-product" && !amountArg)) {
+            throw new Error(`Usage: ${command} <productId>${command === "preview-product" ? " <amount>" : ""}`);
+        }
+        const productId = normalizeBytes32Id(product);
+        const profileId = await router.productProfile(productId);
+        const splits = await router.splitsFor(productId);
+
+        console.log(`\nProduct ${product} (${productId})`);
+        console.log(`  profile: ${profileId === ethers.ZeroHash ? "none (default splits)" : profileId}`);
+        if (command === "product") {
+            printSplits(splits);
+        } else {
+            printPreview(splits, ethers.parseUnits(amountArg, decimals), decimals);
+        }
+        return;
+    }
+
+    if (command !== "apply") {
+        throw new Error(`Unknown command: ${command} (expected show, product, preview, preview-product or apply)`);
+    }
+
+    // ---- apply ----
+    const [file] = args;
+    if (!file) throw new Error("Usage: apply <profiles.json|profiles.csv>");
+    const pk = process.env.OP_SEPOLIA_PRIVATE_KEY?.trim();
+    if (!pk) throw new Error("Missing OP_SEPOLIA_PRIVATE_KEY in .env");
+    const specs = await loadProfiles(file);
+
+    // NonceManager: automining local nodes can report a stale pending nonce
+    const wallet = new NonceManager(new Wallet(pk, provider));
+    const sender = await wallet.getAddress();
+    const actor = await new ActorRegistryClient(deployment.addresses.ActorRegistry, provider).getActor(sender);
+    if (actor.status !== Status.Active || (actor.role !== Role.Operator && actor.role !== Role.Certifier)) {
+        throw new Error(
+            `Sender ${sender} is ${ROLE_LABEL[actor.role]}; only an active Operator or Certifier can manage profiles`,
+        );
+    }
+    console.log(`Sender: ${sender} (${ROLE_LABEL[actor.role]})`);
+    router = router.connect(wallet);
+
+    for (const spec of specs) {
+        console.log(`\nProfile ${spec.profile} (${spec.profileId})`);
+        const current = await router.getProfileSplits(spec.profileId);
+
+        if (current.length === 0) {
+            const tx = await router.createSplitProfile(spec.profileId, spec.splits);
+            console.log(`  createSplitProfile (${spec.splits.length} splits) tx=${tx.hash}`);
+            await tx.wait();
+        } else if (!sameSplits(current, spec.splits)) {
+            const tx = await router.updateSplitProfile(spec.profileId, spec.splits);
+            console.log(`  updateSplitProfile (${current.length} -> ${spec.splits.length} splits) tx=${tx.hash}`);
+            await tx.wait();
+        } else {
+            console.log("  splits unchanged");
+        }
+
+        for (const product of spec.products) {
+            const productId = normalizeBytes32Id(product);
+            if ((await router.productProfile(productId)).toLowerCase() === spec.profileId) {
+                console.log(`  ${product}: already bound`);
+                continue;
+            }
+            const tx = await router.setProductProfile(productId, spec.profileId);
+            console.log(`  setProductProfile ${product} tx=${tx.hash}`);
+            await tx.wait();
+        }
+    }
+    console.log("\nDone.");
+}
+
+main().catch((err) => {
+    console.error("Fatal error in split-profiles:", err);
+    process.exit(1);
+});
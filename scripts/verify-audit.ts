@@ -0,0 +1,138 @@
+// scripts/verify-audit.ts
+//
+// Verify a signed audit report written by scripts/reconstruct-audit-from-logs.ts
+// --sign (src/audit/attestation.ts):
+// - the report's { summary, events } still hash to the digest the attestation signs;
+// - the EIP-712 / EIP-191 signature recovers to the attestation's auditor (and to
+//   --auditor, when given);
+// - the attestation's DocumentRegistry anchor (DocType.AuditAttestation) is on chain,
+//   from the auditor, for every product, with the digest of the attestation document;
+// - the events re-derived from chain (eth_getLogs from the deploy blocks up to the
+//   report's head block) match the reported ones, and none of its selection is left out.
+//
+// Usage:
+//   npx tsx scripts/verify-audit.ts <report.json> [--attestation=<file>] [--auditor=<address>]
+//                                   [--require-anchor] [--offline] [--from-block=<n>] [--chunk=<n>] [--json]
+//
+// --attestation   a detached attestation (or another report carrying it) instead of report.attestation
+// --offline       digest and signature only (no RPC)
+// --from-block    where the re-derivation scans from (default: the lowest deploy block in deployments.json)
+// --json          print the verification as JSON
+//
+// Exits with code 1 when the report does not verify.
+//
+// Env:
+//   OP_SEPOLIA_RPC_URL=...          # unless --offline; must be the report's chain
+//   (+ deployments.json / address overrides when the report has no chain.addresses)
+
+import "dotenv/config";
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+    loadDeploymentRegistry,
+    parseAuditReport,
+    resolveFromRegistry,
+    rpcProviderFromEnv,
+    verifyAuditAttestation,
+    type AuditAttestation,
+    type ContractName,
+    type FailoverProvider,
+} from "../src/index.js";
+
+/** The contracts whose product events the reconstruction decodes. */
+const RECONSTRUCTED: readonly ContractName[] = ["CidRollup", "DocumentRegistry", "ProcessManager", "PaymentRouter"];
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function flag(flags: string[], name: string): string | undefined {
+    const hit = flags.find((f) => f === `--${name}` || f.startsWith(`--${name}=`));
+    if (!hit) return undefined;
+    return hit.includes("=") ? hit.slice(hit.indexOf("=") + 1) : "";
+}
+
+async function readAttestation(file: string): Promise<AuditAttestation> {
+    const raw = JSON.parse(await fs.readFile(path.resolve(file), "utf8"));
+    return raw.attestation ?? raw;
+}
+
+// -----------------------------------------------------------------------------
+// Main
+// -----------------------------------------------------------------------------
+
+async function main() {
+    const argv = process.argv.slice(2);
+    const flags = argv.filter((a) => a.startsWith("--"));
+    const [input] = argv.filter((a) => !a.startsWith("--"));
+    if (!input) throw new Error("Usage: verify-audit.ts <report.json> [--attestation=<file>] [--auditor=<address>] [--offline] ...");
+
+    const file = path.resolve(input);
+    const report = parseAuditReport(await fs.readFile(file, "utf8"));
+    const attestationFile = flag(flags, "attestation");
+    const attestation = attestationFile ? await readAttestation(attestationFile) : undefined;
+    const offline = flag(flags, "offline") !== undefined;
+
+    let provider: FailoverProvider | undefined;
+    let addresses: Partial<Record<ContractName, string>> | undefined;
+    let fromBlock = flag(flags, "from-block") ? Number(flag(flags, "from-block")) : undefined;
+    if (!offline) {
+        const rpcUrl = process.env.OP_SEPOLIA_RPC_URL;
+        if (!rpcUrl) throw new Error("Missing env var: OP_SEPOLIA_RPC_URL (or pass --offline)");
+        provider = rpcProviderFromEnv();
+        const { chainId } = await provider.getNetwork();
+        const deployment = resolveFromRegistry(await loadDeploymentRegistry(), chainId, process.env, []);
+        const reported = (report.summary.chain?.addresses ?? deployment.addresses) as Partial<Record<ContractName, string>>;
+        addresses = Object.fromEntries(RECONSTRUCTED.filter((n) => reported[n]).map((n) => [n, reported[n]]));
+        fromBlock ??= deployment.fromBlock;
+    }
+
+    console.log(`Report: ${file} (${report.events.length} event(s))`);
+    if (provider && fromBlock !== undefined) {
+        console.log(`Re-deriving events from block ${fromBlock} to ${report.summary.chain?.headBlock ?? "the last reported block"}...`);
+    }
+    const result = await verifyAuditAttestation(report, {
+        attestation,
+        auditor: flag(flags, "auditor") || undefined,
+        provider,
+        requireAnchor: flag(flags, "require-anchor") !== undefined,
+        addresses,
+        fromBlock,
+        chunkSize: flag(flags, "chunk") ? Number(flag(flags, "chunk")) : undefined,
+    });
+    provider?.destroy();
+
+    if (flag(flags, "json") !== undefined) {
+        console.log(JSON.stringify(result, (_k, v) => (typeof v === "bigint" ? v.toString() : v), 2));
+    } else {
+        const a = result.attestation;
+        console.log(`Digest:    ${result.digest}${a ? (a.reportDigest.toLowerCase() === result.digest ? " (signed)" : ` (attestation signs ${a.reportDigest})`) : ""}`);
+        if (a) {
+            console.log(`Signature: ${a.scheme} by ${a.auditor}, recovers to ${result.signer ?? "?"}`);
+            console.log(`Issued:    ${new Date(a.issuedAt * 1000).toISOString()} on chain ${a.chainId} for ${a.productIds.length} product(s)`);
+        }
+        if (result.anchored !== undefined) console.log(`Anchor:    ${result.anchored ? `ok (tx ${a?.anchor?.txHash})` : "FAILED"}`);
+        else if (a && !a.anchor) console.log("Anchor:    none");
+        if (result.events) {
+            const e = result.events;
+            console.log(
+                `Events:    ${e.matched}/${e.checked} match the chain (blocks ${e.fromBlock}..${e.toBlock}); ` +
+                `altered ${e.altered.length}, omitted ${e.omitted.length}`,
+            );
+        } else if (offline) {
+            console.log("Events:    not re-derived (--offline)");
+        }
+        if (result.issues.length) {
+            console.log(`\nIssues (${result.issues.length}):`);
+            for (const issue of result.issues) console.log(`  ${issue}`);
+        }
+    }
+    console.log(`\n${result.valid ? "VERIFIED" : "NOT VERIFIED"}`);
+    if (!result.valid) process.exitCode = 1;
+}
+
+main().catch((err) => {
+    console.error("Fatal error in verify-audit:", err);
+    process.exit(1);
+});
@@ -0,0 +1,144 @@
+// src/abi.ts
+//
+// Human-readable ABIs for the five FairTrade contracts, plus the ERC-20 subset
+// PaymentRouter needs (also implemented by contracts/mocks/MockERC20.sol).
+//
+// These are the single copy of the contract interfaces used by the SDK and the
+// scripts. Solidity enums (FairtradeTypes.*) are encoded as uint8 in the ABI.
+// Keep them in sync with contracts/*.sol whenever a signature changes.
+
+export const ACTOR_REGISTRY_ABI = [
+    "function owner() view returns (address)",
+    "function transferOwnership(address newOwner)",
+    "function registerActor(bytes32 orgIdHash, address wallet, uint8 role, bytes32 metadataHash)",
+    "function updateActorRole(bytes32 orgIdHash, uint8 newRole)",
+    "function updateActorStatus(bytes32 orgIdHash, uint8 newStatus)",
+    "function updateActorMetadata(bytes32 orgIdHash, bytes32 newMetadataHash)",
+    "function getActor(address wallet) view returns (bytes32 orgIdHash, uint8 role, uint8 status, bytes32 metadataHash)",
+    "function getActorByOrg(bytes32 orgIdHash) view returns (address wallet, uint8 role, uint8 status, bytes32 metadataHash)",
+    "function hasRole(address wallet, uint8 role) view returns (bool)",
+    "function isActiveActor(address wallet) view returns (bool)",
+    "function getOrgWallets(bytes32 orgIdHash) view returns (address[])",
+    "function addOrgWallet(bytes32 orgIdHash, address wallet)",
+    "function removeOrgWallet(bytes32 orgIdHash, address wallet)",
+    "function rotateOrgWallet(bytes32 orgIdHash, address oldWallet, address newWallet)",
+    "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+    "event ActorRegistered(bytes32 indexed orgIdHash, address indexed wallet, uint8 role, bytes32 metadataHash)",
+    "event ActorUpdated(bytes32 indexed orgIdHash, address indexed wallet, uint8 role, uint8 status, bytes32 metadataHash)",
+    "event ActorStatusUpdated(bytes32 indexed orgIdHash, uint8 status)",
+    "event ActorMetadataUpdated(bytes32 indexed orgIdHash, bytes32 metadataHash)",
+    "event OrgWalletAdded(bytes32 indexed orgIdHash, address indexed wallet)",
+    "event OrgWalletRemoved(bytes32 indexed orgIdHash, address indexed wallet)",
+    "event OrgWalletRotated(bytes32 indexed orgIdHash, address indexed oldWallet, address indexed newWallet)",
+] as const;
+
+export const DOCUMENT_REGISTRY_ABI = [
+    "function actorRegistry() view returns (address)",
+    "function docPermissions(uint8 role) view returns (uint256)",
+    "function isDocAllowed(uint8 role, uint8 docType) view returns (bool)",
+    "function setDocPermission(uint8 role, uint8 docType, bool allowed)",
+    "function anchorDocument(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 docType)",
+    "function anchorDocumentBatch(tuple(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 docType)[] docs)",
+    "event DocPermissionSet(uint8 indexed role, uint8 indexed docType, bool allowed)",
+    "event DocumentAnchored(bytes32 indexed productId, bytes32 indexed stepId, bytes32 cidHash, uint8 docType, bytes32 indexed orgIdHash, address actor)",
+] as const;
+
+export const PROCESS_MANAGER_ABI = [
+    "function actorRegistry() view returns (address)",
+    "function createProcess(bytes32 productId)",
+    "function createProcessBatch(bytes32[] productIds)",
+    "function advanceStatus(bytes32 productId, uint8 newStatus)",
+    "function advanceStatusBatch(tuple(bytes32 productId, uint8 newStatus)[] updates)",
+    "function getStatus(bytes32 productId) view returns (uint8)",
+    "function getProcess(bytes32 productId) view returns (uint8 status, bytes32 creatorOrgId)",
+    "function transitionRoles(uint8 from, uint8 to) view returns (uint256)",
+    "function isTransitionAllowed(uint8 from, uint8 to, uint8 role) view returns (bool)",
+    "function setTransition(uint8 from, uint8 to, uint256 roleMask)",
+    "event ProcessCreated(bytes32 indexed productId, bytes32 indexed orgIdHash)",
+    "event ProcessStatusChanged(bytes32 indexed productId, uint8 previousStatus, uint8 newStatus, bytes32 indexed orgIdHash, address actor)",
+    "event TransitionSet(uint8 indexed from, uint8 indexed to, uint256 roleMask)",
+] as const;
+
+export const CID_ROLLUP_ABI = [
+    "function actorRegistry() view returns (address)",
+    "function usedStepKey(bytes32 key) view returns (bool)",
+    "function stepPermissions(uint8 role) view returns (uint256)",
+    "function isStepAllowed(uint8 role, uint8 stepType) view returns (bool)",
+    "function setStepPermission(uint8 role, uint8 stepType, bool allowed)",
+    "function submitCidBatch(tuple(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 stepType)[] events)",
+    "function nonces(address signer) view returns (uint256)",
+    "function domainSeparator() view returns (bytes32)",
+    "function hashCidBatch(address signer, tuple(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 stepType)[] events, uint256 nonce, uint256 deadline) view returns (bytes32)",
+    "function submitCidBatchFor(address signer, tuple(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 stepType)[] events, uint256 nonce, uint256 deadline, bytes signature)",
+    "function rootAnchors(bytes32 root) view returns (address actor, uint64 blockNumber, uint32 leafCount, uint256 stepTypeMask)",
+    "function submitCidRoot(bytes32 root, uint32 leafCount, uint256 stepTypeMask)",
+    "function cidLeafHash(tuple(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 stepType) e) pure returns (bytes32)",
+    "function verifyCidInclusion(tuple(bytes32 productId, bytes32 stepId, bytes32 cidHash, uint8 stepType) e, bytes32 root, bytes32[] proof) view returns (bool)",
+    "event CidAnchored(bytes32 indexed productId, bytes32 indexed stepId, bytes32 cidHash, uint8 stepType, bytes32 indexed orgIdHash, address actor)",
+    "event CidBatchSubmitted(address indexed submitter, uint256 count)",
+    "event CidBatchRelayed(address indexed signer, address indexed relayer, uint256 nonce)",
+    "event CidRootAnchored(bytes32 indexed root, uint256 leafCount, uint256 stepTypeMask, bytes32 indexed orgIdHash, address indexed actor)",
+    "event StepPermissionSet(uint8 indexed role, uint8 indexed stepType, bool allowed)",
+] as const;
+
+export const PAYMENT_ROUTER_ABI = [
+    "function actorRegistry() view returns (address)",
+    "function totalBps() view returns (uint16)",
+    "function PUSH_GAS_STIPEND() view returns (uint256)",
+    "function getSplits() view returns (tuple(address recipient, uint16 bps)[])",
+    "function payoutMode() view returns (uint8)",
+    "function withdrawable(address token, address account) view returns (uint256)",
+    "function totalWithdrawable(address token) view returns (uint256)",
+    "function sweepable(address token) view returns (uint256)",
+    "function routePayment(bytes32 productId) payable",
+    "function routeTokenPayment(bytes32 productId, address token, uint256 amount)",
+    "function withdraw(address token)",
+    "function sweepRemainder(address token, address to)",
+    "function setPayoutMode(uint8 mode)",
+    "function processManager() view returns (address)",
+    "function setProcessManager(address processManager)",
+    "function profileTotalBps(bytes32 profileId) view returns (uint16)",
+    "function profileOwner(bytes32 profileId) view returns (bytes32)",
+    "function productProfile(bytes32 productId) view returns (bytes32)",
+    "function getProfileSplits(bytes32 profileId) view returns (tuple(address recipient, uint16 bps)[])",
+    "function splitsFor(bytes32 productId) view returns (tuple(address recipient, uint16 bps)[])",
+    "function createSplitProfile(bytes32 profileId, address[] recipients, uint16[] bps)",
+    "function updateSplitProfile(bytes32 profileId, address[] recipients, uint16[] bps)",
+    "function setProductProfile(bytes32 productId, bytes32 profileId)",
+    "event SplitConfigured(address indexed recipient, uint16 bps)",
+    "event PaymentReceived(bytes32 indexed productId, address indexed payer, uint256 amount)",
+    "event PaymentRouted(bytes32 indexed productId, address indexed recipient, uint256 amount)",
+    "event TokenPaymentReceived(bytes32 indexed productId, address indexed token, address indexed payer, uint256 amount)",
+    "event TokenPaymentRouted(bytes32 indexed productId, address indexed token, address indexed recipient, uint256 amount)",
+    "event PaymentCredited(bytes32 indexed productId, address indexed token, address indexed recipient, uint256 amount)",
+    "event Withdrawn(address indexed token, address indexed account, uint256 amount)",
+    "event RemainderSwept(address indexed token, address indexed to, uint256 amount)",
+    "event PayoutModeSet(uint8 mode)",
+    "event ProcessManagerSet(address indexed processManager)",
+    "event SplitProfileCreated(bytes32 indexed profileId, address indexed by, uint16 totalBps)",
+    "event SplitProfileUpdated(bytes32 indexed profileId, address indexed by, uint16 totalBps)",
+    "event ProfileSplitConfigured(bytes32 indexed profileId, address indexed recipient, uint16 bps)",
+    "event ProductProfileSet(bytes32 indexed productId, bytes32 indexed profileId, address indexed by)",
+] as const;
+
+export const ERC20_ABI = [
+    "function name() view returns (string)",
+    "function symbol() view returns (string)",
+    "function decimals() view returns (uint8)",
+    "function totalSupply() view returns (uint256)",
+    "function balanceOf(address account) view returns (uint256)",
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)",
+] as const;
+
+/** MockERC20 extras on top of ERC20_ABI (local tests and benchmarks only). */
+export const MOCK_ERC20_ABI = [
+    ...ERC20_ABI,
+    "function mint(address to, uint256 amount)",
+    "function setBlocked(address account, bool isBlocked)",
+    "function blocked(address account) view returns (bool)",
+] as const;
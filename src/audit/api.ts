@@ -0,0 +1,140 @@
+// src/audit/api.ts
+//
+// Read-only HTTP API over AuditQueries, for frontends and auditors that do not
+// run the scripts. GET only, JSON responses (bigints as decimal strings):
+//
+//   GET /health                   chainId, checkpoint and row counts of the index
+//   GET /products/<id>/timeline   ProductTimeline  (id: label or bytes32)
+//   GET /actors/<orgIdHash>       ActorAudit       (org label or bytes32)
+//   GET /documents/<cidHash>      DocumentAudit    (bytes32 cidHash or sha2-256 CID)
+//   GET /payments/<productId>     ProductPayments
+//
+// Unknown ids answer 404 { error }, malformed ones 400 { error }.
+
+import http from "http";
+import type { AddressInfo } from "net";
+
+import { cidHashFromCid } from "../cid.js";
+import { isBytes32, normalizeBytes32Id } from "../ids.js";
+import type { AuditQueries } from "./queries.js";
+
+export type AuditApiOptions = {
+    /** Default 0 (any free port). */
+    port?: number;
+    /** Default 127.0.0.1. */
+    host?: string;
+    /** Access-Control-Allow-Origin header; default "*", null to omit it. */
+    corsOrigin?: string | null;
+};
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function pathParam(raw: string): string {
+    try {
+        return decodeURIComponent(raw);
+    } catch (err) {
+        if (err instanceof URIError) throw new HttpError(400, `malformed percent-encoding in ${raw}`);
+        throw err;
+    }
+}
+
+function cidHashParam(value: string): string {
+    if (isBytes32(value)) return value.toLowerCase();
+    try {
+        return cidHashFromCid(value);
+    } catch (err) {
+        throw new HttpError(400, `not a bytes32 cidHash or sha2-256 CID: ${value} (${(err as Error).message})`);
+    }
+}
+
+export class AuditApi {
+    private readonly server: http.Server;
+    private baseUrl?: string;
+
+    constructor(
+        readonly queries: AuditQueries,
+        readonly options: AuditApiOptions = {},
+    ) {
+        this.server = http.createServer((req, res) => void this.handle(req, res));
+    }
+
+    /** Start listening; resolves to the base URL (e.g. http://127.0.0.1:8788). */
+    async start(): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", resolve);
+        });
+        const { address, port } = this.server.address() as AddressInfo;
+        this.baseUrl = `http://${address.includes(":") ? `[${address}]` : address}:${port}`;
+        return this.baseUrl;
+    }
+
+    get url(): string {
+        if (!this.baseUrl) throw new Error("AuditApi is not started");
+        return this.baseUrl;
+    }
+
+    async close(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+
+    /** JSON body of a GET route, or throws HttpError. */
+    private async route(pathname: string): Promise<unknown> {
+        const db = this.queries.db;
+        if (pathname === "/health") return { ...db.checkpoint(), counts: db.counts() };
+
+        const [, resource, rawId, sub, ...rest] = pathname.split("/");
+        const id = rawId === undefined ? "" : pathParam(rawId);
+        if (!id || rest.length) throw new HttpError(404, `no route for ${pathname}`);
+
+        if (resource === "products" && sub === "timeline") {
+            const timeline = this.queries.timeline(normalizeBytes32Id(id));
+            if (!timeline.events.length) throw new HttpError(404, `no indexed events for product ${id}`);
+            return timeline;
+        }
+        if (sub !== undefined) throw new HttpError(404, `no route for ${pathname}`);
+
+        if (resource === "actors") {
+            const actor = await this.queries.actor(normalizeBytes32Id(id));
+            if (!actor.registry && !actor.registrations.length && !actor.events.length) {
+                throw new HttpError(404, `unknown org ${id}`);
+            }
+            return actor;
+        }
+        if (resource === "documents") {
+            const doc = this.queries.document(cidHashParam(id));
+            if (!doc.events.length) throw new HttpError(404, `no anchor of ${id}`);
+            return doc;
+        }
+        if (resource === "payments") {
+            const productId = normalizeBytes32Id(id);
+            if (!db.productRows(productId).length) throw new HttpError(404, `no indexed events for product ${id}`);
+            return this.queries.payments(productId);
+        }
+        throw new HttpError(404, `no route for ${pathname}`);
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        try {
+            if (req.method !== "GET") throw new HttpError(405, `${req.method} not allowed, the audit API is read-only`);
+            const url = new URL(req.url ?? "/", "http://audit-api");
+            this.json(res, 200, await this.route(url.pathname.replace(/\/+$/, "")));
+        } catch (err) {
+            const status = err instanceof HttpError ? err.status : 500;
+            this.json(res, status, { error: (err as Error)?.message ?? String(err) });
+        }
+    }
+
+    private json(res: http.ServerResponse, status: number, body: unknown): void {
+        const headers: http.OutgoingHttpHeaders = { "content-type": "application/json" };
+        const cors = this.options.corsOrigin === undefined ? "*" : this.options.corsOrigin;
+        if (cors !== null) headers["access-control-allow-origin"] = cors;
+        res.writeHead(status, headers);
+        res.end(JSON.stringify(body, (_k, v) => (typeof v === "bigint" ? v.toString() : v)));
+    }
+}
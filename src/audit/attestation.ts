@@ -0,0 +1,461 @@
+// src/audit/attestation.ts
+//
+// Signed, tamper-evident audit reports. An AuditAttestation binds the digest
+// of a report's `{ summary, events }` (auditReportDigest) and its products to
+// an auditor key with an EIP-712 or EIP-191 signature, and travels in the
+// report file next to them.
+//
+// Anchoring stores the attestation document (canonical JSON without the
+// anchor) like any other evidence: one DocumentAnchored per product with
+// docType AuditAttestation, stepId = report digest and cidHash = the digest
+// of the document's CID, from the auditor's wallet (Certifier / Regulator by
+// default). verifyAuditAttestation checks the digest, the signature, the
+// anchor, and re-derives the reported events from chain: every event must be
+// on chain as reported, and no event of the selection may be left out.
+
+import { Interface, TypedDataEncoder, ethers, type Provider, type Signer } from "ethers";
+
+import { CID_ROLLUP_ABI, DOCUMENT_REGISTRY_ABI } from "../abi.js";
+import { CID_CODEC_RAW, cidCodecFor, encodeCidHash } from "../cid.js";
+import type { DocumentRegistryClient } from "../clients/index.js";
+import type { ContractName } from "../deployments.js";
+import { uploadEvidence } from "../evidence.js";
+import { canonicalJson } from "../evidence-schema.js";
+import { ChainIndexer, IndexerDb } from "../indexer/index.js";
+import { verifyCidMerkleProof } from "../merkle.js";
+import { cidOf, type StorageProvider } from "../storage/index.js";
+import { DocType } from "../types.js";
+import type { AuditEvent } from "./events.js";
+import { AuditQueries } from "./queries.js";
+import { auditReportDigest, auditReportProducts, type AuditReport } from "./report.js";
+import type { AuditSelection } from "./selection.js";
+
+export type AuditAttestationScheme = "eip712" | "eip191";
+
+export const AUDIT_ATTESTATION_SCHEMES: readonly AuditAttestationScheme[] = ["eip712", "eip191"];
+
+/** EIP-712 domain (plus the report's chainId) and types of an attestation. */
+export const AUDIT_ATTESTATION_DOMAIN = { name: "FairtradeAuditAttestation", version: "1" } as const;
+
+export const AUDIT_ATTESTATION_TYPES = {
+    AuditAttestation: [
+        { name: "reportDigest", type: "bytes32" },
+        { name: "productIds", type: "bytes32[]" },
+        { name: "issuedAt", type: "uint64" },
+    ],
+};
+
+/** Where an attestation was anchored (DocumentRegistry, DocType.AuditAttestation). */
+export type AuditAttestationAnchor = {
+    documentRegistry: string;
+    cid: string;
+    cidHash: string;
+    txHash: string;
+    blockNumber: number;
+};
+
+export type AuditAttestation = {
+    version: 1;
+    scheme: AuditAttestationScheme;
+    chainId: string;
+    /** auditReportDigest of the report's { summary, events }. */
+    reportDigest: string;
+    /** bytes32 ids of the report's products. */
+    productIds: string[];
+    /** Unix seconds. */
+    issuedAt: number;
+    auditor: string;
+    signature: string;
+    anchor?: AuditAttestationAnchor;
+};
+
+/** What the auditor signs. */
+export type AuditAttestationClaim = Pick<AuditAttestation, "chainId" | "reportDigest" | "productIds" | "issuedAt">;
+
+/** The claim of a report: its digest and products. */
+export function auditAttestationClaim(report: AuditReport, chainId: bigint | string, issuedAt?: number): AuditAttestationClaim {
+    return {
+        chainId: chainId.toString(),
+        reportDigest: auditReportDigest(report),
+        productIds: auditReportProducts(report).map((p) => p.productId.toLowerCase()),
+        issuedAt: issuedAt ?? Math.floor(Date.now() / 1000),
+    };
+}
+
+export function auditAttestationTypedData(claim: AuditAttestationClaim) {
+    return {
+        domain: { ...AUDIT_ATTESTATION_DOMAIN, chainId: BigInt(claim.chainId) },
+        types: AUDIT_ATTESTATION_TYPES,
+        value: { reportDigest: claim.reportDigest, productIds: claim.productIds, issuedAt: claim.issuedAt },
+    };
+}
+
+/** The EIP-191 (personal_sign) text of a claim, readable in any wallet. */
+export function auditAttestationMessage(claim: AuditAttestationClaim): string {
+    return [
+        "FairTrade audit attestation",
+        `Report digest: ${claim.reportDigest}`,
+        `Chain: ${claim.chainId}`,
+        `Issued at: ${new Date(claim.issuedAt * 1000).toISOString()}`,
+        `Products (${claim.productIds.length}):`,
+        ...claim.productIds,
+    ].join("\n");
+}
+
+/** The hash a scheme signs: the EIP-712 struct hash or the EIP-191 message hash. */
+export function auditAttestationHash(claim: AuditAttestationClaim, scheme: AuditAttestationScheme): string {
+    if (scheme === "eip191") return ethers.hashMessage(auditAttestationMessage(claim));
+    const { domain, types, value } = auditAttestationTypedData(claim);
+    return TypedDataEncoder.hash(domain, types, value);
+}
+
+/** Sign the digest of `report` with the auditor's key. */
+export async function signAuditReport(
+    report: AuditReport,
+    signer: Signer,
+    opts: { chainId: bigint | string; scheme?: AuditAttestationScheme; issuedAt?: number },
+): Promise<AuditAttestation> {
+    const scheme = opts.scheme ?? "eip712";
+    const claim = auditAttestationClaim(report, opts.chainId, opts.issuedAt);
+    let signature: string;
+    if (scheme === "eip191") {
+        signature = await signer.signMessage(auditAttestationMessage(claim));
+    } else {
+        const { domain, types, value } = auditAttestationTypedData(claim);
+        signature = await signer.signTypedData(domain, types, value);
+    }
+    return { version: 1, scheme, ...claim, auditor: ethers.getAddress(await signer.getAddress()), signature };
+}
+
+/** The address that signed `attestation`; throws on a malformed signature. */
+export function recoverAuditAttestationSigner(attestation: AuditAttestation): string {
+    if (attestation.scheme === "eip191") return ethers.verifyMessage(auditAttestationMessage(attestation), attestation.signature);
+    const { domain, types, value } = auditAttestationTypedData(attestation);
+    return ethers.verifyTypedData(domain, types, value, attestation.signature);
+}
+
+/** Check the fields of a parsed attestation (e.g. the `attestation` of a report file). */
+export function parseAuditAttestation(raw: unknown): AuditAttestation {
+    const a = raw as AuditAttestation;
+    const bytes32 = /^0x[0-9a-fA-F]{64}$/;
+    const issues = [
+        a?.version === 1 ? "" : "version: expected 1",
+        AUDIT_ATTESTATION_SCHEMES.includes(a?.scheme) ? "" : `scheme: expected ${AUDIT_ATTESTATION_SCHEMES.join(" or ")}`,
+        /^\d+$/.test(String(a?.chainId)) ? "" : "chainId: expected a decimal string",
+        bytes32.test(a?.reportDigest) ? "" : "reportDigest: expected bytes32",
+        Array.isArray(a?.productIds) && a.productIds.every((p) => bytes32.test(p)) ? "" : "productIds: expected bytes32[]",
+        Number.isInteger(a?.issuedAt) ? "" : "issuedAt: expected unix seconds",
+        ethers.isAddress(a?.auditor) ? "" : "auditor: expected an address",
+        typeof a?.signature === "string" && ethers.isHexString(a.signature) ? "" : "signature: expected hex",
+    ].filter(Boolean);
+    if (issues.length) throw new Error(`not an audit attestation: ${issues.join("; ")}`);
+    return a;
+}
+
+// -----------------------------------------------------------------------------
+// Anchoring
+// -----------------------------------------------------------------------------
+
+/** The anchored attestation document: canonical JSON without the anchor. */
+export function auditAttestationBytes(attestation: AuditAttestation): Buffer {
+    const { anchor: _anchor, ...doc } = attestation;
+    return Buffer.from(canonicalJson(doc), "utf8");
+}
+
+/** CID of the attestation document in the layout the codec policy gives DocType.AuditAttestation. */
+export async function auditAttestationCid(attestation: AuditAttestation): Promise<{ cid: string; cidHash: string }> {
+    const codec = cidCodecFor("doc", DocType.AuditAttestation);
+    const cid = await cidOf(auditAttestationBytes(attestation), 1, codec === CID_CODEC_RAW);
+    return { cid, cidHash: encodeCidHash(cid, "doc", DocType.AuditAttestation) };
+}
+
+/**
+ * Anchor the attestation for each of its products in one anchorDocumentBatch,
+ * from the auditor's wallet. The document is uploaded to `storage` when given,
+ * so it can be fetched like any other evidence.
+ */
+export async function anchorAuditAttestation(
+    attestation: AuditAttestation,
+    documentRegistry: DocumentRegistryClient,
+    storage?: StorageProvider,
+): Promise<AuditAttestationAnchor> {
+    if (!attestation.productIds.length) throw new Error("The attestation covers no products");
+    const { cid, cidHash } = storage
+        ? await uploadEvidence(storage, auditAttestationBytes(attestation), { kind: "doc", type: DocType.AuditAttestation })
+        : await auditAttestationCid(attestation);
+
+    const tx = await documentRegistry.anchorDocumentBatch(
+        attestation.productIds.map((productId) => ({
+            productId,
+            stepId: attestation.reportDigest,
+            cidHash,
+            docType: DocType.AuditAttestation,
+        })),
+    );
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`No receipt for ${tx.hash}`);
+    return { documentRegistry: documentRegistry.address, cid, cidHash, txHash: receipt.hash, blockNumber: receipt.blockNumber };
+}
+
+/** Where the anchor of `attestation` disagrees with its transaction; empty when it is sound. */
+export async function checkAuditAttestationAnchor(provider: Provider, attestation: AuditAttestation): Promise<string[]> {
+    const anchor = attestation.anchor;
+    if (!anchor) return ["the attestation is not anchored"];
+    const receipt = await provider.getTransactionReceipt(anchor.txHash);
+    if (!receipt) return [`anchor tx ${anchor.txHash} not found`];
+    if (receipt.status !== 1) return [`anchor tx ${anchor.txHash} reverted`];
+
+    const issues: string[] = [];
+    if (receipt.blockNumber !== anchor.blockNumber) issues.push(`anchor tx is in block ${receipt.blockNumber}, not ${anchor.blockNumber}`);
+    const { cidHash } = await auditAttestationCid(attestation);
+    if (cidHash !== anchor.cidHash.toLowerCase()) issues.push("the anchored cidHash is not the digest of the attestation document");
+
+    const iface = new Interface(DOCUMENT_REGISTRY_ABI);
+    const anchored = receipt.logs
+        .filter((l) => l.address.toLowerCase() === anchor.documentRegistry.toLowerCase())
+        .map((l) => iface.parseLog({ topics: [...l.topics], data: l.data }))
+        .filter((p) => p?.name === "DocumentAnchored")
+        .map((p) => p!.args);
+    for (const productId of attestation.productIds) {
+        const log = anchored.find((a) => a.productId.toLowerCase() === productId.toLowerCase());
+        if (!log) {
+            issues.push(`no DocumentAnchored for product ${productId}`);
+            continue;
+        }
+        const wrong = [
+            log.stepId.toLowerCase() !== attestation.reportDigest.toLowerCase() ? "stepId" : "",
+            log.cidHash.toLowerCase() !== cidHash ? "cidHash" : "",
+            Number(log.docType) !== DocType.AuditAttestation ? "docType" : "",
+            log.actor.toLowerCase() !== attestation.auditor.toLowerCase() ? "actor" : "",
+        ].filter(Boolean);
+        if (wrong.length) issues.push(`DocumentAnchored for product ${productId}: ${wrong.join(", ")} differ`);
+    }
+    return issues;
+}
+
+// -----------------------------------------------------------------------------
+// Re-deriving the events
+// -----------------------------------------------------------------------------
+
+/** How the reported events compare with the chain. */
+export type AuditEventsCheck = {
+    /** Block range the selection was re-derived over. */
+    fromBlock: number;
+    toBlock: number;
+    checked: number;
+    matched: number;
+    /** Reported events that are not on chain as reported. */
+    altered: string[];
+    /** Events on chain in the report's selection that it leaves out. */
+    omitted: string[];
+};
+
+/** The selection a report covers: its products, narrowed by summary.selection. */
+export function auditReportSelection(report: AuditReport): AuditSelection {
+    const s = (report.summary.selection ?? {}) as Record<string, any>;
+    const block = (v: unknown) => (v === undefined || v === null ? undefined : BigInt(v as number));
+    return {
+        productIds: auditReportProducts(report).map((p) => p.productId),
+        orgIdHashes: s.orgIdHashes,
+        actors: s.actors,
+        fromBlock: block(s.fromBlock),
+        toBlock: block(s.toBlock),
+        fromTime: s.fromTime,
+        toTime: s.toTime,
+    };
+}
+
+function eventKey(e: Pick<AuditEvent, "txHash" | "logIndex">): string {
+    return `${e.txHash.toLowerCase()}:${e.logIndex}`;
+}
+
+function eventLabel(e: AuditEvent): string {
+    return `${e.kind} block ${e.blockNumber} tx ${e.txHash.slice(0, 10)}…:${e.logIndex}`;
+}
+
+/** Fields of `reported` (other than off-chain ones) that differ in `onChain`. */
+function differingFields(reported: AuditEvent, onChain: Record<string, unknown>): string[] {
+    const norm = (v: unknown) => (typeof v === "string" ? v.toLowerCase() : typeof v === "bigint" ? v.toString() : JSON.stringify(v));
+    return Object.entries(reported)
+        .filter(([k, v]) => !["evidence", "manifest", "proof"].includes(k) && v !== undefined)
+        .filter(([k, v]) => norm(v) !== norm(onChain[k]))
+        .map(([k]) => k);
+}
+
+/** Check a CidRootLeaf: its log is the CidRootAnchored of its root and the leaf proves into it. */
+async function checkRootLeaf(
+    provider: Provider,
+    e: Extract<AuditEvent, { kind: "CidRootLeaf" }>,
+    cidRollup: string,
+): Promise<string[]> {
+    const receipt = await provider.getTransactionReceipt(e.txHash);
+    const log = receipt?.logs.find((l) => l.index === Number(e.logIndex) && l.address.toLowerCase() === cidRollup.toLowerCase());
+    const parsed = log ? new Interface(CID_ROLLUP_ABI).parseLog({ topics: [...log.topics], data: log.data }) : null;
+    if (!parsed || parsed.name !== "CidRootAnchored") return ["no CidRootAnchored log"];
+    const onChain = {
+        kind: e.kind,
+        contract: e.contract,
+        blockNumber: BigInt(log!.blockNumber),
+        logIndex: BigInt(log!.index),
+        txHash: log!.transactionHash,
+        timestamp: e.timestamp === undefined ? undefined : (await provider.getBlock(log!.blockNumber))?.timestamp,
+        root: parsed.args.root,
+        orgIdHash: parsed.args.orgIdHash,
+        actor: parsed.args.actor,
+    };
+    const fields = differingFields(e, { ...e, ...onChain });
+    const leaf = { productId: e.productId, stepId: e.stepId, cidHash: e.cidHash, stepType: e.stepType };
+    if (!verifyCidMerkleProof(parsed.args.root, leaf, e.proof)) fields.push("proof");
+    return fields;
+}
+
+/**
+ * Re-derive the report's selection from chain: index the `addresses` from
+ * `fromBlock` to `toBlock` (default: summary.chain.headBlock, else the last
+ * reported block) into a throwaway index and compare. CidRootLeaf events are
+ * checked against their CidRootAnchored log and Merkle proof instead.
+ */
+export async function rederiveAuditEvents(opts: {
+    provider: Provider;
+    report: AuditReport;
+    addresses: Partial<Record<ContractName, string>>;
+    fromBlock: number;
+    toBlock?: number;
+    chunkSize?: number;
+}): Promise<AuditEventsCheck> {
+    const { provider, report, addresses } = opts;
+    const lastReported = report.events.reduce((max, e) => (e.blockNumber > max ? e.blockNumber : max), 0n);
+    const toBlock = opts.toBlock ?? report.summary.chain?.headBlock ?? Number(lastReported);
+
+    const db = new IndexerDb(":memory:");
+    let derived: AuditEvent[];
+    try {
+        await new ChainIndexer({ provider, db, addresses, fromBlock: opts.fromBlock, chunkSize: opts.chunkSize }).sync(toBlock);
+        const selection = auditReportSelection(report);
+        const window = { fromBlock: selection.fromBlock, toBlock: BigInt(toBlock) };
+        if (selection.toBlock !== undefined && selection.toBlock < window.toBlock) window.toBlock = selection.toBlock;
+        derived = new AuditQueries(db).select({ ...selection, ...window });
+    } finally {
+        db.close();
+    }
+
+    const byKey = new Map(derived.map((e) => [eventKey(e), e]));
+    const check: AuditEventsCheck = { fromBlock: opts.fromBlock, toBlock, checked: 0, matched: 0, altered: [], omitted: [] };
+    const reported = new Set<string>();
+    for (const e of report.events) {
+        check.checked++;
+        let fields: string[];
+        if (e.kind === "CidRootLeaf") {
+            fields = addresses.CidRollup ? await checkRootLeaf(provider, e, addresses.CidRollup) : ["no CidRollup address"];
+        } else {
+            const onChain = byKey.get(eventKey(e));
+            reported.add(eventKey(e));
+            fields = onChain ? differingFields(e, onChain as Record<string, unknown>) : ["not found on chain in the selection"];
+        }
+        if (fields.length) check.altered.push(`${eventLabel(e)}: ${fields.join(", ")}`);
+        else check.matched++;
+    }
+    check.omitted = derived.filter((e) => !reported.has(eventKey(e))).map(eventLabel);
+    return check;
+}
+
+// -----------------------------------------------------------------------------
+// Verification
+// -----------------------------------------------------------------------------
+
+export type AuditAttestationVerification = {
+    /** auditReportDigest of the report as it is now. */
+    digest: string;
+    attestation?: AuditAttestation;
+    /** Address the signature recovers to. */
+    signer?: string;
+    /** undefined when the anchor was not checked (no provider). */
+    anchored?: boolean;
+    events?: AuditEventsCheck;
+    issues: string[];
+    valid: boolean;
+};
+
+/**
+ * Verify a signed report: the digest still matches, the signature recovers to
+ * the auditor (and `auditor`, when given), and with a provider the anchor and
+ * the events on chain. `addresses` are the contracts whose events the report
+ * reconstructs (default: summary.chain.addresses); `fromBlock` is where their
+ * scan starts, usually the deploy block (default: the report's selection
+ * fromBlock). Without either the events are not re-derived, since scanning
+ * from genesis is not an option on a public chain.
+ */
+export async function verifyAuditAttestation(
+    report: AuditReport,
+    opts: {
+        attestation?: AuditAttestation;
+        auditor?: string;
+        provider?: Provider;
+        requireAnchor?: boolean;
+        addresses?: Partial<Record<ContractName, string>>;
+        fromBlock?: number;
+        toBlock?: number;
+        chunkSize?: number;
+    } = {},
+): Promise<AuditAttestationVerification> {
+    const digest = auditReportDigest(report);
+    const raw = opts.attestation ?? report.attestation;
+    if (!raw) return { digest, issues: ["the report is not signed"], valid: false };
+    const attestation = parseAuditAttestation(raw);
+    const issues: string[] = [];
+    const out: AuditAttestationVerification = { digest, attestation, issues, valid: false };
+
+    if (attestation.reportDigest.toLowerCase() !== digest) {
+        issues.push(`digest: the report hashes to ${digest}, the attestation signs ${attestation.reportDigest}`);
+    }
+    const chainId = report.summary.chain?.chainId;
+    if (chainId !== undefined && String(chainId) !== attestation.chainId) {
+        issues.push(`chainId: the report is for chain ${chainId}, the attestation for ${attestation.chainId}`);
+    }
+    try {
+        out.signer = recoverAuditAttestationSigner(attestation);
+        if (out.signer.toLowerCase() !== attestation.auditor.toLowerCase()) {
+            issues.push(`signature: signed by ${out.signer}, not the stated auditor ${attestation.auditor}`);
+        }
+    } catch (err) {
+        issues.push(`signature: ${String((err as Error)?.message ?? err).slice(0, 120)}`);
+    }
+    if (opts.auditor && opts.auditor.toLowerCase() !== attestation.auditor.toLowerCase()) {
+        issues.push(`auditor: the attestation is by ${attestation.auditor}, expected ${opts.auditor}`);
+    }
+
+    if (opts.provider) {
+        const { chainId: providerChainId } = await opts.provider.getNetwork();
+        if (providerChainId.toString() !== attestation.chainId) {
+            issues.push(`provider is on chain ${providerChainId}, the attestation is for ${attestation.chainId}`);
+        } else {
+            if (attestation.anchor || opts.requireAnchor) {
+                const anchorIssues = await checkAuditAttestationAnchor(opts.provider, attestation);
+                out.anchored = anchorIssues.length === 0;
+                issues.push(...anchorIssues.map((i) => `anchor: ${i}`));
+            }
+            const addresses = opts.addresses ?? report.summary.chain?.addresses;
+            const selectedFrom = auditReportSelection(report).fromBlock;
+            const fromBlock = opts.fromBlock ?? (selectedFrom === undefined ? undefined : Number(selectedFrom));
+            if (!addresses) {
+                issues.push("events: no contract addresses to re-derive the events from");
+            } else if (fromBlock === undefined) {
+                issues.push("events: no fromBlock to re-derive the events from (pass the deploy block)");
+            } else {
+                out.events = await rederiveAuditEvents({
+                    provider: opts.provider,
+                    report,
+                    addresses,
+                    fromBlock,
+                    toBlock: opts.toBlock,
+                    chunkSize: opts.chunkSize,
+                });
+                issues.push(...out.events.altered.map((a) => `events: altered ${a}`));
+                issues.push(...out.events.omitted.map((o) => `events: omitted ${o}`));
+            }
+        }
+    }
+
+    out.valid = issues.length === 0;
+    return out;
+}
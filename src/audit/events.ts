@@ -0,0 +1,196 @@
+// src/audit/events.ts
+//
+// The unified audit timeline: one AuditEvent per decoded log, as written to
+// the reports of scripts/reconstruct-audit-from-logs.ts and served by the
+// audit API. blockNumber / logIndex are bigints (JSON: decimal strings).
+
+import { cidFromCidHash } from "../cid.js";
+import { INDEXED_EVENTS, type IndexedRow } from "../indexer/index.js";
+import type { DecodedLog } from "../log-decoder.js";
+
+/** Off-chain content of an anchor: fetched, hashed against the cidHash and checked against its schema. */
+export type EvidenceCheck = {
+    cid?: string;
+    via?: string;
+    fetched: boolean;
+    verified: boolean;
+    /** Document type the anchor calls for (src/evidence-schema.ts), if any. */
+    schema?: string;
+    /** Schema-valid and consistent with the anchor; undefined when not checked. */
+    valid?: boolean;
+    issues: string[];
+};
+
+export type ActorProfileCheck = EvidenceCheck & {
+    actor: string;
+    orgIdHash: string;
+    metadataHash: string;
+    name?: string;
+};
+
+type AuditLog = {
+    blockNumber: bigint;
+    logIndex: bigint;
+    txHash: string;
+    timestamp?: number;
+    productId: string;
+};
+
+export type AuditEvent =
+    | (AuditLog & {
+    kind: "CidAnchored";
+    contract: "CidRollup";
+    stepId: string;
+    orgIdHash: string;
+    cidHash: string;
+    cid: string;
+    stepType: number;
+    actor: string;
+    evidence?: EvidenceCheck;
+})
+    | (AuditLog & {
+    kind: "CidRootLeaf";
+    contract: "CidRollup";
+    stepId: string;
+    orgIdHash: string;
+    cidHash: string;
+    cid: string;
+    stepType: number;
+    actor: string;
+    root: string;
+    proof: string[];
+    manifest: string;
+    evidence?: EvidenceCheck;
+})
+    | (AuditLog & {
+    kind: "DocumentAnchored";
+    contract: "DocumentRegistry";
+    stepId: string;
+    orgIdHash: string;
+    cidHash: string;
+    cid: string;
+    docType: number;
+    actor: string;
+    evidence?: EvidenceCheck;
+})
+    | (AuditLog & {
+    kind: "ProcessCreated";
+    contract: "ProcessManager";
+    orgIdHash: string;
+})
+    | (AuditLog & {
+    kind: "ProcessStatusChanged";
+    contract: "ProcessManager";
+    orgIdHash: string;
+    previousStatus: number;
+    newStatus: number;
+    actor: string;
+})
+    | (AuditLog & {
+    /** PaymentRouted, TokenPaymentRouted (token set) and PaymentCredited (credited: pull-mode balance). */
+    kind: "PaymentRouted";
+    contract: "PaymentRouter";
+    token: string;
+    recipient: string;
+    amount: bigint;
+    credited: boolean;
+});
+
+export type AuditEventKind = AuditEvent["kind"];
+
+/** Sort in place by (blockNumber, logIndex), i.e. canonical chain order. */
+export function sortAuditEvents<T extends Pick<AuditEvent, "blockNumber" | "logIndex">>(events: T[]): T[] {
+    return events.sort((a, b) => {
+        if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+        if (a.logIndex !== b.logIndex) return a.logIndex < b.logIndex ? -1 : 1;
+        return 0;
+    });
+}
+
+/**
+ * The AuditEvent of an indexed row (src/indexer), with the CID behind its
+ * cidHash; undefined for rows without a product (ActorRegistered, CidRootAnchored).
+ */
+export function auditEventFromIndexedRow(row: IndexedRow): AuditEvent | undefined {
+    const log = {
+        blockNumber: BigInt(row.blockNumber),
+        logIndex: BigInt(row.logIndex),
+        txHash: row.txHash,
+        timestamp: row.timestamp,
+    };
+    const r = row as IndexedRow & Record<string, any>;
+    switch (row.event) {
+        case "CidAnchored":
+            return {
+                kind: "CidAnchored",
+                contract: "CidRollup",
+                ...log,
+                productId: r.productId,
+                stepId: r.stepId,
+                orgIdHash: r.orgIdHash,
+                cidHash: r.cidHash,
+                cid: cidFromCidHash(r.cidHash, "step", r.stepType),
+                stepType: r.stepType,
+                actor: r.actor,
+            };
+        case "DocumentAnchored":
+            return {
+                kind: "DocumentAnchored",
+                contract: "DocumentRegistry",
+                ...log,
+                productId: r.productId,
+                stepId: r.stepId,
+                orgIdHash: r.orgIdHash,
+                cidHash: r.cidHash,
+                cid: cidFromCidHash(r.cidHash, "doc", r.docType),
+                docType: r.docType,
+                actor: r.actor,
+            };
+        case "ProcessCreated":
+            return { kind: "ProcessCreated", contract: "ProcessManager", ...log, productId: r.productId, orgIdHash: r.orgIdHash };
+        case "ProcessStatusChanged":
+            return {
+                kind: "ProcessStatusChanged",
+                contract: "ProcessManager",
+                ...log,
+                productId: r.productId,
+                orgIdHash: r.orgIdHash,
+                previousStatus: r.previousStatus,
+                newStatus: r.newStatus,
+                actor: r.actor,
+            };
+        case "PaymentRouted":
+        case "TokenPaymentRouted":
+        case "PaymentCredited":
+            return {
+                kind: "PaymentRouted",
+                contract: "PaymentRouter",
+                ...log,
+                productId: r.productId,
+                token: r.token,
+                recipient: r.recipient,
+                amount: BigInt(r.amount),
+                credited: r.credited,
+            };
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * The AuditEvent of a decoded log (src/log-decoder.ts), mapped like the
+ * indexer maps it to a row; undefined for events without a product. It has
+ * no timestamp: logs do not carry one.
+ */
+export function auditEventFromLog(log: DecodedLog): AuditEvent | undefined {
+    const spec = INDEXED_EVENTS.find((s) => s.contract === log.contract && s.event === log.event);
+    if (!spec) return undefined;
+    return auditEventFromIndexedRow({
+        contract: log.contract,
+        event: log.event,
+        blockNumber: Number(log.blockNumber),
+        txHash: log.txHash,
+        logIndex: Number(log.logIndex),
+        ...spec.columns(log.args),
+    } as IndexedRow);
+}
@@ -0,0 +1,86 @@
+// src/audit/index.ts
+
+export {
+    auditEventFromIndexedRow,
+    auditEventFromLog,
+    sortAuditEvents,
+    type ActorProfileCheck,
+    type AuditEvent,
+    type AuditEventKind,
+    type EvidenceCheck,
+} from "./events.js";
+export {
+    AuditQueries,
+    type ActorAudit,
+    type DocumentAudit,
+    type PaymentAuditEvent,
+    type PaymentTotal,
+    type ProductPayments,
+    type ProductTimeline,
+} from "./queries.js";
+export {
+    auditCompleteness,
+    auditCounts,
+    auditEventWallet,
+    auditSelectionFilter,
+    groupAuditEventsByProduct,
+    type AuditCompleteness,
+    type AuditCounts,
+    type AuditSelection,
+    type StepTypeRef,
+} from "./selection.js";
+export {
+    AUDIT_RULES,
+    STATUS_REQUIRED_STEPS,
+    registryActorAt,
+    runAuditRules,
+    type ActorAt,
+    type AuditFinding,
+    type AuditRule,
+    type AuditRuleOptions,
+    type AuditRuleReport,
+    type AuditSeverity,
+} from "./rules.js";
+export {
+    AUDIT_CSV_COLUMNS,
+    auditReportDigest,
+    auditReportProducts,
+    auditReportRows,
+    evidenceStatus,
+    parseAuditReport,
+    renderAuditCsv,
+    renderAuditHtml,
+    renderAuditMarkdown,
+    resolveActorNames,
+    type AuditReport,
+    type AuditReportOptions,
+    type AuditReportProduct,
+    type AuditReportRow,
+    type AuditReportSummary,
+} from "./report.js";
+export {
+    AUDIT_ATTESTATION_DOMAIN,
+    AUDIT_ATTESTATION_SCHEMES,
+    AUDIT_ATTESTATION_TYPES,
+    anchorAuditAttestation,
+    auditAttestationBytes,
+    auditAttestationCid,
+    auditAttestationClaim,
+    auditAttestationHash,
+    auditAttestationMessage,
+    auditAttestationTypedData,
+    auditReportSelection,
+    checkAuditAttestationAnchor,
+    parseAuditAttestation,
+    recoverAuditAttestationSigner,
+    rederiveAuditEvents,
+    signAuditReport,
+    verifyAuditAttestation,
+    type AuditAttestation,
+    type AuditAttestationAnchor,
+    type AuditAttestationClaim,
+    type AuditAttestationScheme,
+    type AuditAttestationVerification,
+    type AuditEventsCheck,
+} from "./attestation.js";
+export { AuditApi, type AuditApiOptions } from "./api.js";
@@ -0,0 +1,159 @@
+// src/audit/queries.ts
+//
+// Audit lookups over the event index (src/indexer): a product's timeline, an
+// org's registration and everything it anchored, the anchors of a cidHash and
+// a product's payouts, and the events of an AuditSelection (org, wallet, block
+// and time windows). Registry state (role, status, wallets) is read live from
+// ActorRegistry when a client is given, since the index only holds the
+// ActorRegistered events.
+
+import { ZeroAddress } from "ethers";
+
+import type { ActorRegistryClient } from "../clients/index.js";
+import { PRODUCT_TABLES, type IndexedRow, type IndexedTable, type IndexerDb } from "../indexer/index.js";
+import type { OrgActor } from "../types.js";
+import { auditEventFromIndexedRow, sortAuditEvents, type AuditEvent } from "./events.js";
+import { auditSelectionFilter, type AuditSelection } from "./selection.js";
+
+export type PaymentAuditEvent = Extract<AuditEvent, { kind: "PaymentRouted" }>;
+
+export type ProductTimeline = {
+    productId: string;
+    /** Org that created the process, if it was created. */
+    orgIdHash?: string;
+    /** Status after the last ProcessStatusChanged. */
+    status?: number;
+    events: AuditEvent[];
+};
+
+export type ActorAudit = {
+    orgIdHash: string;
+    /** Current ActorRegistry state; undefined without a client or for unregistered orgs. */
+    registry?: OrgActor & { wallets: string[] };
+    registrations: { wallet: string; role: number; metadataHash: string; blockNumber: bigint; txHash: string; timestamp: number }[];
+    /** Products the org anchored or processed, in order of first appearance. */
+    products: string[];
+    events: AuditEvent[];
+    /** Merkle roots the org anchored (their leaves are only known from root manifests). */
+    rootAnchors: { root: string; leafCount: number; actor: string; blockNumber: bigint; txHash: string; timestamp: number }[];
+};
+
+export type DocumentAudit = {
+    cidHash: string;
+    /** CidAnchored / DocumentAnchored events anchoring cidHash, with the CID they decode to. */
+    events: AuditEvent[];
+};
+
+export type PaymentTotal = { token: string; recipient: string; paid: bigint; credited: bigint };
+
+export type ProductPayments = {
+    productId: string;
+    payments: PaymentAuditEvent[];
+    /** Sums per (token, recipient): pushed (`paid`) and left to withdraw (`credited`). */
+    totals: PaymentTotal[];
+};
+
+/** Tables with an org_id_hash column. */
+const ORG_TABLES = ["cid_anchored", "document_anchored", "process_created", "process_status_changed"] as const;
+/** Tables with an actor column. */
+const ACTOR_TABLES = ["cid_anchored", "document_anchored", "process_status_changed"] as const;
+
+function toEvents(rows: IndexedRow[]): AuditEvent[] {
+    const unique = new Map(rows.map((r) => [`${r.txHash}:${r.logIndex}`, r]));
+    return sortAuditEvents([...unique.values()].flatMap((r) => auditEventFromIndexedRow(r) ?? []));
+}
+
+export class AuditQueries {
+    constructor(
+        readonly db: IndexerDb,
+        readonly actorRegistry?: ActorRegistryClient,
+    ) {}
+
+    timeline(productId: string): ProductTimeline {
+        const events = toEvents(this.db.productRows(productId));
+        const created = events.find((e) => e.kind === "ProcessCreated");
+        const last = events.filter((e) => e.kind === "ProcessStatusChanged").at(-1);
+        return {
+            productId,
+            orgIdHash: created?.orgIdHash,
+            status: last?.kind === "ProcessStatusChanged" ? last.newStatus : undefined,
+            events,
+        };
+    }
+
+    private rowsWhere(tables: readonly IndexedTable[], where: Record<string, string>): IndexedRow[] {
+        return tables.flatMap((t) => this.db.rows(t, where as never) as IndexedRow[]);
+    }
+
+    /** Indexed events matching `selection` (see src/audit/selection.ts), in chain order. */
+    select(selection: AuditSelection): AuditEvent[] {
+        let rows: IndexedRow[];
+        if (selection.orgIdHashes?.length || selection.actors?.length) {
+            rows = [
+                ...(selection.orgIdHashes ?? []).flatMap((orgIdHash) => this.rowsWhere(ORG_TABLES, { orgIdHash })),
+                ...(selection.actors ?? []).flatMap((actor) => [
+                    ...this.rowsWhere(ACTOR_TABLES, { actor }),
+                    ...this.rowsWhere(["payment_routed"], { recipient: actor }),
+                ]),
+            ];
+        } else if (selection.productIds?.length) {
+            rows = selection.productIds.flatMap((productId) => this.db.productRows(productId));
+        } else {
+            rows = this.rowsWhere(PRODUCT_TABLES, {});
+        }
+        return toEvents(rows).filter(auditSelectionFilter(selection));
+    }
+
+    async actor(orgIdHash: string): Promise<ActorAudit> {
+        const events = toEvents(this.rowsWhere(ORG_TABLES, { orgIdHash }));
+
+        let registry: ActorAudit["registry"];
+        if (this.actorRegistry) {
+            const actor = await this.actorRegistry.getActorByOrg(orgIdHash);
+            if (actor.wallet !== ZeroAddress) registry = { ...actor, wallets: await this.actorRegistry.getOrgWallets(orgIdHash) };
+        }
+
+        return {
+            orgIdHash,
+            registry,
+            registrations: this.db.rows("actor_registered", { orgIdHash }).map((r) => ({
+                wallet: r.wallet,
+                role: r.role,
+                metadataHash: r.metadataHash,
+                blockNumber: BigInt(r.blockNumber),
+                txHash: r.txHash,
+                timestamp: r.timestamp,
+            })),
+            products: Array.from(new Set(events.map((e) => e.productId))),
+            events,
+            rootAnchors: this.db.rows("cid_root_anchored", { orgIdHash }).map((r) => ({
+                root: r.root,
+                leafCount: r.leafCount,
+                actor: r.actor,
+                blockNumber: BigInt(r.blockNumber),
+                txHash: r.txHash,
+                timestamp: r.timestamp,
+            })),
+        };
+    }
+
+    document(cidHash: string): DocumentAudit {
+        return {
+            cidHash,
+            events: toEvents([...this.db.rows("cid_anchored", { cidHash }), ...this.db.rows("document_anchored", { cidHash })]),
+        };
+    }
+
+    payments(productId: string): ProductPayments {
+        const payments = toEvents(this.db.rows("payment_routed", { productId })) as PaymentAuditEvent[];
+        const totals = new Map<string, PaymentTotal>();
+        for (const p of payments) {
+            const key = `${p.token.toLowerCase()}:${p.recipient.toLowerCase()}`;
+            const total = totals.get(key) ?? { token: p.token, recipient: p.recipient, paid: 0n, credited: 0n };
+            if (p.credited) total.credited += p.amount;
+            else total.paid += p.amount;
+            totals.set(key, total);
+        }
+        return { productId, payments, totals: [...totals.values()] };
+    }
+}
@@ -0,0 +1,527 @@
+// src/audit/report.ts
+//
+// Human-deliverable renderings of an audit report: the `{ summary, events }`
+// JSON written by scripts/reconstruct-audit-from-logs.ts, old runs included.
+// One self-contained HTML page, PDF-ready Markdown (pandoc front matter and
+// pipe tables) and a CSV of the timeline, each with actor names, block
+// explorer links, the rule findings and a signature block that quotes the
+// report digest, so a signed printout can be matched to its JSON.
+
+import { ZeroAddress, ethers } from "ethers";
+
+import type { ActorRegistryClient } from "../clients/index.js";
+import { fetchEvidence } from "../evidence.js";
+import { actorProfileCid, canonicalJson, parseEvidenceDocument } from "../evidence-schema.js";
+import type { StorageProvider } from "../storage/index.js";
+import { DOC_TYPE_LABEL, PROCESS_STATUS_LABEL, STEP_LABEL, type DocType, type ProcessStatus, type StepType } from "../types.js";
+import type { AuditAttestation } from "./attestation.js";
+import type { ActorProfileCheck, AuditEvent, EvidenceCheck } from "./events.js";
+import type { AuditFinding, AuditSeverity } from "./rules.js";
+import type { AuditCompleteness, AuditCounts } from "./selection.js";
+
+/** Per-product entry of summary.products (runs before multi-product reports have none). */
+export type AuditReportProduct = {
+    productIdInput?: string;
+    productId: string;
+    counts?: AuditCounts;
+    completeness?: AuditCompleteness;
+    rules?: { ran: string[]; counts: Record<AuditSeverity, number>; passed: boolean };
+    findings?: AuditFinding[];
+};
+
+/** The summary fields the renderers read; everything is optional so old runs render too. */
+export type AuditReportSummary = {
+    generatedAt?: string;
+    productIdInput?: string;
+    productId?: string;
+    /** headBlock: the chain head when the events were reconstructed. */
+    chain?: { chainId: string; network?: string; addresses?: Record<string, string>; headBlock?: number };
+    counts?: AuditCounts;
+    completeness?: AuditCompleteness;
+    products?: AuditReportProduct[];
+    evidence?: {
+        checked: number;
+        fetched: number;
+        verified: number;
+        schemaChecked?: number;
+        schemaValid?: number;
+        actorProfiles?: ActorProfileCheck[];
+    };
+    [key: string]: unknown;
+};
+
+/** `attestation` is not covered by the digest; it signs it (src/audit/attestation.ts). */
+export type AuditReport = { summary: AuditReportSummary; events: AuditEvent[]; attestation?: AuditAttestation };
+
+export type AuditReportOptions = {
+    /** Default "Supply-chain audit report". */
+    title?: string;
+    /** Block explorer base URL (e.g. https://sepolia-optimism.etherscan.io); no links without it. */
+    explorerUrl?: string;
+    /** IPFS gateway base URL for CID links (e.g. https://ipfs.io). */
+    ipfsGateway?: string;
+    /** Display names by wallet (any case), see resolveActorNames. */
+    actorNames?: Record<string, string>;
+    /** Pre-filled in the signature block; blank lines otherwise. */
+    signatory?: { name?: string; organisation?: string; role?: string };
+};
+
+/** One timeline row, shared by the three renderings. */
+export type AuditReportRow = {
+    time: string;
+    productId: string;
+    kind: AuditEvent["kind"];
+    blockNumber: string;
+    logIndex: string;
+    txHash: string;
+    details: string;
+    cid?: string;
+    actor?: string;
+    actorName?: string;
+    evidence?: string;
+    findings: AuditFinding[];
+};
+
+const DEFAULT_TITLE = "Supply-chain audit report";
+
+// -----------------------------------------------------------------------------
+// Input
+// -----------------------------------------------------------------------------
+
+/** Parse the JSON of an audit report (bigints are decimal strings on disk). */
+export function parseAuditReport(input: string | unknown): AuditReport {
+    const raw = typeof input === "string" ? JSON.parse(input) : input;
+    if (!raw || typeof raw !== "object" || typeof raw.summary !== "object" || !Array.isArray(raw.events)) {
+        throw new Error("not an audit report: expected { summary, events[] }");
+    }
+    const events = (raw.events as any[]).map((e, i) => {
+        if (typeof e?.kind !== "string" || e.blockNumber === undefined || typeof e.txHash !== "string") {
+            throw new Error(`not an audit report: events[${i}] has no kind / blockNumber / txHash`);
+        }
+        return {
+            ...e,
+            blockNumber: BigInt(e.blockNumber),
+            logIndex: BigInt(e.logIndex ?? 0),
+            ...(e.kind === "PaymentRouted" ? { amount: BigInt(e.amount) } : {}),
+        } as AuditEvent;
+    });
+    return { summary: raw.summary as AuditReportSummary, events, ...(raw.attestation ? { attestation: raw.attestation } : {}) };
+}
+
+/** keccak256 of the canonical JSON of `{ summary, events }` (key order and whitespace do not matter). */
+export function auditReportDigest(report: AuditReport): string {
+    const { summary, events } = report;
+    const json = JSON.parse(JSON.stringify({ summary, events }, (_k, v) => (typeof v === "bigint" ? v.toString() : v)));
+    return ethers.keccak256(ethers.toUtf8Bytes(canonicalJson(json)));
+}
+
+/** The products of a report, synthesized from the top-level fields for single-product runs. */
+export function auditReportProducts(report: AuditReport): AuditReportProduct[] {
+    const { summary } = report;
+    if (summary.products?.length) return summary.products;
+    const productId = summary.productId ?? report.events[0]?.productId;
+    if (!productId) return [];
+    return [{ productId, productIdInput: summary.productIdInput, counts: summary.counts, completeness: summary.completeness }];
+}
+
+/** Short evidence verdict of an anchor, as printed in the console timeline. */
+export function evidenceStatus(c?: EvidenceCheck): string {
+    if (!c) return "unchecked";
+    if (!c.fetched) return "MISSING";
+    if (!c.verified) return "TAMPERED";
+    if (c.valid === false) return "INVALID";
+    return c.valid ? "valid" : "verified";
+}
+
+/**
+ * Display names of the report's wallets: the actor profiles checked by the
+ * run first, then ActorRegistry metadata (metadataHash -> ActorProfile) for
+ * the rest when a registry client and storage are given. Unresolved wallets
+ * are left out.
+ */
+export async function resolveActorNames(
+    report: AuditReport,
+    opts: { actorRegistry?: ActorRegistryClient; storage?: StorageProvider[] } = {},
+): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    for (const p of report.summary.evidence?.actorProfiles ?? []) {
+        if (p.name) names[p.actor.toLowerCase()] = p.name;
+    }
+    const wallets = new Set(report.events.flatMap((e) => ("actor" in e ? [e.actor.toLowerCase()] : [])));
+    const { actorRegistry, storage } = opts;
+    if (!actorRegistry || !storage?.length) return names;
+
+    for (const wallet of wallets) {
+        if (names[wallet] || wallet === ZeroAddress) continue;
+        const { metadataHash } = await actorRegistry.getActor(wallet);
+        if (metadataHash === ethers.ZeroHash) continue;
+        const { bytes } = await fetchEvidence(metadataHash, [actorProfileCid(metadataHash)], storage);
+        if (!bytes) continue;
+        try {
+            const doc = parseEvidenceDocument(bytes);
+            if (doc["@type"] === "ActorProfile") names[wallet] = doc.name;
+        } catch {
+            // not a valid profile: the wallet keeps its address
+        }
+    }
+    return names;
+}
+
+// -----------------------------------------------------------------------------
+// Rows
+// -----------------------------------------------------------------------------
+
+const label = (labels: Record<number, string>, value: number) => labels[value] ?? `#${value}`;
+const short = (hex: string) => `${hex.slice(0, 10)}…`;
+const statusLabel = (status: number) => label(PROCESS_STATUS_LABEL, status as ProcessStatus);
+
+/** "Signed (EIP-712) by … on …; anchored in tx …", with `fmt` making the links. */
+function attestationText(
+    a: AuditAttestation,
+    explorer: string | undefined,
+    fmt: (url: string | undefined, text: string) => string,
+): string {
+    const by = fmt(explorer && `${explorer}/address/${a.auditor}`, a.auditor);
+    const signed = `Signed (${a.scheme === "eip191" ? "EIP-191" : "EIP-712"}) by ${by} on ${new Date(a.issuedAt * 1000).toISOString()}`;
+    if (!a.anchor) return `${signed}; not anchored on-chain.`;
+    return `${signed}; anchored in tx ${fmt(explorer && `${explorer}/tx/${a.anchor.txHash}`, short(a.anchor.txHash))} (block ${a.anchor.blockNumber}).`;
+}
+
+function eventDetails(e: AuditEvent): string {
+    switch (e.kind) {
+        case "CidAnchored":
+            return `${label(STEP_LABEL, e.stepType as StepType)} step`;
+        case "CidRootLeaf":
+            return `${label(STEP_LABEL, e.stepType as StepType)} step (Merkle root ${short(e.root)}, ${e.proof.length}-hash proof)`;
+        case "DocumentAnchored":
+            return `${label(DOC_TYPE_LABEL, e.docType as DocType)} document`;
+        case "ProcessCreated":
+            return `process created by org ${short(e.orgIdHash)}`;
+        case "ProcessStatusChanged":
+            return `${statusLabel(e.previousStatus)} → ${statusLabel(e.newStatus)}`;
+        case "PaymentRouted": {
+            const token = e.token === ZeroAddress ? "wei" : `of token ${e.token}`;
+            return `${e.amount} ${token} ${e.credited ? "credited to" : "paid to"} ${e.recipient}`;
+        }
+    }
+}
+
+/** The timeline of a report as display rows, with each event's findings attached. */
+export function auditReportRows(report: AuditReport, options: AuditReportOptions = {}): AuditReportRow[] {
+    const findings = new Map<string, AuditFinding[]>();
+    for (const f of auditReportProducts(report).flatMap((p) => p.findings ?? [])) {
+        if (!f.event) continue;
+        const key = `${f.event.txHash}:${f.event.logIndex}`;
+        findings.set(key, [...(findings.get(key) ?? []), f]);
+    }
+    const names = Object.fromEntries(Object.entries(options.actorNames ?? {}).map(([k, v]) => [k.toLowerCase(), v]));
+
+    return report.events.map((e) => {
+        const actor = "actor" in e ? e.actor : e.kind === "PaymentRouted" ? e.recipient : undefined;
+        return {
+            time: e.timestamp ? new Date(e.timestamp * 1000).toISOString() : "",
+            productId: e.productId,
+            kind: e.kind,
+            blockNumber: e.blockNumber.toString(),
+            logIndex: e.logIndex.toString(),
+            txHash: e.txHash,
+            details: eventDetails(e),
+            ...("cid" in e ? { cid: e.cid } : {}),
+            ...(actor ? { actor, actorName: names[actor.toLowerCase()] } : {}),
+            ...("cid" in e ? { evidence: evidenceStatus(e.evidence) } : {}),
+            findings: findings.get(`${e.txHash}:${e.logIndex}`) ?? [],
+        };
+    });
+}
+
+function productLabel(p: AuditReportProduct): string {
+    return p.productIdInput && p.productIdInput !== p.productId ? `${p.productIdInput} (${short(p.productId)})` : p.productId;
+}
+
+function completenessText(p: AuditReportProduct): string {
+    if (!p.completeness) return "–";
+    if (p.completeness.completeness01 === 1) return "complete";
+    return `missing ${p.completeness.missingStepTypes.map((m) => m.name).join(", ")}`;
+}
+
+function findingCounts(p: AuditReportProduct): string {
+    if (!p.rules) return "not run";
+    const { error, warning, info } = p.rules.counts;
+    return `${p.rules.passed ? "passed" : "FAILED"} (${error} error, ${warning} warning, ${info} info)`;
+}
+
+function evidenceText(summary: AuditReportSummary): string | undefined {
+    const ev = summary.evidence;
+    if (!ev) return undefined;
+    const schema = ev.schemaChecked !== undefined ? `, schema-valid ${ev.schemaValid ?? 0}/${ev.schemaChecked}` : "";
+    return `fetched ${ev.fetched}/${ev.checked}, content verified ${ev.verified}/${ev.checked}${schema}`;
+}
+
+function chainText(summary: AuditReportSummary): string | undefined {
+    const c = summary.chain;
+    return c ? `${c.network ?? "chain"} (chainId ${c.chainId})` : undefined;
+}
+
+const allFindings = (report: AuditReport) => auditReportProducts(report).flatMap((p) => p.findings ?? []);
+
+// -----------------------------------------------------------------------------
+// HTML
+// -----------------------------------------------------------------------------
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+const esc = (s: string) => s.replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+
+function link(url: string | undefined, text: string): string {
+    return url ? `<a href="${esc(url)}">${esc(text)}</a>` : esc(text);
+}
+
+const HTML_STYLE = `
+body { font: 14px/1.45 system-ui, sans-serif; color: #1d2330; max-width: 1200px; margin: 2em auto; padding: 0 1em; }
+h1 { font-size: 1.6em; margin-bottom: 0.2em; } h2 { font-size: 1.2em; margin-top: 2em; border-bottom: 1px solid #ccd; }
+table { border-collapse: collapse; width: 100%; margin: 0.5em 0; }
+th, td { border: 1px solid #ccd; padding: 4px 6px; text-align: left; vertical-align: top; }
+th { background: #eef0f5; } code { font-size: 0.9em; word-break: break-all; } .meta { color: #556; }
+.error { color: #a11; font-weight: 600; } .warning { color: #a60; } .info { color: #446; }
+.ok { color: #171; } .signature td { height: 2.5em; width: 50%; }
+@media print { a { color: inherit; text-decoration: none; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+const td = (html: string, cls?: string) => (cls ? `<td class="${cls}">${html}</td>` : `<td>${html}</td>`);
+const tr = (cells: string[]) => `<tr>${cells.join("")}</tr>`;
+const headRow = (names: string[]) => tr(names.map((n) => `<th>${esc(n)}</th>`));
+
+/** A self-contained HTML page (inline CSS, no scripts). */
+export function renderAuditHtml(report: AuditReport, options: AuditReportOptions = {}): string {
+    const { summary } = report;
+    const title = options.title ?? DEFAULT_TITLE;
+    const explorer = options.explorerUrl?.replace(/\/+$/, "");
+    const gateway = options.ipfsGateway?.replace(/\/+$/, "");
+    const txLink = (hash: string) => link(explorer && `${explorer}/tx/${hash}`, short(hash));
+    const products = auditReportProducts(report);
+    const findings = allFindings(report);
+    const multi = products.length > 1;
+
+    const meta = [
+        chainText(summary) && `Chain: ${esc(chainText(summary)!)}`,
+        summary.generatedAt && `Reconstructed: ${esc(summary.generatedAt)}`,
+        `Events: ${report.events.length}`,
+        evidenceText(summary) && `Evidence: ${esc(evidenceText(summary)!)}`,
+    ].filter(Boolean);
+
+    const productRows = products.map((p) =>
+        tr([
+            td(`<code>${esc(productLabel(p))}</code>`),
+            td(String(p.counts?.totalEvents ?? "–")),
+            td(esc(completenessText(p)), p.completeness?.completeness01 === 1 ? "ok" : "warning"),
+            td(esc(findingCounts(p)), p.rules && !p.rules.passed ? "error" : "ok"),
+        ]),
+    );
+
+    const findingRows = findings.map((f) =>
+        tr([
+            td(f.severity, f.severity),
+            td(`<code>${esc(short(f.productId))}</code>`),
+            td(esc(f.rule)),
+            td(esc(f.message)),
+            td(f.event ? txLink(f.event.txHash) : ""),
+        ]),
+    );
+
+    const eventRows = auditReportRows(report, options).map((r) => {
+        const actor = r.actor ? link(explorer && `${explorer}/address/${r.actor}`, short(r.actor)) : "";
+        const details = [
+            esc(r.details),
+            ...(r.cid ? [`<code>${link(gateway && `${gateway}/ipfs/${r.cid}`, r.cid)}</code>`] : []),
+            ...r.findings.map((f) => `<span class="${f.severity}">${f.severity}: ${esc(f.message)}</span>`),
+        ];
+        return tr([
+            td(esc(r.time || "–")),
+            ...(multi ? [td(`<code>${esc(short(r.productId))}</code>`)] : []),
+            td(esc(r.kind)),
+            td(details.join("<br>")),
+            td(r.actorName ? `${esc(r.actorName)}<br>${actor}` : actor),
+            td(esc(r.evidence ?? "")),
+            td(link(explorer && `${explorer}/block/${r.blockNumber}`, r.blockNumber)),
+            td(txLink(r.txHash)),
+        ]);
+    });
+
+    const signatory = options.signatory ?? {};
+    const signatureRows = [
+        ["Auditor", signatory.name],
+        ["Organisation", signatory.organisation],
+        ["Role", signatory.role],
+        ["Date", undefined],
+        ["Signature", undefined],
+    ].map(([name, value]) => tr([`<th>${name}</th>`, td(esc(value ?? ""))]));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${esc(title)}</h1>
+<p class="meta">${meta.join("<br>\n")}</p>
+
+<h2>Products</h2>
+<table>
+${[headRow(["Product", "Events", "Step coverage", "Audit rules"]), ...productRows].join("\n")}
+</table>
+
+<h2>Findings</h2>
+${findingRows.length
+        ? `<table>\n${[headRow(["Severity", "Product", "Rule", "Finding", "Tx"]), ...findingRows].join("\n")}\n</table>`
+        : "<p>No findings.</p>"}
+
+<h2>Timeline</h2>
+<table>
+${[headRow(["Time (UTC)", ...(multi ? ["Product"] : []), "Event", "Details", "Actor", "Evidence", "Block", "Tx"]), ...eventRows].join("\n")}
+</table>
+
+<h2>Signature</h2>
+<p>Report digest (keccak256 of the canonical JSON report): <code>${auditReportDigest(report)}</code></p>
+${report.attestation ? `<p>${attestationText(report.attestation, explorer, link)}</p>\n` : ""}<table class="signature">
+${signatureRows.join("\n")}
+</table>
+</body>
+</html>
+`;
+}
+
+// -----------------------------------------------------------------------------
+// Markdown
+// -----------------------------------------------------------------------------
+
+const cell = (s: string) => s.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+const mdLink = (url: string | undefined, text: string) => (url ? `[${text}](${url})` : text);
+
+/** Markdown with a pandoc title block and pipe tables (`pandoc report.md -o report.pdf`). */
+export function renderAuditMarkdown(report: AuditReport, options: AuditReportOptions = {}): string {
+    const { summary } = report;
+    const title = options.title ?? DEFAULT_TITLE;
+    const explorer = options.explorerUrl?.replace(/\/+$/, "");
+    const gateway = options.ipfsGateway?.replace(/\/+$/, "");
+    const txUrl = (hash: string) => (explorer ? `${explorer}/tx/${hash}` : undefined);
+    const products = auditReportProducts(report);
+    const findings = allFindings(report);
+    const multi = products.length > 1;
+
+    const lines = ["---", `title: ${JSON.stringify(title)}`];
+    if (summary.generatedAt) lines.push(`date: ${JSON.stringify(summary.generatedAt)}`);
+    lines.push("---", "");
+
+    if (chainText(summary)) lines.push(`- **Chain:** ${chainText(summary)}`);
+    if (summary.generatedAt) lines.push(`- **Reconstructed:** ${summary.generatedAt}`);
+    lines.push(`- **Events:** ${report.events.length}`);
+    if (evidenceText(summary)) lines.push(`- **Evidence:** ${evidenceText(summary)}`);
+
+    lines.push("", "## Products", "", "| Product | Events | Step coverage | Audit rules |", "|---|---|---|---|");
+    for (const p of products) {
+        const events = p.counts?.totalEvents ?? "–";
+        lines.push(`| \`${cell(productLabel(p))}\` | ${events} | ${cell(completenessText(p))} | ${cell(findingCounts(p))} |`);
+    }
+
+    lines.push("", "## Findings", "");
+    if (findings.length) {
+        lines.push("| Severity | Product | Rule | Finding | Tx |", "|---|---|---|---|---|");
+        for (const f of findings) {
+            const tx = f.event ? mdLink(txUrl(f.event.txHash), short(f.event.txHash)) : "";
+            lines.push(`| **${f.severity}** | \`${short(f.productId)}\` | ${f.rule} | ${cell(f.message)} | ${tx} |`);
+        }
+    } else {
+        lines.push("No findings.");
+    }
+
+    lines.push("", "## Timeline", "");
+    lines.push(`| Time (UTC) |${multi ? " Product |" : ""} Event | Details | Actor | Evidence | Block | Tx |`);
+    lines.push(`|---|${multi ? "---|" : ""}---|---|---|---|---|---|`);
+    for (const r of auditReportRows(report, options)) {
+        // no raw HTML in cells: pandoc's PDF engines drop it
+        const details = [
+            cell(r.details),
+            ...(r.cid ? [mdLink(gateway && `${gateway}/ipfs/${r.cid}`, `\`${r.cid}\``)] : []),
+            ...r.findings.map((f) => `**${f.severity}:** ${cell(f.message)}`),
+        ].join(" · ");
+        const address = r.actor ? mdLink(explorer && `${explorer}/address/${r.actor}`, short(r.actor)) : "";
+        const actor = r.actorName ? `${cell(r.actorName)} (${address})` : address;
+        const cells = [
+            r.time || "–",
+            ...(multi ? [`\`${short(r.productId)}\``] : []),
+            r.kind,
+            details,
+            actor,
+            r.evidence ?? "",
+            mdLink(explorer && `${explorer}/block/${r.blockNumber}`, r.blockNumber),
+            mdLink(txUrl(r.txHash), short(r.txHash)),
+        ];
+        lines.push(`| ${cells.join(" | ")} |`);
+    }
+
+    const s = options.signatory ?? {};
+    lines.push(
+        "",
+        "## Signature",
+        "",
+        `Report digest (keccak256 of the canonical JSON report): \`${auditReportDigest(report)}\``,
+        "",
+        ...(report.attestation ? [attestationText(report.attestation, explorer, mdLink), ""] : []),
+        "| | |",
+        "|---|---|",
+        `| Auditor | ${cell(s.name ?? "")} |`,
+        `| Organisation | ${cell(s.organisation ?? "")} |`,
+        `| Role | ${cell(s.role ?? "")} |`,
+        "| Date | |",
+        "| Signature | |",
+        "",
+    );
+    return lines.join("\n");
+}
+
+// -----------------------------------------------------------------------------
+// CSV
+// -----------------------------------------------------------------------------
+
+export const AUDIT_CSV_COLUMNS = [
+    "time",
+    "productId",
+    "kind",
+    "blockNumber",
+    "logIndex",
+    "txHash",
+    "txUrl",
+    "details",
+    "cid",
+    "actor",
+    "actorName",
+    "evidence",
+    "findings",
+] as const;
+
+const csvField = (s: string) => (/[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+
+/** One CSV row per event (RFC 4180), findings joined as "severity rule: message; ...". */
+export function renderAuditCsv(report: AuditReport, options: AuditReportOptions = {}): string {
+    const explorer = options.explorerUrl?.replace(/\/+$/, "");
+    const rows = auditReportRows(report, options).map((r) => {
+        const values: Record<(typeof AUDIT_CSV_COLUMNS)[number], string> = {
+            time: r.time,
+            productId: r.productId,
+            kind: r.kind,
+            blockNumber: r.blockNumber,
+            logIndex: r.logIndex,
+            txHash: r.txHash,
+            txUrl: explorer ? `${explorer}/tx/${r.txHash}` : "",
+            details: r.details,
+            cid: r.cid ?? "",
+            actor: r.actor ?? "",
+            actorName: r.actorName ?? "",
+            evidence: r.evidence ?? "",
+            findings: r.findings.map((f) => `${f.severity} ${f.rule}: ${f.message}`).join("; "),
+        };
+        return AUDIT_CSV_COLUMNS.map((c) => csvField(values[c])).join(",");
+    });
+    return [AUDIT_CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
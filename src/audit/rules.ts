@@ -0,0 +1,330 @@
+// src/audit/rules.ts
+//
+// Completeness and consistency rules over a reconstructed timeline, beyond the
+// step-type coverage of auditCompleteness. Each rule yields findings:
+//
+//   error    the record contradicts itself or the contract rules (steps out of
+//            order, a status reached before its step, an actor without the role)
+//   warning  evidence is missing (step types, stage documents) or the record
+//            disagrees with the configured graph / matrices
+//   info     observations that need no action (creation outside the timeline)
+//
+// Rules run per product. actor-role needs an ActorAt resolver, since roles are
+// checked as of each event's block; the matrices and the transition graph
+// default to the ones the contracts seed.
+
+import { ZeroHash } from "ethers";
+
+import type { ActorRegistryClient } from "../clients/index.js";
+import { DEFAULT_DOC_PERMISSIONS, DEFAULT_STEP_PERMISSIONS, type PermissionMatrix, typeLabel } from "../permissions.js";
+import { DEFAULT_TRANSITIONS, findEdge, type TransitionEdge } from "../transitions.js";
+import {
+    DocType,
+    PROCESS_STATUS_LABEL,
+    ProcessStatus,
+    ROLE_LABEL,
+    STATUS_LABEL,
+    STEP_LABEL,
+    STEP_ORDER,
+    Status,
+    StepType,
+    type Actor,
+} from "../types.js";
+import type { AuditEvent } from "./events.js";
+import { groupAuditEventsByProduct } from "./selection.js";
+
+export type AuditSeverity = "error" | "warning" | "info";
+
+export type AuditRule = "step-coverage" | "step-order" | "step-document" | "status-transition" | "status-steps" | "actor-role";
+
+export const AUDIT_RULES: readonly AuditRule[] = [
+    "step-coverage",
+    "step-order",
+    "step-document",
+    "status-transition",
+    "status-steps",
+    "actor-role",
+];
+
+export type AuditFinding = {
+    rule: AuditRule;
+    severity: AuditSeverity;
+    productId: string;
+    message: string;
+    /** The event the finding is about, if any. */
+    event?: Pick<AuditEvent, "kind" | "blockNumber" | "logIndex" | "txHash">;
+    stepType?: number;
+    stepId?: string;
+    actor?: string;
+};
+
+export type AuditRuleReport = {
+    /** Rules that ran. */
+    rules: AuditRule[];
+    findings: AuditFinding[];
+    counts: Record<AuditSeverity, number>;
+    /** No error findings. */
+    passed: boolean;
+};
+
+/** ActorRegistry state of a wallet as of a block. */
+export type ActorAt = (wallet: string, blockNumber: bigint) => Promise<Actor>;
+
+export type AuditRuleOptions = {
+    /** Default AUDIT_RULES, without actor-role when no actorAt is given. */
+    rules?: readonly AuditRule[];
+    actorAt?: ActorAt;
+    /** Default DEFAULT_STEP_PERMISSIONS / DEFAULT_DOC_PERMISSIONS. */
+    stepPermissions?: PermissionMatrix;
+    docPermissions?: PermissionMatrix;
+    /** Default DEFAULT_TRANSITIONS. */
+    transitions?: readonly TransitionEdge[];
+    /** Default STATUS_REQUIRED_STEPS. */
+    statusSteps?: Partial<Record<ProcessStatus, readonly StepType[]>>;
+};
+
+/** Step types that must be anchored before a process may enter a status. */
+export const STATUS_REQUIRED_STEPS: Partial<Record<ProcessStatus, readonly StepType[]>> = {
+    [ProcessStatus.InTransit]: [StepType.Shipped],
+    [ProcessStatus.AtRetail]: [StepType.Received, StepType.AtRetail],
+    [ProcessStatus.Sold]: [StepType.Sold],
+};
+
+type StepAnchor = Extract<AuditEvent, { kind: "CidAnchored" | "CidRootLeaf" }>;
+type StatusChange = Extract<AuditEvent, { kind: "ProcessStatusChanged" }>;
+
+const isStepAnchor = (e: AuditEvent): e is StepAnchor => e.kind === "CidAnchored" || e.kind === "CidRootLeaf";
+const stepName = (t: number) => STEP_LABEL[t as StepType] ?? `#${t}`;
+const statusName = (s: number) => PROCESS_STATUS_LABEL[s as ProcessStatus] ?? `#${s}`;
+const ref = (e: AuditEvent): AuditFinding["event"] => ({
+    kind: e.kind,
+    blockNumber: e.blockNumber,
+    logIndex: e.logIndex,
+    txHash: e.txHash,
+});
+
+/** ActorAt backed by ActorRegistry.getActor at each block (cached per wallet and block). */
+export function registryActorAt(actorRegistry: ActorRegistryClient): ActorAt {
+    const cache = new Map<string, Promise<Actor>>();
+    return (wallet, blockNumber) => {
+        const key = `${wallet.toLowerCase()}:${blockNumber}`;
+        let hit = cache.get(key);
+        if (!hit) {
+            hit = actorRegistry.getActor(wallet, blockNumber);
+            cache.set(key, hit);
+        }
+        return hit;
+    };
+}
+
+// -----------------------------------------------------------------------------
+// Rules
+// -----------------------------------------------------------------------------
+
+type Finding = Omit<AuditFinding, "rule" | "productId">;
+
+const stepFinding = (severity: AuditSeverity, message: string, a: StepAnchor): Finding => ({
+    severity,
+    message,
+    event: ref(a),
+    stepType: a.stepType,
+    stepId: a.stepId,
+});
+
+const statusFinding = (severity: AuditSeverity, message: string, c: StatusChange): Finding => ({
+    severity,
+    message,
+    event: ref(c),
+    actor: c.actor,
+});
+
+function stepCoverage(events: AuditEvent[]): Finding[] {
+    const anchors = events.filter(isStepAnchor);
+    const seen = new Set(anchors.map((a) => a.stepType));
+    const out: Finding[] = STEP_ORDER.filter((t) => !seen.has(t)).map((stepType) => ({
+        severity: "warning",
+        message: `no ${stepName(stepType)} step anchored`,
+        stepType,
+    }));
+    for (const a of anchors) {
+        if (!STEP_ORDER.includes(a.stepType)) {
+            out.push(stepFinding("warning", `step type ${stepName(a.stepType)} is not part of the step sequence`, a));
+        }
+    }
+    return out;
+}
+
+function stepOrder(events: AuditEvent[]): Finding[] {
+    const out: Finding[] = [];
+    const first = new Map<number, StepAnchor>();
+    for (const a of events.filter(isStepAnchor)) {
+        const rank = STEP_ORDER.indexOf(a.stepType);
+        if (rank < 0 || first.has(a.stepType)) continue;
+        // steps of one tx (a batch or a root) count as simultaneous
+        const later = [...first.values()].filter((b) => STEP_ORDER.indexOf(b.stepType) > rank && b.txHash !== a.txHash);
+        if (later.length) {
+            const after = later.map((b) => `${stepName(b.stepType)} (block ${b.blockNumber})`).join(", ");
+            out.push(stepFinding("error", `${stepName(a.stepType)} anchored at block ${a.blockNumber}, after ${after}`, a));
+        }
+        first.set(a.stepType, a);
+    }
+    return out;
+}
+
+function stepDocument(events: AuditEvent[]): Finding[] {
+    const out: Finding[] = [];
+    const docs = new Map<string, Extract<AuditEvent, { kind: "DocumentAnchored" }>[]>();
+    for (const e of events) {
+        // attestations sign a whole report (stepId = its digest), they are not stage records
+        if (e.kind !== "DocumentAnchored" || e.docType === DocType.AuditAttestation) continue;
+        const key = e.stepId.toLowerCase();
+        docs.set(key, [...(docs.get(key) ?? []), e]);
+    }
+    const anchors = events.filter(isStepAnchor);
+    for (const a of anchors) {
+        const forStep = docs.get(a.stepId.toLowerCase()) ?? [];
+        if (!forStep.length) {
+            out.push(stepFinding("warning", `no DocumentAnchored for the ${stepName(a.stepType)} step`, a));
+        } else if (STEP_ORDER.includes(a.stepType) && !forStep.some((d) => d.docType === a.stepType)) {
+            // DocType 1..6 line up with StepType: each step has its stage record
+            const has = forStep.map((d) => typeLabel("doc", d.docType)).join(", ");
+            out.push(stepFinding("warning", `the ${stepName(a.stepType)} step has ${has} but no ${typeLabel("doc", a.stepType)}`, a));
+        }
+    }
+    const steps = new Set(anchors.map((a) => a.stepId.toLowerCase()));
+    for (const [stepId, list] of docs) {
+        if (steps.has(stepId) || stepId === ZeroHash) continue;
+        out.push({
+            severity: "info",
+            message: `${typeLabel("doc", list[0].docType)} anchored for a step without a CID anchor`,
+            event: ref(list[0]),
+            stepId: list[0].stepId,
+        });
+    }
+    return out;
+}
+
+function statusTransition(events: AuditEvent[], transitions: readonly TransitionEdge[]): Finding[] {
+    const out: Finding[] = [];
+    const changes = events.filter((e): e is StatusChange => e.kind === "ProcessStatusChanged");
+    if (!changes.length) {
+        if (events.some(isStepAnchor)) out.push({ severity: "info", message: "no ProcessManager status in the timeline" });
+        return out;
+    }
+    if (!events.some((e) => e.kind === "ProcessCreated")) {
+        out.push({ severity: "info", message: "the process was created outside the timeline" });
+    }
+    let status: number | undefined;
+    for (const c of changes) {
+        const edge = `${statusName(c.previousStatus)} -> ${statusName(c.newStatus)}`;
+        if (c.previousStatus === ProcessStatus.Unknown && c.newStatus === ProcessStatus.Created) {
+            if (status !== undefined) out.push(statusFinding("error", `process created again while ${statusName(status)}`, c));
+        } else {
+            if (status !== undefined && c.previousStatus !== status) {
+                out.push(statusFinding("error", `${edge} does not follow the last status ${statusName(status)}`, c));
+            }
+            if (!findEdge(transitions, c.previousStatus, c.newStatus)) {
+                out.push(statusFinding("warning", `${edge} is not in the transition graph`, c));
+            }
+        }
+        status = c.newStatus;
+    }
+    return out;
+}
+
+function statusSteps(events: AuditEvent[], required: Partial<Record<ProcessStatus, readonly StepType[]>>): Finding[] {
+    const out: Finding[] = [];
+    const anchored = new Set<number>();
+    let status: number | undefined;
+    for (const e of events) {
+        if (isStepAnchor(e)) {
+            if (status === ProcessStatus.Suspended || status === ProcessStatus.Revoked) {
+                out.push(stepFinding("warning", `${stepName(e.stepType)} anchored while the process was ${statusName(status)}`, e));
+            }
+            anchored.add(e.stepType);
+        } else if (e.kind === "ProcessStatusChanged") {
+            status = e.newStatus;
+            for (const stepType of required[e.newStatus as ProcessStatus] ?? []) {
+                if (anchored.has(stepType)) continue;
+                const message = `${statusName(e.newStatus)} at block ${e.blockNumber} before any ${stepName(stepType)} anchor`;
+                out.push({ ...statusFinding("error", message, e), stepType });
+            }
+        }
+    }
+    return out;
+}
+
+async function actorRole(events: AuditEvent[], actorAt: ActorAt, options: AuditRuleOptions): Promise<Finding[]> {
+    const stepPermissions = options.stepPermissions ?? DEFAULT_STEP_PERMISSIONS;
+    const docPermissions = options.docPermissions ?? DEFAULT_DOC_PERMISSIONS;
+    const transitions = options.transitions ?? DEFAULT_TRANSITIONS;
+
+    const out: Finding[] = [];
+    for (const e of events) {
+        if (!("actor" in e)) continue;
+        const actor = await actorAt(e.actor, e.blockNumber);
+        const at = `at block ${e.blockNumber}`;
+        const finding = (message: string): Finding => ({
+            severity: "error",
+            message,
+            event: ref(e),
+            actor: e.actor,
+            ...("stepType" in e ? { stepType: e.stepType } : {}),
+            ...("stepId" in e ? { stepId: e.stepId } : {}),
+        });
+
+        if (actor.orgIdHash === ZeroHash) {
+            out.push(finding(`${e.actor} was not registered ${at}`));
+            continue;
+        }
+        if (actor.orgIdHash.toLowerCase() !== e.orgIdHash.toLowerCase()) {
+            out.push(finding(`${e.actor} belonged to org ${actor.orgIdHash} ${at}, the event names ${e.orgIdHash}`));
+        }
+        if (actor.status !== Status.Active) {
+            out.push(finding(`${e.actor} was ${STATUS_LABEL[actor.status] ?? actor.status} ${at}`));
+        }
+        const role = ROLE_LABEL[actor.role] ?? `#${actor.role}`;
+        if (isStepAnchor(e) && !(stepPermissions[actor.role] ?? []).includes(e.stepType)) {
+            out.push(finding(`role ${role} may not anchor ${stepName(e.stepType)} steps (${e.actor} ${at})`));
+        } else if (e.kind === "DocumentAnchored" && !(docPermissions[actor.role] ?? []).includes(e.docType)) {
+            out.push(finding(`role ${role} may not anchor ${typeLabel("doc", e.docType)} documents (${e.actor} ${at})`));
+        } else if (e.kind === "ProcessStatusChanged" && e.previousStatus !== ProcessStatus.Unknown) {
+            const edge = findEdge(transitions, e.previousStatus, e.newStatus);
+            if (edge && !edge.roles.includes(actor.role)) {
+                const move = `${statusName(e.previousStatus)} -> ${statusName(e.newStatus)}`;
+                out.push(finding(`role ${role} may not move ${move} (${e.actor} ${at})`));
+            }
+        }
+    }
+    return out;
+}
+
+// -----------------------------------------------------------------------------
+// Engine
+// -----------------------------------------------------------------------------
+
+/** Run the rules over `events` (chain order, any number of products). */
+export async function runAuditRules(events: AuditEvent[], options: AuditRuleOptions = {}): Promise<AuditRuleReport> {
+    const rules = [...(options.rules ?? AUDIT_RULES.filter((r) => r !== "actor-role" || options.actorAt))];
+    const { actorAt } = options;
+    if (rules.includes("actor-role") && !actorAt) throw new Error("the actor-role rule needs an actorAt resolver");
+
+    const findings: AuditFinding[] = [];
+    for (const [, product] of groupAuditEventsByProduct(events)) {
+        const productId = product[0].productId;
+        for (const rule of AUDIT_RULES.filter((r) => rules.includes(r))) {
+            let found: Finding[];
+            if (rule === "step-coverage") found = stepCoverage(product);
+            else if (rule === "step-order") found = stepOrder(product);
+            else if (rule === "step-document") found = stepDocument(product);
+            else if (rule === "status-transition") found = statusTransition(product, options.transitions ?? DEFAULT_TRANSITIONS);
+            else if (rule === "status-steps") found = statusSteps(product, options.statusSteps ?? STATUS_REQUIRED_STEPS);
+            else found = await actorRole(product, actorAt!, options);
+            findings.push(...found.map((f) => ({ rule, productId, ...f })));
+        }
+    }
+
+    const counts = { error: 0, warning: 0, info: 0 };
+    for (const f of findings) counts[f.severity]++;
+    return { rules, findings, counts, passed: counts.error === 0 };
+}
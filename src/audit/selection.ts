@@ -0,0 +1,117 @@
+// src/audit/selection.ts
+//
+// What an audit covers: a set of products, the orgs or wallets that acted on
+// them and a block / time window. Selections are combined with AND across
+// dimensions; within "who", an event matches if its org OR its wallet is
+// selected (for payments the wallet is the recipient). Completeness is the
+// step-type coverage of one product's reconstructed timeline.
+
+import { ethers } from "ethers";
+
+import { STEP_LABEL, STEP_ORDER, type StepType } from "../types.js";
+import type { AuditEvent } from "./events.js";
+
+export type AuditSelection = {
+    /** bytes32 product ids. */
+    productIds?: string[];
+    /** bytes32 org ids. */
+    orgIdHashes?: string[];
+    /** Actor wallets. */
+    actors?: string[];
+    /** Inclusive block window. */
+    fromBlock?: bigint;
+    toBlock?: bigint;
+    /** Inclusive unix-seconds window; events without a timestamp fall outside it. */
+    fromTime?: number;
+    toTime?: number;
+};
+
+export type StepTypeRef = { stepType: number; name: string };
+
+export type AuditCompleteness = {
+    requiredStepTypes: StepTypeRef[];
+    seenStepTypes: StepTypeRef[];
+    missingStepTypes: StepTypeRef[];
+    /** 1 when every step type of STEP_ORDER is anchored (CidAnchored or a verified CidRootLeaf). */
+    completeness01: 0 | 1;
+};
+
+export type AuditCounts = {
+    totalEvents: number;
+    cidAnchors: number;
+    cidRootLeaves: number;
+    documentAnchors: number;
+    processEvents: number;
+    payments: number;
+};
+
+const lower = (values?: string[]) => (values?.length ? new Set(values.map((v) => v.toLowerCase())) : undefined);
+
+/** The wallet behind an event: its actor, or the recipient of a payment. */
+export function auditEventWallet(e: AuditEvent): string | undefined {
+    if (e.kind === "PaymentRouted") return e.recipient;
+    return "actor" in e ? e.actor : undefined;
+}
+
+/** Build a predicate for `selection` (sets are built once). */
+export function auditSelectionFilter(selection: AuditSelection): (e: AuditEvent) => boolean {
+    const products = lower(selection.productIds);
+    const orgs = lower(selection.orgIdHashes);
+    const actors = lower(selection.actors?.map((a) => ethers.getAddress(a)));
+    const { fromBlock, toBlock, fromTime, toTime } = selection;
+
+    return (e) => {
+        if (products && !products.has(e.productId.toLowerCase())) return false;
+        if (orgs || actors) {
+            const org = "orgIdHash" in e ? e.orgIdHash.toLowerCase() : undefined;
+            const wallet = auditEventWallet(e)?.toLowerCase();
+            if (!(org && orgs?.has(org)) && !(wallet && actors?.has(wallet))) return false;
+        }
+        if (fromBlock !== undefined && e.blockNumber < fromBlock) return false;
+        if (toBlock !== undefined && e.blockNumber > toBlock) return false;
+        if (fromTime !== undefined || toTime !== undefined) {
+            if (e.timestamp === undefined) return false;
+            if (fromTime !== undefined && e.timestamp < fromTime) return false;
+            if (toTime !== undefined && e.timestamp > toTime) return false;
+        }
+        return true;
+    };
+}
+
+export function auditCounts(events: AuditEvent[]): AuditCounts {
+    const count = (...kinds: AuditEvent["kind"][]) => events.filter((e) => kinds.includes(e.kind)).length;
+    return {
+        totalEvents: events.length,
+        cidAnchors: count("CidAnchored"),
+        cidRootLeaves: count("CidRootLeaf"),
+        documentAnchors: count("DocumentAnchored"),
+        processEvents: count("ProcessCreated", "ProcessStatusChanged"),
+        payments: count("PaymentRouted"),
+    };
+}
+
+/** Step-type coverage of one product's events. */
+export function auditCompleteness(events: AuditEvent[]): AuditCompleteness {
+    const ref = (stepType: number): StepTypeRef => ({ stepType, name: STEP_LABEL[stepType as StepType] });
+    const seen = new Set<number>();
+    for (const e of events) if (e.kind === "CidAnchored" || e.kind === "CidRootLeaf") seen.add(e.stepType);
+    const missing = STEP_ORDER.filter((s) => !seen.has(s));
+    return {
+        requiredStepTypes: STEP_ORDER.map(ref),
+        seenStepTypes: Array.from(seen).sort((a, b) => a - b).map(ref),
+        missingStepTypes: missing.map(ref),
+        completeness01: missing.length === 0 ? 1 : 0,
+    };
+}
+
+/** Events grouped by productId, in order of first appearance. */
+export function groupAuditEventsByProduct<T extends Pick<AuditEvent, "productId">>(events: T[]): Map<string, T[]> {
+    const out = new Map<string, T[]>();
+    for (const e of events) {
+        const key = e.productId.toLowerCase();
+        const list = out.get(key);
+        if (list) list.push(e);
+        else out.set(key, [e]);
+    }
+    return out;
+}
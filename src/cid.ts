@@ -0,0 +1,207 @@
+// src/cid.ts
+//
+// IPFS CIDs <-> the bytes32 cidHash fields of CidAnchored / DocumentAnchored.
+//
+// A CID is <version><codec><multihash>, the multihash <hash fn><length><digest>.
+// For sha2-256 CIDs (everything Kubo, Filebase and ipfs-only-hash produce by
+// default) the 32-byte digest is the on-chain cidHash. CIDv0 (Qm...) is
+// dag-pb + sha2-256 in base58btc; CIDv1 strings carry a multibase prefix
+// (b = base32, z = base58btc, f = base16).
+//
+// The digest alone does not say which codec the CID used. The codec is fixed
+// by the anchor's type instead: a CidCodecPolicy maps every StepType and
+// DocType to one codec, uploads are made in that layout and encodeCidHash
+// refuses CIDs of another codec, so cidFromCidHash rebuilds the exact CID
+// from a log. DEFAULT_CID_CODECS anchors steps as raw CIDs (small JSON step
+// records, one block) and documents as dag-pb CIDs (any size; Filebase S3
+// pins as CIDv0, which is dag-pb too).
+
+import { ethers } from "ethers";
+
+export const CID_CODEC_RAW = 0x55;
+export const CID_CODEC_DAG_PB = 0x70;
+export const MULTIHASH_SHA2_256 = 0x12;
+
+export const CID_CODEC_LABEL: Record<number, string> = {
+    [CID_CODEC_RAW]: "raw",
+    [CID_CODEC_DAG_PB]: "dag-pb",
+};
+
+/** Largest file that still gets a raw CID: Kubo's default chunk size. */
+export const RAW_CID_MAX_BYTES = 256 * 1024;
+
+/** Where a cidHash was anchored: a CidRollup step (CidAnchored or root leaf) or a DocumentRegistry document. */
+export type CidAnchorKind = "step" | "doc";
+
+export type CidCodecPolicy = {
+    /** Codec of every StepType without an entry in `types.step`. */
+    step: number;
+    /** Codec of every DocType without an entry in `types.doc`. */
+    doc: number;
+    /** Per-type exceptions, e.g. `{ doc: { [DocType.SaleRecord]: CID_CODEC_RAW } }`. */
+    types?: Partial<Record<CidAnchorKind, Record<number, number>>>;
+};
+
+export const DEFAULT_CID_CODECS: CidCodecPolicy = {
+    step: CID_CODEC_RAW,
+    doc: CID_CODEC_DAG_PB,
+};
+
+export type DecodedCid = {
+    version: 0 | 1;
+    codec: number;
+    hashCode: number;
+    digest: Uint8Array;
+};
+
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+function base32Decode(s: string): Uint8Array {
+    const out: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const ch of s.toLowerCase()) {
+        const i = BASE32.indexOf(ch);
+        if (i < 0) throw new Error(`Invalid base32 character "${ch}"`);
+        value = (value << 5) | i;
+        bits += 5;
+        if (bits >= 8) {
+            out.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return Uint8Array.from(out);
+}
+
+function base32Encode(bytes: Uint8Array): string {
+    let out = "";
+    let bits = 0;
+    let value = 0;
+    for (const b of bytes) {
+        value = (value << 8) | b;
+        bits += 8;
+        while (bits >= 5) {
+            out += BASE32[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+    return out;
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [value: number, next: number] {
+    let value = 0;
+    let shift = 0;
+    for (let i = offset; i < bytes.length && shift < 49; i++) {
+        value += (bytes[i] & 0x7f) * 2 ** shift;
+        if ((bytes[i] & 0x80) === 0) return [value, i + 1];
+        shift += 7;
+    }
+    throw new Error("Truncated varint in CID");
+}
+
+function writeVarint(value: number): number[] {
+    const out: number[] = [];
+    do {
+        let b = value & 0x7f;
+        value = Math.floor(value / 128);
+        if (value > 0) b |= 0x80;
+        out.push(b);
+    } while (value > 0);
+    return out;
+}
+
+function parseMultihash(bytes: Uint8Array, offset: number): { hashCode: number; digest: Uint8Array } {
+    const [hashCode, lenAt] = readVarint(bytes, offset);
+    const [length, digestAt] = readVarint(bytes, lenAt);
+    if (digestAt + length !== bytes.length) throw new Error("CID multihash length does not match its digest");
+    return { hashCode, digest: bytes.slice(digestAt) };
+}
+
+export function decodeCid(cid: string): DecodedCid {
+    const s = cid.trim();
+    if (s.length === 46 && s.startsWith("Qm")) {
+        const multihash = ethers.toBeArray(ethers.decodeBase58(s));
+        return { version: 0, codec: CID_CODEC_DAG_PB, ...parseMultihash(multihash, 0) };
+    }
+
+    let bytes: Uint8Array;
+    switch (s[0]) {
+        case "b":
+        case "B":
+            bytes = base32Decode(s.slice(1));
+            break;
+        case "z":
+            bytes = ethers.toBeArray(ethers.decodeBase58(s.slice(1)));
+            break;
+        case "f":
+        case "F":
+            bytes = ethers.getBytes(`0x${s.slice(1)}`);
+            break;
+        default:
+            throw new Error(`Unsupported CID or multibase: ${cid}`);
+    }
+
+    const [version, codecAt] = readVarint(bytes, 0);
+    if (version !== 1) throw new Error(`Unsupported CID version ${version}: ${cid}`);
+    const [codec, hashAt] = readVarint(bytes, codecAt);
+    return { version: 1, codec, ...parseMultihash(bytes, hashAt) };
+}
+
+/** The on-chain cidHash of a sha2-256 CID: its 32-byte digest as bytes32 hex. */
+export function cidHashFromCid(cid: string): string {
+    const { hashCode, digest } = decodeCid(cid);
+    if (hashCode !== MULTIHASH_SHA2_256 || digest.length !== 32) {
+        throw new Error(`Only sha2-256 CIDs fit a bytes32 cidHash (${cid} uses hash 0x${hashCode.toString(16)})`);
+    }
+    return ethers.hexlify(digest);
+}
+
+/** Base32 CIDv1 for a sha2-256 digest (bytes32) and codec (raw -> bafkrei..., dag-pb -> bafybei...). */
+export function cidV1FromCidHash(cidHash: string, codec: number = CID_CODEC_RAW): string {
+    const digest = ethers.getBytes(cidHash);
+    if (digest.length !== 32) throw new Error("cidHash must be bytes32");
+    const bytes = Uint8Array.from([1, ...writeVarint(codec), MULTIHASH_SHA2_256, 32, ...digest]);
+    return `b${base32Encode(bytes)}`;
+}
+
+// -----------------------------------------------------------------------------
+// Codec policy
+// -----------------------------------------------------------------------------
+
+export function cidCodecFor(kind: CidAnchorKind, type: number, policy: CidCodecPolicy = DEFAULT_CID_CODECS): number {
+    return policy.types?.[kind]?.[type] ?? policy[kind];
+}
+
+/**
+ * cidHash to anchor `cid` as a `kind` of `type`. Throws if the CID's codec is
+ * not the one the policy gives that type, since the CID could then not be
+ * rebuilt from the log.
+ */
+export function encodeCidHash(
+    cid: string,
+    kind: CidAnchorKind,
+    type: number,
+    policy: CidCodecPolicy = DEFAULT_CID_CODECS,
+): string {
+    const { codec } = decodeCid(cid);
+    const expected = cidCodecFor(kind, type, policy);
+    if (codec !== expected) {
+        const name = (c: number) => CID_CODEC_LABEL[c] ?? `0x${c.toString(16)}`;
+        throw new Error(
+            `${cid} is a ${name(codec)} CID, but ${kind} type ${type} is anchored as ${name(expected)}` +
+            (expected === CID_CODEC_RAW ? ` (raw CIDs need raw leaves and at most ${RAW_CID_MAX_BYTES} bytes)` : ""),
+        );
+    }
+    return cidHashFromCid(cid);
+}
+
+/** The CID behind an anchored cidHash: its digest under the codec the policy gives `kind` / `type`. */
+export function cidFromCidHash(
+    cidHash: string,
+    kind: CidAnchorKind,
+    type: number,
+    policy: CidCodecPolicy = DEFAULT_CID_CODECS,
+): string {
+    return cidV1FromCidHash(cidHash, cidCodecFor(kind, type, policy));
+}
@@ -0,0 +1,103 @@
+// src/clients/actor-registry.ts
+
+import type { BlockTag, ContractRunner, ContractTransactionResponse } from "ethers";
+
+import { ACTOR_REGISTRY_ABI } from "../abi.js";
+import { Role, Status, type Actor, type OrgActor } from "../types.js";
+import { ContractClient } from "./base.js";
+
+/** Typed client for ActorRegistry.sol. */
+export class ActorRegistryClient extends ContractClient {
+    constructor(address: string, runner: ContractRunner | null = null) {
+        super(address, ACTOR_REGISTRY_ABI, runner);
+    }
+
+    connect(runner: ContractRunner | null): ActorRegistryClient {
+        return new ActorRegistryClient(this.address, runner);
+    }
+
+    // ------------------------------------------------------------------------
+    // Views
+    // ------------------------------------------------------------------------
+
+    async owner(): Promise<string> {
+        return await this.contract.owner();
+    }
+
+    /** The wallet's org as of `blockTag` (default latest; older blocks need an archive RPC). */
+    async getActor(wallet: string, blockTag?: BlockTag): Promise<Actor> {
+        const [orgIdHash, role, status, metadataHash] = await this.contract.getActor(wallet, { blockTag });
+        return {
+            orgIdHash,
+            role: Number(role) as Role,
+            status: Number(status) as Status,
+            metadataHash,
+        };
+    }
+
+    async getActorByOrg(orgIdHash: string): Promise<OrgActor> {
+        const [wallet, role, status, metadataHash] = await this.contract.getActorByOrg(orgIdHash);
+        return {
+            wallet,
+            role: Number(role) as Role,
+            status: Number(status) as Status,
+            metadataHash,
+        };
+    }
+
+    async hasRole(wallet: string, role: Role): Promise<boolean> {
+        return await this.contract.hasRole(wallet, role);
+    }
+
+    async isActiveActor(wallet: string): Promise<boolean> {
+        return await this.contract.isActiveActor(wallet);
+    }
+
+    /** Every wallet authorised for the org, primary first (empty for unknown orgs). */
+    async getOrgWallets(orgIdHash: string): Promise<string[]> {
+        return [...(await this.contract.getOrgWallets(orgIdHash))];
+    }
+
+    // ------------------------------------------------------------------------
+    // Owner-only writes
+    // ------------------------------------------------------------------------
+
+    async transferOwnership(newOwner: string): Promise<ContractTransactionResponse> {
+        return await this.contract.transferOwnership(newOwner);
+    }
+
+    async registerActor(
+        orgIdHash: string,
+        wallet: string,
+        role: Role,
+        metadataHash: string,
+    ): Promise<ContractTransactionResponse> {
+        return await this.contract.registerActor(orgIdHash, wallet, role, metadataHash);
+    }
+
+    async updateActorRole(orgIdHash: string, newRole: Role): Promise<ContractTransactionResponse> {
+        return await this.contract.updateActorRole(orgIdHash, newRole);
+    }
+
+    async updateActorStatus(orgIdHash: string, newStatus: Status): Promise<ContractTransactionResponse> {
+        return await this.contract.updateActorStatus(orgIdHash, newStatus);
+    }
+
+    async updateActorMetadata(orgIdHash: string, newMetadataHash: string): Promise<ContractTransactionResponse> {
+        return await this.contract.updateActorMetadata(orgIdHash, newMetadataHash);
+    }
+
+    async addOrgWallet(orgIdHash: string, wallet: string): Promise<ContractTransactionResponse> {
+        return await this.contract.addOrgWallet(orgIdHash, wallet);
+    }
+
+    /** The org must keep at least one wallet; removing the primary promotes the last-added wallet. */
+    async removeOrgWallet(orgIdHash: string, wallet: string): Promise<ContractTransactionResponse> {
+        return await this.contract.removeOrgWallet(orgIdHash, wallet);
+    }
+
+    /** Replace oldWallet in place, e.g. after a key compromise; a primary stays primary. */
+    async rotateOrgWallet(orgIdHash: string, oldWallet: string, newWallet: string): Promise<ContractTransactionResponse> {
+        return await this.contract.rotateOrgWallet(orgIdHash, oldWallet, newWallet);
+    }
+}
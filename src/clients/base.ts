@@ -0,0 +1,16 @@
+// src/clients/base.ts
+//
+// Shared plumbing for the typed contract clients: every client wraps one
+// ethers Contract bound to a fixed address and ABI.
+
+import { Contract, type ContractRunner, type InterfaceAbi } from "ethers";
+
+export abstract class ContractClient {
+    readonly address: string;
+    readonly contract: Contract;
+
+    protected constructor(address: string, abi: InterfaceAbi, runner: ContractRunner | null = null) {
+        this.address = address;
+        this.contract = new Contract(address, abi, runner);
+    }
+}
@@ -0,0 +1,99 @@
+// src/clients/cid-rollup.ts
+
+import { ZeroAddress, type ContractRunner, type ContractTransactionResponse, type Overrides } from "ethers";
+
+import { CID_ROLLUP_ABI } from "../abi.js";
+import { stepKey } from "../ids.js";
+import type { CidEvent, Role, RootAnchor, SignedCidBatch } from "../types.js";
+import { ContractClient } from "./base.js";
+
+/** Typed client for CidRollup.sol. */
+export class CidRollupClient extends ContractClient {
+    constructor(address: string, runner: ContractRunner | null = null) {
+        super(address, CID_ROLLUP_ABI, runner);
+    }
+
+    connect(runner: ContractRunner | null): CidRollupClient {
+        return new CidRollupClient(this.address, runner);
+    }
+
+    async actorRegistry(): Promise<string> {
+        return await this.contract.actorRegistry();
+    }
+
+    /** True if (productId, stepId) has already been anchored. */
+    async isStepAnchored(productId: string, stepId: string): Promise<boolean> {
+        return await this.contract.usedStepKey(stepKey(productId, stepId));
+    }
+
+    /** Bitmask of step types `role` may anchor (bit i = stepType i). */
+    async stepPermissions(role: Role): Promise<bigint> {
+        return await this.contract.stepPermissions(role);
+    }
+
+    async isStepAllowed(role: Role, stepType: number): Promise<boolean> {
+        return await this.contract.isStepAllowed(role, stepType);
+    }
+
+    /** ActorRegistry owner only. */
+    async setStepPermission(role: Role, stepType: number, allowed: boolean): Promise<ContractTransactionResponse> {
+        return await this.contract.setStepPermission(role, stepType, allowed);
+    }
+
+    async submitCidBatch(events: CidEvent[]): Promise<ContractTransactionResponse> {
+        return await this.contract.submitCidBatch(events);
+    }
+
+    /** Nonce the signer's next relayed batch must carry. */
+    async nonces(signer: string): Promise<bigint> {
+        return await this.contract.nonces(signer);
+    }
+
+    async domainSeparator(): Promise<string> {
+        return await this.contract.domainSeparator();
+    }
+
+    /** Submit a batch signed by `batch.signer`; the caller (relayer) pays the gas. */
+    async submitCidBatchFor(batch: SignedCidBatch, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+        return await this.contract.submitCidBatchFor(
+            batch.signer,
+            batch.events,
+            batch.nonce,
+            batch.deadline,
+            batch.signature,
+            overrides,
+        );
+    }
+
+    /** Gas of submitCidBatchFor(batch) from the runner; throws the revert if the batch would fail. */
+    async estimateSubmitCidBatchFor(batch: SignedCidBatch): Promise<bigint> {
+        return await this.contract.submitCidBatchFor.estimateGas(
+            batch.signer,
+            batch.events,
+            batch.nonce,
+            batch.deadline,
+            batch.signature,
+        );
+    }
+
+    /** Anchor a Merkle root over `leafCount` CidEvents (see src/merkle.ts). */
+    async submitCidRoot(root: string, leafCount: number, stepTypeMask: bigint): Promise<ContractTransactionResponse> {
+        return await this.contract.submitCidRoot(root, leafCount, stepTypeMask);
+    }
+
+    /** Who anchored `root` and when; null if the root was never anchored. */
+    async getRootAnchor(root: string): Promise<RootAnchor | null> {
+        const [actor, blockNumber, leafCount, stepTypeMask] = await this.contract.rootAnchors(root);
+        if (actor === ZeroAddress) return null;
+        return { actor, blockNumber, leafCount: Number(leafCount), stepTypeMask };
+    }
+
+    async cidLeafHash(event: CidEvent): Promise<string> {
+        return await this.contract.cidLeafHash(event);
+    }
+
+    /** On-chain inclusion check of `event` in the anchored `root`. */
+    async verifyCidInclusion(event: CidEvent, root: string, proof: string[]): Promise<boolean> {
+        return await this.contract.verifyCidInclusion(event, root, proof);
+    }
+}
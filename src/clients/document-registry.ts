@@ -0,0 +1,50 @@
+// src/clients/document-registry.ts
+
+import type { ContractRunner, ContractTransactionResponse } from "ethers";
+
+import { DOCUMENT_REGISTRY_ABI } from "../abi.js";
+import type { DocumentInput, Role } from "../types.js";
+import { ContractClient } from "./base.js";
+
+/** Typed client for DocumentRegistry.sol. */
+export class DocumentRegistryClient extends ContractClient {
+    constructor(address: string, runner: ContractRunner | null = null) {
+        super(address, DOCUMENT_REGISTRY_ABI, runner);
+    }
+
+    connect(runner: ContractRunner | null): DocumentRegistryClient {
+        return new DocumentRegistryClient(this.address, runner);
+    }
+
+    async actorRegistry(): Promise<string> {
+        return await this.contract.actorRegistry();
+    }
+
+    /** Bitmask of document types `role` may anchor (bit i = docType i). */
+    async docPermissions(role: Role): Promise<bigint> {
+        return await this.contract.docPermissions(role);
+    }
+
+    async isDocAllowed(role: Role, docType: number): Promise<boolean> {
+        return await this.contract.isDocAllowed(role, docType);
+    }
+
+    /** ActorRegistry owner only. */
+    async setDocPermission(role: Role, docType: number, allowed: boolean): Promise<ContractTransactionResponse> {
+        return await this.contract.setDocPermission(role, docType, allowed);
+    }
+
+    async anchorDocument(
+        productId: string,
+        stepId: string,
+        cidHash: string,
+        docType: number,
+    ): Promise<ContractTransactionResponse> {
+        return await this.contract.anchorDocument(productId, stepId, cidHash, docType);
+    }
+
+    /** One DocumentAnchored per entry; reverts entirely if any docType is not allowed. */
+    async anchorDocumentBatch(docs: DocumentInput[]): Promise<ContractTransactionResponse> {
+        return await this.contract.anchorDocumentBatch(docs);
+    }
+}
@@ -0,0 +1,46 @@
+// src/clients/erc20.ts
+
+import type { ContractRunner, ContractTransactionResponse } from "ethers";
+
+import { MOCK_ERC20_ABI } from "../abi.js";
+import { ContractClient } from "./base.js";
+
+/** Typed client for an ERC-20 payment token; mint/setBlocked only exist on MockERC20. */
+export class Erc20Client extends ContractClient {
+    constructor(address: string, runner: ContractRunner | null = null) {
+        super(address, MOCK_ERC20_ABI, runner);
+    }
+
+    connect(runner: ContractRunner | null): Erc20Client {
+        return new Erc20Client(this.address, runner);
+    }
+
+    async symbol(): Promise<string> {
+        return await this.contract.symbol();
+    }
+
+    async decimals(): Promise<number> {
+        return Number(await this.contract.decimals());
+    }
+
+    async balanceOf(account: string): Promise<bigint> {
+        return await this.contract.balanceOf(account);
+    }
+
+    async allowance(owner: string, spender: string): Promise<bigint> {
+        return await this.contract.allowance(owner, spender);
+    }
+
+    async approve(spender: string, amount: bigint): Promise<ContractTransactionResponse> {
+        return await this.contract.approve(spender, amount);
+    }
+
+    async transfer(to: string, amount: bigint): Promise<ContractTransactionResponse> {
+        return await this.contract.transfer(to, amount);
+    }
+
+    /** MockERC20 only. */
+    async mint(to: string, amount: bigint): Promise<ContractTransactionResponse> {
+        return await this.contract.mint(to, amount);
+    }
+}
@@ -0,0 +1,40 @@
+// src/clients/index.ts
+
+import type { ContractRunner } from "ethers";
+
+import type { FairtradeAddresses } from "../types.js";
+import { ActorRegistryClient } from "./actor-registry.js";
+import { CidRollupClient } from "./cid-rollup.js";
+import { DocumentRegistryClient } from "./document-registry.js";
+import { PaymentRouterClient } from "./payment-router.js";
+import { ProcessManagerClient } from "./process-manager.js";
+
+export { ContractClient } from "./base.js";
+export { ActorRegistryClient } from "./actor-registry.js";
+export { CidRollupClient } from "./cid-rollup.js";
+export { DocumentRegistryClient } from "./document-registry.js";
+export { Erc20Client } from "./erc20.js";
+export { PaymentRouterClient } from "./payment-router.js";
+export { ProcessManagerClient } from "./process-manager.js";
+
+export type FairtradeClients = {
+    actorRegistry: ActorRegistryClient;
+    documentRegistry: DocumentRegistryClient;
+    processManager: ProcessManagerClient;
+    cidRollup: CidRollupClient;
+    paymentRouter: PaymentRouterClient;
+};
+
+/** Build one client per deployed contract, all sharing the same runner. */
+export function connectFairtrade(
+    addresses: FairtradeAddresses,
+    runner: ContractRunner | null = null,
+): FairtradeClients {
+    return {
+        actorRegistry: new ActorRegistryClient(addresses.ActorRegistry, runner),
+        documentRegistry: new DocumentRegistryClient(addresses.DocumentRegistry, runner),
+        processManager: new ProcessManagerClient(addresses.ProcessManager, runner),
+        cidRollup: new CidRollupClient(addresses.CidRollup, runner),
+        paymentRouter: new PaymentRouterClient(addresses.PaymentRouter, runner),
+    };
+}
@@ -0,0 +1,138 @@
+// src/clients/payment-router.ts
+
+import type { ContractRunner, ContractTransactionResponse } from "ethers";
+
+import { PAYMENT_ROUTER_ABI } from "../abi.js";
+import { NATIVE_TOKEN, PayoutMode, type Split } from "../types.js";
+import { ContractClient } from "./base.js";
+
+/** Typed client for PaymentRouter.sol. */
+export class PaymentRouterClient extends ContractClient {
+    constructor(address: string, runner: ContractRunner | null = null) {
+        super(address, PAYMENT_ROUTER_ABI, runner);
+    }
+
+    connect(runner: ContractRunner | null): PaymentRouterClient {
+        return new PaymentRouterClient(this.address, runner);
+    }
+
+    async actorRegistry(): Promise<string> {
+        return await this.contract.actorRegistry();
+    }
+
+    async totalBps(): Promise<number> {
+        return Number(await this.contract.totalBps());
+    }
+
+    /** The default splits (used by products without a profile). */
+    async getSplits(): Promise<Split[]> {
+        return toSplits(await this.contract.getSplits());
+    }
+
+    /** Splits of a profile; empty if the profile does not exist. */
+    async getProfileSplits(profileId: string): Promise<Split[]> {
+        return toSplits(await this.contract.getProfileSplits(profileId));
+    }
+
+    /** Splits a payment for productId would use: its bound profile, else the defaults. */
+    async splitsFor(productId: string): Promise<Split[]> {
+        return toSplits(await this.contract.splitsFor(productId));
+    }
+
+    async profileTotalBps(profileId: string): Promise<number> {
+        return Number(await this.contract.profileTotalBps(profileId));
+    }
+
+    /** orgIdHash of the org that created the profile, or ZeroHash if it does not exist. */
+    async profileOwner(profileId: string): Promise<string> {
+        return await this.contract.profileOwner(profileId);
+    }
+
+    /** Profile bound to productId, or ZeroHash for the default splits. */
+    async productProfile(productId: string): Promise<string> {
+        return await this.contract.productProfile(productId);
+    }
+
+    /** Active Operator / Certifier only. */
+    async createSplitProfile(profileId: string, splits: Split[]): Promise<ContractTransactionResponse> {
+        return await this.contract.createSplitProfile(
+            profileId,
+            splits.map((s) => s.recipient),
+            splits.map((s) => s.bps),
+        );
+    }
+
+    /** Managers of the owning org or the registry owner; replaces every split of the profile. */
+    async updateSplitProfile(profileId: string, splits: Split[]): Promise<ContractTransactionResponse> {
+        return await this.contract.updateSplitProfile(
+            profileId,
+            splits.map((s) => s.recipient),
+            splits.map((s) => s.bps),
+        );
+    }
+
+    /**
+     * Managers of the org owning the new profile and the current one (for an unbound
+     * product: the org that created its process), or the registry owner; pass ZeroHash
+     * to fall back to the default splits.
+     */
+    async setProductProfile(productId: string, profileId: string): Promise<ContractTransactionResponse> {
+        return await this.contract.setProductProfile(productId, profileId);
+    }
+
+    /** Route `value` wei of native ETH for productId across the configured splits. */
+    async routePayment(productId: string, value: bigint): Promise<ContractTransactionResponse> {
+        return await this.contract.routePayment(productId, { value });
+    }
+
+    /** Route `amount` of an ERC-20; approve the router for at least `amount` first. */
+    async routeTokenPayment(productId: string, token: string, amount: bigint): Promise<ContractTransactionResponse> {
+        return await this.contract.routeTokenPayment(productId, token, amount);
+    }
+
+    async payoutMode(): Promise<PayoutMode> {
+        return Number(await this.contract.payoutMode()) as PayoutMode;
+    }
+
+    /** ActorRegistry owner only. */
+    async setPayoutMode(mode: PayoutMode): Promise<ContractTransactionResponse> {
+        return await this.contract.setPayoutMode(mode);
+    }
+
+    /** ProcessManager consulted for the owner of an unbound product (ZeroAddress if unset). */
+    async processManager(): Promise<string> {
+        return await this.contract.processManager();
+    }
+
+    /** ActorRegistry owner only. */
+    async setProcessManager(processManager: string): Promise<ContractTransactionResponse> {
+        return await this.contract.setProcessManager(processManager);
+    }
+
+    /** Amount `account` can withdraw; `token` defaults to native ETH. */
+    async withdrawable(account: string, token: string = NATIVE_TOKEN): Promise<bigint> {
+        return await this.contract.withdrawable(token, account);
+    }
+
+    async totalWithdrawable(token: string = NATIVE_TOKEN): Promise<bigint> {
+        return await this.contract.totalWithdrawable(token);
+    }
+
+    /** Router balance of `token` not owed to anyone (rounding remainders, top-ups). */
+    async sweepable(token: string = NATIVE_TOKEN): Promise<bigint> {
+        return await this.contract.sweepable(token);
+    }
+
+    async withdraw(token: string = NATIVE_TOKEN): Promise<ContractTransactionResponse> {
+        return await this.contract.withdraw(token);
+    }
+
+    /** ActorRegistry owner only. */
+    async sweepRemainder(token: string, to: string): Promise<ContractTransactionResponse> {
+        return await this.contract.sweepRemainder(token, to);
+    }
+}
+
+function toSplits(raw: { recipient: string; bps: bigint }[]): Split[] {
+    return raw.map((s) => ({ recipient: s.recipient, bps: Number(s.bps) }));
+}
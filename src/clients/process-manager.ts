@@ -0,0 +1,62 @@
+// src/clients/process-manager.ts
+
+import type { ContractRunner, ContractTransactionResponse } from "ethers";
+
+import { PROCESS_MANAGER_ABI } from "../abi.js";
+import { ProcessStatus, type Process, type Role, type StatusUpdate } from "../types.js";
+import { ContractClient } from "./base.js";
+
+/** Typed client for ProcessManager.sol. */
+export class ProcessManagerClient extends ContractClient {
+    constructor(address: string, runner: ContractRunner | null = null) {
+        super(address, PROCESS_MANAGER_ABI, runner);
+    }
+
+    connect(runner: ContractRunner | null): ProcessManagerClient {
+        return new ProcessManagerClient(this.address, runner);
+    }
+
+    async actorRegistry(): Promise<string> {
+        return await this.contract.actorRegistry();
+    }
+
+    async getStatus(productId: string): Promise<ProcessStatus> {
+        return Number(await this.contract.getStatus(productId)) as ProcessStatus;
+    }
+
+    async getProcess(productId: string): Promise<Process> {
+        const [status, creatorOrgId] = await this.contract.getProcess(productId);
+        return { status: Number(status) as ProcessStatus, creatorOrgId };
+    }
+
+    /** Bitmask of roles allowed to move a process from `from` to `to` (0 = no edge). */
+    async transitionRoles(from: ProcessStatus, to: ProcessStatus): Promise<bigint> {
+        return await this.contract.transitionRoles(from, to);
+    }
+
+    async isTransitionAllowed(from: ProcessStatus, to: ProcessStatus, role: Role): Promise<boolean> {
+        return await this.contract.isTransitionAllowed(from, to, role);
+    }
+
+    /** ActorRegistry owner only; roleMask 0 removes the edge. */
+    async setTransition(from: ProcessStatus, to: ProcessStatus, roleMask: bigint): Promise<ContractTransactionResponse> {
+        return await this.contract.setTransition(from, to, roleMask);
+    }
+
+    async createProcess(productId: string): Promise<ContractTransactionResponse> {
+        return await this.contract.createProcess(productId);
+    }
+
+    async createProcessBatch(productIds: string[]): Promise<ContractTransactionResponse> {
+        return await this.contract.createProcessBatch(productIds);
+    }
+
+    async advanceStatus(productId: string, newStatus: ProcessStatus): Promise<ContractTransactionResponse> {
+        return await this.contract.advanceStatus(productId, newStatus);
+    }
+
+    /** Updates are applied in order, so one productId may move through several statuses. */
+    async advanceStatusBatch(updates: StatusUpdate[]): Promise<ContractTransactionResponse> {
+        return await this.contract.advanceStatusBatch(updates);
+    }
+}
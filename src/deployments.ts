@@ -0,0 +1,200 @@
+// src/deployments.ts
+//
+// Per-network deployment registry (deployments.json in the repo root).
+//
+// The registry is keyed by chainId so the same toolkit can target OP Sepolia,
+// a local `hardhatOp` node or any fresh testnet deploy without code changes:
+//
+//   {
+//     "11155420": {
+//       "network": "opSepolia",
+//       "contracts": {
+//         "ActorRegistry": {
+//           "address": "0x...",
+//           "deployBlock": 123,
+//           "deployer": "0x...",
+//           "txHash": "0x...",
+//           "bytecodeHash": "0x..."   // keccak256(artifact.bytecode)
+//         },
+//         ...
+//       }
+//     }
+//   }
+//
+// scripts/deploy-op-sepolia.ts writes it; every other script resolves its
+// contract addresses through resolveDeployment().
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers } from "ethers";
+
+import type { FairtradeAddresses } from "./types.js";
+
+export type ContractName = keyof FairtradeAddresses;
+
+export const CONTRACT_NAMES: readonly ContractName[] = [
+    "ActorRegistry",
+    "DocumentRegistry",
+    "ProcessManager",
+    "CidRollup",
+    "PaymentRouter",
+];
+
+/** Env var that overrides the recorded address of each contract. */
+export const ADDRESS_ENV_OVERRIDES: Record<ContractName, string> = {
+    ActorRegistry: "ACTOR_REGISTRY_ADDRESS",
+    DocumentRegistry: "DOCUMENT_REGISTRY_ADDRESS",
+    ProcessManager: "PROCESS_MANAGER_ADDRESS",
+    CidRollup: "CID_ROLLUP_ADDRESS",
+    PaymentRouter: "PAYMENT_ROUTER_ADDRESS",
+};
+
+/** Friendly names for chains we deploy to; anything else is "chain-<id>". */
+export const KNOWN_NETWORKS: Record<string, string> = {
+    "11155420": "opSepolia",
+    "31337": "hardhatOp",
+};
+
+/** Block explorers of the chains in KNOWN_NETWORKS (local chains have none). */
+export const KNOWN_EXPLORERS: Record<string, string> = {
+    "11155420": "https://sepolia-optimism.etherscan.io",
+};
+
+export type ContractDeployment = {
+    address: string;
+    deployBlock?: number;
+    deployer?: string;
+    txHash?: string;
+    bytecodeHash?: string;
+};
+
+export type NetworkDeployment = {
+    network: string;
+    contracts: Partial<Record<ContractName, ContractDeployment>>;
+};
+
+export type DeploymentRegistry = Record<string, NetworkDeployment>;
+
+/** A fully resolved deployment for one chain. */
+export type ResolvedDeployment = {
+    chainId: bigint;
+    network: string;
+    addresses: FairtradeAddresses;
+    contracts: Partial<Record<ContractName, ContractDeployment>>;
+    /** Lowest recorded deploy block, useful as a log-scan start. */
+    fromBlock?: number;
+};
+
+// -----------------------------------------------------------------------------
+// File IO
+// -----------------------------------------------------------------------------
+
+export function defaultDeploymentsFile(env: NodeJS.ProcessEnv = process.env): string {
+    const override = env.FAIRTRADE_DEPLOYMENTS_FILE?.trim();
+    return override ? path.resolve(override) : path.join(process.cwd(), "deployments.json");
+}
+
+export async function loadDeploymentRegistry(file: string = defaultDeploymentsFile()): Promise<DeploymentRegistry> {
+    try {
+        const raw = await fs.readFile(file, "utf8");
+        return JSON.parse(raw) as DeploymentRegistry;
+    } catch (err: any) {
+        if (err?.code === "ENOENT") return {};
+        throw new Error(`Failed to read deployment registry ${file}: ${err?.message ?? err}`);
+    }
+}
+
+export async function saveDeploymentRegistry(
+    registry: DeploymentRegistry,
+    file: string = defaultDeploymentsFile(),
+): Promise<void> {
+    await fs.writeFile(file, JSON.stringify(registry, null, 2) + "\n", "utf8");
+}
+
+// -----------------------------------------------------------------------------
+// Registry helpers
+// -----------------------------------------------------------------------------
+
+export function networkName(chainId: bigint | number | string): string {
+    const key = chainId.toString();
+    return KNOWN_NETWORKS[key] ?? `chain-${key}`;
+}
+
+export function explorerUrl(chainId: bigint | number | string): string | undefined {
+    return KNOWN_EXPLORERS[chainId.toString()];
+}
+
+/** Get (and create if missing) the entry for chainId. */
+export function ensureNetworkDeployment(
+    registry: DeploymentRegistry,
+    chainId: bigint | number | string,
+): NetworkDeployment {
+    const key = chainId.toString();
+    if (!registry[key]) {
+        registry[key] = { network: networkName(key), contracts: {} };
+    }
+    return registry[key];
+}
+
+/** keccak256 of an artifact's creation bytecode, used to detect stale deployments. */
+export function bytecodeHash(bytecode: string): string {
+    return ethers.keccak256(bytecode);
+}
+
+/**
+ * Resolve all five contract addresses for chainId.
+ *
+ * Per-contract env vars (ACTOR_REGISTRY_ADDRESS, ...) take precedence over the
+ * registry. Throws if any address is still missing.
+ */
+export function resolveFromRegistry(
+    registry: DeploymentRegistry,
+    chainId: bigint,
+    env: NodeJS.ProcessEnv = process.env,
+    required: readonly ContractName[] = CONTRACT_NAMES,
+): ResolvedDeployment {
+    const entry = registry[chainId.toString()];
+    const contracts = { ...(entry?.contracts ?? {}) };
+
+    const addresses: Partial<FairtradeAddresses> = {};
+    for (const name of CONTRACT_NAMES) {
+        const override = env[ADDRESS_ENV_OVERRIDES[name]]?.trim();
+        const address = override || contracts[name]?.address;
+        if (!address) continue;
+        if (!ethers.isAddress(address)) {
+            throw new Error(`Invalid ${name} address for chainId ${chainId}: ${address}`);
+        }
+        addresses[name] = ethers.getAddress(address);
+        if (override) contracts[name] = { address: addresses[name]! };
+    }
+
+    const missing = required.filter((n) => !addresses[n]);
+    if (missing.length) {
+        throw new Error(
+            `No deployment for ${missing.join(", ")} on chainId ${chainId} (${networkName(chainId)}). ` +
+            `Run scripts/deploy-op-sepolia.ts against this network or set ${missing.map((n) => ADDRESS_ENV_OVERRIDES[n]).join(", ")}.`,
+        );
+    }
+
+    const blocks = Object.values(contracts)
+        .map((c) => c?.deployBlock)
+        .filter((b): b is number => typeof b === "number");
+
+    return {
+        chainId,
+        network: entry?.network ?? networkName(chainId),
+        addresses: addresses as FairtradeAddresses,
+        contracts,
+        fromBlock: blocks.length ? Math.min(...blocks) : undefined,
+    };
+}
+
+/** Load the registry and resolve the deployment for the provider's chain. */
+export async function resolveDeployment(
+    provider: ethers.Provider,
+    opts: { file?: string; env?: NodeJS.ProcessEnv; required?: readonly ContractName[] } = {},
+): Promise<ResolvedDeployment> {
+    const { chainId } = await provider.getNetwork();
+    const registry = await loadDeploymentRegistry(opts.file ?? defaultDeploymentsFile(opts.env));
+    return resolveFromRegistry(registry, chainId, opts.env, opts.required);
+}
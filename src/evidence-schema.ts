@@ -0,0 +1,490 @@
+// src/evidence-schema.ts
+//
+// Versioned JSON-LD schemas for the off-chain documents the contracts point
+// at with opaque hashes:
+//
+//   StepEvidence  - what a CidAnchored step (and its DocType 1..6 stage
+//                   record) must contain; the required fields depend on the
+//                   step type (STEP_REQUIREMENTS)
+//   Certificate   - DocType.Certificate documents
+//   ActorProfile  - the target of ActorRegistry.metadataHash
+//
+// Every document carries "@context" (EVIDENCE_JSONLD_CONTEXT, inline so
+// nothing is fetched to read it), "@type" and "schemaVersion"; readers
+// dispatch on the last two. Validation is hand-written and returns the list of
+// issues, like validateSplits; an empty list means valid. Documents are
+// stored as canonical JSON (sorted keys) so the same document always gets the
+// same CID.
+
+import { ethers } from "ethers";
+
+import {
+    CID_CODEC_DAG_PB,
+    cidHashFromCid,
+    cidV1FromCidHash,
+    decodeCid,
+    type CidAnchorKind,
+} from "./cid.js";
+import { verifyCid, type StorageProvider } from "./storage/index.js";
+import { DocType, ROLE_LABEL, STEP_LABEL, StepType } from "./types.js";
+
+export const EVIDENCE_SCHEMA_VERSION = 1;
+
+export const EVIDENCE_JSONLD_CONTEXT = {
+    "@vocab": "urn:fairtrade-infra:evidence:v1#",
+    schema: "https://schema.org/",
+    name: "schema:name",
+    country: "schema:addressCountry",
+    occurredAt: { "@id": "schema:startTime", "@type": "schema:DateTime" },
+    validFrom: { "@id": "schema:validFrom", "@type": "schema:Date" },
+    validUntil: { "@id": "schema:validThrough", "@type": "schema:Date" },
+} as const;
+
+export type EvidenceDocumentType = "StepEvidence" | "Certificate" | "ActorProfile";
+
+export const EVIDENCE_DOCUMENT_TYPES: readonly EvidenceDocumentType[] = ["StepEvidence", "Certificate", "ActorProfile"];
+
+type DocumentHeader<T extends EvidenceDocumentType> = {
+    "@context": typeof EVIDENCE_JSONLD_CONTEXT;
+    "@type": T;
+    schemaVersion: typeof EVIDENCE_SCHEMA_VERSION;
+};
+
+export type Place = {
+    /** ISO 3166-1 alpha-2. */
+    country: string;
+    region?: string;
+    site?: string;
+    lat?: number;
+    lon?: number;
+};
+
+export type Quantity = { value: number; unit: string };
+
+export type Attachment = { cid: string; name: string; mediaType: string };
+
+export type StepEvidence = DocumentHeader<"StepEvidence"> & {
+    productId: string;
+    stepId: string;
+    /** STEP_LABEL of the anchored stepType (DocType 1..6 line up with it). */
+    stepType: string;
+    /** ISO 8601 date-time. */
+    occurredAt: string;
+    actor: { address: string; orgIdHash?: string };
+    location?: Place;
+    quantity?: Quantity;
+    /** Processing method, e.g. "washed". */
+    process?: string;
+    shipment?: { from: Place; to: Place; carrier?: string; reference?: string };
+    /** Decimal amount as a string, ISO 4217 currency. */
+    sale?: { amount: string; currency: string; buyer?: string };
+    /** CIDs of the evidence of earlier steps this one builds on. */
+    inputs?: string[];
+    attachments?: Attachment[];
+    notes?: string;
+};
+
+export type Certificate = DocumentHeader<"Certificate"> & {
+    certificateId: string;
+    scheme: string;
+    issuer: { name: string; orgIdHash?: string };
+    holder: { name: string; orgIdHash: string };
+    /** bytes32 productIds the certificate covers; omitted = every product of the holder. */
+    products?: string[];
+    scope: string[];
+    /** ISO 8601 dates (YYYY-MM-DD). */
+    validFrom: string;
+    validUntil: string;
+    status: "valid" | "suspended" | "withdrawn";
+    attachments?: Attachment[];
+};
+
+export type ActorProfile = DocumentHeader<"ActorProfile"> & {
+    orgIdHash: string;
+    name: string;
+    /** ROLE_LABEL of the registered role. */
+    role: string;
+    country: string;
+    wallets: string[];
+    contact?: { email?: string; url?: string };
+    /** CIDs of Certificate documents held by the organization. */
+    certificates?: string[];
+};
+
+export type EvidenceDocument = StepEvidence | Certificate | ActorProfile;
+
+/** Fields a StepEvidence document must have for each step type, on top of the common ones. */
+export const STEP_REQUIREMENTS: Record<number, readonly (keyof StepEvidence)[]> = {
+    [StepType.Produced]: ["location", "quantity"],
+    [StepType.Processed]: ["quantity", "process"],
+    [StepType.Shipped]: ["shipment"],
+    [StepType.Received]: ["location", "quantity"],
+    [StepType.AtRetail]: ["location"],
+    [StepType.Sold]: ["sale"],
+};
+
+/** ActorRegistry.metadataHash is the digest of the profile's dag-pb CIDv1. */
+export const ACTOR_PROFILE_CODEC = CID_CODEC_DAG_PB;
+
+// -----------------------------------------------------------------------------
+// Building
+// -----------------------------------------------------------------------------
+
+type Body<T extends EvidenceDocument> = Omit<T, "@context" | "@type" | "schemaVersion">;
+
+function withHeader<T extends EvidenceDocument>(type: T["@type"], body: Body<T>): T {
+    return { "@context": EVIDENCE_JSONLD_CONTEXT, "@type": type, schemaVersion: EVIDENCE_SCHEMA_VERSION, ...body } as T;
+}
+
+export function stepEvidence(body: Body<StepEvidence>): StepEvidence {
+    return withHeader<StepEvidence>("StepEvidence", body);
+}
+
+export function certificateDocument(body: Body<Certificate>): Certificate {
+    return withHeader<Certificate>("Certificate", body);
+}
+
+export function actorProfile(body: Body<ActorProfile>): ActorProfile {
+    return withHeader<ActorProfile>("ActorProfile", body);
+}
+
+/** JSON with object keys sorted at every level, so equal documents serialize to equal bytes. */
+export function canonicalJson(value: unknown): string {
+    return JSON.stringify(value, (_key, v) =>
+        v && typeof v === "object" && !Array.isArray(v)
+            ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+            : v,
+    );
+}
+
+export function evidenceDocumentBytes(doc: EvidenceDocument): Buffer {
+    return Buffer.from(canonicalJson(doc), "utf8");
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const COUNTRY = /^[A-Z]{2}$/;
+const CURRENCY = /^[A-Z]{3}$/;
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+type Checker = {
+    issues: string[];
+    object(v: unknown, at: string): v is Record<string, unknown>;
+    string(v: unknown, at: string, pattern?: RegExp, hint?: string): void;
+};
+
+function checker(): Checker {
+    const issues: string[] = [];
+    return {
+        issues,
+        object(v, at): v is Record<string, unknown> {
+            if (v && typeof v === "object" && !Array.isArray(v)) return true;
+            issues.push(`${at}: expected an object`);
+            return false;
+        },
+        string(v, at, pattern, hint) {
+            if (typeof v !== "string" || v.trim() === "") issues.push(`${at}: expected a non-empty string`);
+            else if (pattern && !pattern.test(v)) issues.push(`${at}: ${JSON.stringify(v)} is not ${hint ?? pattern}`);
+        },
+    };
+}
+
+function isCid(v: unknown): boolean {
+    if (typeof v !== "string") return false;
+    try {
+        cidHashFromCid(v);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function checkOptional(doc: Record<string, unknown>, key: string, check: (v: unknown, at: string) => void) {
+    if (doc[key] !== undefined) check(doc[key], key);
+}
+
+function checkList(c: Checker, v: unknown, at: string, item: (v: unknown, at: string) => void, nonEmpty = false) {
+    if (!Array.isArray(v)) {
+        c.issues.push(`${at}: expected an array`);
+        return;
+    }
+    if (nonEmpty && v.length === 0) c.issues.push(`${at}: expected at least one entry`);
+    v.forEach((x, i) => item(x, `${at}[${i}]`));
+}
+
+function checkAddress(c: Checker, v: unknown, at: string) {
+    if (typeof v !== "string" || !ethers.isAddress(v)) c.issues.push(`${at}: expected an address`);
+}
+
+function checkCid(c: Checker, v: unknown, at: string) {
+    if (!isCid(v)) c.issues.push(`${at}: expected a sha2-256 CID`);
+}
+
+function checkPlace(c: Checker, v: unknown, at: string) {
+    if (!c.object(v, at)) return;
+    c.string(v.country, `${at}.country`, COUNTRY, "an ISO 3166 alpha-2 code");
+    for (const [key, min, max] of [["lat", -90, 90], ["lon", -180, 180]] as const) {
+        const n = v[key];
+        if (n !== undefined && (typeof n !== "number" || n < min || n > max)) {
+            c.issues.push(`${at}.${key}: expected a number in [${min}, ${max}]`);
+        }
+    }
+}
+
+function checkAttachment(c: Checker, v: unknown, at: string) {
+    if (!c.object(v, at)) return;
+    checkCid(c, v.cid, `${at}.cid`);
+    c.string(v.name, `${at}.name`);
+    c.string(v.mediaType, `${at}.mediaType`, /^[\w.+-]+\/[\w.+-]+$/, "a media type");
+}
+
+function checkStepEvidence(c: Checker, doc: Record<string, unknown>) {
+    c.string(doc.productId, "productId", BYTES32, "a bytes32 hex id");
+    c.string(doc.stepId, "stepId", BYTES32, "a bytes32 hex id");
+    c.string(doc.occurredAt, "occurredAt", DATE_TIME, "an ISO 8601 date-time");
+    if (c.object(doc.actor, "actor")) {
+        checkAddress(c, doc.actor.address, "actor.address");
+        if (doc.actor.orgIdHash !== undefined) c.string(doc.actor.orgIdHash, "actor.orgIdHash", BYTES32, "a bytes32 hex id");
+    }
+
+    const stepType = Object.entries(STEP_LABEL).find(([, label]) => label === doc.stepType)?.[0];
+    const required = stepType === undefined ? undefined : STEP_REQUIREMENTS[Number(stepType)];
+    if (!required) {
+        c.issues.push(`stepType: expected one of ${Object.values(STEP_LABEL).slice(1).join(", ")}`);
+    } else {
+        for (const key of required) {
+            if (doc[key] === undefined) c.issues.push(`${key}: required for ${doc.stepType} steps`);
+        }
+    }
+
+    checkOptional(doc, "location", (v, at) => checkPlace(c, v, at));
+    checkOptional(doc, "quantity", (v, at) => {
+        if (!c.object(v, at)) return;
+        if (typeof v.value !== "number" || !(v.value > 0)) c.issues.push(`${at}.value: expected a positive number`);
+        c.string(v.unit, `${at}.unit`);
+    });
+    checkOptional(doc, "process", (v, at) => c.string(v, at));
+    checkOptional(doc, "shipment", (v, at) => {
+        if (!c.object(v, at)) return;
+        checkPlace(c, v.from, `${at}.from`);
+        checkPlace(c, v.to, `${at}.to`);
+    });
+    checkOptional(doc, "sale", (v, at) => {
+        if (!c.object(v, at)) return;
+        c.string(v.amount, `${at}.amount`, DECIMAL, "a decimal amount");
+        c.string(v.currency, `${at}.currency`, CURRENCY, "an ISO 4217 code");
+    });
+    checkOptional(doc, "inputs", (v, at) => checkList(c, v, at, (x, a) => checkCid(c, x, a)));
+    checkOptional(doc, "attachments", (v, at) => checkList(c, v, at, (x, a) => checkAttachment(c, x, a)));
+}
+
+function checkCertificate(c: Checker, doc: Record<string, unknown>) {
+    c.string(doc.certificateId, "certificateId");
+    c.string(doc.scheme, "scheme");
+    if (c.object(doc.issuer, "issuer")) c.string(doc.issuer.name, "issuer.name");
+    if (c.object(doc.holder, "holder")) {
+        c.string(doc.holder.name, "holder.name");
+        c.string(doc.holder.orgIdHash, "holder.orgIdHash", BYTES32, "a bytes32 hex id");
+    }
+    checkOptional(doc, "products", (v, at) =>
+        checkList(c, v, at, (x, a) => c.string(x, a, BYTES32, "a bytes32 hex id"), true),
+    );
+    checkList(c, doc.scope, "scope", (x, a) => c.string(x, a), true);
+    c.string(doc.validFrom, "validFrom", DATE, "a YYYY-MM-DD date");
+    c.string(doc.validUntil, "validUntil", DATE, "a YYYY-MM-DD date");
+    if (typeof doc.validFrom === "string" && typeof doc.validUntil === "string" && doc.validUntil < doc.validFrom) {
+        c.issues.push("validUntil: before validFrom");
+    }
+    if (!["valid", "suspended", "withdrawn"].includes(doc.status as string)) {
+        c.issues.push("status: expected valid, suspended or withdrawn");
+    }
+    checkOptional(doc, "attachments", (v, at) => checkList(c, v, at, (x, a) => checkAttachment(c, x, a)));
+}
+
+function checkActorProfile(c: Checker, doc: Record<string, unknown>) {
+    c.string(doc.orgIdHash, "orgIdHash", BYTES32, "a bytes32 hex id");
+    c.string(doc.name, "name");
+    if (!Object.values(ROLE_LABEL).slice(1).includes(doc.role as string)) {
+        c.issues.push(`role: expected one of ${Object.values(ROLE_LABEL).slice(1).join(", ")}`);
+    }
+    c.string(doc.country, "country", COUNTRY, "an ISO 3166 alpha-2 code");
+    checkList(c, doc.wallets, "wallets", (x, a) => checkAddress(c, x, a), true);
+    checkOptional(doc, "contact", (v, at) => {
+        if (c.object(v, at) && v.email !== undefined) c.string(v.email, `${at}.email`, /^[^@\s]+@[^@\s]+$/, "an email address");
+    });
+    checkOptional(doc, "certificates", (v, at) => checkList(c, v, at, (x, a) => checkCid(c, x, a)));
+}
+
+/** Schema issues of `doc` ("<path>: <problem>"); empty when it is a valid evidence document. */
+export function validateEvidenceDocument(doc: unknown): string[] {
+    const c = checker();
+    if (!c.object(doc, "document")) return c.issues;
+
+    if (canonicalJson(doc["@context"]) !== canonicalJson(EVIDENCE_JSONLD_CONTEXT)) {
+        c.issues.push("@context: expected EVIDENCE_JSONLD_CONTEXT");
+    }
+    if (doc.schemaVersion !== EVIDENCE_SCHEMA_VERSION) {
+        c.issues.push(`schemaVersion: unsupported ${JSON.stringify(doc.schemaVersion)} (expected ${EVIDENCE_SCHEMA_VERSION})`);
+        return c.issues;
+    }
+
+    switch (doc["@type"]) {
+        case "StepEvidence":
+            checkStepEvidence(c, doc);
+            break;
+        case "Certificate":
+            checkCertificate(c, doc);
+            break;
+        case "ActorProfile":
+            checkActorProfile(c, doc);
+            break;
+        default:
+            c.issues.push(`@type: expected one of ${EVIDENCE_DOCUMENT_TYPES.join(", ")}`);
+    }
+    return c.issues;
+}
+
+export class EvidenceSchemaError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`Invalid evidence document: ${issues.join("; ")}`);
+        this.name = "EvidenceSchemaError";
+    }
+}
+
+/** Parse and validate evidence document bytes; throws EvidenceSchemaError. */
+export function parseEvidenceDocument(bytes: Uint8Array | string): EvidenceDocument {
+    let doc: unknown;
+    try {
+        doc = JSON.parse(typeof bytes === "string" ? bytes : Buffer.from(bytes).toString("utf8"));
+    } catch (err) {
+        throw new EvidenceSchemaError([`document: not JSON (${(err as Error).message})`]);
+    }
+    const issues = validateEvidenceDocument(doc);
+    if (issues.length) throw new EvidenceSchemaError(issues);
+    return doc as EvidenceDocument;
+}
+
+// -----------------------------------------------------------------------------
+// Anchors
+// -----------------------------------------------------------------------------
+
+/** Document type an anchor of `kind` / `type` must point at; undefined = no schema (e.g. InspectionReport). */
+export function schemaForAnchor(kind: CidAnchorKind, type: number): EvidenceDocumentType | undefined {
+    if (kind === "step") return STEP_REQUIREMENTS[type] ? "StepEvidence" : undefined;
+    if (type >= DocType.ProductionRecord && type <= DocType.SaleRecord) return "StepEvidence";
+    if (type === DocType.Certificate) return "Certificate";
+    return undefined;
+}
+
+export type EvidenceAnchorRef = {
+    kind: CidAnchorKind;
+    type: number;
+    productId: string;
+    stepId: string;
+    /** Anchoring wallet, checked against StepEvidence.actor.address when given. */
+    actor?: string;
+};
+
+/** Where a valid document disagrees with the log that anchored it. */
+export function checkDocumentAgainstAnchor(doc: EvidenceDocument, anchor: EvidenceAnchorRef): string[] {
+    const issues: string[] = [];
+    const expected = schemaForAnchor(anchor.kind, anchor.type);
+    if (expected && doc["@type"] !== expected) {
+        return [`@type: ${anchor.kind} type ${anchor.type} anchors ${expected} documents, got ${doc["@type"]}`];
+    }
+
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    if (doc["@type"] === "StepEvidence") {
+        if (!same(doc.productId, anchor.productId)) issues.push(`productId: ${doc.productId} is not the anchored product`);
+        if (!same(doc.stepId, anchor.stepId)) issues.push(`stepId: ${doc.stepId} is not the anchored step`);
+        // DocType 1..6 line up with StepType
+        if (doc.stepType !== STEP_LABEL[anchor.type as StepType]) {
+            issues.push(`stepType: ${doc.stepType} does not match the anchored type ${anchor.type}`);
+        }
+        if (anchor.actor && !same(doc.actor.address, anchor.actor)) {
+            issues.push(`actor.address: ${doc.actor.address} did not anchor it (${anchor.actor} did)`);
+        }
+    } else if (doc["@type"] === "Certificate") {
+        if (doc.products && !doc.products.some((p) => same(p, anchor.productId))) {
+            issues.push("products: the anchored product is not covered");
+        }
+    }
+    return issues;
+}
+
+export type EvidenceDocumentCheck = {
+    /** Schema the anchor calls for; undefined = the content is not checked. */
+    schema?: EvidenceDocumentType;
+    document?: EvidenceDocument;
+    issues: string[];
+};
+
+/** Parse, validate and cross-check the content behind an anchor. */
+export function checkEvidenceBytes(bytes: Uint8Array, anchor: EvidenceAnchorRef): EvidenceDocumentCheck {
+    const schema = schemaForAnchor(anchor.kind, anchor.type);
+    if (!schema) return { issues: [] };
+    try {
+        const document = parseEvidenceDocument(bytes);
+        return { schema, document, issues: checkDocumentAgainstAnchor(document, anchor) };
+    } catch (err) {
+        if (err instanceof EvidenceSchemaError) return { schema, issues: err.issues };
+        throw err;
+    }
+}
+
+// -----------------------------------------------------------------------------
+// Actor profiles
+// -----------------------------------------------------------------------------
+
+/** Upload a profile as a dag-pb CID and return the metadataHash to register it under. */
+export async function uploadActorProfile(
+    storage: StorageProvider,
+    profile: ActorProfile,
+): Promise<{ cid: string; metadataHash: string }> {
+    const issues = validateEvidenceDocument(profile);
+    if (issues.length) throw new EvidenceSchemaError(issues);
+
+    const bytes = evidenceDocumentBytes(profile);
+    const { cid } = await storage.put(bytes, { rawLeaves: false });
+    if (!(await verifyCid(bytes, cid))) {
+        throw new Error(`${storage.kind} returned CID ${cid}, which is not the CID of the uploaded bytes`);
+    }
+    if (decodeCid(cid).codec !== ACTOR_PROFILE_CODEC) throw new Error(`${cid} is not a dag-pb CID`);
+    return { cid, metadataHash: cidHashFromCid(cid) };
+}
+
+export function actorProfileCid(metadataHash: string): string {
+    return cidV1FromCidHash(metadataHash, ACTOR_PROFILE_CODEC);
+}
+
+/** Parse a profile fetched for `actor` and check it describes that org, wallet and role. */
+export function checkActorProfileBytes(
+    bytes: Uint8Array,
+    actor: { orgIdHash: string; wallet: string; role?: number },
+): EvidenceDocumentCheck {
+    try {
+        const document = parseEvidenceDocument(bytes);
+        if (document["@type"] !== "ActorProfile") {
+            return { schema: "ActorProfile", document, issues: [`@type: metadataHash points at a ${document["@type"]}`] };
+        }
+        const issues: string[] = [];
+        if (document.orgIdHash.toLowerCase() !== actor.orgIdHash.toLowerCase()) {
+            issues.push(`orgIdHash: ${document.orgIdHash} is not the registered org`);
+        }
+        if (!document.wallets.some((w) => w.toLowerCase() === actor.wallet.toLowerCase())) {
+            issues.push(`wallets: ${actor.wallet} is not listed`);
+        }
+        if (actor.role !== undefined && document.role !== ROLE_LABEL[actor.role as keyof typeof ROLE_LABEL]) {
+            issues.push(`role: ${document.role} is not the registered role ${ROLE_LABEL[actor.role as keyof typeof ROLE_LABEL]}`);
+        }
+        return { schema: "ActorProfile", document, issues };
+    } catch (err) {
+        if (err instanceof EvidenceSchemaError) return { schema: "ActorProfile", issues: err.issues };
+        throw err;
+    }
+}
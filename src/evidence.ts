@@ -0,0 +1,276 @@
+// src/evidence.ts
+//
+// Evidence pipeline: upload a file to a storage provider, anchor the CID's
+// sha2-256 digest as the on-chain cidHash (DocumentRegistry.anchorDocument or
+// CidRollup.submitCidBatch), and later go back from the DocumentAnchored /
+// CidAnchored logs to the content and prove it still hashes to the anchor.
+//
+// Uploads are made in the layout the CidCodecPolicy gives the anchor's type,
+// so every log maps back to its exact CID (AnchoredEvidence.cid). Uploads also
+// keep an EvidenceRecord (CID, tx, block); anchors made under another policy
+// are tried under the other codecs too (see cidCandidates).
+
+import type { Provider } from "ethers";
+
+import {
+    CID_CODEC_DAG_PB,
+    CID_CODEC_RAW,
+    DEFAULT_CID_CODECS,
+    RAW_CID_MAX_BYTES,
+    cidCodecFor,
+    cidFromCidHash,
+    cidHashFromCid,
+    cidV1FromCidHash,
+    encodeCidHash,
+    type CidAnchorKind,
+    type CidCodecPolicy,
+} from "./cid.js";
+import type { CidRollupClient } from "./clients/cid-rollup.js";
+import type { DocumentRegistryClient } from "./clients/document-registry.js";
+import { verifyCid, type StorageKind, type StorageProvider } from "./storage/index.js";
+
+export type EvidenceAnchorKind = "document" | "cid";
+
+/** One uploaded and anchored evidence file, as kept by the pipeline. */
+export type EvidenceRecord = {
+    version: 1;
+    chainId: string;
+    anchor: EvidenceAnchorKind;
+    /** DocumentRegistry or CidRollup address. */
+    contract: string;
+    productId: string;
+    stepId: string;
+    /** docType for "document" anchors, stepType for "cid" anchors. */
+    type: number;
+    cid: string;
+    cidHash: string;
+    size: number;
+    storage: StorageKind;
+    file?: string;
+    txHash: string;
+    blockNumber: number;
+};
+
+/** A DocumentAnchored or CidAnchored log. */
+export type AnchoredEvidence = {
+    anchor: EvidenceAnchorKind;
+    contract: string;
+    productId: string;
+    stepId: string;
+    cidHash: string;
+    /** cidHash decoded with the codec policy. */
+    cid: string;
+    type: number;
+    orgIdHash: string;
+    actor: string;
+    txHash: string;
+    blockNumber: number;
+    logIndex: number;
+};
+
+export type FetchedEvidence = {
+    /** CID the content was fetched and checked under. */
+    cid?: string;
+    via?: StorageKind;
+    fetched: boolean;
+    /** The fetched bytes hash to `cid` and `cid`'s digest is the anchored cidHash. */
+    verified: boolean;
+    /** The verified content. */
+    bytes?: Buffer;
+    error?: string;
+};
+
+export type EvidenceVerification = Omit<FetchedEvidence, "bytes"> & { anchored: AnchoredEvidence };
+
+/**
+ * Upload `bytes` in the layout `codecs` gives the anchor type and return the
+ * CID the provider reported with its on-chain cidHash; throws if the
+ * provider's CID does not match the bytes or has another codec.
+ */
+export async function uploadEvidence(
+    storage: StorageProvider,
+    bytes: Uint8Array,
+    anchor: { kind: CidAnchorKind; type: number },
+    codecs: CidCodecPolicy = DEFAULT_CID_CODECS,
+): Promise<{ cid: string; cidHash: string; size: number }> {
+    const codec = cidCodecFor(anchor.kind, anchor.type, codecs);
+    if (codec === CID_CODEC_RAW && bytes.length > RAW_CID_MAX_BYTES) {
+        throw new Error(
+            `${bytes.length} bytes do not fit one block, so ${anchor.kind} type ${anchor.type} cannot get a raw CID; ` +
+            "give it a dag-pb codec in the CidCodecPolicy",
+        );
+    }
+    const { cid, size } = await storage.put(bytes, { rawLeaves: codec === CID_CODEC_RAW });
+    if (!(await verifyCid(bytes, cid))) {
+        throw new Error(`${storage.kind} returned CID ${cid}, which is not the CID of the uploaded bytes`);
+    }
+    return { cid, cidHash: encodeCidHash(cid, anchor.kind, anchor.type, codecs), size };
+}
+
+function cidAnchorKind(anchor: EvidenceAnchorKind): CidAnchorKind {
+    return anchor === "document" ? "doc" : "step";
+}
+
+export type AnchorEvidenceInput = {
+    storage: StorageProvider;
+    bytes: Uint8Array;
+    productId: string;
+    stepId: string;
+    chainId: bigint;
+    file?: string;
+    codecs?: CidCodecPolicy;
+} & (
+    | { anchor: "document"; documentRegistry: DocumentRegistryClient; docType: number }
+    | { anchor: "cid"; cidRollup: CidRollupClient; stepType: number }
+);
+
+/** Upload, then anchor the CID digest with one transaction; resolves once it is mined. */
+export async function anchorEvidence(input: AnchorEvidenceInput): Promise<EvidenceRecord> {
+    const type = input.anchor === "document" ? input.docType : input.stepType;
+    const { cid, cidHash, size } = await uploadEvidence(
+        input.storage,
+        input.bytes,
+        { kind: cidAnchorKind(input.anchor), type },
+        input.codecs,
+    );
+
+    const tx =
+        input.anchor === "document"
+            ? await input.documentRegistry.anchorDocument(input.productId, input.stepId, cidHash, input.docType)
+            : await input.cidRollup.submitCidBatch([
+                  { productId: input.productId, stepId: input.stepId, cidHash, stepType: input.stepType },
+              ]);
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`No receipt for ${tx.hash}`);
+
+    return {
+        version: 1,
+        chainId: input.chainId.toString(),
+        anchor: input.anchor,
+        contract: input.anchor === "document" ? input.documentRegistry.address : input.cidRollup.address,
+        productId: input.productId,
+        stepId: input.stepId,
+        type,
+        cid,
+        cidHash,
+        size,
+        storage: input.storage.kind,
+        ...(input.file ? { file: input.file } : {}),
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+    };
+}
+
+/**
+ * DocumentAnchored / CidAnchored logs of `productId` (all products when
+ * omitted) in [fromBlock, toBlock], queried `chunkSize` blocks at a time and
+ * returned in chain order, each with the CID `codecs` decodes it to.
+ */
+export async function readAnchoredEvidence(opts: {
+    provider: Provider;
+    documentRegistry?: DocumentRegistryClient;
+    cidRollup?: CidRollupClient;
+    productId?: string;
+    fromBlock?: number;
+    toBlock?: number;
+    chunkSize?: number;
+    codecs?: CidCodecPolicy;
+}): Promise<AnchoredEvidence[]> {
+    const toBlock = opts.toBlock ?? (await opts.provider.getBlockNumber());
+    const chunk = opts.chunkSize ?? 10_000;
+    const sources = [
+        { anchor: "document" as const, client: opts.documentRegistry, event: "DocumentAnchored", typeArg: "docType" },
+        { anchor: "cid" as const, client: opts.cidRollup, event: "CidAnchored", typeArg: "stepType" },
+    ];
+
+    const out: AnchoredEvidence[] = [];
+    for (const { anchor, client, event, typeArg } of sources) {
+        if (!client) continue;
+        const filter = client.contract.filters[event](opts.productId ?? null);
+        for (let from = opts.fromBlock ?? 0; from <= toBlock; from += chunk) {
+            const logs = await client.contract.queryFilter(filter, from, Math.min(toBlock, from + chunk - 1));
+            for (const log of logs) {
+                if (!("args" in log)) continue;
+                const type = Number(log.args[typeArg]);
+                out.push({
+                    anchor,
+                    contract: client.address,
+                    productId: log.args.productId,
+                    stepId: log.args.stepId,
+                    cidHash: log.args.cidHash,
+                    cid: cidFromCidHash(log.args.cidHash, cidAnchorKind(anchor), type, opts.codecs),
+                    type,
+                    orgIdHash: log.args.orgIdHash,
+                    actor: log.args.actor,
+                    txHash: log.transactionHash,
+                    blockNumber: log.blockNumber,
+                    logIndex: log.index,
+                });
+            }
+        }
+    }
+    return out.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/** CIDs whose digest is `cidHash`, whatever the policy: CIDv1 raw, then CIDv1 dag-pb. */
+export function cidCandidates(cidHash: string): string[] {
+    return [cidV1FromCidHash(cidHash, CID_CODEC_RAW), cidV1FromCidHash(cidHash, CID_CODEC_DAG_PB)];
+}
+
+/**
+ * Fetch the content behind `cidHash`: each of `cids` (in order, skipping
+ * those with another digest) is tried on every provider until one returns
+ * bytes that hash to it.
+ */
+export async function fetchEvidence(
+    cidHash: string,
+    cids: string[],
+    storage: StorageProvider[],
+): Promise<FetchedEvidence> {
+    const errors: string[] = [];
+    let fetched: { cid: string; via: StorageKind } | undefined;
+
+    for (const cid of new Set(cids)) {
+        if (cidHashFromCid(cid).toLowerCase() !== cidHash.toLowerCase()) {
+            errors.push(`${cid}: digest is not the anchored cidHash`);
+            continue;
+        }
+        for (const provider of storage) {
+            try {
+                const bytes = await provider.get(cid);
+                fetched ??= { cid, via: provider.kind };
+                if (await verifyCid(bytes, cid)) {
+                    return { cid, via: provider.kind, fetched: true, verified: true, bytes };
+                }
+                errors.push(`${provider.kind} ${cid}: content does not hash to the CID`);
+            } catch (err) {
+                errors.push(`${provider.kind} ${cid}: ${(err as Error).message}`);
+            }
+        }
+    }
+
+    return {
+        ...(fetched ?? {}),
+        fetched: !!fetched,
+        verified: false,
+        error: errors.join("; ") || "no CID to fetch",
+    };
+}
+
+/**
+ * Fetch the content behind an anchor and check it. `knownCids` (from
+ * EvidenceRecords) are tried first, then the anchor's policy CID, then the
+ * other cidCandidates.
+ */
+export async function verifyAnchoredEvidence(
+    anchored: AnchoredEvidence,
+    storage: StorageProvider[],
+    knownCids: string[] = [],
+): Promise<EvidenceVerification> {
+    const { bytes: _bytes, ...fetched } = await fetchEvidence(
+        anchored.cidHash,
+        [...knownCids, anchored.cid, ...cidCandidates(anchored.cidHash)],
+        storage,
+    );
+    return { anchored, ...fetched };
+}
@@ -0,0 +1,39 @@
+// src/ids.ts
+//
+// Id / hash helpers shared by the SDK and the scripts.
+//
+// All on-chain identifiers (productId, stepId, orgIdHash, cidHash, metadataHash)
+// are bytes32. Human-readable labels are mapped to bytes32 with keccak256 over
+// their UTF-8 bytes, exactly like `ethers.id(label)`.
+
+import { ethers } from "ethers";
+
+/** keccak256(utf8(label)) as a 0x-prefixed bytes32 hex string. */
+export function toBytes32(label: string): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(label));
+}
+
+/** True for a 0x-prefixed 32-byte hex string. */
+export function isBytes32(value: string): boolean {
+    return /^0x[0-9a-fA-F]{64}$/.test(value);
+}
+
+/**
+ * Accept either a bytes32 hex id or a human-readable label and return the
+ * lower-cased bytes32 id (labels are hashed with toBytes32).
+ */
+export function normalizeBytes32Id(input: string): string {
+    const t = input.trim();
+    if (isBytes32(t)) return t.toLowerCase();
+    return toBytes32(t).toLowerCase();
+}
+
+/** Mirrors CidRollup._stepKey: keccak256(abi.encodePacked(productId, stepId)). */
+export function stepKey(productId: string, stepId: string): string {
+    return ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [productId, stepId]);
+}
+
+/** Basis points helper: share of `amount` for `bps`, rounded down like PaymentRouter. */
+export function bpsShare(amount: bigint, bps: number): bigint {
+    return (amount * BigInt(bps)) / 10_000n;
+}
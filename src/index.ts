@@ -1 +1,36 @@
-console.log('Happy developing ✨')
+// src/index.ts
+//
+// FairTrade infra SDK: typed contract clients, enums mirroring
+// FairtradeTypes.sol, contract ABIs, id/hash helpers, the per-network
+// deployment registry, a failover / hedging multi-endpoint JSON-RPC
+// transport and a fault-injecting JSON-RPC proxy to test it offline, the
+// role permission matrices, the ProcessManager transition graph,
+// PaymentRouter split profiles, EIP-712 relayed CidRollup batches,
+// Merkle-root CidRollup anchoring, CID <-> cidHash helpers, the
+// upload/anchor/verify evidence pipeline, versioned evidence document
+// schemas, evidence storage providers, a local IPFS RPC mock, an
+// ABI-driven decoder of the contracts' events, an incremental SQLite indexer
+// of those events, audit queries (plus a read-only HTTP API) over that
+// index, the audit consistency rules, audit report renderings and signed,
+// anchorable audit attestations.
+
+export * from "./types.js";
+export * from "./ids.js";
+export * from "./abi.js";
+export * from "./log-decoder.js";
+export * from "./clients/index.js";
+export * from "./deployments.js";
+export * from "./rpc/index.js";
+export * from "./permissions.js";
+export * from "./transitions.js";
+export * from "./split-profiles.js";
+export * from "./meta-tx.js";
+export * from "./relayer.js";
+export * from "./merkle.js";
+export * from "./cid.js";
+export * from "./evidence.js";
+export * from "./evidence-schema.js";
+export * from "./ipfs-mock.js";
+export * from "./storage/index.js";
+export * from "./indexer/index.js";
+export * from "./audit/index.js";
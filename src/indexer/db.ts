@@ -0,0 +1,335 @@
+// src/indexer/db.ts
+//
+// SQLite store of the chain indexer (node:sqlite, no native dependency). One
+// table per indexed event, keyed by (tx_hash, log_index) so re-scanning a
+// range is idempotent, plus:
+//
+//   meta     chainId, the indexed contract addresses and the checkpoint
+//            (next block to scan)
+//   blocks   hash and timestamp of every block with indexed logs and of each
+//            scanned chunk's last block; reorg detection walks back through
+//            these hashes
+//
+// The TEXT event columns (hashes, addresses) are COLLATE NOCASE, so their
+// indexes serve lookups by checksummed and lowercased values alike.
+//
+// The schema version is kept in PRAGMA user_version. node:sqlite needs
+// Node.js >= 22.5 and is only loaded when an IndexerDb is opened, so the rest
+// of the SDK keeps working (and quiet) on older versions.
+
+import type { DatabaseSync, SQLInputValue, SQLOutputValue } from "node:sqlite";
+
+import type { ContractName } from "../deployments.js";
+
+export const INDEXER_SCHEMA_VERSION = 2;
+
+/** Where and when a log was emitted. */
+export type IndexedLog = {
+    contract: ContractName;
+    event: string;
+    blockNumber: number;
+    blockHash: string;
+    timestamp: number;
+    txHash: string;
+    logIndex: number;
+};
+
+export type IndexedActor = IndexedLog & { orgIdHash: string; wallet: string; role: number; metadataHash: string };
+
+export type IndexedCidAnchor = IndexedLog & {
+    productId: string;
+    stepId: string;
+    cidHash: string;
+    stepType: number;
+    orgIdHash: string;
+    actor: string;
+};
+
+export type IndexedCidRoot = IndexedLog & {
+    root: string;
+    leafCount: number;
+    stepTypeMask: string;
+    orgIdHash: string;
+    actor: string;
+};
+
+export type IndexedDocument = IndexedLog & {
+    productId: string;
+    stepId: string;
+    cidHash: string;
+    docType: number;
+    orgIdHash: string;
+    actor: string;
+};
+
+export type IndexedProcessCreated = IndexedLog & { productId: string; orgIdHash: string };
+
+export type IndexedStatusChange = IndexedLog & {
+    productId: string;
+    previousStatus: number;
+    newStatus: number;
+    orgIdHash: string;
+    actor: string;
+};
+
+/** PaymentRouted (token = NATIVE_TOKEN), TokenPaymentRouted and PaymentCredited (credited = true). */
+export type IndexedPayment = IndexedLog & {
+    productId: string;
+    token: string;
+    recipient: string;
+    amount: string;
+    credited: boolean;
+};
+
+/** Row shape of each table, in camelCase. */
+export type IndexedRows = {
+    actor_registered: IndexedActor;
+    cid_anchored: IndexedCidAnchor;
+    cid_root_anchored: IndexedCidRoot;
+    document_anchored: IndexedDocument;
+    process_created: IndexedProcessCreated;
+    process_status_changed: IndexedStatusChange;
+    payment_routed: IndexedPayment;
+};
+
+export type IndexedTable = keyof IndexedRows;
+
+/** Event columns of each table (after the common IndexedLog ones). */
+export const INDEXED_TABLE_COLUMNS: { [T in IndexedTable]: Record<string, "TEXT" | "INTEGER"> } = {
+    actor_registered: { org_id_hash: "TEXT", wallet: "TEXT", role: "INTEGER", metadata_hash: "TEXT" },
+    cid_anchored: {
+        product_id: "TEXT",
+        step_id: "TEXT",
+        cid_hash: "TEXT",
+        step_type: "INTEGER",
+        org_id_hash: "TEXT",
+        actor: "TEXT",
+    },
+    cid_root_anchored: { root: "TEXT", leaf_count: "INTEGER", step_type_mask: "TEXT", org_id_hash: "TEXT", actor: "TEXT" },
+    document_anchored: {
+        product_id: "TEXT",
+        step_id: "TEXT",
+        cid_hash: "TEXT",
+        doc_type: "INTEGER",
+        org_id_hash: "TEXT",
+        actor: "TEXT",
+    },
+    process_created: { product_id: "TEXT", org_id_hash: "TEXT" },
+    process_status_changed: {
+        product_id: "TEXT",
+        previous_status: "INTEGER",
+        new_status: "INTEGER",
+        org_id_hash: "TEXT",
+        actor: "TEXT",
+    },
+    payment_routed: { product_id: "TEXT", token: "TEXT", recipient: "TEXT", amount: "TEXT", credited: "INTEGER" },
+};
+
+const INDEXED_TABLES = Object.keys(INDEXED_TABLE_COLUMNS) as IndexedTable[];
+
+/** Lookup indexes; every table is also indexed by block_number for rollbacks. */
+const INDEXES: [IndexedTable, string][] = [
+    ["actor_registered", "org_id_hash"],
+    ["actor_registered", "wallet"],
+    ["cid_anchored", "product_id"],
+    ["cid_anchored", "cid_hash"],
+    ["cid_anchored", "org_id_hash"],
+    ["cid_root_anchored", "root"],
+    ["cid_root_anchored", "org_id_hash"],
+    ["document_anchored", "product_id"],
+    ["document_anchored", "cid_hash"],
+    ["document_anchored", "org_id_hash"],
+    ["process_created", "product_id"],
+    ["process_created", "org_id_hash"],
+    ["process_status_changed", "product_id"],
+    ["payment_routed", "product_id"],
+    ["payment_routed", "recipient"],
+];
+
+/** Tables with a product_id column, in the order productRows returns them. */
+export const PRODUCT_TABLES = [
+    "cid_anchored",
+    "document_anchored",
+    "process_created",
+    "process_status_changed",
+    "payment_routed",
+] as const satisfies readonly IndexedTable[];
+
+export type IndexedRow = IndexedRows[IndexedTable];
+
+export type IndexCheckpoint = {
+    chainId: string;
+    /** Lowercased addresses of the indexed contracts. */
+    addresses: Partial<Record<ContractName, string>>;
+    /** Next block to scan. */
+    nextBlock: number;
+};
+
+function snake(key: string): string {
+    return key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+function camel(key: string): string {
+    return key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+function fromRow<T>(row: Record<string, SQLOutputValue>): T {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(row)) out[camel(k)] = k === "credited" ? v === 1 : v;
+    return out as T;
+}
+
+export class IndexerDb {
+    readonly file: string;
+    readonly db: DatabaseSync;
+
+    /** `file` may be ":memory:". */
+    constructor(file: string) {
+        const sqlite = process.getBuiltinModule?.("node:sqlite");
+        if (!sqlite) throw new Error(`The indexer needs node:sqlite (Node.js >= 22.5); this is Node.js ${process.version}`);
+        this.file = file;
+        this.db = new sqlite.DatabaseSync(file);
+        this.db.exec("PRAGMA journal_mode = WAL; PRAGMA synchronous = NORMAL;");
+        this.migrate();
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    private migrate(): void {
+        const { user_version: version } = this.db.prepare("PRAGMA user_version").get() as { user_version: number };
+        if (version === INDEXER_SCHEMA_VERSION) return;
+        if (version !== 0) {
+            throw new Error(`${this.file} has indexer schema v${version}, expected v${INDEXER_SCHEMA_VERSION}; re-index into a new file`);
+        }
+
+        const log = "contract TEXT NOT NULL, event TEXT NOT NULL, block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL";
+        const sql = [
+            "CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)",
+            "CREATE TABLE blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL, timestamp INTEGER NOT NULL, has_logs INTEGER NOT NULL)",
+            ...INDEXED_TABLES.map((table) => {
+                const cols = Object.entries(INDEXED_TABLE_COLUMNS[table]).map(
+                    ([c, t]) => `${c} ${t} NOT NULL${t === "TEXT" ? " COLLATE NOCASE" : ""}`,
+                );
+                return `CREATE TABLE ${table} (${log}, ${cols.join(", ")}, PRIMARY KEY (tx_hash, log_index))`;
+            }),
+            ...INDEXED_TABLES.map((table) => `CREATE INDEX ${table}_block ON ${table} (block_number)`),
+            ...INDEXES.map(([table, col]) => `CREATE INDEX ${table}_${col} ON ${table} (${col})`),
+            `PRAGMA user_version = ${INDEXER_SCHEMA_VERSION}`,
+        ];
+        this.transaction(() => this.db.exec(sql.join(";\n")));
+    }
+
+    /** Run `fn` in one SQLite transaction. */
+    transaction<T>(fn: () => T): T {
+        this.db.exec("BEGIN");
+        try {
+            const out = fn();
+            this.db.exec("COMMIT");
+            return out;
+        } catch (err) {
+            this.db.exec("ROLLBACK");
+            throw err;
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Checkpoint
+    // -------------------------------------------------------------------------
+
+    checkpoint(): IndexCheckpoint | undefined {
+        const rows = this.db.prepare("SELECT key, value FROM meta").all() as { key: string; value: string }[];
+        const meta = Object.fromEntries(rows.map((r) => [r.key, r.value]));
+        if (meta.chainId === undefined) return undefined;
+        return { chainId: meta.chainId, addresses: JSON.parse(meta.addresses), nextBlock: Number(meta.nextBlock) };
+    }
+
+    setCheckpoint(checkpoint: IndexCheckpoint): void {
+        const put = this.db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value");
+        put.run("chainId", checkpoint.chainId);
+        put.run("addresses", JSON.stringify(checkpoint.addresses));
+        put.run("nextBlock", String(checkpoint.nextBlock));
+    }
+
+    // -------------------------------------------------------------------------
+    // Writes
+    // -------------------------------------------------------------------------
+
+    putBlock(block: { number: number; hash: string; timestamp: number }, hasLogs: boolean): void {
+        this.db
+            .prepare(
+                "INSERT INTO blocks (number, hash, timestamp, has_logs) VALUES (?, ?, ?, ?) " +
+                "ON CONFLICT(number) DO UPDATE SET hash = excluded.hash, timestamp = excluded.timestamp, " +
+                "has_logs = max(has_logs, excluded.has_logs)",
+            )
+            .run(block.number, block.hash, block.timestamp, hasLogs ? 1 : 0);
+    }
+
+    /** Insert a decoded log; a row already indexed is left as it is. */
+    insert<T extends IndexedTable>(table: T, row: Omit<IndexedRows[T], "blockHash" | "timestamp">): void {
+        const values: Record<string, SQLInputValue> = {};
+        for (const [k, v] of Object.entries(row)) values[snake(k)] = typeof v === "boolean" ? (v ? 1 : 0) : (v as SQLInputValue);
+        const cols = Object.keys(values);
+        this.db
+            .prepare(`INSERT OR IGNORE INTO ${table} (${cols.join(", ")}) VALUES (${cols.map(() => "?").join(", ")})`)
+            .run(...cols.map((c) => values[c]));
+    }
+
+    /** Drop everything above `block` (a reorged range); returns the rows deleted. */
+    rollbackTo(block: number): number {
+        let deleted = 0;
+        for (const table of INDEXED_TABLES) {
+            deleted += Number(this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(block).changes);
+        }
+        this.db.prepare("DELETE FROM blocks WHERE number > ?").run(block);
+        return deleted;
+    }
+
+    /** Forget hashes of chunk-end blocks without logs below `block` (outside the reorg window). */
+    pruneBlocks(block: number): void {
+        this.db.prepare("DELETE FROM blocks WHERE has_logs = 0 AND number < ?").run(block);
+    }
+
+    // -------------------------------------------------------------------------
+    // Reads
+    // -------------------------------------------------------------------------
+
+    /** Stored blocks at or below `block`, newest first. */
+    blocksBelow(block: number, limit: number): { number: number; hash: string }[] {
+        return this.db
+            .prepare("SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?")
+            .all(block, limit) as { number: number; hash: string }[];
+    }
+
+    /** Rows of `table` matching `where` (camelCase column -> value), in chain order. */
+    rows<T extends IndexedTable>(table: T, where: Partial<Record<keyof IndexedRows[T], string | number>> = {}): IndexedRows[T][] {
+        const keys = Object.keys(where);
+        const clause = keys.length ? ` WHERE ${keys.map((k) => `t.${snake(k)} = ?`).join(" AND ")}` : "";
+        return this.db
+            .prepare(
+                `SELECT t.*, b.hash AS block_hash, b.timestamp FROM ${table} t JOIN blocks b ON b.number = t.block_number` +
+                `${clause} ORDER BY t.block_number, t.log_index`,
+            )
+            .all(...keys.map((k) => (where as Record<string, string | number>)[k]))
+            .map((r) => fromRow<IndexedRows[T]>(r));
+    }
+
+    /** Every product-keyed row of `productId`, in chain order. */
+    productRows(productId: string): IndexedRow[] {
+        return PRODUCT_TABLES.flatMap((t) => this.rows(t, { productId } as never) as IndexedRow[]).sort(
+            (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+        );
+    }
+
+    /** Distinct tx hashes that touched `productId`, in chain order. */
+    productTxHashes(productId: string): string[] {
+        return Array.from(new Set(this.productRows(productId).map((r) => r.txHash)));
+    }
+
+    counts(): Record<IndexedTable, number> {
+        return Object.fromEntries(
+            INDEXED_TABLES.map((t) => [t, Number((this.db.prepare(`SELECT count(*) AS n FROM ${t}`).get() as { n: number }).n)]),
+        ) as Record<IndexedTable, number>;
+    }
+}
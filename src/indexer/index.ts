@@ -0,0 +1,31 @@
+// src/indexer/index.ts
+
+export {
+    INDEXED_TABLE_COLUMNS,
+    INDEXER_SCHEMA_VERSION,
+    IndexerDb,
+    PRODUCT_TABLES,
+    type IndexCheckpoint,
+    type IndexedActor,
+    type IndexedCidAnchor,
+    type IndexedCidRoot,
+    type IndexedDocument,
+    type IndexedLog,
+    type IndexedPayment,
+    type IndexedProcessCreated,
+    type IndexedRow,
+    type IndexedRows,
+    type IndexedStatusChange,
+    type IndexedTable,
+} from "./db.js";
+export {
+    ChainIndexer,
+    INDEXED_EVENTS,
+    ReorgTooDeepError,
+    isLogRangeError,
+    type ChainIndexerOptions,
+    type IndexedEventSpec,
+    type ReorgRollback,
+    type SyncProgress,
+    type SyncResult,
+} from "./indexer.js";
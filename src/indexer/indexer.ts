@@ -0,0 +1,370 @@
+// src/indexer/indexer.ts
+//
+// Incremental indexer: scans the FairTrade contracts' logs with eth_getLogs
+// from their deploy blocks to the head, decodes them with the SDK ABIs
+// (src/log-decoder.ts) and writes one row per event into an IndexerDb,
+// checkpointing after every chunk so an interrupted run resumes where it
+// stopped.
+//
+// - Chunking is adaptive: an eth_getLogs rejected for its block range or
+//   result count halves the chunk down to minChunkSize, successes double it
+//   back up to maxChunkSize. Transient failures (timeouts, 5xx, resets, rate
+//   limits) are retried with the same range; any other error is thrown.
+// - Reorgs: the hashes of indexed blocks are kept; before scanning, the last
+//   one is compared with the chain and, on a mismatch, the index is rolled
+//   back to the newest block that still matches (looking at most reorgDepth
+//   indexed blocks back).
+// - `confirmations` keeps the scan that many blocks behind the head.
+
+import type { Log, Provider, Result } from "ethers";
+
+import type { ContractName, ResolvedDeployment } from "../deployments.js";
+import { LogDecoder, eventTopic } from "../log-decoder.js";
+import { isTransientRpcError, withRpcRetry, type RpcRetryOptions } from "../rpc/index.js";
+import { NATIVE_TOKEN } from "../types.js";
+import type { IndexedRows, IndexedTable, IndexerDb } from "./db.js";
+
+type EventColumns<T extends IndexedTable> = Omit<
+    IndexedRows[T],
+    "contract" | "event" | "blockNumber" | "blockHash" | "timestamp" | "txHash" | "logIndex"
+>;
+
+/** One indexed event: where it comes from, its table and how its args map to columns. */
+export type IndexedEventSpec<T extends IndexedTable = IndexedTable> = {
+    contract: ContractName;
+    event: string;
+    table: T;
+    columns: (args: Result) => EventColumns<T>;
+};
+
+function spec<T extends IndexedTable>(
+    contract: ContractName,
+    event: string,
+    table: T,
+    columns: (args: Result) => EventColumns<T>,
+): IndexedEventSpec {
+    return { contract, event, table, columns } as IndexedEventSpec;
+}
+
+export const INDEXED_EVENTS: readonly IndexedEventSpec[] = [
+    spec("ActorRegistry", "ActorRegistered", "actor_registered", (a) => ({
+        orgIdHash: a.orgIdHash,
+        wallet: a.wallet,
+        role: Number(a.role),
+        metadataHash: a.metadataHash,
+    })),
+    spec("CidRollup", "CidAnchored", "cid_anchored", (a) => ({
+        productId: a.productId,
+        stepId: a.stepId,
+        cidHash: a.cidHash,
+        stepType: Number(a.stepType),
+        orgIdHash: a.orgIdHash,
+        actor: a.actor,
+    })),
+    spec("CidRollup", "CidRootAnchored", "cid_root_anchored", (a) => ({
+        root: a.root,
+        leafCount: Number(a.leafCount),
+        stepTypeMask: a.stepTypeMask.toString(),
+        orgIdHash: a.orgIdHash,
+        actor: a.actor,
+    })),
+    spec("DocumentRegistry", "DocumentAnchored", "document_anchored", (a) => ({
+        productId: a.productId,
+        stepId: a.stepId,
+        cidHash: a.cidHash,
+        docType: Number(a.docType),
+        orgIdHash: a.orgIdHash,
+        actor: a.actor,
+    })),
+    spec("ProcessManager", "ProcessCreated", "process_created", (a) => ({
+        productId: a.productId,
+        orgIdHash: a.orgIdHash,
+    })),
+    spec("ProcessManager", "ProcessStatusChanged", "process_status_changed", (a) => ({
+        productId: a.productId,
+        previousStatus: Number(a.previousStatus),
+        newStatus: Number(a.newStatus),
+        orgIdHash: a.orgIdHash,
+        actor: a.actor,
+    })),
+    spec("PaymentRouter", "PaymentRouted", "payment_routed", (a) => ({
+        productId: a.productId,
+        token: NATIVE_TOKEN,
+        recipient: a.recipient,
+        amount: a.amount.toString(),
+        credited: false,
+    })),
+    spec("PaymentRouter", "TokenPaymentRouted", "payment_routed", (a) => ({
+        productId: a.productId,
+        token: a.token,
+        recipient: a.recipient,
+        amount: a.amount.toString(),
+        credited: false,
+    })),
+    spec("PaymentRouter", "PaymentCredited", "payment_routed", (a) => ({
+        productId: a.productId,
+        token: a.token,
+        recipient: a.recipient,
+        amount: a.amount.toString(),
+        credited: true,
+    })),
+];
+
+export type ChainIndexerOptions = {
+    provider: Provider;
+    db: IndexerDb;
+    /** Contracts to index; contracts without an address are skipped. */
+    addresses: Partial<Record<ContractName, string>>;
+    /** First block to scan on a fresh index (the lowest deploy block). */
+    fromBlock: number;
+    /** Initial eth_getLogs range (default 2_000). */
+    chunkSize?: number;
+    minChunkSize?: number;
+    maxChunkSize?: number;
+    /** Blocks to stay behind the head (default 0). */
+    confirmations?: number;
+    /** How far back a reorg is looked for and block hashes are kept (default 64). */
+    reorgDepth?: number;
+    /** Retries of an eth_getLogs that failed transiently (withRpcRetry defaults). */
+    retry?: Omit<RpcRetryOptions, "retryIf">;
+    onProgress?: (progress: SyncProgress) => void;
+};
+
+export type SyncProgress = {
+    fromBlock: number;
+    toBlock: number;
+    /** Last block of this sync. */
+    target: number;
+    logs: number;
+    /** Range of the next eth_getLogs call. */
+    chunkSize: number;
+};
+
+export type ReorgRollback = {
+    /** Newest indexed block still on the chain. */
+    forkBlock: number;
+    rowsDropped: number;
+};
+
+export type SyncResult = {
+    chainId: string;
+    fromBlock: number;
+    /** Last block indexed (fromBlock - 1 when already up to date). */
+    toBlock: number;
+    logs: number;
+    requests: number;
+    /** eth_getLogs calls rejected for their range and retried with a smaller one. */
+    shrinks: number;
+    chunkSize: number;
+    reorg?: ReorgRollback;
+};
+
+const LOG_RANGE_ERRORS = [
+    /block range/,
+    /range (is )?too (large|wide|big)/,
+    /too many (results|logs|blocks)/,
+    /more than \d+ (results|logs)/,
+    /response size (exceeded|is larger)/,
+    /limited to .*range/,
+    /max(imum)? .*range/,
+];
+
+/** eth_getLogs was rejected for its block range or result count, so a smaller range may pass. */
+export function isLogRangeError(err: unknown): boolean {
+    const e = err as any;
+    const msg = String(e?.error?.message ?? e?.message ?? "").toLowerCase();
+    return LOG_RANGE_ERRORS.some((re) => re.test(msg));
+}
+
+export class ReorgTooDeepError extends Error {
+    constructor(readonly block: number, readonly depth: number) {
+        super(`Block ${block} was reorged and no indexed block within ${depth} blocks below matches the chain; re-index into a new file`);
+        this.name = "ReorgTooDeepError";
+    }
+}
+
+export class ChainIndexer {
+    readonly provider: Provider;
+    readonly db: IndexerDb;
+    readonly addresses: Partial<Record<ContractName, string>>;
+    readonly fromBlock: number;
+    readonly minChunkSize: number;
+    readonly maxChunkSize: number;
+    readonly confirmations: number;
+    readonly reorgDepth: number;
+    chunkSize: number;
+
+    private readonly onProgress?: (progress: SyncProgress) => void;
+    private readonly retry?: Omit<RpcRetryOptions, "retryIf">;
+    private readonly decoder: LogDecoder;
+    /** "<contract>.<event>" -> spec, for the contracts with an address. */
+    private readonly specs = new Map<string, IndexedEventSpec>();
+
+    constructor(opts: ChainIndexerOptions) {
+        this.provider = opts.provider;
+        this.db = opts.db;
+        this.addresses = Object.fromEntries(
+            Object.entries(opts.addresses).filter(([, a]) => !!a).map(([n, a]) => [n, a!.toLowerCase()]),
+        );
+        this.fromBlock = opts.fromBlock;
+        this.minChunkSize = opts.minChunkSize ?? 1;
+        this.maxChunkSize = opts.maxChunkSize ?? 10_000;
+        this.chunkSize = Math.min(this.maxChunkSize, Math.max(this.minChunkSize, opts.chunkSize ?? 2_000));
+        this.confirmations = opts.confirmations ?? 0;
+        this.reorgDepth = opts.reorgDepth ?? 64;
+        this.onProgress = opts.onProgress;
+        this.retry = opts.retry;
+
+        this.decoder = new LogDecoder(this.addresses);
+        for (const s of INDEXED_EVENTS.filter((e) => this.addresses[e.contract])) this.specs.set(`${s.contract}.${s.event}`, s);
+    }
+
+    /** Index the contracts of a resolved deployment from their lowest deploy block. */
+    static fromDeployment(
+        deployment: ResolvedDeployment,
+        opts: Omit<ChainIndexerOptions, "addresses" | "fromBlock"> & { fromBlock?: number },
+    ): ChainIndexer {
+        return new ChainIndexer({ ...opts, addresses: deployment.addresses, fromBlock: opts.fromBlock ?? deployment.fromBlock ?? 0 });
+    }
+
+    /** Scan from the checkpoint to `toBlock` (default: head - confirmations). */
+    async sync(toBlock?: number): Promise<SyncResult> {
+        const chainId = (await this.provider.getNetwork()).chainId.toString();
+        const checkpoint = this.db.checkpoint();
+        if (checkpoint) {
+            if (checkpoint.chainId !== chainId) {
+                throw new Error(`${this.db.file} indexes chainId ${checkpoint.chainId}, the provider is on ${chainId}`);
+            }
+            const same = JSON.stringify(sortKeys(checkpoint.addresses)) === JSON.stringify(sortKeys(this.addresses));
+            if (!same) throw new Error(`${this.db.file} indexes other contract addresses; re-index into a new file`);
+        }
+
+        let next = checkpoint?.nextBlock ?? this.fromBlock;
+        const reorg = next > this.fromBlock ? await this.checkReorg(next - 1) : undefined;
+        if (reorg) {
+            next = reorg.forkBlock + 1;
+            this.db.setCheckpoint({ chainId, addresses: this.addresses, nextBlock: next });
+        }
+
+        const head = (await this.provider.getBlockNumber()) - this.confirmations;
+        const target = Math.min(toBlock ?? head, head);
+        const result: SyncResult = {
+            chainId,
+            fromBlock: next,
+            toBlock: next - 1,
+            logs: 0,
+            requests: 0,
+            shrinks: 0,
+            chunkSize: this.chunkSize,
+            ...(reorg ? { reorg } : {}),
+        };
+
+        const topics = Array.from(new Set(Array.from(this.specs.values()).map((s) => eventTopic(s.contract, s.event))));
+        const address = Object.values(this.addresses) as string[];
+        let retries = 0;
+
+        while (next <= target) {
+            const to = Math.min(target, next + this.chunkSize - 1);
+
+            // inside the reorg window, check the block below the chunk is still the one indexed
+            if (next - 1 >= head - this.reorgDepth && next > this.fromBlock) {
+                const rolledBack = await this.checkReorg(next - 1);
+                if (rolledBack) {
+                    result.reorg = rolledBack;
+                    next = rolledBack.forkBlock + 1;
+                    this.db.setCheckpoint({ chainId, addresses: this.addresses, nextBlock: next });
+                    continue;
+                }
+            }
+
+            let logs: Log[];
+            try {
+                logs = await withRpcRetry(
+                    () => {
+                        result.requests++;
+                        return this.provider.getLogs({ address, topics: [topics], fromBlock: next, toBlock: to });
+                    },
+                    { label: `eth_getLogs ${next}..${to}`, ...this.retry, retryIf: (e) => !isLogRangeError(e) && isTransientRpcError(e) },
+                );
+            } catch (err) {
+                if (!isLogRangeError(err) || this.chunkSize <= this.minChunkSize) throw err;
+                this.chunkSize = Math.max(this.minChunkSize, Math.floor(this.chunkSize / 2));
+                result.shrinks++;
+                continue;
+            }
+
+            const blocks = await this.blockHeaders([...logs.map((l) => l.blockNumber), to]);
+            if (logs.some((l) => blocks.get(l.blockNumber)!.hash !== l.blockHash)) {
+                // the chain moved under this chunk; scan it again
+                if (++retries > 3) throw new Error(`Blocks ${next}..${to} keep changing while they are indexed`);
+                continue;
+            }
+            retries = 0;
+
+            this.db.transaction(() => {
+                const withLogs = new Set(logs.map((l) => l.blockNumber));
+                for (const block of blocks.values()) this.db.putBlock(block, withLogs.has(block.number));
+                for (const log of logs) this.insertLog(log);
+                this.db.setCheckpoint({ chainId, addresses: this.addresses, nextBlock: to + 1 });
+            });
+
+            result.logs += logs.length;
+            result.toBlock = to;
+            this.chunkSize = Math.min(this.maxChunkSize, this.chunkSize * 2);
+            this.onProgress?.({ fromBlock: next, toBlock: to, target, logs: logs.length, chunkSize: this.chunkSize });
+            next = to + 1;
+        }
+
+        if (!checkpoint && result.toBlock < result.fromBlock) {
+            this.db.setCheckpoint({ chainId, addresses: this.addresses, nextBlock: next });
+        }
+        this.db.pruneBlocks(head - this.reorgDepth);
+        result.chunkSize = this.chunkSize;
+        return result;
+    }
+
+    /** Compare the newest indexed block at or below `block` with the chain; roll back on a mismatch. */
+    private async checkReorg(block: number): Promise<ReorgRollback | undefined> {
+        const stored = this.db.blocksBelow(block, this.reorgDepth);
+        for (const [i, b] of stored.entries()) {
+            const onChain = await this.provider.getBlock(b.number);
+            if (onChain?.hash !== b.hash) continue;
+            if (i === 0) return undefined;
+            return { forkBlock: b.number, rowsDropped: this.db.transaction(() => this.db.rollbackTo(b.number)) };
+        }
+        if (stored.length === 0) return undefined;
+        if (stored.length < this.reorgDepth) {
+            // no indexed block survived and there are no older ones: index again from the start
+            return { forkBlock: this.fromBlock - 1, rowsDropped: this.db.transaction(() => this.db.rollbackTo(this.fromBlock - 1)) };
+        }
+        throw new ReorgTooDeepError(stored[0].number, this.reorgDepth);
+    }
+
+    private async blockHeaders(numbers: number[]): Promise<Map<number, { number: number; hash: string; timestamp: number }>> {
+        const out = new Map<number, { number: number; hash: string; timestamp: number }>();
+        for (const n of Array.from(new Set(numbers)).sort((a, b) => a - b)) {
+            const block = await this.provider.getBlock(n);
+            if (!block?.hash) throw new Error(`Block ${n} not found`);
+            out.set(n, { number: n, hash: block.hash, timestamp: block.timestamp });
+        }
+        return out;
+    }
+
+    private insertLog(log: Log): void {
+        const decoded = this.decoder.decode(log);
+        const spec = decoded && this.specs.get(`${decoded.contract}.${decoded.event}`);
+        if (!spec) return;
+        this.db.insert(spec.table, {
+            contract: spec.contract,
+            event: spec.event,
+            blockNumber: log.blockNumber,
+            txHash: log.transactionHash,
+            logIndex: log.index,
+            ...spec.columns(decoded.args),
+        } as never);
+    }
+}
+
+function sortKeys<T extends object>(o: T): T {
+    return Object.fromEntries(Object.entries(o).sort(([a], [b]) => a.localeCompare(b))) as T;
+}
@@ -0,0 +1,270 @@
+// src/ipfs-mock.ts
+//
+// In-process stand-in for the IPFS (Kubo) RPC endpoints the evidence
+// simulation uses, so it can run and be regression-tested offline:
+//
+//   POST /api/v0/add?cid-version=&raw-leaves=&only-hash=   multipart "file" -> {"Name","Hash","Size"}
+//   POST /api/v0/cat?arg=<cid>                               stored bytes
+//   POST /api/v0/version                                     {"Version":"ipfs-mock", ...}
+//   GET  /ipfs/<cid>                                         stored bytes (path gateway)
+//
+// CIDs come from ipfs-only-hash with Kubo's defaults: CIDv0 unless
+// cid-version=1, raw leaves default on for CIDv1. Objects live in memory.
+//
+// Faults are drawn from a seeded PRNG so a run is reproducible:
+//   latencyMs + [0, jitterMs) before every response,
+//   errorRate          -> HTTP 500 with a Kubo-style error body,
+//   corruptionRate     -> `cat` / gateway GET return the object with one byte flipped.
+
+import http from "http";
+import type { AddressInfo } from "net";
+
+import { of as ipfsOnlyHashOf } from "ipfs-only-hash";
+
+export type IpfsMockOptions = {
+    /** 0 (default) picks a free port. */
+    port?: number;
+    host?: string;
+    latencyMs?: number;
+    jitterMs?: number;
+    /** Probability (0..1) that an add or cat fails with HTTP 500. */
+    errorRate?: number;
+    /** Probability (0..1) that a cat returns corrupted bytes. */
+    corruptionRate?: number;
+    /** PRNG seed for jitter, errors and corruption (default 1). */
+    seed?: number;
+    maxBodyBytes?: number;
+};
+
+export type IpfsMockStats = {
+    adds: number;
+    cats: number;
+    notFound: number;
+    injectedErrors: number;
+    corrupted: number;
+    storedObjects: number;
+    storedBytes: number;
+};
+
+class KuboError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function decodePath(pathname: string): string {
+    try {
+        return decodeURIComponent(pathname);
+    } catch (err) {
+        if (err instanceof URIError) throw new KuboError(400, `malformed percent-encoding in ${pathname}`);
+        throw err;
+    }
+}
+
+/** mulberry32: small, fast, good enough for fault injection. */
+function prng(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function rate(value: number | undefined, name: string): number {
+    const r = value ?? 0;
+    if (!(r >= 0 && r <= 1)) throw new Error(`${name} must be between 0 and 1, got ${value}`);
+    return r;
+}
+
+/** Options from IPFS_MOCK_PORT / _HOST / _LATENCY_MS / _JITTER_MS / _ERROR_RATE / _CORRUPTION_RATE / _SEED. */
+export function ipfsMockOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): IpfsMockOptions {
+    const num = (name: string, fallback: number) => {
+        const value = Number(env[name] ?? fallback);
+        if (!Number.isFinite(value)) throw new Error(`${name} must be a number`);
+        return value;
+    };
+    return {
+        port: num("IPFS_MOCK_PORT", 5001),
+        host: env.IPFS_MOCK_HOST ?? "127.0.0.1",
+        latencyMs: num("IPFS_MOCK_LATENCY_MS", 0),
+        jitterMs: num("IPFS_MOCK_JITTER_MS", 0),
+        errorRate: num("IPFS_MOCK_ERROR_RATE", 0),
+        corruptionRate: num("IPFS_MOCK_CORRUPTION_RATE", 0),
+        seed: num("IPFS_MOCK_SEED", 1),
+    };
+}
+
+/** Bytes of the first part of a multipart/form-data body. */
+export function firstMultipartPart(body: Buffer, contentType: string): Buffer {
+    const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+    if (!match) throw new KuboError(400, "expected multipart/form-data with a boundary");
+    const delimiter = Buffer.from(`--${match[1] ?? match[2]}`);
+
+    const start = body.indexOf(delimiter);
+    if (start < 0) throw new KuboError(400, "multipart boundary not found");
+    const headersEnd = body.indexOf("\r\n\r\n", start);
+    if (headersEnd < 0) throw new KuboError(400, "malformed multipart part");
+    const end = body.indexOf(Buffer.concat([Buffer.from("\r\n"), delimiter]), headersEnd + 4);
+    if (end < 0) throw new KuboError(400, "unterminated multipart part");
+    return body.subarray(headersEnd + 4, end);
+}
+
+export class IpfsMock {
+    readonly stats: IpfsMockStats = {
+        adds: 0,
+        cats: 0,
+        notFound: 0,
+        injectedErrors: 0,
+        corrupted: 0,
+        storedObjects: 0,
+        storedBytes: 0,
+    };
+    private readonly objects = new Map<string, Buffer>();
+    private readonly random: () => number;
+    private readonly errorRate: number;
+    private readonly corruptionRate: number;
+    private readonly server: http.Server;
+    private baseUrl?: string;
+
+    constructor(readonly options: IpfsMockOptions = {}) {
+        this.random = prng(options.seed ?? 1);
+        this.errorRate = rate(options.errorRate, "errorRate");
+        this.corruptionRate = rate(options.corruptionRate, "corruptionRate");
+        this.server = http.createServer((req, res) => void this.handle(req, res));
+    }
+
+    /** Start listening; resolves to the base URL (e.g. http://127.0.0.1:5001). */
+    async start(): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", resolve);
+        });
+        const { address, port } = this.server.address() as AddressInfo;
+        this.baseUrl = `http://${address.includes(":") ? `[${address}]` : address}:${port}`;
+        return this.baseUrl;
+    }
+
+    get url(): string {
+        if (!this.baseUrl) throw new Error("IpfsMock is not started");
+        return this.baseUrl;
+    }
+
+    async close(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+
+    /** Stored bytes for `cid`, bypassing latency and faults. */
+    get(cid: string): Buffer | undefined {
+        return this.objects.get(cid);
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        try {
+            const url = new URL(req.url ?? "/", "http://ipfs-mock");
+            const gateway = url.pathname.startsWith("/ipfs/");
+            if (req.method !== (gateway ? "GET" : "POST")) {
+                throw new KuboError(405, `${req.method} not allowed, use ${gateway ? "GET" : "POST"}`);
+            }
+
+            const latency = (this.options.latencyMs ?? 0) + this.random() * (this.options.jitterMs ?? 0);
+            if (latency > 0) await new Promise((r) => setTimeout(r, latency));
+
+            if (gateway) {
+                this.serve(res, decodePath(url.pathname));
+                return;
+            }
+            switch (url.pathname) {
+                case "/api/v0/version":
+                    this.json(res, 200, { Version: "ipfs-mock", Commit: "", Repo: "0", System: process.platform });
+                    return;
+                case "/api/v0/add":
+                    await this.add(req, res, url);
+                    return;
+                case "/api/v0/cat":
+                    this.cat(res, url);
+                    return;
+                default:
+                    throw new KuboError(404, `404 page not found: ${url.pathname}`);
+            }
+        } catch (err) {
+            const status = err instanceof KuboError ? err.status : 500;
+            this.json(res, status, { Message: (err as Error).message, Code: 0, Type: "error" });
+        }
+    }
+
+    private injectError(): void {
+        if (this.errorRate > 0 && this.random() < this.errorRate) {
+            this.stats.injectedErrors++;
+            throw new KuboError(500, "ipfs-mock: injected error");
+        }
+    }
+
+    private async add(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+        const body = await this.readBody(req);
+        this.injectError();
+        const file = firstMultipartPart(body, req.headers["content-type"] ?? "");
+
+        const cidVersion = Number(url.searchParams.get("cid-version") ?? "0");
+        if (cidVersion !== 0 && cidVersion !== 1) throw new KuboError(400, `unsupported cid-version ${cidVersion}`);
+        const rawLeavesParam = url.searchParams.get("raw-leaves");
+        const rawLeaves = rawLeavesParam === null ? cidVersion === 1 : rawLeavesParam === "true";
+        const cid: string = await ipfsOnlyHashOf(file, { cidVersion, rawLeaves });
+
+        this.stats.adds++;
+        if (url.searchParams.get("only-hash") !== "true" && !this.objects.has(cid)) {
+            this.objects.set(cid, Buffer.from(file));
+            this.stats.storedObjects++;
+            this.stats.storedBytes += file.length;
+        }
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ Name: "evidence.bin", Hash: cid, Size: String(file.length) }) + "\n");
+    }
+
+    private cat(res: http.ServerResponse, url: URL): void {
+        const arg = url.searchParams.get("arg");
+        if (!arg) throw new KuboError(400, "argument \"ipfs-path\" is required");
+        this.serve(res, arg);
+    }
+
+    private serve(res: http.ServerResponse, arg: string): void {
+        this.injectError();
+
+        const cid = arg.replace(/^\/ipfs\//, "").split("/")[0];
+        const stored = this.objects.get(cid);
+        if (!stored) {
+            this.stats.notFound++;
+            throw new KuboError(500, "merkledag: not found");
+        }
+
+        this.stats.cats++;
+        let bytes = stored;
+        if (this.corruptionRate > 0 && stored.length > 0 && this.random() < this.corruptionRate) {
+            bytes = Buffer.from(stored);
+            bytes[Math.floor(this.random() * bytes.length)] ^= 0xff;
+            this.stats.corrupted++;
+        }
+        res.writeHead(200, { "content-type": "application/octet-stream", "content-length": bytes.length });
+        res.end(bytes);
+    }
+
+    private async readBody(req: http.IncomingMessage): Promise<Buffer> {
+        const limit = this.options.maxBodyBytes ?? 64 * 1024 * 1024;
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of req) {
+            size += (chunk as Buffer).length;
+            if (size > limit) throw new KuboError(413, "request body too large");
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks);
+    }
+
+    private json(res: http.ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify(body));
+    }
+}
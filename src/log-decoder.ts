@@ -0,0 +1,146 @@
+// src/log-decoder.ts
+//
+// ABI-driven log decoding for the five FairTrade contracts: every event of
+// the SDK ABIs (src/abi.ts) is looked up by its topic0 and decoded with an
+// ethers Interface, so indexed and data arguments come out by name rather
+// than by word position.
+//
+// test/LogDecoder.ts compares FAIRTRADE_EVENTS with the events of the
+// compiled artifacts, so a changed event signature fails the suite until
+// src/abi.ts (and with it this decoder) follows it.
+
+import { Interface, type EventFragment, type InterfaceAbi, type Result } from "ethers";
+
+import {
+    ACTOR_REGISTRY_ABI,
+    CID_ROLLUP_ABI,
+    DOCUMENT_REGISTRY_ABI,
+    PAYMENT_ROUTER_ABI,
+    PROCESS_MANAGER_ABI,
+} from "./abi.js";
+import { CONTRACT_NAMES, type ContractName } from "./deployments.js";
+
+export const CONTRACT_ABIS: Record<ContractName, InterfaceAbi> = {
+    ActorRegistry: ACTOR_REGISTRY_ABI,
+    DocumentRegistry: DOCUMENT_REGISTRY_ABI,
+    ProcessManager: PROCESS_MANAGER_ABI,
+    CidRollup: CID_ROLLUP_ABI,
+    PaymentRouter: PAYMENT_ROUTER_ABI,
+};
+
+/** One event of a FairTrade contract. */
+export type FairtradeEventSpec = {
+    contract: ContractName;
+    event: string;
+    /** Canonical signature, e.g. "ProcessCreated(bytes32,bytes32)". */
+    signature: string;
+    topic0: string;
+    fragment: EventFragment;
+    iface: Interface;
+};
+
+/** Every event of the five contracts, in ABI order. */
+export const FAIRTRADE_EVENTS: readonly FairtradeEventSpec[] = CONTRACT_NAMES.flatMap((contract) => {
+    const iface = new Interface(CONTRACT_ABIS[contract]);
+    const specs: FairtradeEventSpec[] = [];
+    iface.forEachEvent((fragment) => {
+        specs.push({ contract, event: fragment.name, signature: fragment.format("sighash"), topic0: fragment.topicHash, fragment, iface });
+    });
+    return specs;
+});
+
+/** topic0 of `contract`'s `event`; throws for events the SDK ABIs do not have. */
+export function eventTopic(contract: ContractName, event: string): string {
+    const spec = FAIRTRADE_EVENTS.find((s) => s.contract === contract && s.event === event);
+    if (!spec) throw new Error(`Unknown event ${contract}.${event}`);
+    return spec.topic0;
+}
+
+/** A log from eth_getLogs / a receipt (hex quantities) or from ethers (numbers, `index`). */
+export type RawLog = {
+    address: string;
+    topics: readonly string[];
+    data: string;
+    blockNumber?: string | number | bigint;
+    transactionHash?: string;
+    logIndex?: string | number | bigint;
+    index?: number;
+};
+
+export type DecodedLog = {
+    contract: ContractName;
+    event: string;
+    signature: string;
+    address: string;
+    blockNumber: bigint;
+    logIndex: bigint;
+    txHash: string;
+    /** Arguments by name and position (uints as bigints, checksummed addresses, lowercase bytes32). */
+    args: Result;
+};
+
+/**
+ * Decodes the logs of the FairTrade contracts. With `addresses`, only logs
+ * emitted by those contracts are decoded, each with its own contract's ABI;
+ * without, any log whose topic0 is a FairTrade event is.
+ */
+export class LogDecoder {
+    /** topic0 -> spec, and "<contract>:<topic0>" -> spec. */
+    private readonly byTopic = new Map<string, FairtradeEventSpec>();
+    private readonly byAddress?: Map<string, ContractName>;
+
+    constructor(addresses?: Partial<Record<ContractName, string>>) {
+        for (const spec of FAIRTRADE_EVENTS) {
+            this.byTopic.set(spec.topic0, spec);
+            this.byTopic.set(`${spec.contract}:${spec.topic0}`, spec);
+        }
+        if (addresses) {
+            this.byAddress = new Map(
+                (Object.entries(addresses) as [ContractName, string | undefined][])
+                    .filter(([, a]) => !!a)
+                    .map(([name, a]) => [a!.toLowerCase(), name]),
+            );
+        }
+    }
+
+    /** The spec of a log, or undefined when it is no event of a decoded contract. */
+    spec(log: Pick<RawLog, "address" | "topics">): FairtradeEventSpec | undefined {
+        const topic0 = log.topics[0]?.toLowerCase();
+        if (!topic0) return undefined;
+        if (!this.byAddress) return this.byTopic.get(topic0);
+        const contract = this.byAddress.get(log.address.toLowerCase());
+        return contract ? this.byTopic.get(`${contract}:${topic0}`) : undefined;
+    }
+
+    /**
+     * Decode one log; undefined when it is no event of a decoded contract.
+     * Throws when a known event does not decode (its ABI and the contract disagree).
+     */
+    decode(log: RawLog): DecodedLog | undefined {
+        const spec = this.spec(log);
+        if (!spec) return undefined;
+        const logIndex = BigInt(log.logIndex ?? log.index ?? 0);
+        let args: Result;
+        try {
+            args = spec.iface.decodeEventLog(spec.fragment, log.data, log.topics);
+        } catch (err: any) {
+            const reason = err?.shortMessage ?? err?.message ?? err;
+            throw new Error(`Cannot decode ${spec.contract}.${spec.signature} at ${log.transactionHash ?? "?"}:${logIndex}: ${reason}`);
+        }
+        return {
+            contract: spec.contract,
+            event: spec.event,
+            signature: spec.signature,
+            address: log.address,
+            blockNumber: BigInt(log.blockNumber ?? 0),
+            logIndex,
+            txHash: log.transactionHash ?? "",
+            args,
+        };
+    }
+
+    /** Decode the FairTrade events among `logs`, skipping the rest. */
+    decodeAll(logs: readonly RawLog[]): DecodedLog[] {
+        return logs.map((l) => this.decode(l)).filter((d): d is DecodedLog => d !== undefined);
+    }
+}
@@ -0,0 +1,143 @@
+// src/merkle.ts
+//
+// Merkle trees over CidEvent leaves for CidRollup.submitCidRoot.
+//
+// Leaf  = keccak256(keccak256(abi.encode(productId, stepId, cidHash, stepType)))
+// Node  = keccak256(min(a, b) ++ max(a, b))       (sorted pairs, no index in proofs)
+// An odd node at the end of a layer is carried up unchanged.
+//
+// This must stay in sync with CidRollup.cidLeafHash / verifyCidInclusion. The
+// leaves are not on-chain, so whoever anchors a root keeps a CidRootManifest
+// (root + leaves) to prove steps later.
+
+import { AbiCoder, ethers } from "ethers";
+
+import { stepKey } from "./ids.js";
+import { typesToMask } from "./permissions.js";
+import type { CidEvent } from "./types.js";
+
+export type CidMerkleTree = {
+    root: string;
+    leaves: CidEvent[];
+    /** layers[0] = leaf hashes, last layer = [root]. */
+    layers: string[][];
+    /** Step types present in the leaves; passed to submitCidRoot. */
+    stepTypeMask: bigint;
+};
+
+/** Leaves of one anchored root, kept off-chain next to the anchor tx. */
+export type CidRootManifest = {
+    version: 1;
+    chainId: string;
+    cidRollup: string;
+    root: string;
+    stepTypeMask: string;
+    txHash?: string;
+    leaves: CidEvent[];
+};
+
+const abi = AbiCoder.defaultAbiCoder();
+
+export function cidLeafHash(e: CidEvent): string {
+    const inner = ethers.keccak256(
+        abi.encode(["bytes32", "bytes32", "bytes32", "uint8"], [e.productId, e.stepId, e.cidHash, e.stepType]),
+    );
+    return ethers.keccak256(inner);
+}
+
+function hashPair(a: string, b: string): string {
+    const [lo, hi] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+    return ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [lo, hi]);
+}
+
+/** Build the tree; throws on an empty batch or a (productId, stepId) used twice. */
+export function buildCidMerkleTree(events: CidEvent[]): CidMerkleTree {
+    if (events.length === 0) throw new Error("Cannot build a Merkle tree over an empty batch");
+
+    const seen = new Set<string>();
+    for (const [i, e] of events.entries()) {
+        const key = stepKey(e.productId, e.stepId);
+        if (seen.has(key)) throw new Error(`Leaf ${i} repeats (productId, stepId) ${e.productId} / ${e.stepId}`);
+        seen.add(key);
+    }
+
+    const layers: string[][] = [events.map(cidLeafHash)];
+    while (layers[layers.length - 1].length > 1) {
+        const prev = layers[layers.length - 1];
+        const next: string[] = [];
+        for (let i = 0; i < prev.length; i += 2) {
+            next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
+        }
+        layers.push(next);
+    }
+
+    return {
+        root: layers[layers.length - 1][0],
+        leaves: events,
+        layers,
+        stepTypeMask: typesToMask(events.map((e) => e.stepType)),
+    };
+}
+
+/** Sibling hashes from leaf `index` up to the root. */
+export function cidMerkleProof(tree: CidMerkleTree, index: number): string[] {
+    if (!Number.isInteger(index) || index < 0 || index >= tree.leaves.length) {
+        throw new Error(`Leaf index ${index} out of range (0..${tree.leaves.length - 1})`);
+    }
+    const proof: string[] = [];
+    let i = index;
+    for (const layer of tree.layers.slice(0, -1)) {
+        const sibling = i ^ 1;
+        if (sibling < layer.length) proof.push(layer[sibling]);
+        i = Math.floor(i / 2);
+    }
+    return proof;
+}
+
+/** Off-chain equivalent of CidRollup.verifyCidInclusion, minus the anchored-root and step-mask checks. */
+export function verifyCidMerkleProof(root: string, event: CidEvent, proof: string[]): boolean {
+    const node = proof.reduce((acc, sibling) => hashPair(acc, sibling), cidLeafHash(event));
+    return node.toLowerCase() === root.toLowerCase();
+}
+
+export function cidRootManifest(
+    tree: CidMerkleTree,
+    opts: { chainId: bigint; cidRollup: string; txHash?: string },
+): CidRootManifest {
+    return {
+        version: 1,
+        chainId: opts.chainId.toString(),
+        cidRollup: opts.cidRollup,
+        root: tree.root,
+        stepTypeMask: tree.stepTypeMask.toString(),
+        ...(opts.txHash ? { txHash: opts.txHash } : {}),
+        leaves: tree.leaves,
+    };
+}
+
+/** Parse a manifest and rebuild its tree; throws if the leaves do not hash to the stated root. */
+export function parseCidRootManifest(raw: unknown): { manifest: CidRootManifest; tree: CidMerkleTree } {
+    const m = raw as Partial<CidRootManifest>;
+    if (!m || typeof m !== "object" || m.version !== 1) throw new Error("Not a version 1 CidRootManifest");
+    if (!ethers.isHexString(m.root, 32)) throw new Error("Manifest root must be bytes32");
+    if (typeof m.cidRollup !== "string" || !ethers.isAddress(m.cidRollup)) {
+        throw new Error("Manifest cidRollup must be an address");
+    }
+    if (!Array.isArray(m.leaves)) throw new Error("Manifest leaves must be an array");
+
+    const leaves = m.leaves.map((e, i): CidEvent => {
+        for (const key of ["productId", "stepId", "cidHash"] as const) {
+            if (!ethers.isHexString(e?.[key], 32)) throw new Error(`leaves[${i}].${key} must be bytes32`);
+        }
+        if (!Number.isInteger(e.stepType) || e.stepType < 0 || e.stepType > 255) {
+            throw new Error(`leaves[${i}].stepType must be a uint8`);
+        }
+        return { productId: e.productId, stepId: e.stepId, cidHash: e.cidHash, stepType: e.stepType };
+    });
+
+    const tree = buildCidMerkleTree(leaves);
+    if (tree.root.toLowerCase() !== m.root.toLowerCase()) {
+        throw new Error(`Manifest leaves hash to ${tree.root}, not the stated root ${m.root}`);
+    }
+    return { manifest: { ...(m as CidRootManifest), leaves }, tree };
+}
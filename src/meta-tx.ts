@@ -0,0 +1,126 @@
+// src/meta-tx.ts
+//
+// EIP-712 meta-transactions for CidRollup.submitCidBatchFor.
+//
+// An actor signs a CidBatch { signer, events, nonce, deadline } for one
+// CidRollup on one chain; any relayer can then submit it and pay the gas. The
+// types below must stay in sync with CID_EVENT_TYPEHASH / CID_BATCH_TYPEHASH
+// and the domain built in CidRollup._buildDomainSeparator.
+
+import { TypedDataEncoder, ethers, type Signer, type TypedDataDomain } from "ethers";
+
+import type { CidEvent, SignedCidBatch } from "./types.js";
+
+export const CID_ROLLUP_EIP712_NAME = "FairTrade CidRollup";
+export const CID_ROLLUP_EIP712_VERSION = "1";
+
+export const CID_BATCH_TYPES = {
+    CidBatch: [
+        { name: "signer", type: "address" },
+        { name: "events", type: "CidEvent[]" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+    CidEvent: [
+        { name: "productId", type: "bytes32" },
+        { name: "stepId", type: "bytes32" },
+        { name: "cidHash", type: "bytes32" },
+        { name: "stepType", type: "uint8" },
+    ],
+};
+
+/** SignedCidBatch with bigints as decimal strings, for HTTP bodies and files. */
+export type SignedCidBatchJson = Omit<SignedCidBatch, "nonce" | "deadline"> & {
+    nonce: string;
+    deadline: string;
+};
+
+export function cidRollupDomain(chainId: bigint, rollupAddress: string): TypedDataDomain {
+    return {
+        name: CID_ROLLUP_EIP712_NAME,
+        version: CID_ROLLUP_EIP712_VERSION,
+        chainId,
+        verifyingContract: rollupAddress,
+    };
+}
+
+function message(batch: Omit<SignedCidBatch, "signature">) {
+    return { signer: batch.signer, events: batch.events, nonce: batch.nonce, deadline: batch.deadline };
+}
+
+/** Sign `events` as `signer` for CidRollup at `rollupAddress` on `chainId`. */
+export async function signCidBatch(
+    signer: Signer,
+    opts: { chainId: bigint; rollupAddress: string; events: CidEvent[]; nonce: bigint; deadline: bigint },
+): Promise<SignedCidBatch> {
+    const unsigned = {
+        signer: await signer.getAddress(),
+        events: opts.events,
+        nonce: opts.nonce,
+        deadline: opts.deadline,
+    };
+    const signature = await signer.signTypedData(
+        cidRollupDomain(opts.chainId, opts.rollupAddress),
+        CID_BATCH_TYPES,
+        message(unsigned),
+    );
+    return { ...unsigned, signature };
+}
+
+/** The digest CidRollup.hashCidBatch computes on-chain. */
+export function hashCidBatch(
+    chainId: bigint,
+    rollupAddress: string,
+    batch: Omit<SignedCidBatch, "signature">,
+): string {
+    return TypedDataEncoder.hash(cidRollupDomain(chainId, rollupAddress), CID_BATCH_TYPES, message(batch));
+}
+
+/** Address that produced `batch.signature`; equals batch.signer for a valid batch. */
+export function recoverCidBatchSigner(chainId: bigint, rollupAddress: string, batch: SignedCidBatch): string {
+    return ethers.verifyTypedData(
+        cidRollupDomain(chainId, rollupAddress),
+        CID_BATCH_TYPES,
+        message(batch),
+        batch.signature,
+    );
+}
+
+export function signedCidBatchToJson(batch: SignedCidBatch): SignedCidBatchJson {
+    return { ...batch, nonce: batch.nonce.toString(), deadline: batch.deadline.toString() };
+}
+
+/** Parse and shape-check a SignedCidBatchJson (e.g. a relayer request body). */
+export function signedCidBatchFromJson(raw: unknown): SignedCidBatch {
+    const b = raw as Partial<SignedCidBatchJson>;
+    if (!b || typeof b !== "object") throw new Error("Batch must be a JSON object");
+    if (typeof b.signer !== "string" || !ethers.isAddress(b.signer)) throw new Error("signer must be an address");
+    if (!Array.isArray(b.events)) throw new Error("events must be an array");
+    if (typeof b.signature !== "string" || !ethers.isHexString(b.signature, 65)) {
+        throw new Error("signature must be a 65-byte hex string");
+    }
+
+    const events = b.events.map((e, i): CidEvent => {
+        for (const key of ["productId", "stepId", "cidHash"] as const) {
+            if (!ethers.isHexString(e?.[key], 32)) throw new Error(`events[${i}].${key} must be bytes32`);
+        }
+        if (!Number.isInteger(e.stepType) || e.stepType < 0 || e.stepType > 255) {
+            throw new Error(`events[${i}].stepType must be a uint8`);
+        }
+        return { productId: e.productId, stepId: e.stepId, cidHash: e.cidHash, stepType: e.stepType };
+    });
+
+    return {
+        signer: ethers.getAddress(b.signer),
+        events,
+        nonce: parseUint(b.nonce, "nonce"),
+        deadline: parseUint(b.deadline, "deadline"),
+        signature: b.signature,
+    };
+}
+
+function parseUint(value: unknown, name: string): bigint {
+    if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+    if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+    throw new Error(`${name} must be a non-negative integer`);
+}
@@ -0,0 +1,172 @@
+// src/permissions.ts
+//
+// Role -> StepType (CidRollup) and role -> DocType (DocumentRegistry)
+// permission matrices.
+//
+// On-chain each role maps to a uint256 bitmask where bit i allows type i. Here
+// a matrix is the decoded form: role -> sorted list of allowed type values.
+// DEFAULT_* mirror the matrices seeded by the contract constructors.
+
+import { CidRollupClient } from "./clients/cid-rollup.js";
+import { DocumentRegistryClient } from "./clients/document-registry.js";
+import { DOC_TYPE_LABEL, DocType, ROLE_LABEL, Role, STEP_LABEL, STEP_ORDER, StepType } from "./types.js";
+
+export type PermissionMatrix = Record<Role, number[]>;
+
+export type PermissionKind = "step" | "doc";
+
+/** One cell to flip, as sent to setStepPermission / setDocPermission. */
+export type PermissionChange = {
+    kind: PermissionKind;
+    role: Role;
+    type: number;
+    allowed: boolean;
+};
+
+/** Roles that can hold permissions (Role.None is rejected on-chain). */
+export const PERMISSION_ROLES: readonly Role[] = [
+    Role.Producer,
+    Role.Processor,
+    Role.Logistics,
+    Role.Retailer,
+    Role.Certifier,
+    Role.Regulator,
+    Role.Operator,
+];
+
+export const DEFAULT_STEP_PERMISSIONS: PermissionMatrix = {
+    [Role.None]: [],
+    [Role.Producer]: [StepType.Produced],
+    [Role.Processor]: [StepType.Processed],
+    [Role.Logistics]: [StepType.Shipped, StepType.Received],
+    [Role.Retailer]: [StepType.AtRetail, StepType.Sold],
+    [Role.Certifier]: [],
+    [Role.Regulator]: [],
+    [Role.Operator]: [...STEP_ORDER],
+};
+
+export const DEFAULT_DOC_PERMISSIONS: PermissionMatrix = {
+    [Role.None]: [],
+    [Role.Producer]: [DocType.ProductionRecord],
+    [Role.Processor]: [DocType.ProcessingRecord],
+    [Role.Logistics]: [DocType.ShippingDocument, DocType.ReceivingRecord],
+    [Role.Retailer]: [DocType.RetailRecord, DocType.SaleRecord],
+    [Role.Certifier]: [DocType.Certificate, DocType.AuditAttestation],
+    [Role.Regulator]: [DocType.InspectionReport, DocType.AuditAttestation],
+    [Role.Operator]: [
+        DocType.ProductionRecord,
+        DocType.ProcessingRecord,
+        DocType.ShippingDocument,
+        DocType.ReceivingRecord,
+        DocType.RetailRecord,
+        DocType.SaleRecord,
+    ],
+};
+
+// -----------------------------------------------------------------------------
+// Masks
+// -----------------------------------------------------------------------------
+
+/** Decode a permission bitmask into the sorted list of allowed type values. */
+export function maskToTypes(mask: bigint): number[] {
+    const out: number[] = [];
+    for (let i = 0; i < 256 && mask >> BigInt(i) !== 0n; i++) {
+        if ((mask >> BigInt(i)) & 1n) out.push(i);
+    }
+    return out;
+}
+
+export function typesToMask(types: readonly number[]): bigint {
+    let mask = 0n;
+    for (const t of types) {
+        if (!Number.isInteger(t) || t < 0 || t > 255) throw new Error(`Permission type out of uint8 range: ${t}`);
+        mask |= 1n << BigInt(t);
+    }
+    return mask;
+}
+
+// -----------------------------------------------------------------------------
+// Names
+// -----------------------------------------------------------------------------
+
+export function typeLabel(kind: PermissionKind, type: number): string {
+    const labels: Record<number, string> = kind === "step" ? STEP_LABEL : DOC_TYPE_LABEL;
+    return labels[type] ?? `#${type}`;
+}
+
+/** Parse a role name (case-insensitive) or its numeric value. */
+export function parseRole(input: string): Role {
+    const t = input.trim();
+    const byName = PERMISSION_ROLES.find((r) => ROLE_LABEL[r].toLowerCase() === t.toLowerCase());
+    if (byName !== undefined) return byName;
+    const n = Number(t);
+    if (PERMISSION_ROLES.includes(n)) return n;
+    throw new Error(`Unknown role: ${input} (expected one of ${PERMISSION_ROLES.map((r) => ROLE_LABEL[r]).join(", ")})`);
+}
+
+/** Parse a StepType / DocType name (case-insensitive) or any uint8 value. */
+export function parseType(kind: PermissionKind, input: string): number {
+    const t = input.trim();
+    const labels: Record<number, string> = kind === "step" ? STEP_LABEL : DOC_TYPE_LABEL;
+    for (const [value, label] of Object.entries(labels)) {
+        if (label.toLowerCase() === t.toLowerCase()) return Number(value);
+    }
+    const n = Number(t);
+    if (Number.isInteger(n) && n >= 0 && n <= 255) return n;
+    throw new Error(`Unknown ${kind} type: ${input}`);
+}
+
+// -----------------------------------------------------------------------------
+// Read / diff
+// -----------------------------------------------------------------------------
+
+export async function readStepPermissions(cidRollup: CidRollupClient): Promise<PermissionMatrix> {
+    const matrix = emptyMatrix();
+    for (const role of PERMISSION_ROLES) {
+        matrix[role] = maskToTypes(await cidRollup.stepPermissions(role));
+    }
+    return matrix;
+}
+
+export async function readDocPermissions(documentRegistry: DocumentRegistryClient): Promise<PermissionMatrix> {
+    const matrix = emptyMatrix();
+    for (const role of PERMISSION_ROLES) {
+        matrix[role] = maskToTypes(await documentRegistry.docPermissions(role));
+    }
+    return matrix;
+}
+
+/** Cells that must change to turn `current` into `desired` (roles missing from `desired` are left alone). */
+export function diffPermissions(
+    kind: PermissionKind,
+    current: PermissionMatrix,
+    desired: Partial<PermissionMatrix>,
+): PermissionChange[] {
+    const changes: PermissionChange[] = [];
+    for (const role of PERMISSION_ROLES) {
+        const want = desired[role];
+        if (!want) continue;
+        const have = new Set(current[role] ?? []);
+        const wantSet = new Set(want);
+        for (const type of [...wantSet].sort((a, b) => a - b)) {
+            if (!have.has(type)) changes.push({ kind, role, type, allowed: true });
+        }
+        for (const type of [...have].sort((a, b) => a - b)) {
+            if (!wantSet.has(type)) changes.push({ kind, role, type, allowed: false });
+        }
+    }
+    return changes;
+}
+
+function emptyMatrix(): PermissionMatrix {
+    return {
+        [Role.None]: [],
+        [Role.Producer]: [],
+        [Role.Processor]: [],
+        [Role.Logistics]: [],
+        [Role.Retailer]: [],
+        [Role.Certifier]: [],
+        [Role.Regulator]: [],
+        [Role.Operator]: [],
+    };
+}
@@ -0,0 +1,165 @@
+// src/relayer.ts
+//
+// Relayer core for sponsored CidRollup anchors: checks a SignedCidBatch with
+// cheap reads, then submits it with submitCidBatchFor from the relayer's own
+// wallet, which pays the gas.
+//
+// Batches of one signer are sent strictly one after another (each must carry
+// the signer's next nonce), batches of different signers are checked,
+// estimated and mined in parallel. Give the rollup client a NonceManager-wrapped
+// signer so sends get consecutive relayer nonces. NonceManager takes a nonce
+// before ethers estimates gas, so a batch is estimated before it is sent: a
+// revert there would otherwise burn a nonce and leave every later send behind
+// a gap. The sends themselves (nonce, sign, broadcast) go one at a time, so
+// when one fails and the NonceManager is reset, every earlier send is already
+// in the pending count it re-reads.
+
+import { NonceManager, type ContractTransactionResponse } from "ethers";
+
+import { ActorRegistryClient } from "./clients/actor-registry.js";
+import { CidRollupClient } from "./clients/cid-rollup.js";
+import { recoverCidBatchSigner } from "./meta-tx.js";
+import type { SignedCidBatch } from "./types.js";
+
+/** The batch was refused before or by the contract; the relayer did not pay for a mined revert. */
+export class RelayRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RelayRejectedError";
+    }
+}
+
+export type CidRelayerOptions = {
+    chainId: bigint;
+    /** Largest batch the relayer is willing to pay for (default 200 events). */
+    maxEvents?: number;
+};
+
+export type RelayResult = {
+    signer: string;
+    nonce: bigint;
+    events: number;
+    txHash: string;
+    blockNumber: number;
+    gasUsed: bigint;
+};
+
+export type RelayerStats = {
+    /** Batches queued or in flight. */
+    pending: number;
+    relayed: number;
+    /** Rejected by the checks or the contract, or failed to send. */
+    failed: number;
+    gasUsed: bigint;
+};
+
+export class CidRelayer {
+    readonly stats: RelayerStats = { pending: 0, relayed: 0, failed: 0, gasUsed: 0n };
+    private readonly queues = new Map<string, Promise<unknown>>();
+    /** The last submitCidBatchFor; the next one starts after it settles. */
+    private sending: Promise<unknown> = Promise.resolve();
+    private readonly maxEvents: number;
+
+    constructor(
+        readonly rollup: CidRollupClient,
+        readonly actorRegistry: ActorRegistryClient,
+        readonly options: CidRelayerOptions,
+    ) {
+        this.maxEvents = options.maxEvents ?? 200;
+    }
+
+    /** Throws RelayRejectedError if the batch cannot succeed right now. */
+    async check(batch: SignedCidBatch): Promise<void> {
+        if (batch.events.length === 0) throw new RelayRejectedError("empty batch");
+        if (batch.events.length > this.maxEvents) {
+            throw new RelayRejectedError(`batch has ${batch.events.length} events, relayer limit is ${this.maxEvents}`);
+        }
+        if (batch.deadline < BigInt(Math.floor(Date.now() / 1000))) {
+            throw new RelayRejectedError("signature expired");
+        }
+
+        let recovered: string;
+        try {
+            recovered = recoverCidBatchSigner(this.options.chainId, this.rollup.address, batch);
+        } catch {
+            throw new RelayRejectedError("invalid signature");
+        }
+        if (recovered.toLowerCase() !== batch.signer.toLowerCase()) throw new RelayRejectedError("invalid signature");
+
+        const expected = await this.rollup.nonces(batch.signer);
+        if (batch.nonce !== expected) throw new RelayRejectedError(`bad nonce ${batch.nonce}, expected ${expected}`);
+        if (!(await this.actorRegistry.isActiveActor(batch.signer))) {
+            throw new RelayRejectedError("signer is not an active actor");
+        }
+    }
+
+    /** Queue the batch behind earlier batches of the same signer, then check and submit it. */
+    relay(batch: SignedCidBatch): Promise<RelayResult> {
+        const key = batch.signer.toLowerCase();
+        const previous = this.queues.get(key) ?? Promise.resolve();
+        const next = previous.catch(() => undefined).then(() => this.send(batch));
+
+        this.stats.pending++;
+        this.queues.set(key, next);
+        void next
+            .catch(() => undefined)
+            .finally(() => {
+                this.stats.pending--;
+                if (this.queues.get(key) === next) this.queues.delete(key);
+            });
+        return next;
+    }
+
+    private async send(batch: SignedCidBatch): Promise<RelayResult> {
+        try {
+            await this.check(batch);
+            // a reverting batch throws here, before a relayer nonce is taken
+            const gasLimit = await this.rollup.estimateSubmitCidBatchFor(batch);
+            const tx = await this.submit(batch, gasLimit);
+            const receipt = await tx.wait();
+            if (!receipt) throw new Error(`No receipt for ${tx.hash}`);
+
+            this.stats.relayed++;
+            this.stats.gasUsed += receipt.gasUsed;
+            return {
+                signer: batch.signer,
+                nonce: batch.nonce,
+                events: batch.events.length,
+                txHash: tx.hash,
+                blockNumber: receipt.blockNumber,
+                gasUsed: receipt.gasUsed,
+            };
+        } catch (err) {
+            this.stats.failed++;
+            const reason = revertReason(err);
+            if (reason !== undefined) throw new RelayRejectedError(reason);
+            throw err;
+        }
+    }
+
+    /** Send one batch once no other send is in flight; a failed send hands its nonce back. */
+    private submit(batch: SignedCidBatch, gasLimit: bigint): Promise<ContractTransactionResponse> {
+        const next = this.sending
+            .catch(() => undefined)
+            .then(async () => {
+                try {
+                    return await this.rollup.submitCidBatchFor(batch, { gasLimit });
+                } catch (err) {
+                    // not sent: re-read the pending count, which holds every earlier send
+                    const runner = this.rollup.contract.runner;
+                    if (runner instanceof NonceManager) runner.reset();
+                    throw err;
+                }
+            });
+        this.sending = next;
+        return next;
+    }
+}
+
+/** Revert reason of a failed estimate/call, from ethers (CALL_EXCEPTION) or an in-process Hardhat node. */
+function revertReason(err: unknown): string | undefined {
+    const e = err as { code?: string; reason?: string; shortMessage?: string; message?: string };
+    if (e?.code === "CALL_EXCEPTION") return e.reason ?? e.shortMessage ?? "reverted";
+    const match = /reverted with reason string '(.*)'/.exec(e?.message ?? "");
+    return match?.[1];
+}
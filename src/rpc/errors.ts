@@ -0,0 +1,115 @@
+// src/rpc/errors.ts
+//
+// Classification of the errors OP Sepolia endpoints answer under load. The
+// public endpoints reject with -32016 ("exceeded its requests per second
+// capacity") and -32011 ("no backend is currently healthy to serve traffic"),
+// other providers with HTTP 429 / 5xx; all of them say nothing about the
+// request itself, so it can go to another endpoint or be retried later.
+//
+// The checks accept JSON-RPC error objects, ethers errors (which carry the
+// JSON-RPC error as `error`) and RpcTransportError alike.
+
+export type JsonRpcErrorObject = {
+    code: number;
+    message: string;
+    data?: unknown;
+};
+
+/** One failed try of a request against one endpoint. */
+export type RpcAttemptError = {
+    url: string;
+    message: string;
+    /** JSON-RPC error code, when the endpoint answered with one. */
+    code?: number;
+    /** HTTP status, when the endpoint answered with a non-2xx one. */
+    status?: number;
+};
+
+/** A JSON-RPC error answer, thrown by RpcTransport.request. */
+export class RpcResponseError extends Error {
+    readonly code: number;
+    readonly data?: unknown;
+
+    constructor(readonly method: string, readonly error: JsonRpcErrorObject) {
+        super(`${method}: ${error.message} (${error.code})`);
+        this.name = "RpcResponseError";
+        this.code = error.code;
+        this.data = error.data;
+    }
+}
+
+/** Thrown by RpcTransport when no endpoint answered a request. */
+export class RpcTransportError extends Error {
+    /** The last failure's JSON-RPC code / HTTP status, for isRateLimitError & co. */
+    readonly code?: number;
+    readonly status?: number;
+
+    constructor(readonly method: string, readonly attempts: RpcAttemptError[], reason?: string) {
+        const last = attempts.at(-1);
+        const detail = last ? ` (last: ${last.url}: ${last.message})` : "";
+        super(`${method}: ${reason ?? `no endpoint answered after ${attempts.length} attempt(s)`}${detail}`);
+        this.name = "RpcTransportError";
+        this.code = last?.code;
+        this.status = last?.status;
+    }
+}
+
+function errorCode(err: any): unknown {
+    return err?.error?.code ?? err?.code;
+}
+
+function errorMessage(err: any): string {
+    const msg = err?.error?.message ?? err?.message;
+    return typeof msg === "string" ? msg.toLowerCase() : "";
+}
+
+/** -32016 / HTTP 429: the endpoint throttles us. */
+export function isRateLimitError(err: unknown): boolean {
+    const e = err as any;
+    if (errorCode(e) === -32016 || e?.status === 429) return true;
+    const msg = errorMessage(e);
+    return msg.includes("exceeded its requests per second capacity") || msg.includes("too many requests") || msg.includes("rate limit");
+}
+
+/** -32011 / HTTP 502-504: the endpoint has nothing behind it right now. */
+export function isBackendDownError(err: unknown): boolean {
+    const e = err as any;
+    if (errorCode(e) === -32011 || [502, 503, 504].includes(e?.status)) return true;
+    return errorMessage(e).includes("no backend is currently healthy");
+}
+
+/**
+ * The endpoint turned the request away without running it (rate limit or no
+ * backend). Unlike timeouts, a retry cannot repeat a transaction the node
+ * already took, so it is the check for retrying ethers' sendTransaction,
+ * which signs a new nonce on every try.
+ */
+export function isRejectedRpcError(err: unknown): boolean {
+    return isRateLimitError(err) || isBackendDownError(err);
+}
+
+const NETWORK_ERROR_CODES = new Set([
+    "ECONNREFUSED",
+    "ECONNRESET",
+    "ETIMEDOUT",
+    "EPIPE",
+    "ENOTFOUND",
+    "EAI_AGAIN",
+    "TIMEOUT",
+    "NETWORK_ERROR",
+]);
+
+/**
+ * Whether retrying `err` (on this or another endpoint) may succeed: rate
+ * limits, unhealthy backends, timeouts and connection failures. Reverts,
+ * bad params and nonce errors are answers, not transport failures.
+ */
+export function isTransientRpcError(err: unknown): boolean {
+    if (isRejectedRpcError(err)) return true;
+    const e = err as any;
+    if (e instanceof RpcTransportError) return true;
+    const code = e?.code;
+    if (typeof code === "string" && (NETWORK_ERROR_CODES.has(code) || code.startsWith("UND_ERR_"))) return true;
+    const msg = errorMessage(e);
+    return msg.includes("socket hang up") || msg.includes("timeout") || msg.includes("fetch failed");
+}
@@ -0,0 +1,381 @@
+// src/rpc/fault-proxy.ts
+//
+// A JSON-RPC proxy in front of a local node (typically `hardhat node
+// --network hardhatOp`) that answers like a throttled public OP Sepolia
+// endpoint, so the benchmarks and the retry / failover paths can be
+// reproduced offline:
+//
+//   rate limit      -> more than `requestsPerSecond` calls in the current
+//                      second get -32016 "exceeded its requests per second
+//                      capacity" (or HTTP 429 with rateLimitHttp),
+//   backendDownRate -> -32011 "no backend is currently healthy to serve traffic",
+//   underpricedRate -> eth_sendRawTransaction gets -32000 "replacement
+//                      transaction underpriced" without reaching the node,
+//   dropRate        -> the call is forwarded, but the answer never arrives
+//                      (the connection is reset, or held open with dropMode "hang").
+//
+// Every HTTP request waits for a latency drawn from `latency` first. Faults
+// and latencies come from a seeded PRNG, so a sequential run is reproducible;
+// `inject` queues faults for the next matching calls regardless of the rates.
+// Batches are answered call by call: faulted calls get their error, the others
+// go to the node as one batch, and a dropped call is left out of the answer
+// (only a batch whose every call drops loses the whole response). Calls that
+// are not JSON-RPC requests get -32600 (Invalid Request).
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { request } from "undici";
+
+import type { JsonRpcErrorObject } from "./errors.js";
+import type { JsonRpcPayload, JsonRpcResponse } from "./transport.js";
+
+export type LatencyDistribution =
+    | { kind: "fixed"; ms: number }
+    | { kind: "uniform"; minMs: number; maxMs: number }
+    | { kind: "normal"; meanMs: number; stdDevMs: number }
+    | { kind: "exponential"; meanMs: number };
+
+export type RpcFault = "rateLimit" | "backendDown" | "underpriced" | "drop";
+
+export type RpcFaultProxyOptions = {
+    /** The node behind the proxy (e.g. http://127.0.0.1:8545). */
+    upstream: string;
+    /** 0 (default) picks a free port. */
+    port?: number;
+    host?: string;
+    latency?: LatencyDistribution;
+    /** Calls served per wall-clock second before the rate limit answers (default: unlimited). */
+    requestsPerSecond?: number;
+    /** Rate-limit whole HTTP requests with 429 instead of -32016 per call. */
+    rateLimitHttp?: boolean;
+    /** Probability (0..1) that a call gets -32011. */
+    backendDownRate?: number;
+    /** Probability (0..1) that an eth_sendRawTransaction gets "replacement transaction underpriced". */
+    underpricedRate?: number;
+    /** Probability (0..1) that a call is forwarded but its answer dropped. */
+    dropRate?: number;
+    /** "reset" (default) closes the connection, "hang" never answers. */
+    dropMode?: "reset" | "hang";
+    /** Methods passed through without faults or rate limit. */
+    exemptMethods?: string[];
+    /** PRNG seed for latencies and faults (default 1). */
+    seed?: number;
+    /** Per forwarded request (default 30_000 ms). */
+    upstreamTimeoutMs?: number;
+};
+
+export type RpcFaultProxyStats = {
+    /** JSON-RPC calls received (a batch counts each call). */
+    calls: number;
+    forwarded: number;
+    rateLimited: number;
+    backendDown: number;
+    underpriced: number;
+    /** Calls whose answer was dropped. */
+    dropped: number;
+    /** HTTP requests the node did not answer (answered 502). */
+    upstreamErrors: number;
+    latencyMs: number;
+};
+
+const FAULT_ERRORS: Record<Exclude<RpcFault, "drop">, JsonRpcErrorObject> = {
+    rateLimit: { code: -32016, message: "over rate limit: exceeded its requests per second capacity" },
+    backendDown: { code: -32011, message: "no backend is currently healthy to serve traffic" },
+    underpriced: { code: -32000, message: "replacement transaction underpriced" },
+};
+const INVALID_JSON: JsonRpcErrorObject = { code: -32700, message: "Parse error" };
+const INVALID_REQUEST: JsonRpcErrorObject = { code: -32600, message: "Invalid Request" };
+
+function isCall(call: unknown): call is JsonRpcPayload {
+    return typeof call === "object" && call !== null && !Array.isArray(call) && typeof (call as JsonRpcPayload).method === "string";
+}
+
+/** mulberry32, as in the IPFS mock. */
+function prng(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function rate(value: number | undefined, name: string): number {
+    const r = value ?? 0;
+    if (!(r >= 0 && r <= 1)) throw new Error(`${name} must be between 0 and 1, got ${value}`);
+    return r;
+}
+
+/** "fixed:20", "uniform:10,200", "normal:120,40" or "exponential:80" (ms); a bare number is fixed. */
+export function parseLatencyDistribution(spec: string): LatencyDistribution | undefined {
+    const trimmed = spec.trim();
+    if (!trimmed) return undefined;
+    const [kind, rest = ""] = trimmed.includes(":") ? trimmed.split(":", 2) : ["fixed", trimmed];
+    const args = rest.split(",").map((v) => Number(v.trim()));
+    if (args.some((v) => !Number.isFinite(v) || v < 0)) throw new Error(`invalid latency "${spec}": expected non-negative ms values`);
+    const expect = (n: number) => {
+        if (args.length !== n) throw new Error(`invalid latency "${spec}": ${kind} takes ${n} value(s)`);
+    };
+    switch (kind) {
+        case "fixed":
+            expect(1);
+            return { kind, ms: args[0] };
+        case "uniform":
+            expect(2);
+            if (args[1] < args[0]) throw new Error(`invalid latency "${spec}": max below min`);
+            return { kind, minMs: args[0], maxMs: args[1] };
+        case "normal":
+            expect(2);
+            return { kind, meanMs: args[0], stdDevMs: args[1] };
+        case "exponential":
+            expect(1);
+            return { kind, meanMs: args[0] };
+        default:
+            throw new Error(`invalid latency "${spec}": unknown distribution "${kind}" (fixed, uniform, normal, exponential)`);
+    }
+}
+
+/**
+ * Options from RPC_PROXY_UPSTREAM / _PORT / _HOST / _LATENCY / _RPS / _RATE_LIMIT_HTTP /
+ * _BACKEND_DOWN_RATE / _UNDERPRICED_RATE / _DROP_RATE / _DROP_MODE / _EXEMPT_METHODS / _SEED.
+ */
+export function rpcFaultProxyOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RpcFaultProxyOptions {
+    const num = (name: string, fallback: number) => {
+        const value = Number(env[name] ?? fallback);
+        if (!Number.isFinite(value)) throw new Error(`${name} must be a number`);
+        return value;
+    };
+    const dropMode = env.RPC_PROXY_DROP_MODE ?? "reset";
+    if (dropMode !== "reset" && dropMode !== "hang") throw new Error(`RPC_PROXY_DROP_MODE must be "reset" or "hang", got "${dropMode}"`);
+    return {
+        upstream: env.RPC_PROXY_UPSTREAM ?? "http://127.0.0.1:8545",
+        port: num("RPC_PROXY_PORT", 8546),
+        host: env.RPC_PROXY_HOST ?? "127.0.0.1",
+        latency: parseLatencyDistribution(env.RPC_PROXY_LATENCY ?? ""),
+        requestsPerSecond: num("RPC_PROXY_RPS", 0) || undefined,
+        rateLimitHttp: env.RPC_PROXY_RATE_LIMIT_HTTP === "1",
+        backendDownRate: num("RPC_PROXY_BACKEND_DOWN_RATE", 0),
+        underpricedRate: num("RPC_PROXY_UNDERPRICED_RATE", 0),
+        dropRate: num("RPC_PROXY_DROP_RATE", 0),
+        dropMode,
+        exemptMethods: (env.RPC_PROXY_EXEMPT_METHODS ?? "").split(",").map((m) => m.trim()).filter(Boolean),
+        seed: num("RPC_PROXY_SEED", 1),
+    };
+}
+
+export class RpcFaultProxy {
+    readonly stats: RpcFaultProxyStats = {
+        calls: 0,
+        forwarded: 0,
+        rateLimited: 0,
+        backendDown: 0,
+        underpriced: 0,
+        dropped: 0,
+        upstreamErrors: 0,
+        latencyMs: 0,
+    };
+    private readonly random: () => number;
+    private readonly backendDownRate: number;
+    private readonly underpricedRate: number;
+    private readonly dropRate: number;
+    private readonly exempt: Set<string>;
+    private readonly queued: { fault: RpcFault; method?: string }[] = [];
+    private readonly server: http.Server;
+    private window = { second: 0, calls: 0 };
+    private baseUrl?: string;
+
+    constructor(readonly options: RpcFaultProxyOptions) {
+        this.random = prng(options.seed ?? 1);
+        this.backendDownRate = rate(options.backendDownRate, "backendDownRate");
+        this.underpricedRate = rate(options.underpricedRate, "underpricedRate");
+        this.dropRate = rate(options.dropRate, "dropRate");
+        this.exempt = new Set(options.exemptMethods ?? []);
+        this.server = http.createServer((req, res) => void this.handle(req, res));
+    }
+
+    /** Start listening; resolves to the proxy's URL (e.g. http://127.0.0.1:8546). */
+    async start(): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", resolve);
+        });
+        const { address, port } = this.server.address() as AddressInfo;
+        this.baseUrl = `http://${address.includes(":") ? `[${address}]` : address}:${port}`;
+        return this.baseUrl;
+    }
+
+    get url(): string {
+        if (!this.baseUrl) throw new Error("RpcFaultProxy is not started");
+        return this.baseUrl;
+    }
+
+    async close(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Fail the next `count` calls of `method` (any non-exempt method by default;
+     * "underpriced" only hits eth_sendRawTransaction) with `fault`, ahead of the rates.
+     */
+    inject(fault: RpcFault, count = 1, method?: string): void {
+        for (let i = 0; i < count; i++) this.queued.push({ fault, method });
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        try {
+            await this.serve(req, res);
+        } catch (err) {
+            if (res.headersSent) {
+                res.destroy();
+                return;
+            }
+            res.writeHead(500, { "content-type": "text/plain" }).end(`rpc-fault-proxy: ${(err as Error).message}`);
+        }
+    }
+
+    private async serve(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        let body = "";
+        for await (const chunk of req) body += chunk;
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(body);
+        } catch {
+            this.json(res, 200, { jsonrpc: "2.0", id: null, error: INVALID_JSON });
+            return;
+        }
+        const batch = Array.isArray(parsed);
+        const calls = (batch ? parsed : [parsed]) as unknown[];
+        if (!calls.length) {
+            this.json(res, 200, { jsonrpc: "2.0", id: null, error: INVALID_REQUEST });
+            return;
+        }
+        this.stats.calls += calls.length;
+
+        const latency = this.latency();
+        if (latency > 0) {
+            this.stats.latencyMs += latency;
+            await new Promise((r) => setTimeout(r, latency));
+        }
+
+        // calls that are not JSON-RPC requests are answered here, without faults
+        const valid = calls.map((call) => isCall(call));
+        const faults = calls.map((call, i) => (valid[i] ? this.fault((call as JsonRpcPayload).method) : undefined));
+        if (this.options.rateLimitHttp && faults.includes("rateLimit")) {
+            res.writeHead(429, { "content-type": "text/plain" }).end("Too Many Requests");
+            return;
+        }
+
+        const forward = calls.filter((_, i) => valid[i] && (faults[i] === undefined || faults[i] === "drop")) as JsonRpcPayload[];
+        let answers: JsonRpcResponse[] = [];
+        if (forward.length) {
+            let upstream: { status: number; text: string };
+            try {
+                upstream = await this.forward(batch ? forward : forward[0]);
+            } catch (err) {
+                this.stats.upstreamErrors++;
+                res.writeHead(502, { "content-type": "text/plain" }).end(`upstream unavailable: ${(err as Error).message}`);
+                return;
+            }
+            this.stats.forwarded += forward.length;
+            let json: unknown;
+            try {
+                json = JSON.parse(upstream.text);
+            } catch {
+                json = undefined;
+            }
+            // the node's own HTTP errors and unparsable answers go back as they are
+            if (upstream.status !== 200 || json === undefined) {
+                res.writeHead(upstream.status, { "content-type": "text/plain" }).end(upstream.text);
+                return;
+            }
+            answers = Array.isArray(json) ? json : [json];
+        }
+
+        // a dropped call loses its answer; when every answer is lost, so is the HTTP response
+        const dropped = faults.filter((f) => f === "drop").length;
+        this.stats.dropped += dropped;
+        if (dropped === calls.length) {
+            if ((this.options.dropMode ?? "reset") === "reset") req.socket.destroy();
+            // "hang": the response stays open until the client gives up or the proxy closes
+            return;
+        }
+
+        const byId = new Map(answers.map((a) => [a?.id, a]));
+        const out = calls.flatMap((call, i): unknown[] => {
+            const fault = faults[i];
+            if (!valid[i]) return [{ jsonrpc: "2.0", id: null, error: INVALID_REQUEST }];
+            if (fault === "drop") return [];
+            const id = (call as JsonRpcPayload).id;
+            if (fault) return [{ jsonrpc: "2.0", id, error: FAULT_ERRORS[fault] }];
+            return [batch ? byId.get(id) : answers[0]];
+        });
+        this.json(res, 200, batch ? out : out[0]);
+    }
+
+    /** The fault for one call, counted in stats; undefined serves it. */
+    private fault(method: string): RpcFault | undefined {
+        if (this.exempt.has(method)) return undefined;
+        const fault = this.queuedFault(method) ?? this.drawFault(method);
+        if (fault === "rateLimit") this.stats.rateLimited++;
+        if (fault === "backendDown") this.stats.backendDown++;
+        if (fault === "underpriced") this.stats.underpriced++;
+        return fault;
+    }
+
+    private queuedFault(method: string): RpcFault | undefined {
+        const i = this.queued.findIndex(
+            (q) => (q.method ?? method) === method && (q.fault !== "underpriced" || method === "eth_sendRawTransaction"),
+        );
+        return i < 0 ? undefined : this.queued.splice(i, 1)[0].fault;
+    }
+
+    private drawFault(method: string): RpcFault | undefined {
+        const rps = this.options.requestsPerSecond;
+        if (rps) {
+            const second = Math.floor(Date.now() / 1000);
+            if (second !== this.window.second) this.window = { second, calls: 0 };
+            if (++this.window.calls > rps) return "rateLimit";
+        }
+        if (this.backendDownRate > 0 && this.random() < this.backendDownRate) return "backendDown";
+        if (method === "eth_sendRawTransaction" && this.underpricedRate > 0 && this.random() < this.underpricedRate) return "underpriced";
+        if (this.dropRate > 0 && this.random() < this.dropRate) return "drop";
+        return undefined;
+    }
+
+    private latency(): number {
+        const d = this.options.latency;
+        if (!d) return 0;
+        switch (d.kind) {
+            case "fixed":
+                return d.ms;
+            case "uniform":
+                return d.minMs + this.random() * (d.maxMs - d.minMs);
+            case "normal": {
+                // Box-Muller, cut at 0
+                const u = 1 - this.random();
+                const v = this.random();
+                return Math.max(0, d.meanMs + d.stdDevMs * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v));
+            }
+            case "exponential":
+                return -d.meanMs * Math.log(1 - this.random());
+        }
+    }
+
+    private async forward(payload: unknown): Promise<{ status: number; text: string }> {
+        const res = await request(this.options.upstream, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(payload),
+            signal: AbortSignal.timeout(this.options.upstreamTimeoutMs ?? 30_000),
+        });
+        return { status: res.statusCode, text: await res.body.text() };
+    }
+
+    private json(res: http.ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify(body));
+    }
+}
@@ -0,0 +1,113 @@
+// src/rpc/index.ts
+
+import { FailoverProvider } from "./provider.js";
+import { RpcTransport, type RpcTransportEvent, type RpcTransportOptions } from "./transport.js";
+
+export {
+    RpcResponseError,
+    RpcTransportError,
+    isBackendDownError,
+    isRateLimitError,
+    isRejectedRpcError,
+    isTransientRpcError,
+    type JsonRpcErrorObject,
+    type RpcAttemptError,
+} from "./errors.js";
+export {
+    RpcFaultProxy,
+    parseLatencyDistribution,
+    rpcFaultProxyOptionsFromEnv,
+    type LatencyDistribution,
+    type RpcFault,
+    type RpcFaultProxyOptions,
+    type RpcFaultProxyStats,
+} from "./fault-proxy.js";
+export { FailoverProvider } from "./provider.js";
+export { withRpcRetry, type RpcRetryOptions } from "./retry.js";
+export {
+    RpcTransport,
+    isHedgeableMethod,
+    type JsonRpcPayload,
+    type JsonRpcResponse,
+    type RpcEndpointConfig,
+    type RpcEndpointHealth,
+    type RpcTransportEvent,
+    type RpcTransportOptions,
+    type RpcTransportStats,
+} from "./transport.js";
+
+/** The HTTP(S) URLs of a JSON array env var such as OP_SEPOLIA_PUBLIC_RPCS_JSON. */
+export function parseRpcUrlList(name: string, raw: string | undefined): string[] {
+    if (!raw?.trim()) return [];
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (e) {
+        throw new Error(`Failed to parse ${name}: ${(e as Error).message}`);
+    }
+    if (!Array.isArray(parsed)) throw new Error(`${name} must be a JSON array of URLs`);
+    return parsed.filter((u): u is string => typeof u === "string" && /^https?:\/\//.test(u.trim())).map((u) => u.trim());
+}
+
+/**
+ * The endpoints of the scripts' chain: OP_SEPOLIA_RPC_URL first, then
+ * OP_SEPOLIA_PRIVATE_RPCS_JSON and OP_SEPOLIA_PUBLIC_RPCS_JSON (unless
+ * RPC_FAILOVER=0). Endpoints of another chain are excluded by the transport.
+ */
+export function rpcEndpointsFromEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+    const primary = env.OP_SEPOLIA_RPC_URL?.trim();
+    const lists =
+        env.RPC_FAILOVER === "0"
+            ? []
+            : [
+                  ...parseRpcUrlList("OP_SEPOLIA_PRIVATE_RPCS_JSON", env.OP_SEPOLIA_PRIVATE_RPCS_JSON),
+                  ...parseRpcUrlList("OP_SEPOLIA_PUBLIC_RPCS_JSON", env.OP_SEPOLIA_PUBLIC_RPCS_JSON),
+              ];
+    const urls = [...new Set([...(primary ? [primary] : []), ...lists])];
+    if (!urls.length) {
+        throw new Error("Missing env var: OP_SEPOLIA_RPC_URL (or OP_SEPOLIA_PRIVATE_RPCS_JSON / OP_SEPOLIA_PUBLIC_RPCS_JSON)");
+    }
+    return urls;
+}
+
+/** One line per transport event, for script logs. */
+export function describeRpcEvent(event: RpcTransportEvent): string {
+    switch (event.type) {
+        case "failover":
+            return `[rpc] ${event.method} failed on ${event.endpoint}: ${event.error.slice(0, 160)}`;
+        case "backoff":
+            return `[rpc] every endpoint cools down; ${event.method} waits ${event.delayMs} ms for ${event.endpoint}`;
+        case "hedge":
+            return `[rpc] ${event.method} hedged to ${event.endpoint} after ${event.afterMs} ms`;
+        case "excluded":
+            return `[rpc] ${event.endpoint} excluded: ${event.reason}`;
+    }
+}
+
+/**
+ * A transport over rpcEndpointsFromEnv, tuned by RPC_TIMEOUT_MS, RPC_MAX_ATTEMPTS,
+ * RPC_HEDGE_MS and RPC_COOLDOWN_MS. Failovers are logged to stderr unless RPC_LOG=0.
+ */
+export function rpcTransportFromEnv(env: NodeJS.ProcessEnv = process.env, options: Partial<RpcTransportOptions> = {}): RpcTransport {
+    const num = (name: string) => {
+        const v = env[name]?.trim();
+        if (!v) return undefined;
+        const n = Number(v);
+        if (!Number.isFinite(n) || n < 0) throw new Error(`${name} must be a non-negative number, got "${v}"`);
+        return n;
+    };
+    return new RpcTransport({
+        endpoints: rpcEndpointsFromEnv(env),
+        timeoutMs: num("RPC_TIMEOUT_MS"),
+        maxAttempts: num("RPC_MAX_ATTEMPTS"),
+        hedgeMs: num("RPC_HEDGE_MS"),
+        cooldownMs: num("RPC_COOLDOWN_MS"),
+        onEvent: env.RPC_LOG === "0" ? undefined : (event) => console.warn(describeRpcEvent(event)),
+        ...options,
+    });
+}
+
+/** A FailoverProvider over rpcTransportFromEnv. */
+export function rpcProviderFromEnv(env: NodeJS.ProcessEnv = process.env, options: Partial<RpcTransportOptions> = {}): FailoverProvider {
+    return new FailoverProvider(rpcTransportFromEnv(env, options));
+}
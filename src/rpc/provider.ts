@@ -0,0 +1,29 @@
+// src/rpc/provider.ts
+//
+// An ethers JsonRpcProvider whose requests go through an RpcTransport, so
+// contract clients, wallets and the indexer fail over like raw requests do.
+
+import { JsonRpcProvider, type JsonRpcApiProviderOptions, type JsonRpcPayload, type JsonRpcResult, type Networkish } from "ethers";
+
+import { RpcTransport, type RpcEndpointConfig } from "./transport.js";
+
+export class FailoverProvider extends JsonRpcProvider {
+    readonly transport: RpcTransport;
+
+    constructor(
+        endpoints: RpcTransport | readonly (string | RpcEndpointConfig)[],
+        network?: Networkish,
+        options?: JsonRpcApiProviderOptions,
+    ) {
+        const transport = endpoints instanceof RpcTransport ? endpoints : new RpcTransport({ endpoints });
+        super(transport.urls[0], network, options);
+        this.transport = transport;
+    }
+
+    // ethers types the answers as results, but handles { error } answers too
+    async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+        // batches are split: each request picks its own endpoint
+        const payloads = Array.isArray(payload) ? payload : [payload];
+        return (await Promise.all(payloads.map((p) => this.transport.send(p)))) as JsonRpcResult[];
+    }
+}
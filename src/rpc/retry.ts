@@ -0,0 +1,42 @@
+// src/rpc/retry.ts
+//
+// Retry of a whole operation (a transfer, a batch of reads) on transient RPC
+// errors, for the cases where the transport's own failover is not enough:
+// every endpoint stayed rate-limited, or the caller only has one.
+
+import { isTransientRpcError } from "./errors.js";
+
+export type RpcRetryOptions = {
+    /** Named in the retry log lines. */
+    label?: string;
+    /** Tries in total (default 8). */
+    maxAttempts?: number;
+    /** Delay before the second try, doubled per try (default 1_000 ms, at most maxDelayMs). */
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** Which errors to retry (default isTransientRpcError). */
+    retryIf?: (err: unknown) => boolean;
+    /** Receives one line per retry. */
+    log?: (line: string) => void;
+};
+
+export async function withRpcRetry<T>(fn: () => Promise<T>, options: RpcRetryOptions = {}): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? 8;
+    const baseDelayMs = options.baseDelayMs ?? 1_000;
+    const maxDelayMs = options.maxDelayMs ?? 10_000;
+    const retryIf = options.retryIf ?? isTransientRpcError;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (err: any) {
+            if (attempt >= maxAttempts || !retryIf(err)) throw err;
+            const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            const reason = String(err?.shortMessage ?? err?.error?.message ?? err?.message ?? err).slice(0, 160);
+            options.log?.(
+                `RPC issue on "${options.label ?? "request"}" (attempt ${attempt}/${maxAttempts}): ${reason}; retrying in ${delayMs} ms`,
+            );
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+    }
+}
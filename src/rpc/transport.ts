@@ -0,0 +1,432 @@
+// src/rpc/transport.ts
+//
+// JSON-RPC over HTTP across several endpoints of one chain. Each request goes
+// to the endpoint with the best score (smoothed latency × requests in flight,
+// weighed by its recent error rate), so load spreads once the fastest one is
+// busy. Rate limits (-32016, HTTP 429), unhealthy backends (-32011, 502-504),
+// timeouts and connection errors put the endpoint on a cooldown that doubles
+// with each consecutive failure, and the request moves to the next endpoint;
+// when every endpoint cools down, it waits for the first to come back.
+//
+// Reads may be hedged: without an answer after `hedgeMs`, the request also
+// goes to the next best endpoint and the first answer wins. Transactions are
+// never hedged; a resend that the node reports as already known resolves to
+// the transaction's hash. Filter methods stay on the first endpoint, since
+// filter ids only exist on the node that created them.
+//
+// Every other JSON-RPC error (reverts, bad params, nonce errors) is an answer
+// and is passed through as is, so ethers surfaces it like from any node.
+
+import { keccak256 } from "ethers";
+import { request } from "undici";
+
+import {
+    RpcResponseError,
+    RpcTransportError,
+    isBackendDownError,
+    isRateLimitError,
+    type JsonRpcErrorObject,
+    type RpcAttemptError,
+} from "./errors.js";
+
+export type JsonRpcPayload = {
+    jsonrpc: "2.0";
+    id: number | string;
+    method: string;
+    params?: unknown[] | Record<string, unknown>;
+};
+
+export type JsonRpcResponse = {
+    jsonrpc: "2.0";
+    id: number | string;
+    result?: unknown;
+    error?: JsonRpcErrorObject;
+};
+
+export type RpcEndpointConfig = {
+    url: string;
+    /** Name in logs and health reports (default: the URL's host). */
+    label?: string;
+    headers?: Record<string, string>;
+};
+
+export type RpcTransportEvent =
+    | { type: "failover"; method: string; endpoint: string; error: string }
+    | { type: "backoff"; method: string; endpoint: string; delayMs: number }
+    | { type: "hedge"; method: string; endpoint: string; afterMs: number }
+    | { type: "excluded"; endpoint: string; reason: string };
+
+export type RpcTransportOptions = {
+    endpoints: readonly (string | RpcEndpointConfig)[];
+    /** Per try (default 30_000 ms). */
+    timeoutMs?: number;
+    /** Tries per request across all endpoints (default: 6, or twice the endpoints). */
+    maxAttempts?: number;
+    /** Hedge reads after this long without an answer (default 0: off). */
+    hedgeMs?: number;
+    /** Cooldown after a failure, doubled per consecutive failure (default 1_000 ms, at most maxCooldownMs). */
+    cooldownMs?: number;
+    maxCooldownMs?: number;
+    /**
+     * Endpoints answering another eth_chainId are excluded, so a list mixing
+     * networks cannot fail over to the wrong chain. Default: the chain of the
+     * first endpoint to answer; false skips the check.
+     */
+    chainId?: bigint | number | false;
+    onEvent?: (event: RpcTransportEvent) => void;
+};
+
+export type RpcEndpointHealth = {
+    url: string;
+    label: string;
+    requests: number;
+    failures: number;
+    rateLimited: number;
+    /** Smoothed latency of the successful tries; undefined until one succeeded. */
+    latencyMs?: number;
+    /** Smoothed share of failed tries (0..1). */
+    errorRate: number;
+    consecutiveFailures: number;
+    inFlight: number;
+    /** Remaining cooldown (0 when the endpoint takes requests). */
+    coolingDownMs: number;
+    /** Why the endpoint is no longer used, e.g. another chain. */
+    excluded?: string;
+    lastError?: string;
+};
+
+export type RpcTransportStats = {
+    requests: number;
+    /** Tries that failed and moved the request on. */
+    failovers: number;
+    hedges: number;
+    /** Hedged requests answered by the hedge rather than the first endpoint. */
+    hedgeWins: number;
+    endpoints: RpcEndpointHealth[];
+};
+
+type Endpoint = {
+    url: string;
+    label: string;
+    headers: Record<string, string>;
+    requests: number;
+    failures: number;
+    rateLimited: number;
+    latencyMs?: number;
+    errorRate: number;
+    consecutiveFailures: number;
+    inFlight: number;
+    cooldownUntil: number;
+    excluded?: string;
+    lastError?: string;
+    chainCheck?: Promise<void>;
+};
+
+type Outcome = { response: JsonRpcResponse } | { errors: RpcAttemptError[] };
+
+/** Weight of a new sample in the latency / error-rate averages. */
+const SMOOTHING = 0.2;
+/** Score of an endpoint that has not answered yet: tried once the measured ones are busy or failing. */
+const UNMEASURED_LATENCY_MS = 1_000;
+
+const WRITE_METHODS = new Set(["eth_sendRawTransaction", "eth_sendTransaction"]);
+const FILTER_METHODS = new Set([
+    "eth_newFilter",
+    "eth_newBlockFilter",
+    "eth_newPendingTransactionFilter",
+    "eth_getFilterChanges",
+    "eth_getFilterLogs",
+    "eth_uninstallFilter",
+]);
+
+/** Whether a request may be sent to two endpoints at once (reads without node-local state). */
+export function isHedgeableMethod(method: string): boolean {
+    return /^(eth|net|web3)_/.test(method) && !WRITE_METHODS.has(method) && !FILTER_METHODS.has(method) && !method.startsWith("eth_sign");
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function endpointLabel(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return url;
+    }
+}
+
+export class RpcTransport {
+    private readonly endpoints: Endpoint[];
+    private readonly timeoutMs: number;
+    private readonly maxAttempts: number;
+    private readonly hedgeMs: number;
+    private readonly cooldownMs: number;
+    private readonly maxCooldownMs: number;
+    private chainId?: bigint;
+    private readonly counters = { requests: 0, failovers: 0, hedges: 0, hedgeWins: 0 };
+    private nextId = 1;
+
+    constructor(readonly options: RpcTransportOptions) {
+        if (!options.endpoints.length) throw new Error("RpcTransport needs at least one endpoint");
+        const seen = new Set<string>();
+        this.endpoints = [];
+        for (const e of options.endpoints) {
+            const config = typeof e === "string" ? { url: e } : e;
+            const url = config.url.trim();
+            if (seen.has(url)) continue;
+            seen.add(url);
+            this.endpoints.push({
+                url,
+                label: config.label ?? endpointLabel(url),
+                headers: config.headers ?? {},
+                requests: 0,
+                failures: 0,
+                rateLimited: 0,
+                errorRate: 0,
+                consecutiveFailures: 0,
+                inFlight: 0,
+                cooldownUntil: 0,
+            });
+        }
+        this.timeoutMs = options.timeoutMs ?? 30_000;
+        this.maxAttempts = options.maxAttempts ?? Math.max(6, 2 * this.endpoints.length);
+        this.hedgeMs = options.hedgeMs ?? 0;
+        this.cooldownMs = options.cooldownMs ?? 1_000;
+        this.maxCooldownMs = options.maxCooldownMs ?? 30_000;
+        if (options.chainId !== undefined && options.chainId !== false) this.chainId = BigInt(options.chainId);
+    }
+
+    /** The endpoint URLs, in configuration order. */
+    get urls(): string[] {
+        return this.endpoints.map((e) => e.url);
+    }
+
+    /** Send one request; resolves to the endpoint's answer, JSON-RPC errors included. */
+    async send(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        this.counters.requests++;
+        const attempts: RpcAttemptError[] = [];
+        const hedge = this.hedgeMs > 0 && isHedgeableMethod(payload.method);
+
+        while (attempts.length < this.maxAttempts) {
+            const endpoint = this.pick(payload.method);
+            if (!endpoint) throw new RpcTransportError(payload.method, attempts, "every endpoint is excluded");
+            const waitMs = endpoint.cooldownUntil - Date.now();
+            if (waitMs > 0) {
+                this.emit({ type: "backoff", method: payload.method, endpoint: endpoint.label, delayMs: waitMs });
+                await sleep(waitMs);
+            }
+
+            const outcome = hedge ? await this.hedged(endpoint, payload) : await this.attempt(endpoint, payload);
+            if ("response" in outcome) {
+                const { response } = outcome;
+                if (attempts.length && payload.method === "eth_sendRawTransaction" && isAlreadyKnown(response.error)) {
+                    // an earlier try reached a node after all
+                    return { jsonrpc: "2.0", id: payload.id, result: keccak256((payload.params as string[])[0]) };
+                }
+                return response;
+            }
+            for (const error of outcome.errors) {
+                attempts.push(error);
+                this.counters.failovers++;
+                this.emit({ type: "failover", method: payload.method, endpoint: endpointLabel(error.url), error: error.message });
+            }
+        }
+        throw new RpcTransportError(payload.method, attempts);
+    }
+
+    /** `method`'s result; JSON-RPC errors throw an RpcResponseError. */
+    async request<T = any>(method: string, params: unknown[] = []): Promise<T> {
+        const response = await this.send({ jsonrpc: "2.0", id: this.nextId++, method, params });
+        if (response.error) throw new RpcResponseError(method, response.error);
+        return response.result as T;
+    }
+
+    /** Counters and per-endpoint health, best endpoint first. */
+    health(): RpcTransportStats {
+        const now = Date.now();
+        const endpoints = [...this.endpoints]
+            .sort((a, b) => Number(!!a.excluded) - Number(!!b.excluded) || this.score(a) - this.score(b))
+            .map((e) => ({
+                url: e.url,
+                label: e.label,
+                requests: e.requests,
+                failures: e.failures,
+                rateLimited: e.rateLimited,
+                latencyMs: e.latencyMs === undefined ? undefined : Math.round(e.latencyMs * 10) / 10,
+                errorRate: Math.round(e.errorRate * 1000) / 1000,
+                consecutiveFailures: e.consecutiveFailures,
+                inFlight: e.inFlight,
+                coolingDownMs: e.excluded ? 0 : Math.max(0, e.cooldownUntil - now),
+                excluded: e.excluded,
+                lastError: e.lastError,
+            }));
+        return { ...this.counters, endpoints };
+    }
+
+    // -------------------------------------------------------------------------
+    // Endpoint choice
+    // -------------------------------------------------------------------------
+
+    private score(e: Endpoint): number {
+        return (e.inFlight + 1) * (e.latencyMs ?? UNMEASURED_LATENCY_MS) * (1 + 4 * e.errorRate);
+    }
+
+    /** The endpoint to try next: the best one taking requests, else the first to come off cooldown. */
+    private pick(method: string, except?: Endpoint): Endpoint | undefined {
+        const usable = this.endpoints.filter((e) => !e.excluded && e !== except);
+        if (!usable.length) return undefined;
+        const now = Date.now();
+        const ready = usable.filter((e) => e.cooldownUntil <= now);
+        if (FILTER_METHODS.has(method)) return ready[0] ?? usable[0];
+        if (!ready.length) return usable.reduce((a, b) => (b.cooldownUntil < a.cooldownUntil ? b : a));
+        return ready.reduce((a, b) => (this.score(b) < this.score(a) ? b : a));
+    }
+
+    // -------------------------------------------------------------------------
+    // Tries
+    // -------------------------------------------------------------------------
+
+    /** Race `first` against the next best endpoint once `hedgeMs` passed without an answer. */
+    private hedged(first: Endpoint, payload: JsonRpcPayload): Promise<Outcome> {
+        return new Promise((resolve) => {
+            const controllers: AbortController[] = [];
+            const errors: RpcAttemptError[] = [];
+            let pending = 0;
+            let settled = false;
+
+            const launch = (endpoint: Endpoint) => {
+                const controller = new AbortController();
+                controllers.push(controller);
+                pending++;
+                void this.attempt(endpoint, payload, controller.signal).then((outcome) => {
+                    pending--;
+                    if (settled) return;
+                    if ("response" in outcome) {
+                        settled = true;
+                        clearTimeout(timer);
+                        if (endpoint !== first) this.counters.hedgeWins++;
+                        for (const c of controllers) c.abort();
+                        resolve(outcome);
+                        return;
+                    }
+                    errors.push(...outcome.errors);
+                    if (pending === 0) {
+                        settled = true;
+                        clearTimeout(timer);
+                        resolve({ errors });
+                    }
+                });
+            };
+
+            const timer = setTimeout(() => {
+                const second = this.pick(payload.method, first);
+                if (settled || !second || second.cooldownUntil > Date.now()) return;
+                this.counters.hedges++;
+                this.emit({ type: "hedge", method: payload.method, endpoint: second.label, afterMs: this.hedgeMs });
+                launch(second);
+            }, this.hedgeMs);
+            launch(first);
+        });
+    }
+
+    private async attempt(endpoint: Endpoint, payload: JsonRpcPayload, signal?: AbortSignal): Promise<Outcome> {
+        endpoint.inFlight++;
+        const started = performance.now();
+        endpoint.requests++;
+        try {
+            await this.checkChain(endpoint, signal);
+            const { status, body } = await this.post(endpoint, payload, signal);
+            if (body && typeof body === "object" && !Array.isArray(body) && ("result" in body || "error" in body)) {
+                const response = { ...(body as JsonRpcResponse), id: payload.id };
+                const error = response.error;
+                if (!error || !(isRateLimitError(error) || isBackendDownError(error) || status === 429)) {
+                    this.succeeded(endpoint, performance.now() - started);
+                    return { response };
+                }
+                return { errors: [this.failed(endpoint, { url: endpoint.url, message: error.message, code: error.code, status })] };
+            }
+            const text = typeof body === "string" ? body : JSON.stringify(body);
+            return { errors: [this.failed(endpoint, { url: endpoint.url, message: `HTTP ${status}: ${text.slice(0, 200)}`, status })] };
+        } catch (err: any) {
+            if (signal?.aborted) return { errors: [] };
+            return { errors: [this.failed(endpoint, { url: endpoint.url, message: err?.message ?? String(err), code: err?.code })] };
+        } finally {
+            endpoint.inFlight--;
+        }
+    }
+
+    private async post(endpoint: Endpoint, payload: JsonRpcPayload, signal?: AbortSignal): Promise<{ status: number; body: unknown }> {
+        const timeout = AbortSignal.timeout(this.timeoutMs);
+        let res;
+        let text: string;
+        try {
+            res = await request(endpoint.url, {
+                method: "POST",
+                headers: { "content-type": "application/json", ...endpoint.headers },
+                body: JSON.stringify(payload),
+                signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+            });
+            text = await res.body.text();
+        } catch (err) {
+            if (timeout.aborted) throw Object.assign(new Error(`timeout after ${this.timeoutMs} ms`), { code: "TIMEOUT" });
+            throw err;
+        }
+        try {
+            return { status: res.statusCode, body: JSON.parse(text) };
+        } catch {
+            return { status: res.statusCode, body: text };
+        }
+    }
+
+    /** Exclude endpoints of another chain before their first request. */
+    private checkChain(endpoint: Endpoint, signal?: AbortSignal): Promise<void> {
+        if (this.options.chainId === false) return Promise.resolve();
+        endpoint.chainCheck ??= (async () => {
+            const { body } = await this.post(endpoint, { jsonrpc: "2.0", id: 0, method: "eth_chainId", params: [] }, signal);
+            const result = (body as JsonRpcResponse | undefined)?.result;
+            if (typeof result !== "string") throw new Error(`eth_chainId: unexpected answer ${JSON.stringify(body).slice(0, 200)}`);
+            const chainId = BigInt(result);
+            this.chainId ??= chainId;
+            if (chainId !== this.chainId) {
+                endpoint.excluded = `chain ${chainId}, expected ${this.chainId}`;
+                this.emit({ type: "excluded", endpoint: endpoint.label, reason: endpoint.excluded });
+                throw new Error(endpoint.excluded);
+            }
+        })().catch((err) => {
+            if (!endpoint.excluded) endpoint.chainCheck = undefined;
+            throw err;
+        });
+        return endpoint.chainCheck;
+    }
+
+    // -------------------------------------------------------------------------
+    // Health
+    // -------------------------------------------------------------------------
+
+    private succeeded(endpoint: Endpoint, ms: number) {
+        endpoint.latencyMs = endpoint.latencyMs === undefined ? ms : endpoint.latencyMs + SMOOTHING * (ms - endpoint.latencyMs);
+        endpoint.errorRate *= 1 - SMOOTHING;
+        endpoint.consecutiveFailures = 0;
+        endpoint.cooldownUntil = 0;
+    }
+
+    private failed(endpoint: Endpoint, error: RpcAttemptError): RpcAttemptError {
+        endpoint.failures++;
+        if (isRateLimitError(error)) endpoint.rateLimited++;
+        endpoint.errorRate += SMOOTHING * (1 - endpoint.errorRate);
+        endpoint.consecutiveFailures++;
+        const cooldown = Math.min(this.maxCooldownMs, this.cooldownMs * 2 ** (endpoint.consecutiveFailures - 1));
+        endpoint.cooldownUntil = endpoint.excluded ? Infinity : Date.now() + cooldown;
+        endpoint.lastError = error.message;
+        return error;
+    }
+
+    private emit(event: RpcTransportEvent) {
+        this.options.onEvent?.(event);
+    }
+}
+
+function isAlreadyKnown(error?: JsonRpcErrorObject): boolean {
+    return !!error && /already known|known transaction|already imported/i.test(error.message ?? "");
+}
@@ -0,0 +1,162 @@
+// src/split-profiles.ts
+//
+// PaymentRouter split profiles: named premium splits (e.g. one per cooperative
+// or certification scheme) that products are bound to.
+//
+// Profile files are parsed into SplitProfileSpec lists, checked offline with
+// the same rules as PaymentRouter._validateSplits, and previewed with the
+// contract's rounding (bpsShare, remainder stays in the router).
+//
+// JSON:
+//   { "profiles": [
+//       { "profile": "coop-a:fairtrade-2024",
+//         "products": ["coffee-batch-001"],
+//         "splits": [{ "recipient": "0x...", "bps": 6000 }, ...] } ] }
+//
+// CSV (one row per split; products may repeat or be left empty on later rows):
+//   profile,recipient,bps,products
+//   coop-a:fairtrade-2024,0x...,6000,coffee-batch-001;coffee-batch-002
+//   coop-a:fairtrade-2024,0x...,2500,
+
+import { ethers } from "ethers";
+
+import { bpsShare, normalizeBytes32Id } from "./ids.js";
+import type { Split } from "./types.js";
+
+export type SplitProfileFormat = "json" | "csv";
+
+export type SplitProfileSpec = {
+    /** Label or bytes32 id as written in the file. */
+    profile: string;
+    /** normalizeBytes32Id(profile). */
+    profileId: string;
+    splits: Split[];
+    /** Product labels or ids to bind to the profile. */
+    products: string[];
+};
+
+export type PayoutRow = Split & { share: bigint };
+
+export type PayoutPreview = {
+    amount: bigint;
+    rows: PayoutRow[];
+    distributed: bigint;
+    /** Rounding dust plus the unassigned bps; stays in the router until swept. */
+    remainder: bigint;
+};
+
+type JsonProfile = {
+    profile?: string;
+    products?: string[];
+    splits?: { recipient?: string; bps?: number | string }[];
+};
+
+/** Pick the format from the file extension (.csv, else JSON). */
+export function splitProfileFormat(file: string): SplitProfileFormat {
+    return file.toLowerCase().endsWith(".csv") ? "csv" : "json";
+}
+
+export function parseSplitProfiles(text: string, format: SplitProfileFormat): SplitProfileSpec[] {
+    const specs = format === "csv" ? parseCsv(text) : parseJson(text);
+    if (specs.length === 0) throw new Error("Split profile file has no profiles");
+
+    const seen = new Set<string>();
+    for (const spec of specs) {
+        if (seen.has(spec.profileId)) throw new Error(`Profile ${spec.profile} is defined twice`);
+        seen.add(spec.profileId);
+    }
+    return specs;
+}
+
+/**
+ * Problems PaymentRouter would revert on (empty, zero bps, total > 10000), plus
+ * duplicate recipients, which the contract accepts but are almost always a typo.
+ */
+export function validateSplits(splits: readonly Split[]): string[] {
+    const issues: string[] = [];
+    if (splits.length === 0) issues.push("empty splits");
+
+    let total = 0;
+    const recipients = new Set<string>();
+    for (const [i, s] of splits.entries()) {
+        if (s.recipient === ethers.ZeroAddress) issues.push(`split ${i}: zero recipient`);
+        if (!Number.isInteger(s.bps) || s.bps <= 0) issues.push(`split ${i}: bps must be a positive integer`);
+        const key = s.recipient.toLowerCase();
+        if (recipients.has(key)) issues.push(`split ${i}: duplicate recipient ${s.recipient}`);
+        recipients.add(key);
+        total += s.bps;
+    }
+    if (total > 10_000) issues.push(`total bps ${total} > 10000`);
+    return issues;
+}
+
+/** What routePayment / routeTokenPayment would pay each recipient for `amount`. */
+export function previewPayout(splits: readonly Split[], amount: bigint): PayoutPreview {
+    const rows = splits.map((s) => ({ ...s, share: bpsShare(amount, s.bps) }));
+    const distributed = rows.reduce((a, r) => a + r.share, 0n);
+    return { amount, rows, distributed, remainder: amount - distributed };
+}
+
+/** Same recipients with the same bps in the same order. */
+export function sameSplits(a: readonly Split[], b: readonly Split[]): boolean {
+    return (
+        a.length === b.length &&
+        a.every((s, i) => s.recipient.toLowerCase() === b[i].recipient.toLowerCase() && s.bps === b[i].bps)
+    );
+}
+
+function toSplit(recipient: string | undefined, bps: number | string | undefined, where: string): Split {
+    if (!recipient) throw new Error(`${where}: missing recipient`);
+    if (bps === undefined || String(bps).trim() === "") throw new Error(`${where}: missing bps`);
+    return { recipient: ethers.getAddress(recipient.trim()), bps: Number(bps) };
+}
+
+function parseJson(text: string): SplitProfileSpec[] {
+    const parsed = JSON.parse(text) as { profiles?: JsonProfile[] } | JsonProfile[];
+    const profiles = Array.isArray(parsed) ? parsed : parsed.profiles;
+    if (!Array.isArray(profiles)) throw new Error('Expected a "profiles" array');
+
+    return profiles.map((p, i) => {
+        if (!p.profile) throw new Error(`profiles[${i}]: missing profile`);
+        return {
+            profile: p.profile,
+            profileId: normalizeBytes32Id(p.profile),
+            splits: (p.splits ?? []).map((s, j) => toSplit(s.recipient, s.bps, `${p.profile} splits[${j}]`)),
+            products: p.products ?? [],
+        };
+    });
+}
+
+function parseCsv(text: string): SplitProfileSpec[] {
+    const lines = text
+        .split(/\r?\n/)
+        .map((l) => l.trim())
+        .filter((l) => l !== "" && !l.startsWith("#"));
+    if (lines.length === 0) return [];
+
+    const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+    const col = (name: string) => header.indexOf(name);
+    for (const name of ["profile", "recipient", "bps"]) {
+        if (col(name) < 0) throw new Error(`CSV header must contain "${name}" (got: ${lines[0]})`);
+    }
+
+    const byProfile = new Map<string, SplitProfileSpec>();
+    for (const [i, line] of lines.slice(1).entries()) {
+        const cells = line.split(",").map((c) => c.trim());
+        const profile = cells[col("profile")];
+        if (!profile) throw new Error(`CSV line ${i + 2}: missing profile`);
+
+        let spec = byProfile.get(profile);
+        if (!spec) {
+            spec = { profile, profileId: normalizeBytes32Id(profile), splits: [], products: [] };
+            byProfile.set(profile, spec);
+        }
+        spec.splits.push(toSplit(cells[col("recipient")], cells[col("bps")], `CSV line ${i + 2}`));
+
+        const products = col("products") >= 0 ? cells[col("products")] ?? "" : "";
+        for (const product of products.split(";").map((p) => p.trim())) {
+            if (product && !spec.products.includes(product)) spec.products.push(product);
+        }
+    }
+    return [...byProfile.values()];
+}
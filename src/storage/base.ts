@@ -0,0 +1,59 @@
+// src/storage/base.ts
+//
+// Common shape of the evidence storage backends. A provider uploads bytes and
+// reports the IPFS CID it stored them under, and fetches bytes back by CID.
+// Providers never check content themselves: callers rehash what they fetched
+// with verifyCid, which is the point of the evidence simulation.
+
+import { of as ipfsOnlyHashOf } from "ipfs-only-hash";
+
+export type StorageKind = "kubo" | "gateway" | "s3" | "local";
+
+export const STORAGE_KINDS: readonly StorageKind[] = ["kubo", "gateway", "s3", "local"];
+
+export type StoredObject = {
+    cid: string;
+    size: number;
+};
+
+export type PutOptions = {
+    /**
+     * CIDv1 leaf layout (default true, Kubo's default for CIDv1). With raw
+     * leaves a single-block file gets a raw CID; without, every file gets a
+     * dag-pb CID. Backends that pick the CID themselves (s3) may ignore it.
+     */
+    rawLeaves?: boolean;
+};
+
+export type StorageProvider = {
+    readonly kind: StorageKind;
+    /** Endpoint, bucket or directory, for reports. */
+    readonly target: string;
+    /** Fetch-only providers (gateway) throw a StorageError. */
+    put(bytes: Uint8Array, options?: PutOptions): Promise<StoredObject>;
+    get(cid: string): Promise<Buffer>;
+};
+
+export class StorageError extends Error {
+    constructor(readonly kind: StorageKind, message: string, readonly status?: number) {
+        super(`${kind}: ${message}`);
+        this.name = "StorageError";
+    }
+}
+
+/** CID of `bytes` with Kubo's add defaults (CIDv1 => raw leaves unless `rawLeaves` is false). */
+export async function cidOf(bytes: Uint8Array, cidVersion: 0 | 1 = 1, rawLeaves = cidVersion === 1): Promise<string> {
+    return ipfsOnlyHashOf(bytes, { cidVersion, rawLeaves: cidVersion === 1 && rawLeaves });
+}
+
+/**
+ * Whether `bytes` hash to `cid`. CIDv1 is tried with raw leaves first, then
+ * without (dag-pb leaves), since backends differ in the layout they use.
+ */
+export async function verifyCid(bytes: Uint8Array, cid: string): Promise<boolean> {
+    if (cid.startsWith("Qm")) return (await ipfsOnlyHashOf(bytes)) === cid;
+    for (const rawLeaves of [true, false]) {
+        if ((await ipfsOnlyHashOf(bytes, { cidVersion: 1, rawLeaves })) === cid) return true;
+    }
+    return false;
+}
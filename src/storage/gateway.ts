@@ -0,0 +1,43 @@
+// src/storage/gateway.ts
+//
+// Read-only retrieval through an HTTP path gateway: GET <base>/ipfs/<cid>
+// (e.g. https://ipfs.filebase.io, a Kubo gateway on :8080, or IpfsMock).
+
+import { request } from "undici";
+
+import { StorageError, type StorageProvider, type StoredObject } from "./base.js";
+
+export type GatewayOptions = {
+    /** Gateway origin, with or without a trailing /ipfs. */
+    baseUrl: string;
+    headers?: Record<string, string>;
+};
+
+export class GatewayProvider implements StorageProvider {
+    readonly kind = "gateway" as const;
+    private readonly base: string;
+
+    constructor(readonly options: GatewayOptions) {
+        this.base = options.baseUrl.replace(/\/+$/, "").replace(/\/ipfs$/, "");
+    }
+
+    get target(): string {
+        return this.base;
+    }
+
+    async put(): Promise<StoredObject> {
+        throw new StorageError(this.kind, "gateways are read-only, upload with kubo, s3 or local");
+    }
+
+    async get(cid: string): Promise<Buffer> {
+        const res = await request(`${this.base}/ipfs/${encodeURIComponent(cid)}`, {
+            method: "GET",
+            headers: this.options.headers ?? {},
+        });
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+            const text = await res.body.text();
+            throw new StorageError(this.kind, `GET failed ${res.statusCode}: ${text.slice(0, 600)}`, res.statusCode);
+        }
+        return Buffer.from(await res.body.arrayBuffer());
+    }
+}
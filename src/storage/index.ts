@@ -0,0 +1,74 @@
+// src/storage/index.ts
+
+import os from "os";
+import path from "path";
+
+import { STORAGE_KINDS, type StorageKind, type StorageProvider } from "./base.js";
+import { GatewayProvider } from "./gateway.js";
+import { KuboRpcProvider, rpcAuthHeadersFromEnv } from "./kubo-rpc.js";
+import { LocalCasProvider } from "./local-cas.js";
+import { S3Provider } from "./s3.js";
+
+export {
+    STORAGE_KINDS,
+    StorageError,
+    cidOf,
+    verifyCid,
+    type PutOptions,
+    type StorageKind,
+    type StorageProvider,
+    type StoredObject,
+} from "./base.js";
+export { GatewayProvider, type GatewayOptions } from "./gateway.js";
+export { KuboRpcProvider, rpcAuthHeadersFromEnv, type KuboRpcOptions } from "./kubo-rpc.js";
+export { LocalCasProvider, type LocalCasOptions } from "./local-cas.js";
+export { EMPTY_PAYLOAD_SHA256, S3Provider, signS3Request, type S3Options, type S3SignInput } from "./s3.js";
+
+export function parseStorageKind(value: string): StorageKind {
+    const kind = value.trim().toLowerCase();
+    if (!(STORAGE_KINDS as readonly string[]).includes(kind)) {
+        throw new Error(`Unknown storage provider "${value}" (use ${STORAGE_KINDS.join("|")})`);
+    }
+    return kind as StorageKind;
+}
+
+/**
+ * Build a provider from env:
+ *   kubo     FILEBASE_IPFS_RPC_ENDPOINT (+ FILEBASE_IPFS_RPC_AUTH_TYPE, see rpcAuthHeadersFromEnv)
+ *   gateway  IPFS_GATEWAY_URL
+ *   s3       S3_BUCKET, S3_ENDPOINT (default https://s3.filebase.com), S3_REGION (default us-east-1),
+ *            S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY (default FILEBASE_S3_KEY / FILEBASE_S3_SECRET), S3_PREFIX
+ *   local    EVIDENCE_LOCAL_DIR (default <tmpdir>/fairtrade-evidence-cas)
+ */
+export function storageProviderFromEnv(kind: StorageKind, env: NodeJS.ProcessEnv = process.env): StorageProvider {
+    const mustEnv = (...names: string[]) => {
+        for (const name of names) {
+            const v = env[name]?.trim();
+            if (v) return v;
+        }
+        throw new Error(`Missing env var: ${names.join(" or ")}`);
+    };
+
+    switch (kind) {
+        case "kubo":
+            return new KuboRpcProvider({
+                endpoint: mustEnv("FILEBASE_IPFS_RPC_ENDPOINT"),
+                authHeaders: rpcAuthHeadersFromEnv(env),
+            });
+        case "gateway":
+            return new GatewayProvider({ baseUrl: mustEnv("IPFS_GATEWAY_URL") });
+        case "s3":
+            return new S3Provider({
+                endpoint: env.S3_ENDPOINT?.trim() || "https://s3.filebase.com",
+                bucket: mustEnv("S3_BUCKET"),
+                region: env.S3_REGION?.trim() || "us-east-1",
+                accessKeyId: mustEnv("S3_ACCESS_KEY_ID", "FILEBASE_S3_KEY"),
+                secretAccessKey: mustEnv("S3_SECRET_ACCESS_KEY", "FILEBASE_S3_SECRET"),
+                prefix: env.S3_PREFIX?.trim() || undefined,
+            });
+        case "local":
+            return new LocalCasProvider({
+                dir: env.EVIDENCE_LOCAL_DIR?.trim() || path.join(os.tmpdir(), "fairtrade-evidence-cas"),
+            });
+    }
+}
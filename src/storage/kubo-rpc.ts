@@ -0,0 +1,129 @@
+// src/storage/kubo-rpc.ts
+//
+// Kubo (go-ipfs) RPC: POST /api/v0/add and /api/v0/cat. Works against a local
+// Kubo node, Filebase's IPFS RPC and IpfsMock.
+
+import { randomBytes } from "crypto";
+import { request } from "undici";
+
+import { StorageError, type PutOptions, type StorageProvider, type StoredObject } from "./base.js";
+
+export type KuboRpcOptions = {
+    endpoint: string;
+    /**
+     * Authorization header values tried in order on upload; the first that
+     * works is kept for later calls. Empty = no auth.
+     */
+    authHeaders?: string[];
+    /** Default 1 (with raw leaves), matching Filebase. */
+    cidVersion?: 0 | 1;
+    pin?: boolean;
+};
+
+/** Authorization candidates for FILEBASE_IPFS_RPC_AUTH_TYPE=bearer|basic|token (unset = none). */
+export function rpcAuthHeadersFromEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+    const mustEnv = (name: string) => {
+        const v = env[name]?.trim();
+        if (!v) throw new Error(`Missing env var: ${name}`);
+        return v;
+    };
+    const t = (env.FILEBASE_IPFS_RPC_AUTH_TYPE || "").toLowerCase().trim();
+    if (!t) return [];
+
+    if (t === "bearer") return [`Bearer ${mustEnv("FILEBASE_IPFS_RPC_TOKEN")}`];
+    if (t === "basic") {
+        const b64 = Buffer.from(`${mustEnv("FILEBASE_S3_KEY")}:${mustEnv("FILEBASE_S3_SECRET")}`).toString("base64");
+        return [`Basic ${b64}`];
+    }
+    if (t === "token") {
+        const token = mustEnv("FILEBASE_IPFS_RPC_TOKEN");
+        return [`Bearer ${token}`, `Basic ${token}`];
+    }
+    throw new Error(`Unsupported FILEBASE_IPFS_RPC_AUTH_TYPE="${t}" (use bearer|basic|token)`);
+}
+
+function multipartBody(fileBytes: Uint8Array) {
+    const boundary = `----ftboundary${randomBytes(8).toString("hex")}`;
+    const head =
+        `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="file"; filename="evidence.bin"\r\n` +
+        `Content-Type: application/octet-stream\r\n\r\n`;
+    const tail = `\r\n--${boundary}--\r\n`;
+    const body = Buffer.concat([Buffer.from(head, "utf8"), fileBytes, Buffer.from(tail, "utf8")]);
+    return { boundary, body };
+}
+
+export class KuboRpcProvider implements StorageProvider {
+    readonly kind = "kubo" as const;
+    private authHeader?: string;
+
+    constructor(readonly options: KuboRpcOptions) {}
+
+    get target(): string {
+        return this.options.endpoint;
+    }
+
+    async put(bytes: Uint8Array, options: PutOptions = {}): Promise<StoredObject> {
+        const candidates = this.authHeader
+            ? [this.authHeader]
+            : this.options.authHeaders?.length ? this.options.authHeaders : [undefined];
+
+        let lastErr: unknown;
+        for (const auth of candidates) {
+            try {
+                const stored = await this.add(auth, bytes, options);
+                this.authHeader = auth;
+                return stored;
+            } catch (err) {
+                lastErr = err;
+            }
+        }
+        throw lastErr;
+    }
+
+    async get(cid: string): Promise<Buffer> {
+        const url = new URL("/api/v0/cat", this.options.endpoint);
+        url.searchParams.set("arg", cid);
+
+        const res = await request(url.toString(), { method: "POST", headers: this.headers(this.authHeader) });
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+            const text = await res.body.text();
+            throw new StorageError(this.kind, `cat failed ${res.statusCode}: ${text.slice(0, 600)}`, res.statusCode);
+        }
+        return Buffer.from(await res.body.arrayBuffer());
+    }
+
+    private async add(auth: string | undefined, bytes: Uint8Array, options: PutOptions): Promise<StoredObject> {
+        const cidVersion = this.options.cidVersion ?? 1;
+        const { boundary, body } = multipartBody(bytes);
+        const url = new URL("/api/v0/add", this.options.endpoint);
+        url.searchParams.set("pin", String(this.options.pin ?? true));
+        url.searchParams.set("cid-version", String(cidVersion));
+        if (cidVersion === 1) url.searchParams.set("raw-leaves", String(options.rawLeaves ?? true));
+
+        const res = await request(url.toString(), {
+            method: "POST",
+            headers: { ...this.headers(auth), "Content-Type": `multipart/form-data; boundary=${boundary}` },
+            body,
+        });
+        const text = await res.body.text();
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+            throw new StorageError(this.kind, `add failed ${res.statusCode}: ${text.slice(0, 600)}`, res.statusCode);
+        }
+
+        // NDJSON, one line per added node; the last one is the file
+        const last = text.split("\n").map((l) => l.trim()).filter(Boolean).pop() ?? "";
+        let parsed: { Hash?: string };
+        try {
+            parsed = JSON.parse(last);
+        } catch {
+            throw new StorageError(this.kind, `add returned non-JSON: ${last.slice(0, 300)}`);
+        }
+        if (!parsed.Hash) throw new StorageError(this.kind, `add response missing Hash: ${last.slice(0, 300)}`);
+        return { cid: parsed.Hash, size: bytes.length };
+    }
+
+    private headers(auth: string | undefined): Record<string, string> {
+        return auth ? { Authorization: auth } : {};
+    }
+}
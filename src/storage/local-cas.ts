@@ -0,0 +1,50 @@
+// src/storage/local-cas.ts
+//
+// Content-addressed store on the local filesystem: <dir>/<cid>, with the CID
+// computed like Kubo's add (CIDv1 raw leaves by default). A baseline for the
+// remote backends and a way to run the pipeline without any network.
+
+import { promises as fs } from "fs";
+import path from "path";
+
+import { StorageError, cidOf, type PutOptions, type StorageProvider, type StoredObject } from "./base.js";
+
+export type LocalCasOptions = {
+    dir: string;
+    cidVersion?: 0 | 1;
+};
+
+export class LocalCasProvider implements StorageProvider {
+    readonly kind = "local" as const;
+
+    constructor(readonly options: LocalCasOptions) {}
+
+    get target(): string {
+        return path.resolve(this.options.dir);
+    }
+
+    async put(bytes: Uint8Array, options: PutOptions = {}): Promise<StoredObject> {
+        const cid = await cidOf(bytes, this.options.cidVersion ?? 1, options.rawLeaves);
+        const file = this.pathOf(cid);
+        await fs.mkdir(this.target, { recursive: true });
+        // write + rename so a concurrent get never sees a partial object
+        const tmp = `${file}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, bytes);
+        await fs.rename(tmp, file);
+        return { cid, size: bytes.length };
+    }
+
+    async get(cid: string): Promise<Buffer> {
+        try {
+            return await fs.readFile(this.pathOf(cid));
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === "ENOENT") throw new StorageError(this.kind, `${cid} not found`);
+            throw err;
+        }
+    }
+
+    private pathOf(cid: string): string {
+        if (!/^[A-Za-z0-9]+$/.test(cid)) throw new StorageError(this.kind, `not a CID: ${cid}`);
+        return path.join(this.target, cid);
+    }
+}
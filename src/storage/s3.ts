@@ -0,0 +1,151 @@
+// src/storage/s3.ts
+//
+// S3-compatible object storage with IPFS pinning (Filebase, or any S3 API for
+// a plain copy). Objects are PUT path-style under their CIDv1 (raw leaves) as
+// the key, requests are signed with AWS Signature V4.
+//
+// Filebase pins every object to IPFS and reports the CID in the
+// x-amz-meta-cid response header; that CID is returned when present, the
+// locally computed one otherwise. Either can be passed to get().
+
+import { createHash, createHmac } from "crypto";
+import { request } from "undici";
+
+import { StorageError, cidOf, type PutOptions, type StorageProvider, type StoredObject } from "./base.js";
+
+export type S3Options = {
+    /** e.g. https://s3.filebase.com */
+    endpoint: string;
+    bucket: string;
+    /** Default us-east-1 (what Filebase expects). */
+    region?: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    /** Key prefix, e.g. "evidence/". */
+    prefix?: string;
+};
+
+export type S3SignInput = {
+    method: string;
+    url: URL;
+    /** Headers to sign besides host, x-amz-date and x-amz-content-sha256. */
+    headers?: Record<string, string>;
+    payloadHash: string;
+    region: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    date?: Date;
+};
+
+export const EMPTY_PAYLOAD_SHA256 = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+function sha256Hex(data: string | Uint8Array): string {
+    return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+    return createHmac("sha256", key).update(data).digest();
+}
+
+function encodeRfc3986(s: string): string {
+    return encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/** AWS SigV4 headers (Authorization, x-amz-date, x-amz-content-sha256) for one S3 request. */
+export function signS3Request(input: S3SignInput): Record<string, string> {
+    const amzDate = (input.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+
+    const headers: Record<string, string> = {
+        host: input.url.host,
+        "x-amz-content-sha256": input.payloadHash,
+        "x-amz-date": amzDate,
+    };
+    for (const [k, v] of Object.entries(input.headers ?? {})) headers[k.toLowerCase()] = v.trim();
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(";");
+
+    const canonicalUri = input.url.pathname.split("/").map((seg) => encodeRfc3986(decodeURIComponent(seg))).join("/");
+    const canonicalQuery = [...input.url.searchParams.entries()]
+        .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([k, v]) => `${k}=${v}`)
+        .join("&");
+    const canonicalRequest = [
+        input.method,
+        canonicalUri,
+        canonicalQuery,
+        names.map((n) => `${n}:${headers[n]}\n`).join(""),
+        signedHeaders,
+        input.payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${input.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const kDate = hmac(`AWS4${input.secretAccessKey}`, dateStamp);
+    const kSigning = hmac(hmac(hmac(kDate, input.region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", kSigning).update(stringToSign).digest("hex");
+
+    return {
+        "x-amz-content-sha256": input.payloadHash,
+        "x-amz-date": amzDate,
+        Authorization:
+            `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, ` +
+            `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+}
+
+export class S3Provider implements StorageProvider {
+    readonly kind = "s3" as const;
+    /** Backend CID -> object key, for CIDs that differ from the key. */
+    private readonly keys = new Map<string, string>();
+
+    constructor(readonly options: S3Options) {}
+
+    get target(): string {
+        return `${this.options.endpoint.replace(/\/+$/, "")}/${this.options.bucket}`;
+    }
+
+    async put(bytes: Uint8Array, options: PutOptions = {}): Promise<StoredObject> {
+        const localCid = await cidOf(bytes, 1, options.rawLeaves);
+        const key = `${this.options.prefix ?? ""}${localCid}`;
+        const res = await this.send("PUT", key, bytes);
+        const text = await res.body.text();
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+            throw new StorageError(this.kind, `PUT failed ${res.statusCode}: ${text.slice(0, 600)}`, res.statusCode);
+        }
+
+        const metaCid = res.headers["x-amz-meta-cid"];
+        const cid = (Array.isArray(metaCid) ? metaCid[0] : metaCid) || localCid;
+        if (cid !== localCid) this.keys.set(cid, key);
+        return { cid, size: bytes.length };
+    }
+
+    async get(cid: string): Promise<Buffer> {
+        const res = await this.send("GET", this.keys.get(cid) ?? `${this.options.prefix ?? ""}${cid}`);
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+            const text = await res.body.text();
+            throw new StorageError(this.kind, `GET failed ${res.statusCode}: ${text.slice(0, 600)}`, res.statusCode);
+        }
+        return Buffer.from(await res.body.arrayBuffer());
+    }
+
+    private send(method: "GET" | "PUT", key: string, body?: Uint8Array) {
+        const url = new URL(
+            `${this.target}/${key.split("/").map(encodeRfc3986).join("/")}`,
+        );
+        const signed = signS3Request({
+            method,
+            url,
+            payloadHash: body ? sha256Hex(body) : EMPTY_PAYLOAD_SHA256,
+            region: this.options.region ?? "us-east-1",
+            accessKeyId: this.options.accessKeyId,
+            secretAccessKey: this.options.secretAccessKey,
+        });
+        return request(url.toString(), {
+            method,
+            headers: body ? { ...signed, "content-type": "application/octet-stream" } : signed,
+            body: body ? Buffer.from(body) : undefined,
+        });
+    }
+}
@@ -0,0 +1,158 @@
+// src/transitions.ts
+//
+// ProcessManager transition graph: which roles may move a process from one
+// ProcessStatus to another.
+//
+// On-chain the table is transitionRoles[from][to] = role bitmask (bit i =
+// Role i, 0 = no edge). Here it is decoded into a list of edges. The helpers
+// render the graph and dry-run scenario scripts against it before any
+// transaction is sent. DEFAULT_TRANSITIONS mirrors the ProcessManager
+// constructor.
+
+import { ProcessManagerClient } from "./clients/process-manager.js";
+import { maskToTypes } from "./permissions.js";
+import { PROCESS_STATUS_LABEL, ProcessStatus, ROLE_LABEL, Role } from "./types.js";
+
+export type TransitionEdge = {
+    from: ProcessStatus;
+    to: ProcessStatus;
+    roles: Role[];
+};
+
+/** One advanceStatus call in a scenario, performed by an actor with `role`. */
+export type ScenarioStep = {
+    to: ProcessStatus;
+    role: Role;
+};
+
+export type ScenarioIssue = {
+    /** Index into the scenario steps. */
+    index: number;
+    from: ProcessStatus;
+    to: ProcessStatus;
+    role: Role;
+    reason: string;
+};
+
+export type ScenarioResult = {
+    ok: boolean;
+    /** Status after the last valid step. */
+    finalStatus: ProcessStatus;
+    /** The first blocking issue; later steps are not checked since the tx would revert. */
+    issue?: ScenarioIssue;
+};
+
+/** Every status a process can be in once created (Unknown excluded). */
+export const PROCESS_STATUSES: readonly ProcessStatus[] = [
+    ProcessStatus.Created,
+    ProcessStatus.InTransit,
+    ProcessStatus.AtRetail,
+    ProcessStatus.Sold,
+    ProcessStatus.Certified,
+    ProcessStatus.Suspended,
+    ProcessStatus.Revoked,
+];
+
+const ACTIVE_STATUSES: readonly ProcessStatus[] = [
+    ProcessStatus.Created,
+    ProcessStatus.InTransit,
+    ProcessStatus.AtRetail,
+    ProcessStatus.Sold,
+    ProcessStatus.Certified,
+];
+
+export const DEFAULT_TRANSITIONS: readonly TransitionEdge[] = [
+    {
+        from: ProcessStatus.Created,
+        to: ProcessStatus.InTransit,
+        roles: [Role.Producer, Role.Processor, Role.Logistics, Role.Operator],
+    },
+    { from: ProcessStatus.InTransit, to: ProcessStatus.AtRetail, roles: [Role.Logistics, Role.Retailer, Role.Operator] },
+    { from: ProcessStatus.AtRetail, to: ProcessStatus.Sold, roles: [Role.Retailer, Role.Operator] },
+    { from: ProcessStatus.Sold, to: ProcessStatus.Certified, roles: [Role.Certifier] },
+    ...ACTIVE_STATUSES.flatMap((from) => [
+        { from, to: ProcessStatus.Suspended, roles: [Role.Certifier, Role.Regulator, Role.Operator] },
+        { from, to: ProcessStatus.Revoked, roles: [Role.Regulator] },
+    ]),
+    { from: ProcessStatus.Suspended, to: ProcessStatus.InTransit, roles: [Role.Regulator, Role.Operator] },
+    { from: ProcessStatus.Suspended, to: ProcessStatus.AtRetail, roles: [Role.Regulator, Role.Operator] },
+    { from: ProcessStatus.Suspended, to: ProcessStatus.Revoked, roles: [Role.Regulator] },
+];
+
+// -----------------------------------------------------------------------------
+// Names
+// -----------------------------------------------------------------------------
+
+/** Parse a ProcessStatus name (case-insensitive) or its numeric value. */
+export function parseProcessStatus(input: string): ProcessStatus {
+    const t = input.trim();
+    const byName = PROCESS_STATUSES.find((s) => PROCESS_STATUS_LABEL[s].toLowerCase() === t.toLowerCase());
+    if (byName !== undefined) return byName;
+    const n = Number(t);
+    if (PROCESS_STATUSES.includes(n)) return n;
+    throw new Error(
+        `Unknown process status: ${input} (expected one of ${PROCESS_STATUSES.map((s) => PROCESS_STATUS_LABEL[s]).join(", ")})`,
+    );
+}
+
+// -----------------------------------------------------------------------------
+// Graph
+// -----------------------------------------------------------------------------
+
+/** Read every configured edge from ProcessManager.transitionRoles. */
+export async function readTransitionGraph(processManager: ProcessManagerClient): Promise<TransitionEdge[]> {
+    const edges: TransitionEdge[] = [];
+    for (const from of PROCESS_STATUSES) {
+        for (const to of PROCESS_STATUSES) {
+            if (from === to) continue;
+            const mask = await processManager.transitionRoles(from, to);
+            if (mask !== 0n) edges.push({ from, to, roles: maskToTypes(mask) as Role[] });
+        }
+    }
+    return edges;
+}
+
+export function findEdge(
+    graph: readonly TransitionEdge[],
+    from: ProcessStatus,
+    to: ProcessStatus,
+): TransitionEdge | undefined {
+    return graph.find((e) => e.from === from && e.to === to);
+}
+
+/** Dry-run `steps` from `start`, stopping at the first step advanceStatus would reject. */
+export function validateScenario(
+    graph: readonly TransitionEdge[],
+    start: ProcessStatus,
+    steps: readonly ScenarioStep[],
+): ScenarioResult {
+    let status = start;
+    for (const [index, step] of steps.entries()) {
+        const edge = findEdge(graph, status, step.to);
+        let reason: string | undefined;
+        if (step.to === ProcessStatus.Unknown) {
+            reason = "Unknown is not a valid target status";
+        } else if (!edge) {
+            reason = `no transition ${PROCESS_STATUS_LABEL[status]} -> ${PROCESS_STATUS_LABEL[step.to]}`;
+        } else if (!edge.roles.includes(step.role)) {
+            reason =
+                `role ${ROLE_LABEL[step.role]} may not perform ${PROCESS_STATUS_LABEL[status]} -> ${PROCESS_STATUS_LABEL[step.to]} ` +
+                `(allowed: ${edge.roles.map((r) => ROLE_LABEL[r]).join(", ")})`;
+        }
+        if (reason) {
+            return { ok: false, finalStatus: status, issue: { index, from: status, to: step.to, role: step.role, reason } };
+        }
+        status = step.to;
+    }
+    return { ok: true, finalStatus: status };
+}
+
+/** Mermaid stateDiagram of the graph, one labelled arrow per edge. */
+export function renderMermaid(graph: readonly TransitionEdge[]): string {
+    const lines = ["stateDiagram-v2", `    [*] --> ${PROCESS_STATUS_LABEL[ProcessStatus.Created]}`];
+    for (const e of graph) {
+        const roles = e.roles.map((r) => ROLE_LABEL[r]).join(", ");
+        lines.push(`    ${PROCESS_STATUS_LABEL[e.from]} --> ${PROCESS_STATUS_LABEL[e.to]}: ${roles}`);
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,231 @@
+// src/types.ts
+//
+// TypeScript mirrors of contracts/FairtradeTypes.sol plus the plain data shapes
+// returned by the FairTrade contracts.
+//
+// The numeric enum values MUST match the Solidity declaration order, since the
+// contracts serialize every enum as uint8.
+
+// -----------------------------------------------------------------------------
+// Enums (FairtradeTypes.sol)
+// -----------------------------------------------------------------------------
+
+/** Logical role of an organisation in the FairTrade ecosystem. */
+export enum Role {
+    None = 0,
+    Producer = 1,
+    Processor = 2,
+    Logistics = 3,
+    Retailer = 4,
+    Certifier = 5,
+    Regulator = 6,
+    Operator = 7,
+}
+
+/** Registration status of an actor. */
+export enum Status {
+    Unknown = 0,
+    Active = 1,
+    Suspended = 2,
+    Revoked = 3,
+}
+
+/** Fine-grained step type in the supply chain, used in CidRollup. */
+export enum StepType {
+    Unknown = 0,
+    Produced = 1,
+    Processed = 2,
+    Shipped = 3,
+    Received = 4,
+    AtRetail = 5,
+    Sold = 6,
+}
+
+/** Kind of document anchored in DocumentRegistry; 1..6 line up with StepType. */
+export enum DocType {
+    Unknown = 0,
+    ProductionRecord = 1,
+    ProcessingRecord = 2,
+    ShippingDocument = 3,
+    ReceivingRecord = 4,
+    RetailRecord = 5,
+    SaleRecord = 6,
+    Certificate = 7,
+    InspectionReport = 8,
+    /** Signed audit report attestation (src/audit/attestation.ts). */
+    AuditAttestation = 9,
+}
+
+/** Coarse-grained lifecycle status for a product/batch. */
+export enum ProcessStatus {
+    Unknown = 0,
+    Created = 1,
+    InTransit = 2,
+    AtRetail = 3,
+    Sold = 4,
+    Certified = 5,
+    Suspended = 6,
+    Revoked = 7,
+}
+
+/** PaymentRouter.PayoutMode: transfer shares immediately, or credit them for withdraw(). */
+export enum PayoutMode {
+    Push = 0,
+    Pull = 1,
+}
+
+// -----------------------------------------------------------------------------
+// Labels
+// -----------------------------------------------------------------------------
+
+export const ROLE_LABEL: Record<Role, string> = {
+    [Role.None]: "None",
+    [Role.Producer]: "Producer",
+    [Role.Processor]: "Processor",
+    [Role.Logistics]: "Logistics",
+    [Role.Retailer]: "Retailer",
+    [Role.Certifier]: "Certifier",
+    [Role.Regulator]: "Regulator",
+    [Role.Operator]: "Operator",
+};
+
+export const STATUS_LABEL: Record<Status, string> = {
+    [Status.Unknown]: "Unknown",
+    [Status.Active]: "Active",
+    [Status.Suspended]: "Suspended",
+    [Status.Revoked]: "Revoked",
+};
+
+export const STEP_LABEL: Record<StepType, string> = {
+    [StepType.Unknown]: "Unknown",
+    [StepType.Produced]: "Produced",
+    [StepType.Processed]: "Processed",
+    [StepType.Shipped]: "Shipped",
+    [StepType.Received]: "Received",
+    [StepType.AtRetail]: "AtRetail",
+    [StepType.Sold]: "Sold",
+};
+
+export const DOC_TYPE_LABEL: Record<DocType, string> = {
+    [DocType.Unknown]: "Unknown",
+    [DocType.ProductionRecord]: "ProductionRecord",
+    [DocType.ProcessingRecord]: "ProcessingRecord",
+    [DocType.ShippingDocument]: "ShippingDocument",
+    [DocType.ReceivingRecord]: "ReceivingRecord",
+    [DocType.RetailRecord]: "RetailRecord",
+    [DocType.SaleRecord]: "SaleRecord",
+    [DocType.Certificate]: "Certificate",
+    [DocType.InspectionReport]: "InspectionReport",
+    [DocType.AuditAttestation]: "AuditAttestation",
+};
+
+export const PROCESS_STATUS_LABEL: Record<ProcessStatus, string> = {
+    [ProcessStatus.Unknown]: "Unknown",
+    [ProcessStatus.Created]: "Created",
+    [ProcessStatus.InTransit]: "InTransit",
+    [ProcessStatus.AtRetail]: "AtRetail",
+    [ProcessStatus.Sold]: "Sold",
+    [ProcessStatus.Certified]: "Certified",
+    [ProcessStatus.Suspended]: "Suspended",
+    [ProcessStatus.Revoked]: "Revoked",
+};
+
+export const PAYOUT_MODE_LABEL: Record<PayoutMode, string> = {
+    [PayoutMode.Push]: "Push",
+    [PayoutMode.Pull]: "Pull",
+};
+
+/** PaymentRouter uses the zero address for native ETH in withdrawable balances and sweeps. */
+export const NATIVE_TOKEN = "0x0000000000000000000000000000000000000000";
+
+/** The full coffee-batch step sequence S = {Produced, ..., Sold}, in chain order. */
+export const STEP_ORDER: readonly StepType[] = [
+    StepType.Produced,
+    StepType.Processed,
+    StepType.Shipped,
+    StepType.Received,
+    StepType.AtRetail,
+    StepType.Sold,
+];
+
+// -----------------------------------------------------------------------------
+// Contract data shapes
+// -----------------------------------------------------------------------------
+
+/** CidRollup.CidEvent – stepType is a StepType serialized as uint8. */
+export type CidEvent = {
+    productId: string;
+    stepId: string;
+    cidHash: string;
+    stepType: number;
+};
+
+/** A CidEvent batch signed by `signer` for CidRollup.submitCidBatchFor (EIP-712 CidBatch). */
+export type SignedCidBatch = {
+    signer: string;
+    events: CidEvent[];
+    nonce: bigint;
+    /** Unix timestamp (seconds) after which the signature is rejected. */
+    deadline: bigint;
+    signature: string;
+};
+
+/** CidRollup.rootAnchors entry for a Merkle-root batch. */
+export type RootAnchor = {
+    actor: string;
+    blockNumber: bigint;
+    leafCount: number;
+    /** Step types the leaves may carry (bit i = stepType i). */
+    stepTypeMask: bigint;
+};
+
+/** DocumentRegistry.DocumentInput – docType is a DocType serialized as uint8. */
+export type DocumentInput = {
+    productId: string;
+    stepId: string;
+    cidHash: string;
+    docType: number;
+};
+
+/** ProcessManager.StatusUpdate – one entry of advanceStatusBatch. */
+export type StatusUpdate = {
+    productId: string;
+    newStatus: ProcessStatus;
+};
+
+/** ActorRegistry.getActor(wallet) result. */
+export type Actor = {
+    orgIdHash: string;
+    role: Role;
+    status: Status;
+    metadataHash: string;
+};
+
+/** ActorRegistry.getActorByOrg(orgIdHash) result; `wallet` is the org's primary wallet. */
+export type OrgActor = {
+    wallet: string;
+    role: Role;
+    status: Status;
+    metadataHash: string;
+};
+
+/** ProcessManager.getProcess(productId) result. */
+export type Process = {
+    status: ProcessStatus;
+    creatorOrgId: string;
+};
+
+/** PaymentRouter.Split – bps are basis points (1/100 of a percent). */
+export type Split = {
+    recipient: string;
+    bps: number;
+};
+
+/** Contract name -> address for one network (see deployments.json). */
+export type FairtradeAddresses = {
+    ActorRegistry: string;
+    DocumentRegistry: string;
+    ProcessManager: string;
+    CidRollup: string;
+    PaymentRouter: string;
+};
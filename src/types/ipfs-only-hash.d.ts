@@ -0,0 +1,15 @@
+// src/types/ipfs-only-hash.d.ts
+//
+// ipfs-only-hash ships no typings. `of` runs the ipfs-unixfs-importer with
+// onlyHash and resolves to the root CID string; strings are UTF-8 encoded.
+
+declare module "ipfs-only-hash" {
+    export type IpfsOnlyHashOptions = {
+        /** 0 (default, "Qm...") or 1. */
+        cidVersion?: 0 | 1;
+        rawLeaves?: boolean;
+        [option: string]: unknown;
+    };
+
+    export function of(content: string | Uint8Array | AsyncIterable<Uint8Array>, options?: IpfsOnlyHashOptions): Promise<string>;
+}
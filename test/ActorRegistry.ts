@@ -0,0 +1,406 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+
+import { Role, Status, toBytes32 } from "../src/index.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+const ZERO_BYTES32 = ethers.ZeroHash;
+
+describe("ActorRegistry", function () {
+  async function deployFixture() {
+    const [owner, producer, retailer, outsider] = await ethers.getSigners();
+    const registry = await ethers.deployContract("ActorRegistry", [owner.address]);
+
+    return { registry, owner, producer, retailer, outsider };
+  }
+
+  async function registeredFixture() {
+    const base = await deployFixture();
+    const orgId = toBytes32("org:producer");
+    const metadata = toBytes32("meta:producer");
+
+    await base.registry.registerActor(orgId, base.producer.address, Role.Producer, metadata);
+
+    return { ...base, orgId, metadata };
+  }
+
+  describe("Ownership", function () {
+    it("Should set the constructor owner and emit OwnershipTransferred", async function () {
+      const [, other] = await ethers.getSigners();
+      const registry = await ethers.deployContract("ActorRegistry", [other.address]);
+
+      expect(await registry.owner()).to.equal(other.address);
+      await expect(registry.deploymentTransaction())
+        .to.emit(registry, "OwnershipTransferred")
+        .withArgs(ethers.ZeroAddress, other.address);
+    });
+
+    it("Should fall back to the deployer when the owner is the zero address", async function () {
+      const [deployer] = await ethers.getSigners();
+      const registry = await ethers.deployContract("ActorRegistry", [ethers.ZeroAddress]);
+
+      expect(await registry.owner()).to.equal(deployer.address);
+    });
+
+    it("Should transfer ownership and emit OwnershipTransferred", async function () {
+      const { registry, owner, outsider } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(registry.transferOwnership(outsider.address))
+        .to.emit(registry, "OwnershipTransferred")
+        .withArgs(owner.address, outsider.address);
+      expect(await registry.owner()).to.equal(outsider.address);
+
+      // the previous owner loses admin rights
+      await expect(
+        registry.registerActor(toBytes32("org:x"), owner.address, Role.Producer, ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: only owner");
+    });
+
+    it("Should reject ownership transfer to the zero address", async function () {
+      const { registry } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(registry.transferOwnership(ethers.ZeroAddress)).to.be.revertedWith(
+        "ActorRegistry: zero address",
+      );
+    });
+
+    it("Should reject ownership transfer from a non-owner", async function () {
+      const { registry, outsider } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        registry.connect(outsider).transferOwnership(outsider.address),
+      ).to.be.revertedWith("ActorRegistry: only owner");
+    });
+  });
+
+  describe("registerActor", function () {
+    it("Should register an active actor and emit ActorRegistered + ActorUpdated", async function () {
+      const { registry, producer } = await networkHelpers.loadFixture(deployFixture);
+      const orgId = toBytes32("org:producer");
+      const metadata = toBytes32("meta:producer");
+
+      await expect(registry.registerActor(orgId, producer.address, Role.Producer, metadata))
+        .to.emit(registry, "ActorRegistered")
+        .withArgs(orgId, producer.address, Role.Producer, metadata)
+        .and.to.emit(registry, "ActorUpdated")
+        .withArgs(orgId, producer.address, Role.Producer, Status.Active, metadata);
+
+      expect(await registry.getActor(producer.address)).to.deep.equal([
+        orgId,
+        BigInt(Role.Producer),
+        BigInt(Status.Active),
+        metadata,
+      ]);
+      expect(await registry.getActorByOrg(orgId)).to.deep.equal([
+        producer.address,
+        BigInt(Role.Producer),
+        BigInt(Status.Active),
+        metadata,
+      ]);
+      expect(await registry.isActiveActor(producer.address)).to.equal(true);
+      expect(await registry.hasRole(producer.address, Role.Producer)).to.equal(true);
+      expect(await registry.hasRole(producer.address, Role.Retailer)).to.equal(false);
+    });
+
+    it("Should only allow the owner to register", async function () {
+      const { registry, outsider } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        registry
+          .connect(outsider)
+          .registerActor(toBytes32("org:x"), outsider.address, Role.Producer, ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: only owner");
+    });
+
+    it("Should reject a zero wallet", async function () {
+      const { registry } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        registry.registerActor(toBytes32("org:x"), ethers.ZeroAddress, Role.Producer, ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: zero wallet");
+    });
+
+    it("Should reject a zero orgId", async function () {
+      const { registry, producer } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        registry.registerActor(ZERO_BYTES32, producer.address, Role.Producer, ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: zero orgId");
+    });
+
+    it("Should reject Role.None", async function () {
+      const { registry, producer } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        registry.registerActor(toBytes32("org:x"), producer.address, Role.None, ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: invalid role");
+    });
+
+    it("Should reject a duplicate orgId", async function () {
+      const { registry, retailer, orgId } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(
+        registry.registerActor(orgId, retailer.address, Role.Retailer, ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: org exists");
+    });
+
+    it("Should reject a wallet that already belongs to an org", async function () {
+      const { registry, producer } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(
+        registry.registerActor(toBytes32("org:other"), producer.address, Role.Retailer, ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: wallet used");
+    });
+  });
+
+  describe("Updates", function () {
+    it("Should update the role and emit ActorUpdated", async function () {
+      const { registry, producer, orgId, metadata } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(registry.updateActorRole(orgId, Role.Processor))
+        .to.emit(registry, "ActorUpdated")
+        .withArgs(orgId, producer.address, Role.Processor, Status.Active, metadata);
+
+      expect(await registry.hasRole(producer.address, Role.Processor)).to.equal(true);
+      expect(await registry.hasRole(producer.address, Role.Producer)).to.equal(false);
+    });
+
+    it("Should reject role updates to Role.None or for unknown orgs", async function () {
+      const { registry, orgId } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(registry.updateActorRole(orgId, Role.None)).to.be.revertedWith(
+        "ActorRegistry: invalid role",
+      );
+      await expect(
+        registry.updateActorRole(toBytes32("org:unknown"), Role.Retailer),
+      ).to.be.revertedWith("ActorRegistry: unknown org");
+    });
+
+    it("Should update the status, emit both events and gate hasRole/isActiveActor", async function () {
+      const { registry, producer, orgId, metadata } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(registry.updateActorStatus(orgId, Status.Suspended))
+        .to.emit(registry, "ActorStatusUpdated")
+        .withArgs(orgId, Status.Suspended)
+        .and.to.emit(registry, "ActorUpdated")
+        .withArgs(orgId, producer.address, Role.Producer, Status.Suspended, metadata);
+
+      expect(await registry.isActiveActor(producer.address)).to.equal(false);
+      expect(await registry.hasRole(producer.address, Role.Producer)).to.equal(false);
+
+      await registry.updateActorStatus(orgId, Status.Active);
+      expect(await registry.isActiveActor(producer.address)).to.equal(true);
+    });
+
+    it("Should reject status updates for unknown orgs", async function () {
+      const { registry } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(
+        registry.updateActorStatus(toBytes32("org:unknown"), Status.Revoked),
+      ).to.be.revertedWith("ActorRegistry: unknown org");
+    });
+
+    it("Should update the metadata and emit both events", async function () {
+      const { registry, producer, orgId } = await networkHelpers.loadFixture(registeredFixture);
+      const newMetadata = toBytes32("meta:producer:v2");
+
+      await expect(registry.updateActorMetadata(orgId, newMetadata))
+        .to.emit(registry, "ActorMetadataUpdated")
+        .withArgs(orgId, newMetadata)
+        .and.to.emit(registry, "ActorUpdated")
+        .withArgs(orgId, producer.address, Role.Producer, Status.Active, newMetadata);
+
+      const [, , , metadataHash] = await registry.getActor(producer.address);
+      expect(metadataHash).to.equal(newMetadata);
+    });
+
+    it("Should reject metadata updates for unknown orgs", async function () {
+      const { registry } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(
+        registry.updateActorMetadata(toBytes32("org:unknown"), ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: unknown org");
+    });
+
+    it("Should only allow the owner to update actors", async function () {
+      const { registry, outsider, orgId } = await networkHelpers.loadFixture(registeredFixture);
+      const asOutsider = registry.connect(outsider);
+
+      await expect(asOutsider.updateActorRole(orgId, Role.Retailer)).to.be.revertedWith(
+        "ActorRegistry: only owner",
+      );
+      await expect(asOutsider.updateActorStatus(orgId, Status.Revoked)).to.be.revertedWith(
+        "ActorRegistry: only owner",
+      );
+      await expect(asOutsider.updateActorMetadata(orgId, ZERO_BYTES32)).to.be.revertedWith(
+        "ActorRegistry: only owner",
+      );
+    });
+  });
+
+  describe("Org wallets", function () {
+    async function multiWalletFixture() {
+      const base = await registeredFixture();
+      const [, , , , second, third, fresh] = await ethers.getSigners();
+      await base.registry.addOrgWallet(base.orgId, second.address);
+      await base.registry.addOrgWallet(base.orgId, third.address);
+      return { ...base, second, third, fresh };
+    }
+
+    it("Should add wallets that act with the org's record and emit OrgWalletAdded", async function () {
+      const { registry, orgId, metadata, producer, outsider } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(registry.addOrgWallet(orgId, outsider.address))
+        .to.emit(registry, "OrgWalletAdded")
+        .withArgs(orgId, outsider.address);
+
+      expect(await registry.getOrgWallets(orgId)).to.deep.equal([producer.address, outsider.address]);
+      expect(await registry.getActor(outsider.address)).to.deep.equal([
+        orgId,
+        BigInt(Role.Producer),
+        BigInt(Status.Active),
+        metadata,
+      ]);
+      expect(await registry.hasRole(outsider.address, Role.Producer)).to.equal(true);
+      // the first wallet stays primary
+      const [primary] = await registry.getActorByOrg(orgId);
+      expect(primary).to.equal(producer.address);
+    });
+
+    it("Should apply org role and status changes to every wallet", async function () {
+      const { registry, orgId, producer, second, third } = await networkHelpers.loadFixture(multiWalletFixture);
+
+      await registry.updateActorStatus(orgId, Status.Suspended);
+      for (const w of [producer, second, third]) {
+        expect(await registry.isActiveActor(w.address)).to.equal(false);
+      }
+
+      await registry.updateActorStatus(orgId, Status.Active);
+      await registry.updateActorRole(orgId, Role.Processor);
+      for (const w of [producer, second, third]) {
+        expect(await registry.hasRole(w.address, Role.Processor)).to.equal(true);
+      }
+    });
+
+    it("Should reject adding zero, used or foreign-org wallets and unknown orgs", async function () {
+      const { registry, orgId, producer, retailer, second, fresh } =
+        await networkHelpers.loadFixture(multiWalletFixture);
+      await registry.registerActor(toBytes32("org:retailer"), retailer.address, Role.Retailer, ZERO_BYTES32);
+
+      await expect(registry.addOrgWallet(orgId, ethers.ZeroAddress)).to.be.revertedWith("ActorRegistry: zero wallet");
+      await expect(registry.addOrgWallet(orgId, second.address)).to.be.revertedWith("ActorRegistry: wallet used");
+      await expect(registry.addOrgWallet(orgId, retailer.address)).to.be.revertedWith("ActorRegistry: wallet used");
+      await expect(registry.addOrgWallet(toBytes32("org:unknown"), fresh.address)).to.be.revertedWith(
+        "ActorRegistry: unknown org",
+      );
+      await expect(
+        registry.registerActor(toBytes32("org:new"), second.address, Role.Retailer, ZERO_BYTES32),
+      ).to.be.revertedWith("ActorRegistry: wallet used");
+      expect(await registry.getOrgWallets(orgId)).to.include(producer.address);
+    });
+
+    it("Should remove a wallet, free it for reuse and emit OrgWalletRemoved", async function () {
+      const { registry, orgId, producer, second, third } = await networkHelpers.loadFixture(multiWalletFixture);
+
+      await expect(registry.removeOrgWallet(orgId, second.address))
+        .to.emit(registry, "OrgWalletRemoved")
+        .withArgs(orgId, second.address);
+
+      expect(await registry.getOrgWallets(orgId)).to.deep.equal([producer.address, third.address]);
+      expect(await registry.isActiveActor(second.address)).to.equal(false);
+      expect((await registry.getActor(second.address))[0]).to.equal(ZERO_BYTES32);
+
+      await registry.registerActor(toBytes32("org:second"), second.address, Role.Retailer, ZERO_BYTES32);
+      expect(await registry.hasRole(second.address, Role.Retailer)).to.equal(true);
+    });
+
+    it("Should promote the last-added wallet when the primary is removed", async function () {
+      const { registry, orgId, producer, second, third } = await networkHelpers.loadFixture(multiWalletFixture);
+
+      await registry.removeOrgWallet(orgId, producer.address);
+
+      expect(await registry.getOrgWallets(orgId)).to.deep.equal([third.address, second.address]);
+      const [primary] = await registry.getActorByOrg(orgId);
+      expect(primary).to.equal(third.address);
+      await expect(registry.updateActorMetadata(orgId, ZERO_BYTES32))
+        .to.emit(registry, "ActorUpdated")
+        .withArgs(orgId, third.address, Role.Producer, Status.Active, ZERO_BYTES32);
+    });
+
+    it("Should keep at least one wallet and only remove wallets of the org", async function () {
+      const { registry, orgId, producer, outsider } = await networkHelpers.loadFixture(registeredFixture);
+
+      await expect(registry.removeOrgWallet(orgId, producer.address)).to.be.revertedWith(
+        "ActorRegistry: last wallet",
+      );
+      await expect(registry.removeOrgWallet(orgId, outsider.address)).to.be.revertedWith(
+        "ActorRegistry: wallet not in org",
+      );
+      await expect(registry.removeOrgWallet(toBytes32("org:unknown"), producer.address)).to.be.revertedWith(
+        "ActorRegistry: unknown org",
+      );
+    });
+
+    it("Should rotate a wallet in place and emit OrgWalletRotated", async function () {
+      const { registry, orgId, producer, second, third, fresh } = await networkHelpers.loadFixture(multiWalletFixture);
+
+      await expect(registry.rotateOrgWallet(orgId, producer.address, fresh.address))
+        .to.emit(registry, "OrgWalletRotated")
+        .withArgs(orgId, producer.address, fresh.address);
+
+      expect(await registry.getOrgWallets(orgId)).to.deep.equal([fresh.address, second.address, third.address]);
+      expect(await registry.isActiveActor(producer.address)).to.equal(false);
+      expect(await registry.hasRole(fresh.address, Role.Producer)).to.equal(true);
+      const [primary] = await registry.getActorByOrg(orgId);
+      expect(primary).to.equal(fresh.address);
+    });
+
+    it("Should reject invalid rotations", async function () {
+      const { registry, orgId, producer, second, outsider } = await networkHelpers.loadFixture(multiWalletFixture);
+
+      await expect(registry.rotateOrgWallet(orgId, outsider.address, ethers.Wallet.createRandom().address)).to.be
+        .revertedWith("ActorRegistry: wallet not in org");
+      await expect(registry.rotateOrgWallet(orgId, producer.address, ethers.ZeroAddress)).to.be.revertedWith(
+        "ActorRegistry: zero wallet",
+      );
+      await expect(registry.rotateOrgWallet(orgId, producer.address, second.address)).to.be.revertedWith(
+        "ActorRegistry: wallet used",
+      );
+    });
+
+    it("Should only allow the owner to manage org wallets", async function () {
+      const { registry, orgId, producer, second, fresh } = await networkHelpers.loadFixture(multiWalletFixture);
+
+      await expect(registry.connect(producer).addOrgWallet(orgId, fresh.address)).to.be.revertedWith(
+        "ActorRegistry: only owner",
+      );
+      await expect(registry.connect(producer).removeOrgWallet(orgId, second.address)).to.be.revertedWith(
+        "ActorRegistry: only owner",
+      );
+      await expect(
+        registry.connect(producer).rotateOrgWallet(orgId, producer.address, fresh.address),
+      ).to.be.revertedWith("ActorRegistry: only owner");
+    });
+  });
+
+  describe("Views", function () {
+    it("Should return empty records for unknown wallets and orgs", async function () {
+      const { registry, outsider } = await networkHelpers.loadFixture(deployFixture);
+
+      expect(await registry.getActor(outsider.address)).to.deep.equal([
+        ZERO_BYTES32,
+        BigInt(Role.None),
+        BigInt(Status.Unknown),
+        ZERO_BYTES32,
+      ]);
+      const [wallet] = await registry.getActorByOrg(toBytes32("org:unknown"));
+      expect(wallet).to.equal(ethers.ZeroAddress);
+      expect(await registry.isActiveActor(outsider.address)).to.equal(false);
+      expect(await registry.hasRole(outsider.address, Role.None)).to.equal(false);
+    });
+  });
+});
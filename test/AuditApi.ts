@@ -0,0 +1,198 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+
+import {
+  ActorRegistryClient,
+  AuditApi,
+  AuditQueries,
+  ChainIndexer,
+  DocType,
+  IndexerDb,
+  NATIVE_TOKEN,
+  ProcessStatus,
+  Role,
+  Status,
+  StepType,
+  auditCompleteness,
+  auditCounts,
+  cidFromCidHash,
+  groupAuditEventsByProduct,
+  toBytes32,
+} from "../src/index.js";
+
+import { OPERATOR_ORG, deployFairtrade } from "./helpers/fairtrade.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("Audit API", function () {
+  const productId = toBytes32("coffee-batch-001");
+  const orgId = OPERATOR_ORG;
+  const recordCid = toBytes32("cid:record");
+
+  async function deployFixture() {
+    const { operator, documents, manager, rollup, router, addresses, fromBlock } = await deployFairtrade(ethers);
+    await rollup.connect(operator).submitCidBatch([
+      { productId, stepId: toBytes32("step:produced"), cidHash: toBytes32("cid:produced"), stepType: StepType.Produced },
+    ]);
+    await documents.connect(operator).anchorDocument(productId, toBytes32("step:produced"), recordCid, DocType.ProcessingRecord);
+    await manager.connect(operator).createProcess(productId);
+    await manager.connect(operator).advanceStatus(productId, ProcessStatus.InTransit);
+    await router.connect(operator).routePayment(productId, { value: 1000n });
+    await router.connect(operator).routePayment(productId, { value: 2000n });
+
+    const db = new IndexerDb(":memory:");
+    await new ChainIndexer({ provider: ethers.provider, db, addresses, fromBlock }).sync();
+    return { db, registryAddress: addresses.ActorRegistry };
+  }
+
+  async function withApi(fn: (get: (path: string) => Promise<{ status: number; body: any }>) => Promise<void>) {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    const api = new AuditApi(new AuditQueries(f.db, new ActorRegistryClient(f.registryAddress, ethers.provider)));
+    await api.start();
+    try {
+      await fn(async (path) => {
+        const res = await fetch(api.url + path);
+        return { status: res.status, body: await res.json() };
+      });
+    } finally {
+      await api.close();
+    }
+  }
+
+  it("serves a product timeline as AuditEvents in chain order", async function () {
+    await withApi(async (get) => {
+      const { status, body } = await get("/products/coffee-batch-001/timeline");
+      expect(status).to.equal(200);
+      expect(body).to.include({ productId, orgIdHash: orgId, status: ProcessStatus.InTransit });
+      expect(body.events.map((e: any) => e.kind)).to.deep.equal([
+        "CidAnchored",
+        "DocumentAnchored",
+        "ProcessCreated",
+        "ProcessStatusChanged",
+        "ProcessStatusChanged",
+        "PaymentRouted",
+        "PaymentRouted",
+        "PaymentRouted",
+        "PaymentRouted",
+      ]);
+      expect(body.events[1]).to.include({
+        contract: "DocumentRegistry",
+        cidHash: recordCid,
+        cid: cidFromCidHash(recordCid, "doc", DocType.ProcessingRecord),
+        docType: DocType.ProcessingRecord,
+      });
+      expect(body.events[0].blockNumber).to.be.a("string");
+      expect(body.events[0].timestamp).to.be.greaterThan(0);
+
+      expect((await get(`/products/${productId}/timeline`)).body).to.deep.equal(body);
+      expect(await get("/products/another-batch/timeline")).to.deep.equal({
+        status: 404,
+        body: { error: "no indexed events for product another-batch" },
+      });
+    });
+  });
+
+  it("combines ActorRegistry state with what the org anchored", async function () {
+    await withApi(async (get) => {
+      const { status, body } = await get("/actors/org:operator");
+      expect(status).to.equal(200);
+      const operator = (await ethers.getSigners())[1].address;
+      expect(body.registry).to.deep.equal({
+        wallet: operator,
+        role: Role.Operator,
+        status: Status.Active,
+        metadataHash: toBytes32("meta:operator"),
+        wallets: [operator],
+      });
+      expect(body.registrations).to.have.length(1);
+      expect(body.products).to.deep.equal([productId]);
+      expect(body.events.map((e: any) => e.kind)).to.deep.equal([
+        "CidAnchored",
+        "DocumentAnchored",
+        "ProcessCreated",
+        "ProcessStatusChanged",
+        "ProcessStatusChanged",
+      ]);
+      expect(body.rootAnchors).to.deep.equal([]);
+
+      expect((await get("/actors/org:nobody")).status).to.equal(404);
+    });
+  });
+
+  it("finds document anchors by cidHash or CID and sums payouts", async function () {
+    await withApi(async (get) => {
+      const byHash = await get(`/documents/${recordCid}`);
+      expect(byHash.status).to.equal(200);
+      expect(byHash.body.events.map((e: any) => e.kind)).to.deep.equal(["DocumentAnchored"]);
+      const cid = cidFromCidHash(recordCid, "doc", DocType.ProcessingRecord);
+      expect((await get(`/documents/${cid}`)).body).to.deep.equal(byHash.body);
+      expect((await get("/documents/not-a-cid")).status).to.equal(400);
+      expect((await get(`/documents/${toBytes32("cid:unknown")}`)).status).to.equal(404);
+
+      const { body } = await get("/payments/coffee-batch-001");
+      const [, , producer, processor] = await ethers.getSigners();
+      expect(body.payments).to.have.length(4);
+      expect(body.totals).to.deep.equal([
+        { token: NATIVE_TOKEN, recipient: producer.address, paid: "2100", credited: "0" },
+        { token: NATIVE_TOKEN, recipient: processor.address, paid: "750", credited: "0" },
+      ]);
+    });
+  });
+
+  it("selects events by org, wallet and block window", async function () {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    const queries = new AuditQueries(f.db);
+    const [, operator, producer] = await ethers.getSigners();
+
+    const all = queries.select({});
+    expect(auditCounts(all)).to.deep.equal({
+      totalEvents: 9,
+      cidAnchors: 1,
+      cidRootLeaves: 0,
+      documentAnchors: 1,
+      processEvents: 3,
+      payments: 4,
+    });
+    expect(auditCompleteness(all).missingStepTypes.map((s) => s.stepType)).to.not.include(StepType.Produced);
+    expect(auditCompleteness(all).completeness01).to.equal(0);
+
+    expect(queries.select({ orgIdHashes: [orgId] })).to.have.length(5);
+    const paid = queries.select({ actors: [producer.address.toLowerCase()] });
+    expect(paid.map((e) => e.kind)).to.deep.equal(["PaymentRouted", "PaymentRouted"]);
+    expect(queries.select({ orgIdHashes: [orgId], actors: [producer.address] })).to.have.length(7);
+    expect(queries.select({ actors: [operator.address], productIds: [toBytes32("another-batch")] })).to.deep.equal([]);
+
+    const created = all.find((e) => e.kind === "ProcessCreated")!;
+    const window = queries.select({ fromBlock: created.blockNumber, toBlock: created.blockNumber });
+    expect(window.map((e) => e.kind)).to.deep.equal(["ProcessCreated", "ProcessStatusChanged"]);
+    expect(queries.select({ toTime: all[0].timestamp! - 1 })).to.deep.equal([]);
+    expect([...groupAuditEventsByProduct(all).keys()]).to.deep.equal([productId]);
+  });
+
+  it("answers unknown routes, malformed ids, other methods and health checks", async function () {
+    await withApi(async (get) => {
+      const health = await get("/health");
+      expect(health.status).to.equal(200);
+      expect(health.body.counts).to.include({ cid_anchored: 1, payment_routed: 4 });
+      expect((await get("/products/coffee-batch-001")).status).to.equal(404);
+      expect((await get("/nope")).status).to.equal(404);
+      expect(await get("/documents/%E0%A4%A")).to.deep.equal({
+        status: 400,
+        body: { error: "malformed percent-encoding in %E0%A4%A" },
+      });
+
+      const api = new AuditApi(new AuditQueries(new IndexerDb(":memory:")), { corsOrigin: null });
+      await api.start();
+      try {
+        const res = await fetch(api.url + "/health", { method: "POST" });
+        expect(res.status).to.equal(405);
+        expect(res.headers.get("access-control-allow-origin")).to.equal(null);
+      } finally {
+        await api.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+
+import {
+  AuditQueries,
+  ChainIndexer,
+  DocType,
+  DocumentRegistryClient,
+  IndexerDb,
+  ProcessStatus,
+  Role,
+  StepType,
+  anchorAuditAttestation,
+  auditAttestationCid,
+  auditReportDigest,
+  buildCidMerkleTree,
+  cidFromCidHash,
+  cidMerkleProof,
+  parseAuditReport,
+  recoverAuditAttestationSigner,
+  runAuditRules,
+  signAuditReport,
+  toBytes32,
+  verifyAuditAttestation,
+  type AuditEvent,
+  type AuditReport,
+} from "../src/index.js";
+
+import { OPERATOR_ORG, deployFairtrade } from "./helpers/fairtrade.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("Audit attestations", function () {
+  const productId = toBytes32("coffee-batch-001");
+  const orgs = { operator: OPERATOR_ORG, certifier: toBytes32("org:certifier") };
+
+  async function deployFixture() {
+    const { operator, others: [certifier], registry, documents, manager, rollup, addresses, fromBlock } = await deployFairtrade(ethers);
+    await registry.registerActor(orgs.certifier, certifier.address, Role.Certifier, toBytes32("meta:certifier"));
+
+    await rollup.connect(operator).submitCidBatch([
+      { productId, stepId: toBytes32("step:produced"), cidHash: toBytes32("cid:produced"), stepType: StepType.Produced },
+    ]);
+    await documents.connect(operator).anchorDocument(productId, toBytes32("step:produced"), toBytes32("doc:produced"), DocType.ProductionRecord);
+    await manager.connect(operator).createProcess(productId);
+    await manager.connect(operator).advanceStatus(productId, ProcessStatus.InTransit);
+
+    // a step anchored under a Merkle root, reported as a CidRootLeaf
+    const leaf = { productId, stepId: toBytes32("step:processed"), cidHash: toBytes32("cid:processed"), stepType: StepType.Processed };
+    const tree = buildCidMerkleTree([leaf, { ...leaf, productId: toBytes32("coffee-batch-002") }]);
+    const rootReceipt = await (await rollup.connect(operator).submitCidRoot(tree.root, tree.leaves.length, tree.stepTypeMask)).wait();
+    const rootLog = rootReceipt!.logs[0];
+
+    const db = new IndexerDb(":memory:");
+    await new ChainIndexer({ provider: ethers.provider, db, addresses, fromBlock }).sync();
+    const rootLeaf: AuditEvent = {
+      kind: "CidRootLeaf",
+      contract: "CidRollup",
+      blockNumber: BigInt(rootLog.blockNumber),
+      logIndex: BigInt(rootLog.index),
+      txHash: rootLog.transactionHash,
+      timestamp: (await ethers.provider.getBlock(rootLog.blockNumber))!.timestamp,
+      ...leaf,
+      orgIdHash: orgs.operator,
+      cid: cidFromCidHash(leaf.cidHash, "step", leaf.stepType),
+      actor: operator.address,
+      root: tree.root,
+      proof: cidMerkleProof(tree, 0),
+      manifest: "root-manifest.json",
+    };
+    const events = [...new AuditQueries(db).timeline(productId).events, rootLeaf];
+    db.close();
+
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    // as written to disk by reconstruct-audit-from-logs.ts
+    const report = parseAuditReport(
+      JSON.stringify(
+        {
+          summary: {
+            generatedAt: "2026-10-19T06:00:00.000Z",
+            chain: { chainId: chainId.toString(), addresses, headBlock: await ethers.provider.getBlockNumber() },
+            selection: { productIds: ["coffee-batch-001"], orgs: [], orgIdHashes: [], actors: [] },
+            products: [{ productIdInput: "coffee-batch-001", productId }],
+          },
+          events,
+        },
+        (_k, v) => (typeof v === "bigint" ? v.toString() : v),
+      ),
+    );
+    const documentClient = new DocumentRegistryClient(addresses.DocumentRegistry, certifier);
+    return { report, chainId, operator, certifier, documentClient, addresses, fromBlock };
+  }
+
+  it("signs the report digest with EIP-712 or EIP-191", async function () {
+    const { report, chainId, certifier, operator } = await networkHelpers.loadFixture(deployFixture);
+
+    for (const scheme of ["eip712", "eip191"] as const) {
+      const attestation = await signAuditReport(report, certifier, { chainId, scheme, issuedAt: 1_790_000_000 });
+      expect(attestation).to.include({ version: 1, scheme, chainId: chainId.toString(), auditor: certifier.address });
+      expect(attestation.reportDigest).to.equal(auditReportDigest(report));
+      expect(attestation.productIds).to.deep.equal([productId]);
+      expect(recoverAuditAttestationSigner(attestation)).to.equal(certifier.address);
+
+      const signed = { ...report, attestation };
+      const offline = await verifyAuditAttestation(signed);
+      expect(offline).to.include({ valid: true, signer: certifier.address });
+      expect(auditReportDigest(signed)).to.equal(auditReportDigest(report));
+
+      // edited after signing
+      const edited: AuditReport = { ...signed, summary: { ...signed.summary, generatedAt: "2026-10-20T06:00:00.000Z" } };
+      expect((await verifyAuditAttestation(edited)).issues[0]).to.match(/^digest: the report hashes to/);
+      // a claimed auditor that did not sign
+      const forged = { ...report, attestation: { ...attestation, auditor: operator.address } };
+      expect((await verifyAuditAttestation(forged)).issues).to.deep.equal([
+        `signature: signed by ${certifier.address}, not the stated auditor ${operator.address}`,
+      ]);
+    }
+
+    expect(await verifyAuditAttestation(report)).to.include({ valid: false });
+    expect((await verifyAuditAttestation(report)).issues).to.deep.equal(["the report is not signed"]);
+  });
+
+  it("anchors the attestation and verifies it and the events against the chain", async function () {
+    const { report, chainId, certifier, operator, documentClient, addresses, fromBlock } =
+      await networkHelpers.loadFixture(deployFixture);
+    const attestation = await signAuditReport(report, certifier, { chainId });
+    attestation.anchor = await anchorAuditAttestation(attestation, documentClient);
+    expect(attestation.anchor.cidHash).to.equal((await auditAttestationCid(attestation)).cidHash);
+
+    const receipt = await ethers.provider.getTransactionReceipt(attestation.anchor.txHash);
+    const documents = await ethers.getContractAt("DocumentRegistry", addresses.DocumentRegistry);
+    const [log] = receipt!.logs.map((l) => documents.interface.parseLog(l)!);
+    expect(log.args.toObject()).to.deep.include({
+      productId,
+      stepId: attestation.reportDigest,
+      cidHash: attestation.anchor.cidHash,
+      docType: BigInt(DocType.AuditAttestation),
+      actor: certifier.address,
+    });
+
+    const provider = ethers.provider;
+    const verified = await verifyAuditAttestation({ ...report, attestation }, { provider, fromBlock, auditor: certifier.address });
+    expect(verified.issues).to.deep.equal([]);
+    expect(verified).to.include({ valid: true, anchored: true });
+    expect(verified.events).to.include({ checked: report.events.length, matched: report.events.length });
+
+    // no scan from genesis: the start comes from the caller or the report's selection
+    const signed = { ...report, attestation };
+    expect((await verifyAuditAttestation(signed, { provider })).issues).to.deep.equal([
+      "events: no fromBlock to re-derive the events from (pass the deploy block)",
+    ]);
+    const windowed = { ...report, summary: { ...report.summary, selection: { ...(report.summary.selection as object), fromBlock } } };
+    const fromSelection = await verifyAuditAttestation(windowed, { provider, attestation: await signAuditReport(windowed, certifier, { chainId }) });
+    expect(fromSelection.issues).to.deep.equal([]);
+    expect(fromSelection.events).to.include({ fromBlock, matched: report.events.length });
+
+    // the attestation is no stage record for the rules
+    const withAnchor = [...report.events, { ...report.events[1], stepId: attestation.reportDigest, docType: DocType.AuditAttestation } as AuditEvent];
+    const stepDocuments = async (events: AuditEvent[]) => (await runAuditRules(events, { rules: ["step-document"] })).findings;
+    expect(await stepDocuments(withAnchor)).to.deep.equal(await stepDocuments(report.events));
+
+    // Operators may not anchor attestations
+    const asOperator = documentClient.connect(operator);
+    await expect(anchorAuditAttestation(attestation, asOperator)).to.be.rejectedWith("doc type not allowed for role");
+
+    // re-signed after an event was altered, or left out
+    const [first, ...rest] = report.events;
+    for (const [events, issue] of [
+      [report.events.map((e) => (e.kind === "CidAnchored" ? { ...e, cidHash: toBytes32("cid:swapped") } : e)), /^events: altered CidAnchored .*: cidHash$/],
+      [report.events.map((e) => (e.kind === "CidRootLeaf" ? { ...e, stepType: StepType.Sold } : e)), /^events: altered CidRootLeaf .*: proof$/],
+      [rest, new RegExp(`^events: omitted ${first.kind} block ${first.blockNumber}`)],
+    ] as const) {
+      const tampered = { ...report, events: [...events] };
+      const resigned = await signAuditReport(tampered, certifier, { chainId });
+      const result = await verifyAuditAttestation({ ...tampered, attestation: resigned }, { provider, fromBlock });
+      expect(result.valid).to.equal(false);
+      expect(result.issues).to.have.length(1);
+      expect(result.issues[0]).to.match(issue);
+    }
+
+    // an anchor that does not carry this attestation
+    const other = await signAuditReport(report, certifier, { chainId, issuedAt: 1 });
+    const moved = await verifyAuditAttestation({ ...report, attestation: { ...other, anchor: attestation.anchor } }, { provider, fromBlock });
+    expect(moved.issues).to.deep.equal([
+      "anchor: the anchored cidHash is not the digest of the attestation document",
+      `anchor: DocumentAnchored for product ${productId}: cidHash differ`,
+    ]);
+  });
+});
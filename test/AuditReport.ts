@@ -0,0 +1,192 @@
+import { expect } from "chai";
+
+import {
+  AUDIT_CSV_COLUMNS,
+  auditReportDigest,
+  auditReportProducts,
+  parseAuditReport,
+  renderAuditCsv,
+  renderAuditHtml,
+  renderAuditMarkdown,
+  resolveActorNames,
+  toBytes32,
+} from "../src/index.js";
+
+describe("Audit reports", function () {
+  const explorerUrl = "https://sepolia-optimism.etherscan.io";
+  const productA = toBytes32("coffee-batch-001");
+  const productB = toBytes32("coffee-batch-002");
+  const operator = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+  const recipient = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+  const tx = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+  // as written by reconstruct-audit-from-logs.ts: bigints are decimal strings
+  const json = () => ({
+    summary: {
+      generatedAt: "2026-10-19T06:00:00.000Z",
+      chain: { chainId: "11155420", network: "opSepolia" },
+      products: [
+        {
+          productIdInput: "coffee-batch-001",
+          productId: productA,
+          counts: { totalEvents: 2 },
+          completeness: { completeness01: 0, missingStepTypes: [{ stepType: 2, name: "Processed" }] },
+          rules: { ran: ["step-order"], counts: { error: 1, warning: 0, info: 0 }, passed: false },
+          findings: [
+            {
+              rule: "status-steps",
+              severity: "error",
+              productId: productA,
+              message: "InTransit at block 11 before any Shipped anchor",
+              event: { kind: "ProcessStatusChanged", blockNumber: "11", logIndex: "0", txHash: tx(2) },
+            },
+          ],
+        },
+        { productIdInput: "coffee-batch-002", productId: productB, counts: { totalEvents: 1 } },
+      ],
+      evidence: {
+        checked: 1,
+        fetched: 1,
+        verified: 1,
+        actorProfiles: [{ actor: operator.toLowerCase(), name: 'Coop "Esperanza" <CO>, | Ltd', fetched: true, verified: true, issues: [] }],
+      },
+    },
+    events: [
+      {
+        kind: "CidAnchored",
+        contract: "CidRollup",
+        blockNumber: "10",
+        logIndex: "0",
+        txHash: tx(1),
+        timestamp: 1_790_000_000,
+        productId: productA,
+        stepId: toBytes32("step:produced"),
+        orgIdHash: toBytes32("org:operator"),
+        cidHash: toBytes32("cid:produced"),
+        cid: "bafkreiproduced",
+        stepType: 1,
+        actor: operator,
+        evidence: { fetched: true, verified: true, valid: true, issues: [] },
+      },
+      {
+        kind: "ProcessStatusChanged",
+        contract: "ProcessManager",
+        blockNumber: "11",
+        logIndex: "0",
+        txHash: tx(2),
+        timestamp: 1_790_000_002,
+        productId: productA,
+        orgIdHash: toBytes32("org:operator"),
+        previousStatus: 1,
+        newStatus: 2,
+        actor: operator,
+      },
+      {
+        kind: "PaymentRouted",
+        contract: "PaymentRouter",
+        blockNumber: "12",
+        logIndex: "3",
+        txHash: tx(3),
+        productId: productB,
+        token: "0x0000000000000000000000000000000000000000",
+        recipient,
+        amount: "2100",
+        credited: false,
+      },
+    ],
+  });
+
+  it("parses reports from disk and digests their canonical JSON", async function () {
+    const report = parseAuditReport(JSON.stringify(json()));
+    expect(report.events[0].blockNumber).to.equal(10n);
+    expect(report.events[2]).to.include({ kind: "PaymentRouted", amount: 2100n, logIndex: 3n });
+
+    const digest = auditReportDigest(report);
+    expect(digest).to.match(/^0x[0-9a-f]{64}$/);
+    const reordered = { events: json().events, summary: json().summary };
+    expect(auditReportDigest(parseAuditReport(JSON.stringify(reordered, null, 2)))).to.equal(digest);
+    const edited = json();
+    edited.events[2].amount = "2101";
+    expect(auditReportDigest(parseAuditReport(edited))).to.not.equal(digest);
+
+    expect(() => parseAuditReport("{}")).to.throw("not an audit report");
+    expect(() => parseAuditReport({ summary: {}, events: [{ kind: "CidAnchored" }] })).to.throw("events[0]");
+    expect(await resolveActorNames(report)).to.deep.equal({ [operator.toLowerCase()]: 'Coop "Esperanza" <CO>, | Ltd' });
+  });
+
+  it("renders a self-contained HTML page with links, findings and a signature block", async function () {
+    const report = parseAuditReport(json());
+    const actorNames = await resolveActorNames(report);
+    const html = renderAuditHtml(report, { explorerUrl, actorNames, signatory: { name: "J. Doe", organisation: "FLOCERT" } });
+
+    expect(html).to.match(/^<!DOCTYPE html>/);
+    expect(html).to.not.include("<script");
+    expect(html).to.include("Coop &quot;Esperanza&quot; &lt;CO&gt;, | Ltd");
+    expect(html).to.include(`<a href="${explorerUrl}/tx/${tx(1)}">`);
+    expect(html).to.include(`<a href="${explorerUrl}/address/${operator}">`);
+    expect(html).to.include(`<a href="${explorerUrl}/block/10">10</a>`);
+    expect(html).to.include("InTransit at block 11 before any Shipped anchor");
+    expect(html).to.include("missing Processed");
+    expect(html).to.include("FAILED (1 error, 0 warning, 0 info)");
+    expect(html).to.include("Created → InTransit");
+    expect(html).to.include(`2100 wei paid to ${recipient}`);
+    expect(html).to.include(auditReportDigest(report));
+    expect(html).to.include("<td>J. Doe</td>");
+
+    expect(renderAuditHtml(report)).to.not.include("<a href");
+  });
+
+  it("renders pandoc-ready Markdown with the attestation and RFC 4180 CSV", async function () {
+    const report = parseAuditReport(json());
+    const actorNames = await resolveActorNames(report);
+
+    const md = renderAuditMarkdown(report, { explorerUrl, actorNames, title: "Batch 001 | 002" });
+    expect(md.split("\n").slice(0, 4)).to.deep.equal(["---", 'title: "Batch 001 | 002"', 'date: "2026-10-19T06:00:00.000Z"', "---"]);
+    expect(md).to.include("| Time (UTC) | Product | Event |");
+    expect(md).to.include('Coop "Esperanza" <CO>, \\| Ltd');
+    expect(md).to.include(`[0x00000000…](${explorerUrl}/tx/${tx(2)})`);
+    expect(md).to.include("**error:** InTransit at block 11 before any Shipped anchor");
+    expect(md).to.not.include("<br>");
+
+    const attestation = {
+      version: 1 as const,
+      scheme: "eip712" as const,
+      chainId: "11155420",
+      reportDigest: auditReportDigest(report),
+      productIds: [productA, productB],
+      issuedAt: 1_790_000_100,
+      auditor: recipient,
+      signature: "0x",
+      anchor: { documentRegistry: operator, cid: "bafy", cidHash: tx(9), txHash: tx(9), blockNumber: 20 },
+    };
+    const signed = renderAuditMarkdown({ ...report, attestation }, { explorerUrl });
+    expect(signed).to.include(
+      `Signed (EIP-712) by [${recipient}](${explorerUrl}/address/${recipient}) on 2026-09-21T14:15:00.000Z; ` +
+        `anchored in tx [0x00000000…](${explorerUrl}/tx/${tx(9)}) (block 20).`,
+    );
+
+    const csv = renderAuditCsv(report, { explorerUrl, actorNames });
+    const lines = csv.trimEnd().split("\r\n");
+    expect(lines).to.have.length(4);
+    expect(lines[0]).to.equal(AUDIT_CSV_COLUMNS.join(","));
+    expect(lines[1]).to.include(`,${explorerUrl}/tx/${tx(1)},Produced step,bafkreiproduced,${operator},"Coop ""Esperanza"" <CO>, | Ltd",valid,`);
+    expect(lines[2].endsWith(",error status-steps: InTransit at block 11 before any Shipped anchor")).to.equal(true);
+    expect(lines[3]).to.match(/^,0x[0-9a-f]{64},PaymentRouted,12,3,/);
+  });
+
+  it("renders single-product runs written before summary.products", function () {
+    const old = json();
+    const { products, ...summary } = old.summary;
+    const report = parseAuditReport({
+      summary: { ...summary, productIdInput: "coffee-batch-001", productId: productA, completeness: products[0].completeness },
+      events: old.events.slice(0, 2),
+    });
+    expect(auditReportProducts(report)).to.deep.equal([
+      { productId: productA, productIdInput: "coffee-batch-001", counts: undefined, completeness: products[0].completeness },
+    ]);
+    const md = renderAuditMarkdown(report);
+    expect(md).to.include("| `coffee-batch-001 (0x9bfee53e…)` | – | missing Processed | not run |");
+    expect(md).to.include("No findings.");
+    expect(md).to.include("| Time (UTC) | Event |");
+  });
+});
@@ -0,0 +1,189 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+
+import {
+  ActorRegistryClient,
+  AuditQueries,
+  ChainIndexer,
+  DEFAULT_STEP_PERMISSIONS,
+  DocType,
+  IndexerDb,
+  ProcessStatus,
+  Role,
+  Status,
+  StepType,
+  STEP_ORDER,
+  registryActorAt,
+  runAuditRules,
+  toBytes32,
+  type AuditEvent,
+} from "../src/index.js";
+
+import { OPERATOR_ORG, deployFairtrade } from "./helpers/fairtrade.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("Audit rules", function () {
+  const clean = toBytes32("coffee-batch-clean");
+  const messy = toBytes32("coffee-batch-messy");
+  const orgs = {
+    operator: OPERATOR_ORG,
+    producer: toBytes32("org:producer"),
+    logistics: toBytes32("org:logistics"),
+  };
+  const step = (productId: string, stepType: StepType) => ({
+    productId,
+    stepId: toBytes32(`step:${productId}:${stepType}`),
+    cidHash: toBytes32(`cid:${productId}:${stepType}`),
+    stepType,
+  });
+
+  async function deployFixture() {
+    const { operator, others: [producer, logistics], registry, documents, manager, rollup, addresses, fromBlock } =
+      await deployFairtrade(ethers);
+    await registry.registerActor(orgs.producer, producer.address, Role.Producer, toBytes32("meta:producer"));
+    await registry.registerActor(orgs.logistics, logistics.address, Role.Logistics, toBytes32("meta:logistics"));
+
+    // every step, its stage record, then the statuses
+    const steps = STEP_ORDER.map((t) => step(clean, t));
+    await rollup.connect(operator).submitCidBatch(steps);
+    await documents.connect(operator).anchorDocumentBatch(
+      steps.map((s) => ({ productId: clean, stepId: s.stepId, cidHash: toBytes32(`doc:${s.stepId}`), docType: s.stepType })),
+    );
+    await manager.connect(operator).createProcess(clean);
+    await manager.connect(operator).advanceStatusBatch(
+      [ProcessStatus.InTransit, ProcessStatus.AtRetail, ProcessStatus.Sold].map((newStatus) => ({ productId: clean, newStatus })),
+    );
+
+    // in transit before it shipped, Processed after Shipped, two steps without records
+    const produced = step(messy, StepType.Produced);
+    await rollup.connect(producer).submitCidBatch([produced]);
+    await documents.connect(producer).anchorDocument(messy, produced.stepId, toBytes32("doc:produced"), DocType.ProductionRecord);
+    await manager.connect(producer).createProcess(messy);
+    await manager.connect(producer).advanceStatus(messy, ProcessStatus.InTransit);
+    await rollup.connect(logistics).submitCidBatch([step(messy, StepType.Shipped)]);
+    await rollup.connect(operator).submitCidBatch([step(messy, StepType.Processed)]);
+    // suspended after the fact: its earlier events stay valid
+    await registry.updateActorStatus(orgs.producer, Status.Suspended);
+
+    const db = new IndexerDb(":memory:");
+    await new ChainIndexer({ provider: ethers.provider, db, addresses, fromBlock }).sync();
+    const actorRegistry = new ActorRegistryClient(addresses.ActorRegistry, ethers.provider);
+    return { queries: new AuditQueries(db), actorRegistry, producer };
+  }
+
+  it("passes a complete, consistent timeline", async function () {
+    const { queries, actorRegistry } = await networkHelpers.loadFixture(deployFixture);
+    const report = await runAuditRules(queries.timeline(clean).events, { actorAt: registryActorAt(actorRegistry) });
+    expect(report.rules).to.have.length(6);
+    expect(report.findings).to.deep.equal([]);
+    expect(report).to.include({ passed: true });
+  });
+
+  it("finds order, document, status and coverage problems", async function () {
+    const { queries, actorRegistry } = await networkHelpers.loadFixture(deployFixture);
+    const events = queries.timeline(messy).events;
+    const blockOf = (kind: string, n = 0) => events.filter((e) => e.kind === kind)[n].blockNumber;
+    const report = await runAuditRules(events, { actorAt: registryActorAt(actorRegistry) });
+
+    expect(report.findings.map((f) => `${f.severity} ${f.rule} ${f.message}`)).to.have.members([
+      "warning step-coverage no Received step anchored",
+      "warning step-coverage no AtRetail step anchored",
+      "warning step-coverage no Sold step anchored",
+      `error step-order Processed anchored at block ${blockOf("CidAnchored", 2)}, after Shipped (block ${blockOf("CidAnchored", 1)})`,
+      "warning step-document no DocumentAnchored for the Shipped step",
+      "warning step-document no DocumentAnchored for the Processed step",
+      `error status-steps InTransit at block ${blockOf("ProcessStatusChanged", 1)} before any Shipped anchor`,
+    ]);
+    expect(report.counts).to.deep.equal({ error: 2, warning: 5, info: 0 });
+    expect(report.passed).to.equal(false);
+    expect(report.findings.every((f) => f.productId === messy)).to.equal(true);
+  });
+
+  it("checks actor roles as of each event's block", async function () {
+    const { queries, actorRegistry, producer } = await networkHelpers.loadFixture(deployFixture);
+    const events = queries.timeline(messy).events;
+    const rules = ["actor-role"] as const;
+
+    expect((await runAuditRules(events, { rules, actorAt: registryActorAt(actorRegistry) })).findings).to.deep.equal([]);
+
+    // against today's registry the suspended producer fails every event it signed
+    const latest = await runAuditRules(events, { rules, actorAt: (wallet) => actorRegistry.getActor(wallet) });
+    expect(latest.findings.map((f) => f.event!.kind)).to.deep.equal([
+      "CidAnchored",
+      "DocumentAnchored",
+      "ProcessStatusChanged",
+      "ProcessStatusChanged",
+    ]);
+    expect(latest.findings[0].message).to.equal(`${producer.address} was Suspended at block ${latest.findings[0].event!.blockNumber}`);
+
+    // a matrix without Logistics -> Shipped
+    const stepPermissions = { ...DEFAULT_STEP_PERMISSIONS, [Role.Logistics]: [StepType.Received] };
+    const strict = await runAuditRules(events, { rules, actorAt: registryActorAt(actorRegistry), stepPermissions });
+    expect(strict.findings).to.have.length(1);
+    expect(strict.findings[0]).to.include({ rule: "actor-role", severity: "error", stepType: StepType.Shipped });
+
+    await expect(runAuditRules(events, { rules })).to.be.rejectedWith("the actor-role rule needs an actorAt resolver");
+  });
+
+  it("checks stage document types and status continuity", async function () {
+    const productId = toBytes32("coffee-batch-synthetic");
+    const actor = ethers.ZeroAddress;
+    const at = (n: number) => ({ blockNumber: BigInt(n), logIndex: 0n, txHash: toBytes32(`tx:${n}`), productId, orgIdHash: orgs.operator });
+    const anchor = (n: number, stepType: StepType): AuditEvent => ({
+      kind: "CidAnchored",
+      contract: "CidRollup",
+      ...at(n),
+      stepId: toBytes32(`step:${stepType}`),
+      cidHash: toBytes32(`cid:${stepType}`),
+      cid: "",
+      stepType,
+      actor,
+    });
+    const doc = (n: number, stepType: StepType, docType: DocType): AuditEvent => ({
+      kind: "DocumentAnchored",
+      contract: "DocumentRegistry",
+      ...at(n),
+      stepId: toBytes32(`step:${stepType}`),
+      cidHash: toBytes32(`doc:${n}`),
+      cid: "",
+      docType,
+      actor,
+    });
+    const status = (n: number, previousStatus: ProcessStatus, newStatus: ProcessStatus): AuditEvent => ({
+      kind: "ProcessStatusChanged",
+      contract: "ProcessManager",
+      ...at(n),
+      previousStatus,
+      newStatus,
+      actor,
+    });
+
+    const report = await runAuditRules(
+      [
+        anchor(1, StepType.Produced),
+        doc(2, StepType.Produced, DocType.Certificate),
+        doc(3, StepType.Shipped, DocType.ShippingDocument),
+        status(4, ProcessStatus.Created, ProcessStatus.Suspended),
+        anchor(5, StepType.Processed),
+        doc(6, StepType.Processed, DocType.ProcessingRecord),
+        status(7, ProcessStatus.InTransit, ProcessStatus.AtRetail),
+        status(8, ProcessStatus.AtRetail, ProcessStatus.Created),
+      ],
+      { rules: ["step-document", "status-transition", "status-steps"] },
+    );
+    expect(report.findings.map((f) => `${f.severity} ${f.rule} ${f.message}`)).to.deep.equal([
+      "warning step-document the Produced step has Certificate but no ProductionRecord",
+      "info step-document ShippingDocument anchored for a step without a CID anchor",
+      "info status-transition the process was created outside the timeline",
+      "error status-transition InTransit -> AtRetail does not follow the last status Suspended",
+      "warning status-transition AtRetail -> Created is not in the transition graph",
+      "warning status-steps Processed anchored while the process was Suspended",
+      "error status-steps AtRetail at block 7 before any Received anchor",
+      "error status-steps AtRetail at block 7 before any AtRetail anchor",
+    ]);
+  });
+});
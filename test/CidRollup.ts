@@ -0,0 +1,600 @@
+import { expect } from "chai";
+import { NonceManager } from "ethers";
+import { network } from "hardhat";
+
+import {
+  ActorRegistryClient,
+  CidRelayer,
+  CidRollupClient,
+  DEFAULT_STEP_PERMISSIONS,
+  PERMISSION_ROLES,
+  RelayRejectedError,
+  Role,
+  STEP_ORDER,
+  Status,
+  StepType,
+  buildCidMerkleTree,
+  cidLeafHash,
+  cidMerkleProof,
+  cidRootManifest,
+  hashCidBatch,
+  maskToTypes,
+  parseCidRootManifest,
+  signCidBatch,
+  stepKey,
+  toBytes32,
+  typesToMask,
+  verifyCidMerkleProof,
+  type CidEvent,
+  type RelayResult,
+  type SignedCidBatch,
+} from "../src/index.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+function cidEvent(product: string, step: string, stepType: StepType): CidEvent {
+  return {
+    productId: toBytes32(product),
+    stepId: toBytes32(`${product}:${step}`),
+    cidHash: toBytes32(`cid:${product}:${step}`),
+    stepType,
+  };
+}
+
+describe("CidRollup", function () {
+  async function deployFixture() {
+    const [owner, producer, retailer, outsider] = await ethers.getSigners();
+    const registry = await ethers.deployContract("ActorRegistry", [owner.address]);
+    const rollup = await ethers.deployContract("CidRollup", [await registry.getAddress()]);
+
+    // the owner acts as the platform operator, which may anchor every step type
+    const orgId = toBytes32("org:operator");
+    await registry.registerActor(orgId, owner.address, Role.Operator, toBytes32("meta:operator"));
+
+    const producerOrg = toBytes32("org:producer");
+    await registry.registerActor(producerOrg, producer.address, Role.Producer, ethers.ZeroHash);
+    await registry.registerActor(toBytes32("org:retailer"), retailer.address, Role.Retailer, ethers.ZeroHash);
+
+    return { registry, rollup, owner, producer, retailer, outsider, orgId, producerOrg };
+  }
+
+  it("Should reject a zero ActorRegistry address", async function () {
+    await expect(ethers.deployContract("CidRollup", [ethers.ZeroAddress])).to.be.revertedWith(
+      "CidRollup: actorRegistry is zero",
+    );
+  });
+
+  it("Should anchor every event in a batch and emit CidAnchored + CidBatchSubmitted", async function () {
+    const { rollup, owner, orgId } = await networkHelpers.loadFixture(deployFixture);
+    const events = [
+      cidEvent("batch-1", "produced", StepType.Produced),
+      cidEvent("batch-1", "processed", StepType.Processed),
+      cidEvent("batch-2", "produced", StepType.Produced),
+    ];
+
+    const tx = rollup.connect(owner).submitCidBatch(events);
+
+    for (const e of events) {
+      await expect(tx)
+        .to.emit(rollup, "CidAnchored")
+        .withArgs(e.productId, e.stepId, e.cidHash, e.stepType, orgId, owner.address);
+    }
+    await expect(tx).to.emit(rollup, "CidBatchSubmitted").withArgs(owner.address, events.length);
+
+    for (const e of events) {
+      expect(await rollup.usedStepKey(stepKey(e.productId, e.stepId))).to.equal(true);
+    }
+  });
+
+  it("Should reject an empty batch", async function () {
+    const { rollup, owner } = await networkHelpers.loadFixture(deployFixture);
+
+    await expect(rollup.connect(owner).submitCidBatch([])).to.be.revertedWith(
+      "CidRollup: empty batch",
+    );
+  });
+
+  it("Should reject unregistered senders", async function () {
+    const { rollup, outsider } = await networkHelpers.loadFixture(deployFixture);
+
+    await expect(
+      rollup.connect(outsider).submitCidBatch([cidEvent("batch-1", "produced", StepType.Produced)]),
+    ).to.be.revertedWith("CidRollup: sender not registered");
+  });
+
+  it("Should reject suspended and revoked actors", async function () {
+    const { registry, rollup, owner, orgId } = await networkHelpers.loadFixture(deployFixture);
+
+    // isActiveActor() already checks the status, so inactive actors hit the
+    // "sender not registered" guard before "CidRollup: actor not active".
+    for (const status of [Status.Suspended, Status.Revoked]) {
+      await registry.updateActorStatus(orgId, status);
+      await expect(
+        rollup.connect(owner).submitCidBatch([cidEvent("batch-1", "produced", StepType.Produced)]),
+      ).to.be.revertedWith("CidRollup: sender not registered");
+    }
+  });
+
+  it("Should reject a step that was anchored in an earlier batch", async function () {
+    const { rollup, owner } = await networkHelpers.loadFixture(deployFixture);
+    const event = cidEvent("batch-1", "produced", StepType.Produced);
+
+    await rollup.connect(owner).submitCidBatch([event]);
+
+    await expect(
+      rollup.connect(owner).submitCidBatch([{ ...event, cidHash: toBytes32("cid:other") }]),
+    ).to.be.revertedWith("CidRollup: step already anchored");
+  });
+
+  it("Should reject duplicates inside one batch and anchor nothing from it", async function () {
+    const { rollup, owner } = await networkHelpers.loadFixture(deployFixture);
+    const first = cidEvent("batch-1", "produced", StepType.Produced);
+
+    await expect(rollup.connect(owner).submitCidBatch([first, first])).to.be.revertedWith(
+      "CidRollup: step already anchored",
+    );
+    expect(await rollup.usedStepKey(stepKey(first.productId, first.stepId))).to.equal(false);
+  });
+
+  it("Should key replay protection on (productId, stepId) only", async function () {
+    const { rollup, owner } = await networkHelpers.loadFixture(deployFixture);
+    const a = cidEvent("batch-1", "shipped", StepType.Shipped);
+    const b = { ...a, productId: toBytes32("batch-2") };
+
+    await expect(rollup.connect(owner).submitCidBatch([a, b]))
+      .to.emit(rollup, "CidBatchSubmitted")
+      .withArgs(owner.address, 2n);
+  });
+
+  it("Should pass custom step types through once they are permitted", async function () {
+    const { rollup, owner, orgId } = await networkHelpers.loadFixture(deployFixture);
+    const event = { ...cidEvent("batch-1", "custom", StepType.Unknown), stepType: 200 };
+
+    await expect(rollup.submitCidBatch([event])).to.be.revertedWith(
+      "CidRollup: step not allowed for role",
+    );
+
+    await rollup.setStepPermission(Role.Operator, 200, true);
+    await expect(rollup.connect(owner).submitCidBatch([event]))
+      .to.emit(rollup, "CidAnchored")
+      .withArgs(event.productId, event.stepId, event.cidHash, 200, orgId, owner.address);
+  });
+
+  describe("Permission matrix", function () {
+    it("Should seed the default role -> StepType matrix and emit StepPermissionSet", async function () {
+      const { rollup } = await networkHelpers.loadFixture(deployFixture);
+
+      for (const role of PERMISSION_ROLES) {
+        expect(maskToTypes(await rollup.stepPermissions(role))).to.deep.equal(
+          DEFAULT_STEP_PERMISSIONS[role],
+        );
+      }
+      expect(await rollup.stepPermissions(Role.None)).to.equal(0n);
+
+      await expect(rollup.deploymentTransaction())
+        .to.emit(rollup, "StepPermissionSet")
+        .withArgs(Role.Logistics, StepType.Received, true);
+    });
+
+    it("Should only let each role anchor its own steps", async function () {
+      const { rollup, producer, retailer, producerOrg } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        rollup.connect(retailer).submitCidBatch([cidEvent("batch-1", "produced", StepType.Produced)]),
+      ).to.be.revertedWith("CidRollup: step not allowed for role");
+      await expect(
+        rollup.connect(producer).submitCidBatch([cidEvent("batch-1", "sold", StepType.Sold)]),
+      ).to.be.revertedWith("CidRollup: step not allowed for role");
+
+      const produced = cidEvent("batch-1", "produced", StepType.Produced);
+      await expect(rollup.connect(producer).submitCidBatch([produced]))
+        .to.emit(rollup, "CidAnchored")
+        .withArgs(
+          produced.productId,
+          produced.stepId,
+          produced.cidHash,
+          StepType.Produced,
+          producerOrg,
+          producer.address,
+        );
+    });
+
+    it("Should reject the whole batch if any event is not allowed", async function () {
+      const { rollup, producer } = await networkHelpers.loadFixture(deployFixture);
+      const produced = cidEvent("batch-1", "produced", StepType.Produced);
+
+      await expect(
+        rollup.connect(producer).submitCidBatch([produced, cidEvent("batch-1", "shipped", StepType.Shipped)]),
+      ).to.be.revertedWith("CidRollup: step not allowed for role");
+      expect(await rollup.usedStepKey(stepKey(produced.productId, produced.stepId))).to.equal(false);
+    });
+
+    it("Should let the registry owner grant and revoke permissions", async function () {
+      const { rollup, retailer } = await networkHelpers.loadFixture(deployFixture);
+      const asRetailer = rollup.connect(retailer);
+
+      await expect(rollup.setStepPermission(Role.Retailer, StepType.Received, true))
+        .to.emit(rollup, "StepPermissionSet")
+        .withArgs(Role.Retailer, StepType.Received, true);
+      expect(await rollup.isStepAllowed(Role.Retailer, StepType.Received)).to.equal(true);
+      await asRetailer.submitCidBatch([cidEvent("batch-1", "received", StepType.Received)]);
+
+      await expect(rollup.setStepPermission(Role.Retailer, StepType.Sold, false))
+        .to.emit(rollup, "StepPermissionSet")
+        .withArgs(Role.Retailer, StepType.Sold, false);
+      expect(maskToTypes(await rollup.stepPermissions(Role.Retailer))).to.deep.equal([
+        StepType.Received,
+        StepType.AtRetail,
+      ]);
+      await expect(
+        asRetailer.submitCidBatch([cidEvent("batch-1", "sold", StepType.Sold)]),
+      ).to.be.revertedWith("CidRollup: step not allowed for role");
+    });
+
+    it("Should follow role changes in ActorRegistry", async function () {
+      const { registry, rollup, producer, producerOrg } = await networkHelpers.loadFixture(deployFixture);
+      const shipped = cidEvent("batch-1", "shipped", StepType.Shipped);
+
+      await expect(rollup.connect(producer).submitCidBatch([shipped])).to.be.revertedWith(
+        "CidRollup: step not allowed for role",
+      );
+      await registry.updateActorRole(producerOrg, Role.Logistics);
+      await expect(rollup.connect(producer).submitCidBatch([shipped])).to.emit(rollup, "CidAnchored");
+    });
+
+    it("Should only allow the ActorRegistry owner to edit the matrix", async function () {
+      const { registry, rollup, producer, outsider } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        rollup.connect(producer).setStepPermission(Role.Producer, StepType.Sold, true),
+      ).to.be.revertedWith("CidRollup: only registry owner");
+
+      await registry.transferOwnership(outsider.address);
+      await expect(
+        rollup.setStepPermission(Role.Producer, StepType.Sold, true),
+      ).to.be.revertedWith("CidRollup: only registry owner");
+      await expect(
+        rollup.connect(outsider).setStepPermission(Role.Producer, StepType.Sold, true),
+      ).to.emit(rollup, "StepPermissionSet");
+    });
+
+    it("Should reject Role.None", async function () {
+      const { rollup } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        rollup.setStepPermission(Role.None, StepType.Produced, true),
+      ).to.be.revertedWith("CidRollup: invalid role");
+    });
+
+    it("Should let the Operator anchor a full batch walkthrough", async function () {
+      const { rollup, owner } = await networkHelpers.loadFixture(deployFixture);
+      const events = STEP_ORDER.map((st) => cidEvent("batch-1", `step-${st}`, st));
+
+      await expect(rollup.connect(owner).submitCidBatch(events))
+        .to.emit(rollup, "CidBatchSubmitted")
+        .withArgs(owner.address, events.length);
+    });
+  });
+
+  describe("Relayed batches (EIP-712)", function () {
+    const HOUR = 3600n;
+
+    async function sign(
+      rollup: Awaited<ReturnType<typeof deployFixture>>["rollup"],
+      signer: Awaited<ReturnType<typeof ethers.getSigners>>[number],
+      events: CidEvent[],
+      overrides: { nonce?: bigint; deadline?: bigint } = {},
+    ): Promise<SignedCidBatch> {
+      const { chainId } = await ethers.provider.getNetwork();
+      const now = BigInt(await networkHelpers.time.latest());
+      return await signCidBatch(signer, {
+        chainId,
+        rollupAddress: await rollup.getAddress(),
+        events,
+        nonce: overrides.nonce ?? (await rollup.nonces(signer.address)),
+        deadline: overrides.deadline ?? now + HOUR,
+      });
+    }
+
+    function submitFor(
+      rollup: Awaited<ReturnType<typeof deployFixture>>["rollup"],
+      batch: SignedCidBatch,
+    ) {
+      return rollup.submitCidBatchFor(batch.signer, batch.events, batch.nonce, batch.deadline, batch.signature);
+    }
+
+    it("Should anchor a signed batch for the signer and emit CidBatchRelayed", async function () {
+      const { rollup, producer, outsider, producerOrg } = await networkHelpers.loadFixture(deployFixture);
+      const events = [cidEvent("batch-1", "harvest", StepType.Produced), cidEvent("batch-2", "harvest", StepType.Produced)];
+      const batch = await sign(rollup, producer, events);
+
+      // the relayer is not a registered actor and pays the gas
+      const tx = submitFor(rollup.connect(outsider), batch);
+      for (const e of events) {
+        await expect(tx)
+          .to.emit(rollup, "CidAnchored")
+          .withArgs(e.productId, e.stepId, e.cidHash, e.stepType, producerOrg, producer.address);
+      }
+      await expect(tx).to.emit(rollup, "CidBatchSubmitted").withArgs(producer.address, 2);
+      await expect(tx).to.emit(rollup, "CidBatchRelayed").withArgs(producer.address, outsider.address, 0);
+      expect(await rollup.nonces(producer.address)).to.equal(1n);
+    });
+
+    it("Should compute the same digest as the SDK", async function () {
+      const { rollup, producer } = await networkHelpers.loadFixture(deployFixture);
+      const batch = await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)]);
+      const { chainId } = await ethers.provider.getNetwork();
+
+      expect(await rollup.hashCidBatch(batch.signer, batch.events, batch.nonce, batch.deadline)).to.equal(
+        hashCidBatch(chainId, await rollup.getAddress(), batch),
+      );
+    });
+
+    it("Should reject replays, skipped nonces and expired signatures", async function () {
+      const { rollup, producer } = await networkHelpers.loadFixture(deployFixture);
+      const first = await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)]);
+      await submitFor(rollup, first);
+
+      await expect(submitFor(rollup, first)).to.be.revertedWith("CidRollup: bad nonce");
+
+      const skipped = await sign(rollup, producer, [cidEvent("batch-2", "harvest", StepType.Produced)], { nonce: 5n });
+      await expect(submitFor(rollup, skipped)).to.be.revertedWith("CidRollup: bad nonce");
+
+      const now = BigInt(await networkHelpers.time.latest());
+      const expiring = await sign(rollup, producer, [cidEvent("batch-3", "harvest", StepType.Produced)], {
+        deadline: now + 10n,
+      });
+      await networkHelpers.time.increase(60);
+      await expect(submitFor(rollup, expiring)).to.be.revertedWith("CidRollup: signature expired");
+    });
+
+    it("Should reject tampered batches and signatures from someone else", async function () {
+      const { rollup, owner, producer } = await networkHelpers.loadFixture(deployFixture);
+      const batch = await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)]);
+
+      const tampered = { ...batch, events: [cidEvent("batch-1", "other", StepType.Produced)] };
+      await expect(submitFor(rollup, tampered)).to.be.revertedWith("CidRollup: invalid signature");
+
+      // owner's signature presented as producer's
+      const forged = { ...(await sign(rollup, owner, batch.events, { nonce: 0n })), signer: producer.address };
+      await expect(submitFor(rollup, forged)).to.be.revertedWith("CidRollup: invalid signature");
+
+      await expect(submitFor(rollup, { ...batch, signature: "0x1234" })).to.be.revertedWith(
+        "CidRollup: invalid signature",
+      );
+
+      // a signature for another CidRollup deployment is not valid here
+      const other = await ethers.deployContract("CidRollup", [await rollup.actorRegistry()]);
+      await expect(submitFor(other, batch)).to.be.revertedWith("CidRollup: invalid signature");
+    });
+
+    it("Should apply the signer's role, status and permissions", async function () {
+      const { registry, rollup, producer, outsider, producerOrg } = await networkHelpers.loadFixture(deployFixture);
+
+      const notAllowed = await sign(rollup, producer, [cidEvent("batch-1", "sold", StepType.Sold)]);
+      await expect(submitFor(rollup, notAllowed)).to.be.revertedWith("CidRollup: step not allowed for role");
+
+      const unregistered = await sign(rollup, outsider, [cidEvent("batch-1", "harvest", StepType.Produced)]);
+      await expect(submitFor(rollup, unregistered)).to.be.revertedWith("CidRollup: sender not registered");
+
+      await registry.updateActorStatus(producerOrg, Status.Suspended);
+      const suspended = await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)]);
+      await expect(submitFor(rollup, suspended)).to.be.revertedWith("CidRollup: sender not registered");
+    });
+
+    it("Should let CidRelayer submit queued batches in nonce order and refuse bad ones before sending", async function () {
+      const { registry, rollup, producer, outsider } = await networkHelpers.loadFixture(deployFixture);
+      const { chainId } = await ethers.provider.getNetwork();
+      const relayer = new CidRelayer(
+        new CidRollupClient(await rollup.getAddress(), outsider),
+        new ActorRegistryClient(await registry.getAddress(), ethers.provider),
+        { chainId, maxEvents: 5 },
+      );
+
+      const first = await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)]);
+      const second = await sign(rollup, producer, [cidEvent("batch-2", "harvest", StepType.Produced)], { nonce: 1n });
+      const results = await Promise.all([relayer.relay(first), relayer.relay(second)]);
+      expect(results.map((r) => r.nonce)).to.deep.equal([0n, 1n]);
+      expect(await rollup.nonces(producer.address)).to.equal(2n);
+
+      const nonceBefore = await ethers.provider.getTransactionCount(outsider.address);
+      await expect(relayer.relay(first)).to.be.rejectedWith(RelayRejectedError, "bad nonce 0, expected 2");
+
+      const tooBig = await sign(
+        rollup,
+        producer,
+        Array.from({ length: 6 }, (_, i) => cidEvent("batch-3", `s${i}`, StepType.Produced)),
+      );
+      await expect(relayer.relay(tooBig)).to.be.rejectedWith(RelayRejectedError, "relayer limit is 5");
+
+      const notAllowed = await sign(rollup, producer, [cidEvent("batch-4", "sold", StepType.Sold)]);
+      await expect(relayer.relay(notAllowed)).to.be.rejectedWith(
+        RelayRejectedError,
+        "CidRollup: step not allowed for role",
+      );
+
+      // nothing was mined for the rejected batches
+      expect(await ethers.provider.getTransactionCount(outsider.address)).to.equal(nonceBefore);
+      expect(relayer.stats).to.include({ relayed: 2, failed: 3, pending: 0 });
+    });
+
+    it("Should keep a NonceManager relayer's nonces consecutive when a batch reverts", async function () {
+      const { registry, rollup, producer, outsider } = await networkHelpers.loadFixture(deployFixture);
+      const { chainId } = await ethers.provider.getNetwork();
+      const relayer = new CidRelayer(
+        new CidRollupClient(await rollup.getAddress(), new NonceManager(outsider)),
+        new ActorRegistryClient(await registry.getAddress(), ethers.provider),
+        { chainId },
+      );
+
+      const harvest = await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)]);
+      await relayer.relay(harvest);
+
+      // passes the relayer's checks, reverts in the contract: the step is already anchored
+      const again = await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)], { nonce: 1n });
+      await expect(relayer.relay(again)).to.be.rejectedWith(RelayRejectedError, "CidRollup: step already anchored");
+      const notAllowed = await sign(rollup, producer, [cidEvent("batch-1", "sold", StepType.Sold)], { nonce: 1n });
+      await expect(relayer.relay(notAllowed)).to.be.rejectedWith(RelayRejectedError, "CidRollup: step not allowed for role");
+
+      // the next batch is mined with the relayer's next nonce instead of waiting behind a gap
+      const next = await sign(rollup, producer, [cidEvent("batch-2", "harvest", StepType.Produced)], { nonce: 1n });
+      const result = await relayer.relay(next);
+      const tx = await ethers.provider.getTransaction(result.txHash);
+      expect(tx?.nonce).to.equal(1);
+      expect(await ethers.provider.getTransactionCount(outsider.address)).to.equal(2);
+      expect(relayer.stats).to.include({ relayed: 2, failed: 2, pending: 0 });
+    });
+
+    it("Should keep relayer nonces distinct when one of two parallel sends fails", async function () {
+      const { registry, rollup, owner, producer, outsider } = await networkHelpers.loadFixture(deployFixture);
+      const { chainId } = await ethers.provider.getNetwork();
+      const client = new CidRollupClient(await rollup.getAddress(), new NonceManager(outsider));
+      // the producer's batch passes the estimate, then the node refuses its transaction
+      const submit = client.submitCidBatchFor.bind(client);
+      client.submitCidBatchFor = (batch, overrides) =>
+        submit(batch, batch.signer === producer.address ? { gasLimit: 21_000n } : overrides);
+      const relayer = new CidRelayer(client, new ActorRegistryClient(await registry.getAddress(), ethers.provider), { chainId });
+
+      const [failed, sent] = await Promise.allSettled([
+        relayer.relay(await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)])),
+        relayer.relay(await sign(rollup, owner, [cidEvent("batch-2", "harvest", StepType.Produced)])),
+      ]);
+      expect([failed.status, sent.status]).to.deep.equal(["rejected", "fulfilled"]);
+
+      client.submitCidBatchFor = submit;
+      const next = await relayer.relay(await sign(rollup, producer, [cidEvent("batch-1", "harvest", StepType.Produced)]));
+      const hashes = [(sent as PromiseFulfilledResult<RelayResult>).value.txHash, next.txHash];
+      const nonces = await Promise.all(hashes.map(async (h) => (await ethers.provider.getTransaction(h))?.nonce));
+      expect(nonces).to.deep.equal([0, 1]);
+      expect(await ethers.provider.getTransactionCount(outsider.address)).to.equal(2);
+      expect(relayer.stats).to.include({ relayed: 2, failed: 1, pending: 0 });
+    });
+  });
+
+  describe("Merkle-root anchoring", function () {
+    function productSteps(product: string): CidEvent[] {
+      return STEP_ORDER.map((st) => cidEvent(product, `step-${st}`, st));
+    }
+
+    it("Should anchor a root, record it and emit CidRootAnchored", async function () {
+      const { rollup, owner, orgId } = await networkHelpers.loadFixture(deployFixture);
+      const tree = buildCidMerkleTree(productSteps("batch-1"));
+
+      const tx = rollup.submitCidRoot(tree.root, tree.leaves.length, tree.stepTypeMask);
+      await expect(tx)
+        .to.emit(rollup, "CidRootAnchored")
+        .withArgs(tree.root, tree.leaves.length, tree.stepTypeMask, orgId, owner.address);
+      await expect(tx).to.not.emit(rollup, "CidAnchored");
+
+      const anchor = await rollup.rootAnchors(tree.root);
+      expect(anchor.actor).to.equal(owner.address);
+      expect(anchor.blockNumber).to.equal(BigInt(await ethers.provider.getBlockNumber()));
+      expect(anchor.leafCount).to.equal(6n);
+      expect(anchor.stepTypeMask).to.equal(typesToMask(STEP_ORDER));
+    });
+
+    it("Should verify every leaf on-chain and off-chain for odd and even tree sizes", async function () {
+      const { rollup } = await networkHelpers.loadFixture(deployFixture);
+
+      for (const size of [1, 2, 5, 8]) {
+        const events = Array.from({ length: size }, (_, i) =>
+          cidEvent(`tree-${size}`, `step-${i}`, STEP_ORDER[i % STEP_ORDER.length]),
+        );
+        const tree = buildCidMerkleTree(events);
+        await rollup.submitCidRoot(tree.root, size, tree.stepTypeMask);
+
+        for (const [i, e] of events.entries()) {
+          const proof = cidMerkleProof(tree, i);
+          expect(verifyCidMerkleProof(tree.root, e, proof)).to.equal(true);
+          expect(await rollup.verifyCidInclusion(e, tree.root, proof)).to.equal(true);
+        }
+      }
+    });
+
+    it("Should hash leaves like the SDK", async function () {
+      const { rollup } = await networkHelpers.loadFixture(deployFixture);
+      const e = cidEvent("batch-1", "harvest", StepType.Produced);
+
+      expect(await rollup.cidLeafHash(e)).to.equal(cidLeafHash(e));
+    });
+
+    it("Should not verify tampered leaves, wrong proofs or unknown roots", async function () {
+      const { rollup } = await networkHelpers.loadFixture(deployFixture);
+      const events = productSteps("batch-1");
+      const tree = buildCidMerkleTree(events);
+      await rollup.submitCidRoot(tree.root, events.length, tree.stepTypeMask);
+      const proof = cidMerkleProof(tree, 2);
+
+      const tampered = { ...events[2], cidHash: toBytes32("cid:forged") };
+      expect(await rollup.verifyCidInclusion(tampered, tree.root, proof)).to.equal(false);
+      expect(verifyCidMerkleProof(tree.root, tampered, proof)).to.equal(false);
+
+      expect(await rollup.verifyCidInclusion(events[2], tree.root, cidMerkleProof(tree, 3))).to.equal(false);
+
+      const unanchored = buildCidMerkleTree(productSteps("batch-2"));
+      expect(
+        await rollup.verifyCidInclusion(unanchored.leaves[0], unanchored.root, cidMerkleProof(unanchored, 0)),
+      ).to.equal(false);
+    });
+
+    it("Should not verify leaves whose stepType was not declared for the root", async function () {
+      const { rollup, producer } = await networkHelpers.loadFixture(deployFixture);
+      // the tree smuggles a Sold step in, but the producer can only declare Produced
+      const events = [cidEvent("batch-1", "harvest", StepType.Produced), cidEvent("batch-1", "sold", StepType.Sold)];
+      const tree = buildCidMerkleTree(events);
+      await rollup.connect(producer).submitCidRoot(tree.root, 2, typesToMask([StepType.Produced]));
+
+      expect(await rollup.verifyCidInclusion(events[0], tree.root, cidMerkleProof(tree, 0))).to.equal(true);
+      expect(await rollup.verifyCidInclusion(events[1], tree.root, cidMerkleProof(tree, 1))).to.equal(false);
+    });
+
+    it("Should reject invalid roots and step masks outside the sender's role", async function () {
+      const { registry, rollup, producer, outsider, producerOrg } = await networkHelpers.loadFixture(deployFixture);
+      const tree = buildCidMerkleTree(productSteps("batch-1"));
+      const produced = typesToMask([StepType.Produced]);
+
+      await expect(rollup.submitCidRoot(ethers.ZeroHash, 1, produced)).to.be.revertedWith("CidRollup: zero root");
+      await expect(rollup.submitCidRoot(tree.root, 0, produced)).to.be.revertedWith("CidRollup: empty batch");
+      await expect(rollup.submitCidRoot(tree.root, 6, 0n)).to.be.revertedWith("CidRollup: empty step mask");
+      await expect(rollup.connect(outsider).submitCidRoot(tree.root, 6, produced)).to.be.revertedWith(
+        "CidRollup: sender not registered",
+      );
+      await expect(rollup.connect(producer).submitCidRoot(tree.root, 6, tree.stepTypeMask)).to.be.revertedWith(
+        "CidRollup: step not allowed for role",
+      );
+
+      await rollup.connect(producer).submitCidRoot(tree.root, 6, produced);
+      await expect(rollup.submitCidRoot(tree.root, 6, tree.stepTypeMask)).to.be.revertedWith(
+        "CidRollup: root already anchored",
+      );
+
+      await registry.updateActorStatus(producerOrg, Status.Suspended);
+      const other = buildCidMerkleTree(productSteps("batch-2"));
+      await expect(rollup.connect(producer).submitCidRoot(other.root, 6, produced)).to.be.revertedWith(
+        "CidRollup: sender not registered",
+      );
+    });
+
+    it("Should round-trip manifests and refuse inconsistent ones", async function () {
+      const { rollup } = await networkHelpers.loadFixture(deployFixture);
+      const tree = buildCidMerkleTree(productSteps("batch-1"));
+      const { chainId } = await ethers.provider.getNetwork();
+      const manifest = cidRootManifest(tree, { chainId, cidRollup: await rollup.getAddress() });
+
+      const parsed = parseCidRootManifest(JSON.parse(JSON.stringify(manifest)));
+      expect(parsed.tree.root).to.equal(tree.root);
+      expect(parsed.manifest.leaves).to.deep.equal(tree.leaves);
+
+      const forged = JSON.parse(JSON.stringify(manifest));
+      forged.leaves[0].cidHash = toBytes32("cid:forged");
+      expect(() => parseCidRootManifest(forged)).to.throw("not the stated root");
+
+      expect(() => buildCidMerkleTree([])).to.throw("empty batch");
+      const e = cidEvent("batch-1", "harvest", StepType.Produced);
+      expect(() => buildCidMerkleTree([e, { ...e, cidHash: toBytes32("cid:other") }])).to.throw("repeats");
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+
+import {
+  DEFAULT_DOC_PERMISSIONS,
+  DocType,
+  PERMISSION_ROLES,
+  ROLE_LABEL,
+  Role,
+  Status,
+  maskToTypes,
+  toBytes32,
+} from "../src/index.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("DocumentRegistry", function () {
+  async function deployFixture() {
+    const [owner, certifier, outsider] = await ethers.getSigners();
+    const registry = await ethers.deployContract("ActorRegistry", [owner.address]);
+    const documents = await ethers.deployContract("DocumentRegistry", [await registry.getAddress()]);
+
+    const orgId = toBytes32("org:certifier");
+    await registry.registerActor(orgId, certifier.address, Role.Certifier, toBytes32("meta:certifier"));
+
+    return { registry, documents, owner, certifier, outsider, orgId };
+  }
+
+  const productId = toBytes32("batch-1");
+  const stepId = toBytes32("batch-1:certified");
+  const cidHash = toBytes32("cid:certificate");
+
+  it("Should reject a zero ActorRegistry address", async function () {
+    await expect(
+      ethers.deployContract("DocumentRegistry", [ethers.ZeroAddress]),
+    ).to.be.revertedWith("DocumentRegistry: actorRegistry is zero");
+  });
+
+  it("Should expose the ActorRegistry address", async function () {
+    const { registry, documents } = await networkHelpers.loadFixture(deployFixture);
+
+    expect(await documents.actorRegistry()).to.equal(await registry.getAddress());
+  });
+
+  it("Should anchor a document and emit DocumentAnchored", async function () {
+    const { documents, certifier, orgId } = await networkHelpers.loadFixture(deployFixture);
+
+    await expect(
+      documents.connect(certifier).anchorDocument(productId, stepId, cidHash, DocType.Certificate),
+    )
+      .to.emit(documents, "DocumentAnchored")
+      .withArgs(productId, stepId, cidHash, DocType.Certificate, orgId, certifier.address);
+  });
+
+  it("Should allow the same document to be anchored twice (event-only, no replay guard)", async function () {
+    const { documents, certifier } = await networkHelpers.loadFixture(deployFixture);
+    const asCertifier = documents.connect(certifier);
+
+    await asCertifier.anchorDocument(productId, stepId, cidHash, DocType.Certificate);
+    await expect(asCertifier.anchorDocument(productId, stepId, cidHash, DocType.Certificate)).to.emit(
+      documents,
+      "DocumentAnchored",
+    );
+  });
+
+  it("Should reject unregistered senders", async function () {
+    const { documents, outsider } = await networkHelpers.loadFixture(deployFixture);
+
+    await expect(
+      documents.connect(outsider).anchorDocument(productId, stepId, cidHash, DocType.Certificate),
+    ).to.be.revertedWith("DocumentRegistry: sender not active");
+  });
+
+  it("Should reject suspended and revoked actors", async function () {
+    const { registry, documents, certifier, orgId } = await networkHelpers.loadFixture(deployFixture);
+
+    // isActiveActor() already checks the status, so "DocumentRegistry: actor not active"
+    // is shadowed by the "sender not active" guard.
+    for (const status of [Status.Suspended, Status.Revoked]) {
+      await registry.updateActorStatus(orgId, status);
+      await expect(
+        documents.connect(certifier).anchorDocument(productId, stepId, cidHash, DocType.Certificate),
+      ).to.be.revertedWith("DocumentRegistry: sender not active");
+    }
+  });
+
+  it("Should accept anchors again after an actor is reactivated", async function () {
+    const { registry, documents, certifier, orgId } = await networkHelpers.loadFixture(deployFixture);
+
+    await registry.updateActorStatus(orgId, Status.Suspended);
+    await registry.updateActorStatus(orgId, Status.Active);
+
+    await expect(
+      documents.connect(certifier).anchorDocument(productId, stepId, cidHash, DocType.Certificate),
+    ).to.emit(documents, "DocumentAnchored");
+  });
+
+  describe("Permission matrix", function () {
+    it("Should seed the default role -> DocType matrix and emit DocPermissionSet", async function () {
+      const { documents } = await networkHelpers.loadFixture(deployFixture);
+
+      for (const role of PERMISSION_ROLES) {
+        expect(maskToTypes(await documents.docPermissions(role))).to.deep.equal(
+          DEFAULT_DOC_PERMISSIONS[role],
+        );
+      }
+
+      await expect(documents.deploymentTransaction())
+        .to.emit(documents, "DocPermissionSet")
+        .withArgs(Role.Certifier, DocType.Certificate, true);
+    });
+
+    it("Should only let Certifier anchor certification documents", async function () {
+      const { registry, documents } = await networkHelpers.loadFixture(deployFixture);
+      const signers = await ethers.getSigners();
+
+      for (const [i, role] of PERMISSION_ROLES.entries()) {
+        const wallet = signers[10 + i];
+        await registry.registerActor(toBytes32(`org:${ROLE_LABEL[role]}`), wallet.address, role, ethers.ZeroHash);
+
+        const anchor = documents.connect(wallet).anchorDocument(productId, stepId, cidHash, DocType.Certificate);
+        if (role === Role.Certifier) {
+          await expect(anchor).to.emit(documents, "DocumentAnchored");
+        } else {
+          await expect(anchor).to.be.revertedWith("DocumentRegistry: doc type not allowed for role");
+        }
+      }
+    });
+
+    it("Should keep Certifier to certificates by default", async function () {
+      const { documents, certifier } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        documents.connect(certifier).anchorDocument(productId, stepId, cidHash, DocType.ShippingDocument),
+      ).to.be.revertedWith("DocumentRegistry: doc type not allowed for role");
+    });
+
+    it("Should let the registry owner grant and revoke permissions", async function () {
+      const { registry, documents, outsider } = await networkHelpers.loadFixture(deployFixture);
+      await registry.registerActor(toBytes32("org:logistics"), outsider.address, Role.Logistics, ethers.ZeroHash);
+      const asLogistics = documents.connect(outsider);
+
+      await expect(
+        asLogistics.anchorDocument(productId, stepId, cidHash, DocType.Certificate),
+      ).to.be.revertedWith("DocumentRegistry: doc type not allowed for role");
+
+      await expect(documents.setDocPermission(Role.Logistics, DocType.Certificate, true))
+        .to.emit(documents, "DocPermissionSet")
+        .withArgs(Role.Logistics, DocType.Certificate, true);
+      expect(await documents.isDocAllowed(Role.Logistics, DocType.Certificate)).to.equal(true);
+      await expect(asLogistics.anchorDocument(productId, stepId, cidHash, DocType.Certificate)).to.emit(
+        documents,
+        "DocumentAnchored",
+      );
+
+      await documents.setDocPermission(Role.Logistics, DocType.Certificate, false);
+      expect(await documents.isDocAllowed(Role.Logistics, DocType.Certificate)).to.equal(false);
+    });
+
+    it("Should only allow the ActorRegistry owner to edit the matrix", async function () {
+      const { documents, certifier } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        documents.connect(certifier).setDocPermission(Role.Certifier, DocType.InspectionReport, true),
+      ).to.be.revertedWith("DocumentRegistry: only registry owner");
+      await expect(
+        documents.setDocPermission(Role.None, DocType.Certificate, true),
+      ).to.be.revertedWith("DocumentRegistry: invalid role");
+    });
+  });
+
+  describe("anchorDocumentBatch", function () {
+    const docs = [
+      { productId, stepId, cidHash, docType: DocType.Certificate },
+      { productId, stepId: toBytes32("batch-1:recert"), cidHash: toBytes32("cid:recert"), docType: DocType.Certificate },
+      { productId: toBytes32("batch-2"), stepId, cidHash, docType: DocType.Certificate },
+    ];
+
+    it("Should emit DocumentAnchored for every entry in order", async function () {
+      const { documents, certifier, orgId } = await networkHelpers.loadFixture(deployFixture);
+
+      const tx = documents.connect(certifier).anchorDocumentBatch(docs);
+      for (const d of docs) {
+        await expect(tx)
+          .to.emit(documents, "DocumentAnchored")
+          .withArgs(d.productId, d.stepId, d.cidHash, d.docType, orgId, certifier.address);
+      }
+
+      const receipt = await (await tx).wait();
+      const anchored = receipt!.logs.map((log) => documents.interface.parseLog(log)!.args.productId);
+      expect(anchored).to.deep.equal(docs.map((d) => d.productId));
+    });
+
+    it("Should reject an empty batch", async function () {
+      const { documents, certifier } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(documents.connect(certifier).anchorDocumentBatch([])).to.be.revertedWith(
+        "DocumentRegistry: empty batch",
+      );
+    });
+
+    it("Should apply the same sender and permission checks as anchorDocument", async function () {
+      const { registry, documents, certifier, outsider, orgId } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(documents.connect(outsider).anchorDocumentBatch(docs)).to.be.revertedWith(
+        "DocumentRegistry: sender not active",
+      );
+
+      // one disallowed entry reverts the whole batch
+      await expect(
+        documents
+          .connect(certifier)
+          .anchorDocumentBatch([...docs, { productId, stepId, cidHash, docType: DocType.ShippingDocument }]),
+      ).to.be.revertedWith("DocumentRegistry: doc type not allowed for role");
+
+      await registry.updateActorStatus(orgId, Status.Suspended);
+      await expect(documents.connect(certifier).anchorDocumentBatch(docs)).to.be.revertedWith(
+        "DocumentRegistry: sender not active",
+      );
+    });
+
+    it("Should cost less per document than separate anchorDocument calls", async function () {
+      const { documents, certifier } = await networkHelpers.loadFixture(deployFixture);
+      const asCertifier = documents.connect(certifier);
+
+      let singleGas = 0n;
+      for (const d of docs) {
+        const receipt = await (await asCertifier.anchorDocument(d.productId, d.stepId, d.cidHash, d.docType)).wait();
+        singleGas += receipt!.gasUsed;
+      }
+      const batchGas = (await (await asCertifier.anchorDocumentBatch(docs)).wait())!.gasUsed;
+
+      expect(batchGas < singleGas).to.equal(true);
+    });
+  });
+});
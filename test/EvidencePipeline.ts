@@ -0,0 +1,222 @@
+import { expect } from "chai";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { network } from "hardhat";
+import os from "os";
+import path from "path";
+
+import {
+  CID_CODEC_DAG_PB,
+  CID_CODEC_RAW,
+  CidRollupClient,
+  DEFAULT_CID_CODECS,
+  DocType,
+  DocumentRegistryClient,
+  LocalCasProvider,
+  Role,
+  StepType,
+  anchorEvidence,
+  cidCandidates,
+  cidCodecFor,
+  cidFromCidHash,
+  cidHashFromCid,
+  cidOf,
+  cidV1FromCidHash,
+  decodeCid,
+  encodeCidHash,
+  readAnchoredEvidence,
+  toBytes32,
+  uploadEvidence,
+  verifyAnchoredEvidence,
+  type StorageProvider,
+} from "../src/index.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("Evidence pipeline", function () {
+  const certificate = Buffer.from('{"type":"Certificate","lot":"coffee-batch-001","scheme":"fairtrade"}');
+  const processing = Buffer.from('{"type":"ProcessingRecord","lot":"coffee-batch-001","moisture":"11.2%"}');
+
+  describe("CID <-> cidHash", function () {
+    it("uses the sha2-256 digest of the CID as cidHash", async function () {
+      const cid = await cidOf(certificate);
+      const sha256 = `0x${createHash("sha256").update(certificate).digest("hex")}`;
+
+      // single-block raw CIDv1: the digest is sha256 of the file itself
+      expect(cidHashFromCid(cid)).to.equal(sha256);
+      expect(decodeCid(cid)).to.include({ version: 1, codec: 0x55, hashCode: 0x12 });
+      expect(cidCandidates(sha256)[0]).to.equal(cid);
+    });
+
+    it("reads CIDv0 and dag-pb CIDv1 and rebuilds them from the digest", async function () {
+      const v0 = await cidOf(certificate, 0);
+      const digest = cidHashFromCid(v0);
+
+      expect(decodeCid(v0)).to.include({ version: 0, codec: CID_CODEC_DAG_PB });
+      expect(cidHashFromCid(cidV1FromCidHash(digest, CID_CODEC_DAG_PB))).to.equal(digest);
+      expect(cidV1FromCidHash(digest, CID_CODEC_DAG_PB).startsWith("bafybei")).to.equal(true);
+    });
+
+    it("decodes a cidHash with the codec its step / doc type is anchored with", async function () {
+      const raw = await cidOf(processing);
+      const dagPb = await cidOf(processing, 1, false);
+      const v0 = await cidOf(processing, 0);
+
+      expect(cidFromCidHash(encodeCidHash(raw, "step", StepType.Processed), "step", StepType.Processed)).to.equal(raw);
+      expect(cidFromCidHash(encodeCidHash(dagPb, "doc", DocType.ProcessingRecord), "doc", DocType.ProcessingRecord)).to.equal(dagPb);
+      // CIDv0 is dag-pb: anchorable as a document, read back as the CIDv1 of the same digest
+      expect(cidFromCidHash(encodeCidHash(v0, "doc", DocType.Certificate), "doc", DocType.Certificate)).to.equal(dagPb);
+
+      expect(() => encodeCidHash(dagPb, "step", StepType.Processed)).to.throw("is a dag-pb CID, but step type 2 is anchored as raw");
+      expect(() => encodeCidHash(raw, "doc", DocType.Certificate)).to.throw("is a raw CID, but doc type 7 is anchored as dag-pb");
+
+      const policy = { ...DEFAULT_CID_CODECS, types: { doc: { [DocType.SaleRecord]: CID_CODEC_RAW } } };
+      expect(cidCodecFor("doc", DocType.SaleRecord, policy)).to.equal(CID_CODEC_RAW);
+      expect(cidCodecFor("doc", DocType.RetailRecord, policy)).to.equal(CID_CODEC_DAG_PB);
+      expect(encodeCidHash(raw, "doc", DocType.SaleRecord, policy)).to.equal(cidHashFromCid(raw));
+    });
+
+    it("rejects strings that are not sha2-256 CIDs", function () {
+      expect(() => cidHashFromCid("not-a-cid")).to.throw("Unsupported CID or multibase");
+      // CIDv1 raw with an identity multihash
+      expect(() => cidHashFromCid("bafkqaaa")).to.throw("Only sha2-256 CIDs fit a bytes32 cidHash");
+    });
+  });
+
+  describe("upload, anchor, verify from chain", function () {
+    async function deployFixture() {
+      const [owner, certifier, processor] = await ethers.getSigners();
+      const registry = await ethers.deployContract("ActorRegistry", [owner.address]);
+      const documents = await ethers.deployContract("DocumentRegistry", [await registry.getAddress()]);
+      const rollup = await ethers.deployContract("CidRollup", [await registry.getAddress()]);
+
+      const orgId = toBytes32("org:certifier");
+      await registry.registerActor(orgId, certifier.address, Role.Certifier, toBytes32("meta:certifier"));
+      await registry.registerActor(toBytes32("org:processor"), processor.address, Role.Processor, toBytes32("meta:processor"));
+
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "fairtrade-pipeline-"));
+      return {
+        documentRegistry: new DocumentRegistryClient(await documents.getAddress(), certifier),
+        cidRollup: new CidRollupClient(await rollup.getAddress(), processor),
+        storage: new LocalCasProvider({ dir }),
+        dir,
+        orgId,
+        certifier,
+      };
+    }
+
+    const productId = toBytes32("coffee-batch-001");
+
+    async function anchorBoth(f: Awaited<ReturnType<typeof deployFixture>>) {
+      const chainId = (await ethers.provider.getNetwork()).chainId;
+      const doc = await anchorEvidence({
+        anchor: "document",
+        storage: f.storage,
+        bytes: certificate,
+        productId,
+        stepId: toBytes32("coffee-batch-001:certified"),
+        chainId,
+        documentRegistry: f.documentRegistry,
+        docType: DocType.Certificate,
+      });
+      const step = await anchorEvidence({
+        anchor: "cid",
+        storage: f.storage,
+        bytes: processing,
+        productId,
+        stepId: toBytes32("coffee-batch-001:processed"),
+        chainId,
+        cidRollup: f.cidRollup,
+        stepType: StepType.Processed,
+      });
+      const anchored = await readAnchoredEvidence({
+        provider: ethers.provider,
+        documentRegistry: f.documentRegistry,
+        cidRollup: f.cidRollup,
+        productId,
+      });
+      return { doc, step, anchored };
+    }
+
+    it("anchors the digest of the uploaded file's CID and finds it in the logs", async function () {
+      const f = await networkHelpers.loadFixture(deployFixture);
+      const { doc, step, anchored } = await anchorBoth(f);
+
+      // default policy: documents are dag-pb CIDs, steps raw CIDs
+      expect(doc.cid).to.equal(await cidOf(certificate, 1, false));
+      expect(step.cid).to.equal(await cidOf(processing));
+      expect(doc.cidHash).to.equal(cidHashFromCid(doc.cid));
+      expect(doc).to.include({ anchor: "document", type: DocType.Certificate, storage: "local", size: certificate.length });
+      expect(step).to.include({ anchor: "cid", type: StepType.Processed, contract: f.cidRollup.address });
+
+      expect(anchored.map((a) => [a.anchor, a.cidHash, a.cid, a.txHash])).to.deep.equal([
+        ["document", doc.cidHash, doc.cid, doc.txHash],
+        ["cid", step.cidHash, step.cid, step.txHash],
+      ]);
+      expect(anchored[0]).to.include({ orgIdHash: f.orgId, actor: f.certifier.address, type: DocType.Certificate });
+
+      const other = await readAnchoredEvidence({
+        provider: ethers.provider,
+        documentRegistry: f.documentRegistry,
+        cidRollup: f.cidRollup,
+        productId: toBytes32("another-batch"),
+      });
+      expect(other).to.deep.equal([]);
+    });
+
+    it("verifies anchored content with and without the recorded CID", async function () {
+      const f = await networkHelpers.loadFixture(deployFixture);
+      const { doc, anchored } = await anchorBoth(f);
+
+      const withRecord = await verifyAnchoredEvidence(anchored[0], [f.storage], [doc.cid]);
+      expect(withRecord).to.include({ verified: true, fetched: true, cid: doc.cid, via: "local" });
+
+      // no record: the CID is decoded from the log
+      for (const a of anchored) {
+        expect(await verifyAnchoredEvidence(a, [f.storage])).to.include({ verified: true, cid: a.cid });
+      }
+    });
+
+    it("fails verification when the stored content changed or is missing", async function () {
+      const f = await networkHelpers.loadFixture(deployFixture);
+      const { doc, step, anchored } = await anchorBoth(f);
+
+      await fs.writeFile(path.join(f.dir, doc.cid), Buffer.from("tampered certificate"));
+      const tampered = await verifyAnchoredEvidence(anchored[0], [f.storage], [doc.cid]);
+      expect(tampered).to.include({ verified: false, fetched: true, cid: doc.cid });
+      expect(tampered.error).to.include("content does not hash to the CID");
+
+      await fs.rm(path.join(f.dir, step.cid));
+      const missing = await verifyAnchoredEvidence(anchored[1], [f.storage], [step.cid]);
+      expect(missing).to.include({ verified: false, fetched: false });
+      expect(missing.error).to.include("not found");
+
+      // a recorded CID with another digest is never fetched
+      const mismatched = await verifyAnchoredEvidence(anchored[1], [f.storage], [doc.cid]);
+      expect(mismatched.error).to.include("digest is not the anchored cidHash");
+    });
+
+    it("refuses uploads whose CID cannot be decoded from the anchor", async function () {
+      const lying: StorageProvider = {
+        kind: "kubo",
+        target: "lying",
+        put: async (bytes) => ({ cid: await cidOf(Buffer.from("something else")), size: bytes.length }),
+        get: async () => Buffer.alloc(0),
+      };
+
+      const upload = (storage: StorageProvider, bytes: Buffer, kind: "step" | "doc") =>
+        uploadEvidence(storage, bytes, { kind, type: StepType.Processed }).then(() => undefined, (e: Error) => e);
+
+      expect((await upload(lying, certificate, "doc"))?.message).to.include("which is not the CID of the uploaded bytes");
+
+      // a backend that ignores the requested layout (raw CID for a dag-pb document)
+      const rawOnly: StorageProvider = { ...lying, put: async (bytes) => ({ cid: await cidOf(bytes), size: bytes.length }) };
+      expect((await upload(rawOnly, certificate, "doc"))?.message).to.include("is a raw CID, but doc type 2 is anchored as dag-pb");
+
+      expect((await upload(lying, Buffer.alloc(300 * 1024), "step"))?.message).to.include("do not fit one block");
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  CID_CODEC_DAG_PB,
+  DocType,
+  EVIDENCE_JSONLD_CONTEXT,
+  EvidenceSchemaError,
+  LocalCasProvider,
+  Role,
+  StepType,
+  actorProfile,
+  actorProfileCid,
+  canonicalJson,
+  certificateDocument,
+  checkActorProfileBytes,
+  checkDocumentAgainstAnchor,
+  checkEvidenceBytes,
+  cidOf,
+  decodeCid,
+  evidenceDocumentBytes,
+  parseEvidenceDocument,
+  schemaForAnchor,
+  stepEvidence,
+  toBytes32,
+  uploadActorProfile,
+  validateEvidenceDocument,
+} from "../src/index.js";
+
+describe("Evidence schemas", function () {
+  const productId = toBytes32("coffee-batch-001");
+  const stepId = toBytes32("coffee-batch-001:processed");
+  const orgIdHash = toBytes32("org:coop-esperanza");
+  const wallet = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+  const processed = () =>
+    stepEvidence({
+      productId,
+      stepId,
+      stepType: "Processed",
+      occurredAt: "2026-03-02T10:15:00Z",
+      actor: { address: wallet },
+      quantity: { value: 1000, unit: "kg" },
+      process: "washed",
+    });
+
+  const certificate = () =>
+    certificateDocument({
+      certificateId: "FT-2026-0001",
+      scheme: "Fairtrade",
+      issuer: { name: "Certifier Ltd" },
+      holder: { name: "Cooperative La Esperanza", orgIdHash },
+      products: [productId],
+      scope: ["green coffee"],
+      validFrom: "2026-01-01",
+      validUntil: "2028-12-31",
+      status: "valid",
+    });
+
+  const profile = () =>
+    actorProfile({ orgIdHash, name: "Cooperative La Esperanza", role: "Producer", country: "CO", wallets: [wallet] });
+
+  describe("validation", function () {
+    it("accepts documents built with the builders", function () {
+      for (const doc of [processed(), certificate(), profile()]) {
+        expect(validateEvidenceDocument(doc)).to.deep.equal([]);
+        expect(doc).to.include({ schemaVersion: 1 });
+        expect(doc["@context"]).to.deep.equal(EVIDENCE_JSONLD_CONTEXT);
+      }
+    });
+
+    it("reports missing, malformed and step-specific fields by path", function () {
+      const { process: _process, ...noProcess } = processed();
+      expect(validateEvidenceDocument({ ...noProcess, stepId: "lot-7", actor: { address: "0x1234" } })).to.deep.equal([
+        'stepId: "lot-7" is not a bytes32 hex id',
+        "actor.address: expected an address",
+        "process: required for Processed steps",
+      ]);
+
+      expect(validateEvidenceDocument({ ...processed(), stepType: "Shipped" })).to.include("shipment: required for Shipped steps");
+      expect(validateEvidenceDocument({ ...certificate(), validUntil: "2025-12-31" })).to.include("validUntil: before validFrom");
+      expect(validateEvidenceDocument({ ...profile(), role: "Owner" })[0]).to.match(/^role: expected one of /);
+      expect(validateEvidenceDocument({ ...profile(), "@type": "Invoice" })[0]).to.match(/^@type: expected one of /);
+    });
+
+    it("rejects unsupported schema versions and foreign contexts", function () {
+      expect(validateEvidenceDocument({ ...processed(), schemaVersion: 2 })).to.deep.equal([
+        "schemaVersion: unsupported 2 (expected 1)",
+      ]);
+      expect(validateEvidenceDocument({ ...processed(), "@context": "https://schema.org" })).to.deep.equal([
+        "@context: expected EVIDENCE_JSONLD_CONTEXT",
+      ]);
+    });
+
+    it("parses documents and throws EvidenceSchemaError with every issue", function () {
+      expect(parseEvidenceDocument(evidenceDocumentBytes(certificate()))).to.deep.equal(certificate());
+
+      const err = (() => {
+        try {
+          parseEvidenceDocument(JSON.stringify({ ...certificate(), scope: [], status: "expired" }));
+        } catch (e) {
+          return e;
+        }
+      })();
+      expect(err).to.be.instanceOf(EvidenceSchemaError);
+      expect((err as EvidenceSchemaError).issues).to.deep.equal([
+        "scope: expected at least one entry",
+        "status: expected valid, suspended or withdrawn",
+      ]);
+      expect(() => parseEvidenceDocument("not json")).to.throw(EvidenceSchemaError);
+    });
+  });
+
+  describe("canonical bytes", function () {
+    it("serializes with sorted keys, so equal documents get equal CIDs", async function () {
+      const doc = processed();
+      const reordered = Object.fromEntries(Object.entries(doc).reverse());
+
+      expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } })).to.equal('{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}');
+      expect(evidenceDocumentBytes(reordered as typeof doc).equals(evidenceDocumentBytes(doc))).to.equal(true);
+      expect(await cidOf(evidenceDocumentBytes(reordered as typeof doc))).to.equal(await cidOf(evidenceDocumentBytes(doc)));
+    });
+  });
+
+  describe("anchors", function () {
+    const anchor = { kind: "step" as const, type: StepType.Processed, productId, stepId, actor: wallet };
+
+    it("maps step and document types to the schema they anchor", function () {
+      expect(schemaForAnchor("step", StepType.Sold)).to.equal("StepEvidence");
+      expect(schemaForAnchor("doc", DocType.ProcessingRecord)).to.equal("StepEvidence");
+      expect(schemaForAnchor("doc", DocType.Certificate)).to.equal("Certificate");
+      expect(schemaForAnchor("doc", DocType.InspectionReport)).to.equal(undefined);
+    });
+
+    it("checks a document against the product, step, type and actor of its anchor", function () {
+      expect(checkDocumentAgainstAnchor(processed(), anchor)).to.deep.equal([]);
+      expect(checkDocumentAgainstAnchor(processed(), { ...anchor, kind: "doc", type: DocType.ProcessingRecord })).to.deep.equal([]);
+
+      expect(
+        checkDocumentAgainstAnchor(processed(), {
+          ...anchor,
+          type: StepType.Shipped,
+          stepId: toBytes32("other-step"),
+          actor: "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+        }),
+      ).to.deep.equal([
+        `stepId: ${stepId} is not the anchored step`,
+        "stepType: Processed does not match the anchored type 3",
+        `actor.address: ${wallet} did not anchor it (0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC did)`,
+      ]);
+
+      expect(checkDocumentAgainstAnchor(processed(), { ...anchor, kind: "doc", type: DocType.Certificate })).to.deep.equal([
+        "@type: doc type 7 anchors Certificate documents, got StepEvidence",
+      ]);
+      expect(
+        checkDocumentAgainstAnchor(certificate(), { ...anchor, kind: "doc", type: DocType.Certificate, productId: toBytes32("x") }),
+      ).to.deep.equal(["products: the anchored product is not covered"]);
+    });
+
+    it("checks fetched bytes, leaving types without a schema unchecked", function () {
+      const ok = checkEvidenceBytes(evidenceDocumentBytes(processed()), anchor);
+      expect(ok).to.deep.include({ schema: "StepEvidence", issues: [] });
+      expect(ok.document).to.deep.equal(processed());
+
+      expect(checkEvidenceBytes(Buffer.from('{"lot":"coffee-batch-001"}'), anchor).issues[0]).to.equal(
+        "@context: expected EVIDENCE_JSONLD_CONTEXT",
+      );
+      expect(checkEvidenceBytes(Buffer.from("%PDF-1.7"), { ...anchor, kind: "doc", type: DocType.InspectionReport })).to.deep.equal({
+        issues: [],
+      });
+    });
+  });
+
+  describe("actor profiles", function () {
+    it("uploads profiles as dag-pb CIDs whose digest is the metadataHash", async function () {
+      const storage = new LocalCasProvider({ dir: await fs.mkdtemp(path.join(os.tmpdir(), "fairtrade-schema-")) });
+      const { cid, metadataHash } = await uploadActorProfile(storage, profile());
+
+      expect(decodeCid(cid).codec).to.equal(CID_CODEC_DAG_PB);
+      expect(actorProfileCid(metadataHash)).to.equal(cid);
+
+      const bytes = await storage.get(cid);
+      expect(checkActorProfileBytes(bytes, { orgIdHash, wallet, role: Role.Producer }).issues).to.deep.equal([]);
+      expect(checkActorProfileBytes(bytes, { orgIdHash: toBytes32("org:other"), wallet: orgIdHash.slice(0, 42), role: Role.Processor }).issues).to.deep.equal([
+        `orgIdHash: ${orgIdHash} is not the registered org`,
+        `wallets: ${orgIdHash.slice(0, 42)} is not listed`,
+        "role: Producer is not the registered role Processor",
+      ]);
+
+      const invalid = await uploadActorProfile(storage, { ...profile(), country: "Colombia" }).then(() => undefined, (e: unknown) => e);
+      expect(invalid).to.be.instanceOf(EvidenceSchemaError);
+    });
+  });
+});
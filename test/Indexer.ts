@@ -0,0 +1,220 @@
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import { network } from "hardhat";
+import os from "os";
+import path from "path";
+
+import {
+  ChainIndexer,
+  DocType,
+  IndexerDb,
+  NATIVE_TOKEN,
+  ProcessStatus,
+  Role,
+  StepType,
+  toBytes32,
+  type ChainIndexerOptions,
+} from "../src/index.js";
+
+import { OPERATOR_ORG, deployFairtrade } from "./helpers/fairtrade.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("Chain indexer", function () {
+  const productId = toBytes32("coffee-batch-001");
+  const orgId = OPERATOR_ORG;
+
+  async function deployFixture() {
+    const { operator, others: [producer, processor], documents, manager, rollup, router, addresses, fromBlock } =
+      await deployFairtrade(ethers);
+    await rollup.connect(operator).submitCidBatch([
+      { productId, stepId: toBytes32("step:produced"), cidHash: toBytes32("cid:produced"), stepType: StepType.Produced },
+      { productId, stepId: toBytes32("step:processed"), cidHash: toBytes32("cid:processed"), stepType: StepType.Processed },
+    ]);
+    await documents.connect(operator).anchorDocument(productId, toBytes32("step:processed"), toBytes32("cid:record"), DocType.ProcessingRecord);
+    await manager.connect(operator).createProcess(productId);
+    await manager.connect(operator).advanceStatus(productId, ProcessStatus.InTransit);
+    await router.connect(operator).routePayment(productId, { value: 1000n });
+
+    return { documents, operator, producer, processor, addresses, fromBlock };
+  }
+
+  async function mine(blocks: number) {
+    for (let i = 0; i < blocks; i++) await ethers.provider.send("evm_mine", []);
+  }
+
+  function indexer(f: Awaited<ReturnType<typeof deployFixture>>, db: IndexerDb, opts: Partial<ChainIndexerOptions> = {}) {
+    return new ChainIndexer({ provider: ethers.provider, db, addresses: f.addresses, fromBlock: f.fromBlock, ...opts });
+  }
+
+  it("indexes the events of all five contracts from the deploy block", async function () {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    const db = new IndexerDb(":memory:");
+    const result = await indexer(f, db).sync();
+
+    expect(result).to.include({ fromBlock: f.fromBlock, toBlock: await ethers.provider.getBlockNumber(), logs: 9, requests: 1 });
+    expect(db.counts()).to.deep.equal({
+      actor_registered: 1,
+      cid_anchored: 2,
+      cid_root_anchored: 0,
+      document_anchored: 1,
+      process_created: 1,
+      process_status_changed: 2,
+      payment_routed: 2,
+    });
+
+    const [actor] = db.rows("actor_registered", { orgIdHash: orgId });
+    expect(actor).to.include({ contract: "ActorRegistry", event: "ActorRegistered", wallet: f.operator.address, role: Role.Operator });
+    expect(actor.timestamp).to.be.greaterThan(0);
+
+    expect(db.productRows(productId).map((r) => r.event)).to.deep.equal([
+      "CidAnchored",
+      "CidAnchored",
+      "DocumentAnchored",
+      "ProcessCreated",
+      "ProcessStatusChanged",
+      "ProcessStatusChanged",
+      "PaymentRouted",
+      "PaymentRouted",
+    ]);
+    expect(db.rows("cid_anchored", { cidHash: toBytes32("cid:processed") })[0]).to.include({ stepType: StepType.Processed });
+    expect(db.rows("payment_routed", { productId }).map((p) => [p.recipient, p.amount, p.token, p.credited])).to.deep.equal([
+      [f.producer.address, "700", NATIVE_TOKEN, false],
+      [f.processor.address, "250", NATIVE_TOKEN, false],
+    ]);
+    expect(db.productTxHashes(productId)).to.have.length(5);
+    expect(db.productRows(toBytes32("another-batch"))).to.deep.equal([]);
+
+    // lookups ignore the case of hex values and still go through the column index
+    expect(db.rows("payment_routed", { recipient: f.producer.address.toLowerCase() })).to.have.length(1);
+    const plan = db.db.prepare("EXPLAIN QUERY PLAN SELECT * FROM payment_routed WHERE recipient = ?").all(f.producer.address);
+    expect(plan.map((p) => p.detail).join(" ")).to.include("USING INDEX payment_routed_recipient");
+  });
+
+  it("resumes from the checkpoint and only scans new blocks", async function () {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "fairtrade-index-")), "index.sqlite");
+
+    const first = new IndexerDb(file);
+    const { toBlock } = await indexer(f, first).sync();
+    first.close();
+
+    await f.documents.connect(f.operator).anchorDocument(productId, toBytes32("step:shipped"), toBytes32("cid:bill"), DocType.ShippingDocument);
+
+    const reopened = new IndexerDb(file);
+    const again = await indexer(f, reopened).sync();
+    expect(again).to.include({ fromBlock: toBlock + 1, toBlock: toBlock + 1, logs: 1 });
+    expect(reopened.rows("document_anchored", { productId })).to.have.length(2);
+
+    // nothing new: no eth_getLogs at all
+    expect(await indexer(f, reopened).sync()).to.include({ fromBlock: toBlock + 2, toBlock: toBlock + 1, requests: 0 });
+    reopened.close();
+  });
+
+  it("shrinks the chunk when eth_getLogs rejects a range and grows it back", async function () {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    await mine(40);
+
+    // a provider that only serves 4-block ranges, like some free RPC tiers
+    const limited = {
+      getNetwork: () => ethers.provider.getNetwork(),
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      getBlock: (block: number) => ethers.provider.getBlock(block),
+      getLogs: async (filter: { fromBlock: number; toBlock: number }) => {
+        if (filter.toBlock - filter.fromBlock + 1 > 4) throw new Error("block range too large");
+        return ethers.provider.getLogs(filter);
+      },
+    } as unknown as ChainIndexerOptions["provider"];
+
+    const db = new IndexerDb(":memory:");
+    const result = await indexer(f, db, { provider: limited, chunkSize: 32, maxChunkSize: 8 }).sync();
+    expect(result.shrinks).to.be.greaterThan(0);
+    expect(result.logs).to.equal(9);
+    expect(result.chunkSize).to.equal(8);
+    expect(db.productRows(productId)).to.have.length(8);
+
+    const strict = indexer(f, new IndexerDb(":memory:"), { provider: limited, chunkSize: 32, maxChunkSize: 32, minChunkSize: 16 });
+    await expect(strict.sync()).to.be.rejectedWith("block range too large");
+  });
+
+  it("retries transient eth_getLogs failures with the same range and throws other errors", async function () {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    const failures: Error[] = [];
+    const flaky = {
+      getNetwork: () => ethers.provider.getNetwork(),
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      getBlock: (block: number) => ethers.provider.getBlock(block),
+      getLogs: async (filter: { fromBlock: number; toBlock: number }) => {
+        const failure = failures.shift();
+        if (failure) throw failure;
+        return ethers.provider.getLogs(filter);
+      },
+    } as unknown as ChainIndexerOptions["provider"];
+    const reset = Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" });
+
+    failures.push(reset, Object.assign(new Error("bad gateway"), { status: 502 }), new Error("request timeout"));
+    const db = new IndexerDb(":memory:");
+    const result = await indexer(f, db, { provider: flaky, chunkSize: 32, retry: { baseDelayMs: 1 } }).sync();
+    expect(result).to.include({ logs: 9, requests: 4, shrinks: 0, chunkSize: 64 });
+
+    failures.push(reset, reset);
+    const impatient = indexer(f, new IndexerDb(":memory:"), { provider: flaky, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+    await expect(impatient.sync()).to.be.rejectedWith("ECONNRESET");
+
+    failures.push(new Error("invalid params: unknown topic"));
+    await expect(indexer(f, new IndexerDb(":memory:"), { provider: flaky }).sync()).to.be.rejectedWith("invalid params");
+    expect(failures).to.deep.equal([]);
+  });
+
+  it("rolls back reorged blocks and indexes the new chain", async function () {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    const db = new IndexerDb(":memory:");
+    const fork = await networkHelpers.takeSnapshot();
+    const forkBlock = await ethers.provider.getBlockNumber();
+
+    await f.documents.connect(f.operator).anchorDocument(productId, toBytes32("step:shipped"), toBytes32("cid:orphaned"), DocType.ShippingDocument);
+    await mine(2);
+    await indexer(f, db).sync();
+    expect(db.rows("document_anchored", { cidHash: toBytes32("cid:orphaned") })).to.have.length(1);
+
+    // the blocks after the fork are replaced by a chain with another document
+    await fork.restore();
+    await f.documents.connect(f.operator).anchorDocument(productId, toBytes32("step:shipped"), toBytes32("cid:canonical"), DocType.ShippingDocument);
+    await mine(3);
+
+    const result = await indexer(f, db).sync();
+    expect(result.reorg).to.deep.equal({ forkBlock, rowsDropped: 1 });
+    expect(db.rows("document_anchored", { cidHash: toBytes32("cid:orphaned") })).to.deep.equal([]);
+    expect(db.rows("document_anchored", { cidHash: toBytes32("cid:canonical") })).to.have.length(1);
+    expect(db.checkpoint()?.nextBlock).to.equal((await ethers.provider.getBlockNumber()) + 1);
+  });
+
+  it("stays `confirmations` blocks behind the head", async function () {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    const db = new IndexerDb(":memory:");
+    const head = await ethers.provider.getBlockNumber();
+
+    const result = await indexer(f, db, { confirmations: 2 }).sync();
+    expect(result.toBlock).to.equal(head - 2);
+    // advanceStatus and the payment are in the last two blocks
+    expect(db.productRows(productId).map((r) => r.event)).to.deep.equal([
+      "CidAnchored",
+      "CidAnchored",
+      "DocumentAnchored",
+      "ProcessCreated",
+      "ProcessStatusChanged",
+    ]);
+  });
+
+  it("refuses an index built for other contracts", async function () {
+    const f = await networkHelpers.loadFixture(deployFixture);
+    const db = new IndexerDb(":memory:");
+    await indexer(f, db).sync();
+
+    const other = { ...f.addresses, CidRollup: f.addresses.DocumentRegistry };
+    await expect(indexer(f, db, { addresses: other }).sync()).to.be.rejectedWith("indexes other contract addresses");
+  });
+});
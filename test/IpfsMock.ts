@@ -0,0 +1,128 @@
+import { expect } from "chai";
+
+import { of as ipfsOnlyHashOf } from "ipfs-only-hash";
+
+import { IpfsMock, type IpfsMockOptions } from "../src/index.js";
+
+describe("IpfsMock", function () {
+  async function withMock(options: IpfsMockOptions, run: (url: string, mock: IpfsMock) => Promise<void>) {
+    const mock = new IpfsMock(options);
+    try {
+      await run(await mock.start(), mock);
+    } finally {
+      await mock.close();
+    }
+  }
+
+  async function add(url: string, bytes: Buffer, params = "cid-version=1&raw-leaves=true") {
+    const form = new FormData();
+    form.append("file", new Blob([bytes]), "evidence.bin");
+    return fetch(`${url}/api/v0/add?${params}`, { method: "POST", body: form });
+  }
+
+  async function addCid(url: string, bytes: Buffer, params?: string): Promise<string> {
+    const res = await add(url, bytes, params);
+    expect(res.status).to.equal(200);
+    return (JSON.parse((await res.text()).trim()) as { Hash: string }).Hash;
+  }
+
+  function cat(url: string, cid: string) {
+    return fetch(`${url}/api/v0/cat?arg=${cid}`, { method: "POST" });
+  }
+
+  const payload = Buffer.from("fairtrade evidence: harvest record #42");
+
+  it("adds and cats with CIDv1 raw-leaves CIDs matching ipfs-only-hash", async function () {
+    await withMock({}, async (url, mock) => {
+      const cid = await addCid(url, payload);
+
+      expect(cid).to.equal(await ipfsOnlyHashOf(payload, { cidVersion: 1, rawLeaves: true }));
+      expect(cid.startsWith("bafk")).to.equal(true);
+
+      const res = await cat(url, `/ipfs/${cid}`);
+      expect(res.status).to.equal(200);
+      expect(Buffer.from(await res.arrayBuffer()).equals(payload)).to.equal(true);
+      expect(mock.stats).to.include({ adds: 1, cats: 1, storedObjects: 1, storedBytes: payload.length });
+    });
+  });
+
+  it("defaults to CIDv0 and does not store with only-hash", async function () {
+    await withMock({}, async (url, mock) => {
+      const cid = await addCid(url, payload, "only-hash=true");
+
+      expect(cid).to.equal(await ipfsOnlyHashOf(payload));
+      expect(cid.startsWith("Qm")).to.equal(true);
+      expect(mock.get(cid)).to.equal(undefined);
+      expect((await cat(url, cid)).status).to.equal(500);
+    });
+  });
+
+  it("answers unknown objects and wrong methods like Kubo", async function () {
+    await withMock({}, async (url, mock) => {
+      const missing = await cat(url, await ipfsOnlyHashOf(payload, { cidVersion: 1, rawLeaves: true }));
+      expect(missing.status).to.equal(500);
+      expect(await missing.json()).to.deep.equal({ Message: "merkledag: not found", Code: 0, Type: "error" });
+      expect(mock.stats.notFound).to.equal(1);
+
+      expect((await fetch(`${url}/api/v0/version`)).status).to.equal(405);
+      expect((await fetch(`${url}/api/v0/pin/ls`, { method: "POST" })).status).to.equal(404);
+
+      const malformed = await fetch(`${url}/ipfs/%E0%A4%A`);
+      expect(malformed.status).to.equal(400);
+      expect(await malformed.json()).to.deep.equal({
+        Message: "malformed percent-encoding in /ipfs/%E0%A4%A",
+        Code: 0,
+        Type: "error",
+      });
+    });
+  });
+
+  it("injects errors at the configured rate", async function () {
+    await withMock({ errorRate: 1 }, async (url, mock) => {
+      const res = await add(url, payload);
+      expect(res.status).to.equal(500);
+      expect(((await res.json()) as { Message: string }).Message).to.equal("ipfs-mock: injected error");
+      expect((await cat(url, "bafkreiexample")).status).to.equal(500);
+      expect(mock.stats).to.include({ injectedErrors: 2, adds: 0, storedObjects: 0 });
+    });
+  });
+
+  it("returns corrupted bytes that no longer hash to the CID", async function () {
+    await withMock({ corruptionRate: 1 }, async (url, mock) => {
+      const cid = await addCid(url, payload);
+
+      const fetched = Buffer.from(await (await cat(url, cid)).arrayBuffer());
+      expect(fetched.length).to.equal(payload.length);
+      expect(fetched.equals(payload)).to.equal(false);
+      expect(await ipfsOnlyHashOf(fetched, { cidVersion: 1, rawLeaves: true })).to.not.equal(cid);
+      expect(mock.get(cid)!.equals(payload)).to.equal(true);
+      expect(mock.stats.corrupted).to.equal(1);
+    });
+  });
+
+  it("delays responses by the configured latency", async function () {
+    await withMock({ latencyMs: 80 }, async (url) => {
+      const t0 = Date.now();
+      await addCid(url, payload);
+      expect(Date.now() - t0).to.be.at.least(75);
+    });
+  });
+
+  it("draws the same faults for the same seed", async function () {
+    const outcomes = async (seed: number) => {
+      const statuses: number[] = [];
+      await withMock({ seed, errorRate: 0.5 }, async (url) => {
+        for (let i = 0; i < 12; i++) statuses.push((await add(url, payload)).status);
+      });
+      return statuses;
+    };
+
+    const first = await outcomes(7);
+    expect(first).to.include(200).and.to.include(500);
+    expect(await outcomes(7)).to.deep.equal(first);
+  });
+
+  it("rejects out-of-range rates", function () {
+    expect(() => new IpfsMock({ errorRate: 1.5 })).to.throw("errorRate must be between 0 and 1");
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import { Interface } from "ethers";
+import hre, { network } from "hardhat";
+
+import {
+  AuditQueries,
+  CONTRACT_NAMES,
+  ChainIndexer,
+  DocType,
+  FAIRTRADE_EVENTS,
+  INDEXED_EVENTS,
+  IndexerDb,
+  LogDecoder,
+  ProcessStatus,
+  Role,
+  Status,
+  StepType,
+  auditEventFromLog,
+  eventTopic,
+  toBytes32,
+} from "../src/index.js";
+
+import { OPERATOR_ORG, deployFairtrade } from "./helpers/fairtrade.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("Log decoder", function () {
+  const productId = toBytes32("coffee-batch-001");
+  const orgId = OPERATOR_ORG;
+
+  async function deployFixture() {
+    const { operator, others: [producer], registry, documents, manager, rollup, router, addresses, fromBlock } =
+      await deployFairtrade(ethers);
+    await registry.updateActorMetadata(orgId, toBytes32("meta:operator:v2"));
+    await rollup.connect(operator).submitCidBatch([
+      { productId, stepId: toBytes32("step:produced"), cidHash: toBytes32("cid:produced"), stepType: StepType.Produced },
+      { productId, stepId: toBytes32("step:processed"), cidHash: toBytes32("cid:processed"), stepType: StepType.Processed },
+    ]);
+    await documents.connect(operator).anchorDocument(productId, toBytes32("step:processed"), toBytes32("cid:record"), DocType.ProcessingRecord);
+    await manager.connect(operator).createProcess(productId);
+    await manager.connect(operator).advanceStatus(productId, ProcessStatus.InTransit);
+    await router.connect(operator).routePayment(productId, { value: 1000n });
+
+    const logs = await ethers.provider.getLogs({ address: Object.values(addresses), fromBlock });
+    return { operator, producer, addresses, fromBlock, logs };
+  }
+
+  it("has every event of the compiled contracts, with the same signature", async function () {
+    for (const name of CONTRACT_NAMES) {
+      const compiled: string[] = [];
+      new Interface((await hre.artifacts.readArtifact(name)).abi).forEachEvent((f) => compiled.push(f.format("full")));
+      const decoded = FAIRTRADE_EVENTS.filter((e) => e.contract === name).map((e) => e.fragment.format("full"));
+      expect(decoded.sort(), `${name} events (update src/abi.ts)`).to.deep.equal(compiled.sort());
+    }
+
+    // topic0 alone tells the events apart, and the indexer only maps known events
+    expect(new Set(FAIRTRADE_EVENTS.map((e) => e.topic0)).size).to.equal(FAIRTRADE_EVENTS.length);
+    for (const spec of INDEXED_EVENTS) expect(eventTopic(spec.contract, spec.event)).to.match(/^0x[0-9a-f]{64}$/);
+    expect(() => eventTopic("CidRollup", "CidRemoved")).to.throw("Unknown event CidRollup.CidRemoved");
+  });
+
+  it("decodes every log of the five contracts by name", async function () {
+    const { operator, producer, addresses, logs } = await networkHelpers.loadFixture(deployFixture);
+    const decoded = new LogDecoder(addresses).decodeAll(logs);
+    expect(decoded).to.have.length(logs.length);
+    expect(new Set(decoded.map((d) => d.event))).to.include.members([
+      "OwnershipTransferred",
+      "ActorUpdated",
+      "DocPermissionSet",
+      "TransitionSet",
+      "StepPermissionSet",
+      "SplitConfigured",
+      "CidBatchSubmitted",
+      "PaymentReceived",
+      "PaymentRouted",
+    ]);
+
+    const updated = decoded.filter((d) => d.event === "ActorUpdated").at(-1)!;
+    expect(updated.args.toObject()).to.deep.equal({
+      orgIdHash: orgId,
+      wallet: operator.address,
+      role: BigInt(Role.Operator),
+      status: BigInt(Status.Active),
+      metadataHash: toBytes32("meta:operator:v2"),
+    });
+    const batch = decoded.find((d) => d.event === "CidBatchSubmitted")!;
+    expect(batch).to.include({ contract: "CidRollup", signature: "CidBatchSubmitted(address,uint256)" });
+    expect(batch.args.toObject()).to.deep.equal({ submitter: operator.address, count: 2n });
+    const routed = decoded.find((d) => d.event === "PaymentRouted")!;
+    expect(routed.args.toObject()).to.deep.equal({ productId, recipient: producer.address, amount: 700n });
+    const routedLog = logs.find((l) => l.blockNumber === Number(routed.blockNumber) && l.index === Number(routed.logIndex))!;
+    expect(routed.txHash).to.equal(routedLog.transactionHash);
+
+    // the audit events are the ones the indexer builds from the same logs
+    const db = new IndexerDb(":memory:");
+    await new ChainIndexer({ provider: ethers.provider, db, addresses, fromBlock: logs[0].blockNumber }).sync();
+    const indexed = new AuditQueries(db).timeline(productId).events.map(({ timestamp: _t, ...e }) => e);
+    db.close();
+    const fromLogs = decoded.map(auditEventFromLog).filter((e) => e !== undefined);
+    expect(fromLogs.map(({ timestamp: _t, ...e }) => e)).to.deep.equal(indexed);
+    expect(fromLogs.map((e) => e.kind)).to.include("PaymentRouted");
+  });
+
+  it("skips other contracts' logs and rejects logs its ABI cannot decode", async function () {
+    const { addresses, logs } = await networkHelpers.loadFixture(deployFixture);
+    const anchored = logs.find((l) => l.topics[0] === eventTopic("CidRollup", "CidAnchored"))!;
+
+    // an event of another contract at that address, or no FairTrade contract at all
+    expect(new LogDecoder({ DocumentRegistry: addresses.CidRollup }).decode(anchored)).to.equal(undefined);
+    expect(new LogDecoder(addresses).decode({ ...anchored, address: ethers.ZeroAddress })).to.equal(undefined);
+    // any address without a filter
+    expect(new LogDecoder().decode({ ...anchored, address: ethers.ZeroAddress })).to.include({ event: "CidAnchored" });
+
+    // a log emitted with another layout than the ABI's (here: one indexed topic less)
+    const drifted = { ...anchored, topics: anchored.topics.slice(0, 3) };
+    expect(() => new LogDecoder(addresses).decode(drifted)).to.throw(
+      /^Cannot decode CidRollup\.CidAnchored\(bytes32,bytes32,bytes32,uint8,bytes32,address\) at 0x[0-9a-f]{64}:\d+: /,
+    );
+  });
+});
@@ -0,0 +1,687 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+
+import {
+  NATIVE_TOKEN,
+  PayoutMode,
+  Role,
+  Status,
+  bpsShare,
+  parseSplitProfiles,
+  previewPayout,
+  toBytes32,
+  validateSplits,
+} from "../src/index.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("PaymentRouter", function () {
+  const productId = toBytes32("batch-1");
+
+  async function deployFixture() {
+    const [owner, retailer, producer, processor, certifier, outsider] = await ethers.getSigners();
+    const registry = await ethers.deployContract("ActorRegistry", [owner.address]);
+    const registryAddress = await registry.getAddress();
+
+    const retailerOrg = toBytes32("org:retailer");
+    await registry.registerActor(retailerOrg, retailer.address, Role.Retailer, ethers.ZeroHash);
+
+    const recipients = [producer.address, processor.address, certifier.address];
+    const bps = [6000, 2500, 1000];
+    const router = await ethers.deployContract("PaymentRouter", [registryAddress, recipients, bps]);
+
+    const token = await ethers.deployContract("MockERC20", ["Mock USD", "mUSD", 6]);
+    await token.mint(retailer.address, 1_000_000_000n);
+    await token.connect(retailer).approve(await router.getAddress(), ethers.MaxUint256);
+
+    return {
+      registry,
+      registryAddress,
+      router,
+      token,
+      owner,
+      retailer,
+      retailerOrg,
+      producer,
+      processor,
+      certifier,
+      outsider,
+      recipients,
+      bps,
+    };
+  }
+
+  describe("Deployment", function () {
+    it("Should store the splits, totalBps and emit SplitConfigured", async function () {
+      const { router, recipients, bps } = await networkHelpers.loadFixture(deployFixture);
+
+      expect(await router.totalBps()).to.equal(9500n);
+      const splits = await router.getSplits();
+      expect(splits.map((s) => [s.recipient, Number(s.bps)])).to.deep.equal(
+        recipients.map((r, i) => [r, bps[i]]),
+      );
+
+      for (let i = 0; i < recipients.length; i++) {
+        await expect(router.deploymentTransaction())
+          .to.emit(router, "SplitConfigured")
+          .withArgs(recipients[i], bps[i]);
+      }
+    });
+
+    it("Should accept splits totalling exactly 10000 bps", async function () {
+      const { registryAddress, producer, processor } = await networkHelpers.loadFixture(deployFixture);
+      const router = await ethers.deployContract("PaymentRouter", [
+        registryAddress,
+        [producer.address, processor.address],
+        [7000, 3000],
+      ]);
+
+      expect(await router.totalBps()).to.equal(10_000n);
+    });
+
+    it("Should reject invalid split configurations", async function () {
+      const { registryAddress, producer, processor } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        ethers.deployContract("PaymentRouter", [ethers.ZeroAddress, [producer.address], [100]]),
+      ).to.be.revertedWith("PaymentRouter: actorRegistry is zero");
+      await expect(
+        ethers.deployContract("PaymentRouter", [registryAddress, [producer.address], [100, 200]]),
+      ).to.be.revertedWith("PaymentRouter: length mismatch");
+      await expect(
+        ethers.deployContract("PaymentRouter", [registryAddress, [], []]),
+      ).to.be.revertedWith("PaymentRouter: empty splits");
+      await expect(
+        ethers.deployContract("PaymentRouter", [registryAddress, [ethers.ZeroAddress], [100]]),
+      ).to.be.revertedWith("PaymentRouter: zero recipient");
+      await expect(
+        ethers.deployContract("PaymentRouter", [registryAddress, [producer.address], [0]]),
+      ).to.be.revertedWith("PaymentRouter: zero bps");
+      await expect(
+        ethers.deployContract("PaymentRouter", [
+          registryAddress,
+          [producer.address, processor.address],
+          [6000, 4001],
+        ]),
+      ).to.be.revertedWith("PaymentRouter: total bps > 10000");
+    });
+  });
+
+  describe("routePayment", function () {
+    it("Should split the payment, emit PaymentReceived + PaymentRouted and keep the remainder", async function () {
+      const { router, retailer, producer, processor, certifier, recipients, bps } =
+        await networkHelpers.loadFixture(deployFixture);
+      const value = ethers.parseEther("1");
+      const shares = bps.map((b) => bpsShare(value, b));
+      const remainder = value - shares.reduce((a, b) => a + b, 0n);
+
+      const tx = router.connect(retailer).routePayment(productId, { value });
+
+      await expect(tx).to.emit(router, "PaymentReceived").withArgs(productId, retailer.address, value);
+      for (let i = 0; i < recipients.length; i++) {
+        await expect(tx).to.emit(router, "PaymentRouted").withArgs(productId, recipients[i], shares[i]);
+      }
+      await expect(tx).to.changeEtherBalances(
+        ethers,
+        [retailer, producer, processor, certifier, router],
+        [-value, ...shares, remainder],
+      );
+    });
+
+    it("Should round each share down and leave the dust in the router", async function () {
+      const { registryAddress, retailer, producer, processor, certifier } =
+        await networkHelpers.loadFixture(deployFixture);
+      const router = await ethers.deployContract("PaymentRouter", [
+        registryAddress,
+        [producer.address, processor.address, certifier.address],
+        [3333, 3333, 3334],
+      ]);
+
+      // 3333 * 10 / 10000 = 3.333 -> 3; 3334 * 10 / 10000 = 3.334 -> 3
+      await expect(router.connect(retailer).routePayment(productId, { value: 10n })).to.changeEtherBalances(
+        ethers,
+        [producer, processor, certifier, router],
+        [3n, 3n, 3n, 1n],
+      );
+      expect(bpsShare(10n, 3334)).to.equal(3n);
+    });
+
+    it("Should skip zero shares without emitting PaymentRouted", async function () {
+      const { router, retailer } = await networkHelpers.loadFixture(deployFixture);
+
+      // 1 wei: every share rounds down to 0, the whole payment stays in the router
+      const tx = router.connect(retailer).routePayment(productId, { value: 1n });
+
+      await expect(tx).to.emit(router, "PaymentReceived").withArgs(productId, retailer.address, 1n);
+      await expect(tx).not.to.emit(router, "PaymentRouted");
+      await expect(tx).to.changeEtherBalances(ethers, [router], [1n]);
+    });
+
+    it("Should reject a zero-value payment", async function () {
+      const { router, retailer } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(router.connect(retailer).routePayment(productId, { value: 0n })).to.be.revertedWith(
+        "PaymentRouter: zero value",
+      );
+    });
+
+    it("Should reject unregistered and inactive payers", async function () {
+      const { registry, router, retailer, retailerOrg, outsider } =
+        await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        router.connect(outsider).routePayment(productId, { value: 1000n }),
+      ).to.be.revertedWith("PaymentRouter: actor not active");
+
+      await registry.updateActorStatus(retailerOrg, Status.Suspended);
+      await expect(
+        router.connect(retailer).routePayment(productId, { value: 1000n }),
+      ).to.be.revertedWith("PaymentRouter: actor not active");
+    });
+
+    it("Should credit a share that cannot be pushed instead of blocking the other recipients", async function () {
+      const { registryAddress, retailer, producer } = await networkHelpers.loadFixture(deployFixture);
+      // ActorRegistry has no receive/fallback, so it rejects plain ETH transfers
+      const router = await ethers.deployContract("PaymentRouter", [
+        registryAddress,
+        [producer.address, registryAddress],
+        [5000, 5000],
+      ]);
+
+      const tx = router.connect(retailer).routePayment(productId, { value: 1000n });
+      await expect(tx).to.emit(router, "PaymentRouted").withArgs(productId, producer.address, 500n);
+      await expect(tx)
+        .to.emit(router, "PaymentCredited")
+        .withArgs(productId, NATIVE_TOKEN, registryAddress, 500n);
+      await expect(tx).to.changeEtherBalances(ethers, [producer, router], [500n, 500n]);
+
+      expect(await router.withdrawable(NATIVE_TOKEN, registryAddress)).to.equal(500n);
+      expect(await router.sweepable(NATIVE_TOKEN)).to.equal(0n);
+    });
+
+    it("Should push ETH with a capped stipend and credit a payee that needs more gas", async function () {
+      const { registryAddress, retailer, producer } = await networkHelpers.loadFixture(deployFixture);
+      const payee = await ethers.deployContract("MockPayee");
+      const payeeAddress = await payee.getAddress();
+      const router = await ethers.deployContract("PaymentRouter", [
+        registryAddress,
+        [producer.address, payeeAddress],
+        [5000, 5000],
+      ]);
+      const routerAddress = await router.getAddress();
+      expect(await router.PUSH_GAS_STIPEND()).to.equal(10_000n);
+
+      // the payee's first receipt writes a fresh slot, more than the stipend allows
+      const tx = router.connect(retailer).routePayment(productId, { value: 1000n });
+      await expect(tx).to.emit(router, "PaymentRouted").withArgs(productId, producer.address, 500n);
+      await expect(tx).to.emit(router, "PaymentCredited").withArgs(productId, NATIVE_TOKEN, payeeAddress, 500n);
+      await expect(payee.withdrawFrom(routerAddress, NATIVE_TOKEN))
+        .to.emit(router, "Withdrawn")
+        .withArgs(NATIVE_TOKEN, payeeAddress, 500n);
+      expect(await payee.received()).to.equal(500n);
+
+      // a payee burning every gas unit it gets costs the payer at most the stipend
+      await payee.setSpin(true);
+      const burnt = await router.connect(retailer).routePayment(productId, { value: 1000n, gasLimit: 5_000_000n });
+      await expect(burnt).to.emit(router, "PaymentCredited").withArgs(productId, NATIVE_TOKEN, payeeAddress, 500n);
+      expect((await burnt.wait())!.gasUsed).to.be.lessThan(150_000n);
+    });
+  });
+
+  describe("Pull mode", function () {
+    async function pullFixture() {
+      const base = await deployFixture();
+      await base.router.setPayoutMode(PayoutMode.Pull);
+      return base;
+    }
+
+    it("Should only let the ActorRegistry owner change the payout mode", async function () {
+      const { router, retailer } = await networkHelpers.loadFixture(deployFixture);
+
+      expect(await router.payoutMode()).to.equal(PayoutMode.Push);
+      await expect(router.connect(retailer).setPayoutMode(PayoutMode.Pull)).to.be.revertedWith(
+        "PaymentRouter: only registry owner",
+      );
+      await expect(router.setPayoutMode(PayoutMode.Pull)).to.emit(router, "PayoutModeSet").withArgs(PayoutMode.Pull);
+      expect(await router.payoutMode()).to.equal(PayoutMode.Pull);
+    });
+
+    it("Should credit every share and keep the ETH in the router", async function () {
+      const { router, retailer, recipients, bps } = await networkHelpers.loadFixture(pullFixture);
+      const value = ethers.parseEther("1");
+      const shares = bps.map((b) => bpsShare(value, b));
+
+      const tx = router.connect(retailer).routePayment(productId, { value });
+      for (let i = 0; i < recipients.length; i++) {
+        await expect(tx)
+          .to.emit(router, "PaymentCredited")
+          .withArgs(productId, NATIVE_TOKEN, recipients[i], shares[i]);
+      }
+      await expect(tx).not.to.emit(router, "PaymentRouted");
+      await expect(tx).to.changeEtherBalances(ethers, [retailer, router], [-value, value]);
+
+      for (let i = 0; i < recipients.length; i++) {
+        expect(await router.withdrawable(NATIVE_TOKEN, recipients[i])).to.equal(shares[i]);
+      }
+      expect(await router.totalWithdrawable(NATIVE_TOKEN)).to.equal(shares.reduce((a, b) => a + b, 0n));
+    });
+
+    it("Should let recipients withdraw their accumulated balance once", async function () {
+      const { router, retailer, producer } = await networkHelpers.loadFixture(pullFixture);
+      const value = ethers.parseEther("1");
+      await router.connect(retailer).routePayment(productId, { value });
+      await router.connect(retailer).routePayment(toBytes32("batch-2"), { value });
+      const owed = 2n * bpsShare(value, 6000);
+
+      await expect(router.connect(producer).withdraw(NATIVE_TOKEN))
+        .to.emit(router, "Withdrawn")
+        .withArgs(NATIVE_TOKEN, producer.address, owed);
+      expect(await router.withdrawable(NATIVE_TOKEN, producer.address)).to.equal(0n);
+
+      await expect(router.connect(producer).withdraw(NATIVE_TOKEN)).to.be.revertedWith(
+        "PaymentRouter: nothing to withdraw",
+      );
+    });
+
+    it("Should keep withdrawable balances out of the sweep", async function () {
+      const { router, owner, retailer, outsider } = await networkHelpers.loadFixture(pullFixture);
+      const value = 1000n;
+      await router.connect(retailer).routePayment(productId, { value });
+
+      // 95% credited, 5% is remainder
+      expect(await router.sweepable(NATIVE_TOKEN)).to.equal(50n);
+      const tx = router.sweepRemainder(NATIVE_TOKEN, outsider.address);
+      await expect(tx).to.emit(router, "RemainderSwept").withArgs(NATIVE_TOKEN, outsider.address, 50n);
+      await expect(tx).to.changeEtherBalances(ethers, [router, outsider, owner], [-50n, 50n, 0n]);
+      expect(await router.sweepable(NATIVE_TOKEN)).to.equal(0n);
+    });
+  });
+
+  describe("ERC-20 payments", function () {
+    it("Should split a token payment in push mode", async function () {
+      const { router, token, retailer, recipients, bps } = await networkHelpers.loadFixture(deployFixture);
+      const tokenAddress = await token.getAddress();
+      const amount = 1_000_000n;
+      const shares = bps.map((b) => bpsShare(amount, b));
+
+      const tx = router.connect(retailer).routeTokenPayment(productId, tokenAddress, amount);
+      await expect(tx)
+        .to.emit(router, "TokenPaymentReceived")
+        .withArgs(productId, tokenAddress, retailer.address, amount);
+      for (let i = 0; i < recipients.length; i++) {
+        await expect(tx)
+          .to.emit(router, "TokenPaymentRouted")
+          .withArgs(productId, tokenAddress, recipients[i], shares[i]);
+      }
+      await tx;
+
+      for (let i = 0; i < recipients.length; i++) {
+        expect(await token.balanceOf(recipients[i])).to.equal(shares[i]);
+      }
+      expect(await token.balanceOf(await router.getAddress())).to.equal(amount - shares.reduce((a, b) => a + b, 0n));
+      expect(await router.sweepable(tokenAddress)).to.equal(50_000n);
+    });
+
+    it("Should credit token shares in pull mode and pay them out on withdraw", async function () {
+      const { router, token, retailer, processor } = await networkHelpers.loadFixture(deployFixture);
+      const tokenAddress = await token.getAddress();
+      await router.setPayoutMode(PayoutMode.Pull);
+
+      await expect(router.connect(retailer).routeTokenPayment(productId, tokenAddress, 1_000_000n))
+        .to.emit(router, "PaymentCredited")
+        .withArgs(productId, tokenAddress, processor.address, 250_000n);
+      expect(await token.balanceOf(processor.address)).to.equal(0n);
+
+      await expect(router.connect(processor).withdraw(tokenAddress))
+        .to.emit(router, "Withdrawn")
+        .withArgs(tokenAddress, processor.address, 250_000n);
+      expect(await token.balanceOf(processor.address)).to.equal(250_000n);
+      // the ETH balance is tracked separately
+      await expect(router.connect(processor).withdraw(NATIVE_TOKEN)).to.be.revertedWith(
+        "PaymentRouter: nothing to withdraw",
+      );
+    });
+
+    it("Should credit a blocked recipient instead of reverting the payment", async function () {
+      const { router, token, retailer, producer, certifier } = await networkHelpers.loadFixture(deployFixture);
+      const tokenAddress = await token.getAddress();
+      await token.setBlocked(certifier.address, true);
+
+      const tx = router.connect(retailer).routeTokenPayment(productId, tokenAddress, 1_000_000n);
+      await expect(tx)
+        .to.emit(router, "TokenPaymentRouted")
+        .withArgs(productId, tokenAddress, producer.address, 600_000n);
+      await expect(tx)
+        .to.emit(router, "PaymentCredited")
+        .withArgs(productId, tokenAddress, certifier.address, 100_000n);
+
+      // withdrawing still fails while the token blocks the recipient, and the balance is kept
+      await expect(router.connect(certifier).withdraw(tokenAddress)).to.be.revertedWith(
+        "PaymentRouter: transfer failed",
+      );
+      await token.setBlocked(certifier.address, false);
+      await router.connect(certifier).withdraw(tokenAddress);
+      expect(await token.balanceOf(certifier.address)).to.equal(100_000n);
+    });
+
+    it("Should reject invalid token payments", async function () {
+      const { router, token, retailer, outsider } = await networkHelpers.loadFixture(deployFixture);
+      const tokenAddress = await token.getAddress();
+
+      await expect(
+        router.connect(retailer).routeTokenPayment(productId, ethers.ZeroAddress, 1n),
+      ).to.be.revertedWith("PaymentRouter: zero token");
+      await expect(
+        router.connect(retailer).routeTokenPayment(productId, tokenAddress, 0n),
+      ).to.be.revertedWith("PaymentRouter: zero value");
+      await expect(
+        router.connect(outsider).routeTokenPayment(productId, tokenAddress, 1n),
+      ).to.be.revertedWith("PaymentRouter: actor not active");
+
+      await token.connect(retailer).approve(await router.getAddress(), 10n);
+      await expect(
+        router.connect(retailer).routeTokenPayment(productId, tokenAddress, 11n),
+      ).to.be.revertedWith("PaymentRouter: transferFrom failed");
+      // an EOA is not a token
+      await expect(
+        router.connect(retailer).routeTokenPayment(productId, outsider.address, 1n),
+      ).to.be.revertedWith("PaymentRouter: token has no code");
+    });
+  });
+
+  describe("sweepRemainder", function () {
+    it("Should only let the ActorRegistry owner sweep, to a non-zero address", async function () {
+      const { router, retailer } = await networkHelpers.loadFixture(deployFixture);
+      await router.connect(retailer).routePayment(productId, { value: 1000n });
+
+      await expect(router.connect(retailer).sweepRemainder(NATIVE_TOKEN, retailer.address)).to.be.revertedWith(
+        "PaymentRouter: only registry owner",
+      );
+      await expect(router.sweepRemainder(NATIVE_TOKEN, ethers.ZeroAddress)).to.be.revertedWith(
+        "PaymentRouter: zero recipient",
+      );
+    });
+
+    it("Should sweep ETH and token dust and then have nothing left", async function () {
+      const { router, token, retailer, outsider } = await networkHelpers.loadFixture(deployFixture);
+      const tokenAddress = await token.getAddress();
+      await router.connect(retailer).routePayment(productId, { value: 1000n });
+      await router.connect(retailer).routeTokenPayment(productId, tokenAddress, 1000n);
+
+      await expect(router.sweepRemainder(NATIVE_TOKEN, outsider.address)).to.changeEtherBalances(
+        ethers,
+        [router, outsider],
+        [-50n, 50n],
+      );
+      await expect(router.sweepRemainder(tokenAddress, outsider.address))
+        .to.emit(router, "RemainderSwept")
+        .withArgs(tokenAddress, outsider.address, 50n);
+      expect(await token.balanceOf(outsider.address)).to.equal(50n);
+
+      await expect(router.sweepRemainder(NATIVE_TOKEN, outsider.address)).to.be.revertedWith(
+        "PaymentRouter: nothing to sweep",
+      );
+    });
+  });
+
+  describe("Split profiles", function () {
+    const profileId = toBytes32("profile:coop-a:fairtrade");
+
+    // the certifier's org created the processes of batch-1 and batch-2
+    async function profileFixture() {
+      const base = await deployFixture();
+      await base.registry.registerActor(
+        toBytes32("org:certifier"),
+        base.certifier.address,
+        Role.Certifier,
+        ethers.ZeroHash,
+      );
+      const manager = await ethers.deployContract("ProcessManager", [base.registryAddress]);
+      await manager.connect(base.certifier).createProcessBatch([productId, toBytes32("batch-2")]);
+      await base.router.setProcessManager(await manager.getAddress());
+      return { ...base, manager };
+    }
+
+    it("Should let an active Certifier create a profile and emit its splits", async function () {
+      const { router, certifier, producer, outsider } = await networkHelpers.loadFixture(profileFixture);
+      const tx = router.connect(certifier).createSplitProfile(profileId, [producer.address, outsider.address], [7000, 2000]);
+
+      await expect(tx).to.emit(router, "SplitProfileCreated").withArgs(profileId, certifier.address, 9000);
+      await expect(tx).to.emit(router, "ProfileSplitConfigured").withArgs(profileId, producer.address, 7000);
+      await expect(tx).to.emit(router, "ProfileSplitConfigured").withArgs(profileId, outsider.address, 2000);
+
+      expect(await router.profileTotalBps(profileId)).to.equal(9000n);
+      const splits = await router.getProfileSplits(profileId);
+      expect(splits.map((s) => [s.recipient, Number(s.bps)])).to.deep.equal([
+        [producer.address, 7000],
+        [outsider.address, 2000],
+      ]);
+    });
+
+    it("Should only let active Operators and Certifiers manage profiles", async function () {
+      const { registry, router, owner, retailer, certifier, outsider, producer } =
+        await networkHelpers.loadFixture(profileFixture);
+
+      for (const signer of [owner, retailer, outsider]) {
+        await expect(
+          router.connect(signer).createSplitProfile(profileId, [producer.address], [100]),
+        ).to.be.revertedWith("PaymentRouter: not profile manager");
+      }
+
+      await registry.updateActorStatus(toBytes32("org:certifier"), Status.Suspended);
+      await expect(
+        router.connect(certifier).createSplitProfile(profileId, [producer.address], [100]),
+      ).to.be.revertedWith("PaymentRouter: not profile manager");
+
+      await registry.registerActor(toBytes32("org:operator"), owner.address, Role.Operator, ethers.ZeroHash);
+      await expect(router.createSplitProfile(profileId, [producer.address], [100])).to.emit(
+        router,
+        "SplitProfileCreated",
+      );
+    });
+
+    it("Should reject invalid, duplicate and unknown profiles", async function () {
+      const { router, certifier, producer, processor } = await networkHelpers.loadFixture(profileFixture);
+      const asCertifier = router.connect(certifier);
+
+      await expect(asCertifier.createSplitProfile(ethers.ZeroHash, [producer.address], [100])).to.be.revertedWith(
+        "PaymentRouter: zero profile",
+      );
+      await expect(asCertifier.createSplitProfile(profileId, [producer.address], [])).to.be.revertedWith(
+        "PaymentRouter: length mismatch",
+      );
+      await expect(asCertifier.createSplitProfile(profileId, [], [])).to.be.revertedWith(
+        "PaymentRouter: empty splits",
+      );
+      await expect(asCertifier.createSplitProfile(profileId, [ethers.ZeroAddress], [100])).to.be.revertedWith(
+        "PaymentRouter: zero recipient",
+      );
+      await expect(asCertifier.createSplitProfile(profileId, [producer.address], [0])).to.be.revertedWith(
+        "PaymentRouter: zero bps",
+      );
+      await expect(
+        asCertifier.createSplitProfile(profileId, [producer.address, processor.address], [6000, 4001]),
+      ).to.be.revertedWith("PaymentRouter: total bps > 10000");
+      await expect(asCertifier.updateSplitProfile(profileId, [producer.address], [100])).to.be.revertedWith(
+        "PaymentRouter: unknown profile",
+      );
+      await expect(asCertifier.setProductProfile(productId, profileId)).to.be.revertedWith(
+        "PaymentRouter: unknown profile",
+      );
+
+      await asCertifier.createSplitProfile(profileId, [producer.address], [100]);
+      await expect(asCertifier.createSplitProfile(profileId, [producer.address], [100])).to.be.revertedWith(
+        "PaymentRouter: profile exists",
+      );
+    });
+
+    it("Should replace every split on update", async function () {
+      const { router, certifier, producer, processor, outsider } = await networkHelpers.loadFixture(profileFixture);
+      const asCertifier = router.connect(certifier);
+      await asCertifier.createSplitProfile(profileId, [producer.address, processor.address], [5000, 5000]);
+
+      const tx = asCertifier.updateSplitProfile(profileId, [outsider.address], [8000]);
+      await expect(tx).to.emit(router, "SplitProfileUpdated").withArgs(profileId, certifier.address, 8000);
+      await expect(tx).to.emit(router, "ProfileSplitConfigured").withArgs(profileId, outsider.address, 8000);
+
+      const splits = await router.getProfileSplits(profileId);
+      expect(splits.map((s) => [s.recipient, Number(s.bps)])).to.deep.equal([[outsider.address, 8000]]);
+      expect(await router.profileTotalBps(profileId)).to.equal(8000n);
+    });
+
+    it("Should pay a bound product with its profile and other products with the default splits", async function () {
+      const { router, token, certifier, retailer, producer, processor, outsider, recipients } =
+        await networkHelpers.loadFixture(profileFixture);
+      const asCertifier = router.connect(certifier);
+      const other = toBytes32("batch-2");
+      await asCertifier.createSplitProfile(profileId, [outsider.address, producer.address], [7000, 3000]);
+
+      await expect(asCertifier.setProductProfile(productId, profileId))
+        .to.emit(router, "ProductProfileSet")
+        .withArgs(productId, profileId, certifier.address);
+      expect(await router.productProfile(productId)).to.equal(profileId);
+      expect((await router.splitsFor(other)).map((s) => s.recipient)).to.deep.equal(recipients);
+
+      await expect(router.connect(retailer).routePayment(productId, { value: 1000n })).to.changeEtherBalances(
+        ethers,
+        [outsider, producer, processor],
+        [700n, 300n, 0n],
+      );
+      await expect(router.connect(retailer).routeTokenPayment(other, await token.getAddress(), 1000n))
+        .to.emit(router, "TokenPaymentRouted")
+        .withArgs(other, await token.getAddress(), producer.address, 600n);
+
+      await expect(asCertifier.setProductProfile(productId, ethers.ZeroHash))
+        .to.emit(router, "ProductProfileSet")
+        .withArgs(productId, ethers.ZeroHash, certifier.address);
+      await expect(router.connect(retailer).routePayment(productId, { value: 1000n })).to.changeEtherBalances(
+        ethers,
+        [outsider, producer],
+        [0n, 600n],
+      );
+    });
+
+    it("Should only let the owning org or the registry owner update, bind and rebind a profile", async function () {
+      const { registry, router, owner, certifier, producer, processor, outsider } =
+        await networkHelpers.loadFixture(profileFixture);
+      const certifierOrg = toBytes32("org:certifier");
+      const rivalOrg = toBytes32("org:rival");
+      const rivalProfile = toBytes32("profile:rival");
+      // a second operator, from another org, with a profile paying itself
+      await registry.registerActor(rivalOrg, outsider.address, Role.Operator, ethers.ZeroHash);
+      const asRival = router.connect(outsider);
+      await asRival.createSplitProfile(rivalProfile, [outsider.address], [10_000]);
+
+      await router.connect(certifier).createSplitProfile(profileId, [producer.address], [9000]);
+      await router.connect(certifier).setProductProfile(productId, profileId);
+      expect(await router.profileOwner(profileId)).to.equal(certifierOrg);
+      expect(await router.profileOwner(rivalProfile)).to.equal(rivalOrg);
+
+      await expect(asRival.updateSplitProfile(profileId, [outsider.address], [9000])).to.be.revertedWith(
+        "PaymentRouter: not profile owner",
+      );
+      // neither rebinding the certifier's product to its own profile nor unbinding it
+      await expect(asRival.setProductProfile(productId, rivalProfile)).to.be.revertedWith(
+        "PaymentRouter: not profile owner",
+      );
+      await expect(asRival.setProductProfile(productId, ethers.ZeroHash)).to.be.revertedWith(
+        "PaymentRouter: not profile owner",
+      );
+      // nor binding the certifier's unbound product to the certifier's profile
+      await expect(asRival.setProductProfile(toBytes32("batch-2"), profileId)).to.be.revertedWith(
+        "PaymentRouter: not product owner",
+      );
+      await expect(router.connect(certifier).setProductProfile(toBytes32("batch-2"), rivalProfile)).to.be.revertedWith(
+        "PaymentRouter: not profile owner",
+      );
+      expect(await router.productProfile(productId)).to.equal(profileId);
+
+      // another wallet of the owning org, and the registry owner, may
+      await registry.addOrgWallet(certifierOrg, processor.address);
+      await router.connect(processor).updateSplitProfile(profileId, [producer.address], [8000]);
+      expect(await router.profileTotalBps(profileId)).to.equal(8000n);
+      await expect(router.connect(owner).setProductProfile(productId, rivalProfile))
+        .to.emit(router, "ProductProfileSet")
+        .withArgs(productId, rivalProfile, owner.address);
+      await router.connect(owner).updateSplitProfile(rivalProfile, [producer.address], [5000]);
+      expect(await router.profileTotalBps(rivalProfile)).to.equal(5000n);
+    });
+
+    it("Should only let the org that created an unbound product's process, or the registry owner, bind it", async function () {
+      const { registry, router, manager, owner, certifier, outsider, registryAddress } =
+        await networkHelpers.loadFixture(profileFixture);
+      const rivalProfile = toBytes32("profile:rival");
+      const rivalBatch = toBytes32("batch:rival");
+      await registry.registerActor(toBytes32("org:rival"), outsider.address, Role.Operator, ethers.ZeroHash);
+      const asRival = router.connect(outsider);
+      await asRival.createSplitProfile(rivalProfile, [outsider.address], [10_000]);
+
+      // a product of another org, and one with no process at all
+      for (const product of [productId, toBytes32("batch:unregistered")]) {
+        await expect(asRival.setProductProfile(product, rivalProfile)).to.be.revertedWith("PaymentRouter: not product owner");
+      }
+      await manager.connect(outsider).createProcess(rivalBatch);
+      await expect(asRival.setProductProfile(rivalBatch, rivalProfile))
+        .to.emit(router, "ProductProfileSet")
+        .withArgs(rivalBatch, rivalProfile, outsider.address);
+      await expect(router.connect(certifier).setProductProfile(rivalBatch, ethers.ZeroHash)).to.be.revertedWith(
+        "PaymentRouter: not profile owner",
+      );
+      expect(await router.productProfile(productId)).to.equal(ethers.ZeroHash);
+
+      // without a ProcessManager only the registry owner binds unbound products
+      const unwired = await ethers.deployContract("PaymentRouter", [registryAddress, [owner.address], [10_000]]);
+      await unwired.connect(outsider).createSplitProfile(rivalProfile, [outsider.address], [10_000]);
+      await expect(unwired.connect(outsider).setProductProfile(rivalBatch, rivalProfile)).to.be.revertedWith(
+        "PaymentRouter: no process manager",
+      );
+      await expect(unwired.connect(outsider).setProcessManager(await manager.getAddress())).to.be.revertedWith(
+        "PaymentRouter: only registry owner",
+      );
+      await expect(unwired.setProductProfile(rivalBatch, rivalProfile)).to.emit(unwired, "ProductProfileSet");
+    });
+
+    it("Should preview exactly what the router pays for a profile parsed from CSV", async function () {
+      const { router, certifier, retailer, producer, processor, outsider } =
+        await networkHelpers.loadFixture(profileFixture);
+      const [spec] = parseSplitProfiles(
+        [
+          "profile,recipient,bps,products",
+          `coop-a,${producer.address},3333,batch-1`,
+          `coop-a,${processor.address},3333,`,
+          `coop-a,${outsider.address},3333,`,
+        ].join("\n"),
+        "csv",
+      );
+      expect(validateSplits(spec.splits)).to.deep.equal([]);
+      expect(spec.products).to.deep.equal(["batch-1"]);
+
+      await router.connect(certifier).createSplitProfile(
+        spec.profileId,
+        spec.splits.map((s) => s.recipient),
+        spec.splits.map((s) => s.bps),
+      );
+      await router.connect(certifier).setProductProfile(toBytes32(spec.products[0]), spec.profileId);
+
+      const amount = 1_000_003n;
+      const preview = previewPayout(spec.splits, amount);
+      const routerAddress = await router.getAddress();
+      await expect(router.connect(retailer).routePayment(productId, { value: amount })).to.changeEtherBalances(
+        ethers,
+        [producer, processor, outsider, routerAddress],
+        [...preview.rows.map((r) => r.share), preview.remainder],
+      );
+    });
+  });
+
+  it("Should accept plain ETH top-ups", async function () {
+    const { router, outsider } = await networkHelpers.loadFixture(deployFixture);
+
+    await expect(
+      outsider.sendTransaction({ to: await router.getAddress(), value: 500n }),
+    ).to.changeEtherBalances(ethers, [router], [500n]);
+  });
+});
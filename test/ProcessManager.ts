@@ -0,0 +1,449 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+
+import {
+  DEFAULT_TRANSITIONS,
+  ProcessManagerClient,
+  ProcessStatus,
+  Role,
+  Status,
+  readTransitionGraph,
+  toBytes32,
+  typesToMask,
+  validateScenario,
+} from "../src/index.js";
+
+const { ethers, networkHelpers } = await network.connect({
+  network: "hardhatOp",
+  chainType: "op",
+});
+
+describe("ProcessManager", function () {
+  const productId = toBytes32("batch-1");
+
+  async function deployFixture() {
+    const [owner, producer, logistics, retailer, regulator, certifier, outsider] = await ethers.getSigners();
+    const registry = await ethers.deployContract("ActorRegistry", [owner.address]);
+    const manager = await ethers.deployContract("ProcessManager", [await registry.getAddress()]);
+
+    const producerOrg = toBytes32("org:producer");
+    const logisticsOrg = toBytes32("org:logistics");
+    await registry.registerActor(producerOrg, producer.address, Role.Producer, ethers.ZeroHash);
+    await registry.registerActor(logisticsOrg, logistics.address, Role.Logistics, ethers.ZeroHash);
+    await registry.registerActor(toBytes32("org:retailer"), retailer.address, Role.Retailer, ethers.ZeroHash);
+    await registry.registerActor(toBytes32("org:regulator"), regulator.address, Role.Regulator, ethers.ZeroHash);
+    await registry.registerActor(toBytes32("org:certifier"), certifier.address, Role.Certifier, ethers.ZeroHash);
+
+    return {
+      registry,
+      manager,
+      owner,
+      producer,
+      logistics,
+      retailer,
+      regulator,
+      certifier,
+      outsider,
+      producerOrg,
+      logisticsOrg,
+    };
+  }
+
+  async function createdFixture() {
+    const base = await deployFixture();
+    await base.manager.connect(base.producer).createProcess(productId);
+    return base;
+  }
+
+  it("Should reject a zero ActorRegistry address", async function () {
+    await expect(
+      ethers.deployContract("ProcessManager", [ethers.ZeroAddress]),
+    ).to.be.revertedWith("ProcessManager: actorRegistry is zero");
+  });
+
+  describe("createProcess", function () {
+    it("Should create a process and emit ProcessCreated + ProcessStatusChanged", async function () {
+      const { manager, producer, producerOrg } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(manager.connect(producer).createProcess(productId))
+        .to.emit(manager, "ProcessCreated")
+        .withArgs(productId, producerOrg)
+        .and.to.emit(manager, "ProcessStatusChanged")
+        .withArgs(productId, ProcessStatus.Unknown, ProcessStatus.Created, producerOrg, producer.address);
+
+      expect(await manager.getStatus(productId)).to.equal(ProcessStatus.Created);
+      expect(await manager.getProcess(productId)).to.deep.equal([
+        BigInt(ProcessStatus.Created),
+        producerOrg,
+      ]);
+    });
+
+    it("Should reject a zero productId", async function () {
+      const { manager, producer } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        manager.connect(producer).createProcess(ethers.ZeroHash),
+      ).to.be.revertedWith("ProcessManager: zero productId");
+    });
+
+    it("Should reject an existing productId", async function () {
+      const { manager, logistics } = await networkHelpers.loadFixture(createdFixture);
+
+      await expect(manager.connect(logistics).createProcess(productId)).to.be.revertedWith(
+        "ProcessManager: already exists",
+      );
+    });
+
+    it("Should reject unregistered and inactive actors", async function () {
+      const { registry, manager, producer, outsider, producerOrg } =
+        await networkHelpers.loadFixture(deployFixture);
+
+      await expect(manager.connect(outsider).createProcess(productId)).to.be.revertedWith(
+        "ProcessManager: actor not active",
+      );
+
+      await registry.updateActorStatus(producerOrg, Status.Suspended);
+      await expect(manager.connect(producer).createProcess(productId)).to.be.revertedWith(
+        "ProcessManager: actor not active",
+      );
+    });
+  });
+
+  describe("advanceStatus", function () {
+    it("Should advance the status and emit ProcessStatusChanged with the caller's org", async function () {
+      const { manager, logistics, retailer, logisticsOrg, producerOrg } =
+        await networkHelpers.loadFixture(createdFixture);
+
+      await expect(manager.connect(logistics).advanceStatus(productId, ProcessStatus.InTransit))
+        .to.emit(manager, "ProcessStatusChanged")
+        .withArgs(
+          productId,
+          ProcessStatus.Created,
+          ProcessStatus.InTransit,
+          logisticsOrg,
+          logistics.address,
+        );
+
+      // the creator org is not overwritten by later actors
+      expect(await manager.getProcess(productId)).to.deep.equal([
+        BigInt(ProcessStatus.InTransit),
+        producerOrg,
+      ]);
+
+      await manager.connect(retailer).advanceStatus(productId, ProcessStatus.AtRetail);
+      expect(await manager.getStatus(productId)).to.equal(ProcessStatus.AtRetail);
+    });
+
+    it("Should reject transitions that are not in the graph", async function () {
+      const { manager, producer, regulator } = await networkHelpers.loadFixture(createdFixture);
+
+      // skipping ahead is no longer implied by enum order
+      await expect(
+        manager.connect(producer).advanceStatus(productId, ProcessStatus.Sold),
+      ).to.be.revertedWith("ProcessManager: transition not allowed");
+      await expect(
+        manager.connect(regulator).advanceStatus(productId, ProcessStatus.Certified),
+      ).to.be.revertedWith("ProcessManager: transition not allowed");
+      await expect(
+        manager.connect(producer).advanceStatus(productId, ProcessStatus.Created),
+      ).to.be.revertedWith("ProcessManager: transition not allowed");
+    });
+
+    it("Should reject roles that may not perform the transition", async function () {
+      const { manager, producer, logistics } = await networkHelpers.loadFixture(createdFixture);
+
+      await manager.connect(logistics).advanceStatus(productId, ProcessStatus.InTransit);
+
+      await expect(
+        manager.connect(producer).advanceStatus(productId, ProcessStatus.AtRetail),
+      ).to.be.revertedWith("ProcessManager: role not allowed");
+      // only the Regulator can revoke
+      await expect(
+        manager.connect(logistics).advanceStatus(productId, ProcessStatus.Revoked),
+      ).to.be.revertedWith("ProcessManager: role not allowed");
+    });
+
+    it("Should reject ProcessStatus.Unknown", async function () {
+      const { manager, producer } = await networkHelpers.loadFixture(createdFixture);
+
+      await expect(
+        manager.connect(producer).advanceStatus(productId, ProcessStatus.Unknown),
+      ).to.be.revertedWith("ProcessManager: invalid status");
+    });
+
+    it("Should reject a missing process", async function () {
+      const { manager, producer } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        manager.connect(producer).advanceStatus(productId, ProcessStatus.InTransit),
+      ).to.be.revertedWith("ProcessManager: process missing");
+    });
+
+    it("Should reject backwards moves that are not configured", async function () {
+      const { manager, logistics, retailer } = await networkHelpers.loadFixture(createdFixture);
+
+      await manager.connect(logistics).advanceStatus(productId, ProcessStatus.InTransit);
+      await manager.connect(retailer).advanceStatus(productId, ProcessStatus.AtRetail);
+
+      await expect(
+        manager.connect(logistics).advanceStatus(productId, ProcessStatus.InTransit),
+      ).to.be.revertedWith("ProcessManager: transition not allowed");
+    });
+
+    it("Should allow lifting a suspension back into transit", async function () {
+      const { manager, logistics, retailer, regulator, certifier } =
+        await networkHelpers.loadFixture(createdFixture);
+
+      await manager.connect(logistics).advanceStatus(productId, ProcessStatus.InTransit);
+      await manager.connect(certifier).advanceStatus(productId, ProcessStatus.Suspended);
+
+      // suspension is lifted by a Regulator, not by the supply-chain roles
+      await expect(
+        manager.connect(logistics).advanceStatus(productId, ProcessStatus.InTransit),
+      ).to.be.revertedWith("ProcessManager: role not allowed");
+      await expect(manager.connect(regulator).advanceStatus(productId, ProcessStatus.InTransit))
+        .to.emit(manager, "ProcessStatusChanged")
+        .withArgs(productId, ProcessStatus.Suspended, ProcessStatus.InTransit, toBytes32("org:regulator"), regulator.address);
+
+      await manager.connect(retailer).advanceStatus(productId, ProcessStatus.AtRetail);
+      await manager.connect(retailer).advanceStatus(productId, ProcessStatus.Sold);
+      await manager.connect(certifier).advanceStatus(productId, ProcessStatus.Certified);
+      expect(await manager.getStatus(productId)).to.equal(ProcessStatus.Certified);
+    });
+
+    it("Should treat Revoked as terminal", async function () {
+      const { manager, regulator } = await networkHelpers.loadFixture(createdFixture);
+
+      await manager.connect(regulator).advanceStatus(productId, ProcessStatus.Revoked);
+
+      await expect(
+        manager.connect(regulator).advanceStatus(productId, ProcessStatus.Suspended),
+      ).to.be.revertedWith("ProcessManager: transition not allowed");
+    });
+
+    it("Should reject unregistered and inactive actors", async function () {
+      const { registry, manager, logistics, outsider, logisticsOrg } =
+        await networkHelpers.loadFixture(createdFixture);
+
+      await expect(
+        manager.connect(outsider).advanceStatus(productId, ProcessStatus.InTransit),
+      ).to.be.revertedWith("ProcessManager: actor not active");
+
+      await registry.updateActorStatus(logisticsOrg, Status.Revoked);
+      await expect(
+        manager.connect(logistics).advanceStatus(productId, ProcessStatus.InTransit),
+      ).to.be.revertedWith("ProcessManager: actor not active");
+    });
+  });
+
+  describe("Transition graph", function () {
+    it("Should seed the default graph", async function () {
+      const { manager } = await networkHelpers.loadFixture(deployFixture);
+      const client = new ProcessManagerClient(await manager.getAddress(), ethers.provider);
+
+      const graph = await readTransitionGraph(client);
+      const key = (e: { from: number; to: number }) => `${e.from}->${e.to}`;
+      expect(graph.map((e) => [key(e), e.roles])).to.have.deep.members(
+        DEFAULT_TRANSITIONS.map((e) => [key(e), [...e.roles].sort((a, b) => a - b)]),
+      );
+
+      await expect(manager.deploymentTransaction())
+        .to.emit(manager, "TransitionSet")
+        .withArgs(ProcessStatus.Sold, ProcessStatus.Certified, typesToMask([Role.Certifier]));
+    });
+
+    it("Should let the registry owner add, change and remove transitions", async function () {
+      const { manager, producer, retailer } = await networkHelpers.loadFixture(createdFixture);
+      const mask = typesToMask([Role.Producer]);
+
+      await expect(manager.setTransition(ProcessStatus.Created, ProcessStatus.Sold, mask))
+        .to.emit(manager, "TransitionSet")
+        .withArgs(ProcessStatus.Created, ProcessStatus.Sold, mask);
+      expect(await manager.transitionRoles(ProcessStatus.Created, ProcessStatus.Sold)).to.equal(mask);
+      expect(await manager.isTransitionAllowed(ProcessStatus.Created, ProcessStatus.Sold, Role.Producer)).to.equal(
+        true,
+      );
+      expect(await manager.isTransitionAllowed(ProcessStatus.Created, ProcessStatus.Sold, Role.Retailer)).to.equal(
+        false,
+      );
+
+      await expect(
+        manager.connect(retailer).advanceStatus(productId, ProcessStatus.Sold),
+      ).to.be.revertedWith("ProcessManager: role not allowed");
+      await manager.connect(producer).advanceStatus(productId, ProcessStatus.Sold);
+
+      await manager.setTransition(ProcessStatus.Sold, ProcessStatus.Certified, 0n);
+      expect(await manager.transitionRoles(ProcessStatus.Sold, ProcessStatus.Certified)).to.equal(0n);
+    });
+
+    it("Should validate setTransition arguments", async function () {
+      const { manager } = await networkHelpers.loadFixture(deployFixture);
+      const mask = typesToMask([Role.Operator]);
+
+      await expect(
+        manager.setTransition(ProcessStatus.Unknown, ProcessStatus.Created, mask),
+      ).to.be.revertedWith("ProcessManager: invalid status");
+      await expect(
+        manager.setTransition(ProcessStatus.Created, ProcessStatus.Unknown, mask),
+      ).to.be.revertedWith("ProcessManager: invalid status");
+      await expect(
+        manager.setTransition(ProcessStatus.Sold, ProcessStatus.Sold, mask),
+      ).to.be.revertedWith("ProcessManager: self transition");
+      await expect(
+        manager.setTransition(ProcessStatus.Created, ProcessStatus.Sold, typesToMask([Role.None])),
+      ).to.be.revertedWith("ProcessManager: invalid role");
+    });
+
+    it("Should only allow the ActorRegistry owner to edit the graph", async function () {
+      const { manager, regulator } = await networkHelpers.loadFixture(deployFixture);
+
+      await expect(
+        manager.connect(regulator).setTransition(ProcessStatus.Revoked, ProcessStatus.Created, 1n << 6n),
+      ).to.be.revertedWith("ProcessManager: only registry owner");
+    });
+
+    it("Should agree with validateScenario on what advanceStatus accepts", async function () {
+      const { manager, logistics, retailer } = await networkHelpers.loadFixture(createdFixture);
+      const graph = await readTransitionGraph(new ProcessManagerClient(await manager.getAddress(), ethers.provider));
+
+      const good = validateScenario(graph, ProcessStatus.Created, [
+        { to: ProcessStatus.InTransit, role: Role.Logistics },
+        { to: ProcessStatus.AtRetail, role: Role.Retailer },
+      ]);
+      expect(good).to.deep.equal({ ok: true, finalStatus: ProcessStatus.AtRetail });
+
+      const bad = validateScenario(graph, ProcessStatus.AtRetail, [
+        { to: ProcessStatus.Sold, role: Role.Logistics },
+      ]);
+      expect(bad.ok).to.equal(false);
+      expect(bad.issue?.index).to.equal(0);
+
+      await manager.connect(logistics).advanceStatus(productId, ProcessStatus.InTransit);
+      await manager.connect(retailer).advanceStatus(productId, ProcessStatus.AtRetail);
+      await expect(
+        manager.connect(logistics).advanceStatus(productId, ProcessStatus.Sold),
+      ).to.be.revertedWith("ProcessManager: role not allowed");
+    });
+  });
+
+  describe("Batch entry points", function () {
+    const ids = ["batch-1", "batch-2", "batch-3"].map(toBytes32);
+
+    it("Should create every process in a batch with the caller's org", async function () {
+      const { manager, producer, producerOrg } = await networkHelpers.loadFixture(deployFixture);
+
+      const tx = manager.connect(producer).createProcessBatch(ids);
+      for (const id of ids) {
+        await expect(tx).to.emit(manager, "ProcessCreated").withArgs(id, producerOrg);
+        await expect(tx)
+          .to.emit(manager, "ProcessStatusChanged")
+          .withArgs(id, ProcessStatus.Unknown, ProcessStatus.Created, producerOrg, producer.address);
+      }
+      for (const id of ids) {
+        expect(await manager.getProcess(id)).to.deep.equal([BigInt(ProcessStatus.Created), producerOrg]);
+      }
+    });
+
+    it("Should reject empty batches", async function () {
+      const { manager, producer } = await networkHelpers.loadFixture(createdFixture);
+
+      await expect(manager.connect(producer).createProcessBatch([])).to.be.revertedWith(
+        "ProcessManager: empty batch",
+      );
+      await expect(manager.connect(producer).advanceStatusBatch([])).to.be.revertedWith(
+        "ProcessManager: empty batch",
+      );
+    });
+
+    it("Should revert the whole createProcessBatch on a zero, existing or repeated productId", async function () {
+      const { manager, producer } = await networkHelpers.loadFixture(createdFixture);
+      const fresh = toBytes32("batch-9");
+
+      await expect(
+        manager.connect(producer).createProcessBatch([fresh, ethers.ZeroHash]),
+      ).to.be.revertedWith("ProcessManager: zero productId");
+      await expect(
+        manager.connect(producer).createProcessBatch([fresh, productId]),
+      ).to.be.revertedWith("ProcessManager: already exists");
+      await expect(
+        manager.connect(producer).createProcessBatch([fresh, fresh]),
+      ).to.be.revertedWith("ProcessManager: already exists");
+      expect(await manager.getStatus(fresh)).to.equal(ProcessStatus.Unknown);
+    });
+
+    it("Should reject inactive callers", async function () {
+      const { registry, manager, producer, outsider, producerOrg } =
+        await networkHelpers.loadFixture(createdFixture);
+
+      await expect(manager.connect(outsider).createProcessBatch(ids)).to.be.revertedWith(
+        "ProcessManager: actor not active",
+      );
+      await registry.updateActorStatus(producerOrg, Status.Suspended);
+      await expect(
+        manager.connect(producer).advanceStatusBatch([{ productId, newStatus: ProcessStatus.InTransit }]),
+      ).to.be.revertedWith("ProcessManager: actor not active");
+    });
+
+    it("Should apply status updates in order, including several for one product", async function () {
+      const { manager, owner, logistics } = await networkHelpers.loadFixture(createdFixture);
+      await manager.connect(logistics).createProcessBatch(ids.slice(1));
+
+      // Operator: may walk Created -> InTransit -> AtRetail -> Sold on its own
+      const operatorOrg = toBytes32("org:operator");
+      const registry = await ethers.getContractAt("ActorRegistry", await manager.actorRegistry());
+      await registry.registerActor(operatorOrg, owner.address, Role.Operator, ethers.ZeroHash);
+
+      const updates = [
+        { productId, newStatus: ProcessStatus.InTransit },
+        { productId: ids[1], newStatus: ProcessStatus.InTransit },
+        { productId, newStatus: ProcessStatus.AtRetail },
+        { productId, newStatus: ProcessStatus.Sold },
+      ];
+      const tx = manager.connect(owner).advanceStatusBatch(updates);
+      await expect(tx)
+        .to.emit(manager, "ProcessStatusChanged")
+        .withArgs(productId, ProcessStatus.AtRetail, ProcessStatus.Sold, operatorOrg, owner.address);
+
+      const receipt = await (await tx).wait();
+      const changes = receipt!.logs.map((log) => {
+        const { args } = manager.interface.parseLog(log)!;
+        return [args.productId, Number(args.previousStatus), Number(args.newStatus)];
+      });
+      expect(changes).to.deep.equal([
+        [productId, ProcessStatus.Created, ProcessStatus.InTransit],
+        [ids[1], ProcessStatus.Created, ProcessStatus.InTransit],
+        [productId, ProcessStatus.InTransit, ProcessStatus.AtRetail],
+        [productId, ProcessStatus.AtRetail, ProcessStatus.Sold],
+      ]);
+      expect(await manager.getStatus(productId)).to.equal(ProcessStatus.Sold);
+      expect(await manager.getStatus(ids[2])).to.equal(ProcessStatus.Created);
+    });
+
+    it("Should revert the whole advanceStatusBatch if any update is rejected", async function () {
+      const { manager, logistics } = await networkHelpers.loadFixture(createdFixture);
+      await manager.connect(logistics).createProcessBatch(ids.slice(1));
+
+      await expect(
+        manager.connect(logistics).advanceStatusBatch([
+          { productId, newStatus: ProcessStatus.InTransit },
+          { productId: ids[1], newStatus: ProcessStatus.Sold },
+        ]),
+      ).to.be.revertedWith("ProcessManager: transition not allowed");
+      await expect(
+        manager.connect(logistics).advanceStatusBatch([
+          { productId, newStatus: ProcessStatus.InTransit },
+          { productId, newStatus: ProcessStatus.AtRetail },
+          { productId, newStatus: ProcessStatus.Sold },
+        ]),
+      ).to.be.revertedWith("ProcessManager: role not allowed");
+      await expect(
+        manager.connect(logistics).advanceStatusBatch([{ productId: ids[2], newStatus: ProcessStatus.Unknown }]),
+      ).to.be.revertedWith("ProcessManager: invalid status");
+      await expect(
+        manager.connect(logistics).advanceStatusBatch([{ productId: toBytes32("nope"), newStatus: ProcessStatus.InTransit }]),
+      ).to.be.revertedWith("ProcessManager: process missing");
+
+      expect(await manager.getStatus(productId)).to.equal(ProcessStatus.Created);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import http from "http";
+import type { AddressInfo } from "net";
+
+import {
+  RpcFaultProxy,
+  RpcResponseError,
+  RpcTransport,
+  isBackendDownError,
+  isRateLimitError,
+  isRejectedRpcError,
+  parseLatencyDistribution,
+  rpcFaultProxyOptionsFromEnv,
+  withRpcRetry,
+  type RpcFaultProxyOptions,
+  type RpcTransportEvent,
+} from "../src/index.js";
+
+describe("RpcFaultProxy", function () {
+  // a node answering eth_chainId, eth_blockNumber and eth_sendRawTransaction, batches included
+  async function withNode(run: (url: string, calls: string[]) => Promise<void>) {
+    const calls: string[] = [];
+    const answer = ({ id, method }: { id: number; method: string }) => {
+      calls.push(method);
+      const result = { eth_chainId: "0x7a69", eth_blockNumber: "0x2a", eth_sendRawTransaction: "0x" + "ab".repeat(32) }[method];
+      return result ? { jsonrpc: "2.0", id, result } : { jsonrpc: "2.0", id, error: { code: -32601, message: "method not found" } };
+    };
+    const server = http.createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const parsed = JSON.parse(body);
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(Array.isArray(parsed) ? parsed.map(answer) : answer(parsed)));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, calls);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  async function withProxies(
+    options: Omit<RpcFaultProxyOptions, "upstream">[],
+    run: (proxies: RpcFaultProxy[], calls: string[]) => Promise<void>,
+  ) {
+    await withNode(async (upstream, calls) => {
+      const proxies = options.map((o) => new RpcFaultProxy({ upstream, ...o }));
+      try {
+        for (const proxy of proxies) await proxy.start();
+        await run(proxies, calls);
+      } finally {
+        for (const proxy of proxies) await proxy.close();
+      }
+    });
+  }
+
+  async function post(url: string, body: unknown): Promise<{ status: number; body: any }> {
+    const res = await fetch(url, { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(body) });
+    const text = await res.text();
+    return { status: res.status, body: res.headers.get("content-type")?.includes("json") ? JSON.parse(text) : text };
+  }
+
+  const call = (id: number, method = "eth_blockNumber") => ({ jsonrpc: "2.0", id, method, params: [] });
+
+  it("rate-limits calls per second with -32016 or HTTP 429, batches call by call", async function () {
+    await withProxies([{ requestsPerSecond: 3 }, { requestsPerSecond: 1, rateLimitHttp: true }], async ([jsonrpc, http429], calls) => {
+      // stay inside one wall-clock second
+      await new Promise((resolve) => setTimeout(resolve, 1000 - (Date.now() % 1000)));
+
+      const batch = await post(jsonrpc.url, [call(1), call(2), call(3, "eth_chainId"), call(4)]);
+      expect(batch.status).to.equal(200);
+      expect(batch.body.map((a: any) => a.result ?? a.error.code)).to.deep.equal(["0x2a", "0x2a", "0x7a69", -32016]);
+      expect(isRateLimitError(batch.body[3])).to.equal(true);
+      expect(calls).to.deep.equal(["eth_blockNumber", "eth_blockNumber", "eth_chainId"]);
+      expect(jsonrpc.stats).to.include({ calls: 4, forwarded: 3, rateLimited: 1 });
+
+      expect((await post(http429.url, call(1))).body.result).to.equal("0x2a");
+      expect(await post(http429.url, call(2))).to.deep.equal({ status: 429, body: "Too Many Requests" });
+    });
+  });
+
+  it("injects -32011, underpriced transactions and dropped answers that the transport and retries handle", async function () {
+    await withProxies([{ exemptMethods: ["eth_chainId"] }, {}], async ([a, b], calls) => {
+      const events: RpcTransportEvent[] = [];
+      const transport = new RpcTransport({ endpoints: [a.url, b.url], cooldownMs: 5_000, onEvent: (e) => events.push(e) });
+
+      a.inject("backendDown", 1, "eth_blockNumber");
+      expect(await transport.request("eth_blockNumber")).to.equal("0x2a");
+      expect(events[0]).to.include({ type: "failover", method: "eth_blockNumber" });
+      expect(events[0].type === "failover" && isBackendDownError({ message: events[0].error })).to.equal(true);
+      expect(a.stats).to.include({ backendDown: 1, forwarded: 1 });
+
+      // underpriced only hits transactions, and is an answer about the transaction: no failover
+      b.inject("underpriced");
+      expect(await transport.request("eth_blockNumber")).to.equal("0x2a");
+      const rejected = await transport.request("eth_sendRawTransaction", ["0x02"]).catch((e: unknown) => e);
+      expect(rejected).to.be.instanceOf(RpcResponseError);
+      expect(rejected).to.include({ code: -32000, message: "eth_sendRawTransaction: replacement transaction underpriced (-32000)" });
+      expect(isRejectedRpcError(rejected)).to.equal(false);
+      expect(calls.filter((m) => m === "eth_sendRawTransaction")).to.deep.equal([]);
+
+      // a dropped call did reach the node: retried until an answer comes back
+      b.inject("drop", 2, "eth_blockNumber");
+      const before = calls.length;
+      let tries = 0;
+      const value = await withRpcRetry(
+        () => {
+          tries++;
+          return new RpcTransport({ endpoints: [b.url], maxAttempts: 1, chainId: false }).request("eth_blockNumber");
+        },
+        { baseDelayMs: 1 },
+      );
+      expect([value, tries]).to.deep.equal(["0x2a", 3]);
+      expect(calls.length - before).to.equal(3);
+      expect(b.stats.dropped).to.equal(2);
+    });
+  });
+
+  it("answers invalid requests with -32600 and drops batch answers call by call", async function () {
+    await withProxies([{}], async ([proxy], calls) => {
+      for (const body of [null, 42, "eth_blockNumber", [], { id: 1 }]) {
+        const answer = await post(proxy.url, body);
+        expect(answer.status, JSON.stringify(body)).to.equal(200);
+        expect(answer.body).to.deep.equal({ jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid Request" } });
+      }
+      const mixed = await post(proxy.url, [call(1), null, call(2)]);
+      expect(mixed.body.map((a: any) => a.result ?? a.error.code)).to.deep.equal(["0x2a", -32600, "0x2a"]);
+      expect(calls).to.deep.equal(["eth_blockNumber", "eth_blockNumber"]);
+
+      // the dropped call reaches the node, only its answer is missing
+      proxy.inject("drop", 1, "eth_chainId");
+      const partial = await post(proxy.url, [call(1), call(2, "eth_chainId"), call(3)]);
+      expect(partial.body.map((a: any) => a.id)).to.deep.equal([1, 3]);
+      expect(calls.slice(2)).to.deep.equal(["eth_blockNumber", "eth_chainId", "eth_blockNumber"]);
+
+      proxy.inject("drop", 2);
+      const lost = await post(proxy.url, [call(1), call(2)]).catch((e: Error) => e);
+      expect(lost).to.be.instanceOf(Error);
+      expect(proxy.stats.dropped).to.equal(3);
+      expect((await post(proxy.url, call(4))).body.result).to.equal("0x2a");
+    });
+  });
+
+  it("draws the same faults and latencies for the same seed", async function () {
+    const profile = { seed: 7, backendDownRate: 0.3, dropRate: 0.1, latency: parseLatencyDistribution("uniform:5,15") };
+    await withProxies([profile, profile, { ...profile, seed: 8 }], async (proxies) => {
+      const outcomes: string[][] = [];
+      for (const proxy of proxies) {
+        const seen: string[] = [];
+        for (let id = 1; id <= 20; id++) {
+          const answer = await post(proxy.url, call(id)).catch(() => ({ status: 0, body: "dropped" }));
+          seen.push(answer.body?.error?.code ?? answer.body?.result ?? answer.body);
+        }
+        outcomes.push(seen);
+      }
+      expect(outcomes[0]).to.deep.equal(outcomes[1]);
+      expect(outcomes[0]).to.not.deep.equal(outcomes[2]);
+      expect(outcomes[0]).to.include.members([-32011, "0x2a"]);
+      expect(proxies[0].stats).to.deep.equal(proxies[1].stats);
+      expect(proxies[0].stats.latencyMs).to.be.within(100, 300);
+    });
+  });
+
+  it("parses latency distributions and reads its options from env", function () {
+    expect(parseLatencyDistribution("")).to.equal(undefined);
+    expect(parseLatencyDistribution("25")).to.deep.equal({ kind: "fixed", ms: 25 });
+    expect(parseLatencyDistribution("normal:120, 40")).to.deep.equal({ kind: "normal", meanMs: 120, stdDevMs: 40 });
+    expect(parseLatencyDistribution("exponential:80")).to.deep.equal({ kind: "exponential", meanMs: 80 });
+    expect(() => parseLatencyDistribution("uniform:200,10")).to.throw("max below min");
+    expect(() => parseLatencyDistribution("normal:5")).to.throw("normal takes 2 value(s)");
+    expect(() => parseLatencyDistribution("pareto:1")).to.throw('unknown distribution "pareto"');
+
+    expect(
+      rpcFaultProxyOptionsFromEnv({
+        RPC_PROXY_LATENCY: "uniform:10,200",
+        RPC_PROXY_RPS: "20",
+        RPC_PROXY_UNDERPRICED_RATE: "0.05",
+        RPC_PROXY_EXEMPT_METHODS: "eth_chainId, net_version",
+      }),
+    ).to.deep.equal({
+      upstream: "http://127.0.0.1:8545",
+      port: 8546,
+      host: "127.0.0.1",
+      latency: { kind: "uniform", minMs: 10, maxMs: 200 },
+      requestsPerSecond: 20,
+      rateLimitHttp: false,
+      backendDownRate: 0,
+      underpricedRate: 0.05,
+      dropRate: 0,
+      dropMode: "reset",
+      exemptMethods: ["eth_chainId", "net_version"],
+      seed: 1,
+    });
+    expect(() => rpcFaultProxyOptionsFromEnv({ RPC_PROXY_DROP_MODE: "slow" })).to.throw("RPC_PROXY_DROP_MODE");
+    expect(() => new RpcFaultProxy({ upstream: "http://127.0.0.1:8545", dropRate: 2 })).to.throw("dropRate must be between 0 and 1");
+  });
+});
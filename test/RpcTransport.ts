@@ -0,0 +1,206 @@
+import { expect } from "chai";
+import { keccak256 } from "ethers";
+import http from "http";
+import type { AddressInfo } from "net";
+
+import {
+  FailoverProvider,
+  RpcResponseError,
+  RpcTransport,
+  RpcTransportError,
+  isHedgeableMethod,
+  isRateLimitError,
+  isTransientRpcError,
+  rpcEndpointsFromEnv,
+  withRpcRetry,
+  type RpcTransportEvent,
+} from "../src/index.js";
+
+type Reply = { result?: unknown; error?: { code: number; message: string; data?: string }; status?: number; delayMs?: number };
+
+describe("RPC transport", function () {
+  const servers: http.Server[] = [];
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // a JSON-RPC endpoint answering eth_chainId with `chainId` and everything else with `handle`
+  async function stubRpc(handle: (method: string, params: unknown[]) => Reply, chainId = "0x7a69") {
+    const calls: string[] = [];
+    const server = http.createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const { id, method, params } = JSON.parse(body);
+      if (method !== "eth_chainId") calls.push(method);
+      const reply = method === "eth_chainId" ? { result: chainId } : handle(method, params);
+      if (reply.delayMs) await sleep(reply.delayMs);
+      if (reply.status) {
+        res.writeHead(reply.status).end("upstream busy");
+        return;
+      }
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, ...(reply.error ? { error: reply.error } : { result: reply.result }) }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    servers.push(server);
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, calls };
+  }
+
+  async function withStubs(run: () => Promise<void>) {
+    try {
+      await run();
+    } finally {
+      for (const server of servers.splice(0)) {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    }
+  }
+
+  it("fails over on -32016, -32011 and HTTP 429, and passes other errors through", async function () {
+    await withStubs(async () => {
+      let down = 1;
+      const rateLimited = { code: -32016, message: "over rate limit: exceeded its requests per second capacity" };
+      const noBackend = { code: -32011, message: "no backend is currently healthy to serve traffic" };
+      const limited = await stubRpc(() => ({ error: rateLimited }));
+      const flaky = await stubRpc(() => (down-- > 0 ? { error: noBackend } : { result: "0x11" }));
+      const throttled = await stubRpc(() => ({ status: 429 }));
+      const good = await stubRpc((method) =>
+        method === "eth_call" ? { error: { code: 3, message: "execution reverted", data: "0x08c379a0" } } : { result: "0x10" },
+      );
+      const events: RpcTransportEvent[] = [];
+      const transport = new RpcTransport({
+        endpoints: [limited.url, flaky.url, throttled.url, good.url],
+        cooldownMs: 5_000,
+        onEvent: (e) => events.push(e),
+      });
+
+      expect(await transport.request("eth_blockNumber")).to.equal("0x10");
+      expect(events.map((e) => e.type)).to.deep.equal(["failover", "failover", "failover"]);
+      // the failed endpoints cool down, so the next requests go straight to the good one
+      expect(await transport.request("eth_gasPrice")).to.equal("0x10");
+      const reverted = await transport.request("eth_call", [{}, "latest"]).catch((e: unknown) => e);
+      expect(reverted).to.be.instanceOf(RpcResponseError);
+      expect(reverted).to.include({ code: 3, data: "0x08c379a0" });
+      expect(isTransientRpcError(reverted)).to.equal(false);
+      expect(good.calls).to.deep.equal(["eth_blockNumber", "eth_gasPrice", "eth_call"]);
+
+      const stats = transport.health();
+      expect(stats).to.include({ requests: 3, failovers: 3, hedges: 0 });
+      expect(stats.endpoints[0]).to.include({ url: good.url, requests: 3, failures: 0, errorRate: 0 });
+      const byUrl = Object.fromEntries(stats.endpoints.map((e) => [e.url, e]));
+      expect(byUrl[limited.url]).to.include({ failures: 1, rateLimited: 1, consecutiveFailures: 1, errorRate: 0.2 });
+      expect(byUrl[throttled.url]).to.include({ rateLimited: 1, lastError: "HTTP 429: upstream busy" });
+      expect(byUrl[flaky.url].coolingDownMs).to.be.greaterThan(4_000);
+
+      // one endpoint that stays rate-limited: the last error is classified like the JSON-RPC one
+      const alone = new RpcTransport({ endpoints: [limited.url], maxAttempts: 3, cooldownMs: 5 });
+      const exhausted = await alone.request("eth_blockNumber").catch((e: unknown) => e);
+      expect(exhausted).to.be.instanceOf(RpcTransportError);
+      expect((exhausted as RpcTransportError).attempts).to.have.length(3);
+      expect(isRateLimitError(exhausted)).to.equal(true);
+    });
+  });
+
+  it("balances concurrent requests and excludes endpoints of another chain", async function () {
+    await withStubs(async () => {
+      const a = await stubRpc(() => ({ result: "0x1", delayMs: 20 }));
+      const b = await stubRpc(() => ({ result: "0x1", delayMs: 20 }));
+      const other = await stubRpc(() => ({ result: "0x1" }), "0xaa37dc");
+      const events: RpcTransportEvent[] = [];
+      const transport = new RpcTransport({ endpoints: [a.url, b.url], onEvent: (e) => events.push(e) });
+
+      await Promise.all(Array.from({ length: 8 }, () => transport.request("eth_blockNumber")));
+      expect(a.calls.length + b.calls.length).to.equal(8);
+      expect(a.calls.length).to.be.greaterThan(0);
+      expect(b.calls.length).to.be.greaterThan(0);
+      for (const e of transport.health().endpoints) expect(e.latencyMs).to.be.greaterThan(15);
+
+      // the primary's chain wins; a public endpoint of OP Sepolia is never used for a local node
+      const mixed = new RpcTransport({
+        endpoints: [{ url: other.url, label: "public" }, a.url],
+        chainId: 31337,
+        onEvent: (e) => events.push(e),
+      });
+      expect(await mixed.request("eth_blockNumber")).to.equal("0x1");
+      expect(events.at(-2)).to.deep.equal({ type: "excluded", endpoint: "public", reason: "chain 11155420, expected 31337" });
+      expect(mixed.health().endpoints.at(-1)).to.include({ excluded: "chain 11155420, expected 31337", coolingDownMs: 0 });
+      expect(await mixed.request("eth_blockNumber")).to.equal("0x1");
+      expect(other.calls).to.deep.equal([]);
+    });
+  });
+
+  it("hedges slow reads, never transactions, and resolves resent transactions", async function () {
+    await withStubs(async () => {
+      const slow = await stubRpc((method) => (method === "eth_sendRawTransaction" ? { status: 503 } : { result: "0xslow", delayMs: 400 }));
+      const fast = await stubRpc((method) =>
+        method === "eth_sendRawTransaction" ? { error: { code: -32000, message: "already known" } } : { result: "0xfast" },
+      );
+      let transport = new RpcTransport({ endpoints: [slow.url, fast.url], hedgeMs: 50 });
+
+      const started = Date.now();
+      expect(await transport.request("eth_getBalance", ["0x0000000000000000000000000000000000000001", "latest"])).to.equal("0xfast");
+      expect(Date.now() - started).to.be.lessThan(300);
+      expect(transport.health()).to.include({ hedges: 1, hedgeWins: 1 });
+
+      expect(isHedgeableMethod("eth_getLogs")).to.equal(true);
+      for (const method of ["eth_sendRawTransaction", "eth_newFilter", "eth_signTypedData_v4", "hardhat_mine"]) {
+        expect(isHedgeableMethod(method), method).to.equal(false);
+      }
+
+      // the 503 may have come after the node took the transaction: the resend's "already known" is its hash
+      transport = new RpcTransport({ endpoints: [slow.url, fast.url], hedgeMs: 50 });
+      const raw = "0x02f86c827a6980843b9aca00850ba43b740082520894000000000000000000000000000000000000000180";
+      expect(await transport.request("eth_sendRawTransaction", [raw])).to.equal(keccak256(raw));
+      expect(slow.calls.filter((m) => m === "eth_sendRawTransaction")).to.have.length(1);
+      expect(fast.calls.filter((m) => m === "eth_sendRawTransaction")).to.have.length(1);
+      expect(transport.health()).to.include({ failovers: 1, hedges: 0 });
+    });
+  });
+
+  it("serves ethers through the failover provider and builds endpoints from env", async function () {
+    await withStubs(async () => {
+      const good = await stubRpc((method) => ({ result: method === "eth_blockNumber" ? "0x2a" : "0x0" }));
+      // nothing listens there any more
+      const closed = await stubRpc(() => ({ result: "0x0" }));
+      const dead = servers.pop()!;
+      dead.closeAllConnections();
+      await new Promise((resolve) => dead.close(resolve));
+
+      const provider = new FailoverProvider([closed.url, good.url]);
+      try {
+        expect(await provider.getBlockNumber()).to.equal(42);
+        expect((await provider.getNetwork()).chainId).to.equal(31337n);
+        const [deadHealth] = provider.transport.health().endpoints.filter((e) => e.url === closed.url);
+        expect(deadHealth.failures).to.be.greaterThan(0);
+      } finally {
+        provider.destroy();
+      }
+
+      let tries = 0;
+      const value = await withRpcRetry(
+        async () => {
+          if (++tries < 3) throw Object.assign(new Error("could not coalesce error"), { error: { code: -32011, message: "no backend" } });
+          return "ok";
+        },
+        { baseDelayMs: 1 },
+      );
+      expect([value, tries]).to.deep.equal(["ok", 3]);
+      tries = 0;
+      const nonceTooLow = async () => Promise.reject(new Error(`nonce too low (${++tries})`));
+      const answer = await withRpcRetry(nonceTooLow, { baseDelayMs: 1 }).catch((e: Error) => e.message);
+      expect(answer).to.equal("nonce too low (1)");
+
+      expect(
+        rpcEndpointsFromEnv({
+          OP_SEPOLIA_RPC_URL: "https://primary.example",
+          OP_SEPOLIA_PRIVATE_RPCS_JSON: '["https://private.example", "wss://ws.example"]',
+          OP_SEPOLIA_PUBLIC_RPCS_JSON: '["https://primary.example", "https://public.example"]',
+        }),
+      ).to.deep.equal(["https://primary.example", "https://private.example", "https://public.example"]);
+      const local = { OP_SEPOLIA_RPC_URL: "http://127.0.0.1:8545", OP_SEPOLIA_PUBLIC_RPCS_JSON: '["https://p"]', RPC_FAILOVER: "0" };
+      expect(rpcEndpointsFromEnv(local))
+        .to.deep.equal(["http://127.0.0.1:8545"]);
+      expect(() => rpcEndpointsFromEnv({})).to.throw("Missing env var: OP_SEPOLIA_RPC_URL");
+      expect(() => rpcEndpointsFromEnv({ OP_SEPOLIA_PUBLIC_RPCS_JSON: "{}" })).to.throw("must be a JSON array");
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// The five FairTrade contracts on one ActorRegistry with an active Operator
+// org, shared by the tests that index, decode or audit their events. Takes the
+// test file's own connection so loadFixture snapshots the same chain.
+
+import type { NetworkConnection } from "hardhat/types/network";
+
+import { Role, toBytes32 } from "../../src/index.js";
+
+type Ethers = NetworkConnection<"op">["ethers"];
+
+export const OPERATOR_ORG = toBytes32("org:operator");
+
+/**
+ * Signers 0 and 1 are the registry owner and the Operator; the default
+ * PaymentRouter splits pay 70% to signer 2 and 25% to signer 3.
+ */
+export async function deployFairtrade(ethers: Ethers) {
+  const [owner, operator, ...others] = await ethers.getSigners();
+  const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+  const registry = await ethers.deployContract("ActorRegistry", [owner.address]);
+  const registryAddress = await registry.getAddress();
+  const documents = await ethers.deployContract("DocumentRegistry", [registryAddress]);
+  const manager = await ethers.deployContract("ProcessManager", [registryAddress]);
+  const rollup = await ethers.deployContract("CidRollup", [registryAddress]);
+  const router = await ethers.deployContract("PaymentRouter", [registryAddress, [others[0].address, others[1].address], [7000, 2500]]);
+
+  await registry.registerActor(OPERATOR_ORG, operator.address, Role.Operator, toBytes32("meta:operator"));
+
+  const addresses = {
+    ActorRegistry: registryAddress,
+    DocumentRegistry: await documents.getAddress(),
+    ProcessManager: await manager.getAddress(),
+    CidRollup: await rollup.getAddress(),
+    PaymentRouter: await router.getAddress(),
+  };
+  return { owner, operator, others, registry, documents, manager, rollup, router, addresses, fromBlock };
+}